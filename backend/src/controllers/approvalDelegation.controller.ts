@@ -0,0 +1,102 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as approvalDelegationService from '../services/approvalDelegation.service';
+import { logger } from '../utils/logger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const getDelegations = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await approvalDelegationService.getDelegations(req.user!.id);
+    res.json(result);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [APPROVAL DELEGATION] [GET DELEGATIONS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const getDelegateCandidates = async (req: AuthRequest, res: Response) => {
+  try {
+    const candidates = await approvalDelegationService.getDelegateCandidates(req.user!.id);
+    res.json(candidates);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [APPROVAL DELEGATION] [GET CANDIDATES] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const createDelegation = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [APPROVAL DELEGATION] [CREATE] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [APPROVAL DELEGATION] [CREATE] User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const { delegateId, startDate, endDate, reason } = req.body;
+    if (!delegateId || !DATE_PATTERN.test(startDate || '') || !DATE_PATTERN.test(endDate || '')) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Delegate, start date and end date are required'
+        }
+      });
+    }
+
+    const delegation = await approvalDelegationService.createDelegation(req.user!.id, {
+      delegateId: parseInt(delegateId),
+      startDate,
+      endDate,
+      reason
+    });
+    res.status(201).json(delegation);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [APPROVAL DELEGATION] [CREATE] Error:`, error);
+    const isValidationError = ['cannot', 'must', 'already'].some((text) => error.message?.includes(text));
+    res.status(isValidationError ? 400 : 500).json({
+      error: {
+        code: isValidationError ? 'VALIDATION_ERROR' : 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const cancelDelegation = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid delegation ID'
+        }
+      });
+    }
+
+    await approvalDelegationService.cancelDelegation(id, req.user!.id, req.user!.role);
+    res.json({ message: 'Delegation cancelled' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [APPROVAL DELEGATION] [CANCEL] Error:`, error);
+    const status = error.message.includes('not found')
+      ? 404
+      : error.message.includes('Not authorized')
+        ? 403
+        : error.message.includes('already')
+          ? 400
+          : 500;
+    res.status(status).json({
+      error: {
+        code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : status === 400 ? 'VALIDATION_ERROR' : 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
@@ -0,0 +1,88 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as auditService from '../services/audit.service';
+import { logger } from '../utils/logger';
+
+const parseFilters = (req: AuthRequest): auditService.AuditLogFilters => {
+  const toNumber = (value: any) => {
+    const parsed = parseInt(value as string, 10);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  return {
+    actorId: toNumber(req.query.actorId),
+    entityType: (req.query.entityType as string) || undefined,
+    entityId: toNumber(req.query.entityId),
+    action: (req.query.action as string) || undefined,
+    startDate: (req.query.startDate as string) || undefined,
+    endDate: (req.query.endDate as string) || undefined,
+    page: toNumber(req.query.page),
+    limit: toNumber(req.query.limit)
+  };
+};
+
+export const getAuditLogs = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUDIT] [GET AUDIT LOGS] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [AUDIT] [GET AUDIT LOGS] User ID: ${req.user!.id}`);
+
+  try {
+    const result = await auditService.getAuditLogs(parseFilters(req));
+    res.json(result);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUDIT] [GET AUDIT LOGS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const getAuditFilterOptions = async (req: AuthRequest, res: Response) => {
+  try {
+    const options = await auditService.getAuditFilterOptions();
+    res.json(options);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUDIT] [GET FILTER OPTIONS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const exportAuditLogs = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUDIT] [EXPORT AUDIT LOGS] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [AUDIT] [EXPORT AUDIT LOGS] User ID: ${req.user!.id}`);
+
+  try {
+    const filters = parseFilters(req);
+    const logs = await auditService.getAuditLogsForExport(filters);
+
+    const { generateAuditLogExcel } = await import('../utils/excelGenerator');
+    const excelBuffer = await generateAuditLogExcel({
+      logs,
+      filters,
+      generatedBy: req.user!.name,
+      generatedAt: new Date().toISOString()
+    });
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename=audit-log-${new Date().toISOString().split('T')[0]}.xlsx`);
+    res.setHeader('Content-Length', excelBuffer.length);
+
+    res.send(excelBuffer);
+    logger.info(`[CONTROLLER] [AUDIT] [EXPORT AUDIT LOGS] Exported ${logs.length} entries`);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUDIT] [EXPORT AUDIT LOGS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
@@ -1,9 +1,37 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
 import * as authService from '../services/auth.service';
-import { verifyToken, generateAccessToken } from '../utils/jwt';
+import * as mfaService from '../services/mfa.service';
+import * as oidcService from '../services/oidc.service';
+import * as loginSecurityService from '../services/loginSecurity.service';
+import * as sessionService from '../services/session.service';
+import { generateAccessToken } from '../utils/jwt';
 import { logger } from '../utils/logger';
 
+const setRefreshCookie = (res: Response, refreshToken: string) => {
+  res.cookie('refreshToken', refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: sessionService.SESSION_IDLE_DAYS * 24 * 60 * 60 * 1000,
+    path: '/'
+  });
+};
+
+// Lockouts answer 429 so clients can tell them apart from a wrong password
+const isLockedOut = (error: any) => !!error?.message?.startsWith(loginSecurityService.LOCKED_MESSAGE_PREFIX);
+
+// Set the refresh token in an httpOnly cookie and hand the access token to the client
+const sendSession = (res: Response, result: authService.LoginResult, extra: Record<string, any> = {}) => {
+  setRefreshCookie(res, result.refreshToken);
+
+  res.json({
+    accessToken: result.accessToken,
+    user: result.user,
+    ...extra
+  });
+};
+
 export const login = async (req: AuthRequest, res: Response) => {
   logger.info(`[CONTROLLER] [AUTH] [LOGIN] ========== REQUEST RECEIVED ==========`);
   logger.info(`[CONTROLLER] [AUTH] [LOGIN] Email: ${req.body.email}`);
@@ -12,31 +40,146 @@ export const login = async (req: AuthRequest, res: Response) => {
     const { email, password } = req.body;
     const result = await authService.login(email, password);
 
-    // Set refresh token in httpOnly cookie
-    res.cookie('refreshToken', result.refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      path: '/'
-    });
+    // Second factor still to come: no session yet
+    if ('mfa' in result) {
+      logger.info(`[CONTROLLER] [AUTH] [LOGIN] Password accepted, two-factor ${result.mfa} pending`);
+      return res.json(result);
+    }
 
     logger.info(`[CONTROLLER] [AUTH] [LOGIN] Login successful - User ID: ${result.user.id}, Role: ${result.user.role}`);
-    res.json({
-      accessToken: result.accessToken,
-      user: result.user
-    });
+    sendSession(res, result);
   } catch (error: any) {
     logger.error(`[CONTROLLER] [AUTH] [LOGIN] Login failed:`, error);
-    res.status(401).json({
+    res.status(isLockedOut(error) ? 429 : 401).json({
       error: {
-        code: 'AUTH_FAILED',
+        code: isLockedOut(error) ? 'TOO_MANY_ATTEMPTS' : 'AUTH_FAILED',
         message: error.message || 'Invalid credentials'
       }
     });
   }
 };
 
+export const verifyMfaLogin = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [MFA VERIFY] ========== REQUEST RECEIVED ==========`);
+
+  try {
+    const { mfaToken, code } = req.body;
+    const result = await authService.completeMfaLogin(mfaToken, code);
+
+    logger.info(`[CONTROLLER] [AUTH] [MFA VERIFY] Login successful - User ID: ${result.user.id}, Role: ${result.user.role}`);
+    sendSession(res, result);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [MFA VERIFY] Verification failed:`, error);
+    res.status(isLockedOut(error) ? 429 : 401).json({
+      error: {
+        code: isLockedOut(error) ? 'TOO_MANY_ATTEMPTS' : 'MFA_FAILED',
+        message: error.message || 'Invalid verification code'
+      }
+    });
+  }
+};
+
+export const startMfaLoginSetup = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [MFA LOGIN SETUP] ========== REQUEST RECEIVED ==========`);
+
+  try {
+    const enrollment = await authService.startMfaLoginSetup(req.body.mfaToken);
+    res.json(enrollment);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [MFA LOGIN SETUP] Setup failed:`, error);
+    res.status(401).json({
+      error: {
+        code: 'MFA_FAILED',
+        message: error.message || 'Failed to start two-factor setup'
+      }
+    });
+  }
+};
+
+export const confirmMfaLoginSetup = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [MFA LOGIN SETUP CONFIRM] ========== REQUEST RECEIVED ==========`);
+
+  try {
+    const { mfaToken, code } = req.body;
+    const { recoveryCodes, ...result } = await authService.confirmMfaLoginSetup(mfaToken, code);
+
+    logger.info(`[CONTROLLER] [AUTH] [MFA LOGIN SETUP CONFIRM] Login successful - User ID: ${result.user.id}`);
+    sendSession(res, result, { recoveryCodes });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [MFA LOGIN SETUP CONFIRM] Setup failed:`, error);
+    res.status(isLockedOut(error) ? 429 : 401).json({
+      error: {
+        code: isLockedOut(error) ? 'TOO_MANY_ATTEMPTS' : 'MFA_FAILED',
+        message: error.message || 'Invalid verification code'
+      }
+    });
+  }
+};
+
+// Single sign-on round trip. The flow cookie is SameSite=Lax because the provider's redirect
+// back to the callback is a cross-site navigation.
+const OIDC_FLOW_COOKIE = 'oidcFlow';
+const OIDC_COOKIE_PATH = '/api/auth/oidc';
+const FRONTEND_URL = (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+export const getOidcConfig = async (req: AuthRequest, res: Response) => {
+  res.json(oidcService.getPublicConfig());
+};
+
+export const startOidcLogin = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [SSO START] ========== REQUEST RECEIVED ==========`);
+
+  try {
+    const { url, flowToken } = await oidcService.createAuthorizationRequest();
+    res.cookie(OIDC_FLOW_COOKIE, flowToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 10 * 60 * 1000, // 10 minutes
+      path: OIDC_COOKIE_PATH
+    });
+    res.redirect(url);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [SSO START] Failed:`, error);
+    res.redirect(`${FRONTEND_URL}/login?ssoError=${encodeURIComponent('Single sign-on is unavailable right now')}`);
+  }
+};
+
+export const oidcCallback = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [SSO CALLBACK] ========== REQUEST RECEIVED ==========`);
+  const flowToken = req.cookies?.[OIDC_FLOW_COOKIE];
+  res.clearCookie(OIDC_FLOW_COOKIE, { httpOnly: true, secure: process.env.NODE_ENV === 'production', sameSite: 'lax', path: OIDC_COOKIE_PATH });
+
+  try {
+    const { code, state, error, error_description } = req.query as Record<string, string | undefined>;
+    if (error) {
+      logger.warn(`[CONTROLLER] [AUTH] [SSO CALLBACK] Provider returned error: ${error} ${error_description || ''}`);
+      throw new Error(error === 'access_denied' ? 'Sign-in was cancelled' : 'Identity provider rejected the sign-in');
+    }
+    if (!code || !state) throw new Error('Sign-in session expired. Please try again.');
+
+    const email = await oidcService.completeAuthorization(code, state, flowToken);
+    const result = await authService.loginWithSso(email);
+
+    // Second factor still to come; the login page picks the challenge up from the fragment
+    if ('mfa' in result) {
+      logger.info(`[CONTROLLER] [AUTH] [SSO CALLBACK] Identity accepted, two-factor ${result.mfa} pending`);
+      return res.redirect(`${FRONTEND_URL}/login#mfa=${result.mfa}&mfaToken=${encodeURIComponent(result.mfaToken)}`);
+    }
+
+    // The login page restores the session from the refresh cookie, as it does on reload
+    setRefreshCookie(res, result.refreshToken);
+    logger.info(`[CONTROLLER] [AUTH] [SSO CALLBACK] Login successful - User ID: ${result.user.id}, Role: ${result.user.role}`);
+    res.redirect(`${FRONTEND_URL}/login`);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [SSO CALLBACK] Failed:`, error);
+    const message = error.message?.startsWith('Identity provider request failed')
+      ? 'Single sign-on is unavailable right now'
+      : error.message || 'Single sign-on failed';
+    res.redirect(`${FRONTEND_URL}/login?ssoError=${encodeURIComponent(message)}`);
+  }
+};
+
 export const refresh = async (req: AuthRequest, res: Response) => {
   logger.info(`[CONTROLLER] [AUTH] [REFRESH] ========== REQUEST RECEIVED ==========`);
 
@@ -53,12 +196,13 @@ export const refresh = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    const decoded = verifyToken(refreshToken);
+    // Exchanges the token for a new one; a token that was already used ends its session
+    const session = await sessionService.rotateSession(refreshToken);
 
     // Check if user exists and is active
-    const user = await authService.validateUser(decoded.userId);
+    const user = await authService.validateUser(session.userId);
     if (!user) {
-      logger.warn(`[CONTROLLER] [AUTH] [REFRESH] User not found or inactive: ${decoded.userId}`);
+      logger.warn(`[CONTROLLER] [AUTH] [REFRESH] User not found or inactive: ${session.userId}`);
       return res.status(401).json({
         error: {
           code: 'InvalidUserError',
@@ -67,39 +211,20 @@ export const refresh = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Verify Token Version (Session Invalidation)
-    const tokenVersion = decoded.tokenVersion;
-    const dbTokenVersion = user.tokenVersion;
-
-    if (tokenVersion !== undefined && tokenVersion !== dbTokenVersion) {
-      logger.warn(`[CONTROLLER] [AUTH] [REFRESH] Token version mismatch. Token: ${tokenVersion}, DB: ${dbTokenVersion}`);
-      return res.status(403).json({
-        error: {
-          code: 'INVALID_TOKEN',
-          message: 'Session expired (password changed)'
-        }
-      });
-    }
-
-    // Strict check for old tokens (optional but recommended)
-    if (tokenVersion === undefined && dbTokenVersion > 0) {
-      logger.warn(`[CONTROLLER] [AUTH] [REFRESH] Old token rejected (missing version)`);
-      return res.status(403).json({
-        error: {
-          code: 'INVALID_TOKEN',
-          message: 'Session expired - Please login again'
-        }
-      });
-    }
-
     const newAccessToken = generateAccessToken({
       userId: user.id,
       email: user.email,
       role: user.role,
-      tokenVersion: user.tokenVersion
+      tokenVersion: user.tokenVersion,
+      sessionId: session.sessionId
     });
 
-    logger.info(`[CONTROLLER] [AUTH] [REFRESH] Token refreshed successfully - User ID: ${user.id}`);
+    // No new token when a parallel request has just rotated it; the browser already has that one
+    if (session.refreshToken) {
+      setRefreshCookie(res, session.refreshToken);
+    }
+
+    logger.info(`[CONTROLLER] [AUTH] [REFRESH] Token refreshed successfully - User ID: ${user.id}, Session ID: ${session.sessionId}`);
 
     // Return both token and user data to satisfy frontend requirements
     res.json({
@@ -122,11 +247,12 @@ export const logout = async (req: AuthRequest, res: Response) => {
   const userId = req.user?.id;
   logger.info(`[CONTROLLER] [AUTH] [LOGOUT] User ID: ${userId || 'unknown'}`);
 
-  if (userId) {
+  // Only this device is signed out; other sessions stay open
+  if (userId && req.user?.sessionId) {
     try {
-      await authService.invalidateSession(userId);
+      await sessionService.revokeSession(userId, req.user.sessionId, 'logout');
     } catch (error) {
-      logger.warn(`[CONTROLLER] [AUTH] [LOGOUT] Failed to invalidate session:`, error);
+      logger.warn(`[CONTROLLER] [AUTH] [LOGOUT] Failed to revoke session:`, error);
     }
   }
 
@@ -181,7 +307,7 @@ export const forgotPassword = async (req: AuthRequest, res: Response) => {
 
     logger.info(`[CONTROLLER] [AUTH] [FORGOT PASSWORD] Password reset request processed`);
     res.json({
-      message: 'OTP has been sent to your registered email address.'
+      message: 'If an account exists for this email, an OTP has been sent to it.'
     });
   } catch (error: any) {
     logger.error(`[CONTROLLER] [AUTH] [FORGOT PASSWORD] Password reset request failed:`, error);
@@ -246,3 +372,160 @@ export const resetPassword = async (req: AuthRequest, res: Response) => {
   }
 };
 
+
+export const getLoginHistory = async (req: AuthRequest, res: Response) => {
+  try {
+    const history = await loginSecurityService.getLoginHistory(req.user!.id, parseInt(req.query.limit as string) || 20);
+    res.json(history);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [LOGIN HISTORY] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message || 'Failed to load sign-in history'
+      }
+    });
+  }
+};
+
+// Devices the signed-in user is currently logged in on
+export const getSessions = async (req: AuthRequest, res: Response) => {
+  try {
+    const sessions = await sessionService.listActiveSessions(req.user!.id, req.user!.sessionId);
+    res.json(sessions);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [SESSIONS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message || 'Failed to load sessions'
+      }
+    });
+  }
+};
+
+export const revokeSession = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [REVOKE SESSION] User ID: ${req.user!.id}, Session ID: ${req.params.id}`);
+
+  try {
+    const sessionId = parseInt(req.params.id);
+    if (sessionId === req.user!.sessionId) {
+      throw new Error('Use Logout to sign out of this device');
+    }
+    await sessionService.revokeSession(req.user!.id, sessionId, 'user');
+    res.json({ message: 'Session signed out' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [REVOKE SESSION] Error:`, error);
+    const status = error.message?.includes('not found') ? 404 : 400;
+    res.status(status).json({
+      error: {
+        code: status === 404 ? 'NOT_FOUND' : 'REVOKE_SESSION_FAILED',
+        message: error.message || 'Failed to sign out session'
+      }
+    });
+  }
+};
+
+export const revokeOtherSessions = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [REVOKE OTHER SESSIONS] User ID: ${req.user!.id}`);
+
+  try {
+    const revoked = await sessionService.revokeAllSessions(req.user!.id, 'user', req.user!.id, req.user!.sessionId);
+    res.json({ message: 'Signed out of all other devices', revoked });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [REVOKE OTHER SESSIONS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message || 'Failed to sign out other devices'
+      }
+    });
+  }
+};
+
+// Map MFA management errors onto HTTP responses
+const sendMfaError = (res: Response, error: any, fallback: string) => {
+  const status = error.message?.includes('not found') ? 404 : error.message?.includes('Not authorized') ? 403 : 400;
+  res.status(status).json({
+    error: {
+      code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : 'MFA_FAILED',
+      message: error.message || fallback
+    }
+  });
+};
+
+export const getMfaStatus = async (req: AuthRequest, res: Response) => {
+  try {
+    const status = await mfaService.getMfaStatus(req.user!.id);
+    res.json(status);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [MFA STATUS] Error:`, error);
+    sendMfaError(res, error, 'Failed to load two-factor status');
+  }
+};
+
+export const startMfaEnrollment = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [MFA ENROLL] User ID: ${req.user!.id}`);
+  try {
+    const enrollment = await mfaService.startEnrollment(req.user!.id);
+    res.json(enrollment);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [MFA ENROLL] Error:`, error);
+    sendMfaError(res, error, 'Failed to start two-factor setup');
+  }
+};
+
+export const confirmMfaEnrollment = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [MFA ENROLL CONFIRM] User ID: ${req.user!.id}`);
+  try {
+    const recoveryCodes = await mfaService.confirmEnrollment(req.user!.id, req.body.code);
+    res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [MFA ENROLL CONFIRM] Error:`, error);
+    sendMfaError(res, error, 'Failed to enable two-factor authentication');
+  }
+};
+
+export const regenerateRecoveryCodes = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [MFA RECOVERY CODES] User ID: ${req.user!.id}`);
+  try {
+    const recoveryCodes = await mfaService.regenerateRecoveryCodes(req.user!.id, req.body.code);
+    res.json({ recoveryCodes });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [MFA RECOVERY CODES] Error:`, error);
+    sendMfaError(res, error, 'Failed to generate recovery codes');
+  }
+};
+
+export const disableMfa = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [MFA DISABLE] User ID: ${req.user!.id}`);
+  try {
+    const { password, code } = req.body;
+    await mfaService.disableMfa(req.user!.id, password, code);
+    res.json({ message: 'Two-factor authentication turned off' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [MFA DISABLE] Error:`, error);
+    sendMfaError(res, error, 'Failed to turn off two-factor authentication');
+  }
+};
+
+export const getMfaPolicy = async (req: AuthRequest, res: Response) => {
+  try {
+    const requiredRoles = await mfaService.getMfaRequiredRoles();
+    res.json({ requiredRoles, roles: mfaService.MFA_ROLES });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [MFA POLICY] Error:`, error);
+    sendMfaError(res, error, 'Failed to load two-factor policy');
+  }
+};
+
+export const updateMfaPolicy = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [AUTH] [MFA POLICY UPDATE] User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+  try {
+    const requiredRoles = await mfaService.updateMfaRequiredRoles(req.user!.id, req.body.requiredRoles);
+    res.json({ requiredRoles, roles: mfaService.MFA_ROLES });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [AUTH] [MFA POLICY UPDATE] Error:`, error);
+    sendMfaError(res, error, 'Failed to update two-factor policy');
+  }
+};
@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as calendarFeedService from '../services/calendarFeed.service';
+import { logger } from '../utils/logger';
+
+export const getMyFeed = async (req: AuthRequest, res: Response) => {
+  try {
+    const feed = await calendarFeedService.getFeed(req.user!.id);
+    res.json(feed);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [CALENDAR FEED] [GET] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const regenerateToken = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [CALENDAR FEED] [REGENERATE] User ID: ${req.user!.id}`);
+
+  try {
+    const feed = await calendarFeedService.regenerateToken(req.user!.id);
+    res.json(feed);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [CALENDAR FEED] [REGENERATE] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const revokeToken = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [CALENDAR FEED] [REVOKE] User ID: ${req.user!.id}`);
+
+  try {
+    await calendarFeedService.revokeToken(req.user!.id);
+    res.json({ message: 'Calendar feed turned off' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [CALENDAR FEED] [REVOKE] Error:`, error);
+    const status = error.message.includes('not found') ? 404 : 500;
+    res.status(status).json({
+      error: {
+        code: status === 404 ? 'NOT_FOUND' : 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+// Calendar apps fetch the feed without a session; the token in the URL is the credential
+export const getFeedIcs = async (req: Request, res: Response) => {
+  try {
+    const token = String(req.params.token || '');
+    if (!/^[a-f0-9]{48}$/.test(token)) {
+      return res.status(404).json({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Calendar feed not found'
+        }
+      });
+    }
+
+    const content = await calendarFeedService.buildFeed(token);
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="leaves.ics"');
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(content);
+  } catch (error: any) {
+    const status = error.message.includes('not found') ? 404 : 500;
+    if (status === 500) logger.error(`[CONTROLLER] [CALENDAR FEED] [ICS] Error:`, error);
+    res.status(status).json({
+      error: {
+        code: status === 404 ? 'NOT_FOUND' : 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
@@ -0,0 +1,153 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as compOffService from '../services/compOff.service';
+import { logger } from '../utils/logger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Map service errors for claim actions onto HTTP responses
+const sendClaimError = (res: Response, error: any) => {
+  const status = error.message.includes('not found')
+    ? 404
+    : error.message.includes('Not authorized')
+      ? 403
+      : ['already', 'cannot', 'Only', 'no longer'].some((text) => error.message.includes(text))
+        ? 400
+        : 500;
+  res.status(status).json({
+    error: {
+      code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : status === 400 ? 'VALIDATION_ERROR' : 'SERVER_ERROR',
+      message: error.message
+    }
+  });
+};
+
+const parseClaimId = (req: AuthRequest, res: Response): number | null => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid claim ID'
+      }
+    });
+    return null;
+  }
+  return id;
+};
+
+export const getMyClaims = async (req: AuthRequest, res: Response) => {
+  try {
+    const claims = await compOffService.getMyClaims(req.user!.id);
+    res.json({
+      claims,
+      rules: {
+        claimWindowDays: compOffService.CLAIM_WINDOW_DAYS,
+        validityDays: compOffService.VALIDITY_DAYS,
+        fullDayHours: compOffService.FULL_DAY_HOURS,
+        halfDayHours: compOffService.HALF_DAY_HOURS
+      }
+    });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [COMP OFF] [GET MY CLAIMS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const getPendingClaims = async (req: AuthRequest, res: Response) => {
+  try {
+    const claims = await compOffService.getPendingClaims(req.user!.id, req.user!.role);
+    res.json(claims);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [COMP OFF] [GET PENDING CLAIMS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const createClaim = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [COMP OFF] [CREATE CLAIM] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [COMP OFF] [CREATE CLAIM] User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const { workDate, reason } = req.body;
+    if (!DATE_PATTERN.test(workDate || '') || !reason || !String(reason).trim()) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Work date and reason are required'
+        }
+      });
+    }
+
+    const claim = await compOffService.createClaim(req.user!.id, { workDate, reason: String(reason).trim() });
+    res.status(201).json(claim);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [COMP OFF] [CREATE CLAIM] Error:`, error);
+    const isValidationError = ['cannot', 'must', 'already', 'only', 'required'].some((text) => error.message?.includes(text));
+    res.status(isValidationError ? 400 : 500).json({
+      error: {
+        code: isValidationError ? 'VALIDATION_ERROR' : 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const approveClaim = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseClaimId(req, res);
+    if (id === null) return;
+
+    const claim = await compOffService.approveClaim(id, req.user!.id, req.user!.role, req.body?.comment);
+    res.json({ message: 'Comp-off approved', claim });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [COMP OFF] [APPROVE CLAIM] Error:`, error);
+    sendClaimError(res, error);
+  }
+};
+
+export const rejectClaim = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseClaimId(req, res);
+    if (id === null) return;
+
+    const comment = String(req.body?.comment || '').trim();
+    if (!comment) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'A reason is required to reject a comp-off claim'
+        }
+      });
+    }
+
+    const claim = await compOffService.rejectClaim(id, req.user!.id, req.user!.role, comment);
+    res.json({ message: 'Comp-off rejected', claim });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [COMP OFF] [REJECT CLAIM] Error:`, error);
+    sendClaimError(res, error);
+  }
+};
+
+export const cancelClaim = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseClaimId(req, res);
+    if (id === null) return;
+
+    await compOffService.cancelClaim(id, req.user!.id);
+    res.json({ message: 'Comp-off claim cancelled' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [COMP OFF] [CANCEL CLAIM] Error:`, error);
+    sendClaimError(res, error);
+  }
+};
@@ -3,6 +3,7 @@ import { AuthRequest } from '../middleware/auth.middleware';
 import { pool } from '../database/db';
 import { logger } from '../utils/logger';
 import { getPublicUrlFromOVH } from '../utils/storage';
+import { getBalanceMap } from '../services/leaveBalance.service';
 
 export const getStats = async (req: AuthRequest, res: Response) => {
     logger.info(`[CONTROLLER] [DASHBOARD] [GET STATS] ========== REQUEST RECEIVED ==========`);
@@ -95,18 +96,17 @@ export const getUserDashboardDetails = async (req: AuthRequest, res: Response) =
     logger.info(`[CONTROLLER] [DASHBOARD] [GET USER DETAILS] ID: ${userId}`);
 
     try {
-        // 1. Get Leave Balances
-        const balanceQuery = `
-        SELECT casual_balance, sick_balance, lop_balance
-        FROM leave_balances
-        WHERE employee_id = $1
-      `;
-        const balanceResult = await pool.query(balanceQuery, [userId]);
+        // 1. Get Leave Balances (keyed as <code>_balance for every leave type)
+        const balanceMap = await getBalanceMap(parseInt(userId));
+        const balances: Record<string, number> = { casual_balance: 0, sick_balance: 0, lop_balance: 0 };
+        Object.entries(balanceMap).forEach(([code, value]) => {
+            balances[`${code}_balance`] = value;
+        });
 
         res.json({
             success: true,
             data: {
-                balances: balanceResult.rows[0] || { casual_balance: 0, sick_balance: 0, lop_balance: 0 }
+                balances
             }
         });
     } catch (error: any) {
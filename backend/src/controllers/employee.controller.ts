@@ -1,6 +1,9 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
 import * as employeeService from '../services/employee.service';
+import * as mfaService from '../services/mfa.service';
+import * as loginSecurityService from '../services/loginSecurity.service';
+import * as sessionService from '../services/session.service';
 import { sendCarryForwardEmailsToAll } from '../services/leaveCredit.service';
 import { pool } from '../database/db';
 import { logger } from '../utils/logger';
@@ -111,9 +114,10 @@ export const updateEmployee = async (req: AuthRequest, res: Response) => {
     res.json(result);
   } catch (error: any) {
     logger.error(`[CONTROLLER] [EMPLOYEE] [UPDATE EMPLOYEE] Error:`, error);
-    res.status(400).json({
+    const status = error.message?.includes('Not authorized') ? 403 : 400;
+    res.status(status).json({
       error: {
-        code: 'UPDATE_ERROR',
+        code: status === 403 ? 'FORBIDDEN' : 'UPDATE_ERROR',
         message: error.message
       }
     });
@@ -125,16 +129,6 @@ export const deleteEmployee = async (req: AuthRequest, res: Response) => {
   logger.info(`[CONTROLLER] [EMPLOYEE] [DELETE EMPLOYEE] Employee ID: ${req.params.id}, User ID: ${req.user?.id || 'unknown'}, Role: ${req.user?.role || 'unknown'}`);
 
   try {
-    // Ensure only super_admin and hr can delete
-    if (req.user?.role !== 'super_admin' && req.user?.role !== 'hr') {
-      logger.warn(`[CONTROLLER] [EMPLOYEE] [DELETE EMPLOYEE] Unauthorized attempt - User ID: ${req.user?.id}, Role: ${req.user?.role}`);
-      return res.status(403).json({
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Only HR and super admin can delete employees'
-        }
-      });
-    }
     const employeeId = parseInt(req.params.id);
 
     // Prevent super admin from deleting themselves
@@ -162,6 +156,86 @@ export const deleteEmployee = async (req: AuthRequest, res: Response) => {
   }
 };
 
+export const resetEmployeeMfa = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [EMPLOYEE] [RESET MFA] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [EMPLOYEE] [RESET MFA] Employee ID: ${req.params.id}, User ID: ${req.user!.id}, Role: ${req.user!.role}`);
+
+  try {
+    const employeeId = parseInt(req.params.id);
+    await mfaService.resetMfa(req.user!.id, req.user!.role, employeeId);
+    logger.info(`[CONTROLLER] [EMPLOYEE] [RESET MFA] Two-factor authentication reset - Employee ID: ${employeeId}`);
+    res.json({ message: 'Two-factor authentication has been reset' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [EMPLOYEE] [RESET MFA] Error:`, error);
+    const status = error.message?.includes('not found') ? 404 : error.message?.includes('Not authorized') ? 403 : 400;
+    res.status(status).json({
+      error: {
+        code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : 'RESET_MFA_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const getEmployeeLoginSecurity = async (req: AuthRequest, res: Response) => {
+  try {
+    const employeeId = parseInt(req.params.id);
+    const status = await loginSecurityService.getAccountLockStatus(employeeId);
+    const activeSessions = await sessionService.countActiveSessions(employeeId);
+    res.json({ ...status, activeSessions });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [EMPLOYEE] [LOGIN SECURITY] Error:`, error);
+    res.status(error.message?.includes('not found') ? 404 : 500).json({
+      error: {
+        code: error.message?.includes('not found') ? 'NOT_FOUND' : 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const unlockEmployeeAccount = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [EMPLOYEE] [UNLOCK ACCOUNT] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [EMPLOYEE] [UNLOCK ACCOUNT] Employee ID: ${req.params.id}, User ID: ${req.user!.id}, Role: ${req.user!.role}`);
+
+  try {
+    const employeeId = parseInt(req.params.id);
+    await loginSecurityService.unlockAccount(req.user!.id, req.user!.role, employeeId);
+    logger.info(`[CONTROLLER] [EMPLOYEE] [UNLOCK ACCOUNT] Account unlocked - Employee ID: ${employeeId}`);
+    res.json({ message: 'Account unlocked' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [EMPLOYEE] [UNLOCK ACCOUNT] Error:`, error);
+    const status = error.message?.includes('not found') ? 404 : error.message?.includes('Not authorized') ? 403 : 400;
+    res.status(status).json({
+      error: {
+        code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : 'UNLOCK_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const revokeEmployeeSessions = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [EMPLOYEE] [REVOKE SESSIONS] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [EMPLOYEE] [REVOKE SESSIONS] Employee ID: ${req.params.id}, User ID: ${req.user!.id}, Role: ${req.user!.role}`);
+
+  try {
+    const employeeId = parseInt(req.params.id);
+    const revoked = await sessionService.revokeUserSessions(req.user!.id, req.user!.role, employeeId);
+    logger.info(`[CONTROLLER] [EMPLOYEE] [REVOKE SESSIONS] ${revoked} session(s) revoked - Employee ID: ${employeeId}`);
+    res.json({ message: 'Signed out of all devices', revoked });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [EMPLOYEE] [REVOKE SESSIONS] Error:`, error);
+    const status = error.message?.includes('not found') ? 404 : error.message?.includes('Not authorized') ? 403 : 400;
+    res.status(status).json({
+      error: {
+        code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : 'REVOKE_SESSIONS_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
 const addLeavesDocStorage = multer.diskStorage({
   destination: (req, file, cb) => {
     const uploadDir = process.env.UPLOAD_DIR || './uploads';
@@ -199,17 +273,6 @@ export const addLeavesToEmployee = [
     let localFilePath: string | null = null;
 
     try {
-      // Ensure only HR and super_admin can add leaves
-      if (req.user?.role !== 'hr' && req.user?.role !== 'super_admin') {
-        logger.warn(`[CONTROLLER] [EMPLOYEE] [ADD LEAVES] Unauthorized attempt - User ID: ${req.user?.id}, Role: ${req.user?.role}`);
-        return res.status(403).json({
-          error: {
-            code: 'FORBIDDEN',
-            message: 'Only HR and Super Admin can add leaves to employees'
-          }
-        });
-      }
-
       const employeeId = parseInt(req.params.id);
       const { leaveType, count, comment } = req.body;
 
@@ -259,11 +322,11 @@ export const addLeavesToEmployee = [
 
       // Implicitly handle form-data parsing quirks (sometimes strings)
       // Validate leaveType
-      if (leaveType !== 'casual' && leaveType !== 'lop') {
+      if (leaveType === 'sick' || leaveType === 'permission') {
         return res.status(400).json({
           error: {
             code: 'BAD_REQUEST',
-            message: 'Only casual and LOP leaves can be added manually'
+            message: 'Sick leaves and permissions cannot be added manually'
           }
         });
       }
@@ -341,17 +404,6 @@ export const getEmployeeLeaveBalances = async (req: AuthRequest, res: Response)
   logger.info(`[CONTROLLER] [EMPLOYEE] [GET LEAVE BALANCES] Employee ID: ${req.params.id}, User ID: ${req.user?.id || 'unknown'}, Role: ${req.user?.role || 'unknown'}`);
 
   try {
-    // Ensure only HR and super_admin can view employee leave balances
-    if (req.user?.role !== 'hr' && req.user?.role !== 'super_admin') {
-      logger.warn(`[CONTROLLER] [EMPLOYEE] [GET LEAVE BALANCES] Unauthorized attempt - User ID: ${req.user?.id}, Role: ${req.user?.role}`);
-      return res.status(403).json({
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Only HR and Super Admin can view employee leave balances'
-        }
-      });
-    }
-
     const employeeId = parseInt(req.params.id);
     const balances = await employeeService.getEmployeeLeaveBalances(employeeId);
     logger.info(`[CONTROLLER] [EMPLOYEE] [GET LEAVE BALANCES] Balances retrieved - Employee ID: ${employeeId}, Casual: ${balances.casual}, Sick: ${balances.sick}, LOP: ${balances.lop}`);
@@ -369,24 +421,13 @@ export const getEmployeeLeaveBalances = async (req: AuthRequest, res: Response)
 
 /**
  * Send carryforward email notifications to all employees
- * Only HR and Super Admin can trigger this
+ * Requires the leave.manage permission
  */
 export const sendCarryForwardEmails = async (req: AuthRequest, res: Response) => {
   logger.info(`[CONTROLLER] [EMPLOYEE] [SEND CARRY FORWARD EMAILS] ========== REQUEST RECEIVED ==========`);
   logger.info(`[CONTROLLER] [EMPLOYEE] [SEND CARRY FORWARD EMAILS] User ID: ${req.user?.id || 'unknown'}, Role: ${req.user?.role || 'unknown'}, Previous Year: ${req.query.previousYear || 'auto'}, New Year: ${req.query.newYear || 'auto'}`);
 
   try {
-    // Ensure only HR and super_admin can send carryforward emails
-    if (req.user?.role !== 'hr' && req.user?.role !== 'super_admin') {
-      logger.warn(`[CONTROLLER] [EMPLOYEE] [SEND CARRY FORWARD EMAILS] Unauthorized attempt - User ID: ${req.user?.id}, Role: ${req.user?.role}`);
-      return res.status(403).json({
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Only HR and Super Admin can send carryforward emails'
-        }
-      });
-    }
-
     // Optional: Allow specifying previous year and new year in query params
     const previousYear = req.query.previousYear ? parseInt(req.query.previousYear as string) : undefined;
     const newYear = req.query.newYear ? parseInt(req.query.newYear as string) : undefined;
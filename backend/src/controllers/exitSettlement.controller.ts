@@ -0,0 +1,145 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as exitSettlementService from '../services/exitSettlement.service';
+import { logger } from '../utils/logger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EXIT_STATUSES: exitSettlementService.ExitStatus[] = ['resigned', 'terminated'];
+const SETTLEMENT_STATUSES: exitSettlementService.ExitSettlementStatus[] = ['scheduled', 'completed', 'cancelled'];
+
+// Map service errors for settlement actions onto HTTP responses
+const sendSettlementError = (res: Response, error: any) => {
+  const status = error.message.includes('not found')
+    ? 404
+    : ['already', 'cannot', 'before'].some((text) => error.message.includes(text))
+      ? 400
+      : 500;
+  res.status(status).json({
+    error: {
+      code: status === 404 ? 'NOT_FOUND' : status === 400 ? 'VALIDATION_ERROR' : 'SERVER_ERROR',
+      message: error.message
+    }
+  });
+};
+
+const parseSettlementId = (req: AuthRequest, res: Response): number | null => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid settlement ID'
+      }
+    });
+    return null;
+  }
+  return id;
+};
+
+export const getSettlements = async (req: AuthRequest, res: Response) => {
+  try {
+    const status = req.query.status as exitSettlementService.ExitSettlementStatus;
+    const settlements = await exitSettlementService.getSettlements(
+      SETTLEMENT_STATUSES.includes(status) ? status : undefined
+    );
+    res.json(settlements);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [EXIT SETTLEMENT] [GET SETTLEMENTS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const getSettlement = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseSettlementId(req, res);
+    if (id === null) return;
+
+    const settlement = await exitSettlementService.getSettlementById(id);
+    res.json(settlement);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [EXIT SETTLEMENT] [GET SETTLEMENT] Error:`, error);
+    sendSettlementError(res, error);
+  }
+};
+
+export const scheduleExit = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [EXIT SETTLEMENT] [SCHEDULE] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [EXIT SETTLEMENT] [SCHEDULE] User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const employeeId = parseInt(req.body?.employeeId);
+    const { lastWorkingDate, exitStatus, remarks } = req.body || {};
+    if (isNaN(employeeId) || !DATE_PATTERN.test(lastWorkingDate || '') || !EXIT_STATUSES.includes(exitStatus)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Employee, last working date and exit type (resigned or terminated) are required'
+        }
+      });
+    }
+
+    const settlement = await exitSettlementService.scheduleExit(
+      { employeeId, lastWorkingDate, exitStatus, remarks: remarks ? String(remarks).trim() : null },
+      req.user!.id
+    );
+    res.status(201).json(settlement);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [EXIT SETTLEMENT] [SCHEDULE] Error:`, error);
+    sendSettlementError(res, error);
+  }
+};
+
+export const cancelExit = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseSettlementId(req, res);
+    if (id === null) return;
+
+    await exitSettlementService.cancelExit(id, req.user!.id);
+    res.json({ message: 'Exit cancelled' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [EXIT SETTLEMENT] [CANCEL] Error:`, error);
+    sendSettlementError(res, error);
+  }
+};
+
+export const downloadSettlementPDF = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [EXIT SETTLEMENT] [PDF] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [EXIT SETTLEMENT] [PDF] Settlement ID: ${req.params.id}, User ID: ${req.user!.id}`);
+
+  try {
+    const id = parseSettlementId(req, res);
+    if (id === null) return;
+
+    const settlement = await exitSettlementService.getSettlementById(id);
+    if (!settlement.summary) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'A cancelled exit has no settlement'
+        }
+      });
+    }
+
+    const { generateExitSettlementPDF } = await import('../utils/pdfGenerator');
+    const pdfBuffer = await generateExitSettlementPDF({
+      summary: settlement.summary,
+      isFinal: settlement.status === 'completed',
+      generatedBy: req.user!.name,
+      generatedAt: new Date().toISOString()
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=exit-settlement-${settlement.empId}.pdf`);
+    res.setHeader('Content-Length', pdfBuffer.length);
+
+    res.send(pdfBuffer);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [EXIT SETTLEMENT] [PDF] Error:`, error);
+    sendSettlementError(res, error);
+  }
+};
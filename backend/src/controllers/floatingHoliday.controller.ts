@@ -0,0 +1,148 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as floatingHolidayService from '../services/floatingHoliday.service';
+import { logger } from '../utils/logger';
+
+// Map service errors for claim actions onto HTTP responses
+const sendClaimError = (res: Response, error: any) => {
+  const status = error.message.includes('not found')
+    ? 404
+    : error.message.includes('Not authorized')
+      ? 403
+      : ['already', 'cannot', 'Only', 'no longer'].some((text) => error.message.includes(text))
+        ? 400
+        : 500;
+  res.status(status).json({
+    error: {
+      code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : status === 400 ? 'VALIDATION_ERROR' : 'SERVER_ERROR',
+      message: error.message
+    }
+  });
+};
+
+const parseClaimId = (req: AuthRequest, res: Response): number | null => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid claim ID'
+      }
+    });
+    return null;
+  }
+  return id;
+};
+
+export const getMyClaims = async (req: AuthRequest, res: Response) => {
+  try {
+    const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear();
+    if (isNaN(year)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid year'
+        }
+      });
+    }
+
+    const summary = await floatingHolidayService.getMyClaims(req.user!.id, year);
+    res.json(summary);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [FLOATING HOLIDAY] [GET MY CLAIMS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const getPendingClaims = async (req: AuthRequest, res: Response) => {
+  try {
+    const claims = await floatingHolidayService.getPendingClaims(req.user!.id, req.user!.role);
+    res.json(claims);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [FLOATING HOLIDAY] [GET PENDING CLAIMS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const createClaim = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [FLOATING HOLIDAY] [CREATE CLAIM] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [FLOATING HOLIDAY] [CREATE CLAIM] User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const holidayId = parseInt(req.body?.holidayId);
+    if (isNaN(holidayId)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Holiday is required'
+        }
+      });
+    }
+    const reason = req.body?.reason ? String(req.body.reason).trim().slice(0, 500) : null;
+
+    const claim = await floatingHolidayService.createClaim(req.user!.id, { holidayId, reason });
+    res.status(201).json(claim);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [FLOATING HOLIDAY] [CREATE CLAIM] Error:`, error);
+    sendClaimError(res, error);
+  }
+};
+
+export const approveClaim = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseClaimId(req, res);
+    if (id === null) return;
+
+    const claim = await floatingHolidayService.approveClaim(id, req.user!.id, req.user!.role, req.body?.comment);
+    res.json({ message: 'Floating holiday approved', claim });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [FLOATING HOLIDAY] [APPROVE CLAIM] Error:`, error);
+    sendClaimError(res, error);
+  }
+};
+
+export const rejectClaim = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseClaimId(req, res);
+    if (id === null) return;
+
+    const comment = String(req.body?.comment || '').trim();
+    if (!comment) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'A reason is required to reject a floating holiday claim'
+        }
+      });
+    }
+
+    const claim = await floatingHolidayService.rejectClaim(id, req.user!.id, req.user!.role, comment);
+    res.json({ message: 'Floating holiday rejected', claim });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [FLOATING HOLIDAY] [REJECT CLAIM] Error:`, error);
+    sendClaimError(res, error);
+  }
+};
+
+export const cancelClaim = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseClaimId(req, res);
+    if (id === null) return;
+
+    await floatingHolidayService.cancelClaim(id, req.user!.id);
+    res.json({ message: 'Floating holiday claim cancelled' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [FLOATING HOLIDAY] [CANCEL CLAIM] Error:`, error);
+    sendClaimError(res, error);
+  }
+};
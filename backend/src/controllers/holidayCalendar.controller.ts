@@ -0,0 +1,222 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as holidayCalendarService from '../services/holidayCalendar.service';
+import * as holidayFileService from '../services/holidayFile.service';
+import { TimesheetService } from '../services/timesheet.service';
+import { logger } from '../utils/logger';
+
+// Map service errors for calendar actions onto HTTP responses
+const sendCalendarError = (res: Response, error: any) => {
+  const status = error.message.includes('not found')
+    ? 404
+    : ['required', 'must', 'cannot', 'already', 'Select', 'Only', 'No holidays', 'at most'].some((text) => error.message.includes(text))
+      ? 400
+      : 500;
+  res.status(status).json({
+    error: {
+      code: status === 404 ? 'NOT_FOUND' : status === 400 ? 'VALIDATION_ERROR' : 'SERVER_ERROR',
+      message: error.message
+    }
+  });
+};
+
+const parseCalendarId = (req: AuthRequest, res: Response): number | null => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid calendar ID'
+      }
+    });
+    return null;
+  }
+  return id;
+};
+
+const parseCalendarInput = (body: any): holidayCalendarService.HolidayCalendarInput => ({
+  name: body?.name ? String(body.name) : '',
+  location: body?.location ? String(body.location) : null,
+  isDefault: body?.isDefault === undefined ? undefined : Boolean(body.isDefault),
+  floatingQuota: body?.floatingQuota === undefined || body?.floatingQuota === null || body?.floatingQuota === ''
+    ? undefined
+    : Number(body.floatingQuota)
+});
+
+// Import requests carry the uploaded file as text, read by the browser
+const parseImportFile = (body: any): { fileName: string; content: string } => {
+  const fileName = body?.fileName ? String(body.fileName) : '';
+  const content = typeof body?.content === 'string' ? body.content : '';
+  if (!content.trim()) {
+    throw new Error('A holiday file is required');
+  }
+  return { fileName, content };
+};
+
+// Holiday logs already written for upcoming dates follow the employee's new calendar
+const resyncHolidayLogs = (userIds?: number[]) => {
+  TimesheetService.syncHolidayLogs(userIds).catch((e: any) => {
+    logger.error(`[CONTROLLER] [HOLIDAY CALENDAR] Failed to resync holiday logs`, e);
+  });
+};
+
+export const getCalendars = async (req: AuthRequest, res: Response) => {
+  try {
+    const calendars = await holidayCalendarService.getCalendars();
+    res.json(calendars);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [HOLIDAY CALENDAR] [GET CALENDARS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const createCalendar = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [HOLIDAY CALENDAR] [CREATE] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [HOLIDAY CALENDAR] [CREATE] User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const input = parseCalendarInput(req.body);
+    const calendar = await holidayCalendarService.createCalendar(input, req.user!.id);
+    // Employees without a calendar of their own now follow the new default
+    if (input.isDefault) resyncHolidayLogs();
+    res.status(201).json(calendar);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [HOLIDAY CALENDAR] [CREATE] Error:`, error);
+    sendCalendarError(res, error);
+  }
+};
+
+export const updateCalendar = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [HOLIDAY CALENDAR] [UPDATE] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [HOLIDAY CALENDAR] [UPDATE] Calendar ID: ${req.params.id}, User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const id = parseCalendarId(req, res);
+    if (id === null) return;
+
+    const input = parseCalendarInput(req.body);
+    const calendar = await holidayCalendarService.updateCalendar(id, input, req.user!.id);
+    if (input.isDefault) resyncHolidayLogs();
+    res.json(calendar);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [HOLIDAY CALENDAR] [UPDATE] Error:`, error);
+    sendCalendarError(res, error);
+  }
+};
+
+export const deleteCalendar = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseCalendarId(req, res);
+    if (id === null) return;
+
+    const affectedUserIds = await holidayCalendarService.deleteCalendar(id, req.user!.id);
+    resyncHolidayLogs(affectedUserIds);
+    res.json({ message: 'Holiday calendar deleted' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [HOLIDAY CALENDAR] [DELETE] Error:`, error);
+    sendCalendarError(res, error);
+  }
+};
+
+export const getEmployeeAssignments = async (req: AuthRequest, res: Response) => {
+  try {
+    const assignments = await holidayCalendarService.getEmployeeAssignments();
+    res.json(assignments);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [HOLIDAY CALENDAR] [GET EMPLOYEES] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const assignEmployees = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [HOLIDAY CALENDAR] [ASSIGN EMPLOYEES] User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const employeeIds: number[] = Array.isArray(req.body?.employeeIds)
+      ? req.body.employeeIds.map((id: any) => parseInt(id)).filter((id: number) => !isNaN(id))
+      : [];
+    // A missing or null calendarId puts the employees back on the default calendar
+    const rawCalendarId = req.body?.calendarId;
+    const calendarId = rawCalendarId === null || rawCalendarId === undefined || rawCalendarId === ''
+      ? null
+      : parseInt(rawCalendarId);
+    if (calendarId !== null && isNaN(calendarId)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid calendar ID'
+        }
+      });
+    }
+
+    const updatedIds = await holidayCalendarService.assignEmployees(employeeIds, calendarId, req.user!.id);
+    resyncHolidayLogs(updatedIds);
+    res.json({ message: `Holiday calendar updated for ${updatedIds.length} employee(s)`, updated: updatedIds.length });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [HOLIDAY CALENDAR] [ASSIGN EMPLOYEES] Error:`, error);
+    sendCalendarError(res, error);
+  }
+};
+
+export const previewImport = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [HOLIDAY CALENDAR] [IMPORT PREVIEW] Calendar ID: ${req.params.id}, User ID: ${req.user!.id}, File: ${req.body?.fileName}`);
+
+  try {
+    const id = parseCalendarId(req, res);
+    if (id === null) return;
+
+    const { fileName, content } = parseImportFile(req.body);
+    const preview = await holidayFileService.previewImport(id, fileName, content);
+    res.json(preview);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [HOLIDAY CALENDAR] [IMPORT PREVIEW] Error:`, error);
+    sendCalendarError(res, error);
+  }
+};
+
+export const importHolidays = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [HOLIDAY CALENDAR] [IMPORT] Calendar ID: ${req.params.id}, User ID: ${req.user!.id}, File: ${req.body?.fileName}`);
+
+  try {
+    const id = parseCalendarId(req, res);
+    if (id === null) return;
+
+    const { fileName, content } = parseImportFile(req.body);
+    // Without a selection every new and changed row of the preview is applied
+    const dates: string[] | undefined = Array.isArray(req.body?.dates) ? req.body.dates.map(String) : undefined;
+    const result = await holidayFileService.applyImport(id, fileName, content, req.user!.id, dates);
+    res.json({
+      message: `Imported ${result.created} new and ${result.updated} updated holiday(s)`,
+      ...result
+    });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [HOLIDAY CALENDAR] [IMPORT] Error:`, error);
+    sendCalendarError(res, error);
+  }
+};
+
+// Public so calendar clients can subscribe to the feed without signing in
+export const exportCalendar = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseCalendarId(req, res);
+    if (id === null) return;
+
+    const { fileName, content } = await holidayFileService.exportCalendar(id);
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+    res.send(content);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [HOLIDAY CALENDAR] [EXPORT] Error:`, error);
+    sendCalendarError(res, error);
+  }
+};
@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
 import * as leaveService from '../services/leave.service';
+import * as leaveBalanceService from '../services/leaveBalance.service';
 import { logger } from '../utils/logger';
 import multer from 'multer';
 import path from 'path';
@@ -8,6 +9,8 @@ import fs from 'fs';
 import { uploadToOVH, getSignedUrlFromOVH, deleteFromOVH } from '../utils/storage';
 import { pool } from '../database/db';
 import { applyLeaveSchema, updateLeaveSchema } from '../validations/leave.schema';
+import { getEmployeeCalendarId } from '../services/holidayCalendar.service';
+import { hasPermission } from '../services/permission.service';
 
 export const getBalances = async (req: AuthRequest, res: Response) => {
   logger.info(`[CONTROLLER] [LEAVE] [GET BALANCES] ========== REQUEST RECEIVED ==========`);
@@ -30,7 +33,7 @@ export const getBalances = async (req: AuthRequest, res: Response) => {
 
 export const getHolidays = async (req: AuthRequest, res: Response) => {
   logger.info(`[CONTROLLER] [LEAVE] [GET HOLIDAYS] ========== REQUEST RECEIVED ==========`);
-  logger.info(`[CONTROLLER] [LEAVE] [GET HOLIDAYS] Year param: ${req.query.year || 'none'}`);
+  logger.info(`[CONTROLLER] [LEAVE] [GET HOLIDAYS] Year param: ${req.query.year || 'none'}, Calendar param: ${req.query.calendarId || 'none'}`);
 
   try {
     let year: number | undefined = undefined;
@@ -40,8 +43,11 @@ export const getHolidays = async (req: AuthRequest, res: Response) => {
         year = yearParam;
       }
     }
-    logger.info(`[CONTROLLER] [LEAVE] [GET HOLIDAYS] Parsed year: ${year || 'all'}`);
-    const holidays = await leaveService.getHolidays(year);
+    // Without an explicit calendar, return the holidays of the requester's own calendar
+    const calendarParam = req.query.calendarId ? parseInt(req.query.calendarId as string, 10) : NaN;
+    const calendarId = !isNaN(calendarParam) ? calendarParam : await getEmployeeCalendarId(req.user!.id);
+    logger.info(`[CONTROLLER] [LEAVE] [GET HOLIDAYS] Parsed year: ${year || 'all'}, Calendar: ${calendarId}`);
+    const holidays = await leaveService.getHolidays(year, calendarId);
     logger.info(`[CONTROLLER] [LEAVE] [GET HOLIDAYS] Returning ${holidays.length} holidays`);
     res.json({ holidays });
   } catch (error: any) {
@@ -592,17 +598,6 @@ export const getEmployeeBalances = async (req: AuthRequest, res: Response) => {
   logger.info(`[CONTROLLER] [LEAVE] [GET EMPLOYEE BALANCES] Employee ID: ${req.params.employeeId}, User ID: ${req.user!.id}, Role: ${req.user!.role}`);
 
   try {
-    // Only HR and Super Admin can view balances for any employee
-    if (req.user!.role !== 'hr' && req.user!.role !== 'super_admin') {
-      logger.warn(`[CONTROLLER] [LEAVE] [GET EMPLOYEE BALANCES] Unauthorized access attempt by user ${req.user!.id} with role ${req.user!.role}`);
-      return res.status(403).json({
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Only HR and Super Admin can view employee leave balances'
-        }
-      });
-    }
-
     const employeeId = parseInt(req.params.employeeId);
     if (isNaN(employeeId)) {
       logger.warn(`[CONTROLLER] [LEAVE] [GET EMPLOYEE BALANCES] Invalid employee ID: ${req.params.employeeId}`);
@@ -628,22 +623,97 @@ export const getEmployeeBalances = async (req: AuthRequest, res: Response) => {
   }
 };
 
-export const getEmployeeLeaveRequests = async (req: AuthRequest, res: Response) => {
-  logger.info(`[CONTROLLER] [LEAVE] [GET EMPLOYEE LEAVE REQUESTS] ========== REQUEST RECEIVED ==========`);
-  logger.info(`[CONTROLLER] [LEAVE] [GET EMPLOYEE LEAVE REQUESTS] Employee ID: ${req.params.employeeId}, User ID: ${req.user!.id}, Role: ${req.user!.role}, Page: ${req.query.page || 1}, Limit: ${req.query.limit || 10}, Status: ${req.query.status || 'all'}`);
+const getStatementFilters = (req: AuthRequest) => ({
+  leaveType: req.query.leaveType as string | undefined,
+  startDate: req.query.startDate as string | undefined,
+  endDate: req.query.endDate as string | undefined
+});
+
+export const getBalanceStatement = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [LEAVE] [GET BALANCE STATEMENT] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [LEAVE] [GET BALANCE STATEMENT] User ID: ${req.user!.id}`);
 
   try {
-    // Only HR and Super Admin can view leave requests for any employee
-    if (req.user!.role !== 'hr' && req.user!.role !== 'super_admin') {
-      logger.warn(`[CONTROLLER] [LEAVE] [GET EMPLOYEE LEAVE REQUESTS] Unauthorized access attempt by user ${req.user!.id} with role ${req.user!.role}`);
-      return res.status(403).json({
+    const transactions = await leaveBalanceService.getBalanceStatement(req.user!.id, getStatementFilters(req));
+    logger.info(`[CONTROLLER] [LEAVE] [GET BALANCE STATEMENT] Retrieved ${transactions.length} transactions`);
+    res.json({ transactions });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [LEAVE] [GET BALANCE STATEMENT] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const getEmployeeBalanceStatement = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [LEAVE] [GET EMPLOYEE BALANCE STATEMENT] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [LEAVE] [GET EMPLOYEE BALANCE STATEMENT] Employee ID: ${req.params.employeeId}, User ID: ${req.user!.id}, Role: ${req.user!.role}`);
+
+  try {
+    const employeeId = parseInt(req.params.employeeId);
+    if (isNaN(employeeId)) {
+      logger.warn(`[CONTROLLER] [LEAVE] [GET EMPLOYEE BALANCE STATEMENT] Invalid employee ID: ${req.params.employeeId}`);
+      return res.status(400).json({
         error: {
-          code: 'FORBIDDEN',
-          message: 'Only HR and Super Admin can view employee leave requests'
+          code: 'INVALID_EMPLOYEE_ID',
+          message: 'Invalid employee ID'
+        }
+      });
+    }
+
+    const transactions = await leaveBalanceService.getBalanceStatement(employeeId, getStatementFilters(req));
+    logger.info(`[CONTROLLER] [LEAVE] [GET EMPLOYEE BALANCE STATEMENT] Retrieved ${transactions.length} transactions`);
+    res.json({ transactions });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [LEAVE] [GET EMPLOYEE BALANCE STATEMENT] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const reconcileBalances = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [LEAVE] [RECONCILE BALANCES] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [LEAVE] [RECONCILE BALANCES] Employee ID: ${req.query.employeeId || 'all'}, User ID: ${req.user!.id}`);
+
+  try {
+    const employeeId = req.query.employeeId ? parseInt(req.query.employeeId as string) : undefined;
+    if (employeeId !== undefined && isNaN(employeeId)) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_EMPLOYEE_ID',
+          message: 'Invalid employee ID'
         }
       });
     }
 
+    const mismatches = await leaveBalanceService.reconcileBalances(employeeId);
+    if (mismatches.length > 0) {
+      logger.warn(`[CONTROLLER] [LEAVE] [RECONCILE BALANCES] Found ${mismatches.length} balance(s) that do not match the ledger`);
+    }
+    res.json({ balanced: mismatches.length === 0, mismatches });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [LEAVE] [RECONCILE BALANCES] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const getEmployeeLeaveRequests = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [LEAVE] [GET EMPLOYEE LEAVE REQUESTS] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [LEAVE] [GET EMPLOYEE LEAVE REQUESTS] Employee ID: ${req.params.employeeId}, User ID: ${req.user!.id}, Role: ${req.user!.role}, Page: ${req.query.page || 1}, Limit: ${req.query.limit || 10}, Status: ${req.query.status || 'all'}`);
+
+  try {
     const employeeId = parseInt(req.params.employeeId);
     if (isNaN(employeeId)) {
       logger.warn(`[CONTROLLER] [LEAVE] [GET EMPLOYEE LEAVE REQUESTS] Invalid employee ID: ${req.params.employeeId}`);
@@ -845,8 +915,8 @@ export const getMedicalCertificateSignedUrl = async (req: AuthRequest, res: Resp
     const request = fullRequest.requests.find((r: any) => r.id === requestId);
 
     if (!request) {
-      // Check if user is manager/hr/super_admin who can view any request
-      const isAuthorized = ['manager', 'hr', 'super_admin'].includes(req.user!.role);
+      // Check if user is an approver who can view other people's requests
+      const isAuthorized = await hasPermission(req.user!.role, 'leave.approve');
       if (!isAuthorized) {
         return res.status(403).json({
           error: {
@@ -877,7 +947,7 @@ export const getMedicalCertificateSignedUrl = async (req: AuthRequest, res: Resp
 
     // Check permissions
     const isOwner = employeeId === req.user!.id;
-    const isAuthorized = ['manager', 'hr', 'super_admin'].includes(req.user!.role);
+    const isAuthorized = await hasPermission(req.user!.role, 'leave.approve');
 
     if (!isOwner && !isAuthorized) {
       return res.status(403).json({
@@ -956,7 +1026,7 @@ export const createHoliday = async (req: AuthRequest, res: Response) => {
   logger.info(`[CONTROLLER] [LEAVE] [CREATE HOLIDAY] User ID: ${req.user?.id || 'unknown'}, Role: ${req.user?.role || 'unknown'}`);
 
   try {
-    const { holidayDate, holidayName } = req.body;
+    const { holidayDate, holidayName, calendarId, isOptional } = req.body;
 
     if (!holidayDate || !holidayName) {
       logger.warn(`[CONTROLLER] [LEAVE] [CREATE HOLIDAY] Missing required fields`);
@@ -980,7 +1050,7 @@ export const createHoliday = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    const holiday = await leaveService.createHoliday(holidayDate, holidayName, req.user!.id);
+    const holiday = await leaveService.createHoliday(holidayDate, holidayName, req.user!.id, calendarId, isOptional === true);
 
     logger.info(`[CONTROLLER] [LEAVE] [CREATE HOLIDAY] Holiday created successfully - ID: ${holiday.id}`);
 
@@ -1000,6 +1070,15 @@ export const createHoliday = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    if (error.message === 'Holiday calendar not found') {
+      return res.status(404).json({
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message
+        }
+      });
+    }
+
     res.status(500).json({
       error: {
         code: 'SERVER_ERROR',
@@ -1080,7 +1159,7 @@ export const updateHoliday = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    const { holidayDate, holidayName } = req.body;
+    const { holidayDate, holidayName, isOptional } = req.body;
 
     if (!holidayDate || !holidayName) {
       logger.warn(`[CONTROLLER] [LEAVE] [UPDATE HOLIDAY] Missing required fields`);
@@ -1104,7 +1183,7 @@ export const updateHoliday = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    const holiday = await leaveService.updateHoliday(holidayId, holidayDate, holidayName);
+    const holiday = await leaveService.updateHoliday(holidayId, holidayDate, holidayName, isOptional);
 
     logger.info(`[CONTROLLER] [LEAVE] [UPDATE HOLIDAY] Holiday updated successfully - ID: ${holidayId}`);
 
@@ -1143,7 +1222,7 @@ export const updateHoliday = async (req: AuthRequest, res: Response) => {
 };
 /**
  * Convert a leave request from LOP to Casual
- * Only accessible by Super Admin and requires a proof file
+ * Requires the leave.convert_lop permission and a proof file
  */
 export const convertLeaveRequestLopToCasual = async (req: AuthRequest, res: Response) => {
   logger.info(`[CONTROLLER] [LEAVE] [CONVERT LOP TO CASUAL] ========== REQUEST RECEIVED ==========`);
@@ -1152,18 +1231,7 @@ export const convertLeaveRequestLopToCasual = async (req: AuthRequest, res: Resp
   try {
     const requestId = parseInt(req.params.id);
 
-    // 1. Verify role is super_admin
-    if (req.user!.role !== 'super_admin') {
-      logger.warn(`[CONTROLLER] [LEAVE] [CONVERT LOP TO CASUAL] Unauthorized attempt - User ID: ${req.user!.id}, Role: ${req.user!.role}`);
-      return res.status(403).json({
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Only Super Admins can convert LOP leave to Casual leave'
-        }
-      });
-    }
-
-    // 2. Call service to perform conversion (includes existence and proof checks)
+    // Service performs the conversion (includes existence and proof checks)
     const result = await leaveService.convertLeaveRequestLopToCasual(requestId, req.user!.id);
 
     logger.info(`[CONTROLLER] [LEAVE] [CONVERT LOP TO CASUAL] Conversion successful - Request ID: ${requestId}`);
@@ -0,0 +1,90 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as leaveEncashmentService from '../services/leaveEncashment.service';
+import { logger } from '../utils/logger';
+
+const parseYear = (req: AuthRequest): number => {
+  const year = parseInt(req.query.year as string, 10);
+  return isNaN(year) ? new Date().getFullYear() : year;
+};
+
+const parseStatus = (req: AuthRequest): leaveEncashmentService.EncashmentStatus | undefined => {
+  const status = req.query.status as string;
+  return status === 'pending' || status === 'paid' ? status : undefined;
+};
+
+export const getEncashmentReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const year = parseYear(req);
+    const employees = await leaveEncashmentService.getEncashmentReport(year, parseStatus(req));
+    res.json({ year, employees });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [LEAVE ENCASHMENT] [GET REPORT] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const exportEncashmentReport = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [LEAVE ENCASHMENT] [EXPORT] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [LEAVE ENCASHMENT] [EXPORT] User ID: ${req.user!.id}`);
+
+  try {
+    const year = parseYear(req);
+    const employees = await leaveEncashmentService.getEncashmentReport(year, parseStatus(req));
+
+    const { generateLeaveEncashmentExcel } = await import('../utils/excelGenerator');
+    const excelBuffer = await generateLeaveEncashmentExcel({
+      year,
+      employees,
+      generatedBy: req.user!.name,
+      generatedAt: new Date().toISOString()
+    });
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename=leave-encashment-${year}.xlsx`);
+    res.setHeader('Content-Length', excelBuffer.length);
+
+    res.send(excelBuffer);
+    logger.info(`[CONTROLLER] [LEAVE ENCASHMENT] [EXPORT] Exported ${employees.length} employees`);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [LEAVE ENCASHMENT] [EXPORT] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const markEncashmentsPaid = async (req: AuthRequest, res: Response) => {
+  try {
+    const ids = Array.isArray(req.body?.ids)
+      ? req.body.ids.map((id: any) => parseInt(id, 10)).filter((id: number) => !isNaN(id))
+      : [];
+    if (ids.length === 0) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'At least one encashment ID is required'
+        }
+      });
+    }
+
+    const updated = await leaveEncashmentService.markEncashmentsPaid(ids, req.user!.id);
+    res.json({ message: `${updated} encashment(s) marked as paid`, updated });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [LEAVE ENCASHMENT] [MARK PAID] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
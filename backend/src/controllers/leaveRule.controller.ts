@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
 import * as leaveRuleService from '../services/leaveRule.service';
+import * as approvalWorkflowService from '../services/approvalWorkflow.service';
 import { logger } from '../utils/logger';
 
 export const getLeaveTypes = async (req: AuthRequest, res: Response) => {
@@ -15,7 +16,7 @@ export const getLeaveTypes = async (req: AuthRequest, res: Response) => {
 
 export const createLeaveType = async (req: AuthRequest, res: Response) => {
     try {
-        const { code, name, description, roles } = req.body;
+        const { code, name, description, roles, requires_balance, max_balance, default_balance } = req.body;
 
         // Basic validation
         if (!name) {
@@ -25,7 +26,11 @@ export const createLeaveType = async (req: AuthRequest, res: Response) => {
         // Use name as code if code is missing
         const finalCode = code || name.toLowerCase().replace(/[^a-z0-9_]/g, '_');
 
-        const newType = await leaveRuleService.createLeaveType(finalCode, name, description, req.user!.id);
+        const newType = await leaveRuleService.createLeaveType(finalCode, name, description, req.user!.id, {
+            requires_balance,
+            max_balance: max_balance !== undefined && max_balance !== '' ? parseFloat(max_balance) : undefined,
+            default_balance: default_balance !== undefined && default_balance !== '' ? parseFloat(default_balance) : undefined
+        });
 
         // Also init default configs
         await leaveRuleService.createDefaultConfigsForNewType(newType.id, roles, req.user!.id);
@@ -54,7 +59,7 @@ export const deleteLeaveType = async (req: AuthRequest, res: Response) => {
 export const updateLeaveType = async (req: AuthRequest, res: Response) => {
     try {
         const id = parseInt(req.params.id);
-        const { name, description, is_active, roles } = req.body;
+        const { name, description, is_active, roles, requires_balance, max_balance, default_balance } = req.body;
 
         if (!name) {
             return res.status(400).json({ error: 'Name is required' });
@@ -64,7 +69,10 @@ export const updateLeaveType = async (req: AuthRequest, res: Response) => {
             name,
             description,
             is_active,
-            roles
+            roles,
+            requires_balance,
+            max_balance: max_balance !== undefined && max_balance !== '' ? parseFloat(max_balance) : undefined,
+            default_balance: default_balance !== undefined && default_balance !== '' ? parseFloat(default_balance) : undefined
         }, req.user!.id);
 
         res.json(updated);
@@ -112,3 +120,74 @@ export const updatePolicy = async (req: AuthRequest, res: Response) => {
         res.status(500).json({ error: error.message });
     }
 };
+
+const parseWorkflowBody = (body: any): approvalWorkflowService.ApprovalWorkflowInput => {
+    const toNumber = (value: any) => (value === undefined || value === null || value === '' ? null : parseFloat(value));
+    return {
+        name: body.name,
+        leaveTypeCode: body.leaveTypeCode || null,
+        minDays: toNumber(body.minDays),
+        maxDays: toNumber(body.maxDays),
+        stages: body.stages,
+        priority: body.priority !== undefined && body.priority !== '' ? parseInt(body.priority) : undefined,
+        isActive: body.isActive
+    };
+};
+
+export const getWorkflows = async (req: AuthRequest, res: Response) => {
+    try {
+        const workflows = await approvalWorkflowService.getWorkflows();
+        res.json(workflows);
+    } catch (error: any) {
+        logger.error('Error fetching approval workflows:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const createWorkflow = async (req: AuthRequest, res: Response) => {
+    const input = parseWorkflowBody(req.body);
+    try {
+        approvalWorkflowService.validateWorkflowInput(input);
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    try {
+        const workflow = await approvalWorkflowService.createWorkflow(input, req.user!.id);
+        res.status(201).json(workflow);
+    } catch (error: any) {
+        logger.error('Error creating approval workflow:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const updateWorkflow = async (req: AuthRequest, res: Response) => {
+    const input = parseWorkflowBody(req.body);
+    try {
+        approvalWorkflowService.validateWorkflowInput(input);
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    try {
+        const id = parseInt(req.params.id);
+        const workflow = await approvalWorkflowService.updateWorkflow(id, input, req.user!.id);
+        res.json(workflow);
+    } catch (error: any) {
+        logger.error('Error updating approval workflow:', error);
+        const status = error.message === 'Approval workflow not found' ? 404 : 500;
+        res.status(status).json({ error: error.message });
+    }
+};
+
+export const deleteWorkflow = async (req: AuthRequest, res: Response) => {
+    try {
+        const id = parseInt(req.params.id);
+        await approvalWorkflowService.deleteWorkflow(id, req.user!.id);
+        res.json({ success: true, message: 'Approval workflow deleted' });
+    } catch (error: any) {
+        logger.error('Error deleting approval workflow:', error);
+        const status = error.message === 'Approval workflow not found' ? 404 : 500;
+        res.status(status).json({ error: error.message });
+    }
+};
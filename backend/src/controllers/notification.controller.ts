@@ -0,0 +1,121 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as notificationService from '../services/notification.service';
+import { logger } from '../utils/logger';
+
+export const getNotifications = async (req: AuthRequest, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const unreadOnly = req.query.unreadOnly === 'true';
+    const result = await notificationService.getNotifications(req.user!.id, page, limit, unreadOnly);
+    res.json(result);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [NOTIFICATION] [GET NOTIFICATIONS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const getUnreadCount = async (req: AuthRequest, res: Response) => {
+  try {
+    const count = await notificationService.getUnreadCount(req.user!.id);
+    res.json({ count });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [NOTIFICATION] [GET UNREAD COUNT] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const markAsRead = async (req: AuthRequest, res: Response) => {
+  try {
+    const notificationId = parseInt(req.params.id);
+    if (isNaN(notificationId)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid notification ID'
+        }
+      });
+    }
+
+    const notification = await notificationService.markAsRead(req.user!.id, notificationId);
+    res.json(notification);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [NOTIFICATION] [MARK AS READ] Error:`, error);
+    res.status(error.message.includes('not found') ? 404 : 500).json({
+      error: {
+        code: error.message.includes('not found') ? 'NOT_FOUND' : 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const markAllAsRead = async (req: AuthRequest, res: Response) => {
+  try {
+    const updated = await notificationService.markAllAsRead(req.user!.id);
+    res.json({ message: 'All notifications marked as read', updated });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [NOTIFICATION] [MARK ALL AS READ] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const getPreferences = async (req: AuthRequest, res: Response) => {
+  try {
+    const preferences = await notificationService.getPreferences(req.user!.id);
+    res.json({ preferences });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [NOTIFICATION] [GET PREFERENCES] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const updatePreferences = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [NOTIFICATION] [UPDATE PREFERENCES] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [NOTIFICATION] [UPDATE PREFERENCES] User ID: ${req.user!.id}`);
+
+  try {
+    const { preferences } = req.body;
+    if (!Array.isArray(preferences)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'preferences must be an array'
+        }
+      });
+    }
+
+    const updated = await notificationService.updatePreferences(req.user!.id, preferences);
+    res.json({ message: 'Notification preferences updated', preferences: updated });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [NOTIFICATION] [UPDATE PREFERENCES] Error:`, error);
+    const isValidationError = error.message?.includes('Unknown') || error.message?.includes('Invalid');
+    res.status(isValidationError ? 400 : 500).json({
+      error: {
+        code: isValidationError ? 'VALIDATION_ERROR' : 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
@@ -0,0 +1,44 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as permissionService from '../services/permission.service';
+import { logger } from '../utils/logger';
+
+export const getRolePermissions = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await permissionService.getRolePermissions();
+    res.json(result);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [PERMISSION] [GET ROLE PERMISSIONS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const updateRolePermissions = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [PERMISSION] [UPDATE ROLE PERMISSIONS] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [PERMISSION] [UPDATE ROLE PERMISSIONS] Role: ${req.params.role}, User ID: ${req.user!.id}`);
+
+  try {
+    const { permissions } = req.body;
+    if (!Array.isArray(permissions) || permissions.some((permission) => typeof permission !== 'string')) {
+      throw new Error('permissions must be a list of permission names');
+    }
+
+    const updated = await permissionService.updateRolePermissions(req.user!.id, req.params.role, permissions);
+    logger.info(`[CONTROLLER] [PERMISSION] [UPDATE ROLE PERMISSIONS] Saved ${updated.length} permission(s) for role: ${req.params.role}`);
+    res.json({ role: req.params.role, permissions: updated });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [PERMISSION] [UPDATE ROLE PERMISSIONS] Error:`, error);
+    const status = error.message?.includes('not found') ? 404 : 400;
+    res.status(status).json({
+      error: {
+        code: status === 404 ? 'NOT_FOUND' : 'UPDATE_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
@@ -6,6 +6,7 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { uploadToOVH, deleteFromOVH, extractKeyFromUrl, getPublicUrlFromOVH, getSignedUrlFromOVH } from '../utils/storage';
+import { recordAudit, recordChange } from '../services/audit.service';
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -119,6 +120,14 @@ export const createPolicy = [
                 [title, key, signedUrl, req.user!.id]
             );
 
+            await recordAudit({
+                userId: req.user!.id,
+                action: 'CREATE',
+                entityType: 'policy',
+                entityId: result.rows[0].id,
+                newValues: { title: result.rows[0].title, s3_key: result.rows[0].s3_key }
+            });
+
             logger.info(`[CONTROLLER] [POLICY] [CREATE POLICY] Policy created successfully`);
             res.status(201).json(result.rows[0]);
         } catch (error: any) {
@@ -225,6 +234,16 @@ export const updatePolicy = [
 
             const updateResult = await pool.query(updateQuery, [title || null, key, signedUrl, policyId, req.user!.id]);
 
+            // Signed URLs change on every request, so only the title and file are compared
+            await recordChange({
+                userId: req.user!.id,
+                action: 'UPDATE',
+                entityType: 'policy',
+                entityId: Number(policyId),
+                before: { title: oldPolicy.title, s3_key: oldPolicy.s3_key },
+                after: { title: updateResult.rows[0].title, s3_key: updateResult.rows[0].s3_key }
+            });
+
             logger.info(`[CONTROLLER] [POLICY] [UPDATE POLICY] Policy updated successfully`);
             res.json(updateResult.rows[0]);
 
@@ -266,6 +285,13 @@ export const deletePolicy = async (req: AuthRequest, res: Response) => {
         }
 
         await pool.query('DELETE FROM policies WHERE id = $1', [policyId]);
+        await recordAudit({
+            userId: req.user!.id,
+            action: 'DELETE',
+            entityType: 'policy',
+            entityId: Number(policyId),
+            oldValues: { title: policy.title, s3_key: policy.s3_key }
+        });
         logger.info(`[CONTROLLER] [POLICY] [DELETE POLICY] Policy deleted successfully`);
         res.json({ message: 'Policy deleted successfully' });
 
@@ -0,0 +1,104 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as teamCalendarService from '../services/teamCalendar.service';
+import { logger } from '../utils/logger';
+
+// Map service errors for the team calendar onto HTTP responses
+const sendTeamCalendarError = (res: Response, error: any) => {
+  const status = error.message.includes('not found')
+    ? 404
+    : error.message.includes('Not authorized')
+      ? 403
+      : ['must', 'cannot'].some((text) => error.message.includes(text))
+        ? 400
+        : 500;
+  res.status(status).json({
+    error: {
+      code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : status === 400 ? 'VALIDATION_ERROR' : 'SERVER_ERROR',
+      message: error.message
+    }
+  });
+};
+
+const sendInvalidId = (res: Response, label: string) =>
+  res.status(400).json({
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: `Invalid ${label} ID`
+    }
+  });
+
+// An empty threshold restores the default
+const parseThreshold = (value: any): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+export const getTeamCalendar = async (req: AuthRequest, res: Response) => {
+  try {
+    const projectId = req.query.projectId ? parseInt(req.query.projectId as string) : undefined;
+    if (projectId !== undefined && isNaN(projectId)) return sendInvalidId(res, 'project');
+
+    const calendar = await teamCalendarService.getTeamCalendar(
+      req.user!.id,
+      req.user!.role,
+      String(req.query.startDate || ''),
+      String(req.query.endDate || ''),
+      projectId
+    );
+    res.json(calendar);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TEAM CALENDAR] [GET] Error:`, error);
+    sendTeamCalendarError(res, error);
+  }
+};
+
+export const getLeaveConflicts = async (req: AuthRequest, res: Response) => {
+  try {
+    const leaveRequestId = parseInt(req.params.leaveRequestId);
+    if (isNaN(leaveRequestId)) return sendInvalidId(res, 'leave request');
+
+    const conflicts = await teamCalendarService.getLeaveConflicts(leaveRequestId, req.user!.id, req.user!.role);
+    res.json(conflicts);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TEAM CALENDAR] [CONFLICTS] Error:`, error);
+    sendTeamCalendarError(res, error);
+  }
+};
+
+export const getThresholdSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const settings = await teamCalendarService.getThresholdSettings(req.user!.id, req.user!.role);
+    res.json(settings);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TEAM CALENDAR] [GET THRESHOLDS] Error:`, error);
+    sendTeamCalendarError(res, error);
+  }
+};
+
+export const updateTeamThreshold = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [TEAM CALENDAR] [UPDATE TEAM THRESHOLD] User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    await teamCalendarService.updateTeamThreshold(req.user!.id, parseThreshold(req.body?.threshold));
+    const settings = await teamCalendarService.getThresholdSettings(req.user!.id, req.user!.role);
+    res.json(settings);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TEAM CALENDAR] [UPDATE TEAM THRESHOLD] Error:`, error);
+    sendTeamCalendarError(res, error);
+  }
+};
+
+export const updateProjectThreshold = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [TEAM CALENDAR] [UPDATE PROJECT THRESHOLD] Project ID: ${req.params.projectId}, User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const projectId = parseInt(req.params.projectId);
+    if (isNaN(projectId)) return sendInvalidId(res, 'project');
+
+    await teamCalendarService.updateProjectThreshold(projectId, req.user!.id, req.user!.role, parseThreshold(req.body?.threshold));
+    const settings = await teamCalendarService.getThresholdSettings(req.user!.id, req.user!.role);
+    res.json(settings);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TEAM CALENDAR] [UPDATE PROJECT THRESHOLD] Error:`, error);
+    sendTeamCalendarError(res, error);
+  }
+};
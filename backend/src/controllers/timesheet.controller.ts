@@ -1,6 +1,9 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { TimesheetService } from '../services/timesheet.service';
+import { TimesheetTemplateService } from '../services/timesheetTemplate.service';
+import { TimesheetTimerService } from '../services/timesheetTimer.service';
+import { hasPermission } from '../services/permission.service';
 import { logger } from '../utils/logger';
 import { pool } from '../database/db';
 
@@ -50,6 +53,23 @@ export const deleteEntry = async (req: AuthRequest, res: Response) => {
     }
 };
 
+export const getEntryRevisions = async (req: AuthRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        const entryId = parseInt(req.params.id);
+        if (isNaN(entryId)) return res.status(400).json({ error: 'Invalid entry ID' });
+
+        const revisions = await TimesheetService.getEntryRevisions(userId, req.user!.role, entryId);
+        res.json(revisions);
+    } catch (error: any) {
+        logger.error('[TimeSheet] Get Entry Revisions Error:', error);
+        const status = error.message === 'Unauthorized' ? 403 : error.message === 'Entry not found' ? 404 : 500;
+        res.status(status).json({ error: error.message });
+    }
+};
+
 export const getWeeklyEntries = async (req: AuthRequest, res: Response) => {
     try {
         const userId = req.user?.id;
@@ -73,15 +93,157 @@ export const getWeeklyEntries = async (req: AuthRequest, res: Response) => {
     }
 };
 
+export const copyPreviousWeek = async (req: AuthRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { week_start } = req.body;
+        if (!week_start) return res.status(400).json({ error: 'Week start date required' });
+
+        const result = await TimesheetService.copyPreviousWeek(userId, String(week_start));
+        res.json(result);
+    } catch (error: any) {
+        logger.error('[TimeSheet] Copy Previous Week Error:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const getTemplates = async (req: AuthRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        const templates = await TimesheetTemplateService.getTemplates(userId);
+        res.json(templates);
+    } catch (error: any) {
+        logger.error('[TimeSheet] Get Templates Error:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const saveTemplate = async (req: AuthRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { name, project_id, module_id, task_id, activity_id, duration, description, work_status, weekdays } = req.body;
+        if (!name || !project_id || !module_id || !task_id || !duration || !description || !work_status || !Array.isArray(weekdays)) {
+            return res.status(400).json({ error: 'All fields are required' });
+        }
+
+        const input = { name, project_id, module_id, task_id, activity_id, duration, description, work_status, weekdays };
+        const template = req.params.id
+            ? await TimesheetTemplateService.updateTemplate(userId, parseInt(req.params.id), input)
+            : await TimesheetTemplateService.createTemplate(userId, input);
+        res.json(template);
+    } catch (error: any) {
+        logger.error('[TimeSheet] Save Template Error:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const deleteTemplate = async (req: AuthRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        await TimesheetTemplateService.deleteTemplate(userId, parseInt(req.params.id));
+        res.json({ success: true });
+    } catch (error: any) {
+        logger.error('[TimeSheet] Delete Template Error:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const applyTemplates = async (req: AuthRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { week_start, template_ids } = req.body;
+        if (!week_start || !Array.isArray(template_ids) || template_ids.length === 0) {
+            return res.status(400).json({ error: 'Week start date and at least one template are required' });
+        }
+
+        const result = await TimesheetTemplateService.applyTemplates(userId, String(week_start), template_ids.map(Number));
+        res.json(result);
+    } catch (error: any) {
+        logger.error('[TimeSheet] Apply Templates Error:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const getTimer = async (req: AuthRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        const timer = await TimesheetTimerService.getTimer(userId);
+        res.json(timer);
+    } catch (error: any) {
+        logger.error('[TimeSheet] Get Timer Error:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const startTimer = async (req: AuthRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { project_id, module_id, task_id, activity_id, description } = req.body;
+        if (!project_id || !module_id || !task_id) {
+            return res.status(400).json({ error: 'Project, module and task are required' });
+        }
+
+        const timer = await TimesheetTimerService.startTimer(userId, { project_id, module_id, task_id, activity_id, description });
+        res.json(timer);
+    } catch (error: any) {
+        logger.error('[TimeSheet] Start Timer Error:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const timerAction = async (req: AuthRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { action } = req.params;
+        if (action === 'pause') return res.json(await TimesheetTimerService.pauseTimer(userId));
+        if (action === 'resume') return res.json(await TimesheetTimerService.resumeTimer(userId));
+        if (action === 'stop') {
+            const { description, work_status } = req.body;
+            return res.json(await TimesheetTimerService.stopTimer(userId, { description, work_status }));
+        }
+        res.status(400).json({ error: 'Invalid timer action' });
+    } catch (error: any) {
+        logger.error('[TimeSheet] Timer Action Error:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const discardTimer = async (req: AuthRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+        await TimesheetTimerService.discardTimer(userId);
+        res.json({ success: true });
+    } catch (error: any) {
+        logger.error('[TimeSheet] Discard Timer Error:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
 export const getTeamStatus = async (req: AuthRequest, res: Response) => {
     try {
         const userId = req.user?.id;
         const role = req.user?.role;
         if (!userId) return res.status(401).json({ error: 'Unauthorized' });
 
-        const roleLower = role?.toLowerCase();
-        // Access: Manager, HR, Super Admin
-        if (roleLower !== 'manager' && roleLower !== 'hr' && roleLower !== 'super_admin' && roleLower !== 'admin') {
+        if (!(await hasPermission(role || '', 'timesheet.approve'))) {
             return res.status(403).json({ error: 'Access denied' });
         }
 
@@ -118,10 +280,8 @@ export const getMemberWeeklyEntries = async (req: AuthRequest, res: Response) =>
             return res.json(entries);
         }
 
-        // 2. HR and Super Admin can view all users' timesheets
-        const roleLower = approverRole?.toLowerCase();
-        const isHROrAdmin = roleLower === 'hr' || roleLower === 'super_admin' || roleLower === 'admin';
-        if (isHROrAdmin) {
+        // 2. Users who may see every timesheet (HR and Super Admin by default)
+        if (await hasPermission(approverRole || '', 'timesheet.view_all')) {
             const entries = await TimesheetService.getEntriesForWeek(targetUserId, String(start_date || ''), String(end_date || ''));
             return res.json(entries);
         }
@@ -164,10 +324,9 @@ export const approveTimesheet = async (req: AuthRequest, res: Response) => {
 
         if (!approverId) return res.status(401).json({ error: 'Unauthorized' });
 
-        const approverRole = req.user?.role?.toLowerCase();
-        const isHROrAdmin = approverRole === 'hr' || approverRole === 'super_admin' || approverRole === 'admin';
+        const canApproveAnyone = await hasPermission(req.user?.role || '', 'timesheet.view_all');
 
-        if (!isHROrAdmin) {
+        if (!canApproveAnyone) {
             const isAllowed = await TimesheetService.isManagerOrAdmin(Number(approverId), Number(targetUserId));
             if (!isAllowed) return res.status(403).json({ error: 'Not authorized to approve' });
         }
@@ -242,10 +401,9 @@ export const rejectTimesheet = async (req: AuthRequest, res: Response) => {
         if (!approverId || !targetUserId) return res.status(401).json({ error: 'Unauthorized' });
         if (!reason) return res.status(400).json({ error: 'Rejection reason is required' });
 
-        const approverRole = req.user?.role?.toLowerCase();
-        const isHROrAdmin = approverRole === 'hr' || approverRole === 'super_admin' || approverRole === 'admin';
+        const canApproveAnyone = await hasPermission(req.user?.role || '', 'timesheet.view_all');
 
-        if (!isHROrAdmin) {
+        if (!canApproveAnyone) {
             const isAllowed = await TimesheetService.isManagerOrAdmin(Number(approverId), Number(targetUserId));
             if (!isAllowed) return res.status(403).json({ error: 'Not authorized to reject' });
         }
@@ -264,10 +422,8 @@ export const generateReport = async (req: AuthRequest, res: Response) => {
         const role = req.user?.role;
         if (!userId) return res.status(401).json({ error: 'Unauthorized' });
 
-        const roleLower = role?.toLowerCase();
-        // Security: Block employees and interns from accessing reports
-        if (roleLower === 'employee' || roleLower === 'intern') {
-            logger.warn(`[TimeSheet Report] Unauthorized access attempt by user ${userId} (${roleLower})`);
+        if (!(await hasPermission(role || '', 'timesheet.report'))) {
+            logger.warn(`[TimeSheet Report] Unauthorized access attempt by user ${userId} (${role})`);
             return res.status(403).json({ error: 'Access denied. Only Managers and HR/Admins can generate reports.' });
         }
 
@@ -283,7 +439,7 @@ export const generateReport = async (req: AuthRequest, res: Response) => {
         };
 
         // Scope enforcement
-        if (role !== 'super_admin' && role !== 'hr') {
+        if (!(await hasPermission(role || '', 'timesheet.view_all'))) {
             filters.managerScopeId = userId; // Limit to reportees
         }
 
@@ -301,10 +457,8 @@ export const generatePDFReport = async (req: AuthRequest, res: Response) => {
     try {
         const { id: userId, role, name: userName } = req.user!;
 
-        const roleLower = role?.toLowerCase();
-        // Security: Block employees and interns from accessing reports
-        if (roleLower === 'employee' || roleLower === 'intern' || roleLower === 'manager') {
-            logger.warn(`[Timesheet PDF Report] Unauthorized access attempt by user ${userId} (${roleLower})`);
+        if (!(await hasPermission(role, 'timesheet.view_all'))) {
+            logger.warn(`[Timesheet PDF Report] Unauthorized access attempt by user ${userId} (${role})`);
             return res.status(403).json({ error: 'Access denied. Only HR/Admins can generate reports.' });
         }
 
@@ -322,7 +476,7 @@ export const generatePDFReport = async (req: AuthRequest, res: Response) => {
         };
 
         // Scope enforcement
-        if (role !== 'super_admin' && role !== 'hr') {
+        if (!(await hasPermission(role || '', 'timesheet.view_all'))) {
             // Managers see their reportees; Employees see themselves
             filters.managerScopeId = userId;
             logger.info(`[Timesheet Report] Applying visibility scope for user: ${userId} (${role})`);
@@ -390,8 +544,7 @@ export const generateExcelReport = async (req: AuthRequest, res: Response) => {
     try {
         const { id: userId, role, name: userName } = req.user!;
 
-        // Security: Block employees and interns from accessing reports
-        if (role === 'employee' || role === 'intern' || role === 'manager') {
+        if (!(await hasPermission(role, 'timesheet.view_all'))) {
             logger.warn(`[Timesheet Excel Report] Unauthorized access attempt by user ${userId} (${role})`);
             return res.status(403).json({ error: 'Access denied. Only HR/Admins can generate reports.' });
         }
@@ -409,7 +562,7 @@ export const generateExcelReport = async (req: AuthRequest, res: Response) => {
         };
 
         // Scope enforcement
-        if (role !== 'super_admin' && role !== 'hr') {
+        if (!(await hasPermission(role || '', 'timesheet.view_all'))) {
             filters.managerScopeId = userId;
         }
 
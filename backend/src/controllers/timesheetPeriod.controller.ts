@@ -0,0 +1,131 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { TimesheetPeriodService } from '../services/timesheetPeriod.service';
+import { logger } from '../utils/logger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Map period service errors onto HTTP responses
+const sendPeriodError = (res: Response, error: any) => {
+  const status = error.message.includes('not found')
+    ? 404
+    : error.message.includes('Not authorized')
+      ? 403
+      : ['Invalid', 'already', 'not closed', 'Only', 'required', 'must', 'can already'].some((text) => error.message.includes(text))
+        ? 400
+        : 500;
+  res.status(status).json({
+    error: {
+      code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : status === 400 ? 'VALIDATION_ERROR' : 'SERVER_ERROR',
+      message: error.message
+    }
+  });
+};
+
+export const getPeriods = async (req: AuthRequest, res: Response) => {
+  try {
+    const [settings, periods] = await Promise.all([
+      TimesheetPeriodService.getSettings(),
+      TimesheetPeriodService.getPeriods()
+    ]);
+    res.json({ settings, periods });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TIMESHEET PERIOD] [GET PERIODS] Error:`, error);
+    sendPeriodError(res, error);
+  }
+};
+
+export const updateSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const raw = req.body?.autoCloseDay;
+    const autoCloseDay = raw === null || raw === undefined || raw === '' ? null : Number(raw);
+    const settings = await TimesheetPeriodService.updateSettings(req.user!.id, autoCloseDay);
+    res.json(settings);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TIMESHEET PERIOD] [UPDATE SETTINGS] Error:`, error);
+    sendPeriodError(res, error);
+  }
+};
+
+export const closePeriod = async (req: AuthRequest, res: Response) => {
+  try {
+    await TimesheetPeriodService.closePeriod(req.user!.id, req.params.period);
+    res.json({ message: 'Period closed' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TIMESHEET PERIOD] [CLOSE] Error:`, error);
+    sendPeriodError(res, error);
+  }
+};
+
+export const reopenPeriod = async (req: AuthRequest, res: Response) => {
+  try {
+    await TimesheetPeriodService.reopenPeriod(req.user!.id, req.params.period);
+    res.json({ message: 'Period reopened' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TIMESHEET PERIOD] [REOPEN] Error:`, error);
+    sendPeriodError(res, error);
+  }
+};
+
+export const getRangeStatus = async (req: AuthRequest, res: Response) => {
+  try {
+    const startDate = String(req.query.start_date || '');
+    const endDate = String(req.query.end_date || '');
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Start and end date are required'
+        }
+      });
+    }
+
+    const periods = await TimesheetPeriodService.getRangeStatus(req.user!.id, startDate, endDate);
+    res.json(periods);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TIMESHEET PERIOD] [RANGE STATUS] Error:`, error);
+    sendPeriodError(res, error);
+  }
+};
+
+export const getReopenRequests = async (req: AuthRequest, res: Response) => {
+  try {
+    const requests = await TimesheetPeriodService.getReopenRequests(req.user!.id, req.user!.role);
+    res.json(requests);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TIMESHEET PERIOD] [GET REOPEN REQUESTS] Error:`, error);
+    sendPeriodError(res, error);
+  }
+};
+
+export const createReopenRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const { periodStart, reason } = req.body || {};
+    const request = await TimesheetPeriodService.createReopenRequest(req.user!.id, String(periodStart || ''), String(reason || ''));
+    res.status(201).json(request);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TIMESHEET PERIOD] [CREATE REOPEN REQUEST] Error:`, error);
+    sendPeriodError(res, error);
+  }
+};
+
+export const reviewReopenRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request ID'
+        }
+      });
+    }
+
+    const { action, comment } = req.body || {};
+    const request = await TimesheetPeriodService.reviewReopenRequest(req.user!.id, req.user!.role, id, action, comment);
+    res.json(request);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [TIMESHEET PERIOD] [REVIEW REOPEN REQUEST] Error:`, error);
+    sendPeriodError(res, error);
+  }
+};
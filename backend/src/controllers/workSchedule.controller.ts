@@ -0,0 +1,199 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import * as workScheduleService from '../services/workSchedule.service';
+import { logger } from '../utils/logger';
+
+// Map service errors for schedule actions onto HTTP responses
+const sendScheduleError = (res: Response, error: any) => {
+  const status = error.message.includes('not found')
+    ? 404
+    : ['required', 'must', 'cannot', 'already', 'only', 'Select'].some((text) => error.message.includes(text))
+      ? 400
+      : 500;
+  res.status(status).json({
+    error: {
+      code: status === 404 ? 'NOT_FOUND' : status === 400 ? 'VALIDATION_ERROR' : 'SERVER_ERROR',
+      message: error.message
+    }
+  });
+};
+
+const parseScheduleId = (req: AuthRequest, res: Response): number | null => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid schedule ID'
+      }
+    });
+    return null;
+  }
+  return id;
+};
+
+const parseScheduleInput = (body: any): workScheduleService.WorkScheduleInput => ({
+  name: body?.name ? String(body.name) : '',
+  workingDays: Array.isArray(body?.workingDays) ? body.workingDays.map(Number) : [],
+  dailyHours: parseFloat(body?.dailyHours),
+  weeklyMinHours: parseFloat(body?.weeklyMinHours),
+  timerRoundingMinutes: body?.timerRoundingMinutes === undefined ? undefined : parseInt(body.timerRoundingMinutes),
+  timerRoundingMode: body?.timerRoundingMode === undefined ? undefined : body.timerRoundingMode,
+  isDefault: body?.isDefault === undefined ? undefined : Boolean(body.isDefault)
+});
+
+// A missing or null scheduleId clears the assignment
+const parseOptionalScheduleId = (value: any): number | null | undefined => {
+  if (value === null || value === undefined || value === '') return null;
+  const id = parseInt(value);
+  return isNaN(id) ? undefined : id;
+};
+
+export const getMySchedule = async (req: AuthRequest, res: Response) => {
+  try {
+    const schedule = await workScheduleService.getEmployeeSchedule(req.user!.id);
+    res.json(schedule);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [WORK SCHEDULE] [GET MY SCHEDULE] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const getSchedules = async (req: AuthRequest, res: Response) => {
+  try {
+    const schedules = await workScheduleService.getSchedules();
+    res.json(schedules);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [WORK SCHEDULE] [GET SCHEDULES] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const createSchedule = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [WORK SCHEDULE] [CREATE] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [WORK SCHEDULE] [CREATE] User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const schedule = await workScheduleService.createSchedule(parseScheduleInput(req.body), req.user!.id);
+    res.status(201).json(schedule);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [WORK SCHEDULE] [CREATE] Error:`, error);
+    sendScheduleError(res, error);
+  }
+};
+
+export const updateSchedule = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [WORK SCHEDULE] [UPDATE] ========== REQUEST RECEIVED ==========`);
+  logger.info(`[CONTROLLER] [WORK SCHEDULE] [UPDATE] Schedule ID: ${req.params.id}, User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const id = parseScheduleId(req, res);
+    if (id === null) return;
+
+    const schedule = await workScheduleService.updateSchedule(id, parseScheduleInput(req.body), req.user!.id);
+    res.json(schedule);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [WORK SCHEDULE] [UPDATE] Error:`, error);
+    sendScheduleError(res, error);
+  }
+};
+
+export const deleteSchedule = async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseScheduleId(req, res);
+    if (id === null) return;
+
+    await workScheduleService.deleteSchedule(id, req.user!.id);
+    res.json({ message: 'Work schedule deleted' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [WORK SCHEDULE] [DELETE] Error:`, error);
+    sendScheduleError(res, error);
+  }
+};
+
+export const getEmployeeAssignments = async (req: AuthRequest, res: Response) => {
+  try {
+    const assignments = await workScheduleService.getEmployeeAssignments();
+    res.json(assignments);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [WORK SCHEDULE] [GET EMPLOYEES] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const assignEmployees = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [WORK SCHEDULE] [ASSIGN EMPLOYEES] User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const employeeIds: number[] = Array.isArray(req.body?.employeeIds)
+      ? req.body.employeeIds.map((id: any) => parseInt(id)).filter((id: number) => !isNaN(id))
+      : [];
+    const scheduleId = parseOptionalScheduleId(req.body?.scheduleId);
+    if (scheduleId === undefined) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid schedule ID'
+        }
+      });
+    }
+
+    const updated = await workScheduleService.assignEmployees(employeeIds, scheduleId, req.user!.id);
+    res.json({ message: `Work schedule updated for ${updated} employee(s)`, updated });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [WORK SCHEDULE] [ASSIGN EMPLOYEES] Error:`, error);
+    sendScheduleError(res, error);
+  }
+};
+
+export const getDepartmentAssignments = async (req: AuthRequest, res: Response) => {
+  try {
+    const assignments = await workScheduleService.getDepartmentAssignments();
+    res.json(assignments);
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [WORK SCHEDULE] [GET DEPARTMENTS] Error:`, error);
+    res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: error.message
+      }
+    });
+  }
+};
+
+export const setDepartmentSchedule = async (req: AuthRequest, res: Response) => {
+  logger.info(`[CONTROLLER] [WORK SCHEDULE] [DEPARTMENT] User ID: ${req.user!.id}, Body: ${JSON.stringify(req.body)}`);
+
+  try {
+    const scheduleId = parseOptionalScheduleId(req.body?.scheduleId);
+    if (scheduleId === undefined) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid schedule ID'
+        }
+      });
+    }
+
+    await workScheduleService.setDepartmentSchedule(req.body?.department, scheduleId, req.user!.id);
+    res.json({ message: 'Department schedule updated' });
+  } catch (error: any) {
+    logger.error(`[CONTROLLER] [WORK SCHEDULE] [DEPARTMENT] Error:`, error);
+    sendScheduleError(res, error);
+  }
+};
@@ -6,9 +6,10 @@ async function fixLopBalanceMax() {
     
     // Find all employees with LOP balance > 10
     const result = await pool.query(`
-      SELECT employee_id, lop_balance 
-      FROM leave_balances 
-      WHERE lop_balance > 10
+      SELECT elb.employee_id, elb.balance as lop_balance
+      FROM employee_leave_balances elb
+      JOIN leave_types lt ON elb.leave_type_id = lt.id
+      WHERE lt.code = 'lop' AND elb.balance > 10
     `);
     
     if (result.rows.length === 0) {
@@ -23,10 +24,23 @@ async function fixLopBalanceMax() {
     
     // Cap all LOP balances at 10
     const updateResult = await pool.query(`
-      UPDATE leave_balances
-      SET lop_balance = 10,
-          last_updated = CURRENT_TIMESTAMP
-      WHERE lop_balance > 10
+      WITH changed AS (
+        SELECT elb.id, elb.employee_id, elb.leave_type_id, elb.balance
+        FROM employee_leave_balances elb
+        JOIN leave_types lt ON elb.leave_type_id = lt.id
+        WHERE lt.code = 'lop' AND elb.balance > 10
+      ), updated AS (
+        UPDATE employee_leave_balances elb
+        SET balance = 10
+        FROM changed
+        WHERE elb.id = changed.id
+        RETURNING elb.id
+      )
+      -- Record each change in the balance ledger
+      INSERT INTO leave_balance_transactions (employee_id, leave_type_id, transaction_type, delta, balance_after, source, remarks)
+      SELECT employee_id, leave_type_id, 'lapse', 10 - balance, 10, 'fix_lop_balance_max', 'LOP balance capped at 10'
+      FROM changed
+      WHERE balance <> 10
     `);
     
     console.log(`✅ Capped ${updateResult.rowCount} employee(s) LOP balance at 10`);
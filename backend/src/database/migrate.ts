@@ -28,13 +28,10 @@ async function migrate() {
       UPDATE leave_days SET day_status = 'pending' WHERE day_status IS NULL;
     `);
 
-    // Ensure leave_type supports permission (idempotent)
+    // Leave types are configurable (leave_types table), so no fixed CHECK on leave_type (idempotent)
     await pool.query(`
       ALTER TABLE leave_requests 
       DROP CONSTRAINT IF EXISTS leave_requests_leave_type_check;
-      ALTER TABLE leave_requests 
-      ADD CONSTRAINT leave_requests_leave_type_check 
-      CHECK (leave_type IN ('casual', 'sick', 'lop', 'permission'));
     `);
 
     // Add doctor_note column for sick leave prescriptions (idempotent)
@@ -100,20 +97,23 @@ async function migrate() {
     // `);
 
     // Insert sample holidays (2025 calendar)
+    // Dates are only unique per holiday calendar (044), so skip any date already present
     await pool.query(`
       INSERT INTO holidays (holiday_date, holiday_name, is_active, created_by, updated_by)
-      VALUES 
-        ('2025-01-01', 'New Year Day', true, 1, 1),
-        ('2025-01-14', 'Sankranti', true, 1, 1),
-        ('2025-02-26', 'Maha Shivaratri', true, 1, 1),
-        ('2025-03-14', 'Holi', true, 1, 1),
-        ('2025-08-15', 'Independence Day', true, 1, 1),
-        ('2025-08-27', 'Ganesh Chaturthi', true, 1, 1),
-        ('2025-10-02', 'Dussera', true, 1, 1),
-        ('2025-10-20', 'Deepavali', true, 1, 1),
-        ('2025-10-21', 'Govardhan Puja', true, 1, 1),
-        ('2025-12-25', 'Christmas', true, 1, 1)
-      ON CONFLICT (holiday_date) DO NOTHING
+      SELECT v.holiday_date::date, v.holiday_name, true, 1, 1
+      FROM (VALUES 
+        ('2025-01-01', 'New Year Day'),
+        ('2025-01-14', 'Sankranti'),
+        ('2025-02-26', 'Maha Shivaratri'),
+        ('2025-03-14', 'Holi'),
+        ('2025-08-15', 'Independence Day'),
+        ('2025-08-27', 'Ganesh Chaturthi'),
+        ('2025-10-02', 'Dussera'),
+        ('2025-10-20', 'Deepavali'),
+        ('2025-10-21', 'Govardhan Puja'),
+        ('2025-12-25', 'Christmas')
+      ) AS v(holiday_date, holiday_name)
+      WHERE NOT EXISTS (SELECT 1 FROM holidays h WHERE h.holiday_date = v.holiday_date::date)
     `);
 
 
@@ -524,6 +524,393 @@ async function migrate() {
       }
     }
 
+    // Run dynamic leave balances migration (033)
+    try {
+      const dynamicBalancesFile = readFileSync(
+        join(__dirname, 'migrations', '033_dynamic_leave_balances.sql'),
+        'utf-8'
+      );
+      await pool.query(dynamicBalancesFile);
+      console.log('Dynamic leave balances migration (033) completed');
+    } catch (dynamicBalancesError: any) {
+      if (!dynamicBalancesError.message.includes('already exists') && !dynamicBalancesError.message.includes('duplicate')) {
+        console.warn('Dynamic leave balances migration warning:', dynamicBalancesError.message);
+      }
+    }
+
+    // Run leave balance ledger migration (034)
+    try {
+      const balanceLedgerFile = readFileSync(
+        join(__dirname, 'migrations', '034_leave_balance_transactions.sql'),
+        'utf-8'
+      );
+      await pool.query(balanceLedgerFile);
+      console.log('Leave balance ledger migration (034) completed');
+    } catch (balanceLedgerError: any) {
+      if (!balanceLedgerError.message.includes('already exists') && !balanceLedgerError.message.includes('duplicate')) {
+        console.warn('Leave balance ledger migration warning:', balanceLedgerError.message);
+      }
+    }
+
+    // Run audit logs migration (035)
+    try {
+      const auditLogsFile = readFileSync(
+        join(__dirname, 'migrations', '035_audit_logs.sql'),
+        'utf-8'
+      );
+      await pool.query(auditLogsFile);
+      console.log('Audit logs migration (035) completed');
+    } catch (auditLogsError: any) {
+      if (!auditLogsError.message.includes('already exists') && !auditLogsError.message.includes('duplicate')) {
+        console.warn('Audit logs migration warning:', auditLogsError.message);
+      }
+    }
+
+    // Run notifications migration (036)
+    try {
+      const notificationsFile = readFileSync(
+        join(__dirname, 'migrations', '036_notifications.sql'),
+        'utf-8'
+      );
+      await pool.query(notificationsFile);
+      console.log('Notifications migration (036) completed');
+    } catch (notificationsError: any) {
+      if (!notificationsError.message.includes('already exists') && !notificationsError.message.includes('duplicate')) {
+        console.warn('Notifications migration warning:', notificationsError.message);
+      }
+    }
+
+    // Run notification preferences migration (037)
+    try {
+      const notificationPreferencesFile = readFileSync(
+        join(__dirname, 'migrations', '037_notification_preferences.sql'),
+        'utf-8'
+      );
+      await pool.query(notificationPreferencesFile);
+      console.log('Notification preferences migration (037) completed');
+    } catch (notificationPreferencesError: any) {
+      if (!notificationPreferencesError.message.includes('already exists') && !notificationPreferencesError.message.includes('duplicate')) {
+        console.warn('Notification preferences migration warning:', notificationPreferencesError.message);
+      }
+    }
+
+    // Run leave approval workflows migration (038)
+    try {
+      const approvalWorkflowsFile = readFileSync(
+        join(__dirname, 'migrations', '038_leave_approval_workflows.sql'),
+        'utf-8'
+      );
+      await pool.query(approvalWorkflowsFile);
+      console.log('Leave approval workflows migration (038) completed');
+    } catch (approvalWorkflowsError: any) {
+      if (!approvalWorkflowsError.message.includes('already exists') && !approvalWorkflowsError.message.includes('duplicate')) {
+        console.warn('Leave approval workflows migration warning:', approvalWorkflowsError.message);
+      }
+    }
+
+    // Run approval delegations migration (039)
+    try {
+      const approvalDelegationsFile = readFileSync(
+        join(__dirname, 'migrations', '039_approval_delegations.sql'),
+        'utf-8'
+      );
+      await pool.query(approvalDelegationsFile);
+      console.log('Approval delegations migration (039) completed');
+    } catch (approvalDelegationsError: any) {
+      if (!approvalDelegationsError.message.includes('already exists') && !approvalDelegationsError.message.includes('duplicate')) {
+        console.warn('Approval delegations migration warning:', approvalDelegationsError.message);
+      }
+    }
+
+    // Run comp-off migration (040)
+    try {
+      const compOffFile = readFileSync(
+        join(__dirname, 'migrations', '040_comp_off.sql'),
+        'utf-8'
+      );
+      await pool.query(compOffFile);
+      console.log('Comp-off migration (040) completed');
+    } catch (compOffError: any) {
+      if (!compOffError.message.includes('already exists') && !compOffError.message.includes('duplicate')) {
+        console.warn('Comp-off migration warning:', compOffError.message);
+      }
+    }
+
+    // Run leave encashment migration (041)
+    try {
+      const leaveEncashmentFile = readFileSync(
+        join(__dirname, 'migrations', '041_leave_encashment.sql'),
+        'utf-8'
+      );
+      await pool.query(leaveEncashmentFile);
+      console.log('Leave encashment migration (041) completed');
+    } catch (leaveEncashmentError: any) {
+      if (!leaveEncashmentError.message.includes('already exists') && !leaveEncashmentError.message.includes('duplicate')) {
+        console.warn('Leave encashment migration warning:', leaveEncashmentError.message);
+      }
+    }
+
+    // Run exit settlements migration (042)
+    try {
+      const exitSettlementsFile = readFileSync(
+        join(__dirname, 'migrations', '042_exit_settlements.sql'),
+        'utf-8'
+      );
+      await pool.query(exitSettlementsFile);
+      console.log('Exit settlements migration (042) completed');
+    } catch (exitSettlementsError: any) {
+      if (!exitSettlementsError.message.includes('already exists') && !exitSettlementsError.message.includes('duplicate')) {
+        console.warn('Exit settlements migration warning:', exitSettlementsError.message);
+      }
+    }
+
+    // Run work schedules migration (043)
+    try {
+      const workSchedulesFile = readFileSync(
+        join(__dirname, 'migrations', '043_work_schedules.sql'),
+        'utf-8'
+      );
+      await pool.query(workSchedulesFile);
+      console.log('Work schedules migration (043) completed');
+    } catch (workSchedulesError: any) {
+      if (!workSchedulesError.message.includes('already exists') && !workSchedulesError.message.includes('duplicate')) {
+        console.warn('Work schedules migration warning:', workSchedulesError.message);
+      }
+    }
+
+    // Run holiday calendars migration (044)
+    try {
+      const holidayCalendarsFile = readFileSync(
+        join(__dirname, 'migrations', '044_holiday_calendars.sql'),
+        'utf-8'
+      );
+      await pool.query(holidayCalendarsFile);
+      console.log('Holiday calendars migration (044) completed');
+    } catch (holidayCalendarsError: any) {
+      if (!holidayCalendarsError.message.includes('already exists') && !holidayCalendarsError.message.includes('duplicate')) {
+        console.warn('Holiday calendars migration warning:', holidayCalendarsError.message);
+      }
+    }
+
+    // Run floating holidays migration (045)
+    try {
+      const floatingHolidaysFile = readFileSync(
+        join(__dirname, 'migrations', '045_floating_holidays.sql'),
+        'utf-8'
+      );
+      await pool.query(floatingHolidaysFile);
+      console.log('Floating holidays migration (045) completed');
+    } catch (floatingHolidaysError: any) {
+      if (!floatingHolidaysError.message.includes('already exists') && !floatingHolidaysError.message.includes('duplicate')) {
+        console.warn('Floating holidays migration warning:', floatingHolidaysError.message);
+      }
+    }
+
+    // Run calendar feeds migration (046)
+    try {
+      const calendarFeedsFile = readFileSync(
+        join(__dirname, 'migrations', '046_calendar_feeds.sql'),
+        'utf-8'
+      );
+      await pool.query(calendarFeedsFile);
+      console.log('Calendar feeds migration (046) completed');
+    } catch (calendarFeedsError: any) {
+      if (!calendarFeedsError.message.includes('already exists') && !calendarFeedsError.message.includes('duplicate')) {
+        console.warn('Calendar feeds migration warning:', calendarFeedsError.message);
+      }
+    }
+
+    // Run absence thresholds migration (047)
+    try {
+      const absenceThresholdsFile = readFileSync(
+        join(__dirname, 'migrations', '047_absence_thresholds.sql'),
+        'utf-8'
+      );
+      await pool.query(absenceThresholdsFile);
+      console.log('Absence thresholds migration (047) completed');
+    } catch (absenceThresholdsError: any) {
+      if (!absenceThresholdsError.message.includes('already exists') && !absenceThresholdsError.message.includes('duplicate')) {
+        console.warn('Absence thresholds migration warning:', absenceThresholdsError.message);
+      }
+    }
+
+    // Run timesheet templates migration (048)
+    try {
+      const timesheetTemplatesFile = readFileSync(
+        join(__dirname, 'migrations', '048_timesheet_templates.sql'),
+        'utf-8'
+      );
+      await pool.query(timesheetTemplatesFile);
+      console.log('Timesheet templates migration (048) completed');
+    } catch (timesheetTemplatesError: any) {
+      if (!timesheetTemplatesError.message.includes('already exists') && !timesheetTemplatesError.message.includes('duplicate')) {
+        console.warn('Timesheet templates migration warning:', timesheetTemplatesError.message);
+      }
+    }
+
+    // Run timesheet timers migration (049)
+    try {
+      const timesheetTimersFile = readFileSync(
+        join(__dirname, 'migrations', '049_timesheet_timers.sql'),
+        'utf-8'
+      );
+      await pool.query(timesheetTimersFile);
+      console.log('Timesheet timers migration (049) completed');
+    } catch (timesheetTimersError: any) {
+      if (!timesheetTimersError.message.includes('already exists') && !timesheetTimersError.message.includes('duplicate')) {
+        console.warn('Timesheet timers migration warning:', timesheetTimersError.message);
+      }
+    }
+
+    // Run project entry revisions migration (050)
+    try {
+      const entryRevisionsFile = readFileSync(
+        join(__dirname, 'migrations', '050_project_entry_revisions.sql'),
+        'utf-8'
+      );
+      await pool.query(entryRevisionsFile);
+      console.log('Project entry revisions migration (050) completed');
+    } catch (entryRevisionsError: any) {
+      if (!entryRevisionsError.message.includes('already exists') && !entryRevisionsError.message.includes('duplicate')) {
+        console.warn('Project entry revisions migration warning:', entryRevisionsError.message);
+      }
+    }
+
+    // Run timesheet periods migration (051)
+    try {
+      const timesheetPeriodsFile = readFileSync(
+        join(__dirname, 'migrations', '051_timesheet_periods.sql'),
+        'utf-8'
+      );
+      await pool.query(timesheetPeriodsFile);
+      console.log('Timesheet periods migration (051) completed');
+    } catch (timesheetPeriodsError: any) {
+      if (!timesheetPeriodsError.message.includes('already exists') && !timesheetPeriodsError.message.includes('duplicate')) {
+        console.warn('Timesheet periods migration warning:', timesheetPeriodsError.message);
+      }
+    }
+
+    // Run user MFA migration (052)
+    try {
+      const userMfaFile = readFileSync(
+        join(__dirname, 'migrations', '052_user_mfa.sql'),
+        'utf-8'
+      );
+      await pool.query(userMfaFile);
+      console.log('User MFA migration (052) completed');
+    } catch (userMfaError: any) {
+      if (!userMfaError.message.includes('already exists') && !userMfaError.message.includes('duplicate')) {
+        console.warn('User MFA migration warning:', userMfaError.message);
+      }
+    }
+
+    // Run login security migration (053)
+    try {
+      const loginSecurityFile = readFileSync(
+        join(__dirname, 'migrations', '053_login_security.sql'),
+        'utf-8'
+      );
+      await pool.query(loginSecurityFile);
+      console.log('Login security migration (053) completed');
+    } catch (loginSecurityError: any) {
+      if (!loginSecurityError.message.includes('already exists') && !loginSecurityError.message.includes('duplicate')) {
+        console.warn('Login security migration warning:', loginSecurityError.message);
+      }
+    }
+
+    // Run user sessions migration (054)
+    try {
+      const userSessionsFile = readFileSync(
+        join(__dirname, 'migrations', '054_user_sessions.sql'),
+        'utf-8'
+      );
+      await pool.query(userSessionsFile);
+      console.log('User sessions migration (054) completed');
+    } catch (userSessionsError: any) {
+      if (!userSessionsError.message.includes('already exists') && !userSessionsError.message.includes('duplicate')) {
+        console.warn('User sessions migration warning:', userSessionsError.message);
+      }
+    }
+
+    // Run role permissions migration (055)
+    try {
+      const rolePermissionsFile = readFileSync(
+        join(__dirname, 'migrations', '055_role_permissions.sql'),
+        'utf-8'
+      );
+      await pool.query(rolePermissionsFile);
+      console.log('Role permissions migration (055) completed');
+    } catch (rolePermissionsError: any) {
+      if (!rolePermissionsError.message.includes('already exists') && !rolePermissionsError.message.includes('duplicate')) {
+        console.warn('Role permissions migration warning:', rolePermissionsError.message);
+      }
+    }
+
+    try {
+      const exitAccountLockFile = readFileSync(
+        join(__dirname, 'migrations', '056_exit_settlement_account_lock.sql'),
+        'utf-8'
+      );
+      await pool.query(exitAccountLockFile);
+      console.log('Exit settlement account lock migration (056) completed');
+    } catch (exitAccountLockError: any) {
+      if (!exitAccountLockError.message.includes('already exists') && !exitAccountLockError.message.includes('duplicate')) {
+        console.warn('Exit settlement account lock migration warning:', exitAccountLockError.message);
+      }
+    }
+
+    try {
+      const leaveAutoApprovalFile = readFileSync(
+        join(__dirname, 'migrations', '057_leave_auto_approval.sql'),
+        'utf-8'
+      );
+      await pool.query(leaveAutoApprovalFile);
+      console.log('Leave auto-approval migration (057) completed');
+    } catch (leaveAutoApprovalError: any) {
+      if (!leaveAutoApprovalError.message.includes('already exists') && !leaveAutoApprovalError.message.includes('duplicate')) {
+        console.warn('Leave auto-approval migration warning:', leaveAutoApprovalError.message);
+      }
+    }
+
+    try {
+      const stageAutoApprovalFile = readFileSync(
+        join(__dirname, 'migrations', '058_leave_stage_auto_approval.sql'),
+        'utf-8'
+      );
+      await pool.query(stageAutoApprovalFile);
+      console.log('Leave stage auto-approval migration (058) completed');
+    } catch (stageAutoApprovalError: any) {
+      if (!stageAutoApprovalError.message.includes('already exists') && !stageAutoApprovalError.message.includes('duplicate')) {
+        console.warn('Leave stage auto-approval migration warning:', stageAutoApprovalError.message);
+      }
+    }
+
+    try {
+      const feedTokenHashFile = readFileSync(
+        join(__dirname, 'migrations', '059_calendar_feed_token_hash.sql'),
+        'utf-8'
+      );
+      await pool.query(feedTokenHashFile);
+      console.log('Calendar feed token hash migration (059) completed');
+    } catch (feedTokenHashError: any) {
+      if (!feedTokenHashError.message.includes('already exists') && !feedTokenHashError.message.includes('duplicate')) {
+        console.warn('Calendar feed token hash migration warning:', feedTokenHashError.message);
+      }
+    }
+
+    try {
+      const permissionOverridesFile = readFileSync(
+        join(__dirname, 'migrations', '060_role_permission_overrides.sql'),
+        'utf-8'
+      );
+      await pool.query(permissionOverridesFile);
+      console.log('Role permission overrides migration (060) completed');
+    } catch (permissionOverridesError: any) {
+      if (!permissionOverridesError.message.includes('already exists') && !permissionOverridesError.message.includes('duplicate')) {
+        console.warn('Role permission overrides migration warning:', permissionOverridesError.message);
+      }
+    }
+
     console.log('Default data inserted');
 
   } catch (error) {
@@ -0,0 +1,53 @@
+-- Migration to key leave balances by leave type instead of fixed casual/sick/lop columns
+-- Any leave type created from the Leave Rules page can now carry a balance
+
+-- Per-type balance behaviour
+ALTER TABLE leave_types ADD COLUMN IF NOT EXISTS requires_balance BOOLEAN DEFAULT true;
+ALTER TABLE leave_types ADD COLUMN IF NOT EXISTS max_balance DECIMAL(5,1) DEFAULT 99;
+ALTER TABLE leave_types ADD COLUMN IF NOT EXISTS default_balance DECIMAL(5,1) DEFAULT 0;
+ALTER TABLE leave_types ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES users(id);
+ALTER TABLE leave_types ADD COLUMN IF NOT EXISTS updated_by INTEGER REFERENCES users(id);
+
+UPDATE leave_types SET requires_balance = false WHERE code = 'permission';
+UPDATE leave_types SET max_balance = 40, default_balance = 10 WHERE code = 'lop';
+
+CREATE TABLE IF NOT EXISTS employee_leave_balances (
+  id SERIAL PRIMARY KEY,
+  employee_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  leave_type_id INTEGER NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+  balance DECIMAL(5,1) NOT NULL DEFAULT 0,
+  last_credited_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  created_by INTEGER REFERENCES users(id),
+  updated_by INTEGER REFERENCES users(id),
+  UNIQUE(employee_id, leave_type_id),
+  CONSTRAINT check_employee_leave_balance_non_negative CHECK (balance >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_leave_balances_employee ON employee_leave_balances(employee_id);
+
+DROP TRIGGER IF EXISTS update_employee_leave_balances_updated_at ON employee_leave_balances;
+CREATE TRIGGER update_employee_leave_balances_updated_at
+    BEFORE UPDATE ON employee_leave_balances
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Backfill from the legacy fixed-column table (idempotent)
+INSERT INTO employee_leave_balances (employee_id, leave_type_id, balance, last_credited_at, created_by, updated_by)
+SELECT lb.employee_id, lt.id,
+       GREATEST(CASE lt.code
+         WHEN 'casual' THEN COALESCE(lb.casual_balance, 0)
+         WHEN 'sick' THEN COALESCE(lb.sick_balance, 0)
+         ELSE COALESCE(lb.lop_balance, 0)
+       END, 0),
+       lb.last_updated, lb.updated_by, lb.updated_by
+FROM leave_balances lb
+CROSS JOIN leave_types lt
+WHERE lt.code IN ('casual', 'sick', 'lop')
+ON CONFLICT (employee_id, leave_type_id) DO NOTHING;
+
+-- leave_requests.leave_type is now validated against leave_types in the service layer
+ALTER TABLE leave_requests DROP CONSTRAINT IF EXISTS leave_requests_leave_type_check;
+ALTER TABLE leave_requests ALTER COLUMN leave_type TYPE VARCHAR(50);
+ALTER TABLE leave_days ALTER COLUMN leave_type TYPE VARCHAR(50);
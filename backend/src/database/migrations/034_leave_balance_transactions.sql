@@ -0,0 +1,29 @@
+-- Migration to record every leave balance change in an append-only ledger (rows are only ever inserted)
+-- The stored balance in employee_leave_balances must always equal the sum of its ledger deltas
+
+CREATE TABLE IF NOT EXISTS leave_balance_transactions (
+  id SERIAL PRIMARY KEY,
+  employee_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  leave_type_id INTEGER NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+  transaction_type VARCHAR(30) NOT NULL CHECK (transaction_type IN ('opening', 'credit', 'debit', 'refund', 'manual_allocation', 'carry_forward', 'lapse', 'adjustment')),
+  delta DECIMAL(6,1) NOT NULL,
+  balance_after DECIMAL(6,1) NOT NULL,
+  -- Not a foreign key: ledger rows must outlive deleted leave requests
+  leave_request_id INTEGER,
+  source VARCHAR(50),
+  remarks TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_balance_transactions_employee ON leave_balance_transactions(employee_id, leave_type_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_leave_balance_transactions_request ON leave_balance_transactions(leave_request_id);
+
+-- Open the ledger with the balances that existed before it (idempotent)
+INSERT INTO leave_balance_transactions (employee_id, leave_type_id, transaction_type, delta, balance_after, source, remarks, created_by)
+SELECT elb.employee_id, elb.leave_type_id, 'opening', elb.balance, elb.balance, 'migration', 'Opening balance', elb.updated_by
+FROM employee_leave_balances elb
+WHERE NOT EXISTS (
+  SELECT 1 FROM leave_balance_transactions lbt
+  WHERE lbt.employee_id = elb.employee_id AND lbt.leave_type_id = elb.leave_type_id
+);
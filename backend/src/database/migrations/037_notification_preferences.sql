@@ -0,0 +1,15 @@
+-- Migration for per-user notification preferences and the daily email digest
+-- A missing row means the event type's default ('immediate')
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  delivery VARCHAR(20) NOT NULL CHECK (delivery IN ('immediate', 'digest', 'in_app', 'off')),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, event_type)
+);
+
+-- Notifications waiting to go out in the recipient's next daily digest
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS digest_pending BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_digest_pending ON notifications(user_id) WHERE digest_pending = true;
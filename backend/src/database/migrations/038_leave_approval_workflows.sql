@@ -0,0 +1,44 @@
+-- Migration for configurable multi-level leave approval
+-- A workflow matches on leave type and/or duration and lists the approval stages in order.
+-- When no active workflow matches, a request needs only its reporting manager (previous behaviour).
+
+CREATE TABLE IF NOT EXISTS leave_approval_workflows (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  leave_type_code VARCHAR(50),            -- NULL matches every leave type
+  min_days DECIMAL(5,1),                  -- inclusive; NULL = no lower bound
+  max_days DECIMAL(5,1),                  -- inclusive; NULL = no upper bound
+  stages TEXT[] NOT NULL,                 -- ordered approver roles, e.g. {manager,hr}
+  priority INTEGER NOT NULL DEFAULT 100,  -- lower runs first; first match wins
+  is_active BOOLEAN DEFAULT true,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT leave_approval_workflows_stages_check CHECK (
+    array_length(stages, 1) > 0 AND stages <@ ARRAY['manager', 'hr']::TEXT[]
+  )
+);
+
+-- One row per required stage of a leave request
+CREATE TABLE IF NOT EXISTS leave_approval_stages (
+  id SERIAL PRIMARY KEY,
+  leave_request_id INTEGER NOT NULL REFERENCES leave_requests(id) ON DELETE CASCADE,
+  stage_order INTEGER NOT NULL,
+  approver_role VARCHAR(20) NOT NULL CHECK (approver_role IN ('manager', 'hr')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'skipped')),
+  decided_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP,
+  comment TEXT,
+  UNIQUE (leave_request_id, stage_order)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_approval_stages_request ON leave_approval_stages(leave_request_id);
+CREATE INDEX IF NOT EXISTS idx_leave_approval_stages_pending ON leave_approval_stages(approver_role) WHERE status = 'pending';
+
+-- Requests still awaiting a decision get the default single manager stage
+INSERT INTO leave_approval_stages (leave_request_id, stage_order, approver_role, status)
+SELECT lr.id, 1, 'manager', 'pending'
+FROM leave_requests lr
+WHERE lr.current_status IN ('pending', 'partially_approved')
+  AND NOT EXISTS (SELECT 1 FROM leave_approval_stages s WHERE s.leave_request_id = lr.id);
@@ -0,0 +1,24 @@
+-- Migration for approval delegation
+-- A manager can hand their leave and timesheet approvals to another approver for a date range.
+-- Without an explicit delegation, a manager on approved leave is covered by their own
+-- reporting manager (L2); that fallback is resolved at runtime and not stored here.
+
+CREATE TABLE IF NOT EXISTS approval_delegations (
+  id SERIAL PRIMARY KEY,
+  delegator_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  delegate_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,   -- false once cancelled
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  cancelled_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT approval_delegations_dates_check CHECK (end_date >= start_date),
+  CONSTRAINT approval_delegations_self_check CHECK (delegator_id <> delegate_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_delegations_delegator ON approval_delegations(delegator_id, start_date, end_date) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_approval_delegations_delegate ON approval_delegations(delegate_id, start_date, end_date) WHERE is_active = true;
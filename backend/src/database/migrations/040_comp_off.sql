@@ -0,0 +1,48 @@
+-- Migration for compensatory off (comp-off)
+-- Employees claim comp-off for a weekend or holiday they worked, backed by approved
+-- timesheet hours on that date. Approved claims credit the comp_off balance, which
+-- lapses once the claim's expiry date passes (oldest claims are consumed first).
+
+-- Leave type and per-role policy. Comp-off is never accrued, and its carry forward
+-- limit is high so the year-end job leaves expiry to the comp-off job.
+DO $$
+DECLARE
+  comp_off_id INT;
+BEGIN
+  INSERT INTO leave_types (code, name, description, is_active, requires_balance, max_balance, default_balance)
+  VALUES ('comp_off', 'Compensatory Off', 'Time off earned for working on a weekend or holiday', true, true, 99, 0)
+  ON CONFLICT (code) DO NOTHING;
+
+  SELECT id INTO comp_off_id FROM leave_types WHERE code = 'comp_off';
+
+  INSERT INTO leave_policy_configurations (role, leave_type_id, annual_credit, carry_forward_limit, effective_from)
+  SELECT r.role, comp_off_id, 0, 99, CURRENT_DATE
+  FROM (VALUES ('employee'), ('manager'), ('hr'), ('intern'), ('on_notice')) AS r(role)
+  ON CONFLICT (role, leave_type_id) DO NOTHING;
+END $$;
+
+CREATE TABLE IF NOT EXISTS comp_off_claims (
+  id SERIAL PRIMARY KEY,
+  employee_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  work_date DATE NOT NULL,
+  hours_worked DECIMAL(5,2) NOT NULL,           -- approved timesheet hours on work_date when claimed
+  days DECIMAL(3,1) NOT NULL CHECK (days IN (0.5, 1)),
+  reason TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled', 'expired')),
+  approver_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  approver_comment TEXT,
+  decided_at TIMESTAMP,
+  expires_on DATE,                              -- set on approval
+  lapsed_days DECIMAL(3,1),                     -- balance removed when the claim expired
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One live claim per employee and date
+CREATE UNIQUE INDEX IF NOT EXISTS idx_comp_off_claims_employee_date
+  ON comp_off_claims(employee_id, work_date)
+  WHERE status IN ('pending', 'approved', 'expired');
+
+CREATE INDEX IF NOT EXISTS idx_comp_off_claims_status ON comp_off_claims(status);
+CREATE INDEX IF NOT EXISTS idx_comp_off_claims_expiry ON comp_off_claims(expires_on) WHERE status = 'approved';
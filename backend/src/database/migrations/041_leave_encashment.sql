@@ -0,0 +1,26 @@
+-- Migration for year-end leave encashment
+-- Days above a policy's carry forward limit are encashed up to max_encashable_days
+-- (per role and leave type) instead of lapsing; whatever is left still lapses.
+
+ALTER TABLE leave_policy_configurations ADD COLUMN IF NOT EXISTS max_encashable_days DECIMAL(5,2) DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS leave_encashments (
+  id SERIAL PRIMARY KEY,
+  employee_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  leave_type_id INTEGER NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL,                        -- leave year the days were earned in
+  days DECIMAL(5,1) NOT NULL CHECK (days > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid')),
+  paid_at TIMESTAMP,
+  paid_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(employee_id, leave_type_id, year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_encashments_year ON leave_encashments(year, status);
+
+-- Ledger: encashed days leave the balance as their own transaction type
+ALTER TABLE leave_balance_transactions DROP CONSTRAINT IF EXISTS leave_balance_transactions_transaction_type_check;
+ALTER TABLE leave_balance_transactions ADD CONSTRAINT leave_balance_transactions_transaction_type_check
+  CHECK (transaction_type IN ('opening', 'credit', 'debit', 'refund', 'manual_allocation', 'carry_forward', 'lapse', 'adjustment', 'encashment'));
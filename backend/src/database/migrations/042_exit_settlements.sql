@@ -0,0 +1,25 @@
+-- Migration for full and final leave settlement on exit
+-- HR schedules the exit with a last working date; the settlement is previewed until then
+-- and finalized on that date, when the account is locked with the chosen exit status.
+
+CREATE TABLE IF NOT EXISTS exit_settlements (
+  id SERIAL PRIMARY KEY,
+  employee_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  last_working_date DATE NOT NULL,
+  exit_status VARCHAR(20) NOT NULL CHECK (exit_status IN ('resigned', 'terminated')),
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'completed', 'cancelled')),
+  remarks TEXT,
+  summary JSONB,                                -- frozen settlement once completed
+  initiated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  completed_at TIMESTAMP,
+  cancelled_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One open exit per employee
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exit_settlements_open
+  ON exit_settlements(employee_id) WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_exit_settlements_due ON exit_settlements(status, last_working_date);
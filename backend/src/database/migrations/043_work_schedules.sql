@@ -0,0 +1,58 @@
+-- Migration for configurable work schedules
+-- A schedule defines the working weekdays, hours per day and the weekly minimum for timesheets.
+-- Employees resolve their schedule from their own assignment, then their department, then the default.
+
+CREATE TABLE IF NOT EXISTS work_schedules (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL UNIQUE,
+  working_days INTEGER[] NOT NULL,              -- weekdays, 0 = Sunday ... 6 = Saturday
+  daily_hours DECIMAL(4,2) NOT NULL DEFAULT 8 CHECK (daily_hours > 0 AND daily_hours <= 24),
+  weekly_min_hours DECIMAL(5,2) NOT NULL DEFAULT 40 CHECK (weekly_min_hours >= 0 AND weekly_min_hours <= 168),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CHECK (cardinality(working_days) > 0 AND working_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6])
+);
+
+-- Only one schedule can be the default
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_schedules_default
+  ON work_schedules(is_default) WHERE is_default = true;
+
+-- Department-wide assignment; departments are free text on users, so match case-insensitively
+CREATE TABLE IF NOT EXISTS department_work_schedules (
+  department VARCHAR(100) PRIMARY KEY,
+  work_schedule_id INTEGER NOT NULL REFERENCES work_schedules(id) ON DELETE CASCADE,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_department_work_schedules_lower
+  ON department_work_schedules(LOWER(department));
+
+-- Seed the schedules that were previously hard-coded: Mon-Fri for everyone, Mon-Sat for interns
+INSERT INTO work_schedules (name, working_days, daily_hours, weekly_min_hours, is_default)
+VALUES ('Standard (Mon-Fri)', ARRAY[1, 2, 3, 4, 5], 8, 40, true)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO work_schedules (name, working_days, daily_hours, weekly_min_hours, is_default)
+VALUES ('Intern (Mon-Sat)', ARRAY[1, 2, 3, 4, 5, 6], 8, 40, false)
+ON CONFLICT (name) DO NOTHING;
+
+-- Per-employee assignment overrides the department schedule.
+-- Existing interns are moved onto the Mon-Sat schedule only when the column is first added,
+-- so later changes made by HR are not overwritten on re-runs.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'work_schedule_id'
+  ) THEN
+    ALTER TABLE users ADD COLUMN work_schedule_id INTEGER REFERENCES work_schedules(id) ON DELETE SET NULL;
+
+    UPDATE users
+    SET work_schedule_id = (SELECT id FROM work_schedules WHERE name = 'Intern (Mon-Sat)')
+    WHERE user_role = 'intern';
+  END IF;
+END $$;
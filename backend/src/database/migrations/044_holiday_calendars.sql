@@ -0,0 +1,38 @@
+-- Migration for holiday calendars by location
+-- Each holiday belongs to a calendar, and each employee follows one calendar (the default unless assigned).
+-- Optional (restricted) holidays are listed on the calendar but are not days off.
+
+CREATE TABLE IF NOT EXISTS holiday_calendars (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL UNIQUE,
+  location VARCHAR(100),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Only one calendar can be the default
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holiday_calendars_default
+  ON holiday_calendars(is_default) WHERE is_default = true;
+
+-- Existing holidays move onto the default calendar
+INSERT INTO holiday_calendars (name, is_default)
+SELECT 'Default', true
+WHERE NOT EXISTS (SELECT 1 FROM holiday_calendars WHERE is_default = true)
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE holidays ADD COLUMN IF NOT EXISTS calendar_id INTEGER REFERENCES holiday_calendars(id) ON DELETE CASCADE;
+ALTER TABLE holidays ADD COLUMN IF NOT EXISTS is_optional BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE holidays
+SET calendar_id = (SELECT id FROM holiday_calendars WHERE is_default = true)
+WHERE calendar_id IS NULL;
+
+-- A date can be a holiday on several calendars, but only once per calendar
+ALTER TABLE holidays DROP CONSTRAINT IF EXISTS holidays_holiday_date_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holidays_calendar_date ON holidays(calendar_id, holiday_date);
+
+-- Employees without a calendar follow the default one
+ALTER TABLE users ADD COLUMN IF NOT EXISTS holiday_calendar_id INTEGER REFERENCES holiday_calendars(id) ON DELETE SET NULL;
@@ -0,0 +1,38 @@
+-- Migration for floating holidays
+-- Optional holidays on a calendar are floating: employees pick up to the calendar's
+-- annual quota of them, and each pick needs their reporting manager's approval.
+-- An approved claim makes the holiday a day off for that employee only.
+
+ALTER TABLE holiday_calendars ADD COLUMN IF NOT EXISTS floating_quota INTEGER NOT NULL DEFAULT 2;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'holiday_calendars_floating_quota_check'
+  ) THEN
+    ALTER TABLE holiday_calendars
+      ADD CONSTRAINT holiday_calendars_floating_quota_check CHECK (floating_quota >= 0);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS floating_holiday_claims (
+  id SERIAL PRIMARY KEY,
+  employee_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  holiday_id INTEGER NOT NULL REFERENCES holidays(id) ON DELETE CASCADE,
+  reason TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  approver_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  approver_comment TEXT,
+  decided_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One live claim per employee and holiday
+CREATE UNIQUE INDEX IF NOT EXISTS idx_floating_holiday_claims_employee_holiday
+  ON floating_holiday_claims(employee_id, holiday_id)
+  WHERE status IN ('pending', 'approved');
+
+CREATE INDEX IF NOT EXISTS idx_floating_holiday_claims_status ON floating_holiday_claims(status);
+CREATE INDEX IF NOT EXISTS idx_floating_holiday_claims_holiday ON floating_holiday_claims(holiday_id) WHERE status = 'approved';
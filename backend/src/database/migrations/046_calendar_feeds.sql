@@ -0,0 +1,12 @@
+-- Migration for personal calendar feeds
+-- Each user can publish one ICS feed of their approved leaves, their team's and their
+-- holidays. Calendar apps cannot sign in, so the feed URL carries a secret token;
+-- regenerating the token revokes every existing subscription. Only a SHA-256 of the
+-- token is stored, so reading the table is not enough to open anyone's feed.
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_accessed_at TIMESTAMP
+);
@@ -0,0 +1,24 @@
+-- Migration for team absence warnings
+-- Approvers are warned when approving a leave would put more than a set percentage of a
+-- team (a manager's direct reports) or of a project's members out on the same day.
+-- NULL falls back to the application default.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS team_absence_threshold INTEGER;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS absence_threshold INTEGER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'users_team_absence_threshold_check'
+  ) THEN
+    ALTER TABLE users
+      ADD CONSTRAINT users_team_absence_threshold_check CHECK (team_absence_threshold BETWEEN 1 AND 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'projects_absence_threshold_check'
+  ) THEN
+    ALTER TABLE projects
+      ADD CONSTRAINT projects_absence_threshold_check CHECK (absence_threshold BETWEEN 1 AND 100);
+  END IF;
+END $$;
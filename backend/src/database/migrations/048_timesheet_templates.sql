@@ -0,0 +1,23 @@
+-- Migration for timesheet entry templates
+-- A template is a recurring log (e.g. a daily standup) that can be added as draft entries
+-- to every matching weekday of a week in one action.
+
+CREATE TABLE IF NOT EXISTS timesheet_templates (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  module_id INTEGER NOT NULL REFERENCES project_modules(id) ON DELETE CASCADE,
+  task_id INTEGER NOT NULL REFERENCES project_tasks(id) ON DELETE CASCADE,
+  activity_id INTEGER REFERENCES project_activities(id) ON DELETE SET NULL,
+  duration DECIMAL(4,2) NOT NULL CHECK (duration > 0 AND duration <= 12),
+  description TEXT NOT NULL,
+  work_status VARCHAR(50) NOT NULL DEFAULT 'in_progress',
+  weekdays INTEGER[] NOT NULL DEFAULT ARRAY[1, 2, 3, 4, 5], -- 0 = Sunday ... 6 = Saturday
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, name),
+  CHECK (cardinality(weekdays) > 0 AND weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6])
+);
+
+CREATE INDEX IF NOT EXISTS idx_timesheet_templates_user ON timesheet_templates(user_id);
@@ -0,0 +1,33 @@
+-- Migration for live timesheet timers
+-- An employee has at most one timer (running or paused) at a time; stopping it turns the
+-- tracked time into a draft project_entries row, rounded per the employee's work schedule.
+
+ALTER TABLE work_schedules
+  ADD COLUMN IF NOT EXISTS timer_rounding_minutes INTEGER NOT NULL DEFAULT 15,
+  ADD COLUMN IF NOT EXISTS timer_rounding_mode VARCHAR(10) NOT NULL DEFAULT 'nearest';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'work_schedules_timer_rounding_check'
+  ) THEN
+    ALTER TABLE work_schedules
+      ADD CONSTRAINT work_schedules_timer_rounding_check
+      CHECK (timer_rounding_minutes IN (1, 5, 6, 10, 15, 30, 60) AND timer_rounding_mode IN ('nearest', 'up', 'down'));
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS timesheet_timers (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE, -- one timer per user
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  module_id INTEGER NOT NULL REFERENCES project_modules(id) ON DELETE CASCADE,
+  task_id INTEGER NOT NULL REFERENCES project_tasks(id) ON DELETE CASCADE,
+  activity_id INTEGER REFERENCES project_activities(id) ON DELETE SET NULL,
+  description TEXT,
+  started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  running_since TIMESTAMP DEFAULT CURRENT_TIMESTAMP,              -- NULL while paused
+  accumulated_seconds INTEGER NOT NULL DEFAULT 0 CHECK (accumulated_seconds >= 0), -- time from earlier runs
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,23 @@
+-- Migration for timesheet entry revisions
+-- A snapshot of an entry is kept before every edit and whenever it is rejected, so earlier
+-- values are not lost and approvers can see what changed on a resubmitted entry.
+
+CREATE TABLE IF NOT EXISTS project_entry_revisions (
+  id SERIAL PRIMARY KEY,
+  entry_id INTEGER NOT NULL REFERENCES project_entries(id) ON DELETE CASCADE,
+  change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('edited', 'rejected')),
+  project_id INTEGER,
+  module_id INTEGER,
+  task_id INTEGER,
+  activity_id INTEGER,
+  log_date DATE NOT NULL,
+  duration DECIMAL(4,2) NOT NULL,
+  description TEXT,
+  work_status VARCHAR(50),
+  log_status VARCHAR(50),
+  rejection_reason TEXT,
+  changed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_entry_revisions_entry ON project_entry_revisions(entry_id, id);
@@ -0,0 +1,45 @@
+-- Migration for timesheet period close
+-- HR closes a month (or lets it close itself on a set day of the following month); entries
+-- dated in a closed month are read-only except for super admins and for employees whose
+-- reopen request was approved by their manager.
+
+CREATE TABLE IF NOT EXISTS timesheet_period_settings (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  -- Day of the following month on which a month closes automatically; NULL = HR closes manually
+  auto_close_day INTEGER CHECK (auto_close_day BETWEEN 1 AND 28),
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO timesheet_period_settings (id, auto_close_day) VALUES (1, 5)
+ON CONFLICT (id) DO NOTHING;
+
+-- One row per month that has been closed at least once; a month without a row is open
+CREATE TABLE IF NOT EXISTS timesheet_periods (
+  id SERIAL PRIMARY KEY,
+  period_start DATE NOT NULL UNIQUE CHECK (EXTRACT(DAY FROM period_start) = 1),
+  status VARCHAR(20) NOT NULL DEFAULT 'closed' CHECK (status IN ('open', 'closed')),
+  closed_at TIMESTAMP,
+  closed_by INTEGER REFERENCES users(id) ON DELETE SET NULL, -- NULL when closed automatically
+  reopened_at TIMESTAMP,
+  reopened_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS timesheet_reopen_requests (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  reason TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  review_comment TEXT,
+  -- Approved requests let the employee edit the period until this time
+  reopen_until TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_timesheet_reopen_requests_pending
+  ON timesheet_reopen_requests(user_id, period_start) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_timesheet_reopen_requests_user ON timesheet_reopen_requests(user_id, period_start);
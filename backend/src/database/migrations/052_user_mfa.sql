@@ -0,0 +1,32 @@
+-- Migration for TOTP two-factor authentication
+-- Users enrol an authenticator app from their profile; login then asks for a code after the
+-- password. Roles listed in security_settings must enrol before they can sign in.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_secret TEXT;
+-- Secret shown during enrolment, moved to mfa_secret once a code from it is confirmed
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_pending_secret TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_enabled_at TIMESTAMP;
+-- Last accepted time step, so a code cannot be replayed within its validity window
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_last_used_step BIGINT;
+
+CREATE TABLE IF NOT EXISTS user_mfa_recovery_codes (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash VARCHAR(64) NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_mfa_recovery_codes_user ON user_mfa_recovery_codes(user_id);
+
+-- Organisation-wide security settings (single row)
+CREATE TABLE IF NOT EXISTS security_settings (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  mfa_required_roles TEXT[] NOT NULL DEFAULT '{}',
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO security_settings (id) VALUES (1)
+ON CONFLICT (id) DO NOTHING;
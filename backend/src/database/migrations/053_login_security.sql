@@ -0,0 +1,26 @@
+-- Migration for brute-force protection
+-- Every sign-in attempt (password, two-factor code, single sign-on) is recorded. Lockouts are
+-- worked out from recent failures per email and per IP, so unknown emails lock out exactly
+-- like real ones and responses reveal nothing about which accounts exist.
+
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  method VARCHAR(20) NOT NULL CHECK (method IN ('password', 'mfa', 'sso')),
+  success BOOLEAN NOT NULL,
+  failure_reason VARCHAR(50),
+  ip_address VARCHAR(64),
+  user_agent TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_email ON login_attempts(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_ip ON login_attempts(ip_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_user ON login_attempts(user_id, created_at DESC);
+
+-- Set when HR unlocks an account; failures before it no longer count
+ALTER TABLE users ADD COLUMN IF NOT EXISTS lockout_reset_at TIMESTAMP;
+
+-- Wrong guesses against the current password reset OTP
+ALTER TABLE password_reset_otps ADD COLUMN IF NOT EXISTS failed_attempts INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,30 @@
+-- Migration for per-device sessions
+-- Each sign-in creates a session holding an opaque refresh token (only its hash is stored).
+-- The token is replaced on every refresh; presenting one that was already replaced means it
+-- was copied, so the whole session is revoked.
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  login_method VARCHAR(20),
+  ip_address VARCHAR(64),
+  user_agent TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  revoked_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  revoked_reason VARCHAR(30)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id, revoked_at);
+
+-- Every refresh token a session has issued; rotated_at is set once it has been exchanged
+CREATE TABLE IF NOT EXISTS user_session_tokens (
+  token_hash VARCHAR(64) PRIMARY KEY,
+  session_id INTEGER NOT NULL REFERENCES user_sessions(id) ON DELETE CASCADE,
+  issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  rotated_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_session_tokens_session ON user_session_tokens(session_id);
@@ -0,0 +1,54 @@
+-- Migration for named permissions
+-- Routes check permissions (e.g. leave.approve) instead of role names. Each role's
+-- permissions are kept here and can be edited by a super admin; the catalog of permission
+-- names lives in permission.service.ts.
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role VARCHAR(20) NOT NULL,
+  permission VARCHAR(60) NOT NULL,
+  granted_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  granted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (role, permission)
+);
+
+-- Defaults matching the role lists the routes used before; only seeded once so later
+-- edits are never overwritten
+INSERT INTO role_permissions (role, permission)
+SELECT d.role, d.permission
+FROM (VALUES
+  ('hr', 'dashboard.view'), ('super_admin', 'dashboard.view'),
+
+  ('employee', 'leave.apply'), ('intern', 'leave.apply'), ('manager', 'leave.apply'), ('hr', 'leave.apply'),
+  ('manager', 'leave.approve'), ('hr', 'leave.approve'), ('super_admin', 'leave.approve'),
+  ('hr', 'leave.manage'), ('super_admin', 'leave.manage'),
+  ('super_admin', 'leave.convert_lop'),
+  ('super_admin', 'leave.rules'),
+  ('manager', 'team.view'), ('hr', 'team.view'), ('super_admin', 'team.view'),
+
+  ('manager', 'employee.view'), ('hr', 'employee.view'), ('super_admin', 'employee.view'),
+  ('hr', 'employee.manage'), ('super_admin', 'employee.manage'),
+  ('hr', 'employee.edit_sensitive'), ('super_admin', 'employee.edit_sensitive'),
+  ('super_admin', 'employee.delete'),
+  ('hr', 'employee.security'), ('super_admin', 'employee.security'),
+  ('hr', 'employee.exit'), ('super_admin', 'employee.exit'),
+
+  ('hr', 'holiday.manage'), ('super_admin', 'holiday.manage'),
+  ('hr', 'schedule.manage'), ('super_admin', 'schedule.manage'),
+  ('hr', 'policy.manage'), ('super_admin', 'policy.manage'),
+
+  ('employee', 'timesheet.log'), ('intern', 'timesheet.log'), ('manager', 'timesheet.log'), ('hr', 'timesheet.log'),
+  ('manager', 'timesheet.approve'), ('hr', 'timesheet.approve'), ('super_admin', 'timesheet.approve'),
+  ('manager', 'timesheet.report'), ('hr', 'timesheet.report'), ('super_admin', 'timesheet.report'),
+  ('hr', 'timesheet.view_all'), ('super_admin', 'timesheet.view_all'),
+  ('hr', 'timesheet.period.manage'), ('super_admin', 'timesheet.period.manage'),
+
+  ('manager', 'project.create'), ('hr', 'project.create'), ('super_admin', 'project.create'),
+  ('employee', 'project.manage'), ('manager', 'project.manage'), ('hr', 'project.manage'), ('super_admin', 'project.manage'),
+  ('employee', 'project.task'), ('intern', 'project.task'), ('manager', 'project.task'), ('hr', 'project.task'), ('super_admin', 'project.task'),
+  ('super_admin', 'project.delete'),
+
+  ('super_admin', 'audit.view'),
+  ('super_admin', 'security.manage'),
+  ('super_admin', 'role.manage')
+) AS d(role, permission)
+WHERE NOT EXISTS (SELECT 1 FROM role_permissions);
@@ -0,0 +1,9 @@
+-- Migration for exit settlement account locks
+-- The account is locked after the settlement commits; account_locked_at records that it went
+-- through, so the daily job can retry settlements completed without it.
+
+ALTER TABLE exit_settlements ADD COLUMN IF NOT EXISTS account_locked_at TIMESTAMP;
+
+UPDATE exit_settlements
+SET account_locked_at = completed_at
+WHERE status = 'completed' AND account_locked_at IS NULL;
@@ -0,0 +1,14 @@
+-- Migration for system auto-approval of leave
+-- Requests approved by the nightly job were recorded in the super_admin_approval_* columns,
+-- which reads as a super admin decision. They get their own timestamp instead.
+
+ALTER TABLE leave_requests ADD COLUMN IF NOT EXISTS auto_approved_at TIMESTAMP;
+
+UPDATE leave_requests
+SET auto_approved_at = super_admin_approval_date,
+    super_admin_approval_status = NULL,
+    super_admin_approval_date = NULL,
+    super_admin_approval_comment = NULL
+WHERE super_admin_approval_comment LIKE 'Auto-approved%'
+  AND super_admin_approved_by IS NULL
+  AND auto_approved_at IS NULL;
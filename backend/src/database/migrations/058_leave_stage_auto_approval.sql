@@ -0,0 +1,13 @@
+-- Migration for auto-approved approval stages
+-- Stages closed by the nightly auto-approval job had no approver but were stored as ordinary
+-- approvals. They get their own status so the chain shows which approvers never decided.
+
+ALTER TABLE leave_approval_stages DROP CONSTRAINT IF EXISTS leave_approval_stages_status_check;
+ALTER TABLE leave_approval_stages ADD CONSTRAINT leave_approval_stages_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'skipped', 'auto_approved'));
+
+UPDATE leave_approval_stages
+SET status = 'auto_approved'
+WHERE status = 'approved'
+  AND decided_by IS NULL
+  AND comment LIKE 'Auto-approved%';
@@ -0,0 +1,17 @@
+-- Migration to stop storing calendar feed tokens in plaintext
+-- Tables created while tokens were stored as-is get a token_hash column filled with the
+-- SHA-256 of each token, so subscribed calendars keep working with their current URL.
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'calendar_feed_tokens' AND column_name = 'token'
+  ) THEN
+    ALTER TABLE calendar_feed_tokens ADD COLUMN IF NOT EXISTS token_hash VARCHAR(64);
+    UPDATE calendar_feed_tokens SET token_hash = encode(sha256(convert_to(token, 'UTF8')), 'hex');
+    ALTER TABLE calendar_feed_tokens ALTER COLUMN token_hash SET NOT NULL;
+    ALTER TABLE calendar_feed_tokens DROP COLUMN token;
+    ALTER TABLE calendar_feed_tokens ADD CONSTRAINT calendar_feed_tokens_token_hash_key UNIQUE (token_hash);
+  END IF;
+END $$;
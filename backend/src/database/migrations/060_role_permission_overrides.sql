@@ -0,0 +1,30 @@
+-- Migration for permissions that replace the remaining hard-coded role checks
+-- Migrations run on every start, so each permission's defaults are seeded only once and
+-- remembered in role_permission_seeds; grants a super admin removes later stay removed.
+
+CREATE TABLE IF NOT EXISTS role_permission_seeds (
+  permission VARCHAR(60) PRIMARY KEY,
+  seeded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+WITH defaults(role, permission) AS (
+  VALUES
+    ('hr', 'leave.approve_hr_stage'),
+    ('super_admin', 'leave.approve_any'),
+    ('hr', 'team.view_second_level'),
+    ('super_admin', 'team.view_all'),
+    ('hr', 'team.thresholds'), ('super_admin', 'team.thresholds'),
+    ('super_admin', 'timesheet.period.override')
+),
+pending AS (
+  SELECT d.role, d.permission FROM defaults d
+  WHERE NOT EXISTS (SELECT 1 FROM role_permission_seeds s WHERE s.permission = d.permission)
+),
+granted AS (
+  INSERT INTO role_permissions (role, permission)
+  SELECT role, permission FROM pending
+  ON CONFLICT (role, permission) DO NOTHING
+)
+INSERT INTO role_permission_seeds (permission)
+SELECT DISTINCT permission FROM pending
+ON CONFLICT (permission) DO NOTHING;
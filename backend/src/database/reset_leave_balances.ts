@@ -5,10 +5,23 @@ async function resetLeaveBalances() {
     console.log('Resetting all casual and sick leave balances to zero...');
     
     const result = await pool.query(`
-      UPDATE leave_balances
-      SET casual_balance = 0,
-          sick_balance = 0,
-          last_updated = CURRENT_TIMESTAMP
+      WITH changed AS (
+        SELECT elb.id, elb.employee_id, elb.leave_type_id, elb.balance
+        FROM employee_leave_balances elb
+        JOIN leave_types lt ON elb.leave_type_id = lt.id
+        WHERE lt.code IN ('casual', 'sick')
+      ), updated AS (
+        UPDATE employee_leave_balances elb
+        SET balance = 0
+        FROM changed
+        WHERE elb.id = changed.id
+        RETURNING elb.id
+      )
+      -- Record each change in the balance ledger
+      INSERT INTO leave_balance_transactions (employee_id, leave_type_id, transaction_type, delta, balance_after, source, remarks)
+      SELECT employee_id, leave_type_id, 'adjustment', 0 - balance, 0, 'reset_leave_balances', 'Balance reset'
+      FROM changed
+      WHERE balance <> 0
     `);
     
     console.log(`Successfully reset ${result.rowCount} employee leave balance records`);
@@ -4,16 +4,22 @@ async function update2026Holidays() {
   try {
     console.log('Updating 2026 holidays...');
     
+    // Holidays below belong to the default holiday calendar
+    const calendarResult = await pool.query('SELECT id FROM holiday_calendars WHERE is_default = true LIMIT 1');
+    const calendarId = calendarResult.rows[0].id;
+
     // Delete all existing holidays for 2026
     const deleteResult = await pool.query(
-      `DELETE FROM holidays WHERE EXTRACT(YEAR FROM holiday_date) = 2026`
+      `DELETE FROM holidays WHERE EXTRACT(YEAR FROM holiday_date) = 2026 AND calendar_id = $1`,
+      [calendarId]
     );
     console.log(`Deleted ${deleteResult.rowCount} existing 2026 holidays`);
     
     // Insert new holidays for 2026
     await pool.query(`
-      INSERT INTO holidays (holiday_date, holiday_name, is_active)
-      VALUES 
+      INSERT INTO holidays (holiday_date, holiday_name, is_active, calendar_id)
+      SELECT v.holiday_date::date, v.holiday_name, v.is_active, $1
+      FROM (VALUES 
         ('2026-01-01', 'New Year Day', true),
         ('2026-01-14', 'Sankranti', true),
         ('2026-02-15', 'Maha Shivaratri', true),
@@ -24,18 +30,20 @@ async function update2026Holidays() {
         ('2026-11-08', 'Deepavali', true),
         ('2026-11-10', 'Govardhan Puja', true),
         ('2026-12-25', 'Christmas', true)
-      ON CONFLICT (holiday_date) DO UPDATE
+      ) AS v(holiday_date, holiday_name, is_active)
+      ON CONFLICT (calendar_id, holiday_date) DO UPDATE
       SET holiday_name = EXCLUDED.holiday_name,
           is_active = EXCLUDED.is_active
-    `);
+    `, [calendarId]);
     
     console.log('Successfully updated 2026 holidays');
     
     // Display the updated holidays
     const result = await pool.query(
       `SELECT holiday_date, holiday_name FROM holidays 
-       WHERE EXTRACT(YEAR FROM holiday_date) = 2026 
-       ORDER BY holiday_date`
+       WHERE EXTRACT(YEAR FROM holiday_date) = 2026 AND calendar_id = $1
+       ORDER BY holiday_date`,
+      [calendarId]
     );
     
     console.log('\n2026 Holidays:');
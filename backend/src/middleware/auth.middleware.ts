@@ -10,6 +10,7 @@ export interface AuthRequest extends Request {
     email: string;
     role: string;
     name: string;
+    sessionId: number;
   };
 }
 
@@ -53,8 +54,13 @@ export const authenticateToken = async (
     try {
       logger.info(`[AUTH] Step 3: Querying DB for userId: ${userId}`);
       result = await pool.query(
-        'SELECT id, emp_id, email, user_role as role, first_name, last_name, status as status, token_version FROM users WHERE id = $1',
-        [userId]
+        `SELECT id, emp_id, email, user_role as role, first_name, last_name, status as status, token_version,
+                EXISTS (
+                  SELECT 1 FROM user_sessions s
+                  WHERE s.id = $2 AND s.user_id = users.id AND s.revoked_at IS NULL
+                ) as session_active
+         FROM users WHERE id = $1`,
+        [userId, decoded.sessionId || null]
       );
       logger.info(`[AUTH] Step 4: DB Query success, rows: ${result.rows.length}`);
     } catch (dbError: any) {
@@ -115,12 +121,26 @@ export const authenticateToken = async (
         }
       });
     }
+
+    // Signing out a device (or every device) revokes its session, which ends the access
+    // tokens issued for it too. Tokens from before sessions existed carry no sessionId.
+    if (!user.session_active) {
+      logger.warn(`[AUTH] Session ${decoded.sessionId ?? 'missing'} is not active for user ID: ${userId}`);
+      return res.status(401).json({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Session expired - Please login again'
+        }
+      });
+    }
+
     req.user = {
       id: user.id,
       empId: user.emp_id,
       email: user.email,
       role: user.role,
-      name: `${user.first_name} ${user.last_name || ''}`.trim()
+      name: `${user.first_name} ${user.last_name || ''}`.trim(),
+      sessionId: decoded.sessionId
     };
     logger.info(`[AUTH] Step 5: User attached to req, calling next()`);
 
@@ -135,29 +155,3 @@ export const authenticateToken = async (
     });
   }
 };
-
-export const authorizeRole = (allowedRoles: string[]) => {
-  return (req: AuthRequest, res: Response, next: NextFunction) => {
-    if (!req.user) {
-      logger.warn('[AUTH] authorizeRole called but user not authenticated');
-      return res.status(401).json({
-        error: {
-          code: 'UNAUTHORIZED',
-          message: 'User not authenticated'
-        }
-      });
-    }
-
-    if (!allowedRoles.includes(req.user.role)) {
-      logger.warn(`[AUTH] Access denied. User role: ${req.user.role}, Allowed: ${allowedRoles.join(', ')}`);
-      return res.status(403).json({
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Access denied'
-        }
-      });
-    }
-
-    next();
-  };
-};
@@ -1,9 +1,13 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from './auth.middleware';
+import { hasPermission } from '../services/permission.service';
 
-export const authorizeRole = (...allowedRoles: string[]) => {
-  return (req: AuthRequest, res: Response, next: NextFunction) => {
-    console.log(`[AUTHORIZE] Checking authorization - User: ${req.user?.id}, Role: ${req.user?.role}, Allowed: ${allowedRoles.join(', ')}`);
+/**
+ * Allow the request when the user's role holds at least one of the named permissions
+ */
+export const requirePermission = (...permissions: string[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    console.log(`[AUTHORIZE] Checking authorization - User: ${req.user?.id}, Role: ${req.user?.role}, Required: ${permissions.join(' | ')}`);
     if (!req.user) {
       console.log(`[AUTHORIZE] ❌ No user found - returning 401`);
       return res.status(401).json({
@@ -14,18 +18,29 @@ export const authorizeRole = (...allowedRoles: string[]) => {
       });
     }
 
-    if (!allowedRoles.includes(req.user.role)) {
-      console.log(`[AUTHORIZE] ❌ Role ${req.user.role} not in allowed roles - returning 403`);
-      return res.status(403).json({
+    try {
+      for (const permission of permissions) {
+        if (await hasPermission(req.user.role, permission)) {
+          console.log(`[AUTHORIZE] ✅ Authorization passed`);
+          return next();
+        }
+      }
+    } catch (error) {
+      console.error(`[AUTHORIZE] Failed to load role permissions:`, error);
+      return res.status(500).json({
         error: {
-          code: 'FORBIDDEN',
-          message: 'Insufficient permissions'
+          code: 'SERVER_ERROR',
+          message: 'Failed to check permissions'
         }
       });
     }
 
-    console.log(`[AUTHORIZE] ✅ Authorization passed`);
-    next();
+    console.log(`[AUTHORIZE] ❌ Role ${req.user.role} lacks ${permissions.join(' | ')} - returning 403`);
+    return res.status(403).json({
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Insufficient permissions'
+      }
+    });
   };
 };
-
@@ -0,0 +1,10 @@
+import { Request, Response, NextFunction } from 'express';
+import { runWithRequestContext } from '../utils/requestContext';
+
+/**
+ * Makes the client IP, user agent and authenticated user available to services
+ * (e.g. the audit log) without threading the request through every call.
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction) => {
+  runWithRequestContext(req, next);
+};
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import * as approvalDelegationController from '../controllers/approvalDelegation.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
+
+const router = Router();
+
+// Only approvers have approvals to delegate
+router.use(authenticateToken);
+router.use(requirePermission('leave.approve'));
+
+router.get('/', approvalDelegationController.getDelegations);
+router.get('/candidates', approvalDelegationController.getDelegateCandidates);
+router.post('/', approvalDelegationController.createDelegation);
+router.put('/:id/cancel', approvalDelegationController.cancelDelegation);
+
+export default router;
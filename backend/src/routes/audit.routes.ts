@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import * as auditController from '../controllers/audit.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
+
+const router = Router();
+
+// Audit trail is Super Admin only
+router.use(authenticateToken);
+router.use(requirePermission('audit.view'));
+
+router.get('/', auditController.getAuditLogs);
+router.get('/filters', auditController.getAuditFilterOptions);
+router.get('/export', auditController.exportAuditLogs);
+
+export default router;
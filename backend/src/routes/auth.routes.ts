@@ -7,9 +7,15 @@ import {
   changePasswordSchema,
   forgotPasswordSchema,
   verifyOTPSchema,
-  resetPasswordSchema
+  resetPasswordSchema,
+  mfaCodeSchema,
+  mfaLoginSchema,
+  mfaTokenSchema,
+  disableMfaSchema,
+  mfaPolicySchema
 } from '../validations/auth.schema';
 import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
 import rateLimit from 'express-rate-limit';
 
 const router = Router();
@@ -45,5 +51,34 @@ router.post(
   authController.resetPassword
 );
 
+// Single sign-on (OpenID Connect)
+router.get('/oidc/config', authController.getOidcConfig);
+router.get('/oidc/login', authController.startOidcLogin);
+router.get('/oidc/callback', authController.oidcCallback);
+
+// Two-factor login steps (the password has been checked; these finish the sign-in)
+router.post('/mfa/verify', validateRequest(mfaLoginSchema), authController.verifyMfaLogin);
+router.post('/mfa/login-setup', validateRequest(mfaTokenSchema), authController.startMfaLoginSetup);
+router.post('/mfa/login-setup/confirm', validateRequest(mfaLoginSchema), authController.confirmMfaLoginSetup);
+
+// Recent sign-in attempts on the signed-in user's account
+router.get('/login-history', authenticateToken, authController.getLoginHistory);
+
+// Devices the signed-in user is logged in on
+router.get('/sessions', authenticateToken, authController.getSessions);
+router.post('/sessions/revoke-others', authenticateToken, authController.revokeOtherSessions);
+router.delete('/sessions/:id', authenticateToken, authController.revokeSession);
+
+// Two-factor management for the signed-in user
+router.get('/mfa', authenticateToken, authController.getMfaStatus);
+router.post('/mfa/setup', authenticateToken, authController.startMfaEnrollment);
+router.post('/mfa/enable', authenticateToken, validateRequest(mfaCodeSchema), authController.confirmMfaEnrollment);
+router.post('/mfa/recovery-codes', authenticateToken, validateRequest(mfaCodeSchema), authController.regenerateRecoveryCodes);
+router.post('/mfa/disable', authenticateToken, validateRequest(disableMfaSchema), authController.disableMfa);
+
+// Roles that must use two-factor authentication
+router.get('/mfa/policy', authenticateToken, requirePermission('security.manage'), authController.getMfaPolicy);
+router.put('/mfa/policy', authenticateToken, requirePermission('security.manage'), validateRequest(mfaPolicySchema), authController.updateMfaPolicy);
+
 export default router;
 
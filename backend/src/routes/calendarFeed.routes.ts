@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import * as calendarFeedController from '../controllers/calendarFeed.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Token-protected feed for calendar subscriptions; must stay ahead of the auth middleware
+router.get('/:token/leaves.ics', calendarFeedController.getFeedIcs);
+
+router.use(authenticateToken);
+
+router.get('/', calendarFeedController.getMyFeed);
+router.post('/', calendarFeedController.regenerateToken);
+router.delete('/', calendarFeedController.revokeToken);
+
+export default router;
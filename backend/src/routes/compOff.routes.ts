@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import * as compOffController from '../controllers/compOff.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Claims are raised by anyone who applies for leave
+router.get('/claims', requirePermission('leave.apply'), compOffController.getMyClaims);
+router.post('/claims', requirePermission('leave.apply'), compOffController.createClaim);
+router.put('/claims/:id/cancel', requirePermission('leave.apply'), compOffController.cancelClaim);
+
+// Approvals
+router.get('/claims/pending', requirePermission('leave.approve'), compOffController.getPendingClaims);
+router.put('/claims/:id/approve', requirePermission('leave.approve'), compOffController.approveClaim);
+router.put('/claims/:id/reject', requirePermission('leave.approve'), compOffController.rejectClaim);
+
+export default router;
@@ -1,13 +1,14 @@
 import express from 'express';
 import * as dashboardController from '../controllers/dashboard.controller';
-import { authenticateToken, authorizeRole } from '../middleware/auth.middleware';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
 
 const router = express.Router();
 
 // All dashboard routes require authentication and Super Admin/HR role
-router.get('/stats', authenticateToken, authorizeRole(['super_admin', 'hr']), dashboardController.getStats);
-router.get('/analytics', authenticateToken, authorizeRole(['super_admin', 'hr']), dashboardController.getAnalytics);
-router.get('/hierarchy', authenticateToken, authorizeRole(['super_admin', 'hr']), dashboardController.getHierarchy);
-router.get('/user-details/:id', authenticateToken, authorizeRole(['super_admin', 'hr']), dashboardController.getUserDashboardDetails);
+router.get('/stats', authenticateToken, requirePermission('dashboard.view'), dashboardController.getStats);
+router.get('/analytics', authenticateToken, requirePermission('dashboard.view'), dashboardController.getAnalytics);
+router.get('/hierarchy', authenticateToken, requirePermission('dashboard.view'), dashboardController.getHierarchy);
+router.get('/user-details/:id', authenticateToken, requirePermission('dashboard.view'), dashboardController.getUserDashboardDetails);
 
 export default router;
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import * as employeeController from '../controllers/employee.controller';
 import { authenticateToken } from '../middleware/auth.middleware';
-import { authorizeRole } from '../middleware/authorize.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
 import { validateRequest } from '../middleware/validate.middleware';
 import { createEmployeeSchema, updateEmployeeSchema } from '../validations/employee.schema';
 
@@ -10,19 +10,26 @@ const router = Router();
 // All routes require authentication and HR/Super Admin role
 router.use(authenticateToken);
 // Routes for employee management
-router.get('/', authorizeRole('hr', 'super_admin', 'manager'), employeeController.getEmployees);
-router.get('/next-id', authorizeRole('hr', 'super_admin'), employeeController.getNextEmployeeId);
-router.get('/:id', authorizeRole('hr', 'super_admin', 'manager'), employeeController.getEmployeeById);
-router.post('/', authorizeRole('hr', 'super_admin'), validateRequest(createEmployeeSchema), employeeController.createEmployee);
-router.put('/:id', authorizeRole('hr', 'super_admin'), validateRequest(updateEmployeeSchema), employeeController.updateEmployee);
+router.get('/', requirePermission('employee.view'), employeeController.getEmployees);
+router.get('/next-id', requirePermission('employee.manage'), employeeController.getNextEmployeeId);
+router.get('/:id', requirePermission('employee.view'), employeeController.getEmployeeById);
+router.post('/', requirePermission('employee.manage'), validateRequest(createEmployeeSchema), employeeController.createEmployee);
+router.put('/:id', requirePermission('employee.manage'), validateRequest(updateEmployeeSchema), employeeController.updateEmployee);
 // Only super_admin can delete employees
-router.delete('/:id', authorizeRole('super_admin'), employeeController.deleteEmployee);
+router.delete('/:id', requirePermission('employee.delete'), employeeController.deleteEmployee);
 // HR and Super Admin can add leaves to employees
-router.post('/:id/leaves', authorizeRole('hr', 'super_admin'), employeeController.addLeavesToEmployee);
+router.post('/:id/leaves', requirePermission('leave.manage'), employeeController.addLeavesToEmployee);
+// HR and Super Admin can reset an employee's two-factor authentication
+router.post('/:id/reset-mfa', requirePermission('employee.security'), employeeController.resetEmployeeMfa);
+// HR and Super Admin can see sign-in lockouts and unlock accounts
+router.get('/:id/login-security', requirePermission('employee.security'), employeeController.getEmployeeLoginSecurity);
+router.post('/:id/unlock', requirePermission('employee.security'), employeeController.unlockEmployeeAccount);
+// HR and Super Admin can sign an employee out of every device (e.g. on termination)
+router.post('/:id/revoke-sessions', requirePermission('employee.security'), employeeController.revokeEmployeeSessions);
 // HR and Super Admin can view employee leave balances
-router.get('/:id/leave-balances', authorizeRole('hr', 'super_admin'), employeeController.getEmployeeLeaveBalances);
+router.get('/:id/leave-balances', requirePermission('leave.manage'), employeeController.getEmployeeLeaveBalances);
 // HR and Super Admin can send carryforward emails to all employees
-router.post('/send-carryforward-emails', authorizeRole('hr', 'super_admin'), employeeController.sendCarryForwardEmails);
+router.post('/send-carryforward-emails', requirePermission('leave.manage'), employeeController.sendCarryForwardEmails);
 // HR and Super Admin can convert LOP leaves to casual leaves (only if LOP balance exists)
 
 
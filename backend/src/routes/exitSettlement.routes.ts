@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import * as exitSettlementController from '../controllers/exitSettlement.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
+
+const router = Router();
+
+// Exits are handled by HR
+router.use(authenticateToken);
+router.use(requirePermission('employee.exit'));
+
+router.get('/', exitSettlementController.getSettlements);
+router.post('/', exitSettlementController.scheduleExit);
+router.get('/:id', exitSettlementController.getSettlement);
+router.get('/:id/pdf', exitSettlementController.downloadSettlementPDF);
+router.put('/:id/cancel', exitSettlementController.cancelExit);
+
+export default router;
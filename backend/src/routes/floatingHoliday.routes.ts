@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import * as floatingHolidayController from '../controllers/floatingHoliday.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Claims are raised by anyone who applies for leave
+router.get('/claims', requirePermission('leave.apply'), floatingHolidayController.getMyClaims);
+router.post('/claims', requirePermission('leave.apply'), floatingHolidayController.createClaim);
+router.put('/claims/:id/cancel', requirePermission('leave.apply'), floatingHolidayController.cancelClaim);
+
+// Approvals
+router.get('/claims/pending', requirePermission('leave.approve'), floatingHolidayController.getPendingClaims);
+router.put('/claims/:id/approve', requirePermission('leave.approve'), floatingHolidayController.approveClaim);
+router.put('/claims/:id/reject', requirePermission('leave.approve'), floatingHolidayController.rejectClaim);
+
+export default router;
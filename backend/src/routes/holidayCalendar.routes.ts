@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import * as holidayCalendarController from '../controllers/holidayCalendar.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
+
+const router = Router();
+
+// ICS feed for calendar subscriptions; must stay ahead of the auth middleware
+router.get('/:id/holidays.ics', holidayCalendarController.exportCalendar);
+
+// Holiday calendars and their assignments are managed by HR
+router.use(authenticateToken);
+router.use(requirePermission('holiday.manage'));
+
+router.get('/', holidayCalendarController.getCalendars);
+router.post('/', holidayCalendarController.createCalendar);
+router.get('/employees', holidayCalendarController.getEmployeeAssignments);
+router.put('/employees', holidayCalendarController.assignEmployees);
+router.put('/:id', holidayCalendarController.updateCalendar);
+router.delete('/:id', holidayCalendarController.deleteCalendar);
+router.post('/:id/import/preview', holidayCalendarController.previewImport);
+router.post('/:id/import', holidayCalendarController.importHolidays);
+
+export default router;
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import * as leaveController from '../controllers/leave.controller';
 import { authenticateToken } from '../middleware/auth.middleware';
-import { authorizeRole } from '../middleware/authorize.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
 import { validateRequest } from '../middleware/validate.middleware';
 import { applyLeaveSchema, approveLeaveSchema, rejectLeaveSchema, updateLeaveSchema, deleteLeaveSchema, approveLeaveDaySchema, rejectLeaveDaySchema, rejectLeaveDaysSchema, holidaySchema, updateHolidaySchema } from '../validations/leave.schema';
 
@@ -12,14 +12,17 @@ router.use(authenticateToken);
 
 // Public leave routes (for all authenticated users)
 router.get('/balances', leaveController.getBalances);
+router.get('/balances/statement', leaveController.getBalanceStatement);
+router.get('/balances/reconcile', requirePermission('leave.manage'), leaveController.reconcileBalances);
 router.get('/holidays', leaveController.getHolidays);
 // IMPORTANT: Leave Rules is READ-ONLY. No POST/PUT/DELETE routes should ever be added for /rules
 router.get('/rules', leaveController.getRules);
 // Note: applyLeave uses multer for file uploads, so validation is handled in the controller after FormData parsing
 router.post('/apply', leaveController.applyLeave);
 router.get('/my-requests', leaveController.getMyRequests);
-router.get('/employee/:employeeId/requests', authorizeRole('hr', 'super_admin'), leaveController.getEmployeeLeaveRequests);
-router.get('/employee/:employeeId/balances', authorizeRole('hr', 'super_admin'), leaveController.getEmployeeBalances);
+router.get('/employee/:employeeId/requests', requirePermission('leave.manage'), leaveController.getEmployeeLeaveRequests);
+router.get('/employee/:employeeId/balances', requirePermission('leave.manage'), leaveController.getEmployeeBalances);
+router.get('/employee/:employeeId/balance-statement', requirePermission('leave.manage'), leaveController.getEmployeeBalanceStatement);
 router.get('/request/:id', leaveController.getLeaveRequest);
 // Note: updateLeaveRequest uses multer for file uploads, so validation is handled in the controller after FormData parsing
 router.put('/request/:id', leaveController.updateLeaveRequest);
@@ -27,54 +30,54 @@ router.delete('/request/:id', validateRequest(deleteLeaveSchema), leaveControlle
 router.get('/request/:requestId/medical-certificate/signed-url', leaveController.getMedicalCertificateSignedUrl);
 // HR and Super Admin can convert leave request from LOP to Casual
 // Super Admin can convert leave request from LOP to Casual if proof exists
-router.post('/request/:id/convert-lop-to-casual', authorizeRole('super_admin'), leaveController.convertLeaveRequestLopToCasual);
+router.post('/request/:id/convert-lop-to-casual', requirePermission('leave.convert_lop'), leaveController.convertLeaveRequestLopToCasual);
 
 // Approval routes (Manager, HR, Super Admin)
-router.get('/pending', authorizeRole('manager', 'hr', 'super_admin'), leaveController.getPendingRequests);
-router.post('/:id/approve', authorizeRole('manager', 'hr', 'super_admin'), validateRequest(approveLeaveSchema), (req, res, next) => {
+router.get('/pending', requirePermission('leave.approve'), leaveController.getPendingRequests);
+router.post('/:id/approve', requirePermission('leave.approve'), validateRequest(approveLeaveSchema), (req, res, next) => {
   console.log(`[ROUTE] POST /leave/${req.params.id}/approve - User: ${(req as any).user?.id}, Role: ${(req as any).user?.role}`);
   console.log(`[ROUTE] Request body:`, req.body);
   console.log(`[ROUTE] Request params:`, req.params);
   next();
 }, leaveController.approveLeave);
-router.post('/:id/reject', authorizeRole('manager', 'hr', 'super_admin'), validateRequest(rejectLeaveSchema), (req, res, next) => {
+router.post('/:id/reject', requirePermission('leave.approve'), validateRequest(rejectLeaveSchema), (req, res, next) => {
   console.log(`[ROUTE] POST /leave/${req.params.id}/reject - User: ${(req as any).user?.id}, Role: ${(req as any).user?.role}`);
   console.log(`[ROUTE] Request body:`, req.body);
   console.log(`[ROUTE] Request params:`, req.params);
   next();
 }, leaveController.rejectLeave);
-router.post('/:id/day/:dayId/approve', authorizeRole('manager', 'hr', 'super_admin'), validateRequest(approveLeaveDaySchema), (req, res, next) => {
+router.post('/:id/day/:dayId/approve', requirePermission('leave.approve'), validateRequest(approveLeaveDaySchema), (req, res, next) => {
   console.log(`[ROUTE] POST /leave/${req.params.id}/day/${req.params.dayId}/approve - User: ${(req as any).user?.id}, Role: ${(req as any).user?.role}`);
   console.log(`[ROUTE] Request body:`, req.body);
   console.log(`[ROUTE] Request params:`, req.params);
   next();
 }, leaveController.approveLeaveDay);
-router.post('/:id/days/approve', authorizeRole('manager', 'hr', 'super_admin'), (req, res, next) => {
+router.post('/:id/days/approve', requirePermission('leave.approve'), (req, res, next) => {
   console.log(`[ROUTE] POST /leave/${req.params.id}/days/approve - User: ${(req as any).user?.id}, Role: ${(req as any).user?.role}`);
   console.log(`[ROUTE] Request body:`, req.body);
   console.log(`[ROUTE] Request params:`, req.params);
   next();
 }, leaveController.approveLeaveDays);
-router.post('/:id/day/:dayId/reject', authorizeRole('manager', 'hr', 'super_admin'), validateRequest(rejectLeaveDaySchema), (req, res, next) => {
+router.post('/:id/day/:dayId/reject', requirePermission('leave.approve'), validateRequest(rejectLeaveDaySchema), (req, res, next) => {
   console.log(`[ROUTE] POST /leave/${req.params.id}/day/${req.params.dayId}/reject - User: ${(req as any).user?.id}, Role: ${(req as any).user?.role}`);
   console.log(`[ROUTE] Request body:`, req.body);
   console.log(`[ROUTE] Request params:`, req.params);
   next();
 }, leaveController.rejectLeaveDay);
 // Batch Rejection Route
-router.post('/:id/days/reject', authorizeRole('manager', 'hr', 'super_admin'), validateRequest(rejectLeaveDaysSchema), (req, res, next) => {
+router.post('/:id/days/reject', requirePermission('leave.approve'), validateRequest(rejectLeaveDaysSchema), (req, res, next) => {
   console.log(`[ROUTE] POST /leave/${req.params.id}/days/reject - User: ${(req as any).user?.id}, Role: ${(req as any).user?.role}`);
   console.log(`[ROUTE] Request body:`, req.body);
   console.log(`[ROUTE] Request params:`, req.params);
   next();
 }, leaveController.rejectLeaveDays);
 
-router.post('/:id/update-status', authorizeRole('hr', 'super_admin'), leaveController.updateLeaveStatus);
-router.get('/approved', authorizeRole('manager', 'hr', 'super_admin'), leaveController.getApprovedLeaves);
+router.post('/:id/update-status', requirePermission('leave.manage'), leaveController.updateLeaveStatus);
+router.get('/approved', requirePermission('leave.approve'), leaveController.getApprovedLeaves);
 
 // Holiday management routes (HR and Super Admin only)
-router.post('/holidays', authorizeRole('hr', 'super_admin'), validateRequest(holidaySchema), leaveController.createHoliday);
-router.put('/holidays/:id', authorizeRole('hr', 'super_admin'), validateRequest(updateHolidaySchema), leaveController.updateHoliday);
-router.delete('/holidays/:id', authorizeRole('hr', 'super_admin'), leaveController.deleteHoliday);
+router.post('/holidays', requirePermission('holiday.manage'), validateRequest(holidaySchema), leaveController.createHoliday);
+router.put('/holidays/:id', requirePermission('holiday.manage'), validateRequest(updateHolidaySchema), leaveController.updateHoliday);
+router.delete('/holidays/:id', requirePermission('holiday.manage'), leaveController.deleteHoliday);
 
 export default router;
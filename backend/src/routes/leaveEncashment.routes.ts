@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import * as leaveEncashmentController from '../controllers/leaveEncashment.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
+
+const router = Router();
+
+// Encashment is settled through payroll by HR
+router.use(authenticateToken);
+router.use(requirePermission('leave.manage'));
+
+router.get('/', leaveEncashmentController.getEncashmentReport);
+router.get('/export', leaveEncashmentController.exportEncashmentReport);
+router.put('/paid', leaveEncashmentController.markEncashmentsPaid);
+
+export default router;
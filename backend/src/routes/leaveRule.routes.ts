@@ -1,13 +1,13 @@
 import { Router } from 'express';
 import * as leaveRuleController from '../controllers/leaveRule.controller';
 import { authenticateToken } from '../middleware/auth.middleware';
-import { authorizeRole } from '../middleware/authorize.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
 
 const router = Router();
 
 // All leave rule routes require Super Admin access
 router.use(authenticateToken);
-router.use(authorizeRole('super_admin'));
+router.use(requirePermission('leave.rules'));
 
 // Leave Types
 router.get('/types', leaveRuleController.getLeaveTypes);
@@ -19,4 +19,10 @@ router.delete('/types/:id', leaveRuleController.deleteLeaveType);
 router.get('/policies', leaveRuleController.getPolicies);
 router.put('/policies/:id', leaveRuleController.updatePolicy);
 
+// Approval Workflows
+router.get('/workflows', leaveRuleController.getWorkflows);
+router.post('/workflows', leaveRuleController.createWorkflow);
+router.put('/workflows/:id', leaveRuleController.updateWorkflow);
+router.delete('/workflows/:id', leaveRuleController.deleteWorkflow);
+
 export default router;
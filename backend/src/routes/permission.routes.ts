@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import * as permissionController from '../controllers/permission.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
+
+const router = Router();
+
+// Which permissions each role holds
+router.use(authenticateToken);
+router.use(requirePermission('role.manage'));
+
+router.get('/', permissionController.getRolePermissions);
+router.put('/roles/:role', permissionController.updateRolePermissions);
+
+export default router;
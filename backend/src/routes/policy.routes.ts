@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { getPolicies, createPolicy, updatePolicy, deletePolicy } from '../controllers/policy.controller';
-import { authenticateToken, authorizeRole } from '../middleware/auth.middleware';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
 
 const router = Router();
 
@@ -8,12 +9,12 @@ const router = Router();
 router.get('/', authenticateToken, getPolicies);
 
 // Create policy (Super Admin & HR only)
-router.post('/', authenticateToken, authorizeRole(['super_admin', 'hr']), createPolicy);
+router.post('/', authenticateToken, requirePermission('policy.manage'), createPolicy);
 
 // Update policy (Super Admin & HR only)
-router.put('/:id', authenticateToken, authorizeRole(['super_admin', 'hr']), updatePolicy);
+router.put('/:id', authenticateToken, requirePermission('policy.manage'), updatePolicy);
 
 // Delete policy (Super Admin & HR only)
-router.delete('/:id', authenticateToken, authorizeRole(['super_admin', 'hr']), deletePolicy);
+router.delete('/:id', authenticateToken, requirePermission('policy.manage'), deletePolicy);
 
 export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
-import { authenticateToken, authorizeRole } from '../middleware/auth.middleware';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
 import * as projectController from '../controllers/projectController';
 
 const router = Router();
@@ -8,7 +9,7 @@ const router = Router();
 router.post(
     '/',
     authenticateToken,
-    authorizeRole(['super_admin', 'hr', 'manager']),
+    requirePermission('project.create'),
     projectController.createProject
 );
 
@@ -27,7 +28,7 @@ router.get(
 router.put(
     '/:id',
     authenticateToken,
-    authorizeRole(['super_admin', 'hr', 'manager', 'employee']),
+    requirePermission('project.manage'),
     projectController.updateProject
 );
 
@@ -40,7 +41,7 @@ router.get(
 router.delete(
     '/:id',
     authenticateToken,
-    authorizeRole(['super_admin']),
+    requirePermission('project.delete'),
     projectController.deleteProject
 );
 
@@ -48,7 +49,7 @@ router.delete(
 router.post(
     '/:projectId/modules',
     authenticateToken,
-    authorizeRole(['super_admin', 'hr', 'manager', 'employee']), // PMs might be employees
+    requirePermission('project.manage'), // PMs might be employees
     projectController.createModule
 );
 
@@ -61,14 +62,14 @@ router.get(
 router.put(
     '/modules/:moduleId',
     authenticateToken,
-    authorizeRole(['super_admin', 'hr', 'manager', 'employee']),
+    requirePermission('project.manage'),
     projectController.updateModule
 );
 
 router.delete(
     '/modules/:moduleId',
     authenticateToken,
-    authorizeRole(['super_admin', 'hr', 'manager', 'employee']),
+    requirePermission('project.manage'),
     projectController.deleteModule
 );
 
@@ -76,7 +77,7 @@ router.delete(
 router.post(
     '/modules/:moduleId/tasks',
     authenticateToken,
-    authorizeRole(['super_admin', 'hr', 'manager', 'employee', 'intern']),
+    requirePermission('project.task'),
     projectController.createTask
 );
 
@@ -89,14 +90,14 @@ router.get(
 router.put(
     '/tasks/:taskId',
     authenticateToken,
-    authorizeRole(['super_admin', 'hr', 'manager', 'employee', 'intern']),
+    requirePermission('project.task'),
     projectController.updateTask
 );
 
 router.delete(
     '/tasks/:taskId',
     authenticateToken,
-    authorizeRole(['super_admin', 'hr', 'manager', 'employee', 'intern']),
+    requirePermission('project.task'),
     projectController.deleteTask
 );
 
@@ -110,14 +111,14 @@ router.get(
 router.delete(
     '/access',
     authenticateToken,
-    authorizeRole(['super_admin', 'hr', 'manager', 'employee']),
+    requirePermission('project.manage'),
     projectController.removeAccess
 );
 
 router.post(
     '/access/toggle',
     authenticateToken,
-    authorizeRole(['super_admin', 'hr', 'manager', 'employee']),
+    requirePermission('project.manage'),
     projectController.toggleAccess
 );
 
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import * as teamCalendarController from '../controllers/teamCalendar.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
+
+const router = Router();
+
+// The team calendar is for those who approve leave
+router.use(authenticateToken);
+router.use(requirePermission('team.view'));
+
+router.get('/', teamCalendarController.getTeamCalendar);
+router.get('/conflicts/:leaveRequestId', teamCalendarController.getLeaveConflicts);
+router.get('/thresholds', teamCalendarController.getThresholdSettings);
+router.put('/thresholds/team', teamCalendarController.updateTeamThreshold);
+router.put('/thresholds/projects/:projectId', teamCalendarController.updateProjectThreshold);
+
+export default router;
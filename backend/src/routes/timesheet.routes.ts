@@ -1,12 +1,28 @@
 import { Router } from 'express';
 import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
 import * as timesheetController from '../controllers/timesheet.controller';
 
 const router = Router();
 
-router.post('/entry', authenticateToken, timesheetController.saveEntry);
+router.post('/entry', authenticateToken, requirePermission('timesheet.log'), timesheetController.saveEntry);
 router.delete('/entry/:id', authenticateToken, timesheetController.deleteEntry);
+router.get('/entry/:id/revisions', authenticateToken, timesheetController.getEntryRevisions);
 router.get('/weekly', authenticateToken, timesheetController.getWeeklyEntries);
+router.post('/copy-previous-week', authenticateToken, requirePermission('timesheet.log'), timesheetController.copyPreviousWeek);
+
+// Recurring Entry Templates
+router.get('/templates', authenticateToken, timesheetController.getTemplates);
+router.post('/templates', authenticateToken, timesheetController.saveTemplate);
+router.post('/templates/apply', authenticateToken, requirePermission('timesheet.log'), timesheetController.applyTemplates);
+router.put('/templates/:id', authenticateToken, timesheetController.saveTemplate);
+router.delete('/templates/:id', authenticateToken, timesheetController.deleteTemplate);
+
+// Live Timer
+router.get('/timer', authenticateToken, timesheetController.getTimer);
+router.post('/timer', authenticateToken, requirePermission('timesheet.log'), timesheetController.startTimer);
+router.post('/timer/:action', authenticateToken, timesheetController.timerAction);
+router.delete('/timer', authenticateToken, timesheetController.discardTimer);
 
 // Approval Module Routes
 router.get('/team-status', authenticateToken, timesheetController.getTeamStatus);
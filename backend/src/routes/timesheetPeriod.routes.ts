@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import * as timesheetPeriodController from '../controllers/timesheetPeriod.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Closing and reopening whole months is HR's job
+router.get('/', requirePermission('timesheet.period.manage'), timesheetPeriodController.getPeriods);
+router.put('/settings', requirePermission('timesheet.period.manage'), timesheetPeriodController.updateSettings);
+router.post('/:period/close', requirePermission('timesheet.period.manage'), timesheetPeriodController.closePeriod);
+router.post('/:period/reopen', requirePermission('timesheet.period.manage'), timesheetPeriodController.reopenPeriod);
+
+// Anyone who logs time can see whether a week is closed and ask their manager to reopen it
+router.get('/status', timesheetPeriodController.getRangeStatus);
+router.get('/reopen-requests', timesheetPeriodController.getReopenRequests);
+router.post('/reopen-requests', timesheetPeriodController.createReopenRequest);
+router.post('/reopen-requests/:id/review', requirePermission('timesheet.approve'), timesheetPeriodController.reviewReopenRequest);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import * as workScheduleController from '../controllers/workSchedule.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorize.middleware';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Everyone can read the schedule they work to
+router.get('/me', workScheduleController.getMySchedule);
+
+// Schedules and assignments are managed by HR
+router.get('/', requirePermission('schedule.manage'), workScheduleController.getSchedules);
+router.post('/', requirePermission('schedule.manage'), workScheduleController.createSchedule);
+router.get('/employees', requirePermission('schedule.manage'), workScheduleController.getEmployeeAssignments);
+router.put('/employees', requirePermission('schedule.manage'), workScheduleController.assignEmployees);
+router.get('/departments', requirePermission('schedule.manage'), workScheduleController.getDepartmentAssignments);
+router.put('/departments', requirePermission('schedule.manage'), workScheduleController.setDepartmentSchedule);
+router.put('/:id', requirePermission('schedule.manage'), workScheduleController.updateSchedule);
+router.delete('/:id', requirePermission('schedule.manage'), workScheduleController.deleteSchedule);
+
+export default router;
@@ -8,9 +8,13 @@ async function auditAccruals() {
     try {
         const result = await pool.query(`
             SELECT u.id, u.emp_id, u.first_name, u.date_of_joining, u.user_role,
-                   lb.casual_balance, lb.sick_balance, lb.last_updated
+                   COALESCE(casual.balance, 0) as casual_balance, COALESCE(sick.balance, 0) as sick_balance,
+                   GREATEST(casual.last_credited_at, sick.last_credited_at) as last_updated
             FROM users u
-            LEFT JOIN leave_balances lb ON u.id = lb.employee_id
+            LEFT JOIN employee_leave_balances casual ON casual.employee_id = u.id
+              AND casual.leave_type_id = (SELECT id FROM leave_types WHERE code = 'casual')
+            LEFT JOIN employee_leave_balances sick ON sick.employee_id = u.id
+              AND sick.leave_type_id = (SELECT id FROM leave_types WHERE code = 'sick')
             WHERE u.status IN ('active', 'on_notice')
               AND u.user_role IN ('employee', 'manager', 'hr', 'intern')
             ORDER BY u.emp_id ASC
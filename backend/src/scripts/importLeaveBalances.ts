@@ -1,4 +1,5 @@
 import { pool } from '../database/db';
+import { setBalance } from '../services/leaveBalance.service';
 
 const leaveData = [
     { "emp_id": "TG10001", "casual": null, "sick": null, "lop": null },
@@ -52,16 +53,9 @@ async function importLeaveBalances() {
             const userId = userRes.rows[0].id;
 
             // Upsert leave balances
-            await client.query(`
-                INSERT INTO leave_balances (employee_id, casual_balance, sick_balance, lop_balance, last_updated, created_by, updated_by)
-                VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP, $5, $5)
-                ON CONFLICT (employee_id) DO UPDATE SET
-                    casual_balance = EXCLUDED.casual_balance,
-                    sick_balance = EXCLUDED.sick_balance,
-                    lop_balance = EXCLUDED.lop_balance,
-                    last_updated = CURRENT_TIMESTAMP,
-                    updated_by = $5
-            `, [userId, data.casual || 0, data.sick || 0, data.lop || 0, ADMIN_ID]);
+            await setBalance(client, userId, 'casual', data.casual || 0, { actorId: ADMIN_ID, source: 'import' });
+            await setBalance(client, userId, 'sick', data.sick || 0, { actorId: ADMIN_ID, source: 'import' });
+            await setBalance(client, userId, 'lop', data.lop || 0, { actorId: ADMIN_ID, source: 'import' });
 
             console.log(`Updated balances for ${data.emp_id} (UserID: ${userId})`);
         }
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Minimal OpenID Connect provider for trying single sign-on locally. It signs in whoever
+ * types an email address, so never point a real deployment at it.
+ *
+ *   npm run mock-oidc
+ *
+ * then start the API with:
+ *   OIDC_ISSUER=http://localhost:5556
+ *   OIDC_CLIENT_ID=hr-lms-local
+ *   OIDC_REDIRECT_URI=http://localhost:3000/api/auth/oidc/callback
+ *   OIDC_PROVIDER_NAME="Mock SSO"
+ */
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '5556', 10);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const KEY_ID = 'mock-oidc-key';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce: string | undefined;
+  codeChallenge: string | undefined;
+  email: string;
+  emailVerified: boolean;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char] as string));
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile']
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+// Sign-in form standing in for the provider's login page
+app.get('/authorize', (req, res) => {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(String(req.query[name] || ''))}" />`)
+    .join('');
+
+  res.send(`<!doctype html>
+<html>
+  <body style="font-family: sans-serif; max-width: 360px; margin: 80px auto;">
+    <h2>Mock identity provider</h2>
+    <form method="post" action="/authorize">
+      ${hidden}
+      <p><label>Email<br /><input name="email" type="email" required style="width: 100%;" /></label></p>
+      <p><label><input name="email_verified" type="checkbox" checked /> Email verified</label></p>
+      <button type="submit" name="decision" value="allow">Sign in</button>
+      <button type="submit" name="decision" value="deny">Cancel</button>
+    </form>
+  </body>
+</html>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, email, email_verified, decision } = req.body;
+  if (!redirect_uri) return res.status(400).send('redirect_uri is required');
+
+  const redirect = new URL(redirect_uri);
+  if (state) redirect.searchParams.set('state', state);
+
+  if (decision === 'deny') {
+    redirect.searchParams.set('error', 'access_denied');
+    return res.redirect(redirect.toString());
+  }
+  if (code_challenge && code_challenge_method !== 'S256') {
+    redirect.searchParams.set('error', 'invalid_request');
+    return res.redirect(redirect.toString());
+  }
+
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce: nonce || undefined,
+    codeChallenge: code_challenge || undefined,
+    email: String(email || '').trim(),
+    emailVerified: email_verified === 'on',
+    expiresAt: Date.now() + 60 * 1000
+  });
+  redirect.searchParams.set('code', code);
+  res.redirect(redirect.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+  let clientId = req.body.client_id;
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/);
+  if (basic) {
+    clientId = decodeURIComponent(Buffer.from(basic[1], 'base64').toString().split(':')[0]);
+  }
+
+  const pending = codes.get(code);
+  codes.delete(code);
+  if (grant_type !== 'authorization_code' || !pending || pending.expiresAt < Date.now()) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+  if (pending.clientId !== clientId || pending.redirectUri !== redirect_uri) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'client_id or redirect_uri mismatch' });
+  }
+  if (pending.codeChallenge) {
+    const challenge = crypto.createHash('sha256').update(String(code_verifier || '')).digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+  }
+
+  const idToken = jwt.sign(
+    {
+      sub: crypto.createHash('sha256').update(pending.email.toLowerCase()).digest('hex').slice(0, 24),
+      email: pending.email,
+      email_verified: pending.emailVerified,
+      nonce: pending.nonce
+    },
+    privateKey,
+    { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: clientId, expiresIn: '5m' }
+  );
+
+  res.json({
+    access_token: crypto.randomBytes(16).toString('hex'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC provider running at ${ISSUER}`);
+});
@@ -8,6 +8,7 @@ import dotenv from 'dotenv';
 import path from 'path';
 
 import { errorHandler } from './middleware/error.middleware';
+import { requestContext } from './middleware/requestContext.middleware';
 import { logger } from './utils/logger';
 import { verifyEmailConnection } from './utils/email';
 import { initializeCronJobs } from './utils/cronJobs';
@@ -21,6 +22,19 @@ import dashboardRoutes from './routes/dashboard.routes';
 import leaveRuleRoutes from './routes/leaveRule.routes';
 import projectRoutes from './routes/projectRoutes';
 import timesheetRoutes from './routes/timesheet.routes';
+import auditRoutes from './routes/audit.routes';
+import notificationRoutes from './routes/notification.routes';
+import approvalDelegationRoutes from './routes/approvalDelegation.routes';
+import compOffRoutes from './routes/compOff.routes';
+import leaveEncashmentRoutes from './routes/leaveEncashment.routes';
+import exitSettlementRoutes from './routes/exitSettlement.routes';
+import workScheduleRoutes from './routes/workSchedule.routes';
+import holidayCalendarRoutes from './routes/holidayCalendar.routes';
+import floatingHolidayRoutes from './routes/floatingHoliday.routes';
+import calendarFeedRoutes from './routes/calendarFeed.routes';
+import teamCalendarRoutes from './routes/teamCalendar.routes';
+import timesheetPeriodRoutes from './routes/timesheetPeriod.routes';
+import permissionRoutes from './routes/permission.routes';
 
 import { pool } from './database/db';
 import { checkAndCreditMonthlyLeaves } from './services/leaveCredit.service';
@@ -32,6 +46,11 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 5001;
 
+// Reverse proxies whose X-Forwarded-For is believed when resolving req.ip: a hop count
+// or a comma-separated list of addresses/subnets. Defaults to a proxy on the same host.
+const trustProxy = process.env.TRUST_PROXY || 'loopback';
+app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy);
+
 // Global Middleware
 app.use(helmet());
 app.use(compression()); // Enable Gzip compression
@@ -74,6 +93,9 @@ app.use(cookieParser());
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// Per-request context (client IP, user agent, acting user) for the audit log
+app.use(requestContext);
+
 // Static files for uploaded assets (e.g. profile photos)
 const uploadDir = path.resolve(process.env.UPLOAD_DIR || './uploads');
 app.use('/uploads', express.static(uploadDir, {
@@ -96,6 +118,19 @@ app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/leave-rules', leaveRuleRoutes);
 app.use('/api/projects', projectRoutes);
 app.use('/api/timesheets', timesheetRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/approval-delegations', approvalDelegationRoutes);
+app.use('/api/comp-off', compOffRoutes);
+app.use('/api/leave-encashments', leaveEncashmentRoutes);
+app.use('/api/exit-settlements', exitSettlementRoutes);
+app.use('/api/work-schedules', workScheduleRoutes);
+app.use('/api/holiday-calendars', holidayCalendarRoutes);
+app.use('/api/floating-holidays', floatingHolidayRoutes);
+app.use('/api/calendar-feed', calendarFeedRoutes);
+app.use('/api/team-calendar', teamCalendarRoutes);
+app.use('/api/timesheet-periods', timesheetPeriodRoutes);
+app.use('/api/permissions', permissionRoutes);
 
 // Error handling
 app.use(errorHandler);
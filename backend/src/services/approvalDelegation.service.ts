@@ -0,0 +1,292 @@
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { recordAudit } from './audit.service';
+import { getRolesWithPermission, hasPermission } from './permission.service';
+
+// Delegations are evaluated against the business day in IST
+const TODAY_SQL = `(CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Kolkata')::DATE`;
+
+// Manager ($1) has an approved leave day today
+const ON_LEAVE_TODAY_SQL = `EXISTS (
+  SELECT 1 FROM leave_days ld
+  JOIN leave_requests lr ON ld.leave_request_id = lr.id
+  WHERE lr.employee_id = m.id
+    AND ld.leave_date = ${TODAY_SQL}
+    AND ld.day_status = 'approved'
+    AND lr.leave_type != 'permission'
+)`;
+
+export type DelegationSource = 'explicit' | 'auto';
+
+export interface ApprovalDelegation {
+  id: number;
+  delegatorId: number;
+  delegatorName: string;
+  delegateId: number;
+  delegateName: string;
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface ActiveDelegate {
+  delegateId: number;
+  delegateName: string;
+  delegateEmail: string | null;
+  source: DelegationSource;
+}
+
+const formatDate = (value: any): string => {
+  if (!(value instanceof Date)) return String(value);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+};
+
+const mapDelegation = (row: any): ApprovalDelegation => ({
+  id: row.id,
+  delegatorId: row.delegator_id,
+  delegatorName: (row.delegator_name || '').trim(),
+  delegateId: row.delegate_id,
+  delegateName: (row.delegate_name || '').trim(),
+  startDate: formatDate(row.start_date),
+  endDate: formatDate(row.end_date),
+  reason: row.reason,
+  isActive: row.is_active,
+  createdAt: row.created_at
+});
+
+const DELEGATION_SELECT = `
+  SELECT d.*,
+         dr.first_name || ' ' || COALESCE(dr.last_name, '') as delegator_name,
+         de.first_name || ' ' || COALESCE(de.last_name, '') as delegate_name
+  FROM approval_delegations d
+  JOIN users dr ON d.delegator_id = dr.id
+  JOIN users de ON d.delegate_id = de.id
+`;
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Who approves for a manager today: an explicit delegation covering today, or
+ * else the manager's own reporting manager (L2) while the manager is on approved leave
+ */
+export const getActiveDelegate = async (managerId: number | null): Promise<ActiveDelegate | null> => {
+  if (!managerId) return null;
+
+  const explicitResult = await pool.query(
+    `SELECT u.id, u.first_name || ' ' || COALESCE(u.last_name, '') as name, u.email
+     FROM approval_delegations d
+     JOIN users u ON d.delegate_id = u.id
+     WHERE d.delegator_id = $1 AND d.is_active = true
+       AND ${TODAY_SQL} BETWEEN d.start_date AND d.end_date
+       AND u.status NOT IN ('inactive', 'resigned')
+     ORDER BY d.created_at DESC
+     LIMIT 1`,
+    [managerId]
+  );
+  if (explicitResult.rows.length > 0) {
+    const row = explicitResult.rows[0];
+    return { delegateId: row.id, delegateName: row.name.trim(), delegateEmail: row.email, source: 'explicit' };
+  }
+
+  const autoResult = await pool.query(
+    `SELECT l2.id, l2.first_name || ' ' || COALESCE(l2.last_name, '') as name, l2.email
+     FROM users m
+     JOIN users l2 ON m.reporting_manager_id = l2.id
+     WHERE m.id = $1
+       AND l2.status NOT IN ('inactive', 'resigned')
+       AND ${ON_LEAVE_TODAY_SQL}`,
+    [managerId]
+  );
+  if (autoResult.rows.length > 0) {
+    const row = autoResult.rows[0];
+    return { delegateId: row.id, delegateName: row.name.trim(), delegateEmail: row.email, source: 'auto' };
+  }
+
+  return null;
+};
+
+/**
+ * Managers whose approvals are delegated to this approver today
+ */
+export const getDelegatorIds = async (delegateId: number): Promise<number[]> => {
+  const result = await pool.query(
+    `SELECT d.delegator_id as id
+     FROM approval_delegations d
+     WHERE d.delegate_id = $1 AND d.is_active = true
+       AND ${TODAY_SQL} BETWEEN d.start_date AND d.end_date
+     UNION
+     SELECT m.id
+     FROM users m
+     WHERE m.reporting_manager_id = $1
+       AND ${ON_LEAVE_TODAY_SQL}
+       AND NOT EXISTS (
+         SELECT 1 FROM approval_delegations d
+         WHERE d.delegator_id = m.id AND d.is_active = true
+           AND ${TODAY_SQL} BETWEEN d.start_date AND d.end_date
+       )`,
+    [delegateId]
+  );
+  return result.rows.map((row: any) => row.id);
+};
+
+/**
+ * The reporting manager an approver is standing in for, or null when the
+ * approver is not that manager's current delegate
+ */
+export const getOnBehalfOf = async (
+  approverId: number,
+  reportingManagerId: number | null
+): Promise<{ id: number; name: string } | null> => {
+  if (!reportingManagerId || Number(reportingManagerId) === Number(approverId)) return null;
+
+  const delegate = await getActiveDelegate(Number(reportingManagerId));
+  if (!delegate || Number(delegate.delegateId) !== Number(approverId)) return null;
+
+  const managerResult = await pool.query(
+    `SELECT first_name || ' ' || COALESCE(last_name, '') as name FROM users WHERE id = $1`,
+    [reportingManagerId]
+  );
+  return { id: Number(reportingManagerId), name: (managerResult.rows[0]?.name || '').trim() };
+};
+
+// ============================================================================
+// Management
+// ============================================================================
+
+/**
+ * Delegations the user has given and received, newest first
+ */
+export const getDelegations = async (userId: number) => {
+  const result = await pool.query(
+    `${DELEGATION_SELECT}
+     WHERE d.delegator_id = $1 OR d.delegate_id = $1
+     ORDER BY d.start_date DESC, d.id DESC`,
+    [userId]
+  );
+  const delegations = result.rows.map(mapDelegation);
+  const current = await getActiveDelegate(userId);
+
+  return {
+    given: delegations.filter((delegation) => delegation.delegatorId === userId),
+    received: delegations.filter((delegation) => delegation.delegateId === userId),
+    // Present when the user's approvals are currently routed elsewhere (including the L2 fallback)
+    currentDelegate: current
+      ? { delegateId: current.delegateId, delegateName: current.delegateName, source: current.source }
+      : null
+  };
+};
+
+/**
+ * Active approvers (holders of leave.approve) a delegation can be handed to
+ */
+export const getDelegateCandidates = async (userId: number) => {
+  const result = await pool.query(
+    `SELECT id, emp_id, first_name || ' ' || COALESCE(last_name, '') as name, user_role
+     FROM users
+     WHERE id != $1
+       AND user_role = ANY($2)
+       AND status IN ('active', 'on_notice')
+     ORDER BY first_name, last_name`,
+    [userId, await getRolesWithPermission('leave.approve')]
+  );
+  return result.rows.map((row: any) => ({
+    id: row.id,
+    empId: row.emp_id,
+    name: row.name.trim(),
+    role: row.user_role
+  }));
+};
+
+export const createDelegation = async (
+  delegatorId: number,
+  data: { delegateId: number; startDate: string; endDate: string; reason?: string | null }
+): Promise<ApprovalDelegation> => {
+  logger.info(`[APPROVAL DELEGATION] [CREATE] Delegator: ${delegatorId}, Delegate: ${data.delegateId}, ${data.startDate} to ${data.endDate}`);
+
+  if (Number(data.delegateId) === Number(delegatorId)) {
+    throw new Error('You cannot delegate approvals to yourself');
+  }
+  if (data.endDate < data.startDate) {
+    throw new Error('End date cannot be before start date');
+  }
+
+  const delegateResult = await pool.query(
+    `SELECT id FROM users
+     WHERE id = $1 AND user_role = ANY($2) AND status IN ('active', 'on_notice')`,
+    [data.delegateId, await getRolesWithPermission('leave.approve')]
+  );
+  if (delegateResult.rows.length === 0) {
+    throw new Error('Delegate must be an active employee who can approve leave');
+  }
+
+  const todayResult = await pool.query(`SELECT ${TODAY_SQL} as today`);
+  if (data.endDate < formatDate(todayResult.rows[0].today)) {
+    throw new Error('Delegation cannot end in the past');
+  }
+
+  const overlapResult = await pool.query(
+    `SELECT 1 FROM approval_delegations
+     WHERE delegator_id = $1 AND is_active = true
+       AND start_date <= $3 AND end_date >= $2`,
+    [delegatorId, data.startDate, data.endDate]
+  );
+  if (overlapResult.rows.length > 0) {
+    throw new Error('You already have a delegation covering part of this period');
+  }
+
+  const insertResult = await pool.query(
+    `INSERT INTO approval_delegations (delegator_id, delegate_id, start_date, end_date, reason, created_by)
+     VALUES ($1, $2, $3, $4, $5, $1)
+     RETURNING id`,
+    [delegatorId, data.delegateId, data.startDate, data.endDate, data.reason || null]
+  );
+  const id = insertResult.rows[0].id;
+
+  const result = await pool.query(`${DELEGATION_SELECT} WHERE d.id = $1`, [id]);
+  const delegation = mapDelegation(result.rows[0]);
+
+  await recordAudit({
+    userId: delegatorId,
+    action: 'CREATE',
+    entityType: 'approval_delegation',
+    entityId: id,
+    newValues: delegation
+  });
+  return delegation;
+};
+
+/**
+ * Cancel a delegation; only its delegator or a holder of leave.approve_any may do so
+ */
+export const cancelDelegation = async (id: number, userId: number, userRole: string): Promise<void> => {
+  const existing = await pool.query('SELECT * FROM approval_delegations WHERE id = $1', [id]);
+  if (existing.rows.length === 0) {
+    throw new Error('Delegation not found');
+  }
+  if (existing.rows[0].delegator_id !== userId && !(await hasPermission(userRole, 'leave.approve_any'))) {
+    throw new Error('Not authorized to cancel this delegation');
+  }
+  if (!existing.rows[0].is_active) {
+    throw new Error('Delegation is already cancelled');
+  }
+
+  await pool.query(
+    `UPDATE approval_delegations
+     SET is_active = false, cancelled_by = $1, cancelled_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $2`,
+    [userId, id]
+  );
+
+  await recordAudit({
+    userId,
+    action: 'CANCEL',
+    entityType: 'approval_delegation',
+    entityId: id,
+    oldValues: { isActive: true },
+    newValues: { isActive: false }
+  });
+};
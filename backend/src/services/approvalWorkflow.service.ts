@@ -0,0 +1,589 @@
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { recordAudit, recordChange } from './audit.service';
+import { sendLeaveApplicationEmail } from '../utils/emailTemplates';
+import { getActiveDelegate } from './approvalDelegation.service';
+import { getRolesWithPermission, hasPermission } from './permission.service';
+
+type Queryable = Pool | PoolClient;
+
+export type ApprovalStageRole = 'manager' | 'hr';
+// 'auto_approved' stages were closed by the nightly job without their approver deciding
+export type ApprovalStageStatus = 'pending' | 'approved' | 'rejected' | 'skipped' | 'auto_approved';
+
+export const APPROVAL_STAGE_ROLES: ApprovalStageRole[] = ['manager', 'hr'];
+
+// Used when no active workflow matches a request
+const DEFAULT_CHAIN: ApprovalStageRole[] = ['manager'];
+
+/**
+ * Role of the first pending stage of `lr`, for use inside leave request queries
+ */
+export const CURRENT_STAGE_ROLE_SQL = `(
+  SELECT s.approver_role FROM leave_approval_stages s
+  WHERE s.leave_request_id = lr.id AND s.status = 'pending'
+  ORDER BY s.stage_order LIMIT 1
+)`;
+
+export interface ApprovalWorkflow {
+  id: number;
+  name: string;
+  leaveTypeCode: string | null;
+  minDays: number | null;
+  maxDays: number | null;
+  stages: ApprovalStageRole[];
+  priority: number;
+  isActive: boolean;
+}
+
+export interface ApprovalWorkflowInput {
+  name: string;
+  leaveTypeCode?: string | null;
+  minDays?: number | null;
+  maxDays?: number | null;
+  stages: string[];
+  priority?: number;
+  isActive?: boolean;
+}
+
+export interface ApprovalStage {
+  id: number;
+  stageOrder: number;
+  approverRole: ApprovalStageRole;
+  status: ApprovalStageStatus;
+  decidedBy: number | null;
+  decidedByName: string | null;
+  decidedAt: string | null;
+  comment: string | null;
+}
+
+export interface Approver {
+  id: number;
+  role: string;
+}
+
+const STAGE_LABELS: Record<ApprovalStageRole, string> = {
+  manager: 'Reporting Manager',
+  hr: 'HR'
+};
+
+export const describeStage = (role: ApprovalStageRole) => STAGE_LABELS[role] || role;
+
+const toNumberOrNull = (value: any): number | null =>
+  value === null || value === undefined ? null : parseFloat(value);
+
+const mapWorkflow = (row: any): ApprovalWorkflow => ({
+  id: row.id,
+  name: row.name,
+  leaveTypeCode: row.leave_type_code,
+  minDays: toNumberOrNull(row.min_days),
+  maxDays: toNumberOrNull(row.max_days),
+  stages: row.stages,
+  priority: row.priority,
+  isActive: row.is_active
+});
+
+const mapStage = (row: any): ApprovalStage => ({
+  id: row.id,
+  stageOrder: row.stage_order,
+  approverRole: row.approver_role,
+  status: row.status,
+  decidedBy: row.decided_by,
+  decidedByName: row.decided_by_name ? row.decided_by_name.trim() : null,
+  decidedAt: row.decided_at,
+  comment: row.comment
+});
+
+// ============================================================================
+// Workflow configuration
+// ============================================================================
+
+export const getWorkflows = async (): Promise<ApprovalWorkflow[]> => {
+  const result = await pool.query('SELECT * FROM leave_approval_workflows ORDER BY priority, id');
+  return result.rows.map(mapWorkflow);
+};
+
+export const validateWorkflowInput = (input: ApprovalWorkflowInput) => {
+  if (!input.name || !input.name.trim()) {
+    throw new Error('Workflow name is required');
+  }
+  if (!Array.isArray(input.stages) || input.stages.length === 0) {
+    throw new Error('At least one approval stage is required');
+  }
+  const invalidStage = input.stages.find((stage) => !APPROVAL_STAGE_ROLES.includes(stage as ApprovalStageRole));
+  if (invalidStage) {
+    throw new Error(`Invalid approval stage: ${invalidStage}`);
+  }
+  if (new Set(input.stages).size !== input.stages.length) {
+    throw new Error('Each approval stage can only appear once');
+  }
+  const minDays = input.minDays ?? null;
+  const maxDays = input.maxDays ?? null;
+  if ((minDays !== null && minDays < 0) || (maxDays !== null && maxDays < 0)) {
+    throw new Error('Day limits cannot be negative');
+  }
+  if (minDays !== null && maxDays !== null && minDays > maxDays) {
+    throw new Error('Minimum days cannot be greater than maximum days');
+  }
+};
+
+export const createWorkflow = async (input: ApprovalWorkflowInput, requesterId: number): Promise<ApprovalWorkflow> => {
+  logger.info(`[APPROVAL WORKFLOW] [CREATE] ${JSON.stringify(input)}`);
+  validateWorkflowInput(input);
+
+  const result = await pool.query(
+    `INSERT INTO leave_approval_workflows (name, leave_type_code, min_days, max_days, stages, priority, is_active, created_by, updated_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+     RETURNING *`,
+    [
+      input.name.trim(),
+      input.leaveTypeCode || null,
+      input.minDays ?? null,
+      input.maxDays ?? null,
+      input.stages,
+      input.priority ?? 100,
+      input.isActive ?? true,
+      requesterId
+    ]
+  );
+
+  const workflow = mapWorkflow(result.rows[0]);
+  await recordAudit({
+    userId: requesterId,
+    action: 'CREATE',
+    entityType: 'leave_approval_workflow',
+    entityId: workflow.id,
+    newValues: workflow
+  });
+  return workflow;
+};
+
+export const updateWorkflow = async (
+  id: number,
+  input: ApprovalWorkflowInput,
+  requesterId: number
+): Promise<ApprovalWorkflow> => {
+  logger.info(`[APPROVAL WORKFLOW] [UPDATE] ID: ${id}, ${JSON.stringify(input)}`);
+  validateWorkflowInput(input);
+
+  const beforeResult = await pool.query('SELECT * FROM leave_approval_workflows WHERE id = $1', [id]);
+  if (beforeResult.rows.length === 0) {
+    throw new Error('Approval workflow not found');
+  }
+
+  const result = await pool.query(
+    `UPDATE leave_approval_workflows
+     SET name = $1, leave_type_code = $2, min_days = $3, max_days = $4, stages = $5,
+         priority = $6, is_active = $7, updated_by = $8, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $9
+     RETURNING *`,
+    [
+      input.name.trim(),
+      input.leaveTypeCode || null,
+      input.minDays ?? null,
+      input.maxDays ?? null,
+      input.stages,
+      input.priority ?? 100,
+      input.isActive ?? true,
+      requesterId,
+      id
+    ]
+  );
+
+  const workflow = mapWorkflow(result.rows[0]);
+  await recordChange({
+    userId: requesterId,
+    action: 'UPDATE',
+    entityType: 'leave_approval_workflow',
+    entityId: id,
+    before: mapWorkflow(beforeResult.rows[0]),
+    after: workflow
+  });
+  return workflow;
+};
+
+export const deleteWorkflow = async (id: number, requesterId: number): Promise<void> => {
+  const result = await pool.query('DELETE FROM leave_approval_workflows WHERE id = $1 RETURNING *', [id]);
+  if (result.rows.length === 0) {
+    throw new Error('Approval workflow not found');
+  }
+  await recordAudit({
+    userId: requesterId,
+    action: 'DELETE',
+    entityType: 'leave_approval_workflow',
+    entityId: id,
+    oldValues: mapWorkflow(result.rows[0])
+  });
+};
+
+// ============================================================================
+// Per-request approval stages
+// ============================================================================
+
+/**
+ * Ordered approver roles for a request: the first active workflow (by priority)
+ * whose leave type and day range match, otherwise the reporting manager alone
+ */
+export const resolveApprovalChain = async (
+  db: Queryable,
+  leaveType: string,
+  days: number
+): Promise<ApprovalStageRole[]> => {
+  const result = await db.query(
+    `SELECT stages FROM leave_approval_workflows
+     WHERE is_active = true
+       AND (leave_type_code IS NULL OR leave_type_code = $1)
+       AND (min_days IS NULL OR $2 >= min_days)
+       AND (max_days IS NULL OR $2 <= max_days)
+     ORDER BY priority, id
+     LIMIT 1`,
+    [leaveType, days]
+  );
+  return result.rows.length > 0 ? result.rows[0].stages : DEFAULT_CHAIN;
+};
+
+/**
+ * (Re)build the stage rows for a request that is starting or restarting approval.
+ * A manager stage is skipped when the employee has no reporting manager.
+ */
+export const initializeApprovalStages = async (
+  client: PoolClient,
+  leaveRequestId: number,
+  employeeId: number,
+  leaveType: string,
+  days: number
+): Promise<ApprovalStage[]> => {
+  const chain = await resolveApprovalChain(client, leaveType, days);
+  const managerResult = await client.query('SELECT reporting_manager_id FROM users WHERE id = $1', [employeeId]);
+  const hasManager = !!managerResult.rows[0]?.reporting_manager_id;
+
+  await client.query('DELETE FROM leave_approval_stages WHERE leave_request_id = $1', [leaveRequestId]);
+  for (let i = 0; i < chain.length; i++) {
+    await client.query(
+      `INSERT INTO leave_approval_stages (leave_request_id, stage_order, approver_role, status)
+       VALUES ($1, $2, $3, $4)`,
+      [leaveRequestId, i + 1, chain[i], chain[i] === 'manager' && !hasManager ? 'skipped' : 'pending']
+    );
+  }
+
+  logger.info(`[APPROVAL WORKFLOW] Request ${leaveRequestId} (${leaveType}, ${days} days) requires: ${chain.join(' -> ')}`);
+  return getApprovalStages(client, leaveRequestId);
+};
+
+export const getApprovalStages = async (db: Queryable, leaveRequestId: number): Promise<ApprovalStage[]> => {
+  const result = await db.query(
+    `SELECT s.*, u.first_name || ' ' || COALESCE(u.last_name, '') as decided_by_name
+     FROM leave_approval_stages s
+     LEFT JOIN users u ON s.decided_by = u.id
+     WHERE s.leave_request_id = $1
+     ORDER BY s.stage_order`,
+    [leaveRequestId]
+  );
+  return result.rows.map(mapStage);
+};
+
+export const getApprovalStagesForRequests = async (leaveRequestIds: number[]): Promise<Map<number, ApprovalStage[]>> => {
+  const stagesMap = new Map<number, ApprovalStage[]>();
+  if (leaveRequestIds.length === 0) return stagesMap;
+
+  const result = await pool.query(
+    `SELECT s.*, u.first_name || ' ' || COALESCE(u.last_name, '') as decided_by_name
+     FROM leave_approval_stages s
+     LEFT JOIN users u ON s.decided_by = u.id
+     WHERE s.leave_request_id = ANY($1)
+     ORDER BY s.leave_request_id, s.stage_order`,
+    [leaveRequestIds]
+  );
+
+  for (const row of result.rows) {
+    if (!stagesMap.has(row.leave_request_id)) {
+      stagesMap.set(row.leave_request_id, []);
+    }
+    stagesMap.get(row.leave_request_id)!.push(mapStage(row));
+  }
+  return stagesMap;
+};
+
+/**
+ * Holders of leave.approve_any may decide any stage; otherwise the manager stage belongs
+ * to the employee's reporting manager and the HR stage to holders of leave.approve_hr_stage.
+ * Nobody decides their own request.
+ */
+export const isEligibleForStage = async (
+  stage: ApprovalStage,
+  approver: Approver,
+  employeeId: number,
+  reportingManagerId: number | null
+): Promise<boolean> => {
+  if (Number(approver.id) === Number(employeeId)) return false;
+  if (await hasPermission(approver.role, 'leave.approve_any')) return true;
+  if (stage.approverRole === 'manager') return Number(reportingManagerId) === Number(approver.id);
+  if (stage.approverRole === 'hr') return hasPermission(approver.role, 'leave.approve_hr_stage');
+  return false;
+};
+
+const getPendingStages = (stages: ApprovalStage[]) => stages.filter((stage) => stage.status === 'pending');
+
+const assertCanDecideCurrentStage = async (
+  stages: ApprovalStage[],
+  approver: Approver,
+  employeeId: number,
+  reportingManagerId: number | null
+) => {
+  const current = getPendingStages(stages)[0];
+  if (current && !(await isEligibleForStage(current, approver, employeeId, reportingManagerId))) {
+    throw new Error(`Not authorized: this request is awaiting ${describeStage(current.approverRole)} approval`);
+  }
+};
+
+/**
+ * Copy a stage decision onto the legacy manager_/hr_approval_* header columns
+ */
+const mirrorStageOnHeader = async (
+  client: PoolClient,
+  leaveRequestId: number,
+  stage: ApprovalStage,
+  status: 'approved' | 'rejected',
+  approverId: number,
+  comment?: string | null
+) => {
+  const prefix = stage.approverRole === 'hr' ? 'hr' : 'manager';
+  await client.query(
+    `UPDATE leave_requests
+     SET ${prefix}_approval_status = $1,
+         ${prefix}_approval_date = CURRENT_TIMESTAMP,
+         ${prefix}_approval_comment = $2,
+         ${prefix}_approved_by = $3
+     WHERE id = $4`,
+    [status, comment || null, approverId, leaveRequestId]
+  );
+};
+
+/**
+ * Which legacy header columns (super_admin_*, hr_* or manager_*) record an approver's
+ * decisions outside the stage mirror: overrides with leave.approve_any, HR-stage deciders
+ * with leave.approve_hr_stage, and reporting managers otherwise
+ */
+export const getHeaderColumnRole = async (role: string): Promise<'super_admin' | 'hr' | 'manager'> => {
+  if (await hasPermission(role, 'leave.approve_any')) return 'super_admin';
+  if (await hasPermission(role, 'leave.approve_hr_stage')) return 'hr';
+  return 'manager';
+};
+
+/**
+ * Record an approval against the request's chain. The approver signs off every
+ * consecutive pending stage they are eligible for (all of them with leave.approve_any).
+ * Decisions made with leave.approve_any are recorded as overrides by the caller rather
+ * than mirrored onto the stage's header columns.
+ * `nextStage` is set when later stages still have to approve.
+ */
+export const advanceApproval = async (
+  client: PoolClient,
+  leaveRequestId: number,
+  approver: Approver,
+  employeeId: number,
+  reportingManagerId: number | null,
+  comment?: string | null
+): Promise<{ hasStages: boolean; approvedStages: ApprovalStage[]; nextStage: ApprovalStage | null }> => {
+  const stages = await getApprovalStages(client, leaveRequestId);
+  const pending = getPendingStages(stages);
+  if (pending.length === 0) {
+    return { hasStages: stages.length > 0, approvedStages: [], nextStage: null };
+  }
+
+  await assertCanDecideCurrentStage(stages, approver, employeeId, reportingManagerId);
+
+  const isOverride = await hasPermission(approver.role, 'leave.approve_any');
+  const approvedStages: ApprovalStage[] = [];
+  for (const stage of pending) {
+    if (!(await isEligibleForStage(stage, approver, employeeId, reportingManagerId))) break;
+    await client.query(
+      `UPDATE leave_approval_stages
+       SET status = 'approved', decided_by = $1, decided_at = CURRENT_TIMESTAMP, comment = $2
+       WHERE id = $3`,
+      [approver.id, comment || null, stage.id]
+    );
+    if (!isOverride) {
+      await mirrorStageOnHeader(client, leaveRequestId, stage, 'approved', approver.id, comment);
+    }
+    approvedStages.push(stage);
+  }
+
+  return {
+    hasStages: true,
+    approvedStages,
+    nextStage: pending[approvedStages.length] || null
+  };
+};
+
+/**
+ * Record a rejection: the current stage is rejected and any later stages are skipped
+ */
+export const rejectApproval = async (
+  client: PoolClient,
+  leaveRequestId: number,
+  approver: Approver,
+  employeeId: number,
+  reportingManagerId: number | null,
+  comment?: string | null
+): Promise<{ hasStages: boolean }> => {
+  const stages = await getApprovalStages(client, leaveRequestId);
+  const pending = getPendingStages(stages);
+  if (pending.length === 0) {
+    return { hasStages: stages.length > 0 };
+  }
+
+  await assertCanDecideCurrentStage(stages, approver, employeeId, reportingManagerId);
+
+  const current = pending[0];
+  await client.query(
+    `UPDATE leave_approval_stages
+     SET status = 'rejected', decided_by = $1, decided_at = CURRENT_TIMESTAMP, comment = $2
+     WHERE id = $3`,
+    [approver.id, comment || null, current.id]
+  );
+  await client.query(
+    `UPDATE leave_approval_stages SET status = 'skipped'
+     WHERE leave_request_id = $1 AND status = 'pending'`,
+    [leaveRequestId]
+  );
+  if (!(await hasPermission(approver.role, 'leave.approve_any'))) {
+    await mirrorStageOnHeader(client, leaveRequestId, current, 'rejected', approver.id, comment);
+  }
+
+  return { hasStages: true };
+};
+
+/**
+ * Guard for day-wise decisions. Rejecting days is open to whoever may decide the
+ * current stage; approving days finalises the request, so the approver must be
+ * able to sign off every remaining stage.
+ */
+export const assertCanDecideDays = async (
+  leaveRequestId: number,
+  approver: Approver,
+  employeeId: number,
+  reportingManagerId: number | null,
+  action: 'approve' | 'reject'
+) => {
+  const stages = await getApprovalStages(pool, leaveRequestId);
+  const pending = getPendingStages(stages);
+  if (pending.length === 0) return;
+
+  await assertCanDecideCurrentStage(stages, approver, employeeId, reportingManagerId);
+
+  if (action === 'approve') {
+    for (const stage of pending) {
+      if (!(await isEligibleForStage(stage, approver, employeeId, reportingManagerId))) {
+        throw new Error('Day-wise approval is only available at the final approval stage. Approve the request to forward it to the next stage.');
+      }
+    }
+  }
+};
+
+/**
+ * Close any open stages once every day of the request has been decided
+ * (day-wise actions and status overrides bypass advanceApproval/rejectApproval)
+ */
+export const syncStagesWithDays = async (
+  client: PoolClient,
+  leaveRequestId: number,
+  approverId: number,
+  comment?: string | null
+) => {
+  const daysResult = await client.query(
+    `SELECT
+       COUNT(*) FILTER (WHERE COALESCE(day_status, 'pending') = 'pending') as pending,
+       COUNT(*) FILTER (WHERE day_status = 'approved') as approved
+     FROM leave_days WHERE leave_request_id = $1`,
+    [leaveRequestId]
+  );
+  const pendingDays = parseInt(daysResult.rows[0].pending, 10);
+  const approvedDays = parseInt(daysResult.rows[0].approved, 10);
+  if (pendingDays > 0) return;
+
+  if (approvedDays > 0) {
+    await client.query(
+      `UPDATE leave_approval_stages
+       SET status = 'approved', decided_by = $2, decided_at = CURRENT_TIMESTAMP, comment = $3
+       WHERE leave_request_id = $1 AND status = 'pending'`,
+      [leaveRequestId, approverId, comment || null]
+    );
+  } else {
+    await client.query(
+      `UPDATE leave_approval_stages
+       SET status = 'rejected', decided_by = $2, decided_at = CURRENT_TIMESTAMP, comment = $3
+       WHERE id = (
+         SELECT id FROM leave_approval_stages
+         WHERE leave_request_id = $1 AND status = 'pending'
+         ORDER BY stage_order LIMIT 1
+       )`,
+      [leaveRequestId, approverId, comment || null]
+    );
+    await client.query(
+      `UPDATE leave_approval_stages SET status = 'skipped'
+       WHERE leave_request_id = $1 AND status = 'pending'`,
+      [leaveRequestId]
+    );
+  }
+};
+
+/**
+ * Let the approvers of a stage know a request is waiting for them
+ */
+export const notifyStageApprovers = async (leaveRequestId: number, stage: ApprovalStage) => {
+  try {
+    const leaveResult = await pool.query(
+      `SELECT lr.*, u.first_name || ' ' || COALESCE(u.last_name, '') as employee_name, u.emp_id as employee_emp_id,
+              u.reporting_manager_id
+       FROM leave_requests lr
+       JOIN users u ON lr.employee_id = u.id
+       WHERE lr.id = $1`,
+      [leaveRequestId]
+    );
+    if (leaveResult.rows.length === 0) return;
+    const leave = leaveResult.rows[0];
+
+    // Manager stages go to the manager's delegate while one is active
+    const delegate = stage.approverRole === 'manager' ? await getActiveDelegate(leave.reporting_manager_id) : null;
+    const recipientsResult = stage.approverRole === 'manager'
+      ? await pool.query(
+        `SELECT email, first_name || ' ' || COALESCE(last_name, '') as name FROM users WHERE id = $1`,
+        [delegate?.delegateId ?? leave.reporting_manager_id]
+      )
+      : await pool.query(
+        `SELECT email, first_name || ' ' || COALESCE(last_name, '') as name FROM users
+         WHERE user_role = ANY($2::varchar[]) AND status IN ('active', 'on_notice') AND id != $1`,
+        [leave.employee_id, await getRolesWithPermission('leave.approve_hr_stage')]
+      );
+
+    const toDateString = (value: any) =>
+      value instanceof Date
+        ? `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`
+        : String(value);
+
+    for (const recipient of recipientsResult.rows) {
+      if (!recipient.email) continue;
+      await sendLeaveApplicationEmail(recipient.email, {
+        employeeName: leave.employee_name,
+        employeeEmpId: leave.employee_emp_id,
+        managerName: recipient.name,
+        leaveType: leave.leave_type,
+        startDate: toDateString(leave.start_date),
+        startType: leave.start_type,
+        endDate: toDateString(leave.end_date),
+        endType: leave.end_type,
+        noOfDays: parseFloat(leave.no_of_days) || 0,
+        reason: leave.reason,
+        timeForPermissionStart: leave.time_for_permission_start,
+        timeForPermissionEnd: leave.time_for_permission_end,
+        doctorNote: leave.doctor_note,
+        appliedDate: toDateString(leave.applied_date)
+      });
+    }
+    logger.info(`[APPROVAL WORKFLOW] Notified ${recipientsResult.rows.length} ${stage.approverRole} approver(s) for request ${leaveRequestId}`);
+  } catch (error: any) {
+    logger.error(`[APPROVAL WORKFLOW] Failed to notify ${stage.approverRole} approvers for request ${leaveRequestId}:`, error);
+  }
+};
@@ -0,0 +1,238 @@
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
+
+type Queryable = Pool | PoolClient;
+
+// Never copied into the audit log
+const SENSITIVE_FIELDS = ['password_hash', 'password', 'token_version', 'reset_token', 'otp', 'otp_expiry', 'mfa_secret', 'mfa_pending_secret'];
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = ['updated_at', 'updated_by', 'last_updated'];
+
+export interface AuditEntry {
+  /** Acting user; falls back to the authenticated user of the current request */
+  userId?: number | null;
+  action: string;
+  entityType: string;
+  entityId?: number | null;
+  oldValues?: Record<string, any> | null;
+  newValues?: Record<string, any> | null;
+}
+
+export interface AuditLogFilters {
+  actorId?: number;
+  entityType?: string;
+  entityId?: number;
+  action?: string;
+  startDate?: string;
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface AuditLog {
+  id: number;
+  userId: number | null;
+  actorName: string | null;
+  actorEmpId: string | null;
+  action: string;
+  entityType: string;
+  entityId: number | null;
+  oldValues: Record<string, any> | null;
+  newValues: Record<string, any> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+const normalizeValue = (value: any): any => {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+};
+
+const sanitize = (values?: Record<string, any> | null): Record<string, any> | null => {
+  if (!values) return null;
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (SENSITIVE_FIELDS.includes(key)) continue;
+    result[key] = normalizeValue(value);
+  }
+  return result;
+};
+
+/**
+ * Reduce two snapshots of the same row to the fields that actually changed
+ */
+export const diffValues = (
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): { oldValues: Record<string, any>; newValues: Record<string, any> } => {
+  const oldValues: Record<string, any> = {};
+  const newValues: Record<string, any> = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (SENSITIVE_FIELDS.includes(key) || IGNORED_FIELDS.includes(key)) continue;
+    const oldValue = normalizeValue(before?.[key]);
+    const newValue = normalizeValue(after?.[key]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      oldValues[key] = oldValue;
+      newValues[key] = newValue;
+    }
+  }
+
+  return { oldValues, newValues };
+};
+
+/**
+ * Write an audit entry. Failures are logged and swallowed so auditing never
+ * breaks the action being audited.
+ */
+export const recordAudit = async (entry: AuditEntry, db: Queryable = pool): Promise<void> => {
+  const context = getRequestContext();
+  const userId = entry.userId ?? context?.getUserId() ?? null;
+
+  try {
+    await db.query(
+      `INSERT INTO audit_logs (user_id, action, entity_type, entity_id, old_values, new_values, ip_address, user_agent)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        userId,
+        entry.action,
+        entry.entityType,
+        entry.entityId ?? null,
+        entry.oldValues ? JSON.stringify(sanitize(entry.oldValues)) : null,
+        entry.newValues ? JSON.stringify(sanitize(entry.newValues)) : null,
+        context?.ipAddress?.substring(0, 45) ?? null,
+        context?.userAgent ?? null
+      ]
+    );
+  } catch (error: any) {
+    logger.error(`[AUDIT] Failed to record ${entry.action} on ${entry.entityType} ${entry.entityId ?? ''}: ${error.message}`);
+  }
+};
+
+/**
+ * Audit an update from before/after snapshots; nothing is written when no field changed
+ */
+export const recordChange = async (
+  entry: Omit<AuditEntry, 'oldValues' | 'newValues'> & { before: Record<string, any> | null; after: Record<string, any> | null },
+  db: Queryable = pool
+): Promise<void> => {
+  const { before, after, ...rest } = entry;
+  const { oldValues, newValues } = diffValues(before, after);
+  if (Object.keys(newValues).length === 0) return;
+  await recordAudit({ ...rest, oldValues, newValues }, db);
+};
+
+const buildFilterClause = (filters: AuditLogFilters) => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.actorId) {
+    params.push(filters.actorId);
+    conditions.push(`al.user_id = $${params.length}`);
+  }
+  if (filters.entityType) {
+    params.push(filters.entityType);
+    conditions.push(`al.entity_type = $${params.length}`);
+  }
+  if (filters.entityId) {
+    params.push(filters.entityId);
+    conditions.push(`al.entity_id = $${params.length}`);
+  }
+  if (filters.action) {
+    params.push(filters.action);
+    conditions.push(`al.action = $${params.length}`);
+  }
+  if (filters.startDate) {
+    params.push(filters.startDate);
+    conditions.push(`al.created_at >= $${params.length}::date`);
+  }
+  if (filters.endDate) {
+    params.push(filters.endDate);
+    conditions.push(`al.created_at < ($${params.length}::date + INTERVAL '1 day')`);
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params
+  };
+};
+
+const mapAuditLog = (row: any): AuditLog => ({
+  id: row.id,
+  userId: row.user_id,
+  actorName: row.actor_name ? row.actor_name.trim() : null,
+  actorEmpId: row.actor_emp_id,
+  action: row.action,
+  entityType: row.entity_type,
+  entityId: row.entity_id,
+  oldValues: row.old_values,
+  newValues: row.new_values,
+  ipAddress: row.ip_address,
+  userAgent: row.user_agent,
+  createdAt: row.created_at
+});
+
+const AUDIT_SELECT = `
+  SELECT al.*, u.first_name || ' ' || COALESCE(u.last_name, '') as actor_name, u.emp_id as actor_emp_id
+  FROM audit_logs al
+  LEFT JOIN users u ON al.user_id = u.id`;
+
+/**
+ * Paginated audit log, newest first
+ */
+export const getAuditLogs = async (filters: AuditLogFilters) => {
+  logger.info(`[AUDIT] [GET AUDIT LOGS] Filters: ${JSON.stringify(filters)}`);
+  const page = filters.page && filters.page > 0 ? filters.page : 1;
+  const limit = filters.limit && filters.limit > 0 ? Math.min(filters.limit, 100) : 20;
+  const { where, params } = buildFilterClause(filters);
+
+  const [rowsResult, countResult] = await Promise.all([
+    pool.query(
+      `${AUDIT_SELECT} ${where} ORDER BY al.created_at DESC, al.id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    ),
+    pool.query(`SELECT COUNT(*) FROM audit_logs al ${where}`, params)
+  ]);
+
+  const total = parseInt(countResult.rows[0].count, 10);
+  return {
+    logs: rowsResult.rows.map(mapAuditLog),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+};
+
+/**
+ * All matching audit entries for export (capped to keep the file manageable)
+ */
+export const getAuditLogsForExport = async (filters: AuditLogFilters): Promise<AuditLog[]> => {
+  const { where, params } = buildFilterClause(filters);
+  const result = await pool.query(
+    `${AUDIT_SELECT} ${where} ORDER BY al.created_at DESC, al.id DESC LIMIT 10000`,
+    params
+  );
+  return result.rows.map(mapAuditLog);
+};
+
+/**
+ * Distinct entity types and actions, for the viewer's filter dropdowns
+ */
+export const getAuditFilterOptions = async () => {
+  const [entityTypes, actions] = await Promise.all([
+    pool.query('SELECT DISTINCT entity_type FROM audit_logs ORDER BY entity_type'),
+    pool.query('SELECT DISTINCT action FROM audit_logs ORDER BY action')
+  ]);
+  return {
+    entityTypes: entityTypes.rows.map((row: any) => row.entity_type),
+    actions: actions.rows.map((row: any) => row.action)
+  };
+};
@@ -1,8 +1,13 @@
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { pool } from '../database/db';
-import { generateAccessToken, generateRefreshToken } from '../utils/jwt';
+import { generateAccessToken, generateMfaToken, verifyMfaToken, MfaTokenPurpose } from '../utils/jwt';
 import { sendEmail } from '../utils/email';
 import { logger } from '../utils/logger';
+import { confirmEnrollment, isMfaRequiredForRole, MfaEnrollment, startEnrollment, verifyMfaCode } from './mfa.service';
+import { assertLoginAllowed, LoginMethod, recordLoginAttempt } from './loginSecurity.service';
+import { createSession, revokeAllSessions } from './session.service';
+import { getPermissionsForRole } from './permission.service';
 
 export interface LoginResult {
   accessToken: string;
@@ -16,10 +21,68 @@ export interface LoginResult {
     status: string;
     mustChangePassword: boolean;
     isProfileUpdated: boolean;
+    permissions: string[];
   };
 }
 
-export const login = async (email: string, password: string): Promise<LoginResult> => {
+/**
+ * Password accepted but a second step is needed: 'verify' asks for an authenticator or
+ * recovery code, 'setup' makes a user whose role requires MFA enrol before signing in
+ */
+export interface MfaChallenge {
+  mfa: 'verify' | 'setup';
+  mfaToken: string;
+}
+
+// Password reset OTPs: wrong guesses allowed per OTP, and OTPs that can be requested per window
+const MAX_OTP_ATTEMPTS = 5;
+const MAX_OTP_REQUESTS = 3;
+const OTP_REQUEST_WINDOW_MINUTES = 15;
+
+// Same message for unknown emails and wrong passwords so responses do not reveal which accounts exist
+const INVALID_CREDENTIALS = 'Invalid email or password';
+
+// Compared against when the email is unknown, so both cases take the same time
+let dummyPasswordHash: Promise<string> | null = null;
+const getDummyPasswordHash = () => {
+  if (!dummyPasswordHash) dummyPasswordHash = bcrypt.hash('not-a-real-password', 10);
+  return dummyPasswordHash;
+};
+
+const LOGIN_USER_SELECT = 'SELECT id, emp_id, email, password_hash, user_role as role, first_name, last_name, status as status, must_change_password, is_profile_updated, token_version, mfa_enabled FROM users';
+
+// Start a session for this device and issue its tokens
+const issueLoginResult = async (user: any, method: LoginMethod): Promise<LoginResult> => {
+  const { sessionId, refreshToken } = await createSession(user.id, method);
+
+  logger.info(`[AUTH] [LOGIN] Generating tokens for user ID: ${user.id}`);
+  const accessToken = generateAccessToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    tokenVersion: user.token_version || 0, // Default to 0 if null/undefined
+    sessionId
+  });
+  logger.info(`[AUTH] [LOGIN] Tokens generated successfully for user ID: ${user.id}`);
+
+  return {
+    accessToken,
+    refreshToken,
+    user: {
+      id: user.id,
+      empId: user.emp_id,
+      name: `${user.first_name} ${user.last_name || ''}`.trim(),
+      role: user.role,
+      email: user.email,
+      status: user.status,
+      mustChangePassword: !!user.must_change_password,
+      isProfileUpdated: !!user.is_profile_updated,
+      permissions: await getPermissionsForRole(user.role)
+    }
+  };
+};
+
+export const login = async (email: string, password: string): Promise<LoginResult | MfaChallenge> => {
   logger.info(`[AUTH] [LOGIN] ========== FUNCTION CALLED ==========`);
   logger.info(`[AUTH] [LOGIN] Email: ${email}`);
 
@@ -27,67 +90,163 @@ export const login = async (email: string, password: string): Promise<LoginResul
   const normalizedEmail = email.trim().toLowerCase();
   logger.info(`[AUTH] [LOGIN] Normalized email: ${normalizedEmail}`);
 
-  const result = await pool.query(
-    'SELECT id, emp_id, email, password_hash, user_role as role, first_name, last_name, status as status, must_change_password, is_profile_updated, token_version FROM users WHERE LOWER(TRIM(email)) = $1',
-    [normalizedEmail]
-  );
+  await assertLoginAllowed(normalizedEmail, 'password');
+
+  const result = await pool.query(`${LOGIN_USER_SELECT} WHERE LOWER(TRIM(email)) = $1`, [normalizedEmail]);
 
   if (result.rows.length === 0) {
     logger.warn(`[AUTH] [LOGIN] Email not found: ${normalizedEmail}`);
-    // Email does not exist
-    throw new Error('Email not found');
+    await bcrypt.compare(password, await getDummyPasswordHash());
+    await recordLoginAttempt({ email: normalizedEmail, method: 'password', success: false, failureReason: 'unknown_email' });
+    throw new Error(INVALID_CREDENTIALS);
   }
 
   const user = result.rows[0];
   logger.info(`[AUTH] [LOGIN] User found - ID: ${user.id}, Role: ${user.role}, Status: ${user.status}`);
 
-  // Allow 'on_notice' users to login as well
-  if (user.status !== 'active' && user.status !== 'on_notice') {
-    logger.warn(`[AUTH] [LOGIN] Account is not active - User ID: ${user.id}, Status: ${user.status}`);
-    throw new Error('Account is not active');
-  }
-
   logger.info(`[AUTH] [LOGIN] Validating password for user ID: ${user.id}`);
   const isValidPassword = await bcrypt.compare(password, user.password_hash);
   if (!isValidPassword) {
     logger.warn(`[AUTH] [LOGIN] Invalid password for user ID: ${user.id}`);
-    // Email exists but password is incorrect
-    throw new Error('Wrong password');
+    await recordLoginAttempt({ email: normalizedEmail, userId: user.id, method: 'password', success: false, failureReason: 'wrong_password' });
+    throw new Error(INVALID_CREDENTIALS);
+  }
+
+  // Allow 'on_notice' users to login as well. Checked after the password so the account's
+  // state is only revealed to someone who knows it.
+  if (user.status !== 'active' && user.status !== 'on_notice') {
+    logger.warn(`[AUTH] [LOGIN] Account is not active - User ID: ${user.id}, Status: ${user.status}`);
+    await recordLoginAttempt({ email: normalizedEmail, userId: user.id, method: 'password', success: false, failureReason: 'inactive' });
+    throw new Error('Account is not active');
   }
 
   logger.info(`[AUTH] [LOGIN] Password validated successfully for user ID: ${user.id}`);
+  return finishLogin(user, 'password');
+};
 
-  const tokenPayload = {
-    userId: user.id,
-    email: user.email,
-    role: user.role,
-    tokenVersion: user.token_version || 0 // Default to 0 if null/undefined
-  };
+/**
+ * Last step shared by every sign-in method once the user has proven who they are:
+ * tokens are only issued after the second factor has been checked
+ */
+const finishLogin = async (user: any, method: LoginMethod): Promise<LoginResult | MfaChallenge> => {
+  if (user.mfa_enabled || await isMfaRequiredForRole(user.role)) {
+    const step = user.mfa_enabled ? 'verify' : 'setup';
+    logger.info(`[AUTH] [LOGIN] Two-factor ${step} required for user ID: ${user.id}`);
+    return {
+      mfa: step,
+      mfaToken: generateMfaToken({
+        mfaUserId: user.id,
+        purpose: step === 'verify' ? 'mfa_verify' : 'mfa_setup',
+        tokenVersion: user.token_version || 0
+      })
+    };
+  }
 
-  logger.info(`[AUTH] [LOGIN] Generating tokens for user ID: ${user.id}`);
-  const accessToken = generateAccessToken(tokenPayload);
-  const refreshToken = generateRefreshToken(tokenPayload);
-  logger.info(`[AUTH] [LOGIN] Tokens generated successfully for user ID: ${user.id}`);
+  const loginResult = await issueLoginResult(user, method);
+  await recordLoginAttempt({ email: user.email, userId: user.id, method, success: true });
+  logger.info(`[AUTH] [LOGIN] Login successful for user ID: ${user.id}, Role: ${user.role}`);
+  return loginResult;
+};
 
-  const loginResult = {
-    accessToken,
-    refreshToken,
-    user: {
-      id: user.id,
-      empId: user.emp_id,
-      name: `${user.first_name} ${user.last_name || ''}`.trim(),
-      role: user.role,
-      email: user.email,
-      status: user.status,
-      mustChangePassword: !!user.must_change_password,
-      isProfileUpdated: !!user.is_profile_updated
-    }
-  };
+/**
+ * Sign in with an email address already verified by the single sign-on provider.
+ * Only existing accounts are matched; nobody is created from an SSO identity.
+ */
+export const loginWithSso = async (email: string): Promise<LoginResult | MfaChallenge> => {
+  logger.info(`[AUTH] [SSO LOGIN] ========== FUNCTION CALLED ==========`);
+  const normalizedEmail = email.trim().toLowerCase();
+  logger.info(`[AUTH] [SSO LOGIN] Email: ${normalizedEmail}`);
 
-  logger.info(`[AUTH] [LOGIN] Login successful for user ID: ${user.id}, Role: ${user.role}`);
+  // A lockout earned through password or two-factor failures applies here too
+  await assertLoginAllowed(normalizedEmail, 'sso');
+
+  const result = await pool.query(`${LOGIN_USER_SELECT} WHERE LOWER(TRIM(email)) = $1`, [normalizedEmail]);
+  if (result.rows.length === 0) {
+    logger.warn(`[AUTH] [SSO LOGIN] No account for email: ${normalizedEmail}`);
+    await recordLoginAttempt({ email: normalizedEmail, method: 'sso', success: false, failureReason: 'unknown_email' });
+    throw new Error('No account exists for this email address');
+  }
+
+  const user = result.rows[0];
+  logger.info(`[AUTH] [SSO LOGIN] User found - ID: ${user.id}, Role: ${user.role}, Status: ${user.status}`);
+
+  // Same status rule as password login: 'on_notice' users can still sign in
+  if (user.status !== 'active' && user.status !== 'on_notice') {
+    logger.warn(`[AUTH] [SSO LOGIN] Account is not active - User ID: ${user.id}, Status: ${user.status}`);
+    await recordLoginAttempt({ email: normalizedEmail, userId: user.id, method: 'sso', success: false, failureReason: 'inactive' });
+    throw new Error('Account is not active');
+  }
+
+  return finishLogin(user, 'sso');
+};
+
+/**
+ * The user behind a second-step token, provided they can still sign in and nothing
+ * (password change, logout everywhere) has revoked their sessions since the password step
+ */
+const loadMfaLoginUser = async (mfaToken: string, purpose: MfaTokenPurpose) => {
+  let decoded;
+  try {
+    decoded = verifyMfaToken(mfaToken, purpose);
+  } catch {
+    throw new Error('Verification session expired. Please sign in again.');
+  }
+
+  const result = await pool.query(`${LOGIN_USER_SELECT} WHERE id = $1`, [decoded.mfaUserId]);
+  const user = result.rows[0];
+  if (!user || (user.status !== 'active' && user.status !== 'on_notice') || (user.token_version || 0) !== decoded.tokenVersion) {
+    throw new Error('Verification session expired. Please sign in again.');
+  }
+  return user;
+};
+
+export const completeMfaLogin = async (mfaToken: string, code: string): Promise<LoginResult> => {
+  const user = await loadMfaLoginUser(mfaToken, 'mfa_verify');
+  logger.info(`[AUTH] [MFA LOGIN] Verifying second factor for user ID: ${user.id}`);
+  // Code guesses count towards the same lockout as password guesses
+  await assertLoginAllowed(user.email, 'mfa', user.id);
+
+  if (!(await verifyMfaCode(user.id, code))) {
+    logger.warn(`[AUTH] [MFA LOGIN] Invalid code for user ID: ${user.id}`);
+    await recordLoginAttempt({ email: user.email, userId: user.id, method: 'mfa', success: false, failureReason: 'invalid_code' });
+    throw new Error('Invalid verification code');
+  }
+
+  const loginResult = await issueLoginResult(user, 'mfa');
+  await recordLoginAttempt({ email: user.email, userId: user.id, method: 'mfa', success: true });
+  logger.info(`[AUTH] [MFA LOGIN] Login successful for user ID: ${user.id}, Role: ${user.role}`);
   return loginResult;
 };
 
+export const startMfaLoginSetup = async (mfaToken: string): Promise<MfaEnrollment> => {
+  const user = await loadMfaLoginUser(mfaToken, 'mfa_setup');
+  logger.info(`[AUTH] [MFA LOGIN SETUP] Enrolment required for user ID: ${user.id}`);
+  return startEnrollment(user.id);
+};
+
+export const confirmMfaLoginSetup = async (
+  mfaToken: string,
+  code: string
+): Promise<LoginResult & { recoveryCodes: string[] }> => {
+  const user = await loadMfaLoginUser(mfaToken, 'mfa_setup');
+  await assertLoginAllowed(user.email, 'mfa', user.id);
+
+  let recoveryCodes: string[];
+  try {
+    recoveryCodes = await confirmEnrollment(user.id, code);
+  } catch (error: any) {
+    if (error.message === 'Invalid verification code') {
+      await recordLoginAttempt({ email: user.email, userId: user.id, method: 'mfa', success: false, failureReason: 'invalid_code' });
+    }
+    throw error;
+  }
+
+  const loginResult = await issueLoginResult(user, 'mfa');
+  await recordLoginAttempt({ email: user.email, userId: user.id, method: 'mfa', success: true });
+  logger.info(`[AUTH] [MFA LOGIN SETUP] Enrolled and logged in user ID: ${user.id}, Role: ${user.role}`);
+  return { ...loginResult, recoveryCodes };
+};
+
 export const validateUser = async (userId: number) => {
   const result = await pool.query(
     'SELECT id, emp_id, email, user_role as role, first_name, last_name, status as status, must_change_password, is_profile_updated, token_version FROM users WHERE id = $1',
@@ -110,7 +269,8 @@ export const validateUser = async (userId: number) => {
     status: user.status,
     mustChangePassword: !!user.must_change_password,
     isProfileUpdated: !!user.is_profile_updated,
-    tokenVersion: user.token_version || 0
+    tokenVersion: user.token_version || 0,
+    permissions: await getPermissionsForRole(user.role)
   };
 };
 
@@ -164,6 +324,7 @@ export const changePassword = async (
     'UPDATE users SET password_hash = $1, must_change_password = false, token_version = COALESCE(token_version, 0) + 1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
     [newHash, userId]
   );
+  await revokeAllSessions(userId, 'password_change', userId);
   logger.info(`[AUTH] [CHANGE PASSWORD] Password updated successfully in database`);
 
   // Send security notification email
@@ -216,9 +377,11 @@ export const requestPasswordReset = async (email: string): Promise<void> => {
     [normalizedEmail]
   );
 
+  // Unknown and inactive emails return quietly, like a real request, so the response does
+  // not reveal which accounts exist
   if (userResult.rows.length === 0) {
     logger.warn(`[AUTH] [REQUEST PASSWORD RESET] Email not found: ${normalizedEmail}`);
-    throw new Error('Email not found');
+    return;
   }
 
   const user = userResult.rows[0];
@@ -226,7 +389,17 @@ export const requestPasswordReset = async (email: string): Promise<void> => {
 
   if (user.status !== 'active') {
     logger.warn(`[AUTH] [REQUEST PASSWORD RESET] Account is not active: ${normalizedEmail}, Status: ${user.status}`);
-    throw new Error('Account is not active');
+    return;
+  }
+
+  const recentRequests = await pool.query(
+    `SELECT COUNT(*)::int as count FROM password_reset_otps
+     WHERE user_id = $1 AND created_at > NOW() - make_interval(mins => $2)`,
+    [user.id, OTP_REQUEST_WINDOW_MINUTES]
+  );
+  if (recentRequests.rows[0].count >= MAX_OTP_REQUESTS) {
+    logger.warn(`[AUTH] [REQUEST PASSWORD RESET] Too many OTP requests for user ID: ${user.id}`);
+    return;
   }
 
   // Generate OTP
@@ -268,6 +441,70 @@ export const requestPasswordReset = async (email: string): Promise<void> => {
   logger.info(`[AUTH] [REQUEST PASSWORD RESET] Password reset request completed successfully for user ID: ${user.id}`);
 };
 
+/**
+ * The current reset OTP for an email if the given code matches it. Each wrong guess is
+ * counted against that OTP, and it is discarded after MAX_OTP_ATTEMPTS. The row stays
+ * locked from read to count so parallel guesses are checked one at a time.
+ */
+const checkResetOtp = async (normalizedEmail: string, otp: string) => {
+  const client = await pool.connect();
+  let record: any = null;
+  let matches = false;
+  let exhausted = false;
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `SELECT pr.id, pr.user_id, pr.otp, pr.failed_attempts
+       FROM password_reset_otps pr
+       JOIN users u ON pr.user_id = u.id
+       WHERE LOWER(TRIM(pr.email)) = $1
+         AND pr.is_used = false
+         AND pr.failed_attempts < $2
+         AND pr.expires_at > NOW()
+         AND u.status = 'active'
+       ORDER BY pr.created_at DESC
+       LIMIT 1
+       FOR UPDATE OF pr`,
+      [normalizedEmail, MAX_OTP_ATTEMPTS]
+    );
+    record = result.rows[0] || null;
+
+    if (record) {
+      matches =
+        typeof otp === 'string' &&
+        otp.length === record.otp.length &&
+        crypto.timingSafeEqual(Buffer.from(otp), Buffer.from(record.otp));
+
+      if (!matches) {
+        const updated = await client.query(
+          `UPDATE password_reset_otps
+           SET failed_attempts = failed_attempts + 1,
+               is_used = (failed_attempts + 1 >= $2),
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1
+           RETURNING failed_attempts`,
+          [record.id, MAX_OTP_ATTEMPTS]
+        );
+        exhausted = updated.rows[0]?.failed_attempts >= MAX_OTP_ATTEMPTS;
+      }
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if (!record) return null;
+  if (matches) return record;
+  if (exhausted) {
+    logger.warn(`[AUTH] [RESET OTP] Too many wrong OTPs, discarded OTP for user ID: ${record.user_id}`);
+    throw new Error('Too many incorrect attempts. Request a new OTP.');
+  }
+  return null;
+};
+
 /**
  * Verify OTP for password reset
  */
@@ -279,26 +516,14 @@ export const verifyPasswordResetOTP = async (email: string, otp: string): Promis
 
   // Find valid OTP
   logger.info(`[AUTH][VERIFY OTP] Searching for valid OTP`);
-  const result = await pool.query(
-    `SELECT pr.id, pr.user_id, pr.expires_at, pr.is_used, u.status as status
-     FROM password_reset_otps pr
-     JOIN users u ON pr.user_id = u.id
-     WHERE LOWER(TRIM(pr.email)) = $1 
-       AND pr.otp = $2 
-       AND pr.is_used = false
-       AND pr.expires_at > NOW()
-       AND u.status = 'active'
-     ORDER BY pr.created_at DESC
-     LIMIT 1`,
-    [normalizedEmail, otp]
-  );
+  const record = await checkResetOtp(normalizedEmail, otp);
 
-  if (result.rows.length === 0) {
+  if (!record) {
     logger.warn(`[AUTH][VERIFY OTP] Invalid or expired OTP for email: ${normalizedEmail} `);
     return false;
   }
 
-  logger.info(`[AUTH][VERIFY OTP] OTP verified successfully for user ID: ${result.rows[0].user_id} `);
+  logger.info(`[AUTH][VERIFY OTP] OTP verified successfully for user ID: ${record.user_id} `);
   return true;
 };
 
@@ -317,26 +542,13 @@ export const resetPasswordWithOTP = async (
 
   // Verify OTP
   logger.info(`[AUTH][RESET PASSWORD WITH OTP] Verifying OTP`);
-  const otpResult = await pool.query(
-    `SELECT pr.id, pr.user_id, pr.expires_at, pr.is_used, u.status as status
-     FROM password_reset_otps pr
-     JOIN users u ON pr.user_id = u.id
-     WHERE LOWER(TRIM(pr.email)) = $1 
-       AND pr.otp = $2 
-       AND pr.is_used = false
-       AND pr.expires_at > NOW()
-       AND u.status = 'active'
-     ORDER BY pr.created_at DESC
-     LIMIT 1`,
-    [normalizedEmail, otp]
-  );
+  const otpRecord = await checkResetOtp(normalizedEmail, otp);
 
-  if (otpResult.rows.length === 0) {
+  if (!otpRecord) {
     logger.warn(`[AUTH][RESET PASSWORD WITH OTP] Invalid or expired OTP for email: ${normalizedEmail} `);
     throw new Error('Invalid or expired OTP');
   }
 
-  const otpRecord = otpResult.rows[0];
   const userId = otpRecord.user_id;
   logger.info(`[AUTH][RESET PASSWORD WITH OTP] OTP verified successfully for user ID: ${userId} `);
 
@@ -373,13 +585,15 @@ export const resetPasswordWithOTP = async (
     await client.query('BEGIN');
     logger.info(`[AUTH][RESET PASSWORD WITH OTP] Transaction started`);
 
-    // Update password
+    // Update password (proving the mailbox also clears any sign-in lockout)
     logger.info(`[AUTH][RESET PASSWORD WITH OTP] Updating password in database`);
     await client.query(
-      'UPDATE users SET password_hash = $1, must_change_password = false, token_version = COALESCE(token_version, 0) + 1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      'UPDATE users SET password_hash = $1, must_change_password = false, token_version = COALESCE(token_version, 0) + 1, lockout_reset_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
       [newHash, userId]
     );
 
+    await revokeAllSessions(userId, 'password_change', null, null, client);
+
     // Mark OTP as used
     logger.info(`[AUTH][RESET PASSWORD WITH OTP] Marking OTP as used`);
     await client.query(
@@ -419,15 +633,3 @@ export const resetPasswordWithOTP = async (
     client.release();
   }
 };
-
-
-export const invalidateSession = async (userId: number): Promise<void> => {
-  logger.info(`[AUTH] [INVALIDATE SESSION] Revoking sessions for user ID: ${userId}`);
-
-  await pool.query(
-    'UPDATE users SET token_version = COALESCE(token_version, 0) + 1 WHERE id = $1',
-    [userId]
-  );
-
-  logger.info(`[AUTH] [INVALIDATE SESSION] Session revoked (token_version incremented) for user ID: ${userId}`);
-};
@@ -0,0 +1,206 @@
+import { createHash, randomBytes } from 'crypto';
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { buildCalendar, IcsEvent } from '../utils/icalendar';
+import { recordAudit } from './audit.service';
+import { USER_CALENDAR_SQL, USER_DAY_OFF_SQL } from './holidayCalendar.service';
+
+export interface CalendarFeed {
+  enabled: boolean;
+  /**
+   * Secret part of the feed URL. Only a hash is stored, so it is returned once, when issued,
+   * and is null otherwise
+   */
+  token: string | null;
+  createdAt: string | null;
+  lastAccessedAt: string | null;
+  includesTeam: boolean;
+}
+
+const LEAVE_TYPE_LABELS: Record<string, string> = {
+  casual: 'Casual Leave',
+  sick: 'Sick Leave',
+  lop: 'Loss of Pay',
+  permission: 'Permission'
+};
+
+const formatDate = (value: any): string => {
+  if (!(value instanceof Date)) return String(value);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+};
+
+const addDay = (date: string): string => {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + 1);
+  return value.toISOString().split('T')[0];
+};
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const hasTeam = async (userId: number): Promise<boolean> => {
+  const result = await pool.query(
+    `SELECT 1 FROM users WHERE reporting_manager_id = $1 AND status IN ('active', 'on_notice') LIMIT 1`,
+    [userId]
+  );
+  return result.rows.length > 0;
+};
+
+export const getFeed = async (userId: number): Promise<CalendarFeed> => {
+  const result = await pool.query(
+    'SELECT created_at, last_accessed_at FROM calendar_feed_tokens WHERE user_id = $1',
+    [userId]
+  );
+  const row = result.rows[0];
+  return {
+    enabled: !!row,
+    token: null,
+    createdAt: row?.created_at ?? null,
+    lastAccessedAt: row?.last_accessed_at ?? null,
+    includesTeam: await hasTeam(userId)
+  };
+};
+
+/**
+ * Issue a new feed token, replacing (and so revoking) any earlier one
+ */
+export const regenerateToken = async (userId: number): Promise<CalendarFeed> => {
+  logger.info(`[CALENDAR FEED] [REGENERATE] User ID: ${userId}`);
+  const token = randomBytes(24).toString('hex');
+  const result = await pool.query(
+    `INSERT INTO calendar_feed_tokens (user_id, token_hash)
+     VALUES ($1, $2)
+     ON CONFLICT (user_id) DO UPDATE SET token_hash = EXCLUDED.token_hash, created_at = CURRENT_TIMESTAMP, last_accessed_at = NULL
+     RETURNING (xmax <> 0) as replaced`,
+    [userId, hashToken(token)]
+  );
+  await recordAudit({
+    userId,
+    action: result.rows[0].replaced ? 'UPDATE' : 'CREATE',
+    entityType: 'calendar_feed',
+    entityId: userId
+  });
+  return { ...(await getFeed(userId)), token };
+};
+
+export const revokeToken = async (userId: number): Promise<void> => {
+  logger.info(`[CALENDAR FEED] [REVOKE] User ID: ${userId}`);
+  const result = await pool.query('DELETE FROM calendar_feed_tokens WHERE user_id = $1', [userId]);
+  if (result.rowCount === 0) {
+    throw new Error('Calendar feed not found');
+  }
+  await recordAudit({
+    userId,
+    action: 'DELETE',
+    entityType: 'calendar_feed',
+    entityId: userId
+  });
+};
+
+/**
+ * Consecutive approved days of one leave request become a single event; half days and
+ * permissions stay single-day events so their label stays accurate.
+ */
+const buildLeaveEvents = (rows: any[], ownerId: number): IcsEvent[] => {
+  const events: IcsEvent[] = [];
+  let current: (IcsEvent & { requestId: number; dayType: string }) | null = null;
+
+  rows.forEach((row) => {
+    const date = formatDate(row.leave_date);
+    if (
+      current &&
+      current.requestId === row.leave_request_id &&
+      current.dayType === 'full' &&
+      row.day_type === 'full' &&
+      row.leave_type !== 'permission' &&
+      current.endDate === date
+    ) {
+      current.endDate = addDay(date);
+      return;
+    }
+
+    const isOwn = row.employee_id === ownerId;
+    const name = (row.employee_name || '').trim();
+    const permissionTime = row.time_for_permission_start
+      ? ` ${String(row.time_for_permission_start).slice(0, 5)}-${String(row.time_for_permission_end || '').slice(0, 5)}`
+      : '';
+    // Team members' leave types are not shared, only that they are away
+    const label = row.leave_type === 'permission'
+      ? `Permission${permissionTime}`
+      : isOwn
+        ? `${LEAVE_TYPE_LABELS[row.leave_type] || 'Leave'}${row.day_type === 'half' ? ' (Half Day)' : ''}`
+        : row.day_type === 'half' ? 'Half Day Leave' : 'On Leave';
+    const summary = isOwn ? label : `${name}: ${label}`;
+
+    current = {
+      uid: `leave-${row.leave_request_id}-${date}@intra.tensorgo.com`,
+      startDate: date,
+      endDate: addDay(date),
+      summary,
+      categories: [isOwn ? 'My Leave' : 'Team Leave'],
+      requestId: row.leave_request_id,
+      dayType: row.leave_type === 'permission' ? 'permission' : row.day_type
+    };
+    events.push(current);
+  });
+
+  return events.map(({ uid, startDate, endDate, summary, categories }) => ({ uid, startDate, endDate, summary, categories }));
+};
+
+/**
+ * ICS feed for a token: the user's approved leave days, those of their direct reports,
+ * and their holidays, from the start of last year onwards
+ */
+export const buildFeed = async (token: string): Promise<string> => {
+  const tokenHash = hashToken(token);
+  const userResult = await pool.query(
+    `SELECT u.id, u.first_name, u.last_name, ${USER_CALENDAR_SQL} as calendar_id
+     FROM calendar_feed_tokens t
+     JOIN users u ON u.id = t.user_id
+     WHERE t.token_hash = $1 AND u.status IN ('active', 'on_notice')`,
+    [tokenHash]
+  );
+  if (userResult.rows.length === 0) {
+    throw new Error('Calendar feed not found');
+  }
+  const user = userResult.rows[0];
+
+  const leavesResult = await pool.query(
+    `SELECT ld.leave_request_id, ld.leave_date, ld.day_type, ld.employee_id, lr.leave_type,
+            lr.time_for_permission_start, lr.time_for_permission_end,
+            u.first_name || ' ' || COALESCE(u.last_name, '') as employee_name
+     FROM leave_days ld
+     JOIN leave_requests lr ON lr.id = ld.leave_request_id
+     JOIN users u ON u.id = ld.employee_id
+     WHERE ld.day_status = 'approved'
+       AND EXTRACT(YEAR FROM ld.leave_date) >= EXTRACT(YEAR FROM CURRENT_DATE) - 1
+       AND (ld.employee_id = $1 OR (u.reporting_manager_id = $1 AND u.status IN ('active', 'on_notice')))
+     ORDER BY ld.employee_id, ld.leave_request_id, ld.leave_date`,
+    [user.id]
+  );
+
+  const holidaysResult = await pool.query(
+    `SELECT h.id, h.holiday_date, h.holiday_name, h.is_optional
+     FROM holidays h, users u
+     WHERE u.id = $1 AND h.calendar_id = $2 AND h.is_active = true
+       AND ${USER_DAY_OFF_SQL}
+       AND EXTRACT(YEAR FROM h.holiday_date) >= EXTRACT(YEAR FROM CURRENT_DATE) - 1
+     ORDER BY h.holiday_date`,
+    [user.id, user.calendar_id]
+  );
+
+  const holidayEvents: IcsEvent[] = holidaysResult.rows.map((row: any) => {
+    const date = formatDate(row.holiday_date);
+    return {
+      uid: `holiday-${row.id}@intra.tensorgo.com`,
+      startDate: date,
+      endDate: addDay(date),
+      summary: row.holiday_name,
+      categories: [row.is_optional ? 'Floating Holiday' : 'Holiday']
+    };
+  });
+
+  await pool.query('UPDATE calendar_feed_tokens SET last_accessed_at = CURRENT_TIMESTAMP WHERE user_id = $1', [user.id]);
+
+  const name = `${user.first_name} ${user.last_name || ''}`.trim();
+  return buildCalendar(`TensorGo Leaves - ${name}`, [...buildLeaveEvents(leavesResult.rows, user.id), ...holidayEvents]);
+};
@@ -0,0 +1,535 @@
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { sendCompOffClaimEmail, sendCompOffStatusEmail } from '../utils/emailTemplates';
+import { recordAudit } from './audit.service';
+import { adjustBalance, getBalance } from './leaveBalance.service';
+import { getActiveDelegate, getDelegatorIds, getOnBehalfOf } from './approvalDelegation.service';
+import { hasPermission } from './permission.service';
+import { DAY_NAMES, getEmployeeSchedule } from './workSchedule.service';
+import { USER_CALENDAR_SQL } from './holidayCalendar.service';
+
+export const COMP_OFF_LEAVE_TYPE = 'comp_off';
+
+// Claims must be raised within this many days of the day worked
+export const CLAIM_WINDOW_DAYS = 30;
+// Approved comp-off can be used for this many days after the day worked
+export const VALIDITY_DAYS = 90;
+// Approved timesheet hours needed on the day for a full / half day of comp-off
+export const FULL_DAY_HOURS = 8;
+export const HALF_DAY_HOURS = 4;
+
+const TODAY_SQL = `(CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Kolkata')::DATE`;
+
+// System project that holds the auto-filled Holiday/Leave entries
+const SYSTEM_PROJECT_CUSTOM_ID = 'SYS-TG';
+
+export type CompOffClaimStatus = 'pending' | 'approved' | 'rejected' | 'cancelled' | 'expired';
+
+export interface CompOffClaim {
+  id: number;
+  employeeId: number;
+  employeeName: string;
+  empId: string;
+  workDate: string;
+  dayKind: string;
+  hoursWorked: number;
+  days: number;
+  reason: string;
+  status: CompOffClaimStatus;
+  approverId: number | null;
+  approverName: string | null;
+  approverComment: string | null;
+  decidedAt: string | null;
+  expiresOn: string | null;
+  lapsedDays: number | null;
+  createdAt: string;
+  delegatedFrom?: string | null;
+}
+
+const formatDate = (value: any): string | null => {
+  if (value === null || value === undefined) return null;
+  if (!(value instanceof Date)) return String(value);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+};
+
+const mapClaim = (row: any): CompOffClaim => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  employeeName: (row.employee_name || '').trim(),
+  empId: row.emp_id,
+  workDate: formatDate(row.work_date) as string,
+  dayKind: row.holiday_name || DAY_NAMES[new Date(`${formatDate(row.work_date)}T00:00:00`).getDay()],
+  hoursWorked: parseFloat(row.hours_worked) || 0,
+  days: parseFloat(row.days) || 0,
+  reason: row.reason,
+  status: row.status,
+  approverId: row.approver_id,
+  approverName: row.approver_name ? row.approver_name.trim() : null,
+  approverComment: row.approver_comment,
+  decidedAt: row.decided_at,
+  expiresOn: formatDate(row.expires_on),
+  lapsedDays: row.lapsed_days !== null && row.lapsed_days !== undefined ? parseFloat(row.lapsed_days) : null,
+  createdAt: row.created_at
+});
+
+const CLAIM_SELECT = `
+  SELECT c.*, u.emp_id, u.reporting_manager_id,
+         u.first_name || ' ' || COALESCE(u.last_name, '') as employee_name,
+         a.first_name || ' ' || COALESCE(a.last_name, '') as approver_name,
+         h.holiday_name
+  FROM comp_off_claims c
+  JOIN users u ON c.employee_id = u.id
+  LEFT JOIN users a ON c.approver_id = a.id
+  LEFT JOIN holidays h ON h.holiday_date = c.work_date AND h.is_active = true AND h.is_optional = false
+   AND h.calendar_id = ${USER_CALENDAR_SQL}
+`;
+
+/**
+ * Approved project hours logged on a date, ignoring the system Holiday/Leave entries
+ */
+const getApprovedProjectHours = async (employeeId: number, workDate: string): Promise<number> => {
+  const result = await pool.query(
+    `SELECT COALESCE(SUM(pe.duration), 0) as hours
+     FROM project_entries pe
+     JOIN projects p ON pe.project_id = p.id
+     WHERE pe.user_id = $1 AND pe.log_date = $2
+       AND pe.log_status = 'approved'
+       AND COALESCE(p.custom_id, '') != $3`,
+    [employeeId, workDate, SYSTEM_PROJECT_CUSTOM_ID]
+  );
+  return parseFloat(result.rows[0].hours) || 0;
+};
+
+const toCompOffDays = (hours: number): number => {
+  if (hours >= FULL_DAY_HOURS) return 1;
+  if (hours >= HALF_DAY_HOURS) return 0.5;
+  return 0;
+};
+
+// ============================================================================
+// Claims
+// ============================================================================
+
+/**
+ * Raise a comp-off claim for a weekend (a day off in the employee's work schedule) or holiday worked
+ */
+export const createClaim = async (
+  employeeId: number,
+  data: { workDate: string; reason: string }
+): Promise<CompOffClaim> => {
+  logger.info(`[COMP OFF] [CREATE CLAIM] Employee: ${employeeId}, Work date: ${data.workDate}`);
+
+  const dateResult = await pool.query(
+    `SELECT $1::DATE <= ${TODAY_SQL} as is_past,
+            $1::DATE >= ${TODAY_SQL} - $2::INTEGER as in_window,
+            EXTRACT(DOW FROM $1::DATE) as dow,
+            EXISTS (
+              SELECT 1 FROM users u
+              JOIN holidays h ON h.calendar_id = ${USER_CALENDAR_SQL}
+              WHERE u.id = $3 AND h.holiday_date = $1::DATE AND h.is_active = true AND h.is_optional = false
+            ) as is_holiday`,
+    [data.workDate, CLAIM_WINDOW_DAYS, employeeId]
+  );
+  const { is_past, in_window, dow, is_holiday } = dateResult.rows[0];
+
+  if (!is_past) {
+    throw new Error('Comp-off cannot be claimed for a future date');
+  }
+  if (!in_window) {
+    throw new Error(`Comp-off must be claimed within ${CLAIM_WINDOW_DAYS} days of the day worked`);
+  }
+  const schedule = await getEmployeeSchedule(employeeId);
+  if (!is_holiday && schedule.workingDays.includes(parseInt(dow))) {
+    throw new Error('Comp-off can only be claimed for a weekend or holiday');
+  }
+
+  const existing = await pool.query(
+    `SELECT status FROM comp_off_claims
+     WHERE employee_id = $1 AND work_date = $2 AND status IN ('pending', 'approved', 'expired')`,
+    [employeeId, data.workDate]
+  );
+  if (existing.rows.length > 0) {
+    throw new Error('A comp-off claim already exists for this date');
+  }
+
+  const hoursWorked = await getApprovedProjectHours(employeeId, data.workDate);
+  const days = toCompOffDays(hoursWorked);
+  if (days === 0) {
+    throw new Error(`At least ${HALF_DAY_HOURS} approved timesheet hours are required on this date (found ${hoursWorked})`);
+  }
+
+  const insertResult = await pool.query(
+    `INSERT INTO comp_off_claims (employee_id, work_date, hours_worked, days, reason)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING id`,
+    [employeeId, data.workDate, hoursWorked, days, data.reason]
+  );
+  const id = insertResult.rows[0].id;
+
+  const result = await pool.query(`${CLAIM_SELECT} WHERE c.id = $1`, [id]);
+  const claim = mapClaim(result.rows[0]);
+
+  await recordAudit({
+    userId: employeeId,
+    action: 'CREATE',
+    entityType: 'comp_off_claim',
+    entityId: id,
+    newValues: { workDate: claim.workDate, hoursWorked, days, reason: data.reason }
+  });
+
+  // Notify the reporting manager, or whoever is approving for them today
+  try {
+    const reportingManagerId = result.rows[0].reporting_manager_id;
+    if (reportingManagerId) {
+      const delegate = await getActiveDelegate(reportingManagerId);
+      const approverResult = await pool.query(
+        `SELECT email, first_name || ' ' || COALESCE(last_name, '') as name FROM users WHERE id = $1`,
+        [delegate?.delegateId ?? reportingManagerId]
+      );
+      const approver = approverResult.rows[0];
+      if (approver?.email) {
+        await sendCompOffClaimEmail(approver.email, {
+          approverName: approver.name.trim(),
+          employeeName: claim.employeeName,
+          employeeEmpId: claim.empId,
+          workDate: claim.workDate,
+          hoursWorked,
+          days,
+          reason: data.reason
+        });
+      }
+    }
+  } catch (emailError: any) {
+    logger.error(`[COMP OFF] [CREATE CLAIM] Failed to notify approver for claim ${id}:`, emailError);
+  }
+
+  return claim;
+};
+
+/**
+ * Claims raised by an employee, newest first
+ */
+export const getMyClaims = async (employeeId: number): Promise<CompOffClaim[]> => {
+  const result = await pool.query(
+    `${CLAIM_SELECT}
+     WHERE c.employee_id = $1
+     ORDER BY c.work_date DESC, c.id DESC`,
+    [employeeId]
+  );
+  return result.rows.map(mapClaim);
+};
+
+/**
+ * Pending claims the approver can act on: their direct reports and the teams of
+ * managers they are standing in for. Holders of leave.approve_any see every pending claim.
+ */
+export const getPendingClaims = async (approverId: number, approverRole: string): Promise<CompOffClaim[]> => {
+  if (await hasPermission(approverRole, 'leave.approve_any')) {
+    const result = await pool.query(
+      `${CLAIM_SELECT} WHERE c.status = 'pending' ORDER BY c.work_date ASC, c.id ASC`
+    );
+    return result.rows.map(mapClaim);
+  }
+
+  const delegatorIds = await getDelegatorIds(approverId);
+  const result = await pool.query(
+    `${CLAIM_SELECT}
+     WHERE c.status = 'pending'
+       AND u.reporting_manager_id = ANY($1)
+     ORDER BY c.work_date ASC, c.id ASC`,
+    [[approverId, ...delegatorIds]]
+  );
+
+  const delegatorNames = new Map<number, string>();
+  if (delegatorIds.length > 0) {
+    const namesResult = await pool.query(
+      `SELECT id, first_name || ' ' || COALESCE(last_name, '') as name FROM users WHERE id = ANY($1)`,
+      [delegatorIds]
+    );
+    namesResult.rows.forEach((row: any) => delegatorNames.set(row.id, row.name.trim()));
+  }
+
+  return result.rows.map((row: any) => ({
+    ...mapClaim(row),
+    delegatedFrom: row.reporting_manager_id !== approverId ? delegatorNames.get(row.reporting_manager_id) || null : null
+  }));
+};
+
+/**
+ * Load a pending claim and check the approver may decide it
+ */
+const getDecidableClaim = async (claimId: number, approverId: number, approverRole: string) => {
+  const result = await pool.query(`${CLAIM_SELECT} WHERE c.id = $1`, [claimId]);
+  if (result.rows.length === 0) {
+    throw new Error('Comp-off claim not found');
+  }
+  const row = result.rows[0];
+
+  if (row.status !== 'pending') {
+    throw new Error(`Comp-off claim is already ${row.status}`);
+  }
+  if (row.employee_id === approverId) {
+    throw new Error('You cannot decide your own comp-off claim');
+  }
+
+  const onBehalfOf = await getOnBehalfOf(approverId, row.reporting_manager_id);
+  if (row.reporting_manager_id !== approverId && !onBehalfOf && !(await hasPermission(approverRole, 'leave.approve_any'))) {
+    throw new Error('Not authorized to decide this comp-off claim');
+  }
+
+  return { row, onBehalfOf };
+};
+
+const getUserName = async (userId: number): Promise<string> => {
+  const result = await pool.query(
+    `SELECT first_name || ' ' || COALESCE(last_name, '') as name FROM users WHERE id = $1`,
+    [userId]
+  );
+  return (result.rows[0]?.name || '').trim();
+};
+
+/**
+ * Approve a claim and credit its days to the comp-off balance
+ */
+export const approveClaim = async (
+  claimId: number,
+  approverId: number,
+  approverRole: string,
+  comment?: string | null
+): Promise<CompOffClaim> => {
+  logger.info(`[COMP OFF] [APPROVE CLAIM] Claim: ${claimId}, Approver: ${approverId}`);
+  const { row, onBehalfOf } = await getDecidableClaim(claimId, approverId, approverRole);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const updateResult = await client.query(
+      `UPDATE comp_off_claims
+       SET status = 'approved', approver_id = $1, approver_comment = $2, decided_at = CURRENT_TIMESTAMP,
+           expires_on = work_date + $3::INTEGER, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4 AND status = 'pending'
+       RETURNING expires_on`,
+      [approverId, comment || null, VALIDITY_DAYS, claimId]
+    );
+    if (updateResult.rows.length === 0) {
+      throw new Error('Comp-off claim is no longer pending');
+    }
+
+    await adjustBalance(client, row.employee_id, COMP_OFF_LEAVE_TYPE, parseFloat(row.days), {
+      actorId: approverId,
+      transactionType: 'credit',
+      source: 'comp_off',
+      remarks: `Comp-off for ${formatDate(row.work_date)}`
+    });
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const result = await pool.query(`${CLAIM_SELECT} WHERE c.id = $1`, [claimId]);
+  const claim = mapClaim(result.rows[0]);
+
+  await recordAudit({
+    userId: approverId,
+    action: 'APPROVE',
+    entityType: 'comp_off_claim',
+    entityId: claimId,
+    oldValues: { status: 'pending' },
+    newValues: {
+      status: 'approved',
+      days: claim.days,
+      expiresOn: claim.expiresOn,
+      comment: comment || null,
+      ...(onBehalfOf ? { onBehalfOfId: onBehalfOf.id, onBehalfOf: onBehalfOf.name } : {})
+    }
+  });
+
+  try {
+    const employeeResult = await pool.query('SELECT email FROM users WHERE id = $1', [row.employee_id]);
+    const approverName = await getUserName(approverId);
+    if (employeeResult.rows[0]?.email) {
+      await sendCompOffStatusEmail(employeeResult.rows[0].email, {
+        employeeName: claim.employeeName,
+        workDate: claim.workDate,
+        days: claim.days,
+        status: 'approved',
+        approverName: onBehalfOf ? `${approverName} (on behalf of ${onBehalfOf.name})` : approverName,
+        comment: comment || null,
+        expiresOn: claim.expiresOn
+      });
+    }
+  } catch (emailError: any) {
+    logger.error(`[COMP OFF] [APPROVE CLAIM] Failed to notify employee for claim ${claimId}:`, emailError);
+  }
+
+  return claim;
+};
+
+export const rejectClaim = async (
+  claimId: number,
+  approverId: number,
+  approverRole: string,
+  comment: string
+): Promise<CompOffClaim> => {
+  logger.info(`[COMP OFF] [REJECT CLAIM] Claim: ${claimId}, Approver: ${approverId}`);
+  const { row, onBehalfOf } = await getDecidableClaim(claimId, approverId, approverRole);
+
+  await pool.query(
+    `UPDATE comp_off_claims
+     SET status = 'rejected', approver_id = $1, approver_comment = $2, decided_at = CURRENT_TIMESTAMP,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $3`,
+    [approverId, comment, claimId]
+  );
+
+  const result = await pool.query(`${CLAIM_SELECT} WHERE c.id = $1`, [claimId]);
+  const claim = mapClaim(result.rows[0]);
+
+  await recordAudit({
+    userId: approverId,
+    action: 'REJECT',
+    entityType: 'comp_off_claim',
+    entityId: claimId,
+    oldValues: { status: 'pending' },
+    newValues: {
+      status: 'rejected',
+      comment,
+      ...(onBehalfOf ? { onBehalfOfId: onBehalfOf.id, onBehalfOf: onBehalfOf.name } : {})
+    }
+  });
+
+  try {
+    const employeeResult = await pool.query('SELECT email FROM users WHERE id = $1', [row.employee_id]);
+    const approverName = await getUserName(approverId);
+    if (employeeResult.rows[0]?.email) {
+      await sendCompOffStatusEmail(employeeResult.rows[0].email, {
+        employeeName: claim.employeeName,
+        workDate: claim.workDate,
+        days: claim.days,
+        status: 'rejected',
+        approverName: onBehalfOf ? `${approverName} (on behalf of ${onBehalfOf.name})` : approverName,
+        comment
+      });
+    }
+  } catch (emailError: any) {
+    logger.error(`[COMP OFF] [REJECT CLAIM] Failed to notify employee for claim ${claimId}:`, emailError);
+  }
+
+  return claim;
+};
+
+/**
+ * Withdraw a claim that has not been decided yet
+ */
+export const cancelClaim = async (claimId: number, employeeId: number): Promise<void> => {
+  const existing = await pool.query('SELECT employee_id, status FROM comp_off_claims WHERE id = $1', [claimId]);
+  if (existing.rows.length === 0) {
+    throw new Error('Comp-off claim not found');
+  }
+  if (existing.rows[0].employee_id !== employeeId) {
+    throw new Error('Not authorized to cancel this comp-off claim');
+  }
+  if (existing.rows[0].status !== 'pending') {
+    throw new Error('Only pending comp-off claims can be cancelled');
+  }
+
+  await pool.query(
+    `UPDATE comp_off_claims SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+    [claimId]
+  );
+
+  await recordAudit({
+    userId: employeeId,
+    action: 'CANCEL',
+    entityType: 'comp_off_claim',
+    entityId: claimId,
+    oldValues: { status: 'pending' },
+    newValues: { status: 'cancelled' }
+  });
+};
+
+// ============================================================================
+// Expiry
+// ============================================================================
+
+/**
+ * Lapse the unused part of approved claims whose validity has ended.
+ *
+ * Comp-off leave is not tied to a particular claim, so the balance is treated as
+ * consumed oldest-claim-first: an expiring claim only lapses what is left once the
+ * days of newer, still valid claims are set aside.
+ */
+export const expireCompOffClaims = async (): Promise<{ expired: number; lapsedDays: number }> => {
+  const dueResult = await pool.query(
+    `SELECT c.id, c.employee_id, c.work_date, c.days, c.expires_on,
+            u.email, u.first_name || ' ' || COALESCE(u.last_name, '') as employee_name
+     FROM comp_off_claims c
+     JOIN users u ON c.employee_id = u.id
+     WHERE c.status = 'approved' AND c.expires_on < ${TODAY_SQL}
+     ORDER BY c.employee_id, c.expires_on ASC, c.id ASC`
+  );
+
+  let expired = 0;
+  let lapsedDays = 0;
+
+  for (const claim of dueResult.rows) {
+    const client = await pool.connect();
+    let lapse = 0;
+    try {
+      await client.query('BEGIN');
+
+      const balance = await getBalance(client, claim.employee_id, COMP_OFF_LEAVE_TYPE);
+      const validResult = await client.query(
+        `SELECT COALESCE(SUM(days), 0) as days
+         FROM comp_off_claims
+         WHERE employee_id = $1 AND status = 'approved' AND expires_on >= ${TODAY_SQL}`,
+        [claim.employee_id]
+      );
+      const stillValid = parseFloat(validResult.rows[0].days) || 0;
+      lapse = Math.max(0, Math.min(parseFloat(claim.days), balance - stillValid));
+
+      if (lapse > 0) {
+        await adjustBalance(client, claim.employee_id, COMP_OFF_LEAVE_TYPE, -lapse, {
+          transactionType: 'lapse',
+          source: 'comp_off_expiry',
+          remarks: `Comp-off for ${formatDate(claim.work_date)} expired`
+        });
+      }
+
+      await client.query(
+        `UPDATE comp_off_claims SET status = 'expired', lapsed_days = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2`,
+        [lapse, claim.id]
+      );
+
+      await client.query('COMMIT');
+      expired++;
+      lapsedDays += lapse;
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      logger.error(`[COMP OFF] [EXPIRE] Failed to expire claim ${claim.id}:`, error);
+      continue;
+    } finally {
+      client.release();
+    }
+
+    if (lapse > 0 && claim.email) {
+      try {
+        await sendCompOffStatusEmail(claim.email, {
+          employeeName: claim.employee_name.trim(),
+          workDate: formatDate(claim.work_date) as string,
+          days: lapse,
+          status: 'expired'
+        });
+      } catch (emailError: any) {
+        logger.error(`[COMP OFF] [EXPIRE] Failed to notify employee for claim ${claim.id}:`, emailError);
+      }
+    }
+  }
+
+  return { expired, lapsedDays };
+};
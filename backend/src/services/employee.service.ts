@@ -5,8 +5,18 @@ import { formatDateLocal } from '../utils/dateCalculator';
 import * as emailTemplates from '../utils/emailTemplates';
 import { calculateAllLeaveCredits } from '../utils/leaveCredit';
 import { toTitleCase } from '../utils/stringUtils';
+import { getBalance, getBalanceMap, getLeaveTypeByCode, adjustBalance, setBalance, initializeBalances, deleteBalances } from './leaveBalance.service';
+import { recordAudit, recordChange } from './audit.service';
+import { revokeAllSessions } from './session.service';
+import { hasPermission } from './permission.service';
 
 
+// Full users row, used as the before/after snapshot for the audit log
+const getEmployeeAuditSnapshot = async (employeeId: number) => {
+  const result = await pool.query('SELECT * FROM users WHERE id = $1', [employeeId]);
+  return result.rows[0] || null;
+};
+
 export const getEmployees = async (
   page: number = 1,
   limit: number = 20,
@@ -226,7 +236,8 @@ export const getEmployeeById = async (employeeId: number) => {
     throw new Error('Employee not found');
   }
 
-  const user = result.rows[0];
+  // Authenticator secrets never leave the server
+  const { mfa_secret, mfa_pending_secret, ...user } = result.rows[0];
 
   const education = [];
   if (user.pg_stream || user.pg_college || user.pg_year || user.pg_percentage) {
@@ -663,17 +674,11 @@ export const createEmployee = async (employeeData: any, requesterRole?: string,
   logger.info(`[EMPLOYEE] [CREATE EMPLOYEE] Employee created successfully with User ID: ${userId}`);
 
   // Initialize leave balances (set to 0 by default as per requirement to disable auto-add on joining)
-  // LOP balance defaults to 10
+  // Each leave type starts at its configured default (LOP defaults to 10)
   // Skip creating leave balances for super_admin
   if (role !== 'super_admin') {
-    const casualBalance = 0;
-    const sickBalance = 0;
-
-    logger.info(`[EMPLOYEE] [CREATE EMPLOYEE] Initializing leave balances - Casual: ${casualBalance}, Sick: ${sickBalance}, LOP: 10`);
-    await pool.query(
-      'INSERT INTO leave_balances (employee_id, casual_balance, sick_balance, lop_balance, created_by, updated_by) VALUES ($1, $2, $3, 10, $4, $4)',
-      [userId, casualBalance, sickBalance, requesterId || userId]
-    );
+    logger.info(`[EMPLOYEE] [CREATE EMPLOYEE] Initializing leave balances from leave type defaults`);
+    await initializeBalances(pool, userId, requesterId || userId);
     logger.info(`[EMPLOYEE] [CREATE EMPLOYEE] Leave balances initialized successfully`);
   } else {
     logger.info(`[EMPLOYEE] [CREATE EMPLOYEE] Skipped leave balance initialization for super_admin`);
@@ -744,6 +749,14 @@ export const createEmployee = async (employeeData: any, requesterRole?: string,
     logger.error(`[EMPLOYEE] [CREATE EMPLOYEE] Error sending new employee credentials email:`, emailError);
   }
 
+  await recordAudit({
+    userId: requesterId,
+    action: 'CREATE',
+    entityType: 'employee',
+    entityId: userId,
+    newValues: { emp_id: empId, email: employeeData.email, role: employeeData.role, status: employeeData.status || 'active' }
+  });
+
   logger.info(`[EMPLOYEE] [CREATE EMPLOYEE] Employee creation completed successfully - User ID: ${userId}, Emp ID: ${empId}`);
   return { employeeId: userId, message: 'Employee created successfully' };
 };
@@ -898,6 +911,8 @@ export const updateEmployee = async (employeeId: number, employeeData: any, requ
     throw new Error('Employee not found');
   }
 
+  const auditBefore = await getEmployeeAuditSnapshot(employeeId);
+
   // Track important changes for notifications
   const oldRole = employeeCheck.rows[0].role;
   const newRole = employeeData.role;
@@ -1016,6 +1031,19 @@ export const updateEmployee = async (employeeId: number, employeeData: any, requ
   const isRoleTransition = requestedRole !== null && requestedRole !== formattedDbRole;
   const isInactiveTransition = requestedStatus === 'inactive' && formattedDbStatus !== 'inactive';
 
+  // Role, status and reporting line changes need their own permission. System updates such
+  // as exit settlement pass no requester.
+  const isStatusTransition = requestedStatus !== null && requestedStatus !== formattedDbStatus;
+  const isManagerTransition = employeeData.reportingManagerId !== undefined &&
+    Number(employeeData.reportingManagerId || 0) !== Number(dbReportingManagerId || 0);
+  if (
+    requesterId &&
+    (isRoleTransition || isStatusTransition || isManagerTransition) &&
+    !(await hasPermission(requesterRole || '', 'employee.edit_sensitive'))
+  ) {
+    throw new Error('Not authorized to change role, status or reporting manager');
+  }
+
   // Define Hierarchy Levels
   const highHierarchy = ['super_admin', 'hr', 'manager'];
   const lowHierarchy = ['employee', 'intern'];
@@ -1316,6 +1344,9 @@ export const updateEmployee = async (employeeId: number, employeeData: any, requ
   const RESTRICTED_STATUSES = ['resigned', 'terminated', 'inactive'];
 
   if (newStatus && RESTRICTED_STATUSES.includes(newStatus) && oldStatus !== newStatus) {
+    // The account can no longer sign in, so close the sessions it still has open
+    await revokeAllSessions(employeeId, 'account_closed', requesterId || null);
+
     logger.info(`[EMPLOYEE] [UPDATE EMPLOYEE] Manager status changed from ${oldStatus} to ${newStatus}. Checking for subordinates to reassign.`);
 
     // Find all subordinates
@@ -1453,31 +1484,9 @@ export const updateEmployee = async (employeeId: number, employeeData: any, requ
     const casualBalance = Math.min(allCredits.casual, 99);
     const sickBalance = Math.min(allCredits.sick, 99);
 
-    // Check if leave balance record exists
-    const balanceCheck = await pool.query(
-      'SELECT employee_id FROM leave_balances WHERE employee_id = $1',
-      [employeeId]
-    );
-
-    if (balanceCheck.rows.length > 0) {
-      // Update existing balance
-      await pool.query(
-        `UPDATE leave_balances 
-         SET casual_balance = $1,
-             sick_balance = $2,
-             last_updated = CURRENT_TIMESTAMP,
-             updated_by = $3
-         WHERE employee_id = $4`,
-        [casualBalance, sickBalance, requesterId, employeeId]
-      );
-    } else {
-      // Create new balance record if it doesn't exist
-      await pool.query(
-        `INSERT INTO leave_balances (employee_id, casual_balance, sick_balance, lop_balance, created_by, updated_by)
-         VALUES ($1, $2, $3, 10, $4, $4)`,
-        [employeeId, casualBalance, sickBalance, requesterId]
-      );
-    }
+    await initializeBalances(pool, employeeId, requesterId);
+    await setBalance(pool, employeeId, 'casual', casualBalance, { actorId: requesterId, source: 'joining_date_change' });
+    await setBalance(pool, employeeId, 'sick', sickBalance, { actorId: requesterId, source: 'joining_date_change' });
   }
 
   // If role was changed to super_admin, remove any existing leave balances and details
@@ -1486,6 +1495,7 @@ export const updateEmployee = async (employeeId: number, employeeData: any, requ
     await pool.query('DELETE FROM leave_days WHERE leave_request_id IN (SELECT id FROM leave_requests WHERE employee_id = $1)', [employeeId]);
     await pool.query('DELETE FROM leave_requests WHERE employee_id = $1', [employeeId]);
     await pool.query('DELETE FROM leave_balances WHERE employee_id = $1', [employeeId]);
+    await deleteBalances(pool, employeeId, requesterId);
   }
 
   // Update education columns atomically
@@ -1560,6 +1570,15 @@ export const updateEmployee = async (employeeId: number, employeeData: any, requ
     }
   }
 
+  const auditAfter = await getEmployeeAuditSnapshot(employeeId);
+  await recordChange({ userId: requesterId, action: 'UPDATE', entityType: 'employee', entityId: employeeId, before: auditBefore, after: auditAfter });
+  if (isRoleChanged) {
+    await recordAudit({ userId: requesterId, action: 'ROLE_CHANGE', entityType: 'employee', entityId: employeeId, oldValues: { role: oldRole }, newValues: { role: newRole } });
+  }
+  if (isStatusChanged) {
+    await recordAudit({ userId: requesterId, action: 'STATUS_CHANGE', entityType: 'employee', entityId: employeeId, oldValues: { status: oldStatus }, newValues: { status: newStatus } });
+  }
+
   logger.info(`[EMPLOYEE] [UPDATE EMPLOYEE] Employee update completed successfully - Employee ID: ${employeeId}`);
   return { message: 'Employee updated successfully' };
 };
@@ -1570,7 +1589,7 @@ export const deleteEmployee = async (employeeId: number) => {
 
   // Check if employee exists
   logger.info(`[EMPLOYEE] [DELETE EMPLOYEE] Checking if employee exists`);
-  const result = await pool.query('SELECT id, user_role as role, first_name, last_name FROM users WHERE id = $1', [employeeId]);
+  const result = await pool.query('SELECT id, emp_id, user_role as role, first_name, last_name FROM users WHERE id = $1', [employeeId]);
   if (result.rows.length === 0) {
     logger.warn(`[EMPLOYEE] [DELETE EMPLOYEE] Employee not found - Employee ID: ${employeeId}`);
     throw new Error('Employee not found');
@@ -1611,8 +1630,9 @@ export const deleteEmployee = async (employeeId: number) => {
     // 2. Delete leave requests
     await client.query('DELETE FROM leave_requests WHERE employee_id = $1', [employeeId]);
 
-    // 3. Delete leave balances
+    // 3. Delete leave balances (legacy fixed-column rows and per-type rows)
     await client.query('DELETE FROM leave_balances WHERE employee_id = $1', [employeeId]);
+    await deleteBalances(client, employeeId);
 
     // 4. Update reporting_manager_id in users table to NULL for employees reporting to this user
     await client.query('UPDATE users SET reporting_manager_id = NULL WHERE reporting_manager_id = $1', [employeeId]);
@@ -1627,6 +1647,13 @@ export const deleteEmployee = async (employeeId: number) => {
 
     await client.query('COMMIT');
     logger.info(`[EMPLOYEE] [DELETE EMPLOYEE] Transaction committed successfully`);
+
+    await recordAudit({
+      action: 'DELETE',
+      entityType: 'employee',
+      entityId: employeeId,
+      oldValues: { emp_id: employee.emp_id, name: `${employee.first_name} ${employee.last_name || ''}`.trim(), role: employee.role }
+    });
     logger.info(`[EMPLOYEE] [DELETE EMPLOYEE] Employee and all related data deleted successfully - Employee ID: ${employeeId}`);
     return { message: 'Employee and all related data deleted successfully' };
   } catch (error: any) {
@@ -1640,7 +1667,7 @@ export const deleteEmployee = async (employeeId: number) => {
 
 export const addLeavesToEmployee = async (
   employeeId: number,
-  leaveType: 'casual' | 'sick' | 'lop',
+  leaveType: string,
   count: number,
   updatedBy: number,
   comment?: string,
@@ -1650,7 +1677,8 @@ export const addLeavesToEmployee = async (
   logger.info(`[EMPLOYEE] [ADD LEAVES] Employee ID: ${employeeId}, Leave Type: ${leaveType}, Count: ${count}, Updated By: ${updatedBy}`);
 
   // Validate leave type
-  if (!['casual', 'sick', 'lop'].includes(leaveType)) {
+  const leaveTypeInfo = await getLeaveTypeByCode(leaveType);
+  if (!leaveTypeInfo || !leaveTypeInfo.requires_balance) {
     logger.warn(`[EMPLOYEE] [ADD LEAVES] Invalid leave type: ${leaveType}`);
     throw new Error('Invalid leave type');
   }
@@ -1692,70 +1720,34 @@ export const addLeavesToEmployee = async (
     throw new Error('Employee not found');
   }
 
-  // Get or create leave balance
-  const balanceCheck = await pool.query(
-    'SELECT id, casual_balance, sick_balance, lop_balance FROM leave_balances WHERE employee_id = $1',
-    [employeeId]
-  );
-
-  const balanceColumn = `${leaveType}_balance`;
+  const previousBalance = await getBalance(pool, employeeId, leaveType);
   const client = await pool.connect();
 
   try {
     await client.query('BEGIN');
 
-    if (balanceCheck.rows.length === 0) {
-      // Create leave balance if it doesn't exist
-      // Check if count exceeds maximum limit
-      if (count > 99) {
-        throw new Error(`Cannot add ${count} leaves. Maximum limit is 99 leaves per employee.`);
-      }
+    const newTotal = previousBalance + count;
 
-      const initialBalances: any = { casual_balance: 0, sick_balance: 0, lop_balance: 0 };
-      initialBalances[balanceColumn] = count;
-
-      await client.query(
-        `INSERT INTO leave_balances (employee_id, casual_balance, sick_balance, lop_balance, created_by, updated_by)
-         VALUES ($1, $2, $3, $4, $5, $5)`,
-        [
-          employeeId,
-          initialBalances.casual_balance,
-          initialBalances.sick_balance,
-          initialBalances.lop_balance,
-          updatedBy
-        ]
-      );
-    } else {
-      // Get current balance for the leave type
-      const currentBalance = parseFloat(balanceCheck.rows[0][balanceColumn] || '0');
-      const newTotal = currentBalance + count;
-
-      // For LOP, check if it exceeds limits
-      if (balanceColumn === 'lop_balance') {
-        if (count > 30) {
-          throw new Error(`Cannot add ${count} LOP leaves at once. Maximum adding limit is 30.`);
-        }
-        if (newTotal > 40) {
-          throw new Error(`Cannot add ${count} LOP leaves. Current LOP balance: ${currentBalance}, Total would be ${newTotal}, which exceeds maximum total limit of 40.`);
-        }
-      }
+    // For LOP, check the per-allocation limit
+    if (leaveType === 'lop' && count > 30) {
+      throw new Error(`Cannot add ${count} LOP leaves at once. Maximum adding limit is 30.`);
+    }
 
-      // Check if total would exceed maximum limit (99 for casual/sick)
-      if (balanceColumn !== 'lop_balance' && newTotal > 99) {
-        throw new Error(`Cannot add ${count} leaves. Current balance: ${currentBalance}, Maximum limit: 99. Total would be: ${newTotal}`);
+    // Check if total would exceed the leave type's maximum balance
+    if (newTotal > leaveTypeInfo.max_balance) {
+      if (leaveType === 'lop') {
+        throw new Error(`Cannot add ${count} LOP leaves. Current LOP balance: ${previousBalance}, Total would be ${newTotal}, which exceeds maximum total limit of ${leaveTypeInfo.max_balance}.`);
       }
-
-      // Update existing balance
-      await client.query(
-        `UPDATE leave_balances 
-         SET ${balanceColumn} = ${balanceColumn} + $1,
-             last_updated = CURRENT_TIMESTAMP,
-             updated_by = $2
-         WHERE employee_id = $3`,
-        [count, updatedBy, employeeId]
-      );
+      throw new Error(`Cannot add ${count} leaves. Current balance: ${previousBalance}, Maximum limit: ${leaveTypeInfo.max_balance}. Total would be: ${newTotal}`);
     }
 
+    await adjustBalance(client, employeeId, leaveType, count, {
+      actorId: updatedBy,
+      transactionType: 'manual_allocation',
+      source: 'manual_allocation',
+      remarks: comment || null
+    });
+
     await client.query('COMMIT');
 
     // Send email notification to employee
@@ -1772,9 +1764,6 @@ export const addLeavesToEmployee = async (
 
       if (employeeResult.rows.length > 0) {
         const employee = employeeResult.rows[0];
-        const previousBalance = balanceCheck.rows.length > 0
-          ? parseFloat(balanceCheck.rows[0][balanceColumn] || '0')
-          : 0;
         const newBalance = previousBalance + count;
         const emailData = {
           employeeName: employee.employee_name || 'Employee',
@@ -1814,6 +1803,15 @@ export const addLeavesToEmployee = async (
       logger.error(`❌ Error sending leave allocation emails:`, emailError);
     }
 
+    await recordAudit({
+      userId: updatedBy,
+      action: 'ALLOCATE_LEAVES',
+      entityType: 'leave_balance',
+      entityId: employeeId,
+      oldValues: { [leaveType]: previousBalance },
+      newValues: { [leaveType]: newTotal, comment: comment || null }
+    });
+
     return { message: `${count} ${leaveType} leave(s) added successfully` };
   } catch (error: any) {
     await client.query('ROLLBACK');
@@ -1827,22 +1825,13 @@ export const getEmployeeLeaveBalances = async (employeeId: number) => {
   logger.info(`[EMPLOYEE] [GET LEAVE BALANCES] ========== FUNCTION CALLED ==========`);
   logger.info(`[EMPLOYEE] [GET LEAVE BALANCES] Employee ID: ${employeeId}`);
 
-  const result = await pool.query(
-    'SELECT casual_balance, sick_balance, lop_balance FROM leave_balances WHERE employee_id = $1',
-    [employeeId]
-  );
-
-  if (result.rows.length === 0) {
-    logger.info(`[EMPLOYEE] [GET LEAVE BALANCES] No balance record found, returning zero balances`);
-    // Return zero balances if not found
-    return { casual: 0, sick: 0, lop: 0 };
-  }
-
-  const balance = result.rows[0];
+  const balanceMap = await getBalanceMap(employeeId);
   const balances = {
-    casual: parseFloat(balance.casual_balance) || 0,
-    sick: parseFloat(balance.sick_balance) || 0,
-    lop: parseFloat(balance.lop_balance) || 0
+    casual: 0,
+    sick: 0,
+    lop: 0,
+    ...balanceMap,
+    balances: balanceMap
   };
   logger.info(`[EMPLOYEE] [GET LEAVE BALANCES] Balances retrieved - Casual: ${balances.casual}, Sick: ${balances.sick}, LOP: ${balances.lop}`);
   return balances;
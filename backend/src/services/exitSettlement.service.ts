@@ -0,0 +1,546 @@
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { getLastWorkingDayOfMonth } from '../utils/leaveCredit';
+import { recordAudit } from './audit.service';
+import { adjustBalance, getBalanceLeaveTypes, getBalanceMap, refundBalance } from './leaveBalance.service';
+import { updateEmployee } from './employee.service';
+
+type Queryable = Pool | PoolClient;
+
+const TODAY_SQL = `(CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Kolkata')::DATE`;
+
+// Casual days left at exit are paid out; every other balance lapses
+const ENCASHABLE_LEAVE_TYPE = 'casual';
+// LOP is an allowance rather than earned leave, so it is not settled
+const UNSETTLED_LEAVE_TYPES = ['lop'];
+
+export type ExitStatus = 'resigned' | 'terminated';
+export type ExitSettlementStatus = 'scheduled' | 'completed' | 'cancelled';
+
+export interface SettlementLine {
+  leaveTypeCode: string;
+  leaveTypeName: string;
+  /** Balance on the last working day, after leave beyond it is refunded */
+  balance: number;
+  /** Accrual credited in advance for days after the last working day */
+  unearnedCredit: number;
+  /** Part of the unearned credit taken back from the balance */
+  recovered: number;
+  encashed: number;
+  lapsed: number;
+}
+
+export interface CancelledLeave {
+  leaveRequestId: number;
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  /** Days after the last working day that were refunded */
+  days: number;
+  /** Whole request cancelled, or only the days after the last working day */
+  fullyCancelled: boolean;
+}
+
+export interface ExitSettlementSummary {
+  employeeId: number;
+  empId: string;
+  employeeName: string;
+  role: string;
+  dateOfJoining: string | null;
+  lastWorkingDate: string;
+  exitStatus: ExitStatus;
+  lines: SettlementLine[];
+  cancelledLeaves: CancelledLeave[];
+  encashedCasualDays: number;
+  /** Unearned leave already used; recovered from salary as loss of pay */
+  lopRecoveryDays: number;
+  computedAt: string;
+}
+
+export interface ExitSettlement {
+  id: number;
+  employeeId: number;
+  empId: string;
+  employeeName: string;
+  role: string;
+  employeeStatus: string;
+  lastWorkingDate: string;
+  exitStatus: ExitStatus;
+  status: ExitSettlementStatus;
+  remarks: string | null;
+  summary: ExitSettlementSummary | null;
+  initiatedBy: number | null;
+  initiatedByName: string | null;
+  completedAt: string | null;
+  cancelledAt: string | null;
+  createdAt: string;
+}
+
+const formatDate = (value: any): string | null => {
+  if (value === null || value === undefined) return null;
+  if (!(value instanceof Date)) return String(value);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+};
+
+const roundDays = (days: number): number => Math.round(days * 10) / 10;
+
+const mapSettlement = (row: any): ExitSettlement => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  empId: row.emp_id,
+  employeeName: (row.employee_name || '').trim(),
+  role: row.user_role,
+  employeeStatus: row.employee_status,
+  lastWorkingDate: formatDate(row.last_working_date) as string,
+  exitStatus: row.exit_status,
+  status: row.status,
+  remarks: row.remarks,
+  summary: row.summary,
+  initiatedBy: row.initiated_by,
+  initiatedByName: row.initiated_by_name ? row.initiated_by_name.trim() : null,
+  completedAt: row.completed_at,
+  cancelledAt: row.cancelled_at,
+  createdAt: row.created_at
+});
+
+const SETTLEMENT_SELECT = `
+  SELECT es.*, u.emp_id, u.user_role, u.status as employee_status,
+         u.first_name || ' ' || COALESCE(u.last_name, '') as employee_name,
+         i.first_name || ' ' || COALESCE(i.last_name, '') as initiated_by_name
+  FROM exit_settlements es
+  JOIN users u ON es.employee_id = u.id
+  LEFT JOIN users i ON es.initiated_by = i.id
+`;
+
+/**
+ * Leave days after the last working day that are still pending or approved, per request
+ */
+const getLeaveAfterExit = async (db: Queryable, employeeId: number, lastWorkingDate: string): Promise<CancelledLeave[]> => {
+  const result = await db.query(
+    `SELECT lr.id, lr.leave_type, lr.start_date, lr.end_date,
+            SUM(CASE WHEN ld.day_type = 'half' THEN 0.5 ELSE 1.0 END) as days,
+            lr.start_date > $2::DATE as fully_cancelled
+     FROM leave_requests lr
+     JOIN leave_days ld ON ld.leave_request_id = lr.id
+     WHERE lr.employee_id = $1
+       AND lr.current_status IN ('pending', 'partially_approved', 'approved')
+       AND ld.leave_date > $2::DATE
+       AND COALESCE(ld.day_status, 'pending') != 'rejected'
+     GROUP BY lr.id
+     ORDER BY lr.start_date`,
+    [employeeId, lastWorkingDate]
+  );
+
+  return result.rows.map((row: any) => ({
+    leaveRequestId: row.id,
+    leaveType: row.leave_type,
+    startDate: formatDate(row.start_date) as string,
+    endDate: formatDate(row.end_date) as string,
+    days: parseFloat(row.days) || 0,
+    fullyCancelled: row.fully_cancelled
+  }));
+};
+
+/**
+ * Accrual credited in advance for days after the last working day, per leave type.
+ * The exit month's credit (posted on the last working day of the previous month) is
+ * pro-rated by calendar day; anything posted after it belongs to later months.
+ */
+const getUnearnedCredits = async (
+  db: Queryable,
+  employeeId: number,
+  lastWorkingDate: string
+): Promise<Record<string, number>> => {
+  const exitDate = new Date(`${lastWorkingDate}T00:00:00`);
+  const year = exitDate.getFullYear();
+  const month = exitDate.getMonth() + 1;
+  const creditedOn = month === 1 ? getLastWorkingDayOfMonth(year - 1, 12) : getLastWorkingDayOfMonth(year, month - 1);
+
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const unearnedShare = (daysInMonth - exitDate.getDate()) / daysInMonth;
+
+  const result = await db.query(
+    `SELECT lt.code,
+            COALESCE(SUM(lbt.delta) FILTER (WHERE lbt.created_at::DATE = $2::DATE), 0) as exit_month_credit,
+            COALESCE(SUM(lbt.delta) FILTER (WHERE lbt.created_at::DATE > $2::DATE), 0) as later_credit
+     FROM leave_balance_transactions lbt
+     JOIN leave_types lt ON lbt.leave_type_id = lt.id
+     WHERE lbt.employee_id = $1
+       AND lbt.source = 'monthly_accrual'
+       AND lbt.created_at::DATE >= $2::DATE
+     GROUP BY lt.code`,
+    [employeeId, formatDate(creditedOn)]
+  );
+
+  const unearned: Record<string, number> = {};
+  result.rows.forEach((row: any) => {
+    const exitMonthCredit = parseFloat(row.exit_month_credit) || 0;
+    const laterCredit = parseFloat(row.later_credit) || 0;
+    unearned[row.code] = roundDays(exitMonthCredit * unearnedShare + laterCredit);
+  });
+  return unearned;
+};
+
+/**
+ * Work out the full and final leave settlement for an employee leaving on lastWorkingDate.
+ * Read-only: the same figures are applied by completeSettlement.
+ */
+const computeSettlement = async (
+  db: Queryable,
+  employeeId: number,
+  lastWorkingDate: string,
+  exitStatus: ExitStatus
+): Promise<ExitSettlementSummary> => {
+  const employeeResult = await db.query(
+    `SELECT id, emp_id, user_role, date_of_joining, first_name || ' ' || COALESCE(last_name, '') as name
+     FROM users WHERE id = $1`,
+    [employeeId]
+  );
+  if (employeeResult.rows.length === 0) {
+    throw new Error('Employee not found');
+  }
+  const employee = employeeResult.rows[0];
+
+  const cancelledLeaves = await getLeaveAfterExit(db, employeeId, lastWorkingDate);
+  const balances = await getBalanceMap(employeeId, db);
+  cancelledLeaves.forEach((leave) => {
+    if (balances[leave.leaveType] !== undefined) {
+      balances[leave.leaveType] = roundDays(balances[leave.leaveType] + leave.days);
+    }
+  });
+
+  const unearned = await getUnearnedCredits(db, employeeId, lastWorkingDate);
+  const leaveTypes = await getBalanceLeaveTypes(db);
+
+  const lines: SettlementLine[] = [];
+  let lopRecoveryDays = 0;
+  let encashedCasualDays = 0;
+
+  for (const leaveType of leaveTypes) {
+    if (UNSETTLED_LEAVE_TYPES.includes(leaveType.code)) continue;
+
+    const balance = balances[leaveType.code] || 0;
+    const unearnedCredit = unearned[leaveType.code] || 0;
+    if (balance === 0 && unearnedCredit === 0) continue;
+
+    const recovered = Math.min(unearnedCredit, balance);
+    const remaining = roundDays(balance - recovered);
+    const isEncashable = leaveType.code === ENCASHABLE_LEAVE_TYPE;
+
+    lopRecoveryDays += unearnedCredit - recovered;
+    if (isEncashable) encashedCasualDays += remaining;
+
+    lines.push({
+      leaveTypeCode: leaveType.code,
+      leaveTypeName: leaveType.name,
+      balance,
+      unearnedCredit,
+      recovered,
+      encashed: isEncashable ? remaining : 0,
+      lapsed: isEncashable ? 0 : remaining
+    });
+  }
+
+  return {
+    employeeId,
+    empId: employee.emp_id,
+    employeeName: employee.name.trim(),
+    role: employee.user_role,
+    dateOfJoining: formatDate(employee.date_of_joining),
+    lastWorkingDate,
+    exitStatus,
+    lines,
+    cancelledLeaves,
+    encashedCasualDays: roundDays(encashedCasualDays),
+    lopRecoveryDays: roundDays(lopRecoveryDays),
+    computedAt: new Date().toISOString()
+  };
+};
+
+// ============================================================================
+// Settlements
+// ============================================================================
+
+/**
+ * List exit settlements, most recent last working date first
+ */
+export const getSettlements = async (status?: ExitSettlementStatus): Promise<ExitSettlement[]> => {
+  const params: any[] = [];
+  let where = '';
+  if (status) {
+    params.push(status);
+    where = 'WHERE es.status = $1';
+  }
+  const result = await pool.query(`${SETTLEMENT_SELECT} ${where} ORDER BY es.last_working_date DESC, es.id DESC`, params);
+  return result.rows.map(mapSettlement);
+};
+
+/**
+ * Get a settlement; scheduled ones carry a live preview of their summary
+ */
+export const getSettlementById = async (id: number): Promise<ExitSettlement> => {
+  const result = await pool.query(`${SETTLEMENT_SELECT} WHERE es.id = $1`, [id]);
+  if (result.rows.length === 0) {
+    throw new Error('Exit settlement not found');
+  }
+
+  const settlement = mapSettlement(result.rows[0]);
+  if (settlement.status === 'scheduled') {
+    settlement.summary = await computeSettlement(pool, settlement.employeeId, settlement.lastWorkingDate, settlement.exitStatus);
+  }
+  return settlement;
+};
+
+/**
+ * Schedule an employee's exit. The settlement is finalized on the last working date.
+ */
+export const scheduleExit = async (
+  data: { employeeId: number; lastWorkingDate: string; exitStatus: ExitStatus; remarks?: string | null },
+  actorId: number
+): Promise<ExitSettlement> => {
+  logger.info(`[EXIT SETTLEMENT] [SCHEDULE] Employee: ${data.employeeId}, Last working date: ${data.lastWorkingDate}, Status: ${data.exitStatus}`);
+
+  const employeeResult = await pool.query(
+    `SELECT user_role, status, $2::DATE >= date_of_joining as after_joining
+     FROM users WHERE id = $1`,
+    [data.employeeId, data.lastWorkingDate]
+  );
+  if (employeeResult.rows.length === 0) {
+    throw new Error('Employee not found');
+  }
+  const employee = employeeResult.rows[0];
+
+  if (employee.user_role === 'super_admin') {
+    throw new Error('Super Admin accounts cannot be exited');
+  }
+  if (!['active', 'on_leave', 'on_notice'].includes(employee.status)) {
+    throw new Error('Employee has already exited');
+  }
+  if (employee.after_joining === false) {
+    throw new Error('Last working date cannot be before the date of joining');
+  }
+
+  const existing = await pool.query(
+    `SELECT id FROM exit_settlements WHERE employee_id = $1 AND status = 'scheduled'`,
+    [data.employeeId]
+  );
+  if (existing.rows.length > 0) {
+    throw new Error('An exit is already scheduled for this employee');
+  }
+
+  const result = await pool.query(
+    `INSERT INTO exit_settlements (employee_id, last_working_date, exit_status, remarks, initiated_by)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING id`,
+    [data.employeeId, data.lastWorkingDate, data.exitStatus, data.remarks || null, actorId]
+  );
+  const id = result.rows[0].id;
+
+  await recordAudit({
+    userId: actorId,
+    action: 'SCHEDULE',
+    entityType: 'exit_settlement',
+    entityId: id,
+    newValues: {
+      employeeId: data.employeeId,
+      lastWorkingDate: data.lastWorkingDate,
+      exitStatus: data.exitStatus,
+      remarks: data.remarks || null
+    }
+  });
+
+  return getSettlementById(id);
+};
+
+/**
+ * Withdraw a scheduled exit (e.g. the resignation was retracted)
+ */
+export const cancelExit = async (id: number, actorId: number): Promise<void> => {
+  logger.info(`[EXIT SETTLEMENT] [CANCEL] ID: ${id}, User: ${actorId}`);
+
+  const result = await pool.query(
+    `UPDATE exit_settlements
+     SET status = 'cancelled', cancelled_by = $2, cancelled_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND status = 'scheduled'
+     RETURNING employee_id, last_working_date`,
+    [id, actorId]
+  );
+  if (result.rows.length === 0) {
+    const exists = await pool.query('SELECT status FROM exit_settlements WHERE id = $1', [id]);
+    if (exists.rows.length === 0) {
+      throw new Error('Exit settlement not found');
+    }
+    throw new Error(`Exit settlement is already ${exists.rows[0].status}`);
+  }
+
+  await recordAudit({
+    userId: actorId,
+    action: 'CANCEL',
+    entityType: 'exit_settlement',
+    entityId: id,
+    oldValues: { status: 'scheduled' },
+    newValues: { status: 'cancelled', employeeId: result.rows[0].employee_id }
+  });
+};
+
+/**
+ * Apply a settlement: refund and cancel leave after the last working day, take back
+ * unearned accrual, encash casual days, lapse the rest and lock the account.
+ */
+const completeSettlement = async (settlement: ExitSettlement): Promise<ExitSettlementSummary> => {
+  const { id, employeeId, lastWorkingDate, exitStatus } = settlement;
+  const remarks = `Exit settlement (${lastWorkingDate})`;
+
+  const client = await pool.connect();
+  let summary: ExitSettlementSummary;
+  try {
+    await client.query('BEGIN');
+
+    summary = await computeSettlement(client, employeeId, lastWorkingDate, exitStatus);
+
+    for (const leave of summary.cancelledLeaves) {
+      await client.query(
+        `UPDATE leave_days SET day_status = 'rejected'
+         WHERE leave_request_id = $1 AND leave_date > $2::DATE AND COALESCE(day_status, 'pending') != 'rejected'`,
+        [leave.leaveRequestId, lastWorkingDate]
+      );
+      if (leave.fullyCancelled) {
+        await client.query(
+          `UPDATE leave_requests SET current_status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+          [leave.leaveRequestId]
+        );
+        await client.query(
+          `UPDATE leave_approval_stages SET status = 'skipped', decided_at = CURRENT_TIMESTAMP, comment = $2
+           WHERE leave_request_id = $1 AND status = 'pending'`,
+          [leave.leaveRequestId, remarks]
+        );
+      }
+      if (leave.leaveType !== 'permission') {
+        await refundBalance(client, employeeId, leave.leaveType, leave.days, {
+          leaveRequestId: leave.leaveRequestId,
+          source: 'exit_settlement',
+          remarks
+        });
+      }
+    }
+
+    for (const line of summary.lines) {
+      if (line.recovered > 0) {
+        await adjustBalance(client, employeeId, line.leaveTypeCode, -line.recovered, {
+          transactionType: 'adjustment',
+          source: 'exit_settlement',
+          remarks: 'Accrual after last working day'
+        });
+      }
+      if (line.encashed > 0) {
+        await adjustBalance(client, employeeId, line.leaveTypeCode, -line.encashed, {
+          transactionType: 'encashment',
+          source: 'exit_settlement',
+          remarks
+        });
+        await client.query(
+          `INSERT INTO leave_encashments (employee_id, leave_type_id, year, days)
+           SELECT $1, id, $3, $4 FROM leave_types WHERE code = $2
+           ON CONFLICT (employee_id, leave_type_id, year) DO UPDATE
+           SET days = leave_encashments.days + EXCLUDED.days, updated_at = CURRENT_TIMESTAMP`,
+          [employeeId, line.leaveTypeCode, parseInt(lastWorkingDate.slice(0, 4), 10), line.encashed]
+        );
+      }
+      if (line.lapsed > 0) {
+        await adjustBalance(client, employeeId, line.leaveTypeCode, -line.lapsed, {
+          transactionType: 'lapse',
+          source: 'exit_settlement',
+          remarks
+        });
+      }
+    }
+
+    await client.query(
+      `UPDATE exit_settlements
+       SET status = 'completed', summary = $2, completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, JSON.stringify(summary)]
+    );
+
+    await recordAudit({
+      userId: null,
+      action: 'COMPLETE',
+      entityType: 'exit_settlement',
+      entityId: id,
+      oldValues: { status: 'scheduled' },
+      newValues: {
+        status: 'completed',
+        employeeId,
+        encashedCasualDays: summary.encashedCasualDays,
+        lopRecoveryDays: summary.lopRecoveryDays,
+        cancelledLeaves: summary.cancelledLeaves.length
+      }
+    }, client);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  await lockExitedAccount(settlement);
+
+  return summary;
+};
+
+/**
+ * Set the employee's exit status once the settlement is completed. Goes through the regular
+ * employee update (as a system change, with no requester) so reportees are reassigned and
+ * sessions revoked. Runs after the settlement commits; until account_locked_at is set, the
+ * due-settlement job retries it.
+ */
+const lockExitedAccount = async (settlement: ExitSettlement): Promise<void> => {
+  await updateEmployee(settlement.employeeId, { status: settlement.exitStatus });
+  await pool.query('UPDATE exit_settlements SET account_locked_at = CURRENT_TIMESTAMP WHERE id = $1', [settlement.id]);
+  logger.info(`[EXIT SETTLEMENT] [LOCK ACCOUNT] ${settlement.empId} set to ${settlement.exitStatus}`);
+};
+
+/**
+ * Finalize every scheduled exit whose last working date has arrived
+ */
+export const processDueSettlements = async (): Promise<{ completed: number; errors: number }> => {
+  logger.info(`[EXIT SETTLEMENT] [PROCESS DUE] ========== FUNCTION CALLED ==========`);
+
+  const result = await pool.query(
+    `${SETTLEMENT_SELECT} WHERE es.status = 'scheduled' AND es.last_working_date <= ${TODAY_SQL} ORDER BY es.id`
+  );
+
+  let completed = 0;
+  let errors = 0;
+
+  // Settled earlier but the account lock did not go through
+  const unlocked = await pool.query(
+    `${SETTLEMENT_SELECT} WHERE es.status = 'completed' AND es.account_locked_at IS NULL ORDER BY es.id`
+  );
+  for (const row of unlocked.rows) {
+    const settlement = mapSettlement(row);
+    try {
+      await lockExitedAccount(settlement);
+    } catch (error: any) {
+      errors++;
+      logger.error(`[EXIT SETTLEMENT] [PROCESS DUE] Account lock retry failed for ${settlement.empId}:`, error);
+    }
+  }
+
+  for (const row of result.rows) {
+    const settlement = mapSettlement(row);
+    try {
+      const summary = await completeSettlement(settlement);
+      completed++;
+      logger.info(`[EXIT SETTLEMENT] [PROCESS DUE] Settled ${settlement.empId}: encashed ${summary.encashedCasualDays}, LOP recovery ${summary.lopRecoveryDays}`);
+    } catch (error: any) {
+      errors++;
+      logger.error(`[EXIT SETTLEMENT] [PROCESS DUE] Failed for ${settlement.empId}:`, error);
+    }
+  }
+
+  return { completed, errors };
+};
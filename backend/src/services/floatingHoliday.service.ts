@@ -0,0 +1,484 @@
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { sendFloatingHolidayClaimEmail, sendFloatingHolidayStatusEmail } from '../utils/emailTemplates';
+import { recordAudit } from './audit.service';
+import { getActiveDelegate, getDelegatorIds, getOnBehalfOf } from './approvalDelegation.service';
+import { hasPermission } from './permission.service';
+import { getEmployeeSchedule, isWorkingDay } from './workSchedule.service';
+import { USER_CALENDAR_SQL } from './holidayCalendar.service';
+import { TimesheetService } from './timesheet.service';
+
+const TODAY_SQL = `(CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Kolkata')::DATE`;
+
+export type FloatingHolidayClaimStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface FloatingHolidayClaim {
+  id: number;
+  employeeId: number;
+  employeeName: string;
+  empId: string;
+  holidayId: number;
+  holidayDate: string;
+  holidayName: string;
+  reason: string | null;
+  status: FloatingHolidayClaimStatus;
+  approverId: number | null;
+  approverName: string | null;
+  approverComment: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  delegatedFrom?: string | null;
+}
+
+export interface FloatingHolidaySummary {
+  year: number;
+  /** Floating holidays the employee may claim in the year, from their holiday calendar */
+  quota: number;
+  /** Pending and approved claims in the year */
+  used: number;
+  claims: FloatingHolidayClaim[];
+}
+
+const formatDate = (value: any): string | null => {
+  if (value === null || value === undefined) return null;
+  if (!(value instanceof Date)) return String(value);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+};
+
+const mapClaim = (row: any): FloatingHolidayClaim => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  employeeName: (row.employee_name || '').trim(),
+  empId: row.emp_id,
+  holidayId: row.holiday_id,
+  holidayDate: formatDate(row.holiday_date) as string,
+  holidayName: row.holiday_name,
+  reason: row.reason,
+  status: row.status,
+  approverId: row.approver_id,
+  approverName: row.approver_name ? row.approver_name.trim() : null,
+  approverComment: row.approver_comment,
+  decidedAt: row.decided_at,
+  createdAt: row.created_at
+});
+
+const CLAIM_SELECT = `
+  SELECT c.*, h.holiday_date, h.holiday_name, u.emp_id, u.reporting_manager_id,
+         u.first_name || ' ' || COALESCE(u.last_name, '') as employee_name,
+         a.first_name || ' ' || COALESCE(a.last_name, '') as approver_name
+  FROM floating_holiday_claims c
+  JOIN holidays h ON c.holiday_id = h.id
+  JOIN users u ON c.employee_id = u.id
+  LEFT JOIN users a ON c.approver_id = a.id
+`;
+
+/**
+ * Annual floating holiday quota of the employee's holiday calendar
+ */
+const getQuota = async (employeeId: number): Promise<number> => {
+  const result = await pool.query(
+    `SELECT hc.floating_quota
+     FROM users u
+     JOIN holiday_calendars hc ON hc.id = ${USER_CALENDAR_SQL}
+     WHERE u.id = $1`,
+    [employeeId]
+  );
+  return result.rows[0]?.floating_quota ?? 0;
+};
+
+/**
+ * Pending and approved claims of the employee for floating holidays in the year
+ */
+const countUsedClaims = async (employeeId: number, year: number): Promise<number> => {
+  const result = await pool.query(
+    `SELECT COUNT(*) as used
+     FROM floating_holiday_claims c
+     JOIN holidays h ON c.holiday_id = h.id
+     WHERE c.employee_id = $1 AND c.status IN ('pending', 'approved')
+       AND h.is_optional = true AND EXTRACT(YEAR FROM h.holiday_date) = $2`,
+    [employeeId, year]
+  );
+  return parseInt(result.rows[0].used) || 0;
+};
+
+/**
+ * Ids of the floating holidays the employee has an approved claim for
+ */
+export const getApprovedHolidayIds = async (employeeId: number): Promise<number[]> => {
+  const result = await pool.query(
+    `SELECT holiday_id FROM floating_holiday_claims WHERE employee_id = $1 AND status = 'approved'`,
+    [employeeId]
+  );
+  return result.rows.map((row: any) => row.holiday_id);
+};
+
+/**
+ * Employees with an approved claim for the holiday, whose holiday logs follow it
+ */
+export const getHolidayClaimantIds = async (holidayId: number): Promise<number[]> => {
+  const result = await pool.query(
+    `SELECT employee_id FROM floating_holiday_claims WHERE holiday_id = $1 AND status = 'approved'`,
+    [holidayId]
+  );
+  return result.rows.map((row: any) => row.employee_id);
+};
+
+// Approved and withdrawn claims change which upcoming days are logged as holidays
+const resyncHolidayLogs = (employeeId: number) => {
+  TimesheetService.syncHolidayLogs([employeeId]).catch((e: any) => {
+    logger.error(`[FLOATING HOLIDAY] Failed to resync holiday logs for employee ${employeeId}`, e);
+  });
+};
+
+const getUserName = async (userId: number): Promise<string> => {
+  const result = await pool.query(
+    `SELECT first_name || ' ' || COALESCE(last_name, '') as name FROM users WHERE id = $1`,
+    [userId]
+  );
+  return (result.rows[0]?.name || '').trim();
+};
+
+// ============================================================================
+// Claims
+// ============================================================================
+
+/**
+ * Claim an upcoming floating (optional) holiday from the employee's own calendar
+ */
+export const createClaim = async (
+  employeeId: number,
+  data: { holidayId: number; reason?: string | null }
+): Promise<FloatingHolidayClaim> => {
+  logger.info(`[FLOATING HOLIDAY] [CREATE CLAIM] Employee: ${employeeId}, Holiday: ${data.holidayId}`);
+
+  const holidayResult = await pool.query(
+    `SELECT h.holiday_date, h.holiday_name, h.is_optional,
+            h.holiday_date >= ${TODAY_SQL} as is_upcoming,
+            h.calendar_id = ${USER_CALENDAR_SQL} as on_calendar,
+            EXTRACT(YEAR FROM h.holiday_date) as holiday_year
+     FROM holidays h
+     JOIN users u ON u.id = $2
+     WHERE h.id = $1 AND h.is_active = true`,
+    [data.holidayId, employeeId]
+  );
+  if (holidayResult.rows.length === 0) {
+    throw new Error('Holiday not found');
+  }
+  const holiday = holidayResult.rows[0];
+  const holidayDate = formatDate(holiday.holiday_date) as string;
+
+  if (!holiday.on_calendar) {
+    throw new Error('You cannot claim a holiday from another holiday calendar');
+  }
+  if (!holiday.is_optional) {
+    throw new Error('Only floating holidays can be claimed');
+  }
+  if (!holiday.is_upcoming) {
+    throw new Error('Floating holidays cannot be claimed for past dates');
+  }
+  const schedule = await getEmployeeSchedule(employeeId);
+  if (!isWorkingDay(schedule, holidayDate)) {
+    throw new Error('This floating holiday already falls on your day off');
+  }
+
+  const existing = await pool.query(
+    `SELECT status FROM floating_holiday_claims
+     WHERE employee_id = $1 AND holiday_id = $2 AND status IN ('pending', 'approved')`,
+    [employeeId, data.holidayId]
+  );
+  if (existing.rows.length > 0) {
+    throw new Error('You have already claimed this floating holiday');
+  }
+
+  const leaveResult = await pool.query(
+    `SELECT 1 FROM leave_days ld
+     JOIN leave_requests lr ON ld.leave_request_id = lr.id
+     WHERE ld.employee_id = $1 AND ld.leave_date = $2::date
+       AND ld.day_status != 'rejected' AND lr.current_status != 'rejected'`,
+    [employeeId, holidayDate]
+  );
+  if (leaveResult.rows.length > 0) {
+    throw new Error('A floating holiday cannot be claimed on a date you have applied leave for');
+  }
+
+  const year = parseInt(holiday.holiday_year);
+  const [quota, used] = await Promise.all([getQuota(employeeId), countUsedClaims(employeeId, year)]);
+  if (used >= quota) {
+    throw new Error(`You have already used your floating holiday quota of ${quota} for ${year}`);
+  }
+
+  const insertResult = await pool.query(
+    `INSERT INTO floating_holiday_claims (employee_id, holiday_id, reason)
+     VALUES ($1, $2, $3)
+     RETURNING id`,
+    [employeeId, data.holidayId, data.reason || null]
+  );
+  const id = insertResult.rows[0].id;
+
+  const result = await pool.query(`${CLAIM_SELECT} WHERE c.id = $1`, [id]);
+  const claim = mapClaim(result.rows[0]);
+
+  await recordAudit({
+    userId: employeeId,
+    action: 'CREATE',
+    entityType: 'floating_holiday_claim',
+    entityId: id,
+    newValues: { holidayId: data.holidayId, holidayDate, holidayName: claim.holidayName, reason: data.reason || null }
+  });
+
+  // Notify the reporting manager, or whoever is approving for them today
+  try {
+    const reportingManagerId = result.rows[0].reporting_manager_id;
+    if (reportingManagerId) {
+      const delegate = await getActiveDelegate(reportingManagerId);
+      const approverResult = await pool.query(
+        `SELECT email, first_name || ' ' || COALESCE(last_name, '') as name FROM users WHERE id = $1`,
+        [delegate?.delegateId ?? reportingManagerId]
+      );
+      const approver = approverResult.rows[0];
+      if (approver?.email) {
+        await sendFloatingHolidayClaimEmail(approver.email, {
+          approverName: approver.name.trim(),
+          employeeName: claim.employeeName,
+          employeeEmpId: claim.empId,
+          holidayName: claim.holidayName,
+          holidayDate: claim.holidayDate,
+          reason: claim.reason
+        });
+      }
+    }
+  } catch (emailError: any) {
+    logger.error(`[FLOATING HOLIDAY] [CREATE CLAIM] Failed to notify approver for claim ${id}:`, emailError);
+  }
+
+  return claim;
+};
+
+/**
+ * Quota, usage and claims of an employee for a year
+ */
+export const getMyClaims = async (employeeId: number, year: number): Promise<FloatingHolidaySummary> => {
+  const [quota, used, result] = await Promise.all([
+    getQuota(employeeId),
+    countUsedClaims(employeeId, year),
+    pool.query(
+      `${CLAIM_SELECT}
+       WHERE c.employee_id = $1 AND EXTRACT(YEAR FROM h.holiday_date) = $2
+       ORDER BY h.holiday_date ASC, c.id DESC`,
+      [employeeId, year]
+    )
+  ]);
+  return { year, quota, used, claims: result.rows.map(mapClaim) };
+};
+
+/**
+ * Pending claims the approver can act on: their direct reports and the teams of
+ * managers they are standing in for. Holders of leave.approve_any see every pending claim.
+ */
+export const getPendingClaims = async (approverId: number, approverRole: string): Promise<FloatingHolidayClaim[]> => {
+  if (await hasPermission(approverRole, 'leave.approve_any')) {
+    const result = await pool.query(
+      `${CLAIM_SELECT} WHERE c.status = 'pending' ORDER BY h.holiday_date ASC, c.id ASC`
+    );
+    return result.rows.map(mapClaim);
+  }
+
+  const delegatorIds = await getDelegatorIds(approverId);
+  const result = await pool.query(
+    `${CLAIM_SELECT}
+     WHERE c.status = 'pending'
+       AND u.reporting_manager_id = ANY($1)
+     ORDER BY h.holiday_date ASC, c.id ASC`,
+    [[approverId, ...delegatorIds]]
+  );
+
+  const delegatorNames = new Map<number, string>();
+  if (delegatorIds.length > 0) {
+    const namesResult = await pool.query(
+      `SELECT id, first_name || ' ' || COALESCE(last_name, '') as name FROM users WHERE id = ANY($1)`,
+      [delegatorIds]
+    );
+    namesResult.rows.forEach((row: any) => delegatorNames.set(row.id, row.name.trim()));
+  }
+
+  return result.rows.map((row: any) => ({
+    ...mapClaim(row),
+    delegatedFrom: row.reporting_manager_id !== approverId ? delegatorNames.get(row.reporting_manager_id) || null : null
+  }));
+};
+
+/**
+ * Load a pending claim and check the approver may decide it
+ */
+const getDecidableClaim = async (claimId: number, approverId: number, approverRole: string) => {
+  const result = await pool.query(`${CLAIM_SELECT} WHERE c.id = $1`, [claimId]);
+  if (result.rows.length === 0) {
+    throw new Error('Floating holiday claim not found');
+  }
+  const row = result.rows[0];
+
+  if (row.status !== 'pending') {
+    throw new Error(`Floating holiday claim is already ${row.status}`);
+  }
+  if (row.employee_id === approverId) {
+    throw new Error('You cannot decide your own floating holiday claim');
+  }
+
+  const onBehalfOf = await getOnBehalfOf(approverId, row.reporting_manager_id);
+  if (row.reporting_manager_id !== approverId && !onBehalfOf && !(await hasPermission(approverRole, 'leave.approve_any'))) {
+    throw new Error('Not authorized to decide this floating holiday claim');
+  }
+
+  return { row, onBehalfOf };
+};
+
+const notifyDecision = async (
+  claim: FloatingHolidayClaim,
+  status: 'approved' | 'rejected',
+  approverId: number,
+  onBehalfOf: { id: number; name: string } | null,
+  comment: string | null
+) => {
+  try {
+    const employeeResult = await pool.query('SELECT email FROM users WHERE id = $1', [claim.employeeId]);
+    const approverName = await getUserName(approverId);
+    if (employeeResult.rows[0]?.email) {
+      await sendFloatingHolidayStatusEmail(employeeResult.rows[0].email, {
+        employeeName: claim.employeeName,
+        holidayName: claim.holidayName,
+        holidayDate: claim.holidayDate,
+        status,
+        approverName: onBehalfOf ? `${approverName} (on behalf of ${onBehalfOf.name})` : approverName,
+        comment
+      });
+    }
+  } catch (emailError: any) {
+    logger.error(`[FLOATING HOLIDAY] [${status.toUpperCase()}] Failed to notify employee for claim ${claim.id}:`, emailError);
+  }
+};
+
+/**
+ * Approve a claim; the holiday becomes a day off for the employee
+ */
+export const approveClaim = async (
+  claimId: number,
+  approverId: number,
+  approverRole: string,
+  comment?: string | null
+): Promise<FloatingHolidayClaim> => {
+  logger.info(`[FLOATING HOLIDAY] [APPROVE CLAIM] Claim: ${claimId}, Approver: ${approverId}`);
+  const { row, onBehalfOf } = await getDecidableClaim(claimId, approverId, approverRole);
+
+  const updateResult = await pool.query(
+    `UPDATE floating_holiday_claims
+     SET status = 'approved', approver_id = $1, approver_comment = $2, decided_at = CURRENT_TIMESTAMP,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $3 AND status = 'pending'
+     RETURNING id`,
+    [approverId, comment || null, claimId]
+  );
+  if (updateResult.rows.length === 0) {
+    throw new Error('Floating holiday claim is no longer pending');
+  }
+
+  const result = await pool.query(`${CLAIM_SELECT} WHERE c.id = $1`, [claimId]);
+  const claim = mapClaim(result.rows[0]);
+
+  await recordAudit({
+    userId: approverId,
+    action: 'APPROVE',
+    entityType: 'floating_holiday_claim',
+    entityId: claimId,
+    oldValues: { status: 'pending' },
+    newValues: {
+      status: 'approved',
+      comment: comment || null,
+      ...(onBehalfOf ? { onBehalfOfId: onBehalfOf.id, onBehalfOf: onBehalfOf.name } : {})
+    }
+  });
+
+  resyncHolidayLogs(row.employee_id);
+  await notifyDecision(claim, 'approved', approverId, onBehalfOf, comment || null);
+
+  return claim;
+};
+
+export const rejectClaim = async (
+  claimId: number,
+  approverId: number,
+  approverRole: string,
+  comment: string
+): Promise<FloatingHolidayClaim> => {
+  logger.info(`[FLOATING HOLIDAY] [REJECT CLAIM] Claim: ${claimId}, Approver: ${approverId}`);
+  const { onBehalfOf } = await getDecidableClaim(claimId, approverId, approverRole);
+
+  await pool.query(
+    `UPDATE floating_holiday_claims
+     SET status = 'rejected', approver_id = $1, approver_comment = $2, decided_at = CURRENT_TIMESTAMP,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $3`,
+    [approverId, comment, claimId]
+  );
+
+  const result = await pool.query(`${CLAIM_SELECT} WHERE c.id = $1`, [claimId]);
+  const claim = mapClaim(result.rows[0]);
+
+  await recordAudit({
+    userId: approverId,
+    action: 'REJECT',
+    entityType: 'floating_holiday_claim',
+    entityId: claimId,
+    oldValues: { status: 'pending' },
+    newValues: {
+      status: 'rejected',
+      comment,
+      ...(onBehalfOf ? { onBehalfOfId: onBehalfOf.id, onBehalfOf: onBehalfOf.name } : {})
+    }
+  });
+
+  await notifyDecision(claim, 'rejected', approverId, onBehalfOf, comment);
+
+  return claim;
+};
+
+/**
+ * Withdraw a pending claim, or an approved one before the holiday arrives.
+ * Withdrawing frees the quota and turns the day back into a working day.
+ */
+export const cancelClaim = async (claimId: number, employeeId: number): Promise<void> => {
+  const existing = await pool.query(
+    `SELECT c.employee_id, c.status, h.holiday_date > ${TODAY_SQL} as is_upcoming
+     FROM floating_holiday_claims c
+     JOIN holidays h ON c.holiday_id = h.id
+     WHERE c.id = $1`,
+    [claimId]
+  );
+  if (existing.rows.length === 0) {
+    throw new Error('Floating holiday claim not found');
+  }
+  const { employee_id, status, is_upcoming } = existing.rows[0];
+  if (employee_id !== employeeId) {
+    throw new Error('Not authorized to cancel this floating holiday claim');
+  }
+  if (status !== 'pending' && !(status === 'approved' && is_upcoming)) {
+    throw new Error('Only pending claims or approved claims for upcoming holidays can be cancelled');
+  }
+
+  await pool.query(
+    `UPDATE floating_holiday_claims SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+    [claimId]
+  );
+
+  await recordAudit({
+    userId: employeeId,
+    action: 'CANCEL',
+    entityType: 'floating_holiday_claim',
+    entityId: claimId,
+    oldValues: { status },
+    newValues: { status: 'cancelled' }
+  });
+
+  if (status === 'approved') {
+    resyncHolidayLogs(employeeId);
+  }
+};
@@ -0,0 +1,347 @@
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { recordAudit, recordChange } from './audit.service';
+
+type Queryable = Pool | PoolClient;
+
+export interface HolidayCalendar {
+  id: number;
+  name: string;
+  location: string | null;
+  isDefault: boolean;
+  /** Floating (optional) holidays each employee may claim per year */
+  floatingQuota: number;
+  holidayCount?: number;
+  employeeCount?: number;
+}
+
+export interface HolidayCalendarInput {
+  name: string;
+  location?: string | null;
+  isDefault?: boolean;
+  floatingQuota?: number;
+}
+
+export interface EmployeeCalendarAssignment {
+  employeeId: number;
+  empId: string;
+  employeeName: string;
+  role: string;
+  department: string | null;
+  /** Calendar assigned to the employee directly, if any */
+  assignedCalendarId: number | null;
+  calendarId: number | null;
+  calendarName: string | null;
+}
+
+/**
+ * SQL expression for the calendar a user (aliased `u`) follows: their own, else the default
+ */
+export const USER_CALENDAR_SQL = `COALESCE(u.holiday_calendar_id, (SELECT id FROM holiday_calendars WHERE is_default = true LIMIT 1))`;
+
+/**
+ * SQL condition for a holiday (aliased `h`) being a day off for a user (aliased `u`):
+ * every non-optional holiday, plus the floating holidays the user has an approved claim for
+ */
+export const USER_DAY_OFF_SQL = `(h.is_optional = false OR EXISTS (
+  SELECT 1 FROM floating_holiday_claims fhc
+  WHERE fhc.holiday_id = h.id AND fhc.employee_id = u.id AND fhc.status = 'approved'
+))`;
+
+const mapCalendar = (row: any): HolidayCalendar => ({
+  id: row.id,
+  name: row.name,
+  location: row.location,
+  isDefault: row.is_default,
+  floatingQuota: row.floating_quota ?? 0,
+  ...(row.holiday_count !== undefined && { holidayCount: parseInt(row.holiday_count) || 0 }),
+  ...(row.employee_count !== undefined && { employeeCount: parseInt(row.employee_count) || 0 })
+});
+
+export const getDefaultCalendarId = async (db: Queryable = pool): Promise<number | null> => {
+  const result = await db.query('SELECT id FROM holiday_calendars WHERE is_default = true LIMIT 1');
+  return result.rows[0]?.id ?? null;
+};
+
+export const getEmployeeCalendarId = async (userId: number, db: Queryable = pool): Promise<number | null> => {
+  const result = await db.query(`SELECT ${USER_CALENDAR_SQL} as calendar_id FROM users u WHERE u.id = $1`, [userId]);
+  if (result.rows.length === 0) return getDefaultCalendarId(db);
+  return result.rows[0].calendar_id;
+};
+
+/**
+ * Calendars for many users in one query; users not found get the default calendar
+ */
+export const getCalendarMap = async (userIds: number[], db: Queryable = pool): Promise<Map<number, number | null>> => {
+  const calendars = new Map<number, number | null>();
+  if (userIds.length === 0) return calendars;
+
+  const result = await db.query(
+    `SELECT u.id, ${USER_CALENDAR_SQL} as calendar_id FROM users u WHERE u.id = ANY($1)`,
+    [userIds]
+  );
+  result.rows.forEach((row: any) => calendars.set(row.id, row.calendar_id));
+  if (calendars.size < userIds.length) {
+    const defaultId = await getDefaultCalendarId(db);
+    userIds.forEach((id) => {
+      if (!calendars.has(id)) calendars.set(id, defaultId);
+    });
+  }
+  return calendars;
+};
+
+/**
+ * Active users (excluding super admins) who follow the calendar
+ */
+export const getCalendarUserIds = async (calendarId: number, db: Queryable = pool): Promise<number[]> => {
+  const result = await db.query(
+    `SELECT u.id FROM users u
+     WHERE u.status = 'active' AND u.user_role != 'super_admin'
+       AND ${USER_CALENDAR_SQL} = $1`,
+    [calendarId]
+  );
+  return result.rows.map((row: any) => row.id);
+};
+
+// ============================================================================
+// Calendar configuration
+// ============================================================================
+
+export const getCalendars = async (): Promise<HolidayCalendar[]> => {
+  const result = await pool.query(
+    `SELECT hc.*,
+            (SELECT COUNT(*) FROM holidays h WHERE h.calendar_id = hc.id AND h.is_active = true) as holiday_count,
+            (SELECT COUNT(*) FROM users u
+             WHERE u.status = 'active' AND u.user_role != 'super_admin'
+               AND ${USER_CALENDAR_SQL} = hc.id) as employee_count
+     FROM holiday_calendars hc
+     ORDER BY hc.is_default DESC, hc.name`
+  );
+  return result.rows.map(mapCalendar);
+};
+
+export const assertCalendarExists = async (calendarId: number, db: Queryable = pool) => {
+  const result = await db.query('SELECT 1 FROM holiday_calendars WHERE id = $1', [calendarId]);
+  if (result.rows.length === 0) {
+    throw new Error('Holiday calendar not found');
+  }
+};
+
+const validateCalendarInput = (input: HolidayCalendarInput) => {
+  if (!input.name || !input.name.trim()) {
+    throw new Error('Calendar name is required');
+  }
+  if (input.name.trim().length > 100) {
+    throw new Error('Calendar name must be 100 characters or fewer');
+  }
+  if (input.location && input.location.trim().length > 100) {
+    throw new Error('Location must be 100 characters or fewer');
+  }
+  if (input.floatingQuota !== undefined && (!Number.isInteger(input.floatingQuota) || input.floatingQuota < 0 || input.floatingQuota > 31)) {
+    throw new Error('Floating holiday quota must be a whole number between 0 and 31');
+  }
+};
+
+export const createCalendar = async (input: HolidayCalendarInput, requesterId: number): Promise<HolidayCalendar> => {
+  logger.info(`[HOLIDAY CALENDAR] [CREATE] ${JSON.stringify(input)}`);
+  validateCalendarInput(input);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query('SELECT 1 FROM holiday_calendars WHERE LOWER(name) = LOWER($1)', [input.name.trim()]);
+    if (existing.rows.length > 0) {
+      throw new Error('A calendar with this name already exists');
+    }
+
+    if (input.isDefault) {
+      await client.query('UPDATE holiday_calendars SET is_default = false WHERE is_default = true');
+    }
+
+    const result = await client.query(
+      `INSERT INTO holiday_calendars (name, location, is_default, floating_quota, created_by, updated_by)
+       VALUES ($1, $2, $3, COALESCE($5, 2), $4, $4)
+       RETURNING *`,
+      [input.name.trim(), input.location?.trim() || null, input.isDefault ?? false, requesterId, input.floatingQuota ?? null]
+    );
+
+    const calendar = mapCalendar(result.rows[0]);
+    await recordAudit({
+      userId: requesterId,
+      action: 'CREATE',
+      entityType: 'holiday_calendar',
+      entityId: calendar.id,
+      newValues: calendar
+    }, client);
+
+    await client.query('COMMIT');
+    return calendar;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+export const updateCalendar = async (id: number, input: HolidayCalendarInput, requesterId: number): Promise<HolidayCalendar> => {
+  logger.info(`[HOLIDAY CALENDAR] [UPDATE] ID: ${id}, ${JSON.stringify(input)}`);
+  validateCalendarInput(input);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const beforeResult = await client.query('SELECT * FROM holiday_calendars WHERE id = $1 FOR UPDATE', [id]);
+    if (beforeResult.rows.length === 0) {
+      throw new Error('Holiday calendar not found');
+    }
+    const before = mapCalendar(beforeResult.rows[0]);
+    if (before.isDefault && input.isDefault === false) {
+      throw new Error('The default calendar cannot be unset; mark another calendar as the default instead');
+    }
+
+    const duplicate = await client.query(
+      'SELECT 1 FROM holiday_calendars WHERE LOWER(name) = LOWER($1) AND id != $2',
+      [input.name.trim(), id]
+    );
+    if (duplicate.rows.length > 0) {
+      throw new Error('A calendar with this name already exists');
+    }
+
+    const isDefault = input.isDefault ?? before.isDefault;
+    if (isDefault && !before.isDefault) {
+      await client.query('UPDATE holiday_calendars SET is_default = false WHERE is_default = true');
+    }
+
+    const result = await client.query(
+      `UPDATE holiday_calendars
+       SET name = $1, location = $2, is_default = $3, floating_quota = $4, updated_by = $5, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $6
+       RETURNING *`,
+      [input.name.trim(), input.location?.trim() || null, isDefault, input.floatingQuota ?? before.floatingQuota, requesterId, id]
+    );
+
+    const calendar = mapCalendar(result.rows[0]);
+    await recordChange({
+      userId: requesterId,
+      action: 'UPDATE',
+      entityType: 'holiday_calendar',
+      entityId: id,
+      before,
+      after: calendar
+    }, client);
+
+    await client.query('COMMIT');
+    return calendar;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Delete a calendar with its holidays; its employees move to the default calendar.
+ * Returns the ids of those employees so their holiday logs can be resynced.
+ */
+export const deleteCalendar = async (id: number, requesterId: number): Promise<number[]> => {
+  logger.info(`[HOLIDAY CALENDAR] [DELETE] ID: ${id}`);
+
+  const existing = await pool.query('SELECT * FROM holiday_calendars WHERE id = $1', [id]);
+  if (existing.rows.length === 0) {
+    throw new Error('Holiday calendar not found');
+  }
+  if (existing.rows[0].is_default) {
+    throw new Error('The default calendar cannot be deleted');
+  }
+
+  const affectedUserIds = await getCalendarUserIds(id);
+  await pool.query('DELETE FROM holiday_calendars WHERE id = $1', [id]);
+  await recordAudit({
+    userId: requesterId,
+    action: 'DELETE',
+    entityType: 'holiday_calendar',
+    entityId: id,
+    oldValues: mapCalendar(existing.rows[0])
+  });
+
+  return affectedUserIds;
+};
+
+// ============================================================================
+// Assignments
+// ============================================================================
+
+export const getEmployeeAssignments = async (): Promise<EmployeeCalendarAssignment[]> => {
+  const result = await pool.query(
+    `SELECT u.id, u.emp_id, u.user_role, u.department, u.holiday_calendar_id,
+            u.first_name || ' ' || COALESCE(u.last_name, '') as employee_name,
+            hc.id as calendar_id, hc.name as calendar_name
+     FROM users u
+     LEFT JOIN holiday_calendars hc ON hc.id = ${USER_CALENDAR_SQL}
+     WHERE u.status = 'active' AND u.user_role != 'super_admin'
+     ORDER BY u.first_name, u.last_name`
+  );
+
+  return result.rows.map((row: any) => ({
+    employeeId: row.id,
+    empId: row.emp_id,
+    employeeName: (row.employee_name || '').trim(),
+    role: row.user_role,
+    department: row.department,
+    assignedCalendarId: row.holiday_calendar_id,
+    calendarId: row.calendar_id,
+    calendarName: row.calendar_name
+  }));
+};
+
+/**
+ * Assign a calendar to employees, or clear it (null) so they follow the default.
+ * Returns the ids of employees whose calendar changed.
+ */
+export const assignEmployees = async (employeeIds: number[], calendarId: number | null, requesterId: number): Promise<number[]> => {
+  logger.info(`[HOLIDAY CALENDAR] [ASSIGN EMPLOYEES] Calendar: ${calendarId}, Employees: ${employeeIds.join(', ')}`);
+  if (employeeIds.length === 0) {
+    throw new Error('Select at least one employee');
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    if (calendarId !== null) {
+      await assertCalendarExists(calendarId, client);
+    }
+
+    const result = await client.query(
+      `UPDATE users u
+       SET holiday_calendar_id = $1
+       FROM (SELECT id, holiday_calendar_id FROM users WHERE id = ANY($2) FOR UPDATE) prev
+       WHERE u.id = prev.id AND u.holiday_calendar_id IS DISTINCT FROM $1
+       RETURNING u.id, prev.holiday_calendar_id as old_calendar_id`,
+      [calendarId, employeeIds]
+    );
+
+    for (const row of result.rows) {
+      await recordAudit({
+        userId: requesterId,
+        action: 'UPDATE',
+        entityType: 'user',
+        entityId: row.id,
+        oldValues: { holidayCalendarId: row.old_calendar_id },
+        newValues: { holidayCalendarId: calendarId }
+      }, client);
+    }
+
+    await client.query('COMMIT');
+    return result.rows.map((row: any) => row.id);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
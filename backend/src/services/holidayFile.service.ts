@@ -0,0 +1,302 @@
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { buildCalendar, eventDates, parseEvents } from '../utils/icalendar';
+import { createHoliday, updateHoliday } from './leave.service';
+
+export type HolidayFileFormat = 'ics' | 'csv';
+
+export type HolidayImportStatus = 'new' | 'changed' | 'unchanged' | 'skipped';
+
+export interface HolidayImportRow {
+  date: string;
+  name: string;
+  isOptional: boolean;
+  status: HolidayImportStatus;
+  /** Holiday already on the calendar for the date */
+  existing: { id: number; name: string; isOptional: boolean } | null;
+  message: string | null;
+}
+
+export interface HolidayImportPreview {
+  format: HolidayFileFormat;
+  rows: HolidayImportRow[];
+  /** Holidays on the calendar in the file's years that the file does not list; import leaves them alone */
+  notInFile: Array<{ id: number; date: string; name: string; isOptional: boolean }>;
+}
+
+export interface HolidayImportResult {
+  created: number;
+  updated: number;
+  failed: Array<{ date: string; name: string; message: string }>;
+}
+
+// Upper bounds that keep a malformed file from flooding the calendar
+const MAX_IMPORT_ROWS = 500;
+const MAX_EVENT_DAYS = 31;
+
+const OPTIONAL_MARKERS = ['optional', 'floating', 'restricted'];
+const OPTIONAL_VALUES = [...OPTIONAL_MARKERS, 'yes', 'true', '1', 'y'];
+
+interface RawHoliday {
+  date: string | null;
+  name: string;
+  isOptional: boolean;
+  message?: string;
+}
+
+// Local date formatter to avoid timezone shifts
+const formatDate = (date: Date | string): string => {
+  const d = new Date(date);
+  if (isNaN(d.getTime())) return String(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const isValidDate = (date: string) => {
+  const value = new Date(`${date}T00:00:00Z`);
+  return !isNaN(value.getTime()) && value.toISOString().startsWith(date);
+};
+
+// CSV dates: YYYY-MM-DD, or DD-MM-YYYY / DD/MM/YYYY as shown on the holiday pages
+const parseCsvDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let date: string | null = null;
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dayFirst = trimmed.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+  if (iso) date = `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+  else if (dayFirst) date = `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`;
+  return date && isValidDate(date) ? date : null;
+};
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map((cell) => cell.trim());
+};
+
+/**
+ * CSV with date, name and an optional type column. A header row is optional; when present,
+ * columns are found by name (date, name/holiday, type/optional/floating).
+ */
+const parseCsv = (content: string): RawHoliday[] => {
+  const lines = content.replace(/^﻿/, '').split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+
+  let columns = { date: 0, name: 1, type: 2 };
+  const header = splitCsvLine(lines[0]).map((cell) => cell.toLowerCase());
+  if (header.some((cell) => cell.includes('date'))) {
+    const find = (names: string[]) => header.findIndex((cell) => names.some((name) => cell.includes(name)));
+    columns = {
+      date: find(['date']),
+      name: find(['name', 'holiday', 'summary', 'occasion']),
+      type: find(['type', 'optional', 'floating'])
+    };
+    lines.shift();
+  }
+
+  return lines.map((line) => {
+    const cells = splitCsvLine(line);
+    const rawDate = cells[columns.date] ?? '';
+    const date = parseCsvDate(rawDate);
+    const type = columns.type >= 0 ? (cells[columns.type] || '').toLowerCase() : '';
+    return {
+      date,
+      name: columns.name >= 0 ? cells[columns.name] || '' : '',
+      isOptional: OPTIONAL_VALUES.includes(type),
+      ...(!date && { message: `Invalid date "${rawDate}"` })
+    };
+  });
+};
+
+/**
+ * ICS events, one holiday per day they cover. Events categorised as optional,
+ * floating or restricted (as the export marks them) become optional holidays.
+ */
+const parseIcs = (content: string): RawHoliday[] => {
+  const holidays: RawHoliday[] = [];
+  parseEvents(content).forEach((event) => {
+    const isOptional = event.categories.some((category) =>
+      OPTIONAL_MARKERS.some((marker) => category.toLowerCase().includes(marker))
+    );
+    const dates = eventDates(event);
+    if (dates.length > MAX_EVENT_DAYS) {
+      holidays.push({ date: null, name: event.summary, isOptional, message: `Event spans more than ${MAX_EVENT_DAYS} days` });
+      return;
+    }
+    dates.forEach((date) => holidays.push({ date, name: event.summary, isOptional }));
+  });
+  return holidays;
+};
+
+export const detectFormat = (fileName: string, content: string): HolidayFileFormat | null => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.ics') || lowerName.endsWith('.ical') || /^\s*BEGIN:VCALENDAR/i.test(content)) return 'ics';
+  if (lowerName.endsWith('.csv') || lowerName.endsWith('.txt')) return 'csv';
+  return null;
+};
+
+// Holiday names are letters and spaces only: apostrophes are dropped, other characters become spaces
+const normalizeName = (name: string) =>
+  name.replace(/['’]/g, '').replace(/[^a-zA-Z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Parse a holiday file and compare it with the holidays already on the calendar
+ */
+export const previewImport = async (calendarId: number, fileName: string, content: string): Promise<HolidayImportPreview> => {
+  const format = detectFormat(fileName, content);
+  if (!format) {
+    throw new Error('Only .ics and .csv files can be imported');
+  }
+
+  const raw = format === 'ics' ? parseIcs(content) : parseCsv(content);
+  if (raw.length === 0) {
+    throw new Error('No holidays found in the file');
+  }
+  if (raw.length > MAX_IMPORT_ROWS) {
+    throw new Error(`A file can import at most ${MAX_IMPORT_ROWS} holidays`);
+  }
+
+  const calendarResult = await pool.query('SELECT 1 FROM holiday_calendars WHERE id = $1', [calendarId]);
+  if (calendarResult.rows.length === 0) {
+    throw new Error('Holiday calendar not found');
+  }
+
+  const years = Array.from(new Set(raw.filter((row) => row.date).map((row) => parseInt((row.date as string).slice(0, 4)))));
+  const existingResult = await pool.query(
+    `SELECT id, holiday_date, holiday_name, is_optional FROM holidays
+     WHERE calendar_id = $1 AND is_active = true AND EXTRACT(YEAR FROM holiday_date) = ANY($2)
+     ORDER BY holiday_date`,
+    [calendarId, years]
+  );
+  const existingByDate = new Map<string, { id: number; name: string; isOptional: boolean }>();
+  existingResult.rows.forEach((row: any) => {
+    existingByDate.set(formatDate(row.holiday_date), { id: row.id, name: row.holiday_name, isOptional: row.is_optional });
+  });
+
+  const today = formatDate(new Date());
+  const seenDates = new Set<string>();
+  const rows: HolidayImportRow[] = raw.map((holiday) => {
+    const name = normalizeName(holiday.name);
+    const existing = holiday.date ? existingByDate.get(holiday.date) || null : null;
+    const row: HolidayImportRow = {
+      date: holiday.date || '',
+      name,
+      isOptional: holiday.isOptional,
+      status: 'skipped',
+      existing,
+      message: holiday.message || null
+    };
+
+    if (!holiday.date || holiday.message) return row;
+    if (!name) return { ...row, message: 'Holiday name is required' };
+    if (name.length > 100) return { ...row, message: 'Holiday name cannot exceed 100 characters' };
+    if (seenDates.has(holiday.date)) return { ...row, message: 'Another row in the file has the same date' };
+    seenDates.add(holiday.date);
+    if (holiday.date < today) return { ...row, message: 'Past dates cannot be imported' };
+
+    const adjusted = name !== holiday.name.trim() ? `Name adjusted from "${holiday.name.trim()}"` : null;
+    if (!existing) return { ...row, status: 'new', message: adjusted };
+    if (existing.name === name && existing.isOptional === holiday.isOptional) {
+      return { ...row, status: 'unchanged', message: adjusted };
+    }
+    return { ...row, status: 'changed', message: adjusted };
+  });
+
+  const notInFile = Array.from(existingByDate.entries())
+    .filter(([date]) => !seenDates.has(date))
+    .map(([date, holiday]) => ({ id: holiday.id, date, name: holiday.name, isOptional: holiday.isOptional }));
+
+  return { format, rows, notInFile };
+};
+
+/**
+ * Apply the new and changed rows of an import, optionally only those on the given dates.
+ * Each row goes through the regular holiday create/update so timesheet logs follow.
+ */
+export const applyImport = async (
+  calendarId: number,
+  fileName: string,
+  content: string,
+  requesterId: number,
+  dates?: string[]
+): Promise<HolidayImportResult> => {
+  logger.info(`[HOLIDAY FILE] [IMPORT] Calendar: ${calendarId}, File: ${fileName}, Requested by: ${requesterId}`);
+  const preview = await previewImport(calendarId, fileName, content);
+  const selected = dates ? new Set(dates) : null;
+  const result: HolidayImportResult = { created: 0, updated: 0, failed: [] };
+
+  for (const row of preview.rows) {
+    if (row.status !== 'new' && row.status !== 'changed') continue;
+    if (selected && !selected.has(row.date)) continue;
+    try {
+      if (row.status === 'new') {
+        await createHoliday(row.date, row.name, requesterId, calendarId, row.isOptional);
+        result.created++;
+      } else {
+        await updateHoliday(row.existing!.id, row.date, row.name, row.isOptional);
+        result.updated++;
+      }
+    } catch (error: any) {
+      logger.error(`[HOLIDAY FILE] [IMPORT] Failed to import ${row.date} (${row.name}):`, error);
+      result.failed.push({ date: row.date, name: row.name, message: error.message });
+    }
+  }
+
+  logger.info(`[HOLIDAY FILE] [IMPORT] Created: ${result.created}, Updated: ${result.updated}, Failed: ${result.failed.length}`);
+  return result;
+};
+
+/**
+ * ICS feed of a calendar's holidays from the start of last year onwards
+ */
+export const exportCalendar = async (calendarId: number): Promise<{ fileName: string; content: string }> => {
+  const calendarResult = await pool.query('SELECT id, name FROM holiday_calendars WHERE id = $1', [calendarId]);
+  if (calendarResult.rows.length === 0) {
+    throw new Error('Holiday calendar not found');
+  }
+  const calendar = calendarResult.rows[0];
+
+  const holidaysResult = await pool.query(
+    `SELECT id, holiday_date, (holiday_date + 1) as next_date, holiday_name, is_optional
+     FROM holidays
+     WHERE calendar_id = $1 AND is_active = true
+       AND EXTRACT(YEAR FROM holiday_date) >= EXTRACT(YEAR FROM CURRENT_DATE) - 1
+     ORDER BY holiday_date`,
+    [calendarId]
+  );
+
+  const content = buildCalendar(
+    `TensorGo Holidays - ${calendar.name}`,
+    holidaysResult.rows.map((row: any) => ({
+      uid: `holiday-${row.id}@intra.tensorgo.com`,
+      startDate: formatDate(row.holiday_date),
+      endDate: formatDate(row.next_date),
+      summary: row.holiday_name,
+      ...(row.is_optional && { description: 'Floating holiday: a working day unless claimed', categories: ['Floating'] })
+    }))
+  );
+
+  const slug = calendar.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'calendar';
+  return { fileName: `holidays-${slug}.ics`, content };
+};
@@ -5,6 +5,27 @@ import { logger } from '../utils/logger';
 import { deleteFromOVH } from '../utils/storage';
 import { sendLeaveApplicationEmail, sendLeaveStatusEmail, sendUrgentLeaveApplicationEmail } from '../utils/emailTemplates';
 import { TimesheetService } from './timesheet.service';
+import { recordAudit, recordChange } from './audit.service';
+import { getBalanceMap, getLeaveTypeByCode, hasBalances, initializeBalances, deductBalance, refundBalance, adjustBalance, getBalance } from './leaveBalance.service';
+import {
+  ApprovalStage,
+  CURRENT_STAGE_ROLE_SQL,
+  advanceApproval,
+  assertCanDecideDays,
+  describeStage,
+  getApprovalStages,
+  getApprovalStagesForRequests,
+  getHeaderColumnRole,
+  initializeApprovalStages,
+  notifyStageApprovers,
+  rejectApproval,
+  syncStagesWithDays
+} from './approvalWorkflow.service';
+import { getActiveDelegate, getDelegatorIds, getOnBehalfOf } from './approvalDelegation.service';
+import { hasPermission } from './permission.service';
+import { DAY_NAMES, getEmployeeSchedule, isWorkingDay } from './workSchedule.service';
+import { assertCalendarExists, getDefaultCalendarId, getEmployeeCalendarId } from './holidayCalendar.service';
+import { getApprovedHolidayIds, getHolidayClaimantIds } from './floatingHoliday.service';
 
 // Local date formatter to avoid timezone shifts
 const formatDate = (date: Date | string): string => {
@@ -23,6 +44,7 @@ export interface LeaveBalance {
   casual: number;
   sick: number;
   lop: number;
+  [leaveType: string]: number;
 }
 
 export const getLeaveBalances = async (userId: number): Promise<any> => {
@@ -33,44 +55,32 @@ export const getLeaveBalances = async (userId: number): Promise<any> => {
   const userResult = await pool.query('SELECT user_role as role FROM users WHERE id = $1', [userId]);
   const role = userResult.rows[0]?.role || 'employee';
 
-  if (role === 'super_admin') {
-    logger.info(`[LEAVE] [GET LEAVE BALANCES] User is super_admin, returning zero balances`);
+  // Roles without leave.apply (Super Admin by default) are outside the leave system
+  if (!(await hasPermission(role, 'leave.apply'))) {
+    logger.info(`[LEAVE] [GET LEAVE BALANCES] Role ${role} cannot apply for leave, returning zero balances`);
     return {
       casual: 0,
       sick: 0,
       lop: 0,
+      balances: {},
       policies: {}
     };
   }
 
-  const result = await pool.query(
-    'SELECT casual_balance, sick_balance, lop_balance FROM leave_balances WHERE employee_id = $1',
-    [userId]
-  );
-
-  let balancesRaw = { casual: 0, sick: 0, lop: 0 };
-
-  if (result.rows.length === 0) {
+  if (!(await hasBalances(userId))) {
     logger.info(`[LEAVE] [GET LEAVE BALANCES] No balance record found, initializing with defaults`);
-    await pool.query(
-      'INSERT INTO leave_balances (employee_id, casual_balance, sick_balance, lop_balance, created_by, updated_by) VALUES ($1, 0, 0, 10, $2, $2)',
-      [userId, userId]
-    );
-    balancesRaw = { casual: 0, sick: 0, lop: 10 };
-  } else {
-    const balance = result.rows[0];
-    balancesRaw = {
-      casual: parseFloat(balance.casual_balance) || 0,
-      sick: parseFloat(balance.sick_balance) || 0,
-      lop: parseFloat(balance.lop_balance) || 0
-    };
+    await initializeBalances(pool, userId, userId);
   }
 
+  const balanceMap = await getBalanceMap(userId);
+  const balancesRaw: LeaveBalance = { casual: 0, sick: 0, lop: 0, ...balanceMap };
+
   // Get policy configurations for the user's role
   const policyResult = await pool.query(`
     SELECT 
       lt.code as leave_type,
       lt.name as leave_type_name,
+      lt.requires_balance,
       lpc.carry_forward_limit,
       lpc.max_leave_per_month,
       lpc.anniversary_3_year_bonus,
@@ -84,6 +94,7 @@ export const getLeaveBalances = async (userId: number): Promise<any> => {
   policyResult.rows.forEach((row: any) => {
     policies[row.leave_type] = {
       name: row.leave_type_name,
+      requiresBalance: row.requires_balance !== false,
       carryForwardLimit: parseFloat(row.carry_forward_limit) || 0,
       maxLeavePerMonth: parseFloat(row.max_leave_per_month) || 0,
       anniversary3YearBonus: parseFloat(row.anniversary_3_year_bonus) || 0,
@@ -91,18 +102,28 @@ export const getLeaveBalances = async (userId: number): Promise<any> => {
     };
   });
 
+  // Only expose balances for types configured for this role (plus the legacy trio)
+  const balances: Record<string, number> = {};
+  Object.entries(balanceMap).forEach(([code, value]) => {
+    if (policies[code] || ['casual', 'sick', 'lop'].includes(code)) {
+      balances[code] = value;
+    }
+  });
+
   return {
     ...balancesRaw,
+    balances,
     policies
   };
 };
 
-export const getHolidays = async (year?: number) => {
+export const getHolidays = async (year?: number, calendarId?: number | null) => {
   logger.info(`[LEAVE] [GET HOLIDAYS] ========== FUNCTION CALLED ==========`);
-  logger.info(`[LEAVE] [GET HOLIDAYS] Year: ${year || 'all'}`);
+  logger.info(`[LEAVE] [GET HOLIDAYS] Year: ${year || 'all'}, Calendar: ${calendarId || 'default'}`);
 
   try {
-    let query = 'SELECT id, holiday_date, holiday_name FROM holidays WHERE is_active = true';
+    const resolvedCalendarId = calendarId ?? await getDefaultCalendarId();
+    let query = 'SELECT id, holiday_date, holiday_name, calendar_id, is_optional FROM holidays WHERE is_active = true AND calendar_id = $3';
     const params: any[] = [];
 
     // Always include current year and next year
@@ -122,6 +143,7 @@ export const getHolidays = async (year?: number) => {
     }
 
     query += ' ORDER BY holiday_date';
+    params.push(resolvedCalendarId);
 
     const result = await pool.query(query, params);
 
@@ -134,7 +156,9 @@ export const getHolidays = async (year?: number) => {
     return result.rows.map(row => ({
       id: row.id,
       date: formatDate(row.holiday_date),
-      name: row.holiday_name
+      name: row.holiday_name,
+      calendarId: row.calendar_id,
+      isOptional: row.is_optional
     }));
   } catch (error: any) {
     logger.error(`[LEAVE] [GET HOLIDAYS] Error fetching holidays:`, error);
@@ -142,9 +166,22 @@ export const getHolidays = async (year?: number) => {
   }
 };
 
-export const createHoliday = async (holidayDate: string, holidayName: string, requesterId: number) => {
+export const createHoliday = async (
+  holidayDate: string,
+  holidayName: string,
+  requesterId: number,
+  calendarId?: number,
+  isOptional: boolean = false
+) => {
   logger.info(`[LEAVE] [CREATE HOLIDAY] ========== FUNCTION CALLED ==========`);
 
+  // Holidays without a calendar go on the default calendar
+  const targetCalendarId = calendarId ?? await getDefaultCalendarId();
+  if (!targetCalendarId) {
+    throw new Error('Holiday calendar not found');
+  }
+  await assertCalendarExists(targetCalendarId);
+
   try {
     const trimmedName = holidayName.trim();
     // Validate holiday name: only letters and spaces allowed
@@ -162,29 +199,42 @@ export const createHoliday = async (holidayDate: string, holidayName: string, re
     }
 
     const result = await pool.query(
-      `INSERT INTO holidays (holiday_date, holiday_name, is_active, created_at, updated_at, created_by, updated_by)
-       VALUES ($1, $2, true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, $3, $3)
-       RETURNING id, holiday_date, holiday_name, is_active, created_at`,
-      [holidayDate, trimmedName, requesterId]
+      `INSERT INTO holidays (holiday_date, holiday_name, calendar_id, is_optional, is_active, created_at, updated_at, created_by, updated_by)
+       VALUES ($1, $2, $3, $4, true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, $5, $5)
+       RETURNING id, holiday_date, holiday_name, calendar_id, is_optional, is_active, created_at`,
+      [holidayDate, trimmedName, targetCalendarId, isOptional, requesterId]
     );
 
     logger.info(`[LEAVE] [CREATE HOLIDAY] Holiday created successfully - ID: ${result.rows[0].id}`);
 
+    await recordAudit({
+      userId: requesterId,
+      action: 'CREATE',
+      entityType: 'holiday',
+      entityId: result.rows[0].id,
+      newValues: { holiday_date: holidayDate, holiday_name: trimmedName, calendar_id: targetCalendarId, is_optional: isOptional }
+    });
+
     // Hook: Log Holiday Immediately - WAIT for completion
     // This ensures DB entries are created BEFORE responding to client
-    // so the frontend sees holiday logs immediately without needing to reload
-    try {
-      await TimesheetService.logHolidayForEveryone(holidayDate, trimmedName);
-      logger.info(`[LEAVE] [CREATE HOLIDAY] Holiday logs created successfully for all users`);
-    } catch (e) {
-      logger.error(`[LEAVE] Failed to log holiday to timesheets`, e);
-      // Don't fail the holiday creation if timesheet logging fails
+    // so the frontend sees holiday logs immediately without needing to reload.
+    // Optional holidays are working days unless taken, so nothing is logged for them.
+    if (!isOptional) {
+      try {
+        await TimesheetService.logHolidayForEveryone(holidayDate, trimmedName, targetCalendarId);
+        logger.info(`[LEAVE] [CREATE HOLIDAY] Holiday logs created successfully for the calendar's users`);
+      } catch (e) {
+        logger.error(`[LEAVE] Failed to log holiday to timesheets`, e);
+        // Don't fail the holiday creation if timesheet logging fails
+      }
     }
 
     return {
       id: result.rows[0].id,
       date: formatDate(result.rows[0].holiday_date),
       name: result.rows[0].holiday_name,
+      calendarId: result.rows[0].calendar_id,
+      isOptional: result.rows[0].is_optional,
       isActive: result.rows[0].is_active,
       createdAt: result.rows[0].created_at
     };
@@ -201,8 +251,10 @@ export const deleteHoliday = async (holidayId: number) => {
   logger.info(`[LEAVE] [DELETE HOLIDAY] ========== FUNCTION CALLED ==========`);
 
   try {
+    // Employees who claimed it as a floating holiday have it logged; their claims go with the holiday
+    const claimantIds = await getHolidayClaimantIds(holidayId);
     const result = await pool.query(
-      'DELETE FROM holidays WHERE id = $1 RETURNING id, holiday_date, holiday_name',
+      'DELETE FROM holidays WHERE id = $1 RETURNING id, holiday_date, holiday_name, calendar_id, is_optional',
       [holidayId]
     );
 
@@ -212,11 +264,29 @@ export const deleteHoliday = async (holidayId: number) => {
 
     logger.info(`[LEAVE] [DELETE HOLIDAY] Holiday deleted successfully - ID: ${holidayId}`);
 
-    // Hook: Remove Holiday Logs
-    TimesheetService.removeHolidayLog(formatDate(result.rows[0].holiday_date)).catch((e: any) => {
-      logger.error(`[LEAVE] Failed to remove holiday logs for date ${result.rows[0].holiday_date}`, e);
+    await recordAudit({
+      action: 'DELETE',
+      entityType: 'holiday',
+      entityId: holidayId,
+      oldValues: {
+        holiday_date: formatDate(result.rows[0].holiday_date),
+        holiday_name: result.rows[0].holiday_name,
+        calendar_id: result.rows[0].calendar_id,
+        is_optional: result.rows[0].is_optional
+      }
     });
 
+    // Hook: Remove Holiday Logs (optional holidays were only logged for employees who claimed them)
+    if (!result.rows[0].is_optional) {
+      TimesheetService.removeHolidayLog(formatDate(result.rows[0].holiday_date), result.rows[0].calendar_id).catch((e: any) => {
+        logger.error(`[LEAVE] Failed to remove holiday logs for date ${result.rows[0].holiday_date}`, e);
+      });
+    } else if (claimantIds.length > 0) {
+      TimesheetService.syncHolidayLogs(claimantIds).catch((e: any) => {
+        logger.error(`[LEAVE] Failed to resync holiday logs for date ${result.rows[0].holiday_date}`, e);
+      });
+    }
+
     return {
       id: result.rows[0].id,
       date: formatDate(result.rows[0].holiday_date),
@@ -266,6 +336,29 @@ export const getLeaveRules = async () => {
   }
 };
 
+/**
+ * Ensure a leave type code exists, is active and has a policy for the given role
+ */
+const assertLeaveTypeAvailable = async (leaveTypeCode: string, role: string) => {
+  const leaveType = await getLeaveTypeByCode(leaveTypeCode);
+  if (!leaveType) {
+    throw new Error(`Unknown leave type: ${leaveTypeCode}`);
+  }
+
+  const policyResult = await pool.query(
+    `SELECT 1 FROM leave_policy_configurations lpc
+     JOIN leave_types lt ON lpc.leave_type_id = lt.id
+     WHERE lt.code = $1 AND lt.is_active = true AND lpc.role = $2`,
+    [leaveTypeCode, role]
+  );
+  // Permission is always available even without an explicit policy row
+  if (policyResult.rows.length === 0 && leaveTypeCode !== 'permission') {
+    throw new Error(`${leaveType.name} is not available for your role`);
+  }
+
+  return leaveType;
+};
+
 export const applyLeave = async (
   userId: number,
   leaveData: {
@@ -336,29 +429,27 @@ export const applyLeave = async (
     const userData = userResult.rows[0];
     const userRole = userData.employee_role;
 
-    // Validation: Super Admins cannot apply for leaves
-    if (userRole === 'super_admin') {
-      throw new Error('Super Admins do not apply for leaves and are excluded from the leave system.');
+    // Validation: Roles without leave.apply (Super Admins by default) cannot apply for leaves
+    if (!(await hasPermission(userRole, 'leave.apply'))) {
+      throw new Error('Your role does not apply for leaves and is excluded from the leave system.');
     }
 
-    // Validation: Cannot select weekends (Saturday = 6, Sunday = 0)
+    // Validation: Leave type must exist, be active and be configured for the user's role
+    const leaveTypeInfo = await assertLeaveTypeAvailable(leaveData.leaveType, userRole);
+
+    // Validation: Cannot select days outside the employee's work schedule
     // EXCEPTION: LOP leaves can start/end on weekends
-    // EXCEPTION: For interns, Saturday is a working day
+    const workSchedule = await getEmployeeSchedule(userId);
+    const holidayCalendarId = await getEmployeeCalendarId(userId);
     if (leaveData.leaveType !== 'lop') {
       const startDayOfWeek = startDate.getDay();
       const endDayOfWeek = endDate.getDay();
 
-      const isWeekendCheck = (day: number) => {
-        return day === 0 || (day === 6 && userRole !== 'intern');
-      };
-
-      if (isWeekendCheck(startDayOfWeek)) {
-        const dayName = startDayOfWeek === 0 ? 'Sunday' : 'Saturday';
-        throw new Error(`Cannot select ${dayName} as start date. Please select a working day.`);
+      if (!isWorkingDay(workSchedule, startDate)) {
+        throw new Error(`Cannot select ${DAY_NAMES[startDayOfWeek]} as start date. Please select a working day.`);
       }
-      if (isWeekendCheck(endDayOfWeek)) {
-        const dayName = endDayOfWeek === 0 ? 'Sunday' : 'Saturday';
-        throw new Error(`Cannot select ${dayName} as end date. Please select a working day.`);
+      if (!isWorkingDay(workSchedule, endDate)) {
+        throw new Error(`Cannot select ${DAY_NAMES[endDayOfWeek]} as end date. Please select a working day.`);
       }
     }
 
@@ -389,14 +480,19 @@ export const applyLeave = async (
       throw new Error('End date must be greater than or equal to start date');
     }
 
-    // Fetch holidays once
+    // Fetch holidays once (from the employee's calendar; optional holidays are working days
+    // unless the employee has an approved floating holiday claim for them)
     const holidayYears = startYear === endYear ? [startYear] : [startYear, endYear];
     const holidaysResult = await pool.query(
       `SELECT holiday_date, holiday_name FROM holidays 
-       WHERE is_active = true 
+       WHERE is_active = true
+       AND (is_optional = false OR id IN (
+         SELECT holiday_id FROM floating_holiday_claims WHERE employee_id = $3 AND status = 'approved'
+       ))
+       AND calendar_id = $2
        AND EXTRACT(YEAR FROM holiday_date) = ANY($1)
        ORDER BY holiday_date`,
-      [holidayYears]
+      [holidayYears, holidayCalendarId, userId]
     );
 
     const holidayDates = new Set<string>();
@@ -450,7 +546,9 @@ export const applyLeave = async (
       normalizedStartType as 'full' | 'half',
       normalizedEndType as 'full' | 'half',
       leaveData.leaveType,
-      userRole
+      workSchedule.workingDays,
+      holidayCalendarId,
+      userId
     );
 
     // Validation: Prior Notice for Casual Leaves
@@ -501,7 +599,7 @@ export const applyLeave = async (
     }
 
     // Validation: Check monthly limits dynamically based on policy
-    if (leaveData.leaveType === 'lop' || leaveData.leaveType === 'casual') {
+    if (leaveData.leaveType !== 'permission') {
       // Fetch the policy configuration for this user's role and leave type
       const policyResult = await pool.query(`
         SELECT lpc.max_leave_per_month
@@ -512,7 +610,7 @@ export const applyLeave = async (
 
       const maxLeavePerMonth = policyResult.rows.length > 0
         ? parseFloat(policyResult.rows[0].max_leave_per_month)
-        : (leaveData.leaveType === 'casual' ? 10 : 5); // Fallback if no policy found
+        : (leaveData.leaveType === 'casual' ? 10 : leaveData.leaveType === 'lop' ? 5 : 0); // Fallback if no policy found
 
       // Only proceed with check if maxLeavePerMonth is defined and > 0
       if (maxLeavePerMonth > 0) {
@@ -559,10 +657,9 @@ export const applyLeave = async (
       throw new Error('Start and end timings are required for permission requests');
     }
 
-    if (leaveData.leaveType !== 'permission') {
+    if (leaveTypeInfo.requires_balance) {
       const balance = await getLeaveBalances(userId);
-      const balanceKey = `${leaveData.leaveType}` as keyof LeaveBalance;
-      if (balance[balanceKey] < days) {
+      if ((balance[leaveData.leaveType] || 0) < days) {
         throw new Error(`Insufficient ${leaveData.leaveType} leave balance`);
       }
     }
@@ -584,8 +681,19 @@ export const applyLeave = async (
     }
     */
 
+    // Leave after a scheduled exit would only be cancelled by the exit settlement
+    const exitResult = await pool.query(
+      `SELECT to_char(last_working_date, 'YYYY-MM-DD') as last_working_date
+       FROM exit_settlements WHERE employee_id = $1 AND status = 'scheduled' AND last_working_date < $2::DATE`,
+      [userId, checkEndDateStr]
+    );
+    if (exitResult.rows.length > 0) {
+      throw new Error(`Leave cannot extend beyond your last working day (${exitResult.rows[0].last_working_date})`);
+    }
+
     const client = await pool.connect();
     let leaveRequestId: number;
+    let firstStage: ApprovalStage | null = null;
 
     try {
       await client.query('BEGIN');
@@ -606,21 +714,13 @@ export const applyLeave = async (
         );
       }
 
-      if (leaveData.leaveType !== 'permission') {
-        const balanceColumn = leaveData.leaveType === 'casual' ? 'casual_balance' : leaveData.leaveType === 'sick' ? 'sick_balance' : 'lop_balance';
-        try {
-          await client.query(`UPDATE leave_balances SET ${balanceColumn} = ${balanceColumn} - $1 WHERE employee_id = $2`, [days, userId]);
-        } catch (err: any) {
-          if (err.code === '23514' || (err.message && err.message.includes('check_'))) {
-            if (err.constraint === 'check_casual_non_negative' || (err.message && err.message.includes('check_casual_non_negative'))) {
-              throw new Error('No casual leave balance to update');
-            }
-            throw new Error(`Insufficient ${leaveData.leaveType} leave balance`);
-          }
-          throw err;
-        }
+      if (leaveTypeInfo.requires_balance) {
+        await deductBalance(client, userId, leaveData.leaveType, days, { actorId: userId, leaveRequestId, source: 'leave_application' });
       }
 
+      const stages = await initializeApprovalStages(client, leaveRequestId, userId, leaveData.leaveType, days);
+      firstStage = stages.find((stage) => stage.status === 'pending') || null;
+
       await client.query('COMMIT');
     } catch (error) {
       await client.query('ROLLBACK');
@@ -629,6 +729,12 @@ export const applyLeave = async (
       client.release();
     }
 
+    // Workflows that start at HR skip the reporting manager email below
+    if (firstStage && firstStage.approverRole !== 'manager') {
+      notifyStageApprovers(leaveRequestId, firstStage);
+      return { leaveRequestId, message: 'Leave request submitted successfully' };
+    }
+
     // Fire and forget email
     // Fire and forget email - STRICT HIERARCHY
     (async () => {
@@ -640,7 +746,7 @@ export const applyLeave = async (
         // - HR:       L1=SA,      L2=null
         const hierarchyResult = await pool.query(`
           SELECT 
-            l1.email as l1_email, l1.first_name as l1_name,
+            l1.id as l1_id, l1.email as l1_email, l1.first_name as l1_name,
             l2.email as l2_email, l2.first_name as l2_name,
             l3.email as l3_email, l3.first_name as l3_name
           FROM users u
@@ -670,9 +776,10 @@ export const applyLeave = async (
           appliedDate
         };
 
-        // Determine recipients
-        const toEmail = chain.l1_email;
-        const toName = chain.l1_name || 'Reporting Manager';
+        // Determine recipients - an absent manager's delegate receives the request instead
+        const delegate = await getActiveDelegate(chain.l1_id);
+        const toEmail = delegate?.delegateEmail || chain.l1_email;
+        const toName = delegate?.delegateEmail ? delegate.delegateName : chain.l1_name || 'Reporting Manager';
 
         if (toEmail) {
           const emailData = { ...baseEmailData, managerName: toName };
@@ -709,11 +816,12 @@ export const getMyLeaveRequests = async (
 
   try {
     const offset = (page - 1) * limit;
+    const canManage = await hasPermission(userRole || '', 'leave.manage');
     let query = `
     SELECT lr.id, lr.applied_date, lr.reason as leave_reason, lr.start_date, lr.start_type, lr.end_date, lr.end_type,
            lr.leave_type, lr.time_for_permission_start, lr.time_for_permission_end, lr.current_status, lr.doctor_note,
            lr.manager_approval_comment, lr.hr_approval_comment, lr.super_admin_approval_comment,
-           lr.manager_approval_date, lr.hr_approval_date, lr.super_admin_approval_date,
+           lr.manager_approval_date, lr.hr_approval_date, lr.super_admin_approval_date, lr.auto_approved_at,
            manager.first_name || ' ' || COALESCE(manager.last_name, '') as manager_name,
            hr.first_name || ' ' || COALESCE(hr.last_name, '') as hr_name,
            sa.first_name || ' ' || COALESCE(sa.last_name, '') as sa_name
@@ -808,14 +916,12 @@ export const getMyLeaveRequests = async (
       // Sort descending
       dates.sort((a, b) => b.date - a.date);
 
-      if (dates[0].date > 0) {
-        if (row.super_admin_approval_comment?.startsWith('Auto-approved')) {
-          approverName = 'Auto Approved';
-          approverRole = 'System';
-        } else {
-          approverName = dates[0].name;
-          approverRole = dates[0].role;
-        }
+      if (row.auto_approved_at) {
+        approverName = 'Auto Approved';
+        approverRole = 'System';
+      } else if (dates[0].date > 0) {
+        approverName = dates[0].name;
+        approverRole = dates[0].role;
       }
 
       requests.push({
@@ -833,14 +939,14 @@ export const getMyLeaveRequests = async (
         approverName,
         approverRole,
         doctorNote: row.doctor_note || null,
-        // HR and Super Admin can edit/delete any leave, regular users can only edit/delete pending leaves
-        canEdit: row.current_status === 'pending' || userRole === 'hr' || userRole === 'super_admin',
+        // Holders of leave.manage can edit/delete any leave, regular users can only edit/delete pending leaves
+        canEdit: row.current_status === 'pending' || canManage,
 
         timeForPermission: row.time_for_permission_start && row.time_for_permission_end ? {
           start: row.time_for_permission_start.toString().substring(0, 5),
           end: row.time_for_permission_end.toString().substring(0, 5)
         } : undefined,
-        canDelete: row.current_status === 'pending' || userRole === 'hr' || userRole === 'super_admin',
+        canDelete: row.current_status === 'pending' || canManage,
         leaveDays: days.map(d => ({
           date: formatDate(d.leave_date),
           type: d.day_type,
@@ -880,14 +986,14 @@ export const getLeaveRequestById = async (requestId: number, userId: number, use
   let query = '';
   let params: any[] = [];
 
-  if (userRole === 'super_admin' || userRole === 'hr' || userRole === 'manager') {
+  if (await hasPermission(userRole || '', 'leave.approve')) {
     query = `
       SELECT lr.id, lr.leave_type, lr.start_date, lr.start_type, lr.end_date, lr.end_type, 
              lr.reason, lr.time_for_permission_start, lr.time_for_permission_end,
             lr.applied_date,
              lr.current_status, lr.employee_id, lr.doctor_note,
              lr.manager_approval_comment, lr.hr_approval_comment, lr.super_admin_approval_comment,
-             lr.manager_approval_date, lr.hr_approval_date, lr.super_admin_approval_date,
+             lr.manager_approval_date, lr.hr_approval_date, lr.super_admin_approval_date, lr.auto_approved_at,
              u.emp_id, u.first_name || ' ' || COALESCE(u.last_name, '') as emp_name,
              u.status AS emp_status, u.user_role AS emp_role,
              manager.first_name || ' ' || COALESCE(manager.last_name, '') as manager_name,
@@ -903,14 +1009,14 @@ export const getLeaveRequestById = async (requestId: number, userId: number, use
       LEFT JOIN users sa ON lr.super_admin_approved_by = sa.id
       WHERE lr.id = $1 
       AND (
-           $3 = 'super_admin'             -- Super Admin sees all
+           $3                             -- leave.approve_any sees all
         OR lr.employee_id = $2            -- It's my own request
         OR u.reporting_manager_id = $2    -- I am Direct Manager (L1)
         OR l1.reporting_manager_id = $2   -- I am Manager's Manager (L2/HR)
         OR l2.reporting_manager_id = $2   -- I am HR's Manager (L3/Super Admin)
       )
     `;
-    params = [requestId, userId, userRole];
+    params = [requestId, userId, await hasPermission(userRole || '', 'leave.approve_any')];
   } else {
     // Regular employees can only view their own
     query = `SELECT lr.id, lr.leave_type, lr.start_date, lr.start_type, lr.end_date, lr.end_type, 
@@ -918,7 +1024,7 @@ export const getLeaveRequestById = async (requestId: number, userId: number, use
             lr.applied_date,
             lr.current_status, lr.employee_id, lr.doctor_note,
             lr.manager_approval_comment, lr.hr_approval_comment, lr.super_admin_approval_comment,
-            lr.manager_approval_date, lr.hr_approval_date, lr.super_admin_approval_date,
+            lr.manager_approval_date, lr.hr_approval_date, lr.super_admin_approval_date, lr.auto_approved_at,
             u.emp_id, u.first_name || ' ' || COALESCE(u.last_name, '') as emp_name,
             u.status AS emp_status, u.user_role AS emp_role,
             manager.first_name || ' ' || COALESCE(manager.last_name, '') as manager_name,
@@ -977,14 +1083,12 @@ export const getLeaveRequestById = async (requestId: number, userId: number, use
   // Sort descending
   dates.sort((a, b) => b.date - a.date);
 
-  if (dates[0].date > 0) {
-    if (row.super_admin_approval_comment?.startsWith('Auto-approved')) {
-      approverName = 'Auto Approved';
-      approverRole = 'System';
-    } else {
-      approverName = dates[0].name;
-      approverRole = dates[0].role;
-    }
+  if (row.auto_approved_at) {
+    approverName = 'Auto Approved';
+    approverRole = 'System';
+  } else if (dates[0].date > 0) {
+    approverName = dates[0].name;
+    approverRole = dates[0].role;
   }
 
   // Get leave days for this request
@@ -998,11 +1102,20 @@ export const getLeaveRequestById = async (requestId: number, userId: number, use
     logger.info(`[LEAVE] [GET LEAVE REQUEST BY ID] Day ID: ${d.id}, Date: ${d.leave_date}, Status: ${d.day_status}`);
   });
 
+  // Weekdays, holiday calendar and claimed floating holidays of the employee, so approvers
+  // editing dates see the same days off
+  const workSchedule = await getEmployeeSchedule(row.employee_id);
+  const holidayCalendarId = await getEmployeeCalendarId(row.employee_id);
+  const floatingHolidayIds = await getApprovedHolidayIds(row.employee_id);
+
   return {
     id: row.id,
     empId: row.emp_id,
     empName: row.emp_name,
     empStatus: row.emp_status,
+    empWorkingDays: workSchedule.workingDays,
+    empHolidayCalendarId: holidayCalendarId,
+    empFloatingHolidayIds: floatingHolidayIds,
     appliedDate: formatDate(row.applied_date),
     noOfDays: daysResult.rows.reduce((acc: number, d: any) => acc + (d.day_type === 'half' ? 0.5 : 1), 0),
     currentStatus: row.current_status,
@@ -1071,30 +1184,20 @@ export const updateLeaveRequest = async (
 
   const employeeRole = checkResult.rows[0].employee_role;
 
-  // HR and Super Admin can edit any leave (approved, rejected, etc.)
+  // Holders of leave.manage can edit any leave (approved, rejected, etc.)
   // Regular users can only edit pending leaves
-  const canEdit = currentStatus === 'pending' || userRole === 'hr' || userRole === 'super_admin';
+  const canManage = await hasPermission(userRole, 'leave.manage');
+  const canEdit = currentStatus === 'pending' || canManage;
 
   if (!canEdit) {
     throw new Error('Only pending leave requests can be edited');
   }
 
-  // STRICT HIERARCHY VALIDATION for Edit
-  if (userRole !== 'super_admin' && userRole !== 'hr' && !belongsToUser) {
-    // Only SA, HR, and Employee (own) can edit usually. 
-    // But strictly, anyone in the chain should be able to edit pending leaves if they have permissions.
-    // However, legacy logic suggests mostly employee/admin. 
-    // Let's stick to the plan: "Apply the same L1/L2/L3 visibility check to restrict viewing/editing".
-
-    // Actually, for UPDATE, usually only the employee updates their request or an admin/manager fixes it.
-    // If userRole is manager/hr/super_admin, we check if they are in the chain.
-  }
-
   // Permissions Check
-  if (userRole === 'super_admin') {
-    // SA can edit ANY request (except own, but canEdit check handles pending)
-  } else if (userRole === 'hr' && !belongsToUser) {
-    // HR: L1/L2 + Role Filter
+  if (await hasPermission(userRole, 'leave.approve_any')) {
+    // Can edit ANY request (except own, but canEdit check handles pending)
+  } else if (canManage && !belongsToUser) {
+    // leave.manage: L1/L2 + Role Filter
     const permissionCheck = await pool.query(
       `SELECT 1 
        FROM users u
@@ -1110,7 +1213,8 @@ export const updateLeaveRequest = async (
     if (permissionCheck.rows.length === 0) {
       throw new Error('You do not have permission to edit this leave request');
     }
-  } else if (userRole === 'manager' && !belongsToUser) {
+  } else if (!belongsToUser) {
+    // Everyone else: their direct reports only
     const permissionCheck = await pool.query(
       `SELECT 1 FROM users WHERE id = $1 AND reporting_manager_id = $2`,
       [checkResult.rows[0].employee_id, userId]
@@ -1118,8 +1222,6 @@ export const updateLeaveRequest = async (
     if (permissionCheck.rows.length === 0) {
       throw new Error('You do not have permission to edit this leave request');
     }
-  } else if (!belongsToUser) {
-    throw new Error('You do not have permission to edit this leave request');
   }
 
   // Parse dates in local timezone to avoid timezone shift issues
@@ -1144,23 +1246,19 @@ export const updateLeaveRequest = async (
   startDate.setHours(0, 0, 0, 0);
   endDate.setHours(0, 0, 0, 0);
 
-  // Validation: Cannot select weekends (Saturday = 6, Sunday = 0)
+  // Validation: Cannot select days outside the employee's work schedule
   // EXCEPTION: LOP leaves can start/end on weekends
+  const workSchedule = await getEmployeeSchedule(employeeId);
+  const holidayCalendarId = await getEmployeeCalendarId(employeeId);
   if (leaveData.leaveType !== 'lop') {
     const startDayOfWeek = startDate.getDay();
     const endDayOfWeek = endDate.getDay();
 
-    const isWeekendCheck = (day: number) => {
-      return day === 0 || (day === 6 && employeeRole !== 'intern');
-    };
-
-    if (isWeekendCheck(startDayOfWeek)) {
-      const dayName = startDayOfWeek === 0 ? 'Sunday' : 'Saturday';
-      throw new Error(`Cannot select ${dayName} as start date. Please select a working day.`);
+    if (!isWorkingDay(workSchedule, startDate)) {
+      throw new Error(`Cannot select ${DAY_NAMES[startDayOfWeek]} as start date. Please select a working day.`);
     }
-    if (isWeekendCheck(endDayOfWeek)) {
-      const dayName = endDayOfWeek === 0 ? 'Sunday' : 'Saturday';
-      throw new Error(`Cannot select ${dayName} as end date. Please select a working day.`);
+    if (!isWorkingDay(workSchedule, endDate)) {
+      throw new Error(`Cannot select ${DAY_NAMES[endDayOfWeek]} as end date. Please select a working day.`);
     }
   }
 
@@ -1212,20 +1310,30 @@ export const updateLeaveRequest = async (
   const holidayStartYear = startDate.getFullYear();
   const holidayEndYear = endDate.getFullYear();
   let holidaysQuery: string;
-  let holidaysParams: number[];
+  let holidaysParams: (number | null)[];
 
+  // Holidays come from the employee's calendar; optional holidays are working days
+  // unless the employee has an approved floating holiday claim for them
   if (holidayStartYear === holidayEndYear) {
     holidaysQuery = `SELECT holiday_date, holiday_name FROM holidays 
-                     WHERE is_active = true 
+                     WHERE is_active = true
+                     AND (is_optional = false OR id IN (
+                       SELECT holiday_id FROM floating_holiday_claims WHERE employee_id = $3 AND status = 'approved'
+                     ))
+                     AND calendar_id = $2
                      AND EXTRACT(YEAR FROM holiday_date) = $1
                      ORDER BY holiday_date`;
-    holidaysParams = [holidayStartYear];
+    holidaysParams = [holidayStartYear, holidayCalendarId, employeeId];
   } else {
     holidaysQuery = `SELECT holiday_date, holiday_name FROM holidays 
-                     WHERE is_active = true 
+                     WHERE is_active = true
+                     AND (is_optional = false OR id IN (
+                       SELECT holiday_id FROM floating_holiday_claims WHERE employee_id = $4 AND status = 'approved'
+                     ))
+                     AND calendar_id = $3
                      AND (EXTRACT(YEAR FROM holiday_date) = $1 OR EXTRACT(YEAR FROM holiday_date) = $2)
                      ORDER BY holiday_date`;
-    holidaysParams = [holidayStartYear, holidayEndYear];
+    holidaysParams = [holidayStartYear, holidayEndYear, holidayCalendarId, employeeId];
   }
 
   const holidaysResult = await pool.query(holidaysQuery, holidaysParams);
@@ -1299,7 +1407,9 @@ export const updateLeaveRequest = async (
       normalizedStartType as 'full' | 'half',
       normalizedEndType as 'full' | 'half',
       leaveData.leaveType,
-      employeeRole
+      workSchedule.workingDays,
+      holidayCalendarId,
+      employeeId
     );
 
     for (const requestedDay of requestedLeaveDays) {
@@ -1356,7 +1466,9 @@ export const updateLeaveRequest = async (
     normalizedStartType as 'full' | 'half',
     normalizedEndType as 'full' | 'half',
     leaveData.leaveType,
-    employeeRole
+    workSchedule.workingDays,
+    holidayCalendarId,
+    employeeId
   );
 
   // Require timings for permission
@@ -1384,8 +1496,11 @@ export const updateLeaveRequest = async (
     }
   }
 
-  // For all leave types except permission, enforce available balance > 0 and sufficient for requested days
-  if (leaveData.leaveType !== 'permission') {
+  const leaveTypeInfo = await assertLeaveTypeAvailable(leaveData.leaveType, employeeRole);
+  const oldLeaveTypeInfo = await getLeaveTypeByCode(oldLeaveType);
+
+  // For all balance-carrying leave types, enforce available balance > 0 and sufficient for requested days
+  if (leaveTypeInfo.requires_balance) {
     const balances = await getLeaveBalances(employeeId);
     let requestedDays = days; // Default to calculated days
     let availableBalance = 0;
@@ -1398,9 +1513,7 @@ export const updateLeaveRequest = async (
     const originalRequest = originalRequestResult.rows[0];
 
     // Determine the relevant balance
-    if (leaveData.leaveType === 'casual') availableBalance = Number(balances.casual);
-    else if (leaveData.leaveType === 'sick') availableBalance = Number(balances.sick);
-    else if (leaveData.leaveType === 'lop') availableBalance = Number(balances.lop);
+    availableBalance = Number(balances[leaveData.leaveType] || 0);
 
     // If we are updating the SAME leave type, valid available balance = current + old days
     // (Because the old days will be refunded when this update succeeds)
@@ -1432,25 +1545,13 @@ export const updateLeaveRequest = async (
     // Update balances: Refund old days and Deduct new days
     // 1. Refund old balance (if not permission AND not rejected)
     // If status is rejected, the balance was already refunded (or never deducted), so don't refund again
-    if (oldLeaveType !== 'permission' && currentStatus !== 'rejected') {
-      const oldBalanceColumn = oldLeaveType === 'casual' ? 'casual_balance' : oldLeaveType === 'sick' ? 'sick_balance' : 'lop_balance';
-      await client.query(`UPDATE leave_balances SET ${oldBalanceColumn} = ${oldBalanceColumn} + $1 WHERE employee_id = $2`, [oldDays, employeeId]);
+    if (oldLeaveTypeInfo?.requires_balance && currentStatus !== 'rejected') {
+      await adjustBalance(client, employeeId, oldLeaveType, oldDays, { actorId: userId, transactionType: 'refund', leaveRequestId: requestId, source: 'leave_update' });
     }
 
-    // 2. Deduct new balance (if not permission)
-    if (leaveData.leaveType !== 'permission') {
-      const newBalanceColumn = leaveData.leaveType === 'casual' ? 'casual_balance' : leaveData.leaveType === 'sick' ? 'sick_balance' : 'lop_balance';
-      try {
-        await client.query(`UPDATE leave_balances SET ${newBalanceColumn} = ${newBalanceColumn} - $1 WHERE employee_id = $2`, [days, employeeId]);
-      } catch (err: any) {
-        if (err.code === '23514' || (err.message && err.message.includes('check_'))) {
-          if (err.constraint === 'check_casual_non_negative' || (err.message && err.message.includes('check_casual_non_negative'))) {
-            throw new Error('No casual leave balance to update');
-          }
-          throw new Error(`Insufficient ${leaveData.leaveType} leave balance`);
-        }
-        throw err;
-      }
+    // 2. Deduct new balance (if the type carries one)
+    if (leaveTypeInfo.requires_balance) {
+      await deductBalance(client, employeeId, leaveData.leaveType, days, { actorId: userId, leaveRequestId: requestId, source: 'leave_update' });
     }
 
     // Format dates as YYYY-MM-DD for database
@@ -1501,6 +1602,9 @@ export const updateLeaveRequest = async (
       );
     }
 
+    // The edited request goes back through approval from the first stage
+    await initializeApprovalStages(client, requestId, employeeId, leaveData.leaveType, days);
+
     await client.query('COMMIT');
 
     // Special Async Block for Email - Send confirmation after update
@@ -1514,7 +1618,7 @@ export const updateLeaveRequest = async (
 
         const hierarchyResult = await pool.query(`
           SELECT 
-            l1.email as l1_email, l1.first_name || ' ' || COALESCE(l1.last_name, '') as l1_name,
+            l1.id as l1_id, l1.email as l1_email, l1.first_name || ' ' || COALESCE(l1.last_name, '') as l1_name,
             l2.email as l2_email, l2.first_name || ' ' || COALESCE(l2.last_name, '') as l2_name
           FROM users u
           LEFT JOIN users l1 ON u.reporting_manager_id = l1.id
@@ -1524,11 +1628,13 @@ export const updateLeaveRequest = async (
 
         const chain = hierarchyResult.rows[0];
         const appliedDate = new Date().toISOString().split('T')[0];
+        // An absent manager's delegate receives the request instead
+        const delegate = await getActiveDelegate(chain.l1_id);
 
         const emailData = {
           employeeName: userData.name,
           employeeEmpId: userData.emp_id,
-          managerName: chain.l1_name || 'Reporting Manager',
+          managerName: delegate?.delegateEmail ? delegate.delegateName : chain.l1_name || 'Reporting Manager',
           leaveType: leaveData.leaveType,
           startDate: checkStartDateStr,
           startType: leaveData.startType,
@@ -1542,7 +1648,7 @@ export const updateLeaveRequest = async (
           appliedDate
         };
 
-        const toEmail = chain.l1_email;
+        const toEmail = delegate?.delegateEmail || chain.l1_email;
         if (toEmail) {
           await sendLeaveApplicationEmail(toEmail, emailData, undefined);
         }
@@ -1590,8 +1696,8 @@ export const deleteLeaveRequest = async (requestId: number, userId: number, user
   const belongsToUser = employeeId === userId;
   const currentStatus = checkResult.rows[0].current_status;
 
-  // Authorization: Super Admin and HR can delete any leave, others can only delete their own
-  if (userRole !== 'super_admin' && userRole !== 'hr' && !belongsToUser) {
+  // Authorization: holders of leave.manage can delete any leave, others can only delete their own
+  if (!belongsToUser && !(await hasPermission(userRole || '', 'leave.manage'))) {
     throw new Error('You do not have permission to delete this leave request');
   }
 
@@ -1619,51 +1725,7 @@ export const deleteLeaveRequest = async (requestId: number, userId: number, user
       let daysToRefund = parseFloat(daysResult.rows[0].total_days || '0');
 
       if (daysToRefund > 0) {
-        const balanceColumn =
-          leave_type === 'casual'
-            ? 'casual_balance'
-            : leave_type === 'sick'
-              ? 'sick_balance'
-              : 'lop_balance';
-
-        // For LOP, check if refund would exceed 10 and cap it
-        if (leave_type === 'lop') {
-          const currentBalanceResult = await client.query(
-            'SELECT lop_balance FROM leave_balances WHERE employee_id = $1',
-            [employeeId]
-          );
-          const currentLop = parseFloat(currentBalanceResult.rows[0]?.lop_balance || '0') || 0;
-          const newLopBalance = currentLop + daysToRefund;
-
-          if (newLopBalance > 10) {
-            const cappedRefund = 10 - currentLop;
-            if (cappedRefund > 0) {
-              await client.query(
-                `UPDATE leave_balances SET lop_balance = 10 WHERE employee_id = $1`,
-                [employeeId]
-              );
-              logger.warn(
-                `[DELETE LEAVE REQUEST] LOP balance would exceed 10. Current: ${currentLop}, Refunding: ${daysToRefund}, Would be: ${newLopBalance}. Capped at 10 (refunded ${cappedRefund} instead of ${daysToRefund}).`
-              );
-            } else {
-              logger.warn(
-                `[DELETE LEAVE REQUEST] LOP balance already at or above 10. Current: ${currentLop}. Cannot refund ${daysToRefund} days.`
-              );
-            }
-          } else {
-            await client.query(
-              `UPDATE leave_balances SET lop_balance = lop_balance + $1 WHERE employee_id = $2`,
-              [daysToRefund, employeeId]
-            );
-          }
-        } else {
-          await client.query(
-            `UPDATE leave_balances 
-           SET ${balanceColumn} = ${balanceColumn} + $1
-           WHERE employee_id = $2`,
-            [daysToRefund, employeeId]
-          );
-        }
+        await refundBalance(client, employeeId, leave_type, daysToRefund, { actorId: userId, leaveRequestId: requestId, source: 'leave_deletion' });
       }
     }
 
@@ -1705,6 +1767,17 @@ export const deleteLeaveRequest = async (requestId: number, userId: number, user
   }
 };
 
+/**
+ * Visibility of pending requests for an approver without leave.approve_any; $2 holds the
+ * managers they approve for (themselves plus anyone who delegated to them)
+ */
+const pendingScopeCondition = (decidesHrStage: boolean) => {
+  const atManagerStage = `(u.reporting_manager_id = ANY($2) AND COALESCE(${CURRENT_STAGE_ROLE_SQL}, 'manager') = 'manager')`;
+  return decidesHrStage
+    ? `(${atManagerStage} OR ${CURRENT_STAGE_ROLE_SQL} = 'hr')`
+    : atManagerStage;
+};
+
 export const getPendingLeaveRequests = async (
   approverId: number,
   approverRole: string,
@@ -1722,6 +1795,13 @@ export const getPendingLeaveRequests = async (
   const normalizedRole = approverRole?.toLowerCase().trim();
   logger.info(`[LEAVE] [GET PENDING] Normalized Role: '${normalizedRole}' (Original: '${approverRole}')`);
 
+  const canApproveAny = await hasPermission(normalizedRole, 'leave.approve_any');
+  const decidesHrStage = await hasPermission(normalizedRole, 'leave.approve_hr_stage');
+
+  // Managers who delegated their approvals to this approver (explicitly or while on leave)
+  const delegatorIds = canApproveAny ? [] : await getDelegatorIds(approverId);
+  const managerIds = [approverId, ...delegatorIds];
+
   // Build query based on role
   // Removed DISTINCT as lr.id is primary key and joins are 1:1, improving query execution time
   let query = `
@@ -1734,7 +1814,9 @@ export const getPendingLeaveRequests = async (
            lr.manager_approved_by, lr.hr_approved_by, lr.super_admin_approved_by,
            manager.first_name || ' ' || COALESCE(manager.last_name, '') AS manager_approver_name,
            hr.first_name || ' ' || COALESCE(hr.last_name, '') AS hr_approver_name,
-           super_admin.first_name || ' ' || COALESCE(super_admin.last_name, '') AS super_admin_approver_name
+           super_admin.first_name || ' ' || COALESCE(super_admin.last_name, '') AS super_admin_approver_name,
+           ${CURRENT_STAGE_ROLE_SQL} AS current_stage_role,
+           l1.first_name || ' ' || COALESCE(l1.last_name, '') AS reporting_manager_name
     FROM leave_requests lr
     JOIN users u ON lr.employee_id = u.id
     LEFT JOIN users manager ON manager.id = lr.manager_approved_by
@@ -1746,18 +1828,17 @@ export const getPendingLeaveRequests = async (
 
   const params: any[] = [];
 
-  // SUPER ADMIN: Global Visibility (All leaves except own)
-  if (normalizedRole === 'super_admin') {
+  // leave.approve_any: Global Visibility (All leaves except own)
+  if (canApproveAny) {
     query += ` AND lr.employee_id != $1`;
     params.push(approverId);
   }
-  // HR & MANAGER: Strict Hierarchy (L1 only) - Can only approve their direct reports
-  else if (normalizedRole === 'hr' || normalizedRole === 'manager') {
-    query += ` AND u.reporting_manager_id = $1 AND lr.employee_id != $1`;
-    params.push(approverId);
-  } else {
-    // Should not happen for approvers, but safety net
-    return { requests: [], pagination: { page, limit, total: 0 } };
+  // Everyone else: Strict Hierarchy (L1 only) - Can only approve their direct reports,
+  // and only while the request is at its manager stage. HR-stage deciders additionally
+  // see every request currently awaiting the HR stage of its approval workflow.
+  else {
+    query += ` AND ${pendingScopeCondition(decidesHrStage)} AND lr.employee_id != $1`;
+    params.push(approverId, managerIds);
   }
 
   if (search) {
@@ -1827,6 +1908,7 @@ export const getPendingLeaveRequests = async (
   // Batch fetch leave days for all request IDs to avoid N+1 query problem
   const requestIds = filteredRows.map(r => r.id);
   const daysMap = new Map<number, any[]>();
+  const stagesMap = await getApprovalStagesForRequests(requestIds);
 
   if (requestIds.length > 0) {
     const daysResult = await pool.query(
@@ -1926,6 +2008,9 @@ export const getPendingLeaveRequests = async (
         rejectionReason,
         approverName,
         approverRole,
+        approvalStages: stagesMap.get(row.id) || [],
+        currentStage: row.current_stage_role || null,
+        delegatedFrom: delegatorIds.includes(Number(row.reporting_manager_id)) ? row.reporting_manager_name?.trim() || null : null,
         leaveDays: days.map(d => ({
           id: d.id,
           date: formatDate(d.leave_date),
@@ -1957,15 +2042,15 @@ export const getPendingLeaveRequests = async (
   `;
   const countParams: any[] = [];
 
-  // SUPER ADMIN: Global Visibility
-  if (normalizedRole === 'super_admin') {
+  // leave.approve_any: Global Visibility
+  if (canApproveAny) {
     countQuery += ` AND lr.employee_id != $1`;
     countParams.push(approverId);
   }
-  // HR & MANAGER: Strict Hierarchy (L1 only) - Match Main Query
-  else if (normalizedRole === 'hr' || normalizedRole === 'manager') {
-    countQuery += ` AND u.reporting_manager_id = $1 AND lr.employee_id != $1`;
-    countParams.push(approverId);
+  // Everyone else: Strict Hierarchy (L1 only) - Match Main Query
+  else {
+    countQuery += ` AND ${pendingScopeCondition(decidesHrStage)} AND lr.employee_id != $1`;
+    countParams.push(approverId, managerIds);
   }
 
   if (search) {
@@ -1990,6 +2075,67 @@ export const getPendingLeaveRequests = async (
   };
 };
 
+/**
+ * Approver name for status emails, e.g. "Priya Shah (on behalf of Arjun Rao)"
+ */
+const describeApprover = (approverName: string | null, onBehalfOf?: { id: number; name: string } | null) => {
+  const name = approverName || 'Approver';
+  return onBehalfOf ? `${name} (on behalf of ${onBehalfOf.name})` : name;
+};
+
+/**
+ * Throw unless the approver may decide this request: their direct reports' (or those of a
+ * manager they stand in for), anyone's with leave.approve_any, or any request with open
+ * approval stages, which the workflow then authorizes stage by stage. Nobody decides their own.
+ */
+const assertCanDecideLeave = async (
+  leaveRequestId: number,
+  approverId: number,
+  approverRole: string,
+  employeeId: number,
+  reportingManagerId: number,
+  action: 'approve' | 'reject'
+) => {
+  if (employeeId === approverId) {
+    throw new Error(`Cannot ${action} your own leave request`);
+  }
+  if (reportingManagerId === approverId) return;
+
+  const hasOpenStages = (await getApprovalStages(pool, leaveRequestId)).some((stage) => stage.status === 'pending');
+  if (hasOpenStages || await hasPermission(approverRole, 'leave.approve_any')) return;
+  throw new Error(`Not authorized to ${action} this leave`);
+};
+
+/**
+ * Audit an approval/rejection once its transaction has committed
+ */
+const auditLeaveDecision = async (
+  action: string,
+  leaveRequestId: number,
+  approverId: number,
+  previousStatus: string,
+  details: Record<string, any>,
+  onBehalfOf?: { id: number; name: string } | null
+) => {
+  try {
+    const current = await pool.query('SELECT current_status FROM leave_requests WHERE id = $1', [leaveRequestId]);
+    await recordAudit({
+      userId: approverId,
+      action,
+      entityType: 'leave_request',
+      entityId: leaveRequestId,
+      oldValues: { status: previousStatus },
+      newValues: {
+        status: current.rows[0]?.current_status ?? null,
+        ...details,
+        ...(onBehalfOf ? { onBehalfOfId: onBehalfOf.id, onBehalfOf: onBehalfOf.name } : {})
+      }
+    });
+  } catch (error: any) {
+    logger.error(`[LEAVE] [AUDIT] Failed to audit ${action} for request ${leaveRequestId}: ${error.message}`);
+  }
+};
+
 export const approveLeave = async (
   leaveRequestId: number,
   approverId: number,
@@ -2029,8 +2175,8 @@ export const approveLeave = async (
 
   const leave = leaveResult.rows[0];
 
-  // Block if previously updated by Super Admin (unless Super Admin is updating)
-  if (leave.last_updated_by_role === 'super_admin' && approverRole !== 'super_admin') {
+  // Block if previously overridden by Super Admin (unless the approver may override too)
+  if (leave.last_updated_by_role === 'super_admin' && !(await hasPermission(approverRole, 'leave.approve_any'))) {
     throw new Error('Action blocked: Cannot modify a request handled by Super Admin');
   }
 
@@ -2044,31 +2190,50 @@ export const approveLeave = async (
   const employeeId = Number(leave.employee_id);
   const approverIdNum = Number(approverId);
 
-  // Prevent self-approval
-  if (employeeId === approverIdNum) {
-    throw new Error('Cannot approve your own leave request');
-  }
+  // A delegate standing in for an absent reporting manager acts with the manager's authority
+  const onBehalfOf = await getOnBehalfOf(approverIdNum, leave.reporting_manager_id);
+  const reportingManagerId = onBehalfOf ? approverIdNum : Number(leave.reporting_manager_id);
 
-  // Check authorization
-  // Super Admin: Global
-  if (approverRole === 'super_admin') {
-    // Allowed
-  }
-  // HR & Manager: L1 Only (Direct Reports)
-  else if (approverRole === 'hr' || approverRole === 'manager') {
-    if (Number(leave.reporting_manager_id) !== approverIdNum) {
-      throw new Error('Not authorized to approve this leave');
-    }
-  } else {
-    throw new Error('Not authorized to approve leaves');
-  }
+  await assertCanDecideLeave(leaveRequestId, approverIdNum, approverRole, employeeId, reportingManagerId, 'approve');
+  const headerRole = await getHeaderColumnRole(approverRole);
 
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
 
+    // 0. Record the stage decision; stop here while later stages still have to approve
+    const stageResult = await advanceApproval(
+      client,
+      leaveRequestId,
+      { id: approverIdNum, role: approverRole },
+      employeeId,
+      reportingManagerId,
+      comment
+    );
+    if (stageResult.nextStage) {
+      const nextStage = stageResult.nextStage;
+      await client.query('COMMIT');
+      await auditLeaveDecision('APPROVE_STAGE', leaveRequestId, approverId, leave.current_status, {
+        comment: comment || null,
+        approvedStages: stageResult.approvedStages.map((stage) => stage.approverRole),
+        nextStage: nextStage.approverRole
+      }, onBehalfOf);
+      logger.info(`[APPROVE LEAVE] Request ${leaveRequestId} approved at ${approverRole} level, awaiting ${nextStage.approverRole} stage`);
+      notifyStageApprovers(leaveRequestId, nextStage);
+      return {
+        message: `Leave approved at this stage; awaiting ${describeStage(nextStage.approverRole)} approval`,
+        awaitingStage: nextStage.approverRole
+      };
+    }
+
     // 1. Update approval status header based on role
-    if (approverRole === 'manager' || approverRole === 'hr') {
+    if (stageResult.hasStages && headerRole !== 'super_admin') {
+      // Stage decisions were already copied onto the header
+      await client.query(
+        `UPDATE leave_requests SET current_status = 'approved' WHERE id = $1`,
+        [leaveRequestId]
+      );
+    } else if (headerRole !== 'super_admin') {
       await client.query(
         `UPDATE leave_requests 
          SET manager_approval_status = 'approved',
@@ -2082,7 +2247,7 @@ export const approveLeave = async (
          WHERE id = $3`,
         [comment || null, approverId, leaveRequestId]
       );
-    } else if (approverRole === 'super_admin') {
+    } else if (headerRole === 'super_admin') {
       await client.query(
         `UPDATE leave_requests 
          SET super_admin_approval_status = 'approved',
@@ -2138,6 +2303,7 @@ export const approveLeave = async (
     }
 
     await client.query('COMMIT');
+    await auditLeaveDecision('APPROVE', leaveRequestId, approverId, leave.current_status, { comment: comment || null }, onBehalfOf);
     logger.info(`[APPROVE LEAVE] Transaction committed successfully for request ${leaveRequestId}`);
 
     // Hook: Sync Timesheet immediately after approval (Restored from HEAD)
@@ -2171,13 +2337,13 @@ export const approveLeave = async (
       // Build CC list based on approver role
       const ccEmails: string[] = [];
 
-      if (approverRole === 'hr') {
+      if (headerRole === 'hr') {
         // HR approves → Employee (TO), Manager (CC)
         if (leave.manager_email && leave.manager_email !== leave.employee_email) {
           ccEmails.push(leave.manager_email);
         }
         logger.info(`[EMAIL] HR approval - sending email to employee (TO) with manager (CC)`);
-      } else if (approverRole === 'super_admin') {
+      } else if (headerRole === 'super_admin') {
         // Super Admin approves → Employee (TO), Manager and HR (CC)
         if (leave.manager_email && leave.manager_email !== leave.employee_email) {
           ccEmails.push(leave.manager_email);
@@ -2211,7 +2377,7 @@ export const approveLeave = async (
         endType: leave.end_type,
         noOfDays: noOfDays,
         reason: leave.reason,
-        approverName: leave.approver_name || 'Approver',
+        approverName: describeApprover(leave.approver_name, onBehalfOf),
         approverEmpId: leave.approver_emp_id || '',
         approverRole: approverRole,
         comment: comment || null,
@@ -2278,8 +2444,8 @@ export const rejectLeave = async (
     .filter((d) => d.day_status !== 'rejected')
     .reduce((acc, d) => acc + (d.day_type === 'half' ? 0.5 : 1), 0);
 
-  // Block if previously updated by Super Admin (unless Super Admin is updating)
-  if (leave.last_updated_by_role === 'super_admin' && approverRole !== 'super_admin') {
+  // Block if previously overridden by Super Admin (unless the approver may override too)
+  if (leave.last_updated_by_role === 'super_admin' && !(await hasPermission(approverRole, 'leave.approve_any'))) {
     throw new Error('Action blocked: Cannot modify a request handled by Super Admin');
   }
 
@@ -2287,25 +2453,27 @@ export const rejectLeave = async (
   const employeeId = Number(leave.employee_id);
   const approverIdNum = Number(approverId);
 
-  if (employeeId === approverIdNum) {
-    throw new Error('Cannot reject your own leave request');
-  }
+  // A delegate standing in for an absent reporting manager acts with the manager's authority
+  const onBehalfOf = await getOnBehalfOf(approverIdNum, leave.reporting_manager_id);
+  const reportingManagerId = onBehalfOf ? approverIdNum : Number(leave.reporting_manager_id);
 
-  // Check authorization based on role
-  if (approverRole === 'super_admin') {
-    // Allowed
-  } else if (approverRole === 'hr' || approverRole === 'manager') {
-    if (Number(leave.reporting_manager_id) !== approverIdNum) {
-      throw new Error('Not authorized to reject this leave');
-    }
-  } else {
-    throw new Error('Not authorized to reject leaves');
-  }
+  await assertCanDecideLeave(leaveRequestId, approverIdNum, approverRole, employeeId, reportingManagerId, 'reject');
+  const headerRole = await getHeaderColumnRole(approverRole);
 
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
 
+    // 0. A rejection at any stage ends the workflow
+    const stageResult = await rejectApproval(
+      client,
+      leaveRequestId,
+      { id: approverIdNum, role: approverRole },
+      employeeId,
+      reportingManagerId,
+      comment
+    );
+
     // 1. Mark all associated leave days as rejected
     await client.query(
       `UPDATE leave_days SET day_status = 'rejected' WHERE leave_request_id = $1`,
@@ -2313,7 +2481,17 @@ export const rejectLeave = async (
     );
 
     // 2. Update rejection status in header based on role
-    if (approverRole === 'manager' || approverRole === 'hr') {
+    if (stageResult.hasStages && headerRole !== 'super_admin') {
+      // Stage decision was already copied onto the header
+      await client.query(
+        `UPDATE leave_requests
+         SET current_status = 'rejected',
+             last_updated_by = $1,
+             last_updated_by_role = $2
+         WHERE id = $3`,
+        [approverId, headerRole, leaveRequestId]
+      );
+    } else if (headerRole !== 'super_admin') {
       await client.query(
         `UPDATE leave_requests 
          SET manager_approval_status = 'rejected',
@@ -2327,9 +2505,9 @@ export const rejectLeave = async (
              last_updated_by = $2,
              last_updated_by_role = $3
          WHERE id = $4`,
-        [comment, approverId, approverRole, leaveRequestId]
+        [comment, approverId, headerRole, leaveRequestId]
       );
-    } else if (approverRole === 'super_admin') {
+    } else if (headerRole === 'super_admin') {
       await client.query(
         `UPDATE leave_requests 
          SET super_admin_approval_status = 'rejected',
@@ -2346,45 +2524,12 @@ export const rejectLeave = async (
 
     // 3. Process refunds (only for days not already rejected)
     if (leave.leave_type !== 'permission' && refundDays > 0) {
-      const balanceColumn =
-        leave.leave_type === 'casual'
-          ? 'casual_balance'
-          : leave.leave_type === 'sick'
-            ? 'sick_balance'
-            : 'lop_balance';
-
-      if (leave.leave_type === 'lop') {
-        const currentBalanceResult = await client.query(
-          'SELECT lop_balance FROM leave_balances WHERE employee_id = $1',
-          [leave.employee_id]
-        );
-        const currentLop = parseFloat(currentBalanceResult.rows[0]?.lop_balance || '0') || 0;
-        let newLopBalance = currentLop + refundDays;
-
-        if (newLopBalance > 10) {
-          const cappedRefund = 10 - currentLop;
-          if (cappedRefund > 0) {
-            await client.query(
-              `UPDATE leave_balances SET lop_balance = 10 WHERE employee_id = $1`,
-              [leave.employee_id]
-            );
-          }
-        } else {
-          await client.query(
-            `UPDATE leave_balances SET lop_balance = lop_balance + $1 WHERE employee_id = $2`,
-            [refundDays, leave.employee_id]
-          );
-        }
-      } else {
-        await client.query(
-          `UPDATE leave_balances SET ${balanceColumn} = ${balanceColumn} + $1 WHERE employee_id = $2`,
-          [refundDays, leave.employee_id]
-        );
-      }
+      await refundBalance(client, leave.employee_id, leave.leave_type, refundDays, { actorId: approverId, leaveRequestId, source: 'leave_rejection' });
       logger.info(`[REJECT LEAVE] Refunded ${refundDays} days to employee ${leave.employee_id}`);
     }
 
     await client.query('COMMIT');
+    await auditLeaveDecision('REJECT', leaveRequestId, approverId, leave.current_status, { comment }, onBehalfOf);
     logger.info(`[REJECT LEAVE] Transaction committed successfully for request ${leaveRequestId}`);
   } catch (error: any) {
     await client.query('ROLLBACK');
@@ -2412,13 +2557,13 @@ export const rejectLeave = async (
       // Build CC list based on approver role
       const ccEmails: string[] = [];
 
-      if (approverRole === 'hr') {
+      if (headerRole === 'hr') {
         // HR rejects → Employee (TO), Manager (CC)
         if (leave.manager_email && leave.manager_email !== leave.employee_email) {
           ccEmails.push(leave.manager_email);
         }
         logger.info(`[EMAIL] HR rejection - sending email to employee (TO) with manager (CC)`);
-      } else if (approverRole === 'super_admin') {
+      } else if (headerRole === 'super_admin') {
         // Super Admin rejects → Employee (TO), Manager and HR (CC)
         if (leave.manager_email && leave.manager_email !== leave.employee_email) {
           ccEmails.push(leave.manager_email);
@@ -2450,7 +2595,7 @@ export const rejectLeave = async (
         endType: leave.end_type,
         noOfDays: calculatedNoOfDays,
         reason: leave.reason,
-        approverName: leave.approver_name || 'Approver',
+        approverName: describeApprover(leave.approver_name, onBehalfOf),
         approverEmpId: leave.approver_emp_id || '',
         approverRole: approverRole,
         comment: comment || null,
@@ -2562,32 +2707,16 @@ export const approveLeaveDay = async (
     throw new Error('Leave request is already approved');
   }
 
-  // Auth: manager -> direct reports; HR -> employee/manager; super_admin -> all
-  // CRITICAL: Prevent self-approval for HR and super_admin
   // Use Number() for consistent type comparison (PostgreSQL may return integers as strings in some cases)
   const employeeId = Number(leave.employee_id);
   const approverIdNum = Number(approverId);
 
-  if (approverRole === 'manager') {
-    if (Number(leave.reporting_manager_id) !== approverIdNum) {
-      throw new Error('Not authorized to approve this leave');
-    }
-  } else if (approverRole === 'hr') {
-    // HR cannot approve their own leave requests
-    if (employeeId === approverIdNum) {
-      throw new Error('Cannot approve your own leave request');
-    }
-    if (leave.employee_role !== 'employee' && leave.employee_role !== 'manager' && leave.employee_role !== 'intern') {
-      throw new Error('Not authorized to approve this leave');
-    }
-  } else if (approverRole === 'super_admin') {
-    // Super Admin cannot approve their own leave requests
-    if (employeeId === approverIdNum) {
-      throw new Error('Cannot approve your own leave request');
-    }
-  } else {
-    throw new Error('Not authorized to approve leaves');
-  }
+  // A delegate standing in for an absent reporting manager acts with the manager's authority
+  const onBehalfOf = await getOnBehalfOf(approverIdNum, leave.reporting_manager_id);
+  const reportingManagerId = onBehalfOf ? approverIdNum : Number(leave.reporting_manager_id);
+
+  await assertCanDecideLeave(leaveRequestId, approverIdNum, approverRole, employeeId, reportingManagerId, 'approve');
+  const headerRole = await getHeaderColumnRole(approverRole);
 
   const dayResult = await pool.query(
     'SELECT id, day_status, day_type FROM leave_days WHERE id = $1 AND leave_request_id = $2',
@@ -2598,6 +2727,9 @@ export const approveLeaveDay = async (
   }
   const currentDayStatus = dayResult.rows[0].day_status || 'pending';
 
+  // Approval workflow: the approver must be able to decide the current stage
+  await assertCanDecideDays(leaveRequestId, { id: approverIdNum, role: approverRole }, employeeId, reportingManagerId, 'approve');
+
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
@@ -2611,7 +2743,7 @@ export const approveLeaveDay = async (
     }
 
     // 2. Mark role-specific approval fields in header
-    if (approverRole === 'manager') {
+    if (headerRole === 'manager') {
       const updateResult = await client.query(
         `UPDATE leave_requests 
          SET manager_approval_status = 'approved',
@@ -2624,12 +2756,12 @@ export const approveLeaveDay = async (
            AND EXISTS (
              SELECT 1 FROM users u 
              WHERE u.id = (SELECT employee_id FROM leave_requests WHERE id = $3)
-             AND u.reporting_manager_id = $2
+             AND u.reporting_manager_id = $4
            )`,
-        [comment || null, approverId, leaveRequestId]
+        [comment || null, approverId, leaveRequestId, onBehalfOf?.id ?? approverId]
       );
       if (updateResult.rowCount === 0) throw new Error('Not authorized to approve this leave');
-    } else if (approverRole === 'hr') {
+    } else if (headerRole === 'hr') {
       await client.query(
         `UPDATE leave_requests 
          SET hr_approval_status = 'approved',
@@ -2641,7 +2773,7 @@ export const approveLeaveDay = async (
          WHERE id = $3`,
         [comment || null, approverId, leaveRequestId]
       );
-    } else if (approverRole === 'super_admin') {
+    } else if (headerRole === 'super_admin') {
       await client.query(
         `UPDATE leave_requests 
          SET super_admin_approval_status = 'approved',
@@ -2691,7 +2823,11 @@ export const approveLeaveDay = async (
       );
     }
 
+    // Close the workflow once every day has been decided
+    await syncStagesWithDays(client, leaveRequestId, approverIdNum, comment);
+
     await client.query('COMMIT');
+    await auditLeaveDecision('APPROVE_DAY', leaveRequestId, approverId, leave.current_status, { dayId, comment: comment || null }, onBehalfOf);
     logger.info(`[APPROVE LEAVE DAY] Transaction committed successfully for request ${leaveRequestId}`);
   } catch (error: any) {
     await client.query('ROLLBACK');
@@ -2719,13 +2855,13 @@ export const approveLeaveDay = async (
       // Build CC list based on approver role
       const ccEmails: string[] = [];
 
-      if (approverRole === 'hr') {
+      if (headerRole === 'hr') {
         // HR approves → Employee (TO), Manager (CC)
         if (leave.manager_email && leave.manager_email !== leave.employee_email) {
           ccEmails.push(leave.manager_email);
         }
         logger.info(`[EMAIL] HR day approval - sending email to employee (TO) with manager (CC)`);
-      } else if (approverRole === 'super_admin') {
+      } else if (headerRole === 'super_admin') {
         // Super Admin approves → Employee (TO), Manager and HR (CC)
         if (leave.manager_email && leave.manager_email !== leave.employee_email) {
           ccEmails.push(leave.manager_email);
@@ -2757,7 +2893,7 @@ export const approveLeaveDay = async (
         endType: leave.end_type,
         noOfDays: calculatedNoOfDays,
         reason: leave.reason,
-        approverName: leave.approver_name || 'Approver',
+        approverName: describeApprover(leave.approver_name, onBehalfOf),
         approverEmpId: leave.approver_emp_id || '',
         approverRole: approverRole,
         comment: comment || null,
@@ -2828,32 +2964,16 @@ export const approveLeaveDays = async (
     throw new Error('Leave request is already approved');
   }
 
-  // Auth: manager -> direct reports; HR -> employee/manager; super_admin -> all
-  // CRITICAL: Prevent self-approval for HR and super_admin
   // Use Number() for consistent type comparison (PostgreSQL may return integers as strings in some cases)
   const employeeId = Number(leave.employee_id);
   const approverIdNum = Number(approverId);
 
-  if (approverRole === 'manager') {
-    if (Number(leave.reporting_manager_id) !== approverIdNum) {
-      throw new Error('Not authorized to approve this leave');
-    }
-  } else if (approverRole === 'hr') {
-    // HR cannot approve their own leave requests
-    if (employeeId === approverIdNum) {
-      throw new Error('Cannot approve your own leave request');
-    }
-    if (leave.employee_role !== 'employee' && leave.employee_role !== 'manager' && leave.employee_role !== 'intern') {
-      throw new Error('Not authorized to approve this leave');
-    }
-  } else if (approverRole === 'super_admin') {
-    // Super Admin cannot approve their own leave requests
-    if (employeeId === approverIdNum) {
-      throw new Error('Cannot approve your own leave request');
-    }
-  } else {
-    throw new Error('Not authorized to approve leaves');
-  }
+  // A delegate standing in for an absent reporting manager acts with the manager's authority
+  const onBehalfOf = await getOnBehalfOf(approverIdNum, leave.reporting_manager_id);
+  const reportingManagerId = onBehalfOf ? approverIdNum : Number(leave.reporting_manager_id);
+
+  await assertCanDecideLeave(leaveRequestId, approverIdNum, approverRole, employeeId, reportingManagerId, 'approve');
+  const headerRole = await getHeaderColumnRole(approverRole);
 
   // Get all pending days for this request
   const allPendingDaysResult = await pool.query(
@@ -2888,6 +3008,9 @@ export const approveLeaveDays = async (
     // If all are already processed, we proceed to update the header anyway to ensure consistency
   }
 
+  // Approval workflow: the approver must be able to decide the current stage
+  await assertCanDecideDays(leaveRequestId, { id: approverIdNum, role: approverRole }, employeeId, reportingManagerId, 'approve');
+
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
@@ -2928,50 +3051,13 @@ export const approveLeaveDays = async (
         );
 
         if (refundAmount > 0) {
-          const balanceColumn =
-            leave.leave_type === 'casual'
-              ? 'casual_balance'
-              : leave.leave_type === 'sick'
-                ? 'sick_balance'
-                : 'lop_balance';
-
-          if (leave.leave_type === 'lop') {
-            const currentBalanceResult = await client.query(
-              'SELECT lop_balance FROM leave_balances WHERE employee_id = $1',
-              [leave.employee_id]
-            );
-            const currentLop = parseFloat(currentBalanceResult.rows[0]?.lop_balance || '0') || 0;
-            let newLopBalance = currentLop + refundAmount;
-
-            if (newLopBalance > 10) {
-              const cappedRefund = 10 - currentLop;
-              if (cappedRefund > 0) {
-                await client.query(
-                  `UPDATE leave_balances SET lop_balance = 10 WHERE employee_id = $1`,
-                  [leave.employee_id]
-                );
-                logger.warn(
-                  `[APPROVE LEAVE DAYS] Auto-reject LOP balance capped at 10. Refunded ${cappedRefund} instead of ${refundAmount}.`
-                );
-              }
-            } else {
-              await client.query(
-                `UPDATE leave_balances SET lop_balance = lop_balance + $1 WHERE employee_id = $2`,
-                [refundAmount, leave.employee_id]
-              );
-            }
-          } else {
-            await client.query(
-              `UPDATE leave_balances SET ${balanceColumn} = ${balanceColumn} + $1 WHERE employee_id = $2`,
-              [refundAmount, leave.employee_id]
-            );
-          }
+          await refundBalance(client, leave.employee_id, leave.leave_type, refundAmount, { actorId: approverId, leaveRequestId, source: 'leave_rejection' });
         }
       }
     }
 
     // 3. Mark role-specific approval fields in header
-    if (approverRole === 'manager') {
+    if (headerRole === 'manager') {
       const updateResult = await client.query(
         `UPDATE leave_requests
          SET manager_approval_status = 'approved',
@@ -2984,12 +3070,12 @@ export const approveLeaveDays = async (
            AND EXISTS (
              SELECT 1 FROM users u
              WHERE u.id = (SELECT employee_id FROM leave_requests WHERE id = $3)
-             AND u.reporting_manager_id = $2
+             AND u.reporting_manager_id = $4
            )`,
-        [comment || null, approverId, leaveRequestId]
+        [comment || null, approverId, leaveRequestId, onBehalfOf?.id ?? approverId]
       );
       if (updateResult.rowCount === 0) throw new Error('Not authorized to approve this leave');
-    } else if (approverRole === 'hr') {
+    } else if (headerRole === 'hr') {
       await client.query(
         `UPDATE leave_requests
          SET hr_approval_status = 'approved',
@@ -3001,7 +3087,7 @@ export const approveLeaveDays = async (
          WHERE id = $3`,
         [comment || null, approverId, leaveRequestId]
       );
-    } else if (approverRole === 'super_admin') {
+    } else if (headerRole === 'super_admin') {
       await client.query(
         `UPDATE leave_requests 
          SET super_admin_approval_status = 'approved',
@@ -3054,7 +3140,11 @@ export const approveLeaveDays = async (
       logger.info(`[APPROVE LEAVE DAYS] Header status synchronized to ${nextStatus} for request ${leaveRequestId}`);
     }
 
+    // Close the workflow once every day has been decided
+    await syncStagesWithDays(client, leaveRequestId, approverIdNum, comment);
+
     await client.query('COMMIT');
+    await auditLeaveDecision('APPROVE_DAYS', leaveRequestId, approverId, leave.current_status, { dayIds, comment: comment || null }, onBehalfOf);
   } catch (error) {
     await client.query('ROLLBACK');
     logger.error(`[APPROVE LEAVE DAYS] Transaction failed:`, error);
@@ -3092,13 +3182,13 @@ export const approveLeaveDays = async (
     // Build CC list based on approver role
     const ccEmails: string[] = [];
 
-    if (approverRole === 'hr') {
+    if (headerRole === 'hr') {
       // HR approves → Employee (TO), Manager (CC)
       if (leave.manager_email && leave.manager_email !== leave.employee_email) {
         ccEmails.push(leave.manager_email);
       }
       logger.info(`[EMAIL] HR days approval - sending email to employee (TO) with manager (CC)`);
-    } else if (approverRole === 'super_admin') {
+    } else if (headerRole === 'super_admin') {
       // Super Admin approves → Employee (TO), Manager and HR (CC)
       if (leave.manager_email && leave.manager_email !== leave.employee_email) {
         ccEmails.push(leave.manager_email);
@@ -3147,7 +3237,7 @@ export const approveLeaveDays = async (
       endType: leave.end_type,
       noOfDays: calculatedNoOfDays,
       reason: leave.reason,
-      approverName: leave.approver_name || 'Approver',
+      approverName: describeApprover(leave.approver_name, onBehalfOf),
       approverEmpId: leave.approver_emp_id || '',
       approverRole: approverRole,
       comment: comment || null,
@@ -3217,32 +3307,16 @@ export const rejectLeaveDay = async (
 
   const leave = leaveResult.rows[0];
 
-  // Auth: manager -> direct reports; HR -> employee/manager; super_admin -> all
-  // CRITICAL: Prevent self-rejection for HR and super_admin
   // Use Number() for consistent type comparison (PostgreSQL may return integers as strings in some cases)
   const employeeId = Number(leave.employee_id);
   const approverIdNum = Number(approverId);
 
-  if (approverRole === 'manager') {
-    if (Number(leave.reporting_manager_id) !== approverIdNum) {
-      throw new Error('Not authorized to reject this leave');
-    }
-  } else if (approverRole === 'hr') {
-    // HR cannot reject their own leave requests
-    if (employeeId === approverIdNum) {
-      throw new Error('Cannot reject your own leave request');
-    }
-    if (leave.employee_role !== 'employee' && leave.employee_role !== 'manager' && leave.employee_role !== 'intern') {
-      throw new Error('Not authorized to reject this leave');
-    }
-  } else if (approverRole === 'super_admin') {
-    // Super Admin cannot reject their own leave requests
-    if (employeeId === approverIdNum) {
-      throw new Error('Cannot reject your own leave request');
-    }
-  } else {
-    throw new Error('Not authorized to reject leaves');
-  }
+  // A delegate standing in for an absent reporting manager acts with the manager's authority
+  const onBehalfOf = await getOnBehalfOf(approverIdNum, leave.reporting_manager_id);
+  const reportingManagerId = onBehalfOf ? approverIdNum : Number(leave.reporting_manager_id);
+
+  await assertCanDecideLeave(leaveRequestId, approverIdNum, approverRole, employeeId, reportingManagerId, 'reject');
+  const headerRole = await getHeaderColumnRole(approverRole);
 
   const dayResult = await pool.query(
     'SELECT id, day_status, day_type FROM leave_days WHERE id = $1 AND leave_request_id = $2',
@@ -3254,6 +3328,9 @@ export const rejectLeaveDay = async (
   const existingStatus = dayResult.rows[0].day_status || 'pending';
   const dayType = dayResult.rows[0].day_type || 'full';
 
+  // Approval workflow: the approver must be able to decide the current stage
+  await assertCanDecideDays(leaveRequestId, { id: approverIdNum, role: approverRole }, employeeId, reportingManagerId, 'reject');
+
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
@@ -3268,46 +3345,12 @@ export const rejectLeaveDay = async (
       // 2. Refund balance for this rejected day (except permission)
       if (leave.leave_type !== 'permission') {
         const refund = dayType === 'half' ? 0.5 : 1;
-        const balanceColumn =
-          leave.leave_type === 'casual'
-            ? 'casual_balance'
-            : leave.leave_type === 'sick'
-              ? 'sick_balance'
-              : 'lop_balance';
-
-        if (leave.leave_type === 'lop') {
-          const currentBalanceResult = await client.query(
-            'SELECT lop_balance FROM leave_balances WHERE employee_id = $1',
-            [leave.employee_id]
-          );
-          const currentLop = parseFloat(currentBalanceResult.rows[0]?.lop_balance || '0') || 0;
-          let newLopBalance = currentLop + refund;
-
-          if (newLopBalance > 10) {
-            const cappedRefund = 10 - currentLop;
-            if (cappedRefund > 0) {
-              await client.query(
-                `UPDATE leave_balances SET lop_balance = 10 WHERE employee_id = $1`,
-                [leave.employee_id]
-              );
-            }
-          } else {
-            await client.query(
-              `UPDATE leave_balances SET lop_balance = lop_balance + $1 WHERE employee_id = $2`,
-              [refund, leave.employee_id]
-            );
-          }
-        } else {
-          await client.query(
-            `UPDATE leave_balances SET ${balanceColumn} = ${balanceColumn} + $1 WHERE employee_id = $2`,
-            [refund, leave.employee_id]
-          );
-        }
+        await refundBalance(client, leave.employee_id, leave.leave_type, refund, { actorId: approverId, leaveRequestId, source: 'leave_rejection' });
       }
     }
 
     // 3. Mark role-specific rejection fields in header
-    if (approverRole === 'manager') {
+    if (headerRole === 'manager') {
       const updateResult = await client.query(
         `UPDATE leave_requests 
          SET manager_approval_status = 'rejected',
@@ -3320,12 +3363,12 @@ export const rejectLeaveDay = async (
            AND EXISTS (
              SELECT 1 FROM users u 
              WHERE u.id = (SELECT employee_id FROM leave_requests WHERE id = $3)
-             AND u.reporting_manager_id = $2
+             AND u.reporting_manager_id = $4
            )`,
-        [comment || null, approverId, leaveRequestId]
+        [comment || null, approverId, leaveRequestId, onBehalfOf?.id ?? approverId]
       );
       if (updateResult.rowCount === 0) throw new Error('Not authorized to reject this leave');
-    } else if (approverRole === 'hr') {
+    } else if (headerRole === 'hr') {
       await client.query(
         `UPDATE leave_requests 
          SET hr_approval_status = 'rejected',
@@ -3337,7 +3380,7 @@ export const rejectLeaveDay = async (
          WHERE id = $3`,
         [comment || null, approverId, leaveRequestId]
       );
-    } else if (approverRole === 'super_admin') {
+    } else if (headerRole === 'super_admin') {
       await client.query(
         `UPDATE leave_requests 
          SET super_admin_approval_status = 'rejected',
@@ -3390,7 +3433,11 @@ export const rejectLeaveDay = async (
       logger.info(`[REJECT LEAVE DAY] Header status synchronized to ${nextStatus} for request ${leaveRequestId}`);
     }
 
+    // Close the workflow once every day has been decided
+    await syncStagesWithDays(client, leaveRequestId, approverIdNum, comment);
+
     await client.query('COMMIT');
+    await auditLeaveDecision('REJECT_DAY', leaveRequestId, approverId, leave.current_status, { dayId, comment }, onBehalfOf);
     logger.info(`[REJECT LEAVE DAY] Transaction committed successfully for request ${leaveRequestId}`);
   } catch (error: any) {
     await client.query('ROLLBACK');
@@ -3418,13 +3465,13 @@ export const rejectLeaveDay = async (
       // Build CC list based on approver role
       const ccEmails: string[] = [];
 
-      if (approverRole === 'hr') {
+      if (headerRole === 'hr') {
         // HR rejects → Employee (TO), Manager (CC)
         if (leave.manager_email && leave.manager_email !== leave.employee_email) {
           ccEmails.push(leave.manager_email);
         }
         logger.info(`[EMAIL] HR day rejection - sending email to employee (TO) with manager (CC)`);
-      } else if (approverRole === 'super_admin') {
+      } else if (headerRole === 'super_admin') {
         // Super Admin rejects → Employee (TO), Manager and HR (CC)
         if (leave.manager_email && leave.manager_email !== leave.employee_email) {
           ccEmails.push(leave.manager_email);
@@ -3450,7 +3497,7 @@ export const rejectLeaveDay = async (
         endType: leave.end_type,
         noOfDays: 1, // Single day rejected
         reason: leave.reason,
-        approverName: leave.approver_name || 'Approver',
+        approverName: describeApprover(leave.approver_name, onBehalfOf),
         approverEmpId: leave.approver_emp_id || '',
         approverRole: approverRole,
         comment: comment || null,
@@ -3517,25 +3564,12 @@ export const rejectLeaveDays = async (
   const employeeId = Number(leave.employee_id);
   const approverIdNum = Number(approverId);
 
-  // Authorization Checks
-  if (approverRole === 'manager') {
-    if (Number(leave.reporting_manager_id) !== approverIdNum) {
-      throw new Error('Not authorized to reject this leave');
-    }
-  } else if (approverRole === 'hr') {
-    if (employeeId === approverIdNum) {
-      throw new Error('Cannot reject your own leave request');
-    }
-    if (leave.employee_role !== 'employee' && leave.employee_role !== 'manager' && leave.employee_role !== 'intern') {
-      throw new Error('Not authorized to reject this leave');
-    }
-  } else if (approverRole === 'super_admin') {
-    if (employeeId === approverIdNum) {
-      throw new Error('Cannot reject your own leave request');
-    }
-  } else {
-    throw new Error('Not authorized to reject leaves');
-  }
+  // A delegate standing in for an absent reporting manager acts with the manager's authority
+  const onBehalfOf = await getOnBehalfOf(approverIdNum, leave.reporting_manager_id);
+  const reportingManagerId = onBehalfOf ? approverIdNum : Number(leave.reporting_manager_id);
+
+  await assertCanDecideLeave(leaveRequestId, approverIdNum, approverRole, employeeId, reportingManagerId, 'reject');
+  const headerRole = await getHeaderColumnRole(approverRole);
 
   // Verify all days belong to the request
   const daysCheck = await pool.query(
@@ -3558,6 +3592,9 @@ export const rejectLeaveDays = async (
   const dayIdsToReject = daysToReject.map(d => d.id);
   const totalRefund = daysToReject.reduce((acc, d) => acc + (d.day_type === 'half' ? 0.5 : 1), 0);
 
+  // Approval workflow: the approver must be able to decide the current stage
+  await assertCanDecideDays(leaveRequestId, { id: approverIdNum, role: approverRole }, employeeId, reportingManagerId, 'reject');
+
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
@@ -3573,56 +3610,22 @@ export const rejectLeaveDays = async (
 
       // 2. Adjust Balance (Refund)
       if (leave.leave_type !== 'permission' && totalRefund > 0) {
-        const balanceColumn =
-          leave.leave_type === 'casual'
-            ? 'casual_balance'
-            : leave.leave_type === 'sick'
-              ? 'sick_balance'
-              : 'lop_balance';
-
-        if (leave.leave_type === 'lop') {
-          const currentBalanceResult = await client.query(
-            'SELECT lop_balance FROM leave_balances WHERE employee_id = $1',
-            [leave.employee_id]
-          );
-          const currentLop = parseFloat(currentBalanceResult.rows[0]?.lop_balance || '0') || 0;
-          let newLopBalance = currentLop + totalRefund;
-
-          if (newLopBalance > 10) {
-            const cappedRefund = 10 - currentLop;
-            if (cappedRefund > 0) {
-              await client.query(
-                `UPDATE leave_balances SET lop_balance = 10 WHERE employee_id = $1`,
-                [leave.employee_id]
-              );
-            }
-          } else {
-            await client.query(
-              `UPDATE leave_balances SET lop_balance = lop_balance + $1 WHERE employee_id = $2`,
-              [totalRefund, leave.employee_id]
-            );
-          }
-        } else {
-          await client.query(
-            `UPDATE leave_balances SET ${balanceColumn} = ${balanceColumn} + $1 WHERE employee_id = $2`,
-            [totalRefund, leave.employee_id]
-          );
-        }
+        await refundBalance(client, leave.employee_id, leave.leave_type, totalRefund, { actorId: approverId, leaveRequestId, source: 'leave_rejection' });
       }
     }
 
     // 3. Update Request Header
     const updateHeaderQuery = `
       UPDATE leave_requests 
-      SET ${approverRole === 'manager' ? 'manager_approval_status' : approverRole === 'hr' ? 'hr_approval_status' : 'super_admin_approval_status'} = 'rejected',
-          ${approverRole === 'manager' ? 'manager_approval_date' : approverRole === 'hr' ? 'hr_approval_date' : 'super_admin_approval_date'} = CURRENT_TIMESTAMP,
-          ${approverRole === 'manager' ? 'manager_approval_comment' : approverRole === 'hr' ? 'hr_approval_comment' : 'super_admin_approval_comment'} = $1,
-          ${approverRole === 'manager' ? 'manager_approved_by' : approverRole === 'hr' ? 'hr_approved_by' : 'super_admin_approved_by'} = $2,
+      SET ${headerRole === 'manager' ? 'manager_approval_status' : headerRole === 'hr' ? 'hr_approval_status' : 'super_admin_approval_status'} = 'rejected',
+          ${headerRole === 'manager' ? 'manager_approval_date' : headerRole === 'hr' ? 'hr_approval_date' : 'super_admin_approval_date'} = CURRENT_TIMESTAMP,
+          ${headerRole === 'manager' ? 'manager_approval_comment' : headerRole === 'hr' ? 'hr_approval_comment' : 'super_admin_approval_comment'} = $1,
+          ${headerRole === 'manager' ? 'manager_approved_by' : headerRole === 'hr' ? 'hr_approved_by' : 'super_admin_approved_by'} = $2,
           last_updated_by = $2,
           last_updated_by_role = $3
       WHERE id = $4
     `;
-    await client.query(updateHeaderQuery, [comment, approverId, approverRole, leaveRequestId]);
+    await client.query(updateHeaderQuery, [comment, approverId, headerRole, leaveRequestId]);
 
     // 4. Recalculate Status within transaction
     const daysResult = await client.query(
@@ -3663,7 +3666,11 @@ export const rejectLeaveDays = async (
       logger.info(`[REJECT LEAVE DAYS] Header status synchronized to ${nextStatus} for request ${leaveRequestId}`);
     }
 
+    // Close the workflow once every day has been decided
+    await syncStagesWithDays(client, leaveRequestId, approverIdNum, comment);
+
     await client.query('COMMIT');
+    await auditLeaveDecision('REJECT_DAYS', leaveRequestId, approverId, leave.current_status, { dayIds, comment }, onBehalfOf);
     logger.info(`[REJECT LEAVE DAYS] Transaction committed successfully for request ${leaveRequestId}`);
   } catch (error: any) {
     await client.query('ROLLBACK');
@@ -3688,9 +3695,9 @@ export const rejectLeaveDays = async (
   if (leave.employee_email) {
     try {
       const ccEmails: string[] = [];
-      if (approverRole === 'hr' && leave.manager_email && leave.manager_email !== leave.employee_email) {
+      if (headerRole === 'hr' && leave.manager_email && leave.manager_email !== leave.employee_email) {
         ccEmails.push(leave.manager_email);
-      } else if (approverRole === 'super_admin') {
+      } else if (headerRole === 'super_admin') {
         if (leave.manager_email && leave.manager_email !== leave.employee_email) ccEmails.push(leave.manager_email);
         if (leave.hr_email && leave.hr_email !== leave.employee_email && leave.hr_email !== leave.manager_email) ccEmails.push(leave.hr_email);
       }
@@ -3713,7 +3720,7 @@ export const rejectLeaveDays = async (
         endType: leave.end_type,
         noOfDays: totalRequestDays,
         reason: leave.reason,
-        approverName: leave.approver_name || 'Approver',
+        approverName: describeApprover(leave.approver_name, onBehalfOf),
         approverEmpId: leave.approver_emp_id || '',
         approverRole: approverRole,
         comment: comment,
@@ -3729,7 +3736,7 @@ export const rejectLeaveDays = async (
   return { message: 'Leave days rejected successfully' };
 };
 
-// Update leave status for HR/Super Admin (bypasses normal authorization)
+// Update leave status with leave.manage (bypasses normal authorization)
 export const updateLeaveStatus = async (
   leaveRequestId: number,
   approverId: number,
@@ -3742,11 +3749,12 @@ export const updateLeaveStatus = async (
   logger.info(`[LEAVE] [UPDATE LEAVE STATUS] ========== FUNCTION CALLED ==========`);
   logger.info(`[LEAVE] [UPDATE LEAVE STATUS] Request ID: ${leaveRequestId}, Approver ID: ${approverId}, Role: ${approverRole}, New Status: ${newStatus}, Selected Day IDs: ${selectedDayIds?.join(', ') || 'none'}`);
 
-  // Only HR and Super Admin can use this function
-  if (approverRole !== 'hr' && approverRole !== 'super_admin') {
+  if (!(await hasPermission(approverRole, 'leave.manage'))) {
     logger.warn(`[LEAVE] [UPDATE LEAVE STATUS] Unauthorized attempt - Approver ID: ${approverId}, Role: ${approverRole}`);
     throw new Error('Not authorized to update leave status');
   }
+  // Overrides with leave.approve_any are recorded as Super Admin's, every other update as HR's
+  const headerRole = (await hasPermission(approverRole, 'leave.approve_any')) ? 'super_admin' : 'hr';
 
   const client = await pool.connect();
   try {
@@ -3775,8 +3783,8 @@ export const updateLeaveStatus = async (
 
     // Validate hierarchy: Check if current user can update based on who last updated
     if (lastUpdaterRole === 'super_admin') {
-      // If super admin updated, only super admin can update
-      if (approverRole !== 'super_admin') {
+      // If super admin updated, only another override can update
+      if (headerRole !== 'super_admin') {
         throw new Error('Super Admin has updated the status of this leave. You cannot update it now.');
       }
     }
@@ -3830,50 +3838,35 @@ export const updateLeaveStatus = async (
       );
     }
 
-    // 3. Perform updates to leave_balances (except for permission)
+    // 3. Perform balance adjustments (except for permission)
     if (refundAmount !== 0 && leave.leave_type !== 'permission') {
-      const balanceColumn =
-        leave.leave_type === 'casual'
-          ? 'casual_balance'
-          : leave.leave_type === 'sick'
-            ? 'sick_balance'
-            : 'lop_balance';
-
-      try {
-        if (leave.leave_type === 'lop') {
-          const currentBalanceResult = await client.query(
-            'SELECT lop_balance FROM leave_balances WHERE employee_id = $1',
-            [leave.employee_id]
-          );
-          const currentLop = parseFloat(currentBalanceResult.rows[0]?.lop_balance || '0') || 0;
-          let newLopBalance = currentLop + refundAmount;
-
-          // Cap LOP balance at 10
-          if (newLopBalance > 10) newLopBalance = 10;
-          // Don't allow LOP balance to go below 0 (shouldn't happen with valid requests, but safe)
-          if (newLopBalance < 0) newLopBalance = 0;
-
-          await client.query(
-            `UPDATE leave_balances SET lop_balance = $1 WHERE employee_id = $2`,
-            [newLopBalance, leave.employee_id]
-          );
+      if (leave.leave_type === 'lop') {
+        // LOP refunds are capped; re-deductions cannot take it below 0
+        if (refundAmount > 0) {
+          await refundBalance(client, leave.employee_id, leave.leave_type, refundAmount, { actorId: approverId, leaveRequestId, source: 'leave_status_update' });
         } else {
-          // For Casual/Sick, we just apply the adjustment
-          await client.query(
-            `UPDATE leave_balances SET ${balanceColumn} = ${balanceColumn} + $1 WHERE employee_id = $2`,
-            [refundAmount, leave.employee_id]
-          );
+          const currentLop = await getBalance(client, leave.employee_id, 'lop');
+          const deduction = Math.min(currentLop, -refundAmount);
+          if (deduction > 0) {
+            await adjustBalance(client, leave.employee_id, 'lop', -deduction, { actorId: approverId, leaveRequestId, source: 'leave_status_update' });
+          }
         }
-        logger.info(`[LEAVE] [UPDATE LEAVE STATUS] Adjusted ${balanceColumn} by ${refundAmount} for employee ${leave.employee_id}`);
-      } catch (err: any) {
-        if (err.code === '23514' || (err.message && err.message.includes('check_'))) {
-          if (err.constraint === 'check_casual_non_negative' || (err.message && err.message.includes('check_casual_non_negative'))) {
-            throw new Error('No casual leave balance to update');
+      } else {
+        try {
+          await adjustBalance(client, leave.employee_id, leave.leave_type, refundAmount, {
+            actorId: approverId,
+            transactionType: refundAmount > 0 ? 'refund' : 'debit',
+            leaveRequestId,
+            source: 'leave_status_update'
+          });
+        } catch (err: any) {
+          if (err.message && err.message.startsWith('Insufficient')) {
+            throw new Error(`Insufficient ${leave.leave_type} leave balance to update status`);
           }
-          throw new Error(`Insufficient ${leave.leave_type} leave balance to update status`);
+          throw err;
         }
-        throw err;
       }
+      logger.info(`[LEAVE] [UPDATE LEAVE STATUS] Adjusted ${leave.leave_type} balance by ${refundAmount} for employee ${leave.employee_id}`);
     }
 
     // 4. Update leave_requests header status
@@ -3891,7 +3884,7 @@ export const updateLeaveStatus = async (
       }
     }
 
-    if (approverRole === 'super_admin') {
+    if (headerRole === 'super_admin') {
       await client.query(
         `UPDATE leave_requests 
          SET current_status = $1,
@@ -3910,7 +3903,7 @@ export const updateLeaveStatus = async (
           newStatus === 'rejected' ? (rejectReason || 'Status updated by Super Admin') : `Status updated by Super Admin`,
           approverId, leaveRequestId]
       );
-    } else if (approverRole === 'hr') {
+    } else {
       await client.query(
         `UPDATE leave_requests 
          SET current_status = $1,
@@ -3930,7 +3923,11 @@ export const updateLeaveStatus = async (
       );
     }
 
+    // Status overrides close any open workflow stages
+    await syncStagesWithDays(client, leaveRequestId, approverId, rejectReason);
+
     await client.query('COMMIT');
+    await auditLeaveDecision('STATUS_UPDATE', leaveRequestId, approverId, leave.current_status, { selectedDayIds: selectedDayIds || null, rejectReason: rejectReason || null });
     logger.info(`[LEAVE] [UPDATE LEAVE STATUS] Transaction committed successfully for Request ID: ${leaveRequestId}`);
 
     // Hook: Sync Timesheet if Approved/Partially Approved (Post-Commit)
@@ -3978,18 +3975,18 @@ export const updateLeaveStatus = async (
       if (emailResult.rows.length > 0) {
         const emailLeave = emailResult.rows[0];
         // Determine recipients based on approver role - ONE EMAIL with TO/CC
-        // Note: updateLeaveStatus only allows 'hr' and 'super_admin', so manager case is not needed here
+        // Note: updates are recorded as HR's or Super Admin's, so manager case is not needed here
         if (emailLeave.employee_email) {
           // Build CC list based on approver role
           const ccEmails: string[] = [];
 
-          if (approverRole === 'hr') {
+          if (headerRole === 'hr') {
             // HR updates → Employee (TO), Manager (CC)
             if (emailLeave.manager_email && emailLeave.manager_email !== emailLeave.employee_email) {
               ccEmails.push(emailLeave.manager_email);
             }
             logger.info(`[EMAIL] HR update - sending email to employee (TO) with manager (CC)`);
-          } else if (approverRole === 'super_admin') {
+          } else if (headerRole === 'super_admin') {
             // Super Admin updates → Employee (TO), Manager and HR (CC)
             if (emailLeave.manager_email && emailLeave.manager_email !== emailLeave.employee_email) {
               ccEmails.push(emailLeave.manager_email);
@@ -4072,6 +4069,9 @@ export const getApprovedLeaves = async (
   logger.info(`[LEAVE] [GET APPROVED LEAVES] ========== FUNCTION CALLED ==========`);
   logger.info(`[LEAVE] [GET APPROVED LEAVES] Approver ID: ${approverId}, Role: ${normalizedRole}, Page: ${page}, Limit: ${limit}`);
 
+  const canApproveAny = await hasPermission(normalizedRole, 'leave.approve_any');
+  const canManage = await hasPermission(normalizedRole, 'leave.manage');
+
   const offset = (page - 1) * limit;
   const params: any[] = [];
 
@@ -4098,6 +4098,7 @@ export const getApprovedLeaves = async (
         lr.manager_approval_date,
         lr.hr_approval_date,
         lr.super_admin_approval_date,
+        lr.auto_approved_at,
         COALESCE(SUM(CASE WHEN ld.day_status = 'approved' THEN CASE WHEN ld.day_type = 'half' THEN 0.5 ELSE 1 END ELSE 0 END), 0) AS approved_days,
         COALESCE(SUM(CASE WHEN ld.day_status = 'rejected' THEN CASE WHEN ld.day_type = 'half' THEN 0.5 ELSE 1 END ELSE 0 END), 0) AS rejected_days,
         COALESCE(SUM(CASE WHEN ld.day_status = 'pending' THEN CASE WHEN ld.day_type = 'half' THEN 0.5 ELSE 1 END ELSE 0 END), 0) AS pending_days,
@@ -4118,21 +4119,21 @@ export const getApprovedLeaves = async (
         )
   `;
 
-  // SUPER ADMIN: Global (except own)
-  if (normalizedRole === 'super_admin') {
+  // leave.approve_any: Global (except own)
+  if (canApproveAny) {
     query += ` AND lr.employee_id != $${params.length + 1}`;
     params.push(approverId);
   }
-  // HR: Strict Hierarchy (L1/L2) + Role Exclusion
-  else if (normalizedRole === 'hr') {
+  // leave.manage: Strict Hierarchy (L1/L2) + Role Exclusion
+  else if (canManage) {
     query += ` AND lr.employee_id != $${params.length + 1} AND (
        u.reporting_manager_id = $${params.length + 1}
        OR l1.reporting_manager_id = $${params.length + 1}
      ) AND LOWER(u.user_role) IN ('intern', 'employee', 'manager')`;
     params.push(approverId);
   }
-  // MANAGER: Direct Reports
-  else if (normalizedRole === 'manager') {
+  // Everyone else: Direct Reports
+  else {
     query += ` AND u.reporting_manager_id = $${params.length + 1} AND lr.employee_id != $${params.length + 1}`;
     params.push(approverId);
   }
@@ -4140,7 +4141,7 @@ export const getApprovedLeaves = async (
   query += ` GROUP BY lr.id, u.emp_id, u.first_name, u.last_name, lr.applied_date, lr.start_date, lr.end_date, lr.leave_type, lr.time_for_permission_start, lr.time_for_permission_end, lr.current_status,
               lr.manager_approval_comment, lr.hr_approval_comment, lr.super_admin_approval_comment,
               lr.updated_at, manager.first_name, manager.last_name, hr.first_name, hr.last_name, sa.first_name, sa.last_name,
-              lr.manager_approval_date, lr.hr_approval_date, lr.super_admin_approval_date, u.status, u.user_role
+              lr.manager_approval_date, lr.hr_approval_date, lr.super_admin_approval_date, lr.auto_approved_at, u.status, u.user_role
      ORDER BY lr.applied_date DESC, lr.updated_at DESC
      LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
 
@@ -4161,21 +4162,21 @@ export const getApprovedLeaves = async (
 
   const countParams: any[] = [];
 
-  // SUPER ADMIN: Global (except own)
-  if (normalizedRole === 'super_admin') {
+  // leave.approve_any: Global (except own)
+  if (canApproveAny) {
     countQuery += ` AND lr.employee_id != $${countParams.length + 1}`;
     countParams.push(approverId);
   }
-  // HR: Strict Hierarchy (L1/L2) + Role Exclusion
-  else if (normalizedRole === 'hr') {
+  // leave.manage: Strict Hierarchy (L1/L2) + Role Exclusion
+  else if (canManage) {
     countQuery += ` AND lr.employee_id != $${countParams.length + 1} AND (
        u.reporting_manager_id = $${countParams.length + 1}
        OR l1.reporting_manager_id = $${countParams.length + 1}
      ) AND LOWER(u.user_role) IN ('intern', 'employee', 'manager')`;
     countParams.push(approverId);
   }
-  // MANAGER: Direct Reports
-  else if (normalizedRole === 'manager') {
+  // Everyone else: Direct Reports
+  else {
     countQuery += ` AND u.reporting_manager_id = $${countParams.length + 1} AND lr.employee_id != $${countParams.length + 1}`;
     countParams.push(approverId);
   }
@@ -4254,9 +4255,9 @@ export const getApprovedLeaves = async (
       noOfDays = (approvedDays + rejectedDays + pendingDays);
     }
 
-    // Manager can only view, HR and Super Admin can view and edit
+    // Approvers can only view, holders of leave.manage can view and edit
     // No one can delete approved/rejected leaves
-    const canEdit = normalizedRole === 'hr' || normalizedRole === 'super_admin';
+    const canEdit = canManage;
     const canDelete = false; // Approved/rejected leaves cannot be deleted
 
     // Get rejection reason only if status is rejected (priority: super_admin > hr > manager)
@@ -4277,14 +4278,12 @@ export const getApprovedLeaves = async (
     // Sort descending
     dates.sort((a, b) => b.date - a.date);
 
-    if (dates[0].date > 0) {
-      if (row.super_admin_approval_comment?.startsWith('Auto-approved')) {
-        approverName = 'Auto Approved';
-        approverRole = 'System';
-      } else {
-        approverName = dates[0].name;
-        approverRole = dates[0].role;
-      }
+    if (row.auto_approved_at) {
+      approverName = 'Auto Approved';
+      approverRole = 'System';
+    } else if (dates[0].date > 0) {
+      approverName = dates[0].name;
+      approverRole = dates[0].role;
     }
 
     return {
@@ -4330,23 +4329,24 @@ export const getApprovedLeaves = async (
 };
 
 
-export const updateHoliday = async (id: number, holidayDate: string, holidayName: string) => {
+export const updateHoliday = async (id: number, holidayDate: string, holidayName: string, isOptional?: boolean) => {
   logger.info(`[LEAVE SERVICE] [UPDATE HOLIDAY] ========== FUNCTION CALLED ==========`);
-  logger.info(`[LEAVE SERVICE] [UPDATE HOLIDAY] ID: ${id}, Date: ${holidayDate}, Name: ${holidayName}`);
+  logger.info(`[LEAVE SERVICE] [UPDATE HOLIDAY] ID: ${id}, Date: ${holidayDate}, Name: ${holidayName}, Optional: ${isOptional ?? 'unchanged'}`);
 
   const checkResult = await pool.query(
-    'SELECT id, holiday_date FROM holidays WHERE id = $1',
+    'SELECT id, holiday_date, holiday_name, calendar_id, is_optional FROM holidays WHERE id = $1',
     [id]
   );
 
   if (checkResult.rows.length === 0) {
     throw new Error('Holiday not found');
   }
+  const before = checkResult.rows[0];
 
-  // Check if another holiday exists on the new date
+  // Check if another holiday exists on the new date in the same calendar
   const duplicateCheck = await pool.query(
-    'SELECT id FROM holidays WHERE holiday_date = $1::date AND id != $2 AND is_active = true',
-    [holidayDate, id]
+    'SELECT id FROM holidays WHERE holiday_date = $1::date AND calendar_id = $2 AND id != $3 AND is_active = true',
+    [holidayDate, before.calendar_id, id]
   );
 
   if (duplicateCheck.rows.length > 0) {
@@ -4354,18 +4354,41 @@ export const updateHoliday = async (id: number, holidayDate: string, holidayName
   }
 
   const result = await pool.query(
-    'UPDATE holidays SET holiday_date = $1, holiday_name = $2 WHERE id = $3 RETURNING id, holiday_date, holiday_name',
-    [holidayDate, holidayName, id]
+    `UPDATE holidays SET holiday_date = $1, holiday_name = $2, is_optional = $3
+     WHERE id = $4
+     RETURNING id, holiday_date, holiday_name, calendar_id, is_optional`,
+    [holidayDate, holidayName, isOptional ?? before.is_optional, id]
   );
+  const after = result.rows[0];
 
   logger.info(`[LEAVE SERVICE] [UPDATE HOLIDAY] Holiday updated successfully - ID: ${id}`);
 
-  // Hook: Update Holiday Logs
-  TimesheetService.updateHolidayLog(
-    formatDate(checkResult.rows[0].holiday_date),
-    formatDate(result.rows[0].holiday_date),
-    result.rows[0].holiday_name
-  ).catch((e: any) => {
+  await recordChange({
+    action: 'UPDATE',
+    entityType: 'holiday',
+    entityId: id,
+    before: { holiday_date: formatDate(before.holiday_date), holiday_name: before.holiday_name, is_optional: before.is_optional },
+    after: { holiday_date: formatDate(after.holiday_date), holiday_name: after.holiday_name, is_optional: after.is_optional }
+  });
+
+  // Hook: Update Holiday Logs. Only non-optional holidays are logged for everyone, so switching
+  // the optional flag removes or creates the logs instead of moving them. While the holiday is
+  // optional, employees with an approved floating claim are resynced so their log follows it.
+  const claimantIds = after.is_optional ? await getHolidayClaimantIds(id) : [];
+  const hook = (before.is_optional && after.is_optional
+    ? Promise.resolve()
+    : after.is_optional
+      ? TimesheetService.removeHolidayLog(formatDate(before.holiday_date), before.calendar_id)
+      : before.is_optional
+        ? TimesheetService.logHolidayForEveryone(formatDate(after.holiday_date), after.holiday_name, after.calendar_id)
+        : TimesheetService.updateHolidayLog(
+          formatDate(before.holiday_date),
+          formatDate(after.holiday_date),
+          after.holiday_name,
+          after.calendar_id
+        ))
+    .then(() => (claimantIds.length > 0 ? TimesheetService.syncHolidayLogs(claimantIds) : undefined));
+  hook.catch((e: any) => {
     logger.error(`[LEAVE] Failed to update holiday logs`, e);
   });
 
@@ -4421,30 +4444,16 @@ export const convertLeaveRequestLopToCasual = async (requestId: number, adminUse
     const noOfDays = parseFloat(daysResult.rows[0].total_days) || 0;
 
     // 4. Check Casual balance
-    const balanceResult = await client.query(
-      'SELECT casual_balance, lop_balance FROM leave_balances WHERE employee_id = $1',
-      [employeeId]
-    );
-
-    if (balanceResult.rows.length === 0) {
-      throw new Error('Leave balance record not found for employee');
-    }
-
-    const previousCasualBalance = parseFloat(balanceResult.rows[0].casual_balance) || 0;
-    const previousLopBalance = parseFloat(balanceResult.rows[0].lop_balance) || 0;
+    const previousCasualBalance = await getBalance(client, employeeId, 'casual');
+    const previousLopBalance = await getBalance(client, employeeId, 'lop');
 
     if (previousCasualBalance < noOfDays) {
       throw new Error(`Insufficient Casual leave balance. Available: ${previousCasualBalance}, Required: ${noOfDays}`);
     }
 
     // 5. Perform balance adjustment
-    const newCasualBalance = previousCasualBalance - noOfDays;
-    const newLopBalance = previousLopBalance + noOfDays; // Refund LOP
-
-    await client.query(
-      'UPDATE leave_balances SET casual_balance = $1, lop_balance = $2 WHERE employee_id = $3',
-      [newCasualBalance, newLopBalance, employeeId]
-    );
+    const newCasualBalance = await adjustBalance(client, employeeId, 'casual', -noOfDays, { actorId: adminUserId, leaveRequestId: requestId, source: 'lop_to_casual_conversion' });
+    const newLopBalance = await adjustBalance(client, employeeId, 'lop', noOfDays, { actorId: adminUserId, transactionType: 'refund', leaveRequestId: requestId, source: 'lop_to_casual_conversion' });
 
     // 6. Update leave request type
     await client.query(
@@ -4463,6 +4472,15 @@ export const convertLeaveRequestLopToCasual = async (requestId: number, adminUse
 
     await client.query('COMMIT');
 
+    await recordAudit({
+      userId: adminUserId,
+      action: 'CONVERT_LOP_TO_CASUAL',
+      entityType: 'leave_request',
+      entityId: requestId,
+      oldValues: { leave_type: 'lop' },
+      newValues: { leave_type: 'casual' }
+    });
+
     // 9. Send notification email - Fire and forget
     // 9. Send notification email - Fire and forget
     // (async () => {
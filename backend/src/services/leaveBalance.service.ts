@@ -0,0 +1,459 @@
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+
+type Queryable = Pool | PoolClient;
+
+// Refunds never push LOP past its yearly allotment
+const LOP_REFUND_CAP = 10;
+
+export interface BalanceLeaveType {
+  id: number;
+  code: string;
+  name: string;
+  requires_balance: boolean;
+  max_balance: number;
+  default_balance: number;
+}
+
+export type BalanceTransactionType =
+  | 'opening'
+  | 'credit'
+  | 'debit'
+  | 'refund'
+  | 'manual_allocation'
+  | 'carry_forward'
+  | 'lapse'
+  | 'adjustment'
+  | 'encashment';
+
+export interface BalanceChangeOptions {
+  actorId?: number | null;
+  /** Marks the change as a scheduled credit (monthly accrual / year-end) */
+  isCredit?: boolean;
+  /** Ledger classification; inferred from the delta when omitted */
+  transactionType?: BalanceTransactionType;
+  leaveRequestId?: number | null;
+  /** Job or flow that caused the change (e.g. monthly_accrual, year_end, import) */
+  source?: string | null;
+  remarks?: string | null;
+}
+
+export interface BalanceTransaction {
+  id: number;
+  leaveTypeCode: string;
+  leaveTypeName: string;
+  transactionType: BalanceTransactionType;
+  delta: number;
+  balanceAfter: number;
+  leaveRequestId: number | null;
+  source: string | null;
+  remarks: string | null;
+  createdAt: string;
+  createdBy: number | null;
+  createdByName: string | null;
+}
+
+export interface BalanceReconciliationRow {
+  employeeId: number;
+  empId: string;
+  employeeName: string;
+  leaveTypeCode: string;
+  storedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+}
+
+const mapLeaveType = (row: any): BalanceLeaveType => ({
+  id: row.id,
+  code: row.code,
+  name: row.name,
+  requires_balance: row.requires_balance !== false,
+  max_balance: row.max_balance !== null && row.max_balance !== undefined ? parseFloat(row.max_balance) : 99,
+  default_balance: parseFloat(row.default_balance) || 0
+});
+
+/**
+ * Get all active leave types that carry a balance, in display order
+ */
+export const getBalanceLeaveTypes = async (db: Queryable = pool): Promise<BalanceLeaveType[]> => {
+  const result = await db.query(
+    `SELECT id, code, name, requires_balance, max_balance, default_balance
+     FROM leave_types
+     WHERE is_active = true AND COALESCE(requires_balance, true) = true
+     ORDER BY id ASC`
+  );
+  return result.rows.map(mapLeaveType);
+};
+
+/**
+ * Get a leave type by its code (active or not)
+ */
+export const getLeaveTypeByCode = async (code: string, db: Queryable = pool): Promise<BalanceLeaveType | null> => {
+  const result = await db.query(
+    `SELECT id, code, name, requires_balance, max_balance, default_balance
+     FROM leave_types WHERE code = $1`,
+    [code]
+  );
+  return result.rows.length > 0 ? mapLeaveType(result.rows[0]) : null;
+};
+
+/**
+ * Get an employee's balances keyed by leave type code.
+ * Every active balance-carrying type is present, defaulting to 0.
+ */
+export const getBalanceMap = async (employeeId: number, db: Queryable = pool): Promise<Record<string, number>> => {
+  const result = await db.query(
+    `SELECT lt.code, COALESCE(elb.balance, 0) as balance
+     FROM leave_types lt
+     LEFT JOIN employee_leave_balances elb ON elb.leave_type_id = lt.id AND elb.employee_id = $1
+     WHERE lt.is_active = true AND COALESCE(lt.requires_balance, true) = true
+     ORDER BY lt.id ASC`,
+    [employeeId]
+  );
+
+  const balances: Record<string, number> = {};
+  result.rows.forEach((row: any) => {
+    balances[row.code] = parseFloat(row.balance) || 0;
+  });
+  return balances;
+};
+
+/**
+ * Check whether an employee has any balance rows at all
+ */
+export const hasBalances = async (employeeId: number, db: Queryable = pool): Promise<boolean> => {
+  const result = await db.query('SELECT 1 FROM employee_leave_balances WHERE employee_id = $1 LIMIT 1', [employeeId]);
+  return result.rows.length > 0;
+};
+
+/**
+ * Get a single balance for an employee and leave type code
+ */
+export const getBalance = async (db: Queryable, employeeId: number, code: string): Promise<number> => {
+  const result = await db.query(
+    `SELECT elb.balance
+     FROM employee_leave_balances elb
+     JOIN leave_types lt ON elb.leave_type_id = lt.id
+     WHERE elb.employee_id = $1 AND lt.code = $2`,
+    [employeeId, code]
+  );
+  return parseFloat(result.rows[0]?.balance || '0') || 0;
+};
+
+const inferTransactionType = (delta: number, options: BalanceChangeOptions): BalanceTransactionType => {
+  if (options.transactionType) return options.transactionType;
+  if (delta < 0) return 'debit';
+  return options.isCredit ? 'credit' : 'adjustment';
+};
+
+/**
+ * Append a ledger row. Must run on the same client as the balance change it records.
+ */
+const recordTransaction = async (
+  db: Queryable,
+  employeeId: number,
+  leaveTypeId: number,
+  delta: number,
+  balanceAfter: number,
+  options: BalanceChangeOptions
+): Promise<void> => {
+  await db.query(
+    `INSERT INTO leave_balance_transactions
+       (employee_id, leave_type_id, transaction_type, delta, balance_after, leave_request_id, source, remarks, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+    [
+      employeeId,
+      leaveTypeId,
+      inferTransactionType(delta, options),
+      delta,
+      balanceAfter,
+      options.leaveRequestId ?? null,
+      options.source ?? null,
+      options.remarks ?? null,
+      options.actorId ?? null
+    ]
+  );
+};
+
+const resolveBalanceType = async (db: Queryable, code: string): Promise<BalanceLeaveType | null> => {
+  const leaveType = await getLeaveTypeByCode(code, db);
+  if (!leaveType) {
+    throw new Error(`Unknown leave type: ${code}`);
+  }
+  return leaveType.requires_balance ? leaveType : null;
+};
+
+/**
+ * Apply a delta to an employee's balance for a leave type, creating the row if needed.
+ * Types that do not carry a balance (e.g. permission) are ignored.
+ * Returns the resulting balance.
+ */
+export const adjustBalance = async (
+  db: Queryable,
+  employeeId: number,
+  code: string,
+  delta: number,
+  options: BalanceChangeOptions = {}
+): Promise<number> => {
+  const leaveType = await resolveBalanceType(db, code);
+  if (!leaveType) return 0;
+
+  try {
+    const result = await db.query(
+      `INSERT INTO employee_leave_balances (employee_id, leave_type_id, balance, last_credited_at, created_by, updated_by)
+       VALUES ($1, $2, $3, CASE WHEN $4::boolean THEN CURRENT_TIMESTAMP ELSE NULL END, $5, $5)
+       ON CONFLICT (employee_id, leave_type_id) DO UPDATE
+       SET balance = employee_leave_balances.balance + EXCLUDED.balance,
+           last_credited_at = CASE WHEN $4::boolean THEN CURRENT_TIMESTAMP ELSE employee_leave_balances.last_credited_at END,
+           updated_by = COALESCE(EXCLUDED.updated_by, employee_leave_balances.updated_by)
+       RETURNING balance`,
+      [employeeId, leaveType.id, delta, !!options.isCredit, options.actorId ?? null]
+    );
+    const newBalance = parseFloat(result.rows[0].balance) || 0;
+    if (delta !== 0) {
+      await recordTransaction(db, employeeId, leaveType.id, delta, newBalance, options);
+    }
+    return newBalance;
+  } catch (err: any) {
+    if (err.code === '23514') {
+      throw new Error(`Insufficient ${code} leave balance`);
+    }
+    throw err;
+  }
+};
+
+/**
+ * Overwrite an employee's balance for a leave type.
+ * Returns the previous balance.
+ */
+export const setBalance = async (
+  db: Queryable,
+  employeeId: number,
+  code: string,
+  value: number,
+  options: BalanceChangeOptions = {}
+): Promise<number> => {
+  const leaveType = await resolveBalanceType(db, code);
+  if (!leaveType) return 0;
+
+  const previous = await getBalance(db, employeeId, code);
+  await db.query(
+    `INSERT INTO employee_leave_balances (employee_id, leave_type_id, balance, last_credited_at, created_by, updated_by)
+     VALUES ($1, $2, $3, CASE WHEN $4::boolean THEN CURRENT_TIMESTAMP ELSE NULL END, $5, $5)
+     ON CONFLICT (employee_id, leave_type_id) DO UPDATE
+     SET balance = EXCLUDED.balance,
+         last_credited_at = CASE WHEN $4::boolean THEN CURRENT_TIMESTAMP ELSE employee_leave_balances.last_credited_at END,
+         updated_by = COALESCE(EXCLUDED.updated_by, employee_leave_balances.updated_by)`,
+    [employeeId, leaveType.id, value, !!options.isCredit, options.actorId ?? null]
+  );
+
+  const delta = Math.round((value - previous) * 10) / 10;
+  if (delta !== 0) {
+    await recordTransaction(db, employeeId, leaveType.id, delta, value, options);
+  }
+  return previous;
+};
+
+/**
+ * Year-end: reduce (lapse) or raise (carry forward) a balance to the carried-forward value.
+ * Returns the previous balance.
+ */
+export const carryForwardBalance = async (
+  db: Queryable,
+  employeeId: number,
+  code: string,
+  carriedValue: number,
+  options: BalanceChangeOptions = {}
+): Promise<number> => {
+  const current = await getBalance(db, employeeId, code);
+  return setBalance(db, employeeId, code, carriedValue, {
+    ...options,
+    transactionType: carriedValue < current ? 'lapse' : 'carry_forward'
+  });
+};
+
+/**
+ * Deduct days for a leave application
+ */
+export const deductBalance = async (
+  db: Queryable,
+  employeeId: number,
+  code: string,
+  days: number,
+  options: BalanceChangeOptions = {}
+): Promise<number> => {
+  return adjustBalance(db, employeeId, code, -days, { transactionType: 'debit', ...options });
+};
+
+/**
+ * Give days back after a rejection, deletion or edit.
+ * LOP refunds are capped so the balance never exceeds its yearly allotment.
+ * Returns the number of days actually refunded.
+ */
+export const refundBalance = async (
+  db: Queryable,
+  employeeId: number,
+  code: string,
+  days: number,
+  options: BalanceChangeOptions = {}
+): Promise<number> => {
+  if (days === 0) return 0;
+
+  if (code === 'lop') {
+    const current = await getBalance(db, employeeId, code);
+    const target = Math.max(0, Math.min(current + days, LOP_REFUND_CAP));
+    const applied = target - current;
+
+    if (applied !== days) {
+      logger.warn(`[LEAVE BALANCE] [REFUND] LOP refund capped for employee ${employeeId}. Current: ${current}, Requested: ${days}, Applied: ${applied}`);
+    }
+    if (applied === 0) return 0;
+
+    await adjustBalance(db, employeeId, code, applied, { transactionType: 'refund', ...options });
+    return applied;
+  }
+
+  await adjustBalance(db, employeeId, code, days, { transactionType: 'refund', ...options });
+  return days;
+};
+
+/**
+ * Create balance rows for every balance-carrying leave type using each type's default
+ */
+export const initializeBalances = async (db: Queryable, employeeId: number, actorId?: number | null): Promise<void> => {
+  const result = await db.query(
+    `INSERT INTO employee_leave_balances (employee_id, leave_type_id, balance, created_by, updated_by)
+     SELECT $1, lt.id, COALESCE(lt.default_balance, 0), $2, $2
+     FROM leave_types lt
+     WHERE lt.is_active = true AND COALESCE(lt.requires_balance, true) = true
+     ON CONFLICT (employee_id, leave_type_id) DO NOTHING
+     RETURNING leave_type_id, balance`,
+    [employeeId, actorId ?? null]
+  );
+
+  for (const row of result.rows) {
+    const opening = parseFloat(row.balance) || 0;
+    if (opening !== 0) {
+      await recordTransaction(db, employeeId, row.leave_type_id, opening, opening, {
+        actorId,
+        transactionType: 'opening',
+        remarks: 'Opening balance'
+      });
+    }
+  }
+};
+
+/**
+ * Remove all balance rows for an employee
+ */
+export const deleteBalances = async (db: Queryable, employeeId: number, actorId?: number | null): Promise<void> => {
+  const result = await db.query(
+    'DELETE FROM employee_leave_balances WHERE employee_id = $1 RETURNING leave_type_id, balance',
+    [employeeId]
+  );
+
+  // Close out the ledger so it still sums to the (now absent) balance
+  for (const row of result.rows) {
+    const closing = parseFloat(row.balance) || 0;
+    if (closing !== 0) {
+      await recordTransaction(db, employeeId, row.leave_type_id, -closing, 0, {
+        actorId,
+        transactionType: 'lapse',
+        remarks: 'Balances removed'
+      });
+    }
+  }
+};
+
+/**
+ * Get an employee's ledger, newest first
+ */
+export const getBalanceStatement = async (
+  employeeId: number,
+  filters: { leaveType?: string; startDate?: string; endDate?: string } = {}
+): Promise<BalanceTransaction[]> => {
+  const params: any[] = [employeeId];
+  let query = `
+    SELECT lbt.id, lt.code, lt.name, lbt.transaction_type, lbt.delta, lbt.balance_after,
+           lbt.leave_request_id, lbt.source, lbt.remarks, lbt.created_at, lbt.created_by,
+           u.first_name || ' ' || COALESCE(u.last_name, '') as created_by_name
+    FROM leave_balance_transactions lbt
+    JOIN leave_types lt ON lbt.leave_type_id = lt.id
+    LEFT JOIN users u ON lbt.created_by = u.id
+    WHERE lbt.employee_id = $1`;
+
+  if (filters.leaveType) {
+    params.push(filters.leaveType);
+    query += ` AND lt.code = $${params.length}`;
+  }
+  if (filters.startDate) {
+    params.push(filters.startDate);
+    query += ` AND lbt.created_at >= $${params.length}::date`;
+  }
+  if (filters.endDate) {
+    params.push(filters.endDate);
+    query += ` AND lbt.created_at < ($${params.length}::date + INTERVAL '1 day')`;
+  }
+  query += ' ORDER BY lbt.created_at DESC, lbt.id DESC';
+
+  const result = await pool.query(query, params);
+  return result.rows.map((row: any) => ({
+    id: row.id,
+    leaveTypeCode: row.code,
+    leaveTypeName: row.name,
+    transactionType: row.transaction_type,
+    delta: parseFloat(row.delta) || 0,
+    balanceAfter: parseFloat(row.balance_after) || 0,
+    leaveRequestId: row.leave_request_id,
+    source: row.source,
+    remarks: row.remarks,
+    createdAt: row.created_at,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name ? row.created_by_name.trim() : null
+  }));
+};
+
+/**
+ * Compare stored balances with the sum of their ledger rows.
+ * Returns only the mismatches; pass an employee id to limit the check.
+ */
+export const reconcileBalances = async (employeeId?: number): Promise<BalanceReconciliationRow[]> => {
+  const result = await pool.query(
+    `WITH ledger AS (
+       SELECT employee_id, leave_type_id, SUM(delta) as ledger_balance
+       FROM leave_balance_transactions
+       WHERE ($1::int IS NULL OR employee_id = $1)
+       GROUP BY employee_id, leave_type_id
+     ),
+     stored AS (
+       SELECT employee_id, leave_type_id, balance
+       FROM employee_leave_balances
+       WHERE ($1::int IS NULL OR employee_id = $1)
+     )
+     SELECT u.id as employee_id, u.emp_id, u.first_name || ' ' || COALESCE(u.last_name, '') as name, lt.code,
+            COALESCE(stored.balance, 0) as stored_balance,
+            COALESCE(ledger.ledger_balance, 0) as ledger_balance
+     FROM stored
+     FULL OUTER JOIN ledger ON ledger.employee_id = stored.employee_id AND ledger.leave_type_id = stored.leave_type_id
+     JOIN users u ON u.id = COALESCE(stored.employee_id, ledger.employee_id)
+     JOIN leave_types lt ON lt.id = COALESCE(stored.leave_type_id, ledger.leave_type_id)
+     WHERE COALESCE(stored.balance, 0) <> COALESCE(ledger.ledger_balance, 0)
+     ORDER BY u.emp_id, lt.id`,
+    [employeeId ?? null]
+  );
+
+  return result.rows.map((row: any) => {
+    const storedBalance = parseFloat(row.stored_balance) || 0;
+    const ledgerBalance = parseFloat(row.ledger_balance) || 0;
+    return {
+      employeeId: row.employee_id,
+      empId: row.emp_id,
+      employeeName: row.name.trim(),
+      leaveTypeCode: row.code,
+      storedBalance,
+      ledgerBalance,
+      difference: Math.round((storedBalance - ledgerBalance) * 10) / 10
+    };
+  });
+};
@@ -3,7 +3,27 @@ import { isLastWorkingDayOfMonth } from '../utils/leaveCredit';
 import { logger } from '../utils/logger';
 import { sendLeaveCarryForwardEmail } from '../utils/emailTemplates';
 
-import { getAllPolicies } from './leaveRule.service';
+import { getAllPolicies, LeavePolicyConfig } from './leaveRule.service';
+import { adjustBalance, carryForwardBalance, getBalance, getBalanceMap } from './leaveBalance.service';
+
+/**
+ * Monthly credit per leave type for a role (annual_credit divided by 12).
+ * LOP is only reset at year end and types without a balance are skipped.
+ * Casual and sick fall back to the historical defaults when no policy exists.
+ */
+const getMonthlyCredits = (rolePolicies: Record<string, LeavePolicyConfig>, role: string): Record<string, number> => {
+  const credits: Record<string, number> = {
+    casual: role === 'intern' ? 0.5 : 1,
+    sick: 0.5
+  };
+
+  Object.entries(rolePolicies).forEach(([code, policy]) => {
+    if (code === 'lop' || code === 'permission' || policy.requires_balance === false) return;
+    credits[code] = (parseFloat(policy.annual_credit) || 0) / 12;
+  });
+
+  return credits;
+};
 
 /**
  * Credit monthly leaves to all active employees
@@ -31,16 +51,12 @@ export const creditMonthlyLeaves = async (): Promise<{ credited: number; errors:
     logger.info(`[LEAVE_CREDIT] [CREDIT MONTHLY LEAVES] Starting database transaction`);
     await client.query('BEGIN');
 
-    // Get all active employees with their leave balances
+    // Get all active employees
     // Excluding super_admin as they don't apply for leaves
     const employeesResult = await client.query(`
       SELECT u.id, u.emp_id, u.first_name || ' ' || COALESCE(u.last_name, '') as name, u.status, u.user_role as role,
-             u.date_of_joining,
-             COALESCE(lb.casual_balance, 0) as current_casual,
-             COALESCE(lb.sick_balance, 0) as current_sick,
-             lb.id as balance_id
+             u.date_of_joining
       FROM users u
-      LEFT JOIN leave_balances lb ON u.id = lb.employee_id
       WHERE u.status IN ('active', 'on_notice')
         AND u.user_role IN ('employee', 'manager', 'hr', 'intern')
     `);
@@ -51,11 +67,8 @@ export const creditMonthlyLeaves = async (): Promise<{ credited: number; errors:
         // Get policies for this role
         const rolePolicies = policyMap[employee.role] || {};
         const casualPolicy = rolePolicies['casual'];
-        const sickPolicy = rolePolicies['sick'];
-
-        // Note: annual_credit is divided by 12 for monthly credit
-        let casualCredit = casualPolicy ? (parseFloat(casualPolicy.annual_credit) / 12) : (employee.role === 'intern' ? 0.5 : 1);
-        let sickCredit = sickPolicy ? (parseFloat(sickPolicy.annual_credit) / 12) : 0.5;
+        const credits = getMonthlyCredits(rolePolicies, employee.role);
+        let casualCredit = credits['casual'];
 
         // -- Anniversary Bonus Logic --
         const now = new Date();
@@ -94,29 +107,18 @@ export const creditMonthlyLeaves = async (): Promise<{ credited: number; errors:
           }
         }
 
+        credits['casual'] = casualCredit;
+
         // All active and on_notice employees get standard accrual
-        if (employee.balance_id) {
-          // Update existing balance
-          await client.query(
-            `UPDATE leave_balances 
-             SET casual_balance = casual_balance + $1,
-                 sick_balance = sick_balance + $2,
-                 last_updated = CURRENT_TIMESTAMP
-             WHERE employee_id = $3`,
-            [casualCredit, sickCredit, employee.id]
-          );
-        } else {
-          // Create new balance record
-          // LOP starts at 0 for new employees as it is only added at year end
-          await client.query(
-            `INSERT INTO leave_balances (employee_id, casual_balance, sick_balance, lop_balance)
-             VALUES ($1, $2, $3, 0)`,
-            [employee.id, casualCredit, sickCredit]
-          );
+        for (const [code, credit] of Object.entries(credits)) {
+          if (credit > 0) {
+            await adjustBalance(client, employee.id, code, credit, { isCredit: true, source: 'monthly_accrual' });
+          }
         }
 
         credited++;
-        logger.info(`[LEAVE_CREDIT] [CREDIT MONTHLY LEAVES] Credited leaves to ${employee.emp_id}: +${casualCredit.toFixed(2)} casual, +${sickCredit.toFixed(2)} sick`);
+        const summary = Object.entries(credits).map(([code, credit]) => `+${credit.toFixed(2)} ${code}`).join(', ');
+        logger.info(`[LEAVE_CREDIT] [CREDIT MONTHLY LEAVES] Credited leaves to ${employee.emp_id}: ${summary}`);
       } catch (error: any) {
         errors++;
         logger.error(`[LEAVE_CREDIT] [CREDIT MONTHLY LEAVES] Failed for ${employee.emp_id}:`, error);
@@ -141,6 +143,38 @@ export const creditMonthlyLeaves = async (): Promise<{ credited: number; errors:
  */
 
 
+/**
+ * Settle days above the carry forward limit: encash up to the policy's
+ * max_encashable_days and record them for payroll. Returns what was encashed;
+ * the caller's carry forward then lapses the remainder.
+ */
+const encashExcess = async (
+  client: any,
+  employeeId: number,
+  code: string,
+  excess: number,
+  policy: LeavePolicyConfig | undefined,
+  year: number
+): Promise<number> => {
+  const maxEncashable = policy ? parseFloat(policy.max_encashable_days) || 0 : 0;
+  const encashed = Math.min(Math.max(excess, 0), maxEncashable);
+  if (encashed <= 0) return 0;
+
+  await adjustBalance(client, employeeId, code, -encashed, {
+    transactionType: 'encashment',
+    source: 'year_end',
+    remarks: `Encashed for ${year}`
+  });
+  await client.query(
+    `INSERT INTO leave_encashments (employee_id, leave_type_id, year, days)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (employee_id, leave_type_id, year) DO UPDATE
+     SET days = leave_encashments.days + EXCLUDED.days, updated_at = CURRENT_TIMESTAMP`,
+    [employeeId, policy!.leave_type_id, year, encashed]
+  );
+  return encashed;
+};
+
 /**
  * Process year-end leave balance adjustments
  */
@@ -161,13 +195,8 @@ export const processYearEndLeaveAdjustments = async (): Promise<{ adjusted: numb
 
     const employeesResult = await client.query(`
       SELECT u.id, u.emp_id, u.email, u.first_name || ' ' || COALESCE(u.last_name, '') as name, u.user_role as role,
-             u.date_of_joining,
-             COALESCE(lb.casual_balance, 0) as current_casual,
-             COALESCE(lb.sick_balance, 0) as current_sick,
-             COALESCE(lb.lop_balance, 0) as current_lop,
-             lb.id as balance_id
+             u.date_of_joining
       FROM users u
-      LEFT JOIN leave_balances lb ON u.id = lb.employee_id
       WHERE u.status IN ('active', 'on_notice')
         AND u.user_role IN ('employee', 'manager', 'hr', 'intern')
     `);
@@ -177,7 +206,10 @@ export const processYearEndLeaveAdjustments = async (): Promise<{ adjusted: numb
         // Start a sub-transaction for each employee
         await client.query('BEGIN');
 
-        const currentCasual = parseFloat(employee.current_casual) || 0;
+        const currentBalances = await getBalanceMap(employee.id, client);
+        const currentCasual = currentBalances['casual'] || 0;
+        const currentSick = currentBalances['sick'] || 0;
+        const leaveYear = new Date().getFullYear();
         const rolePolicies = policyMap[employee.role] || {};
         const casualPolicy = rolePolicies['casual'];
         const sickPolicy = rolePolicies['sick'];
@@ -238,19 +270,43 @@ export const processYearEndLeaveAdjustments = async (): Promise<{ adjusted: numb
         const finalSick = afterCarryForwardSick + sickCredit;
         const finalLop = afterCarryForwardLop;
 
-        if (employee.balance_id) {
-          await client.query(
-            `UPDATE leave_balances 
-             SET casual_balance = $1, sick_balance = $2, lop_balance = $3, last_updated = CURRENT_TIMESTAMP
-             WHERE employee_id = $4`,
-            [finalCasual, finalSick, finalLop, employee.id]
-          );
-        } else {
-          await client.query(
-            `INSERT INTO leave_balances (employee_id, casual_balance, sick_balance, lop_balance)
-             VALUES ($1, $2, $3, $4)`,
-            [employee.id, finalCasual, finalSick, finalLop]
-          );
+        // Days above the carry forward limit are encashed where the policy allows; the rest lapse
+        const carriedForwardLeaves: Record<string, number> = {};
+        if (carryForwardCasual > 0) carriedForwardLeaves.casual = carryForwardCasual;
+        if (carryForwardSick > 0) carriedForwardLeaves.sick = carryForwardSick;
+        const encashedLeaves: Record<string, number> = {};
+        const lapsedLeaves: Record<string, number> = {};
+        const settle = async (code: string, excess: number) => {
+          if (excess <= 0) return;
+          const encashed = await encashExcess(client, employee.id, code, excess, rolePolicies[code], leaveYear);
+          if (encashed > 0) encashedLeaves[code] = encashed;
+          if (excess - encashed > 0) lapsedLeaves[code] = excess - encashed;
+        };
+        await settle('casual', currentCasual - eligibleForCarryForward);
+        await settle('sick', currentSick);
+
+        // Ledger: lapse/carry forward the old balance first, then credit the new year
+        const yearEndOptions = { isCredit: true, source: 'year_end' };
+        await carryForwardBalance(client, employee.id, 'casual', carryForwardCasual, yearEndOptions);
+        await carryForwardBalance(client, employee.id, 'sick', afterCarryForwardSick, yearEndOptions);
+        await carryForwardBalance(client, employee.id, 'lop', 0, yearEndOptions);
+        if (casualCredit > 0) await adjustBalance(client, employee.id, 'casual', casualCredit, yearEndOptions);
+        if (sickCredit > 0) await adjustBalance(client, employee.id, 'sick', sickCredit, yearEndOptions);
+        if (finalLop > 0) await adjustBalance(client, employee.id, 'lop', finalLop, yearEndOptions);
+
+        // Other leave types: carry forward up to their limit, then add the monthly credit
+        const newYearBalances: { casual: number; sick: number; lop: number; [code: string]: number } = { casual: finalCasual, sick: finalSick, lop: finalLop };
+        const monthlyCredits = getMonthlyCredits(rolePolicies, employee.role);
+        for (const [code, currentValue] of Object.entries(currentBalances)) {
+          if (code in newYearBalances || !rolePolicies[code]) continue;
+          const carryForwardLimit = parseFloat(rolePolicies[code].carry_forward_limit) || 0;
+          const carriedValue = Math.min(currentValue, carryForwardLimit);
+          await settle(code, currentValue - carriedValue);
+          if (carriedValue > 0) carriedForwardLeaves[code] = carriedValue;
+          const finalValue = carriedValue + (monthlyCredits[code] || 0);
+          await carryForwardBalance(client, employee.id, code, carriedValue, yearEndOptions);
+          if (monthlyCredits[code] > 0) await adjustBalance(client, employee.id, code, monthlyCredits[code], yearEndOptions);
+          newYearBalances[code] = finalValue;
         }
 
         await client.query('COMMIT');
@@ -259,8 +315,6 @@ export const processYearEndLeaveAdjustments = async (): Promise<{ adjusted: numb
           const currentDate = new Date();
           const previousYear = currentDate.getFullYear();
           const newYear = previousYear + 1;
-          const carriedForwardLeaves: { casual?: number; sick?: number; lop?: number } = {};
-          if (carryForwardCasual > 0) carriedForwardLeaves.casual = carryForwardCasual;
 
           await sendLeaveCarryForwardEmail(employee.email, {
             employeeName: employee.name,
@@ -268,7 +322,9 @@ export const processYearEndLeaveAdjustments = async (): Promise<{ adjusted: numb
             previousYear,
             newYear,
             carriedForwardLeaves,
-            newYearBalances: { casual: finalCasual, sick: finalSick, lop: finalLop }
+            encashedLeaves,
+            lapsedLeaves,
+            newYearBalances
           });
         } catch (emailError: any) {
           logger.error(`[LEAVE_CREDIT] Email failed for ${employee.email}:`, emailError);
@@ -323,12 +379,8 @@ export const sendCarryForwardEmailsToAll = async (
     const nextYear = newYear || (currentDate.getMonth() === 0 ? currentDate.getFullYear() : currentDate.getFullYear() + 1);
 
     const employeesResult = await client.query(`
-      SELECT u.id, u.emp_id, u.email, u.first_name || ' ' || COALESCE(u.last_name, '') as name, u.user_role as role,
-             COALESCE(lb.casual_balance, 0) as current_casual,
-             COALESCE(lb.sick_balance, 0) as current_sick,
-             COALESCE(lb.lop_balance, 0) as current_lop
+      SELECT u.id, u.emp_id, u.email, u.first_name || ' ' || COALESCE(u.last_name, '') as name, u.user_role as role
       FROM users u
-      LEFT JOIN leave_balances lb ON u.id = lb.employee_id
       WHERE u.status IN ('active', 'on_notice')
         AND u.user_role IN ('employee', 'manager', 'hr', 'intern')
         AND u.email IS NOT NULL AND u.email != ''
@@ -336,7 +388,7 @@ export const sendCarryForwardEmailsToAll = async (
 
     for (const employee of employeesResult.rows) {
       try {
-        const currentCasual = parseFloat(employee.current_casual) || 0;
+        const currentCasual = await getBalance(client, employee.id, 'casual');
         const rolePolicies = policyMap[employee.role] || {};
         const casualPolicy = rolePolicies['casual'];
 
@@ -361,9 +413,22 @@ export const sendCarryForwardEmailsToAll = async (
         if (carryForwardCasual > 0) carriedForwardLeaves.casual = carryForwardCasual;
         if (carryForwardSick > 0) carriedForwardLeaves.sick = carryForwardSick;
 
+        // Encashments already recorded by the year-end run
+        const encashmentResult = await client.query(
+          `SELECT lt.code, le.days
+           FROM leave_encashments le
+           JOIN leave_types lt ON le.leave_type_id = lt.id
+           WHERE le.employee_id = $1 AND le.year = $2`,
+          [employee.id, prevYear]
+        );
+        const encashedLeaves: Record<string, number> = {};
+        encashmentResult.rows.forEach((row: any) => {
+          encashedLeaves[row.code] = parseFloat(row.days) || 0;
+        });
+
         const lopPolicy = rolePolicies['lop'];
         const lopAnnualCredit = lopPolicy ? parseFloat(lopPolicy.annual_credit) : 10;
-        const emailLopBalance = (parseFloat(employee.current_lop) || 0) + lopAnnualCredit;
+        const emailLopBalance = (await getBalance(client, employee.id, 'lop')) + lopAnnualCredit;
 
         await sendLeaveCarryForwardEmail(employee.email, {
           employeeName: employee.name,
@@ -371,6 +436,7 @@ export const sendCarryForwardEmailsToAll = async (
           previousYear: prevYear,
           newYear: nextYear,
           carriedForwardLeaves,
+          encashedLeaves,
           newYearBalances: {
             casual: carryForwardCasual,
             sick: carryForwardSick,
@@ -406,8 +472,8 @@ export const checkAndCreditMonthlyLeaves = async (): Promise<void> => {
     if (isYearEnd()) {
       const today = new Date().toISOString().split('T')[0];
       const checkResult = await pool.query(
-        `SELECT COUNT(*) FROM leave_balances lb INNER JOIN users u ON lb.employee_id = u.id
-         WHERE DATE(lb.last_updated) = $1 AND EXTRACT(HOUR FROM lb.last_updated) >= 19
+        `SELECT COUNT(*) FROM employee_leave_balances elb INNER JOIN users u ON elb.employee_id = u.id
+         WHERE DATE(elb.last_credited_at) = $1 AND EXTRACT(HOUR FROM elb.last_credited_at) >= 19
            AND u.user_role IN ('employee', 'manager', 'hr', 'intern')`,
         [today]
       );
@@ -418,8 +484,8 @@ export const checkAndCreditMonthlyLeaves = async (): Promise<void> => {
     } else if (isLastWorkingDayOfMonth()) {
       const today = new Date().toISOString().split('T')[0];
       const checkResult = await pool.query(
-        `SELECT COUNT(*) FROM leave_balances lb INNER JOIN users u ON lb.employee_id = u.id
-         WHERE DATE(lb.last_updated) = $1 AND EXTRACT(HOUR FROM lb.last_updated) >= 19
+        `SELECT COUNT(*) FROM employee_leave_balances elb INNER JOIN users u ON elb.employee_id = u.id
+         WHERE DATE(elb.last_credited_at) = $1 AND EXTRACT(HOUR FROM elb.last_credited_at) >= 19
            AND u.user_role IN ('employee', 'manager', 'hr', 'intern')`,
         [today]
       );
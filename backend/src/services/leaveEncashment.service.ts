@@ -0,0 +1,109 @@
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { recordAudit } from './audit.service';
+
+export type EncashmentStatus = 'pending' | 'paid';
+
+export interface EncashmentItem {
+  id: number;
+  leaveTypeCode: string;
+  leaveTypeName: string;
+  days: number;
+  status: EncashmentStatus;
+  paidAt: string | null;
+}
+
+export interface EmployeeEncashment {
+  employeeId: number;
+  empId: string;
+  employeeName: string;
+  role: string;
+  items: EncashmentItem[];
+  totalDays: number;
+  pendingDays: number;
+}
+
+/**
+ * Encashed days for a leave year, grouped per employee for payroll
+ */
+export const getEncashmentReport = async (
+  year: number,
+  status?: EncashmentStatus
+): Promise<EmployeeEncashment[]> => {
+  logger.info(`[LEAVE ENCASHMENT] [REPORT] Year: ${year}, Status: ${status || 'all'}`);
+
+  const params: any[] = [year];
+  let statusClause = '';
+  if (status) {
+    params.push(status);
+    statusClause = `AND le.status = $${params.length}`;
+  }
+
+  const result = await pool.query(
+    `SELECT le.*, lt.code as leave_type_code, lt.name as leave_type_name,
+            u.emp_id, u.user_role, u.first_name || ' ' || COALESCE(u.last_name, '') as employee_name
+     FROM leave_encashments le
+     JOIN users u ON le.employee_id = u.id
+     JOIN leave_types lt ON le.leave_type_id = lt.id
+     WHERE le.year = $1 ${statusClause}
+     ORDER BY u.emp_id, lt.id`,
+    params
+  );
+
+  const byEmployee = new Map<number, EmployeeEncashment>();
+  result.rows.forEach((row: any) => {
+    if (!byEmployee.has(row.employee_id)) {
+      byEmployee.set(row.employee_id, {
+        employeeId: row.employee_id,
+        empId: row.emp_id,
+        employeeName: row.employee_name.trim(),
+        role: row.user_role,
+        items: [],
+        totalDays: 0,
+        pendingDays: 0
+      });
+    }
+    const entry = byEmployee.get(row.employee_id)!;
+    const days = parseFloat(row.days) || 0;
+    entry.items.push({
+      id: row.id,
+      leaveTypeCode: row.leave_type_code,
+      leaveTypeName: row.leave_type_name,
+      days,
+      status: row.status,
+      paidAt: row.paid_at
+    });
+    entry.totalDays += days;
+    if (row.status === 'pending') entry.pendingDays += days;
+  });
+
+  return Array.from(byEmployee.values());
+};
+
+/**
+ * Mark encashments as settled by payroll
+ */
+export const markEncashmentsPaid = async (ids: number[], userId: number): Promise<number> => {
+  logger.info(`[LEAVE ENCASHMENT] [MARK PAID] IDs: ${ids.join(', ')}, User: ${userId}`);
+
+  const result = await pool.query(
+    `UPDATE leave_encashments
+     SET status = 'paid', paid_at = CURRENT_TIMESTAMP, paid_by = $2, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ANY($1) AND status = 'pending'
+     RETURNING id, employee_id, year, days`,
+    [ids, userId]
+  );
+
+  for (const row of result.rows) {
+    await recordAudit({
+      userId,
+      action: 'MARK_PAID',
+      entityType: 'leave_encashment',
+      entityId: row.id,
+      oldValues: { status: 'pending' },
+      newValues: { status: 'paid', employeeId: row.employee_id, year: row.year, days: parseFloat(row.days) }
+    });
+  }
+
+  return result.rows.length;
+};
@@ -1,5 +1,6 @@
 import { pool } from '../database/db';
 import { logger } from '../utils/logger';
+import { recordAudit, recordChange } from './audit.service';
 
 export interface LeaveType {
     id: number;
@@ -7,6 +8,15 @@ export interface LeaveType {
     name: string;
     description: string;
     is_active: boolean;
+    requires_balance: boolean;
+    max_balance: string;
+    default_balance: string;
+}
+
+export interface LeaveTypeBalanceSettings {
+    requires_balance?: boolean;
+    max_balance?: number;
+    default_balance?: number;
 }
 
 export interface LeavePolicyConfig {
@@ -19,8 +29,10 @@ export interface LeavePolicyConfig {
     max_leave_per_month: string;
     anniversary_3_year_bonus: string;
     anniversary_5_year_bonus: string;
+    max_encashable_days: string;
     leave_type_name?: string;
     leave_type_code?: string;
+    requires_balance?: boolean;
     effective_from?: string;
 }
 
@@ -41,18 +53,34 @@ export const getLeaveTypes = async (): Promise<(LeaveType & { roles: string[] })
 /**
  * Create a new leave type
  */
-export const createLeaveType = async (code: string, name: string, description: string, requesterId: number): Promise<LeaveType> => {
+export const createLeaveType = async (
+    code: string,
+    name: string,
+    description: string,
+    requesterId: number,
+    balanceSettings: LeaveTypeBalanceSettings = {}
+): Promise<LeaveType> => {
     logger.info(`[LEAVE RULE SERVICE] [CREATE TYPE] creating ${name} (${code})`);
 
     const safeCode = code.toLowerCase().replace(/[^a-z0-9_]/g, '');
 
     const result = await pool.query(
-        `INSERT INTO leave_types (code, name, description, is_active, created_by, updated_by)
-     VALUES ($1, $2, $3, true, $4, $4)
+        `INSERT INTO leave_types (code, name, description, is_active, requires_balance, max_balance, default_balance, created_by, updated_by)
+     VALUES ($1, $2, $3, true, $4, $5, $6, $7, $7)
      RETURNING *`,
-        [safeCode, name, description, requesterId]
+        [
+            safeCode,
+            name,
+            description,
+            balanceSettings.requires_balance ?? true,
+            balanceSettings.max_balance ?? 99,
+            balanceSettings.default_balance ?? 0,
+            requesterId
+        ]
     );
 
+    await recordAudit({ userId: requesterId, action: 'CREATE', entityType: 'leave_type', entityId: result.rows[0].id, newValues: result.rows[0] });
+
     return result.rows[0];
 };
 
@@ -66,8 +94,12 @@ export const deleteLeaveType = async (id: number): Promise<void> => {
     try {
         await client.query('BEGIN');
         await client.query('DELETE FROM leave_policy_configurations WHERE leave_type_id = $1', [id]);
-        await client.query('DELETE FROM leave_types WHERE id = $1', [id]);
+        const deleted = await client.query('DELETE FROM leave_types WHERE id = $1 RETURNING *', [id]);
         await client.query('COMMIT');
+
+        if (deleted.rows.length > 0) {
+            await recordAudit({ action: 'DELETE', entityType: 'leave_type', entityId: id, oldValues: deleted.rows[0] });
+        }
     } catch (error) {
         await client.query('ROLLBACK');
         throw error;
@@ -81,7 +113,7 @@ export const deleteLeaveType = async (id: number): Promise<void> => {
  */
 export const updateLeaveType = async (
     id: number,
-    data: { name: string; description: string; is_active: boolean; roles: string[] },
+    data: { name: string; description: string; is_active: boolean; roles: string[] } & LeaveTypeBalanceSettings,
     requesterId: number
 ): Promise<LeaveType> => {
     logger.info(`[LEAVE RULE SERVICE] [UPDATE TYPE] Updating leave type ${id}`);
@@ -90,12 +122,30 @@ export const updateLeaveType = async (
     try {
         await client.query('BEGIN');
 
+        const beforeResult = await client.query(
+            `SELECT lt.*, ARRAY(SELECT role FROM leave_policy_configurations WHERE leave_type_id = lt.id ORDER BY role) as roles
+             FROM leave_types lt WHERE lt.id = $1`,
+            [id]
+        );
+
         const result = await client.query(
             `UPDATE leave_types 
-             SET name = $1, description = $2, is_active = $3, updated_at = CURRENT_TIMESTAMP, updated_by = $4
+             SET name = $1, description = $2, is_active = $3, updated_at = CURRENT_TIMESTAMP, updated_by = $4,
+                 requires_balance = COALESCE($6, requires_balance),
+                 max_balance = COALESCE($7, max_balance),
+                 default_balance = COALESCE($8, default_balance)
              WHERE id = $5
              RETURNING *`,
-            [data.name, data.description, data.is_active, requesterId, id]
+            [
+                data.name,
+                data.description,
+                data.is_active,
+                requesterId,
+                id,
+                data.requires_balance ?? null,
+                data.max_balance ?? null,
+                data.default_balance ?? null
+            ]
         );
 
         if (result.rows.length === 0) {
@@ -120,6 +170,16 @@ export const updateLeaveType = async (
         }
 
         await client.query('COMMIT');
+
+        await recordChange({
+            userId: requesterId,
+            action: 'UPDATE',
+            entityType: 'leave_type',
+            entityId: id,
+            before: beforeResult.rows[0] || null,
+            after: { ...leaveType, roles: [...data.roles].sort() }
+        });
+
         return leaveType;
     } catch (error) {
         await client.query('ROLLBACK');
@@ -139,7 +199,8 @@ export const getAllPolicies = async (): Promise<LeavePolicyConfig[]> => {
         SELECT 
           lpc.*,
           lt.name as leave_type_name,
-          lt.code as leave_type_code
+          lt.code as leave_type_code,
+          lt.requires_balance
         FROM leave_policy_configurations lpc
         JOIN leave_types lt ON lpc.leave_type_id = lt.id
         WHERE lt.is_active = true
@@ -195,6 +256,10 @@ export const updatePolicy = async (
         fields.push(`anniversary_5_year_bonus = $${idx++}`);
         values.push(updates.anniversary_5_year_bonus);
     }
+    if (updates.max_encashable_days !== undefined) {
+        fields.push(`max_encashable_days = $${idx++}`);
+        values.push(updates.max_encashable_days || 0);
+    }
     if (updates.effective_from !== undefined) {
         fields.push(`effective_from = $${idx++}`);
         // Convert empty string to null for DATE column
@@ -219,7 +284,18 @@ export const updatePolicy = async (
     logger.info(`[UPDATE POLICY] Query: ${query}`);
     logger.info(`[UPDATE POLICY] Values: ${JSON.stringify(values)}`);
 
+    const before = await pool.query('SELECT * FROM leave_policy_configurations WHERE id = $1', [id]);
     const result = await pool.query(query, values);
+
+    await recordChange({
+        userId: requesterId,
+        action: 'UPDATE',
+        entityType: 'leave_policy',
+        entityId: id,
+        before: before.rows[0] || null,
+        after: result.rows[0] || null
+    });
+
     return result.rows[0];
 };
 
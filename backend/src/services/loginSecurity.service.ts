@@ -0,0 +1,213 @@
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
+import { recordAudit } from './audit.service';
+import { hasPermission } from './permission.service';
+
+export type LoginMethod = 'password' | 'mfa' | 'sso';
+
+export interface LoginAttemptEntry {
+  email: string;
+  userId?: number | null;
+  method: LoginMethod;
+  success: boolean;
+  failureReason?: string;
+}
+
+export interface LoginHistoryEntry {
+  id: number;
+  method: LoginMethod;
+  success: boolean;
+  failureReason: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface AccountLockStatus {
+  lockedUntil: string | null;
+  recentFailures: number;
+}
+
+// Every 5th consecutive failure locks the account, for longer each time
+const FAILURES_PER_LOCK = 5;
+const LOCK_MINUTES = [15, 60, 24 * 60];
+// Failures older than this (or before the last success or HR unlock) are forgotten
+const FAILURE_WINDOW_HOURS = 24;
+// Sliding per-IP limit across all accounts
+const IP_MAX_FAILURES = 20;
+const IP_WINDOW_MINUTES = 15;
+// Attempts rejected without checking credentials do not extend a lock
+const UNCOUNTED_REASONS = ['locked', 'ip_blocked'];
+const HISTORY_RETENTION_DAYS = 180;
+
+export const LOCKED_MESSAGE_PREFIX = 'Too many failed sign-in attempts';
+
+const normalize = (email: string) => (email || '').trim().toLowerCase();
+
+/**
+ * Record one sign-in attempt. Like the audit log, a failure to record is logged and never
+ * blocks the sign-in itself.
+ */
+export const recordLoginAttempt = async (entry: LoginAttemptEntry): Promise<void> => {
+  const context = getRequestContext();
+  try {
+    await pool.query(
+      `INSERT INTO login_attempts (user_id, email, method, success, failure_reason, ip_address, user_agent)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        entry.userId ?? null,
+        normalize(entry.email),
+        entry.method,
+        entry.success,
+        entry.failureReason ?? null,
+        context?.ipAddress ?? null,
+        context?.userAgent ?? null
+      ]
+    );
+  } catch (error: any) {
+    logger.error(`[LOGIN SECURITY] Failed to record ${entry.method} attempt for ${entry.email}: ${error.message}`);
+  }
+};
+
+/**
+ * When the account behind this email is locked until, or null. Works the same whether or
+ * not the email belongs to an account.
+ */
+const getAccountLockedUntil = async (email: string): Promise<{ lockedUntil: Date | null; failures: number }> => {
+  const result = await pool.query(
+    `SELECT la.created_at
+     FROM login_attempts la
+     WHERE la.email = $1
+       AND la.success = false
+       AND la.method IN ('password', 'mfa')
+       AND COALESCE(la.failure_reason, '') <> ALL($2::text[])
+       AND la.created_at > GREATEST(
+         NOW() - make_interval(hours => $3),
+         COALESCE((SELECT MAX(s.created_at) FROM login_attempts s WHERE s.email = $1 AND s.success = true), '-infinity'::timestamp),
+         COALESCE((SELECT MAX(u.lockout_reset_at) FROM users u WHERE LOWER(TRIM(u.email)) = $1), '-infinity'::timestamp)
+       )
+     ORDER BY la.created_at ASC`,
+    [normalize(email), UNCOUNTED_REASONS, FAILURE_WINDOW_HOURS]
+  );
+
+  const failures = result.rows.length;
+  const locks = Math.floor(failures / FAILURES_PER_LOCK);
+  if (locks === 0) return { lockedUntil: null, failures };
+
+  // The lock starts at the failure that crossed the latest threshold
+  const lockStartedAt = new Date(result.rows[locks * FAILURES_PER_LOCK - 1].created_at);
+  const minutes = LOCK_MINUTES[Math.min(locks, LOCK_MINUTES.length) - 1];
+  const lockedUntil = new Date(lockStartedAt.getTime() + minutes * 60 * 1000);
+  return { lockedUntil: lockedUntil > new Date() ? lockedUntil : null, failures };
+};
+
+const getIpBlockedUntil = async (ipAddress: string): Promise<Date | null> => {
+  const result = await pool.query(
+    `SELECT created_at
+     FROM login_attempts
+     WHERE ip_address = $1
+       AND success = false
+       AND method IN ('password', 'mfa')
+       AND COALESCE(failure_reason, '') <> ALL($2::text[])
+       AND created_at > NOW() - make_interval(mins => $3)
+     ORDER BY created_at DESC
+     LIMIT $4`,
+    [ipAddress, UNCOUNTED_REASONS, IP_WINDOW_MINUTES, IP_MAX_FAILURES]
+  );
+  if (result.rows.length < IP_MAX_FAILURES) return null;
+
+  // Blocked until the oldest of the last N failures leaves the window
+  const oldest = new Date(result.rows[result.rows.length - 1].created_at);
+  return new Date(oldest.getTime() + IP_WINDOW_MINUTES * 60 * 1000);
+};
+
+const lockedMessage = (until: Date) => {
+  const minutes = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 60000));
+  const wait = minutes >= 120 ? `${Math.ceil(minutes / 60)} hours` : `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  return `${LOCKED_MESSAGE_PREFIX}. Try again in ${wait}.`;
+};
+
+/**
+ * Refuse the attempt before any credential is checked when the email or the client IP is
+ * locked out. The refusal is recorded but does not count as a failure.
+ */
+export const assertLoginAllowed = async (email: string, method: LoginMethod, userId: number | null = null): Promise<void> => {
+  const ipAddress = getRequestContext()?.ipAddress;
+  if (ipAddress) {
+    const blockedUntil = await getIpBlockedUntil(ipAddress);
+    if (blockedUntil) {
+      logger.warn(`[LOGIN SECURITY] IP blocked: ${ipAddress} until ${blockedUntil.toISOString()}`);
+      await recordLoginAttempt({ email, userId, method, success: false, failureReason: 'ip_blocked' });
+      throw new Error(lockedMessage(blockedUntil));
+    }
+  }
+
+  const { lockedUntil } = await getAccountLockedUntil(email);
+  if (lockedUntil) {
+    logger.warn(`[LOGIN SECURITY] Account locked: ${normalize(email)} until ${lockedUntil.toISOString()}`);
+    await recordLoginAttempt({ email, userId, method, success: false, failureReason: 'locked' });
+    throw new Error(lockedMessage(lockedUntil));
+  }
+};
+
+export const getAccountLockStatus = async (userId: number): Promise<AccountLockStatus> => {
+  const userResult = await pool.query('SELECT email FROM users WHERE id = $1', [userId]);
+  if (userResult.rows.length === 0) throw new Error('User not found');
+
+  const { lockedUntil, failures } = await getAccountLockedUntil(userResult.rows[0].email);
+  return { lockedUntil: lockedUntil ? lockedUntil.toISOString() : null, recentFailures: failures };
+};
+
+/**
+ * HR unlock: forget the account's earlier failures so it can sign in straight away. Accounts
+ * that can edit role permissions may only be unlocked by someone who can too.
+ */
+export const unlockAccount = async (adminId: number, adminRole: string, targetUserId: number): Promise<void> => {
+  logger.info(`[LOGIN SECURITY] [UNLOCK] Admin ID: ${adminId}, Target User ID: ${targetUserId}`);
+  const result = await pool.query('SELECT email, user_role as role FROM users WHERE id = $1', [targetUserId]);
+  if (result.rows.length === 0) throw new Error('User not found');
+  const target = result.rows[0];
+  if (await hasPermission(target.role, 'role.manage') && !(await hasPermission(adminRole, 'role.manage'))) {
+    throw new Error('Not authorized: only an administrator who manages roles can unlock this account');
+  }
+
+  const { lockedUntil, failures } = await getAccountLockedUntil(target.email);
+  await pool.query('UPDATE users SET lockout_reset_at = CURRENT_TIMESTAMP WHERE id = $1', [targetUserId]);
+  await recordAudit({
+    userId: adminId,
+    action: 'ACCOUNT_UNLOCK',
+    entityType: 'employee',
+    entityId: targetUserId,
+    oldValues: { lockedUntil: lockedUntil ? lockedUntil.toISOString() : null, recentFailures: failures },
+    newValues: { lockedUntil: null, recentFailures: 0 }
+  });
+};
+
+export const getLoginHistory = async (userId: number, limit: number = 20): Promise<LoginHistoryEntry[]> => {
+  const result = await pool.query(
+    `SELECT id, method, success, failure_reason, ip_address, user_agent, created_at
+     FROM login_attempts
+     WHERE user_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [userId, Math.min(Math.max(limit, 1), 100)]
+  );
+  return result.rows.map((row: any) => ({
+    id: row.id,
+    method: row.method,
+    success: row.success,
+    failureReason: row.failure_reason,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    createdAt: row.created_at
+  }));
+};
+
+export const purgeOldLoginAttempts = async (): Promise<number> => {
+  const result = await pool.query(
+    `DELETE FROM login_attempts WHERE created_at < NOW() - make_interval(days => $1)`,
+    [HISTORY_RETENTION_DAYS]
+  );
+  return result.rowCount ?? 0;
+};
@@ -0,0 +1,247 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { recordAudit } from './audit.service';
+
+const MFA_ISSUER = process.env.MFA_ISSUER || 'TensorGo LMS';
+const RECOVERY_CODE_COUNT = 10;
+export const MFA_ROLES = ['employee', 'intern', 'manager', 'hr', 'super_admin'];
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
+
+/**
+ * Replace the user's recovery codes with a fresh set; the plain codes are only ever returned here
+ */
+const issueRecoveryCodes = async (userId: number, db: any = pool): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  await db.query('DELETE FROM user_mfa_recovery_codes WHERE user_id = $1', [userId]);
+  await db.query(
+    `INSERT INTO user_mfa_recovery_codes (user_id, code_hash)
+     SELECT $1, UNNEST($2::varchar[])`,
+    [userId, codes.map(hashRecoveryCode)]
+  );
+  return codes;
+};
+
+export const getMfaRequiredRoles = async (): Promise<string[]> => {
+  const result = await pool.query('SELECT mfa_required_roles FROM security_settings WHERE id = 1');
+  return result.rows[0]?.mfa_required_roles || [];
+};
+
+export const isMfaRequiredForRole = async (role: string): Promise<boolean> =>
+  (await getMfaRequiredRoles()).includes(role);
+
+export const updateMfaRequiredRoles = async (userId: number, roles: string[]): Promise<string[]> => {
+  logger.info(`[MFA] [UPDATE REQUIRED ROLES] User ID: ${userId}, Roles: ${roles.join(', ')}`);
+  const unique = Array.from(new Set(roles));
+  if (unique.some((role) => !MFA_ROLES.includes(role))) {
+    throw new Error('Invalid role in MFA requirement');
+  }
+
+  const before = await getMfaRequiredRoles();
+  await pool.query(
+    `INSERT INTO security_settings (id, mfa_required_roles, updated_by, updated_at)
+     VALUES (1, $1, $2, CURRENT_TIMESTAMP)
+     ON CONFLICT (id) DO UPDATE SET mfa_required_roles = $1, updated_by = $2, updated_at = CURRENT_TIMESTAMP`,
+    [unique, userId]
+  );
+  await recordAudit({
+    userId,
+    action: 'UPDATE',
+    entityType: 'security_settings',
+    entityId: 1,
+    oldValues: { mfaRequiredRoles: before },
+    newValues: { mfaRequiredRoles: unique }
+  });
+  return unique;
+};
+
+export const getMfaStatus = async (userId: number): Promise<MfaStatus> => {
+  const result = await pool.query(
+    `SELECT u.mfa_enabled, u.mfa_enabled_at, u.user_role as role,
+            (SELECT COUNT(*)::int FROM user_mfa_recovery_codes c WHERE c.user_id = u.id AND c.used_at IS NULL) as remaining
+     FROM users u WHERE u.id = $1`,
+    [userId]
+  );
+  if (result.rows.length === 0) throw new Error('User not found');
+  const row = result.rows[0];
+  return {
+    enabled: !!row.mfa_enabled,
+    enabledAt: row.mfa_enabled_at,
+    required: await isMfaRequiredForRole(row.role),
+    recoveryCodesRemaining: row.mfa_enabled ? row.remaining : 0
+  };
+};
+
+/**
+ * Start enrolment: a new secret is kept as pending until a code generated from it is confirmed
+ */
+export const startEnrollment = async (userId: number): Promise<MfaEnrollment> => {
+  logger.info(`[MFA] [START ENROLLMENT] User ID: ${userId}`);
+  const userResult = await pool.query('SELECT email, mfa_enabled FROM users WHERE id = $1', [userId]);
+  if (userResult.rows.length === 0) throw new Error('User not found');
+  if (userResult.rows[0].mfa_enabled) throw new Error('Two-factor authentication is already enabled');
+
+  const secret = generateTotpSecret();
+  await pool.query('UPDATE users SET mfa_pending_secret = $1 WHERE id = $2', [secret, userId]);
+
+  const otpauthUrl = buildOtpauthUrl(secret, userResult.rows[0].email, MFA_ISSUER);
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+  return { secret, otpauthUrl, qrCode };
+};
+
+export const confirmEnrollment = async (userId: number, code: string): Promise<string[]> => {
+  logger.info(`[MFA] [CONFIRM ENROLLMENT] User ID: ${userId}`);
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await client.query('SELECT mfa_enabled, mfa_pending_secret FROM users WHERE id = $1 FOR UPDATE', [userId]);
+    if (result.rows.length === 0) throw new Error('User not found');
+    const { mfa_enabled, mfa_pending_secret } = result.rows[0];
+    if (mfa_enabled) throw new Error('Two-factor authentication is already enabled');
+    if (!mfa_pending_secret) throw new Error('Start setup again; no enrolment is in progress');
+
+    const step = verifyTotp(mfa_pending_secret, code);
+    if (step === null) throw new Error('Invalid verification code');
+
+    await client.query(
+      `UPDATE users
+       SET mfa_enabled = true, mfa_secret = mfa_pending_secret, mfa_pending_secret = NULL,
+           mfa_enabled_at = CURRENT_TIMESTAMP, mfa_last_used_step = $1
+       WHERE id = $2`,
+      [step, userId]
+    );
+    const recoveryCodes = await issueRecoveryCodes(userId, client);
+    await recordAudit({ userId, action: 'MFA_ENABLE', entityType: 'user', entityId: userId, newValues: { mfaEnabled: true } }, client);
+    await client.query('COMMIT');
+
+    logger.info(`[MFA] [CONFIRM ENROLLMENT] Two-factor authentication enabled for user ID: ${userId}`);
+    return recoveryCodes;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Check a second-factor code: an authenticator code, or an unused recovery code (which is then spent)
+ */
+export const verifyMfaCode = async (userId: number, code: string): Promise<boolean> => {
+  const result = await pool.query('SELECT mfa_enabled, mfa_secret, mfa_last_used_step FROM users WHERE id = $1', [userId]);
+  const user = result.rows[0];
+  if (!user?.mfa_enabled || !user.mfa_secret) return false;
+
+  const lastStep = user.mfa_last_used_step === null ? null : Number(user.mfa_last_used_step);
+  const step = verifyTotp(user.mfa_secret, code, lastStep);
+  if (step !== null) {
+    // Conditional update so two requests racing with the same code cannot both pass
+    const updated = await pool.query(
+      `UPDATE users SET mfa_last_used_step = $1
+       WHERE id = $2 AND (mfa_last_used_step IS NULL OR mfa_last_used_step < $1)`,
+      [step, userId]
+    );
+    return (updated.rowCount ?? 0) > 0;
+  }
+
+  const recovery = await pool.query(
+    `UPDATE user_mfa_recovery_codes SET used_at = CURRENT_TIMESTAMP
+     WHERE id = (
+       SELECT id FROM user_mfa_recovery_codes
+       WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+       LIMIT 1
+     )
+     RETURNING id`,
+    [userId, hashRecoveryCode(code || '')]
+  );
+  if (recovery.rows.length === 0) return false;
+
+  logger.warn(`[MFA] [VERIFY] Recovery code used by user ID: ${userId}`);
+  await recordAudit({ userId, action: 'MFA_RECOVERY_CODE_USED', entityType: 'user', entityId: userId });
+  return true;
+};
+
+export const regenerateRecoveryCodes = async (userId: number, code: string): Promise<string[]> => {
+  logger.info(`[MFA] [REGENERATE RECOVERY CODES] User ID: ${userId}`);
+  if (!(await verifyMfaCode(userId, code))) throw new Error('Invalid verification code');
+
+  const recoveryCodes = await issueRecoveryCodes(userId);
+  await recordAudit({ userId, action: 'MFA_RECOVERY_CODES_REGENERATED', entityType: 'user', entityId: userId });
+  return recoveryCodes;
+};
+
+export const disableMfa = async (userId: number, password: string, code: string): Promise<void> => {
+  logger.info(`[MFA] [DISABLE] User ID: ${userId}`);
+  const result = await pool.query('SELECT password_hash, user_role as role, mfa_enabled FROM users WHERE id = $1', [userId]);
+  if (result.rows.length === 0) throw new Error('User not found');
+  const user = result.rows[0];
+  if (!user.mfa_enabled) throw new Error('Two-factor authentication is not enabled');
+  if (await isMfaRequiredForRole(user.role)) {
+    throw new Error('Two-factor authentication is required for your role and cannot be turned off');
+  }
+  if (!(await bcrypt.compare(password || '', user.password_hash))) throw new Error('Password is incorrect');
+  if (!(await verifyMfaCode(userId, code))) throw new Error('Invalid verification code');
+
+  await pool.query(
+    `UPDATE users
+     SET mfa_enabled = false, mfa_secret = NULL, mfa_pending_secret = NULL, mfa_enabled_at = NULL, mfa_last_used_step = NULL
+     WHERE id = $1`,
+    [userId]
+  );
+  await pool.query('DELETE FROM user_mfa_recovery_codes WHERE user_id = $1', [userId]);
+  await recordAudit({ userId, action: 'MFA_DISABLE', entityType: 'user', entityId: userId, oldValues: { mfaEnabled: true }, newValues: { mfaEnabled: false } });
+};
+
+/**
+ * Admin reset for a user who lost their authenticator and recovery codes. They sign in with
+ * their password alone next time (or are asked to enrol again if their role requires it).
+ */
+export const resetMfa = async (adminId: number, adminRole: string, targetUserId: number): Promise<void> => {
+  logger.info(`[MFA] [RESET] Admin ID: ${adminId}, Target User ID: ${targetUserId}`);
+  if (adminId === targetUserId) throw new Error('You cannot reset your own two-factor authentication');
+
+  const result = await pool.query('SELECT user_role as role, mfa_enabled FROM users WHERE id = $1', [targetUserId]);
+  if (result.rows.length === 0) throw new Error('User not found');
+  const target = result.rows[0];
+  if (target.role === 'super_admin' && adminRole !== 'super_admin') {
+    throw new Error('Not authorized: only a super admin can reset a super admin');
+  }
+  if (!target.mfa_enabled) throw new Error('Two-factor authentication is not enabled for this user');
+
+  await pool.query(
+    `UPDATE users
+     SET mfa_enabled = false, mfa_secret = NULL, mfa_pending_secret = NULL, mfa_enabled_at = NULL, mfa_last_used_step = NULL
+     WHERE id = $1`,
+    [targetUserId]
+  );
+  await pool.query('DELETE FROM user_mfa_recovery_codes WHERE user_id = $1', [targetUserId]);
+  await recordAudit({
+    userId: adminId,
+    action: 'MFA_RESET',
+    entityType: 'employee',
+    entityId: targetUserId,
+    oldValues: { mfaEnabled: true },
+    newValues: { mfaEnabled: false }
+  });
+};
@@ -0,0 +1,357 @@
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+
+export type NotificationType =
+  | 'leave_application'
+  | 'leave_status'
+  | 'leave_allocation'
+  | 'leave_carry_forward'
+  | 'comp_off_claim'
+  | 'comp_off_status'
+  | 'floating_holiday_claim'
+  | 'floating_holiday_status'
+  | 'pending_leave_reminder'
+  | 'timesheet_status'
+  | 'timesheet_reminder'
+  | 'timesheet_submission'
+  | 'timesheet_summary'
+  | 'reporting_manager_update'
+  | 'role_update'
+  | 'status_update'
+  | 'employee_details_update'
+  | 'password_change'
+  | 'birthday'
+  | 'holiday_calendar_reminder';
+
+export type NotificationDelivery = 'immediate' | 'digest' | 'in_app' | 'off';
+
+export const NOTIFICATION_DELIVERY_OPTIONS: NotificationDelivery[] = ['immediate', 'digest', 'in_app', 'off'];
+
+/**
+ * Event types users can configure, in display order. Security alerts
+ * (password_change) are deliberately absent and always go out immediately.
+ */
+export const CONFIGURABLE_EVENT_TYPES: Array<{ eventType: NotificationType; label: string }> = [
+  { eventType: 'leave_application', label: 'Leave applications from my team' },
+  { eventType: 'pending_leave_reminder', label: 'Daily pending leave reminder' },
+  { eventType: 'leave_status', label: 'My leave approvals and rejections' },
+  { eventType: 'leave_allocation', label: 'Leave allocations' },
+  { eventType: 'leave_carry_forward', label: 'Year-end leave carry forward' },
+  { eventType: 'comp_off_claim', label: 'Comp-off claims from my team' },
+  { eventType: 'comp_off_status', label: 'My comp-off approvals and expiry' },
+  { eventType: 'floating_holiday_claim', label: 'Floating holiday claims from my team' },
+  { eventType: 'floating_holiday_status', label: 'My floating holiday approvals' },
+  { eventType: 'timesheet_submission', label: 'Timesheet submissions from my team' },
+  { eventType: 'timesheet_summary', label: 'Weekly team timesheet summary' },
+  { eventType: 'timesheet_status', label: 'My timesheet approvals and rejections' },
+  { eventType: 'timesheet_reminder', label: 'Timesheet reminders' },
+  { eventType: 'reporting_manager_update', label: 'Reporting manager changes' },
+  { eventType: 'role_update', label: 'Role changes' },
+  { eventType: 'status_update', label: 'Employment status changes' },
+  { eventType: 'employee_details_update', label: 'Profile updates by HR' },
+  { eventType: 'birthday', label: 'Birthdays' },
+  { eventType: 'holiday_calendar_reminder', label: 'Holiday calendar reminder' }
+];
+
+const DEFAULT_DELIVERY: NotificationDelivery = 'immediate';
+
+const isConfigurable = (eventType: string) =>
+  CONFIGURABLE_EVENT_TYPES.some((item) => item.eventType === eventType);
+
+export interface NotificationPreference {
+  eventType: NotificationType;
+  label: string;
+  delivery: NotificationDelivery;
+}
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  /** In-app route the notification opens, e.g. /leave-approval */
+  link?: string | null;
+}
+
+export interface Notification {
+  id: number;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link: string | null;
+  isRead: boolean;
+  readAt: string | null;
+  createdAt: string;
+}
+
+const normalizeAddresses = (emails: string | string[]) =>
+  (Array.isArray(emails) ? emails : [emails])
+    .filter(Boolean)
+    .map((email) => email.toLowerCase());
+
+const mapNotification = (row: any): Notification => ({
+  id: row.id,
+  type: row.type,
+  title: row.title,
+  message: row.message,
+  link: row.link,
+  isRead: row.is_read,
+  readAt: row.read_at,
+  createdAt: row.created_at
+});
+
+/**
+ * Create a notification for one user, honouring their preference for the event
+ * type. Failures are logged and swallowed so a notification problem never breaks
+ * the action that triggered it, which is why this runs outside any transaction.
+ */
+export const createNotification = async (
+  userId: number,
+  input: NotificationInput
+): Promise<void> => {
+  try {
+    await pool.query(
+      `INSERT INTO notifications (user_id, type, title, message, link, digest_pending)
+       SELECT u.id, $2, $3, $4, $5, COALESCE(np.delivery, $6) = 'digest'
+       FROM users u
+       LEFT JOIN notification_preferences np ON np.user_id = u.id AND np.event_type = $2
+       WHERE u.id = $1
+         AND COALESCE(np.delivery, $6) <> 'off'`,
+      [userId, input.type, input.title, input.message, input.link ?? null, DEFAULT_DELIVERY]
+    );
+  } catch (error: any) {
+    logger.error(`[NOTIFICATION] Failed to create ${input.type} notification for user ${userId}: ${error.message}`);
+  }
+};
+
+/**
+ * Create the same notification for every user matching the given email addresses.
+ * Used by the email helpers, which only know recipients by address. Users who
+ * turned the event type off are skipped; digest users are queued for the digest.
+ */
+export const createNotificationsForEmails = async (
+  emails: string | string[],
+  input: NotificationInput
+): Promise<void> => {
+  const addresses = normalizeAddresses(emails);
+  if (addresses.length === 0) return;
+
+  try {
+    const result = await pool.query(
+      `INSERT INTO notifications (user_id, type, title, message, link, digest_pending)
+       SELECT u.id, $2, $3, $4, $5, COALESCE(np.delivery, $6) = 'digest'
+       FROM users u
+       LEFT JOIN notification_preferences np ON np.user_id = u.id AND np.event_type = $2
+       WHERE LOWER(u.email) = ANY($1)
+         AND COALESCE(np.delivery, $6) <> 'off'`,
+      [addresses, input.type, input.title, input.message, input.link ?? null, DEFAULT_DELIVERY]
+    );
+    logger.info(`[NOTIFICATION] Created ${result.rowCount} ${input.type} notification(s)`);
+  } catch (error: any) {
+    logger.error(`[NOTIFICATION] Failed to create ${input.type} notifications: ${error.message}`);
+  }
+};
+
+/**
+ * Drop the addresses whose owners don't want an immediate email for this event type.
+ * Addresses that don't belong to a user (shared mailboxes) are always kept, and
+ * on a lookup failure every address is kept so email keeps flowing.
+ */
+export const filterImmediateEmailRecipients = async (
+  emails: string | string[] | undefined,
+  eventType: NotificationType
+): Promise<string[]> => {
+  const addresses = (Array.isArray(emails) ? emails : [emails]).filter((email): email is string => !!email);
+  if (addresses.length === 0 || !isConfigurable(eventType)) return addresses;
+
+  try {
+    const result = await pool.query(
+      `SELECT LOWER(u.email) as email
+       FROM users u
+       JOIN notification_preferences np ON np.user_id = u.id AND np.event_type = $2
+       WHERE LOWER(u.email) = ANY($1) AND np.delivery <> 'immediate'`,
+      [addresses.map((email) => email.toLowerCase()), eventType]
+    );
+    const optedOut = new Set(result.rows.map((row: any) => row.email));
+    return addresses.filter((email) => !optedOut.has(email.toLowerCase()));
+  } catch (error: any) {
+    logger.error(`[NOTIFICATION] Failed to read ${eventType} email preferences: ${error.message}`);
+    return addresses;
+  }
+};
+
+/**
+ * Notifications for the current user, newest first
+ */
+export const getNotifications = async (
+  userId: number,
+  page: number = 1,
+  limit: number = 20,
+  unreadOnly: boolean = false
+) => {
+  const safeLimit = Math.min(Math.max(limit, 1), 100);
+  const offset = (Math.max(page, 1) - 1) * safeLimit;
+  const unreadClause = unreadOnly ? 'AND is_read = false' : '';
+
+  const [rowsResult, countResult] = await Promise.all([
+    pool.query(
+      `SELECT * FROM notifications
+       WHERE user_id = $1 ${unreadClause}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2 OFFSET $3`,
+      [userId, safeLimit, offset]
+    ),
+    pool.query(
+      `SELECT COUNT(*) as total, COUNT(*) FILTER (WHERE is_read = false) as unread
+       FROM notifications WHERE user_id = $1`,
+      [userId]
+    )
+  ]);
+
+  const total = parseInt(countResult.rows[0].total, 10);
+  const unreadCount = parseInt(countResult.rows[0].unread, 10);
+
+  return {
+    notifications: rowsResult.rows.map(mapNotification),
+    unreadCount,
+    pagination: {
+      page: Math.max(page, 1),
+      limit: safeLimit,
+      total: unreadOnly ? unreadCount : total
+    }
+  };
+};
+
+export const getUnreadCount = async (userId: number): Promise<number> => {
+  const result = await pool.query(
+    'SELECT COUNT(*) FROM notifications WHERE user_id = $1 AND is_read = false',
+    [userId]
+  );
+  return parseInt(result.rows[0].count, 10);
+};
+
+export const markAsRead = async (userId: number, notificationId: number): Promise<Notification> => {
+  const result = await pool.query(
+    `UPDATE notifications
+     SET is_read = true, read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+     WHERE id = $1 AND user_id = $2
+     RETURNING *`,
+    [notificationId, userId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('Notification not found');
+  }
+
+  return mapNotification(result.rows[0]);
+};
+
+export const markAllAsRead = async (userId: number): Promise<number> => {
+  const result = await pool.query(
+    `UPDATE notifications
+     SET is_read = true, read_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND is_read = false`,
+    [userId]
+  );
+  logger.info(`[NOTIFICATION] [MARK ALL READ] User ${userId}: ${result.rowCount} notification(s) marked as read`);
+  return result.rowCount || 0;
+};
+
+/**
+ * Every configurable event type with the user's delivery choice (or the default)
+ */
+export const getPreferences = async (userId: number): Promise<NotificationPreference[]> => {
+  const result = await pool.query(
+    'SELECT event_type, delivery FROM notification_preferences WHERE user_id = $1',
+    [userId]
+  );
+  const saved = new Map<string, NotificationDelivery>(
+    result.rows.map((row: any) => [row.event_type, row.delivery])
+  );
+
+  return CONFIGURABLE_EVENT_TYPES.map(({ eventType, label }) => ({
+    eventType,
+    label,
+    delivery: saved.get(eventType) || DEFAULT_DELIVERY
+  }));
+};
+
+export const updatePreferences = async (
+  userId: number,
+  preferences: Array<{ eventType: string; delivery: string }>
+): Promise<NotificationPreference[]> => {
+  logger.info(`[NOTIFICATION] [UPDATE PREFERENCES] User ${userId}: ${JSON.stringify(preferences)}`);
+
+  for (const preference of preferences) {
+    if (!isConfigurable(preference.eventType)) {
+      throw new Error(`Unknown notification type: ${preference.eventType}`);
+    }
+    if (!NOTIFICATION_DELIVERY_OPTIONS.includes(preference.delivery as NotificationDelivery)) {
+      throw new Error(`Invalid delivery option: ${preference.delivery}`);
+    }
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    for (const preference of preferences) {
+      await client.query(
+        `INSERT INTO notification_preferences (user_id, event_type, delivery)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (user_id, event_type)
+         DO UPDATE SET delivery = EXCLUDED.delivery, updated_at = CURRENT_TIMESTAMP`,
+        [userId, preference.eventType, preference.delivery]
+      );
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return getPreferences(userId);
+};
+
+export interface PendingDigest {
+  userId: number;
+  email: string;
+  name: string;
+  notifications: Notification[];
+}
+
+/**
+ * Queued digest notifications grouped by recipient, skipping users who have left
+ */
+export const getPendingDigests = async (): Promise<PendingDigest[]> => {
+  const result = await pool.query(
+    `SELECT n.*, u.email, u.first_name || ' ' || COALESCE(u.last_name, '') as user_name
+     FROM notifications n
+     JOIN users u ON n.user_id = u.id
+     WHERE n.digest_pending = true
+       AND u.status IN ('active', 'on_notice')
+     ORDER BY n.user_id, n.created_at`
+  );
+
+  const digests = new Map<number, PendingDigest>();
+  for (const row of result.rows) {
+    if (!digests.has(row.user_id)) {
+      digests.set(row.user_id, {
+        userId: row.user_id,
+        email: row.email,
+        name: row.user_name.trim(),
+        notifications: []
+      });
+    }
+    digests.get(row.user_id)!.notifications.push(mapNotification(row));
+  }
+
+  return Array.from(digests.values());
+};
+
+export const markDigestSent = async (userId: number, notificationIds: number[]): Promise<void> => {
+  await pool.query(
+    'UPDATE notifications SET digest_pending = false WHERE user_id = $1 AND id = ANY($2)',
+    [userId, notificationIds]
+  );
+};
@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { generateOidcFlowToken, verifyOidcFlowToken } from '../utils/jwt';
+import { logger } from '../utils/logger';
+
+/**
+ * OpenID Connect single sign-on (authorization code flow with PKCE). The provider only
+ * vouches for an email address; the account itself must already exist in `users`.
+ *
+ * Configured through the environment:
+ *   OIDC_ISSUER            issuer URL, e.g. https://accounts.google.com
+ *   OIDC_CLIENT_ID         client registered with the provider
+ *   OIDC_CLIENT_SECRET     optional for public clients
+ *   OIDC_REDIRECT_URI      this API's /api/auth/oidc/callback as the browser reaches it
+ *   OIDC_ALLOWED_DOMAINS   comma-separated email domains (default tensorgo.com,tensorgo.co.in)
+ *   OIDC_PROVIDER_NAME     label for the login button (default "SSO")
+ *   OIDC_SCOPES            default "openid email profile"
+ */
+
+interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  redirectUri: string;
+  allowedDomains: string[];
+  providerName: string;
+  scopes: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'];
+
+let discoveryCache: { issuer: string; document: DiscoveryDocument; fetchedAt: number } | null = null;
+let jwksCache: { uri: string; keys: any[] } | null = null;
+
+const getConfig = (): OidcConfig | null => {
+  const issuer = process.env.OIDC_ISSUER?.trim();
+  const clientId = process.env.OIDC_CLIENT_ID?.trim();
+  const redirectUri = process.env.OIDC_REDIRECT_URI?.trim();
+  if (!issuer || !clientId || !redirectUri) return null;
+
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET?.trim() || null,
+    redirectUri,
+    allowedDomains: (process.env.OIDC_ALLOWED_DOMAINS || 'tensorgo.com,tensorgo.co.in')
+      .split(',')
+      .map((domain) => domain.trim().toLowerCase().replace(/^@/, ''))
+      .filter(Boolean),
+    providerName: process.env.OIDC_PROVIDER_NAME?.trim() || 'SSO',
+    scopes: process.env.OIDC_SCOPES?.trim() || 'openid email profile'
+  };
+};
+
+const requireConfig = (): OidcConfig => {
+  const config = getConfig();
+  if (!config) throw new Error('Single sign-on is not configured');
+  return config;
+};
+
+export const getPublicConfig = () => {
+  const config = getConfig();
+  return config ? { enabled: true, providerName: config.providerName } : { enabled: false, providerName: null };
+};
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(10000) });
+  const body: any = await response.json().catch(() => null);
+  if (!response.ok) {
+    const detail = body?.error_description || body?.error || response.statusText;
+    throw new Error(`Identity provider request failed (${response.status}): ${detail}`);
+  }
+  return body;
+};
+
+const getDiscovery = async (config: OidcConfig): Promise<DiscoveryDocument> => {
+  if (discoveryCache && discoveryCache.issuer === config.issuer && Date.now() - discoveryCache.fetchedAt < DISCOVERY_TTL_MS) {
+    return discoveryCache.document;
+  }
+
+  logger.info(`[OIDC] [DISCOVERY] Fetching configuration for issuer: ${config.issuer}`);
+  const document = await fetchJson(`${config.issuer}/.well-known/openid-configuration`);
+  if (document.issuer?.replace(/\/$/, '') !== config.issuer) {
+    throw new Error('Identity provider issuer does not match OIDC_ISSUER');
+  }
+  discoveryCache = { issuer: config.issuer, document, fetchedAt: Date.now() };
+  return document;
+};
+
+/**
+ * Signing key for an ID token; the key set is fetched again once when the kid is unknown
+ * so key rotation at the provider is picked up without a restart
+ */
+const getSigningKey = async (jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> => {
+  const findKey = () =>
+    jwksCache?.uri === jwksUri
+      ? jwksCache.keys.find((key) => (kid ? key.kid === kid : key.use !== 'enc'))
+      : undefined;
+
+  let jwk = findKey();
+  if (!jwk) {
+    const body = await fetchJson(jwksUri);
+    jwksCache = { uri: jwksUri, keys: body.keys || [] };
+    jwk = findKey();
+  }
+  if (!jwk) throw new Error('Signing key for the ID token was not found');
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+const base64Url = (buffer: Buffer) => buffer.toString('base64url');
+
+/**
+ * Start a sign-in: the URL to send the browser to, and the flow token to keep in a cookie
+ * until the provider redirects back
+ */
+export const createAuthorizationRequest = async (): Promise<{ url: string; flowToken: string }> => {
+  const config = requireConfig();
+  const discovery = await getDiscovery(config);
+
+  const state = base64Url(crypto.randomBytes(24));
+  const nonce = base64Url(crypto.randomBytes(24));
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  });
+
+  return {
+    url: `${discovery.authorization_endpoint}?${params.toString()}`,
+    flowToken: generateOidcFlowToken({ state, nonce, codeVerifier })
+  };
+};
+
+/**
+ * Finish a sign-in: exchange the code, verify the ID token and return the verified,
+ * allowed email address it carries
+ */
+export const completeAuthorization = async (code: string, state: string, flowToken: string | undefined): Promise<string> => {
+  const config = requireConfig();
+
+  let flow;
+  try {
+    flow = verifyOidcFlowToken(flowToken || '');
+  } catch {
+    throw new Error('Sign-in session expired. Please try again.');
+  }
+  const stateMatches =
+    !!state &&
+    state.length === flow.state.length &&
+    crypto.timingSafeEqual(Buffer.from(state), Buffer.from(flow.state));
+  if (!stateMatches) {
+    throw new Error('Sign-in session expired. Please try again.');
+  }
+
+  const discovery = await getDiscovery(config);
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    code_verifier: flow.codeVerifier,
+    client_id: config.clientId
+  });
+  if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson(discovery.token_endpoint, { method: 'POST', headers, body: body.toString() });
+  if (!tokens?.id_token) throw new Error('Identity provider did not return an ID token');
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') throw new Error('Malformed ID token');
+
+  const key = await getSigningKey(discovery.jwks_uri, decoded.header.kid);
+  let claims: any;
+  try {
+    claims = jwt.verify(tokens.id_token, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: discovery.issuer,
+      audience: config.clientId,
+      clockTolerance: 60
+    });
+  } catch (error: any) {
+    logger.warn(`[OIDC] [CALLBACK] ID token rejected: ${error.message}`);
+    throw new Error('Identity provider response could not be verified');
+  }
+  if (claims.nonce !== flow.nonce) throw new Error('Identity provider response could not be verified');
+
+  const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : '';
+  if (!email) throw new Error('Your identity provider did not share an email address');
+  // Providers that report verification must have verified the address
+  if (claims.email_verified === false || claims.email_verified === 'false') {
+    throw new Error('Your email address is not verified with the identity provider');
+  }
+
+  const domain = email.split('@')[1] || '';
+  if (!config.allowedDomains.includes(domain)) {
+    logger.warn(`[OIDC] [CALLBACK] Email domain not allowed: ${domain}`);
+    throw new Error('Sign in with your organization email address');
+  }
+
+  logger.info(`[OIDC] [CALLBACK] Identity verified for email: ${email}`);
+  return email;
+};
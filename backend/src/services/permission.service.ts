@@ -0,0 +1,146 @@
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { recordAudit } from './audit.service';
+
+/**
+ * Named permissions checked by routes and controllers. Which roles hold which permission
+ * is stored in role_permissions and edited by super admins.
+ */
+
+export interface PermissionDefinition {
+  key: string;
+  label: string;
+  group: string;
+}
+
+export const PERMISSIONS: PermissionDefinition[] = [
+  { key: 'dashboard.view', label: 'View the organisation dashboard', group: 'General' },
+  { key: 'audit.view', label: 'View and export the audit log', group: 'General' },
+
+  { key: 'leave.apply', label: 'Apply for leave, comp-off and floating holidays', group: 'Leave' },
+  { key: 'leave.approve', label: 'Approve or reject leave, comp-off and floating holiday requests', group: 'Leave' },
+  { key: 'leave.approve_hr_stage', label: 'Decide the HR stage of leave approval workflows', group: 'Leave' },
+  { key: 'leave.approve_any', label: 'Decide any leave, comp-off or floating holiday request at any approval stage', group: 'Leave' },
+  { key: 'leave.manage', label: "Manage anyone's leave, balances and encashment", group: 'Leave' },
+  { key: 'leave.convert_lop', label: 'Convert loss of pay to casual leave', group: 'Leave' },
+  { key: 'leave.rules', label: 'Edit leave types, policies and approval workflows', group: 'Leave' },
+  { key: 'team.view', label: 'Use the team calendar', group: 'Leave' },
+  { key: 'team.view_second_level', label: "See their reports' teams on the team calendar", group: 'Leave' },
+  { key: 'team.view_all', label: 'See everyone on the team calendar', group: 'Leave' },
+  { key: 'team.thresholds', label: 'Set the absence threshold of any project', group: 'Leave' },
+
+  { key: 'employee.view', label: 'View employee records', group: 'Employees' },
+  { key: 'employee.manage', label: 'Create and edit employees', group: 'Employees' },
+  { key: 'employee.edit_sensitive', label: "Change an employee's role, status or reporting manager", group: 'Employees' },
+  { key: 'employee.delete', label: 'Delete employees', group: 'Employees' },
+  { key: 'employee.security', label: 'Unlock accounts, reset 2FA and sign employees out', group: 'Employees' },
+  { key: 'employee.exit', label: 'Schedule and settle employee exits', group: 'Employees' },
+
+  { key: 'holiday.manage', label: 'Manage holidays and holiday calendars', group: 'Organisation' },
+  { key: 'schedule.manage', label: 'Manage work schedules', group: 'Organisation' },
+  { key: 'policy.manage', label: 'Publish and edit policies', group: 'Organisation' },
+
+  { key: 'timesheet.log', label: 'Log time', group: 'Timesheets' },
+  { key: 'timesheet.approve', label: 'Approve timesheets of their team', group: 'Timesheets' },
+  { key: 'timesheet.view_all', label: "View and approve anyone's timesheet", group: 'Timesheets' },
+  { key: 'timesheet.report', label: 'Generate timesheet reports', group: 'Timesheets' },
+  { key: 'timesheet.period.manage', label: 'Close and reopen timesheet periods', group: 'Timesheets' },
+  { key: 'timesheet.period.override', label: "Edit entries in closed periods and decide anyone's reopen request", group: 'Timesheets' },
+
+  { key: 'project.create', label: 'Create projects', group: 'Projects' },
+  { key: 'project.manage', label: 'Edit projects, modules and access they lead', group: 'Projects' },
+  { key: 'project.task', label: 'Create and edit tasks', group: 'Projects' },
+  { key: 'project.delete', label: 'Delete projects', group: 'Projects' },
+
+  { key: 'security.manage', label: 'Set sign-in security policy', group: 'Administration' },
+  { key: 'role.manage', label: 'Edit role permissions', group: 'Administration' }
+];
+
+export const ROLES = ['employee', 'intern', 'manager', 'hr', 'super_admin'];
+
+// Kept so super admins can never lock everyone out of this screen
+const LOCKED_GRANTS: Record<string, string[]> = { super_admin: ['role.manage'] };
+
+// Roles are checked on every request, so the table is cached briefly and reloaded on edit
+const CACHE_TTL_MS = 60 * 1000;
+let cache: { loadedAt: number; byRole: Map<string, Set<string>> } | null = null;
+
+const loadRolePermissions = async (): Promise<Map<string, Set<string>>> => {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.byRole;
+
+  const result = await pool.query('SELECT role, permission FROM role_permissions');
+  const byRole = new Map<string, Set<string>>();
+  for (const row of result.rows) {
+    if (!byRole.has(row.role)) byRole.set(row.role, new Set());
+    byRole.get(row.role)!.add(row.permission);
+  }
+  cache = { loadedAt: Date.now(), byRole };
+  return byRole;
+};
+
+export const getPermissionsForRole = async (role: string): Promise<string[]> => {
+  const byRole = await loadRolePermissions();
+  return Array.from(byRole.get(role) || []).sort();
+};
+
+export const hasPermission = async (role: string, permission: string): Promise<boolean> => {
+  const byRole = await loadRolePermissions();
+  return !!byRole.get(role)?.has(permission);
+};
+
+export const getRolesWithPermission = async (permission: string): Promise<string[]> => {
+  const byRole = await loadRolePermissions();
+  return ROLES.filter((role) => byRole.get(role)?.has(permission));
+};
+
+export const getRolePermissions = async (): Promise<{ permissions: PermissionDefinition[]; roles: Record<string, string[]> }> => {
+  const roles: Record<string, string[]> = {};
+  for (const role of ROLES) {
+    roles[role] = await getPermissionsForRole(role);
+  }
+  return { permissions: PERMISSIONS, roles };
+};
+
+export const updateRolePermissions = async (userId: number, role: string, permissions: string[]): Promise<string[]> => {
+  logger.info(`[PERMISSION] [UPDATE ROLE] User ID: ${userId}, Role: ${role}, Permissions: ${permissions.join(', ')}`);
+  if (!ROLES.includes(role)) throw new Error('Role not found');
+
+  const known = new Set(PERMISSIONS.map((permission) => permission.key));
+  const unique = Array.from(new Set(permissions));
+  const unknown = unique.filter((permission) => !known.has(permission));
+  if (unknown.length > 0) throw new Error(`Unknown permission: ${unknown.join(', ')}`);
+
+  const missingLocked = (LOCKED_GRANTS[role] || []).filter((permission) => !unique.includes(permission));
+  if (missingLocked.length > 0) {
+    throw new Error(`The ${role} role must keep: ${missingLocked.join(', ')}`);
+  }
+
+  const before = await getPermissionsForRole(role);
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM role_permissions WHERE role = $1 AND permission <> ALL($2::varchar[])', [role, unique]);
+    await client.query(
+      `INSERT INTO role_permissions (role, permission, granted_by)
+       SELECT $1, UNNEST($2::varchar[]), $3
+       ON CONFLICT (role, permission) DO NOTHING`,
+      [role, unique, userId]
+    );
+    await recordAudit({
+      userId,
+      action: 'UPDATE',
+      entityType: 'role_permissions',
+      oldValues: { role, permissions: before },
+      newValues: { role, permissions: unique.sort() }
+    }, client);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  cache = null;
+  return getPermissionsForRole(role);
+};
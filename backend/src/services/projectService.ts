@@ -1,4 +1,7 @@
 import { query, pool } from '../database/db';
+import { recordAudit } from './audit.service';
+import { TimesheetService } from './timesheet.service';
+import { TimesheetPeriodService } from './timesheetPeriod.service';
 
 export interface ProjectData {
   custom_id: string;
@@ -743,10 +746,15 @@ export class ProjectService {
     // 2. If time_spent and start_date are present, upsert into project_entries
     if (task.time_spent && task.start_date) {
       const entryRes = await client.query(
-        'SELECT id FROM project_entries WHERE task_id = $1 AND user_id = $2 AND activity_id IS NULL',
+        'SELECT id, log_date FROM project_entries WHERE task_id = $1 AND user_id = $2 AND activity_id IS NULL',
         [taskId, userId]
       );
 
+      // Neither the entry's current date nor the one it moves to may be in a closed period
+      const periodDates = [TimesheetService.formatDate(task.start_date)];
+      if (entryRes.rows.length > 0) periodDates.push(TimesheetService.formatDate(entryRes.rows[0].log_date));
+      await TimesheetPeriodService.assertPeriodEditable(client, userId, periodDates);
+
       if (entryRes.rows.length > 0) {
         // Update
         await client.query(`
@@ -919,13 +927,13 @@ export class ProjectService {
         }
       }
 
-      await client.query('COMMIT');
-
-      // Sync with Timesheet if needed
+      // Sync with Timesheet if needed; inside the transaction so a closed period rejects the whole edit
       if ((data.time_spent !== undefined || data.start_date !== undefined) && userId) {
-        await this.syncTaskWithTimesheet(id, userId, pool);
+        await this.syncTaskWithTimesheet(id, userId, client);
       }
 
+      await client.query('COMMIT');
+
       const res = await query('SELECT * FROM project_tasks WHERE id = $1', [id]);
       return res.rows[0];
     } catch (e) {
@@ -1527,6 +1535,14 @@ export class ProjectService {
       await client.query('COMMIT');
       console.log(`[ACCESS_TRACE] Committed.`);
 
+      await recordAudit({
+        userId: requestedBy,
+        action: action === 'add' ? 'GRANT_ACCESS' : 'REVOKE_ACCESS',
+        entityType: `${level}_access`,
+        entityId: targetId,
+        newValues: { userId, access: action === 'add' }
+      });
+
       // Fetch Updated List to return to frontend (Must include PM)
       let updatedUsers = [];
       if (level === 'module') {
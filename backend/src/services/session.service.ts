@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
+import { recordAudit } from './audit.service';
+import { LoginMethod } from './loginSecurity.service';
+
+/**
+ * Per-device sign-in sessions. The browser holds an opaque refresh token for its session;
+ * only the token's hash is stored and a new token replaces it on every refresh.
+ */
+
+export type SessionRevokeReason = 'logout' | 'user' | 'admin' | 'reuse' | 'password_change' | 'account_closed';
+
+export interface ActiveSession {
+  id: number;
+  loginMethod: LoginMethod | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface RefreshedSession {
+  sessionId: number;
+  userId: number;
+  // null when the token was already exchanged moments ago by a parallel request
+  refreshToken: string | null;
+}
+
+// A session ends when it has not been refreshed for this long
+export const SESSION_IDLE_DAYS = parseInt(process.env.SESSION_IDLE_DAYS || '7', 10);
+// Two tabs refreshing at once present the same token; the second one inside this window is
+// answered without rotating again instead of being treated as a stolen token
+const ROTATION_GRACE_SECONDS = 30;
+const ENDED_SESSION_RETENTION_DAYS = 30;
+
+const INVALID_REFRESH_TOKEN = 'Invalid or expired refresh token';
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+const generateToken = () => crypto.randomBytes(32).toString('base64url');
+
+export const createSession = async (userId: number, method: LoginMethod): Promise<{ sessionId: number; refreshToken: string }> => {
+  const context = getRequestContext();
+  const refreshToken = generateToken();
+
+  const result = await pool.query(
+    `WITH session AS (
+       INSERT INTO user_sessions (user_id, login_method, ip_address, user_agent, expires_at)
+       VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5))
+       RETURNING id
+     )
+     INSERT INTO user_session_tokens (token_hash, session_id)
+     SELECT $6, id FROM session
+     RETURNING session_id`,
+    [userId, method, context?.ipAddress ?? null, context?.userAgent ?? null, SESSION_IDLE_DAYS, hashToken(refreshToken)]
+  );
+
+  const sessionId = result.rows[0].session_id;
+  logger.info(`[SESSION] [CREATE] Session ${sessionId} created for user ID: ${userId}`);
+  return { sessionId, refreshToken };
+};
+
+/**
+ * Exchange a refresh token for a new one. A token that was already exchanged (outside the
+ * grace window) has been copied, so the session it belongs to is revoked on the spot.
+ */
+export const rotateSession = async (refreshToken: string): Promise<RefreshedSession> => {
+  const context = getRequestContext();
+  const tokenHash = hashToken(refreshToken || '');
+
+  const client = await pool.connect();
+  let outcome: RefreshedSession | 'invalid' | 'reused';
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `SELECT t.session_id, t.rotated_at,
+              t.rotated_at > NOW() - make_interval(secs => $2) as in_grace,
+              s.user_id, s.revoked_at, s.expires_at <= NOW() as expired
+       FROM user_session_tokens t
+       JOIN user_sessions s ON s.id = t.session_id
+       WHERE t.token_hash = $1
+       FOR UPDATE`,
+      [tokenHash, ROTATION_GRACE_SECONDS]
+    );
+    const row = result.rows[0];
+
+    if (!row || row.revoked_at || row.expired) {
+      outcome = 'invalid';
+    } else if (row.rotated_at && !row.in_grace) {
+      await client.query(
+        `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'reuse' WHERE id = $1`,
+        [row.session_id]
+      );
+      await recordAudit({
+        userId: row.user_id,
+        action: 'SESSION_TOKEN_REUSE',
+        entityType: 'user_session',
+        entityId: row.session_id,
+        newValues: { ipAddress: context?.ipAddress ?? null, userAgent: context?.userAgent ?? null }
+      }, client);
+      logger.warn(`[SESSION] [ROTATE] Refresh token reused; session ${row.session_id} revoked for user ID: ${row.user_id}`);
+      outcome = 'reused';
+    } else {
+      let nextToken: string | null = null;
+      if (!row.rotated_at) {
+        nextToken = generateToken();
+        await client.query('UPDATE user_session_tokens SET rotated_at = CURRENT_TIMESTAMP WHERE token_hash = $1', [tokenHash]);
+        await client.query('INSERT INTO user_session_tokens (token_hash, session_id) VALUES ($1, $2)', [hashToken(nextToken), row.session_id]);
+      }
+      await client.query(
+        `UPDATE user_sessions
+         SET last_used_at = CURRENT_TIMESTAMP,
+             ip_address = COALESCE($2, ip_address),
+             user_agent = COALESCE($3, user_agent),
+             expires_at = NOW() + make_interval(days => $4)
+         WHERE id = $1`,
+        [row.session_id, context?.ipAddress ?? null, context?.userAgent ?? null, SESSION_IDLE_DAYS]
+      );
+      outcome = { sessionId: row.session_id, userId: row.user_id, refreshToken: nextToken };
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if (outcome === 'invalid' || outcome === 'reused') throw new Error(INVALID_REFRESH_TOKEN);
+  return outcome;
+};
+
+export const listActiveSessions = async (userId: number, currentSessionId?: number): Promise<ActiveSession[]> => {
+  const result = await pool.query(
+    `SELECT id, login_method, ip_address, user_agent, created_at, last_used_at, expires_at
+     FROM user_sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY last_used_at DESC`,
+    [userId]
+  );
+  return result.rows.map((row: any) => ({
+    id: row.id,
+    loginMethod: row.login_method,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    expiresAt: row.expires_at,
+    current: row.id === currentSessionId
+  }));
+};
+
+export const revokeSession = async (
+  userId: number,
+  sessionId: number,
+  reason: SessionRevokeReason,
+  revokedBy: number | null = userId
+): Promise<void> => {
+  const result = await pool.query(
+    `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_by = $3, revoked_reason = $4
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+    [sessionId, userId, revokedBy, reason]
+  );
+  if ((result.rowCount ?? 0) === 0) throw new Error('Session not found');
+  logger.info(`[SESSION] [REVOKE] Session ${sessionId} revoked (${reason}) for user ID: ${userId}`);
+};
+
+/**
+ * End every open session of a user, optionally keeping the one making the request
+ */
+export const revokeAllSessions = async (
+  userId: number,
+  reason: SessionRevokeReason,
+  revokedBy: number | null = null,
+  exceptSessionId: number | null = null,
+  db: any = pool
+): Promise<number> => {
+  const result = await db.query(
+    `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_by = $2, revoked_reason = $3
+     WHERE user_id = $1 AND revoked_at IS NULL AND ($4::int IS NULL OR id <> $4)`,
+    [userId, revokedBy, reason, exceptSessionId]
+  );
+  const count = result.rowCount ?? 0;
+  logger.info(`[SESSION] [REVOKE ALL] ${count} session(s) revoked (${reason}) for user ID: ${userId}`);
+  return count;
+};
+
+/**
+ * Admin action, e.g. when someone leaves: sign the user out on every device
+ */
+export const revokeUserSessions = async (adminId: number, adminRole: string, targetUserId: number): Promise<number> => {
+  logger.info(`[SESSION] [ADMIN REVOKE] Admin ID: ${adminId}, Target User ID: ${targetUserId}`);
+  const result = await pool.query('SELECT user_role as role FROM users WHERE id = $1', [targetUserId]);
+  if (result.rows.length === 0) throw new Error('User not found');
+  if (result.rows[0].role === 'super_admin' && adminRole !== 'super_admin') {
+    throw new Error('Not authorized: only a super admin can sign out a super admin');
+  }
+
+  const revoked = await revokeAllSessions(targetUserId, 'admin', adminId);
+  await recordAudit({
+    userId: adminId,
+    action: 'SESSIONS_REVOKE',
+    entityType: 'employee',
+    entityId: targetUserId,
+    newValues: { revokedSessions: revoked }
+  });
+  return revoked;
+};
+
+export const countActiveSessions = async (userId: number): Promise<number> => {
+  const result = await pool.query(
+    'SELECT COUNT(*)::int as count FROM user_sessions WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()',
+    [userId]
+  );
+  return result.rows[0].count;
+};
+
+export const purgeEndedSessions = async (): Promise<number> => {
+  const result = await pool.query(
+    `DELETE FROM user_sessions
+     WHERE COALESCE(revoked_at, expires_at) < NOW() - make_interval(days => $1)`,
+    [ENDED_SESSION_RETENTION_DAYS]
+  );
+  return result.rowCount ?? 0;
+};
@@ -0,0 +1,426 @@
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { recordChange } from './audit.service';
+import { getDelegatorIds } from './approvalDelegation.service';
+import { hasPermission } from './permission.service';
+import { USER_CALENDAR_SQL, USER_DAY_OFF_SQL } from './holidayCalendar.service';
+import { getScheduleMap } from './workSchedule.service';
+
+/** Percentage of a team or project that may be out on one day before approvers are warned */
+export const DEFAULT_ABSENCE_THRESHOLD = 30;
+
+// Longest range the calendar loads at once: a month view plus the partial weeks around it
+const MAX_RANGE_DAYS = 62;
+
+const ACTIVE_USER_SQL = `u.status IN ('active', 'on_notice')`;
+
+export interface TeamCalendarMember {
+  id: number;
+  empId: string;
+  name: string;
+  /** Weekdays worked, 0 = Sunday ... 6 = Saturday */
+  workingDays: number[];
+}
+
+export interface TeamCalendarLeaveDay {
+  employeeId: number;
+  leaveRequestId: number;
+  date: string;
+  dayType: 'full' | 'half';
+  leaveType: string;
+  status: 'approved' | 'pending';
+  permissionStart: string | null;
+  permissionEnd: string | null;
+}
+
+export interface TeamCalendarHoliday {
+  employeeId: number;
+  date: string;
+  name: string;
+  isOptional: boolean;
+}
+
+export interface TeamCalendar {
+  startDate: string;
+  endDate: string;
+  members: TeamCalendarMember[];
+  leaveDays: TeamCalendarLeaveDay[];
+  /** Days off per member, from their own holiday calendar and approved floating claims */
+  holidays: TeamCalendarHoliday[];
+}
+
+export interface AbsenceConflict {
+  date: string;
+  scope: 'team' | 'project';
+  scopeId: number;
+  scopeName: string;
+  /** Members out that day if the leave is approved, including the applicant */
+  absentCount: number;
+  memberCount: number;
+  percent: number;
+  threshold: number;
+  absentees: string[];
+}
+
+export interface AbsenceThresholdSettings {
+  defaultThreshold: number;
+  /** The viewer's own team; null when nobody reports to them */
+  team: { threshold: number | null; memberCount: number } | null;
+  projects: Array<{ id: number; name: string; customId: string; threshold: number | null; memberCount: number }>;
+}
+
+const formatDate = (value: any): string => {
+  if (!(value instanceof Date)) return String(value);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+};
+
+const isDateString = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+const validateThreshold = (threshold: number | null) => {
+  if (threshold !== null && (!Number.isInteger(threshold) || threshold < 1 || threshold > 100)) {
+    throw new Error('Threshold must be a whole percentage between 1 and 100');
+  }
+};
+
+/**
+ * Employees whose leave the viewer looks after: direct reports, the two reporting levels
+ * below them with team.view_second_level (as HR's approval page), and everyone with team.view_all
+ */
+const getReporteeIds = async (viewerId: number, role: string): Promise<number[]> => {
+  let condition: string;
+  if (await hasPermission(role, 'team.view_all')) {
+    condition = `u.id != $1`;
+  } else if (await hasPermission(role, 'team.view_second_level')) {
+    condition = `u.id != $1 AND (u.reporting_manager_id = $1 OR l1.reporting_manager_id = $1)`;
+  } else {
+    condition = `u.reporting_manager_id = $1`;
+  }
+  const result = await pool.query(
+    `SELECT u.id FROM users u
+     LEFT JOIN users l1 ON u.reporting_manager_id = l1.id
+     WHERE ${condition} AND ${ACTIVE_USER_SQL}`,
+    [viewerId]
+  );
+  return result.rows.map((row: any) => row.id);
+};
+
+const assertProjectAccess = async (projectId: number, viewerId: number, role: string) => {
+  const result = await pool.query('SELECT project_manager_id FROM projects WHERE id = $1', [projectId]);
+  if (result.rows.length === 0) {
+    throw new Error('Project not found');
+  }
+  if (result.rows[0].project_manager_id !== viewerId && !(await hasPermission(role, 'leave.manage'))) {
+    throw new Error('Not authorized to view this project');
+  }
+};
+
+/**
+ * Leave days (approved and pending), permissions and holidays of the viewer's reportees,
+ * or of a project's members, between two dates
+ */
+export const getTeamCalendar = async (
+  viewerId: number,
+  role: string,
+  startDate: string,
+  endDate: string,
+  projectId?: number
+): Promise<TeamCalendar> => {
+  if (!isDateString(startDate) || !isDateString(endDate)) {
+    throw new Error('Start and end dates must be valid dates');
+  }
+  if (endDate < startDate) {
+    throw new Error('End date cannot be before start date');
+  }
+  const rangeDays = (new Date(`${endDate}T00:00:00Z`).getTime() - new Date(`${startDate}T00:00:00Z`).getTime()) / 86400000;
+  if (rangeDays > MAX_RANGE_DAYS) {
+    throw new Error(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+  }
+
+  let memberIds: number[];
+  if (projectId) {
+    await assertProjectAccess(projectId, viewerId, role);
+    const result = await pool.query(
+      `SELECT pm.user_id FROM project_members pm JOIN users u ON u.id = pm.user_id
+       WHERE pm.project_id = $1 AND ${ACTIVE_USER_SQL}`,
+      [projectId]
+    );
+    memberIds = result.rows.map((row: any) => row.user_id);
+  } else {
+    memberIds = await getReporteeIds(viewerId, role);
+  }
+
+  if (memberIds.length === 0) {
+    return { startDate, endDate, members: [], leaveDays: [], holidays: [] };
+  }
+
+  const [membersResult, leaveResult, holidayResult, schedules] = await Promise.all([
+    pool.query(
+      `SELECT u.id, u.emp_id, u.first_name || ' ' || COALESCE(u.last_name, '') as name
+       FROM users u WHERE u.id = ANY($1)
+       ORDER BY u.first_name, u.last_name`,
+      [memberIds]
+    ),
+    pool.query(
+      `SELECT ld.employee_id, ld.leave_request_id, ld.leave_date, ld.day_type, ld.day_status,
+              lr.leave_type, lr.time_for_permission_start, lr.time_for_permission_end
+       FROM leave_days ld
+       JOIN leave_requests lr ON lr.id = ld.leave_request_id
+       WHERE ld.employee_id = ANY($1)
+         AND ld.leave_date BETWEEN $2 AND $3
+         AND ld.day_status IN ('approved', 'pending')
+         AND lr.current_status != 'cancelled'
+       ORDER BY ld.leave_date`,
+      [memberIds, startDate, endDate]
+    ),
+    pool.query(
+      `SELECT u.id as employee_id, h.holiday_date, h.holiday_name, h.is_optional
+       FROM users u
+       JOIN holidays h ON h.calendar_id = ${USER_CALENDAR_SQL}
+       WHERE u.id = ANY($1)
+         AND h.is_active = true
+         AND h.holiday_date BETWEEN $2 AND $3
+         AND ${USER_DAY_OFF_SQL}
+       ORDER BY h.holiday_date`,
+      [memberIds, startDate, endDate]
+    ),
+    getScheduleMap(memberIds)
+  ]);
+
+  return {
+    startDate,
+    endDate,
+    members: membersResult.rows.map((row: any) => ({
+      id: row.id,
+      empId: row.emp_id,
+      name: (row.name || '').trim(),
+      workingDays: schedules.get(row.id)?.workingDays || []
+    })),
+    leaveDays: leaveResult.rows.map((row: any) => ({
+      employeeId: row.employee_id,
+      leaveRequestId: row.leave_request_id,
+      date: formatDate(row.leave_date),
+      dayType: row.day_type,
+      leaveType: row.leave_type,
+      status: row.day_status,
+      permissionStart: row.time_for_permission_start ? String(row.time_for_permission_start).slice(0, 5) : null,
+      permissionEnd: row.time_for_permission_end ? String(row.time_for_permission_end).slice(0, 5) : null
+    })),
+    holidays: holidayResult.rows.map((row: any) => ({
+      employeeId: row.employee_id,
+      date: formatDate(row.holiday_date),
+      name: row.holiday_name,
+      isOptional: row.is_optional
+    }))
+  };
+};
+
+/**
+ * Days of a pending leave request on which approving it would put more than the threshold
+ * of the applicant's team, or of any active project they are on, out of office.
+ * Permissions only take a few hours and do not count as absence.
+ */
+export const getLeaveConflicts = async (leaveRequestId: number, viewerId: number, role: string): Promise<AbsenceConflict[]> => {
+  const requestResult = await pool.query(
+    `SELECT lr.employee_id, lr.leave_type, u.reporting_manager_id, l1.reporting_manager_id as l2_manager_id,
+            m.first_name || ' ' || COALESCE(m.last_name, '') as manager_name, m.team_absence_threshold
+     FROM leave_requests lr
+     JOIN users u ON u.id = lr.employee_id
+     LEFT JOIN users l1 ON u.reporting_manager_id = l1.id
+     LEFT JOIN users m ON m.id = u.reporting_manager_id
+     WHERE lr.id = $1`,
+    [leaveRequestId]
+  );
+  if (requestResult.rows.length === 0) {
+    throw new Error('Leave request not found');
+  }
+  const request = requestResult.rows[0];
+
+  if (request.reporting_manager_id !== viewerId && request.l2_manager_id !== viewerId && !(await hasPermission(role, 'leave.manage'))) {
+    const delegatorIds = await getDelegatorIds(viewerId);
+    if (!delegatorIds.includes(request.reporting_manager_id)) {
+      throw new Error('Not authorized to view this leave request');
+    }
+  }
+
+  if (request.leave_type === 'permission') return [];
+
+  const datesResult = await pool.query(
+    `SELECT leave_date FROM leave_days WHERE leave_request_id = $1 AND day_status = 'pending' ORDER BY leave_date`,
+    [leaveRequestId]
+  );
+  const dates = datesResult.rows.map((row: any) => formatDate(row.leave_date));
+  if (dates.length === 0) return [];
+
+  const groups: Array<{ scope: 'team' | 'project'; scopeId: number; scopeName: string; threshold: number; memberIds: number[] }> = [];
+
+  if (request.reporting_manager_id) {
+    const teamResult = await pool.query(
+      `SELECT u.id FROM users u WHERE u.reporting_manager_id = $1 AND ${ACTIVE_USER_SQL}`,
+      [request.reporting_manager_id]
+    );
+    groups.push({
+      scope: 'team',
+      scopeId: request.reporting_manager_id,
+      scopeName: `${(request.manager_name || '').trim()}'s team`,
+      threshold: request.team_absence_threshold ?? DEFAULT_ABSENCE_THRESHOLD,
+      memberIds: teamResult.rows.map((row: any) => row.id)
+    });
+  }
+
+  const projectResult = await pool.query(
+    `SELECT p.id, p.name, p.absence_threshold,
+            ARRAY_AGG(u.id) FILTER (WHERE ${ACTIVE_USER_SQL}) as member_ids
+     FROM projects p
+     JOIN project_members own ON own.project_id = p.id AND own.user_id = $1
+     JOIN project_members pm ON pm.project_id = p.id
+     JOIN users u ON u.id = pm.user_id
+     WHERE p.status = 'active'
+     GROUP BY p.id, p.name, p.absence_threshold`,
+    [request.employee_id]
+  );
+  projectResult.rows.forEach((row: any) => {
+    groups.push({
+      scope: 'project',
+      scopeId: row.id,
+      scopeName: row.name,
+      threshold: row.absence_threshold ?? DEFAULT_ABSENCE_THRESHOLD,
+      memberIds: row.member_ids || []
+    });
+  });
+
+  // A group of one is always fully out when its only member is on leave
+  const relevantGroups = groups.filter((group) => group.memberIds.length > 1);
+  if (relevantGroups.length === 0) return [];
+
+  const allMemberIds = Array.from(new Set(relevantGroups.flatMap((group) => group.memberIds)));
+  const absentResult = await pool.query(
+    `SELECT DISTINCT ld.employee_id, ld.leave_date, u.first_name || ' ' || COALESCE(u.last_name, '') as name
+     FROM leave_days ld
+     JOIN leave_requests lr ON lr.id = ld.leave_request_id
+     JOIN users u ON u.id = ld.employee_id
+     WHERE ld.employee_id = ANY($1)
+       AND ld.employee_id != $2
+       AND ld.leave_date = ANY($3::date[])
+       AND ld.day_status = 'approved'
+       AND lr.leave_type != 'permission'`,
+    [allMemberIds, request.employee_id, dates]
+  );
+  const absentByDate = new Map<string, Array<{ id: number; name: string }>>();
+  absentResult.rows.forEach((row: any) => {
+    const date = formatDate(row.leave_date);
+    absentByDate.set(date, [...(absentByDate.get(date) || []), { id: row.employee_id, name: (row.name || '').trim() }]);
+  });
+
+  const conflicts: AbsenceConflict[] = [];
+  dates.forEach((date) => {
+    relevantGroups.forEach((group) => {
+      const absentees = (absentByDate.get(date) || []).filter((absentee) => group.memberIds.includes(absentee.id));
+      const absentCount = absentees.length + 1;
+      const percent = Math.round((absentCount / group.memberIds.length) * 100);
+      if (percent > group.threshold) {
+        conflicts.push({
+          date,
+          scope: group.scope,
+          scopeId: group.scopeId,
+          scopeName: group.scopeName,
+          absentCount,
+          memberCount: group.memberIds.length,
+          percent,
+          threshold: group.threshold,
+          absentees: absentees.map((absentee) => absentee.name)
+        });
+      }
+    });
+  });
+
+  logger.info(`[TEAM CALENDAR] [CONFLICTS] Leave Request: ${leaveRequestId}, Conflicts: ${conflicts.length}`);
+  return conflicts;
+};
+
+// ============================================================================
+// Threshold configuration
+// ============================================================================
+
+/**
+ * Thresholds the viewer can set: their own team's, and those of the projects they manage
+ * (every active project with team.thresholds)
+ */
+export const getThresholdSettings = async (viewerId: number, role: string): Promise<AbsenceThresholdSettings> => {
+  const [teamResult, projectResult] = await Promise.all([
+    pool.query(
+      `SELECT m.team_absence_threshold,
+              (SELECT COUNT(*) FROM users u WHERE u.reporting_manager_id = m.id AND ${ACTIVE_USER_SQL}) as member_count
+       FROM users m WHERE m.id = $1`,
+      [viewerId]
+    ),
+    pool.query(
+      `SELECT p.id, p.name, p.custom_id, p.absence_threshold,
+              (SELECT COUNT(*) FROM project_members pm JOIN users u ON u.id = pm.user_id
+               WHERE pm.project_id = p.id AND ${ACTIVE_USER_SQL}) as member_count
+       FROM projects p
+       WHERE p.status = 'active' AND ($2 OR p.project_manager_id = $1)
+       ORDER BY p.name`,
+      [viewerId, await hasPermission(role, 'team.thresholds')]
+    )
+  ]);
+
+  const team = teamResult.rows[0];
+  const teamSize = team ? parseInt(team.member_count) : 0;
+  return {
+    defaultThreshold: DEFAULT_ABSENCE_THRESHOLD,
+    team: teamSize > 0 ? { threshold: team.team_absence_threshold, memberCount: teamSize } : null,
+    projects: projectResult.rows.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      customId: row.custom_id,
+      threshold: row.absence_threshold,
+      memberCount: parseInt(row.member_count)
+    }))
+  };
+};
+
+/**
+ * Set the absence threshold of the viewer's own team; null restores the default
+ */
+export const updateTeamThreshold = async (viewerId: number, threshold: number | null): Promise<void> => {
+  validateThreshold(threshold);
+  const before = await pool.query('SELECT team_absence_threshold FROM users WHERE id = $1', [viewerId]);
+  await pool.query('UPDATE users SET team_absence_threshold = $1 WHERE id = $2', [threshold, viewerId]);
+  await recordChange({
+    userId: viewerId,
+    action: 'UPDATE',
+    entityType: 'user',
+    entityId: viewerId,
+    before: { teamAbsenceThreshold: before.rows[0]?.team_absence_threshold ?? null },
+    after: { teamAbsenceThreshold: threshold }
+  });
+};
+
+/**
+ * Set a project's absence threshold; only its project manager or someone with team.thresholds may
+ */
+export const updateProjectThreshold = async (
+  projectId: number,
+  viewerId: number,
+  role: string,
+  threshold: number | null
+): Promise<void> => {
+  validateThreshold(threshold);
+  const before = await pool.query('SELECT project_manager_id, absence_threshold FROM projects WHERE id = $1', [projectId]);
+  if (before.rows.length === 0) {
+    throw new Error('Project not found');
+  }
+  if (before.rows[0].project_manager_id !== viewerId && !(await hasPermission(role, 'team.thresholds'))) {
+    throw new Error('Not authorized to change this project');
+  }
+
+  await pool.query('UPDATE projects SET absence_threshold = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2', [threshold, projectId]);
+  await recordChange({
+    userId: viewerId,
+    action: 'UPDATE',
+    entityType: 'project',
+    entityId: projectId,
+    before: { absenceThreshold: before.rows[0].absence_threshold },
+    after: { absenceThreshold: threshold }
+  });
+};
@@ -1,7 +1,14 @@
+import { PoolClient } from 'pg';
 import { pool } from '../database/db';
 import { logger } from '../utils/logger';
 import { sendEmail } from '../utils/email';
 import { sendTimesheetStatusEmail, sendTimesheetReminderEmail, sendTimesheetSubmissionEmail } from '../utils/emailTemplates';
+import { recordAudit } from './audit.service';
+import { getDelegatorIds, getOnBehalfOf } from './approvalDelegation.service';
+import { getDayHours, getEmployeeSchedule, getScheduleMap, isWorkingDay } from './workSchedule.service';
+import { USER_CALENDAR_SQL, USER_DAY_OFF_SQL, getCalendarUserIds } from './holidayCalendar.service';
+import { TimesheetPeriodService } from './timesheetPeriod.service';
+import { hasPermission } from './permission.service';
 
 export interface TimesheetEntry {
     id?: number;
@@ -21,6 +28,28 @@ export interface TimesheetEntry {
     is_resubmission?: boolean;
 }
 
+export interface DraftEntryResult {
+    created: number;
+    skipped: Array<{ log_date: string; description: string; reason: string }>;
+}
+
+export interface EntryChange {
+    field: string;
+    before: string;
+    after: string;
+}
+
+// Fields compared between an entry and an earlier revision of it
+const REVISION_FIELDS: Array<{ field: string; value: (row: any) => string }> = [
+    { field: 'Project', value: row => row.project_name || '' },
+    { field: 'Module', value: row => row.module_name || '' },
+    { field: 'Task', value: row => row.task_name || '' },
+    { field: 'Date', value: row => TimesheetService.formatDate(row.log_date) },
+    { field: 'Duration', value: row => `${parseFloat(row.duration).toFixed(2)} hrs` },
+    { field: 'Description', value: row => row.description || '' },
+    { field: 'Work Status', value: row => row.work_status || '' }
+];
+
 export class TimesheetService {
 
     // Helper to format date safely without timezone shift
@@ -87,6 +116,8 @@ export class TimesheetService {
                 ORDER BY t.log_date ASC, t.created_at ASC
             `, [userId, startDateStr, endDateStr]);
 
+            await TimesheetService.attachChangesSinceRejection(client, res.rows);
+
             let entries = res.rows.map(e => {
                 // Formatting date strictly
                 e.log_date = TimesheetService.formatDate(e.log_date);
@@ -135,6 +166,7 @@ export class TimesheetService {
 
 
             // 3. Fetch Approved Leaves in Range
+            const schedule = await getEmployeeSchedule(userId, client);
             const leaveRes = await client.query(`
                 SELECT id, leave_type, start_date, end_date, no_of_days, reason, start_type, end_type
                 FROM leave_requests
@@ -150,7 +182,8 @@ export class TimesheetService {
                 const rangeEnd = new Date(endDateStr);
 
                 while (d <= end) {
-                    if (d >= rangeStart && d <= rangeEnd) {
+                    // Days outside the work schedule carry no leave hours
+                    if (d >= rangeStart && d <= rangeEnd && isWorkingDay(schedule, d)) {
                         const dateStr = TimesheetService.formatDate(d);
 
                         let isHalfDay = false;
@@ -158,7 +191,7 @@ export class TimesheetService {
                         if (dateStr === TimesheetService.formatDate(leave.end_date) && leave.end_type === 'half') isHalfDay = true;
 
                         const durationType = isHalfDay ? 'Half Day' : 'Full Day';
-                        let duration = isHalfDay ? 4 : 8;
+                        let duration = getDayHours(schedule, isHalfDay);
 
                         // CHECK DUPLICATE for Leaves
                         // Robust check: Look for existing Holiday or Leave entries by Module Name
@@ -210,213 +243,326 @@ export class TimesheetService {
         }
     }
 
-    static async upsertEntry(userId: number, entry: TimesheetEntry) {
+    /**
+     * Save a draft entry. Pass `db` to run inside the caller's transaction (e.g. stopping a timer,
+     * which must log the time and remove the timer together); otherwise it runs in its own.
+     */
+    static async upsertEntry(userId: number, entry: TimesheetEntry, db?: PoolClient) {
+        if (db) return TimesheetService.saveEntry(db, userId, entry);
+
         const client = await pool.connect();
         try {
             await client.query('BEGIN');
+            const saved = await TimesheetService.saveEntry(client, userId, entry);
+            await client.query('COMMIT');
+            return saved;
+        } catch (e) {
+            await client.query('ROLLBACK');
+            throw e;
+        } finally {
+            client.release();
+        }
+    }
 
-            const logDate = new Date(entry.log_date);
-            const today = new Date();
-            today.setHours(0, 0, 0, 0);
-            const logDateOnly = new Date(logDate);
-            logDateOnly.setHours(0, 0, 0, 0);
-
-            // Validation 1: Future Date
-            if (logDateOnly > today) {
-                throw new Error("Cannot log time for future dates");
-            }
+    private static async saveEntry(client: PoolClient, userId: number, entry: TimesheetEntry) {
+        const logDate = new Date(entry.log_date);
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        const logDateOnly = new Date(logDate);
+        logDateOnly.setHours(0, 0, 0, 0);
 
-            // Validation 2: Current Week and One Previous
-            // Validation 2: Current Week and One Previous
-            const { start, end } = TimesheetService.getCurrentWeekRange();
-            const previousWeekStart = new Date(start);
-            previousWeekStart.setDate(previousWeekStart.getDate() - 7);
+        // Validation 1: Future Date
+        if (logDateOnly > today) {
+            throw new Error("Cannot log time for future dates");
+        }
 
-            // Relax validation for Updates (to allow fixing rejected logs from older weeks)
-            // Allow logging from previous week Monday to today
-            if (!entry.id && (logDateOnly < previousWeekStart || logDateOnly > today)) {
-                throw new Error("Can only log time for the current week or previous week");
-            }
+        // Validation 1b: Closed Period (an edited entry's current date counts too, so it cannot be moved out)
+        const periodDates = [String(entry.log_date)];
+        if (entry.id) {
+            const currentDateRes = await client.query('SELECT log_date FROM project_entries WHERE id = $1', [entry.id]);
+            if (currentDateRes.rows.length > 0) periodDates.push(TimesheetService.formatDate(currentDateRes.rows[0].log_date));
+        }
+        await TimesheetPeriodService.assertPeriodEditable(client, userId, periodDates);
 
-            // Validation 3: Past Week Submission Restriction
-            // If the date being logged is before the current week, check if that week is already submitted or approved
-            if (logDateOnly < start) {
-                const logDay = logDateOnly.getDay();
-                const logDiff = logDateOnly.getDate() - logDay + (logDay === 0 ? -6 : 1);
-                const logMonday = new Date(logDateOnly);
-                logMonday.setDate(logDiff);
-                logMonday.setHours(0, 0, 0, 0);
-                const logSunday = new Date(logMonday);
-                logSunday.setDate(logMonday.getDate() + 6);
-                logSunday.setHours(23, 59, 59, 999);
-
-                // Check if we are updating a rejected entry - if so, allow it even if the week is locked
-                let isFixingRejected = false;
-                if (entry.id) {
-                    const currentEntry = await client.query('SELECT log_status FROM project_entries WHERE id = $1', [entry.id]);
-                    if (currentEntry.rows.length > 0 && currentEntry.rows[0].log_status === 'rejected') {
-                        isFixingRejected = true;
-                    }
-                }
+        // Validation 2: Current Week and One Previous
+        // Validation 2: Current Week and One Previous
+        const { start, end } = TimesheetService.getCurrentWeekRange();
+        const previousWeekStart = new Date(start);
+        previousWeekStart.setDate(previousWeekStart.getDate() - 7);
 
-                if (!isFixingRejected) {
-                    const lockCheck = await client.query(`
-                        SELECT 1 FROM project_entries 
-                        WHERE user_id = $1 
-                          AND log_date >= $2 AND log_date <= $3
-                          AND log_status IN ('submitted', 'approved')
-                        LIMIT 1
-                    `, [userId, logMonday.toISOString().split('T')[0], logSunday.toISOString().split('T')[0]]);
+        // Relax validation for Updates (to allow fixing rejected logs from older weeks)
+        // Allow logging from previous week Monday to today
+        if (!entry.id && (logDateOnly < previousWeekStart || logDateOnly > today)) {
+            throw new Error("Can only log time for the current week or previous week");
+        }
 
-                    if (lockCheck.rows.length > 0) {
-                        throw new Error("Cannot add or modify logs for a week that is already submitted or approved.");
-                    }
+        // Validation 3: Past Week Submission Restriction
+        // If the date being logged is before the current week, check if that week is already submitted or approved
+        if (logDateOnly < start) {
+            const logDay = logDateOnly.getDay();
+            const logDiff = logDateOnly.getDate() - logDay + (logDay === 0 ? -6 : 1);
+            const logMonday = new Date(logDateOnly);
+            logMonday.setDate(logDiff);
+            logMonday.setHours(0, 0, 0, 0);
+            const logSunday = new Date(logMonday);
+            logSunday.setDate(logMonday.getDate() + 6);
+            logSunday.setHours(23, 59, 59, 999);
+
+            // Check if we are updating a rejected entry - if so, allow it even if the week is locked
+            let isFixingRejected = false;
+            if (entry.id) {
+                const currentEntry = await client.query('SELECT log_status FROM project_entries WHERE id = $1', [entry.id]);
+                if (currentEntry.rows.length > 0 && currentEntry.rows[0].log_status === 'rejected') {
+                    isFixingRejected = true;
                 }
             }
 
-            // Validation 4: Max 12 Hours Per Day (Updated from 24)
-            const dailyTotalRes = await client.query(`
-                SELECT COALESCE(SUM(duration), 0)::float as total
-                FROM project_entries
-                WHERE user_id = $1 AND log_date = $2 AND id != $3
-            `, [userId, entry.log_date, entry.id || -1]);
+            if (!isFixingRejected) {
+                const lockCheck = await client.query(`
+                    SELECT 1 FROM project_entries 
+                    WHERE user_id = $1 
+                      AND log_date >= $2 AND log_date <= $3
+                      AND log_status IN ('submitted', 'approved')
+                    LIMIT 1
+                `, [userId, logMonday.toISOString().split('T')[0], logSunday.toISOString().split('T')[0]]);
 
-            const existingDailyTotal = parseFloat(dailyTotalRes.rows[0].total);
-            if (existingDailyTotal + entry.duration > 12) {
-                throw new Error("You cannot log for more than 12 hours in a day");
+                if (lockCheck.rows.length > 0) {
+                    throw new Error("Cannot add or modify logs for a week that is already submitted or approved.");
+                }
             }
+        }
 
-            // Validation 5: Check for Holidays
-            const holidayRes = await client.query('SELECT holiday_name FROM holidays WHERE holiday_date = $1', [entry.log_date]);
-            if (holidayRes.rows.length > 0) {
-                throw new Error(`Cannot log time on a holiday: ${holidayRes.rows[0].holiday_name}`);
-            }
+        // Validation 4: Max 12 Hours Per Day (Updated from 24)
+        const dailyTotalRes = await client.query(`
+            SELECT COALESCE(SUM(duration), 0)::float as total
+            FROM project_entries
+            WHERE user_id = $1 AND log_date = $2 AND id != $3
+        `, [userId, entry.log_date, entry.id || -1]);
 
-            // Validation 7: Module Access Check + PM Grace Period
-            const accessCheckRes = await client.query(`
-                SELECT p.project_manager_id, 
-                       EXISTS (SELECT 1 FROM module_access ma WHERE ma.module_id = $1 AND ma.user_id = $2) as is_assigned
-                FROM project_modules m
-                JOIN projects p ON m.project_id = p.id
-                WHERE m.id = $1
-            `, [entry.module_id, userId]);
-
-            if (accessCheckRes.rows.length === 0) {
-                throw new Error("Module not found.");
-            }
+        const existingDailyTotal = parseFloat(dailyTotalRes.rows[0].total);
+        if (existingDailyTotal + entry.duration > 12) {
+            throw new Error("You cannot log for more than 12 hours in a day");
+        }
 
-            const { project_manager_id, is_assigned } = accessCheckRes.rows[0];
-            const isCurrentPM = project_manager_id === userId;
+        // Validation 5: Check for Holidays on the user's calendar (optional holidays are working days
+        // unless the user has an approved floating holiday claim for them)
+        const holidayRes = await client.query(`
+            SELECT h.holiday_name
+            FROM users u
+            JOIN holidays h ON h.calendar_id = ${USER_CALENDAR_SQL}
+            WHERE u.id = $1 AND h.holiday_date = $2 AND h.is_active = true AND ${USER_DAY_OFF_SQL}
+        `, [userId, entry.log_date]);
+        if (holidayRes.rows.length > 0) {
+            throw new Error(`Cannot log time on a holiday: ${holidayRes.rows[0].holiday_name}`);
+        }
 
-            if (!isCurrentPM && !is_assigned) {
-                // Grace Period Heuristic
-                const { start } = TimesheetService.getCurrentWeekRange();
-                const sevenDaysAgo = new Date();
-                sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+        // Validation 7: Module Access Check + PM Grace Period
+        const accessCheckRes = await client.query(`
+            SELECT p.project_manager_id, 
+                   EXISTS (SELECT 1 FROM module_access ma WHERE ma.module_id = $1 AND ma.user_id = $2) as is_assigned
+            FROM project_modules m
+            JOIN projects p ON m.project_id = p.id
+            WHERE m.id = $1
+        `, [entry.module_id, userId]);
+
+        if (accessCheckRes.rows.length === 0) {
+            throw new Error("Module not found.");
+        }
 
-                const graceCheckRes = await client.query(`
-                    SELECT 1 FROM project_entries 
-                    WHERE user_id = $1 AND project_id = $2
-                      AND (log_date >= $3 OR created_at >= $4)
-                    LIMIT 1
-                `, [userId, entry.project_id, start.toISOString().split('T')[0], sevenDaysAgo.toISOString()]);
+        const { project_manager_id, is_assigned } = accessCheckRes.rows[0];
+        const isCurrentPM = project_manager_id === userId;
 
-                const isWithinCurrentWeek = logDateOnly >= start;
+        if (!isCurrentPM && !is_assigned) {
+            // Grace Period Heuristic
+            const { start } = TimesheetService.getCurrentWeekRange();
+            const sevenDaysAgo = new Date();
+            sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
-                if (!(graceCheckRes.rows.length > 0 && isWithinCurrentWeek)) {
-                    throw new Error("Access denied: You are not assigned to this module and your grace period has expired.");
-                }
-            }
+            const graceCheckRes = await client.query(`
+                SELECT 1 FROM project_entries 
+                WHERE user_id = $1 AND project_id = $2
+                  AND (log_date >= $3 OR created_at >= $4)
+                LIMIT 1
+            `, [userId, entry.project_id, start.toISOString().split('T')[0], sevenDaysAgo.toISOString()]);
 
-            // Validation 8: Check for Full Day Leaves (Approved)
-            const leaveRes = await client.query(`
-                SELECT start_date, end_date, start_type, end_type 
-                FROM leave_requests 
-                WHERE employee_id = $1 
-                  AND current_status = 'approved'
-                  AND $2 BETWEEN start_date AND end_date
-            `, [userId, entry.log_date]);
+            const isWithinCurrentWeek = logDateOnly >= start;
 
-            for (const leave of leaveRes.rows) {
-                const logDateStr = TimesheetService.formatDate(entry.log_date); // e.g. YYYY-MM-DD
-                const startStr = TimesheetService.formatDate(leave.start_date);
-                const endStr = TimesheetService.formatDate(leave.end_date);
-
-                let isFullDay = true;
-                if (logDateStr === startStr && logDateStr === endStr) {
-                    if (leave.start_type === 'first_half' || leave.start_type === 'second_half' ||
-                        leave.end_type === 'first_half' || leave.end_type === 'second_half') {
-                        isFullDay = false;
-                    }
-                } else {
-                    if (logDateStr === startStr && (leave.start_type === 'first_half' || leave.start_type === 'second_half')) isFullDay = false;
-                    if (logDateStr === endStr && (leave.end_type === 'first_half' || leave.end_type === 'second_half')) isFullDay = false;
-                }
+            if (!(graceCheckRes.rows.length > 0 && isWithinCurrentWeek)) {
+                throw new Error("Access denied: You are not assigned to this module and your grace period has expired.");
+            }
+        }
 
-                if (isFullDay) {
-                    throw new Error("Cannot log time on a full-day approved leave.");
+        // Validation 8: Check for Full Day Leaves (Approved)
+        const leaveRes = await client.query(`
+            SELECT start_date, end_date, start_type, end_type 
+            FROM leave_requests 
+            WHERE employee_id = $1 
+              AND current_status = 'approved'
+              AND $2 BETWEEN start_date AND end_date
+        `, [userId, entry.log_date]);
+
+        for (const leave of leaveRes.rows) {
+            const logDateStr = TimesheetService.formatDate(entry.log_date); // e.g. YYYY-MM-DD
+            const startStr = TimesheetService.formatDate(leave.start_date);
+            const endStr = TimesheetService.formatDate(leave.end_date);
+
+            let isFullDay = true;
+            if (logDateStr === startStr && logDateStr === endStr) {
+                if (leave.start_type === 'first_half' || leave.start_type === 'second_half' ||
+                    leave.end_type === 'first_half' || leave.end_type === 'second_half') {
+                    isFullDay = false;
                 }
+            } else {
+                if (logDateStr === startStr && (leave.start_type === 'first_half' || leave.start_type === 'second_half')) isFullDay = false;
+                if (logDateStr === endStr && (leave.end_type === 'first_half' || leave.end_type === 'second_half')) isFullDay = false;
             }
 
-            if (entry.id) {
-                const existingRes = await client.query('SELECT log_status, user_id FROM project_entries WHERE id = $1', [entry.id]);
-                if (existingRes.rows.length === 0) throw new Error("Entry not found");
-                const existing = existingRes.rows[0];
+            if (isFullDay) {
+                throw new Error("Cannot log time on a full-day approved leave.");
+            }
+        }
 
-                if (existing.user_id !== userId) throw new Error("Unauthorized");
-                if (existing.log_status !== 'draft' && existing.log_status !== 'rejected') {
-                    throw new Error("Cannot edit submitted or approved logs");
-                }
+        if (entry.id) {
+            const existingRes = await client.query('SELECT * FROM project_entries WHERE id = $1 FOR UPDATE', [entry.id]);
+            if (existingRes.rows.length === 0) throw new Error("Entry not found");
+            const existing = existingRes.rows[0];
 
-                const updateRes = await client.query(`
-                    UPDATE project_entries 
-                    SET project_id=$1, module_id=$2, task_id=$3, activity_id=$4, 
-                        log_date=$5, duration=$6, description=$7, work_status=$8,
-                        log_status = CASE 
-                            WHEN log_status = 'rejected' THEN 'rejected' 
-                            ELSE 'draft' 
-                        END,
-                        updated_by = $9, updated_at = CURRENT_TIMESTAMP
-                    WHERE id=$10
-                    RETURNING *
-                `, [
-                    entry.project_id, entry.module_id, entry.task_id, entry.activity_id || null,
-                    entry.log_date, entry.duration, entry.description, entry.work_status,
-                    userId, entry.id
-                ]);
-                await client.query('COMMIT');
-                return updateRes.rows[0];
+            if (existing.user_id !== userId) throw new Error("Unauthorized");
+            if (existing.log_status !== 'draft' && existing.log_status !== 'rejected') {
+                throw new Error("Cannot edit submitted or approved logs");
+            }
 
-            } else {
-                const insertRes = await client.query(`
-                    INSERT INTO project_entries (
-                        user_id, project_id, module_id, task_id, activity_id,
-                        log_date, duration, description, work_status,
-                        log_status, created_by, updated_by
-                    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'draft', $10, $10)
-                    RETURNING *
-                `, [
-                    userId, entry.project_id, entry.module_id, entry.task_id, entry.activity_id || null,
-                    entry.log_date, entry.duration, entry.description, entry.work_status,
-                    userId
-                ]);
-                await client.query('COMMIT');
-                return insertRes.rows[0];
+            // Keep the values being replaced
+            const changed = existing.project_id !== entry.project_id || existing.module_id !== entry.module_id ||
+                existing.task_id !== entry.task_id || (existing.activity_id || null) !== (entry.activity_id || null) ||
+                TimesheetService.formatDate(existing.log_date) !== TimesheetService.formatDate(entry.log_date) ||
+                parseFloat(existing.duration) !== Number(entry.duration) ||
+                existing.description !== entry.description || existing.work_status !== entry.work_status;
+            if (changed) {
+                await TimesheetService.recordRevisions(client, [entry.id], 'edited', userId);
             }
 
-        } catch (e) {
-            await client.query('ROLLBACK');
-            throw e;
-        } finally {
-            client.release();
+            const updateRes = await client.query(`
+                UPDATE project_entries 
+                SET project_id=$1, module_id=$2, task_id=$3, activity_id=$4, 
+                    log_date=$5, duration=$6, description=$7, work_status=$8,
+                    log_status = CASE 
+                        WHEN log_status = 'rejected' THEN 'rejected' 
+                        ELSE 'draft' 
+                    END,
+                    updated_by = $9, updated_at = CURRENT_TIMESTAMP
+                WHERE id=$10
+                RETURNING *
+            `, [
+                entry.project_id, entry.module_id, entry.task_id, entry.activity_id || null,
+                entry.log_date, entry.duration, entry.description, entry.work_status,
+                userId, entry.id
+            ]);
+            return updateRes.rows[0];
+
+        } else {
+            const insertRes = await client.query(`
+                INSERT INTO project_entries (
+                    user_id, project_id, module_id, task_id, activity_id,
+                    log_date, duration, description, work_status,
+                    log_status, created_by, updated_by
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'draft', $10, $10)
+                RETURNING *
+            `, [
+                userId, entry.project_id, entry.module_id, entry.task_id, entry.activity_id || null,
+                entry.log_date, entry.duration, entry.description, entry.work_status,
+                userId
+            ]);
+            return insertRes.rows[0];
         }
     }
 
+    /**
+     * Snapshot entries as they are now into their revision history
+     */
+    private static async recordRevisions(client: any, entryIds: number[], changeType: 'edited' | 'rejected', changedBy: number) {
+        if (entryIds.length === 0) return;
+        await client.query(`
+            INSERT INTO project_entry_revisions (
+                entry_id, change_type, project_id, module_id, task_id, activity_id, log_date, duration,
+                description, work_status, log_status, rejection_reason, changed_by
+            )
+            SELECT id, $2, project_id, module_id, task_id, activity_id, log_date, duration,
+                   description, work_status, log_status, rejection_reason, $3
+            FROM project_entries
+            WHERE id = ANY($1)
+        `, [entryIds, changeType, changedBy]);
+    }
+
+    /**
+     * For submitted or rejected entries that were rejected before, add what has changed since the
+     * latest rejection (empty when resubmitted unchanged) as changes_since_rejection
+     */
+    private static async attachChangesSinceRejection(client: any, rows: any[]) {
+        const candidates = rows.filter(row => row.log_status === 'submitted' || row.log_status === 'rejected');
+        if (candidates.length === 0) return;
+
+        const revisionRes = await client.query(`
+            SELECT DISTINCT ON (r.entry_id) r.*, p.name as project_name, m.name as module_name, tk.name as task_name
+            FROM project_entry_revisions r
+            LEFT JOIN projects p ON r.project_id = p.id
+            LEFT JOIN project_modules m ON r.module_id = m.id
+            LEFT JOIN project_tasks tk ON r.task_id = tk.id
+            WHERE r.entry_id = ANY($1) AND r.change_type = 'rejected'
+            ORDER BY r.entry_id, r.id DESC
+        `, [candidates.map(row => row.id)]);
+
+        revisionRes.rows.forEach((revision: any) => {
+            const row = candidates.find(candidate => candidate.id === revision.entry_id);
+            if (!row) return;
+            const changes: EntryChange[] = [];
+            REVISION_FIELDS.forEach(({ field, value }) => {
+                const before = value(revision);
+                const after = value(row);
+                if (before !== after) changes.push({ field, before, after });
+            });
+            row.changes_since_rejection = {
+                rejected_at: revision.changed_at,
+                rejection_reason: revision.rejection_reason,
+                changes
+            };
+        });
+    }
+
+    /**
+     * Revision history of an entry, oldest first, for its owner, anyone who can view all timesheets and the owner's approvers
+     */
+    static async getEntryRevisions(viewerId: number, viewerRole: string, entryId: number) {
+        const entryRes = await pool.query('SELECT user_id FROM project_entries WHERE id = $1', [entryId]);
+        if (entryRes.rows.length === 0) throw new Error("Entry not found");
+        const ownerId = entryRes.rows[0].user_id;
+
+        const canView = ownerId === viewerId || await hasPermission(viewerRole, 'timesheet.view_all')
+            || await TimesheetService.isManagerOrAdmin(viewerId, ownerId);
+        if (!canView) throw new Error("Unauthorized");
+
+        const res = await pool.query(`
+            SELECT r.id, r.change_type, r.log_date, r.duration::float, r.description, r.work_status, r.log_status,
+                   r.rejection_reason, r.changed_at,
+                   p.name as project_name, m.name as module_name, tk.name as task_name,
+                   u.first_name || ' ' || COALESCE(u.last_name, '') as changed_by_name
+            FROM project_entry_revisions r
+            LEFT JOIN projects p ON r.project_id = p.id
+            LEFT JOIN project_modules m ON r.module_id = m.id
+            LEFT JOIN project_tasks tk ON r.task_id = tk.id
+            LEFT JOIN users u ON r.changed_by = u.id
+            WHERE r.entry_id = $1
+            ORDER BY r.id
+        `, [entryId]);
+
+        return res.rows.map(row => ({ ...row, log_date: TimesheetService.formatDate(row.log_date) }));
+    }
+
     static async deleteEntry(userId: number, entryId: number) {
         const client = await pool.connect();
         try {
             await client.query('BEGIN');
-            const existingRes = await client.query('SELECT log_status, user_id FROM project_entries WHERE id = $1', [entryId]);
+            const existingRes = await client.query('SELECT log_status, user_id, log_date FROM project_entries WHERE id = $1', [entryId]);
             if (existingRes.rows.length === 0) throw new Error("Entry not found");
             const existing = existingRes.rows[0];
 
@@ -424,6 +570,7 @@ export class TimesheetService {
             if (existing.log_status !== 'draft' && existing.log_status !== 'rejected') {
                 throw new Error("Cannot delete submitted or approved logs");
             }
+            await TimesheetPeriodService.assertPeriodEditable(client, userId, [TimesheetService.formatDate(existing.log_date)]);
 
             await client.query('DELETE FROM project_entries WHERE id = $1', [entryId]);
             await client.query('COMMIT');
@@ -436,6 +583,167 @@ export class TimesheetService {
         }
     }
 
+    /**
+     * Check that project > module > task (> activity) is one path of an active project the user
+     * works on, for logs created outside the entry form (templates, timers)
+     */
+    static async assertLoggableTask(userId: number, entry: Pick<TimesheetEntry, 'project_id' | 'module_id' | 'task_id' | 'activity_id'>) {
+        const pathRes = await pool.query(`
+            SELECT p.custom_id, p.status as project_status, p.project_manager_id,
+                   t.name as task_name, t.status as task_status, t.work_status as task_work_status,
+                   EXISTS (SELECT 1 FROM module_access ma WHERE ma.module_id = m.id AND ma.user_id = $5) as is_assigned,
+                   ($4::int IS NULL OR EXISTS (SELECT 1 FROM project_activities a WHERE a.id = $4 AND a.task_id = t.id)) as activity_ok
+            FROM projects p
+            JOIN project_modules m ON m.project_id = p.id AND m.id = $2
+            JOIN project_tasks t ON t.module_id = m.id AND t.id = $3
+            WHERE p.id = $1
+        `, [entry.project_id, entry.module_id, entry.task_id, entry.activity_id || null, userId]);
+        const path = pathRes.rows[0];
+        if (!path || !path.activity_ok || path.custom_id === 'SYS-TG') {
+            throw new Error("Invalid project, module or task");
+        }
+        if (path.project_status !== 'active') {
+            throw new Error("Project is no longer active");
+        }
+        if (path.task_work_status === 'completed' || path.task_status === 'completed') {
+            throw new Error(`Task ${path.task_name} is completed`);
+        }
+        if (!path.is_assigned && path.project_manager_id !== userId) {
+            throw new Error("Access denied: You are not assigned to this module.");
+        }
+    }
+
+    // Monday-to-Sunday dates (YYYY-MM-DD) of the week starting on weekStartStr
+    public static getWeekDates(weekStartStr: string): string[] {
+        const start = new Date(`${weekStartStr}T00:00:00Z`);
+        if (isNaN(start.getTime()) || !start.toISOString().startsWith(weekStartStr) || start.getUTCDay() !== 1) {
+            throw new Error("Week start must be a Monday (YYYY-MM-DD)");
+        }
+        return Array.from({ length: 7 }, (_, i) => {
+            const d = new Date(start);
+            d.setUTCDate(start.getUTCDate() + i);
+            return d.toISOString().split('T')[0];
+        });
+    }
+
+    /**
+     * Add draft entries to a week the user can still log in, one upsertEntry per draft so the
+     * usual checks apply. Days off in the user's schedule, future days and entries already
+     * logged (same task, activity and description on the day) are skipped, as is any draft
+     * upsertEntry rejects (holidays, full-day leave, daily hour cap, module access).
+     */
+    static async addDraftEntries(userId: number, weekStartStr: string, drafts: TimesheetEntry[]): Promise<DraftEntryResult> {
+        const weekDates = TimesheetService.getWeekDates(weekStartStr);
+        const { start } = TimesheetService.getCurrentWeekRange();
+        const previousWeekStart = new Date(start);
+        previousWeekStart.setDate(previousWeekStart.getDate() - 7);
+        if (weekStartStr < TimesheetService.formatDate(previousWeekStart) || weekStartStr > TimesheetService.formatDate(start)) {
+            throw new Error("Can only log time for the current week or previous week");
+        }
+
+        const lockCheck = await pool.query(`
+            SELECT 1 FROM project_entries
+            WHERE user_id = $1 AND log_date >= $2 AND log_date <= $3
+              AND log_status IN ('submitted', 'approved')
+            LIMIT 1
+        `, [userId, weekDates[0], weekDates[6]]);
+        if (lockCheck.rows.length > 0) {
+            throw new Error("Cannot add or modify logs for a week that is already submitted or approved.");
+        }
+
+        const existingRes = await pool.query(`
+            SELECT log_date, task_id, activity_id, description FROM project_entries
+            WHERE user_id = $1 AND log_date >= $2 AND log_date <= $3
+        `, [userId, weekDates[0], weekDates[6]]);
+        const entryKey = (e: { log_date: any; task_id: number; activity_id?: number | null; description: string }) =>
+            `${TimesheetService.formatDate(e.log_date)}|${e.task_id}|${e.activity_id || ''}|${e.description.trim().toLowerCase()}`;
+        const existingKeys = new Set(existingRes.rows.map(entryKey));
+
+        const schedule = await getEmployeeSchedule(userId);
+        const today = TimesheetService.formatDate(new Date());
+        const result: DraftEntryResult = { created: 0, skipped: [] };
+
+        const sorted = [...drafts].sort((a, b) => a.log_date.localeCompare(b.log_date));
+        for (const draft of sorted) {
+            const skip = (reason: string) => result.skipped.push({ log_date: draft.log_date, description: draft.description, reason });
+
+            if (!weekDates.includes(draft.log_date)) { skip("Outside the selected week"); continue; }
+            if (draft.log_date > today) { skip("Future date"); continue; }
+            if (!isWorkingDay(schedule, draft.log_date)) { skip("Not a working day"); continue; }
+            const key = entryKey(draft);
+            if (existingKeys.has(key)) { skip("Already logged"); continue; }
+
+            try {
+                await TimesheetService.upsertEntry(userId, { ...draft, id: undefined, user_id: userId });
+                existingKeys.add(key);
+                result.created++;
+            } catch (error: any) {
+                skip(error.message);
+            }
+        }
+
+        logger.info(`[TIMESHEET] [ADD DRAFTS] User: ${userId}, Week: ${weekStartStr}, Created: ${result.created}, Skipped: ${result.skipped.length}`);
+        return result;
+    }
+
+    /**
+     * Clone last week's work logs into drafts for the same weekdays of the given week.
+     * System logs (holidays, leave) are not copied, nor are logs marked closed or logs on
+     * tasks that are completed or belong to a project that is no longer active.
+     */
+    static async copyPreviousWeek(userId: number, weekStartStr: string): Promise<DraftEntryResult> {
+        const weekDates = TimesheetService.getWeekDates(weekStartStr);
+        const previousStart = new Date(`${weekStartStr}T00:00:00Z`);
+        previousStart.setUTCDate(previousStart.getUTCDate() - 7);
+        const previousDates = TimesheetService.getWeekDates(previousStart.toISOString().split('T')[0]);
+
+        const sourceRes = await pool.query(`
+            SELECT pe.project_id, pe.module_id, pe.task_id, pe.activity_id, pe.log_date, pe.duration,
+                   pe.description, pe.work_status, p.status as project_status,
+                   t.name as task_name, t.status as task_status, t.work_status as task_work_status
+            FROM project_entries pe
+            JOIN projects p ON pe.project_id = p.id
+            JOIN project_tasks t ON pe.task_id = t.id
+            WHERE pe.user_id = $1 AND pe.log_date >= $2 AND pe.log_date <= $3
+              AND p.custom_id != 'SYS-TG'
+            ORDER BY pe.log_date, pe.id
+        `, [userId, previousDates[0], previousDates[6]]);
+
+        if (sourceRes.rows.length === 0) {
+            throw new Error("No work logs found in the previous week to copy");
+        }
+
+        const drafts: TimesheetEntry[] = [];
+        const closed: DraftEntryResult['skipped'] = [];
+        sourceRes.rows.forEach((row: any) => {
+            const log_date = weekDates[previousDates.indexOf(TimesheetService.formatDate(row.log_date))];
+            let reason: string | null = null;
+            if (row.project_status !== 'active') reason = "Project is no longer active";
+            else if (row.task_work_status === 'completed' || row.task_status === 'completed') reason = `Task ${row.task_name} is completed`;
+            else if (row.work_status === 'closed' || row.work_status === 'completed') reason = "Log was marked closed";
+
+            if (reason) {
+                closed.push({ log_date, description: row.description, reason });
+                return;
+            }
+            drafts.push({
+                user_id: userId,
+                project_id: row.project_id,
+                module_id: row.module_id,
+                task_id: row.task_id,
+                activity_id: row.activity_id,
+                log_date,
+                duration: parseFloat(row.duration),
+                description: row.description,
+                work_status: row.work_status
+            });
+        });
+
+        logger.info(`[TIMESHEET] [COPY PREVIOUS WEEK] User: ${userId}, Week: ${weekStartStr}, Source logs: ${sourceRes.rows.length}`);
+        const result = await TimesheetService.addDraftEntries(userId, weekStartStr, drafts);
+        return { created: result.created, skipped: [...closed, ...result.skipped] };
+    }
+
     // --- APPROVAL MODULE ---
 
     static async getTeamStatus(approverId: number, role: string, startDateStr: string, endDateStr: string) {
@@ -446,11 +754,13 @@ export class TimesheetService {
             const scopeParams: any[] = [];
             let paramIdx = 1;
 
-            if (!(role?.toLowerCase() === 'super_admin' || role?.toLowerCase() === 'hr' || role?.toLowerCase() === 'admin')) {
-                // Manager Scope: Direct reportees OR anyone in a project they manage
-                userFilter = `AND (u.reporting_manager_id = $${paramIdx} OR EXISTS (SELECT 1 FROM projects p JOIN project_members pm ON p.id = pm.project_id WHERE p.project_manager_id = $${paramIdx} AND pm.user_id = u.id))`;
-                scopeParams.push(approverId);
-                paramIdx++;
+            if (!(await hasPermission(role, 'timesheet.view_all'))) {
+                // Manager Scope: Direct reportees (including those of managers who delegated to them)
+                // OR anyone in a project they manage
+                const managerIds = [approverId, ...await getDelegatorIds(approverId)];
+                userFilter = `AND (u.reporting_manager_id = ANY($${paramIdx + 1}) OR EXISTS (SELECT 1 FROM projects p JOIN project_members pm ON p.id = pm.project_id WHERE p.project_manager_id = $${paramIdx} AND pm.user_id = u.id))`;
+                scopeParams.push(approverId, managerIds);
+                paramIdx += 2;
             }
 
             // 2. Fetch Users in Scope
@@ -467,6 +777,7 @@ export class TimesheetService {
             if (usersRes.rows.length === 0) return [];
 
             const userIds = usersRes.rows.map(u => u.id);
+            const schedules = await getScheduleMap(userIds, client);
 
             // 3. Fetch ALL project entries for these users in one go
             const entriesRes = await client.query(`
@@ -510,6 +821,7 @@ export class TimesheetService {
             return usersRes.rows.map(user => {
                 let userEntries = entriesByUser.get(user.id) || [];
                 const userLeaves = leavesByUser.get(user.id) || [];
+                const schedule = schedules.get(user.id)!;
 
                 // A. POST-FETCH CLEANUP: Remove "Leave" DB entries if "Holiday" DB entry exists on the same day.
                 const holidaysMap = new Set<string>();
@@ -529,7 +841,7 @@ export class TimesheetService {
                     const rangeEnd = new Date(endDateStr);
 
                     while (d <= end) {
-                        if (d >= rangeStart && d <= rangeEnd) {
+                        if (d >= rangeStart && d <= rangeEnd && isWorkingDay(schedule, d)) {
                             const dateStr = TimesheetService.formatDate(d);
                             // Avoid double counting
                             const existingHoliday = userEntries.find(e => e.log_date === dateStr && e.module_name === 'Holiday');
@@ -544,7 +856,7 @@ export class TimesheetService {
 
                                 userEntries.push({
                                     log_date: dateStr,
-                                    duration: isHalfDay ? 4 : 8,
+                                    duration: getDayHours(schedule, isHalfDay),
                                     log_status: 'approved', // Virtual leaves are approved
                                     module_name: 'Leave',
                                     is_virtual: true
@@ -584,7 +896,7 @@ export class TimesheetService {
                 if (rejectedCount > 0) status = 'rejected';
                 else if (logCount > 0 && approvedCount === logCount) status = 'approved';
                 else if (submittedCount > 0 && draftCount === 0) status = 'submitted';
-                else if (totalHours >= 40 && draftCount > 0) status = 'pending_submission';
+                else if (totalHours >= schedule.weeklyMinHours && draftCount > 0) status = 'pending_submission';
 
                 return {
                     id: user.id,
@@ -593,6 +905,7 @@ export class TimesheetService {
                     designation: user.designation,
                     reporting_manager_id: user.reporting_manager_id,
                     total_hours: totalHours,
+                    weekly_min_hours: schedule.weeklyMinHours,
                     status,
                     is_late: isLate,
                     is_resubmission: isResubmission
@@ -613,10 +926,13 @@ export class TimesheetService {
             const managerCheck = await client.query('SELECT reporting_manager_id FROM users WHERE id = $1', [targetUserId]);
             if (managerCheck.rows.length === 0) throw new Error("User not found");
 
-            // Note: We cast to String to ensure safe comparison
-            if (String(managerCheck.rows[0].reporting_manager_id) !== String(approverId)) {
-                throw new Error("Unauthorized: Only the reporting manager can approve timesheets.");
-            }
+            const onBehalfOf = await TimesheetService.assertReportingManager(approverId, managerCheck.rows[0].reporting_manager_id, 'approve');
+
+            const datesRes = await client.query(`
+                SELECT DISTINCT log_date FROM project_entries
+                WHERE user_id = $1 AND log_date >= $2 AND log_date <= $3 AND log_status != 'approved'
+            `, [targetUserId, startDateStr, endDateStr]);
+            await TimesheetPeriodService.assertPeriodEditable(client, targetUserId, datesRes.rows.map((row: any) => TimesheetService.formatDate(row.log_date)), approverId);
 
             // Approve all entries in range that are 'submitted' (or 'draft' if we allow direct approval)
             await client.query(`
@@ -642,6 +958,18 @@ export class TimesheetService {
             }
 
             await client.query('COMMIT');
+            await recordAudit({
+                userId: approverId,
+                action: 'APPROVE',
+                entityType: 'timesheet',
+                entityId: targetUserId,
+                newValues: {
+                    status: 'approved',
+                    startDate: startDateStr,
+                    endDate: endDateStr,
+                    ...(onBehalfOf ? { onBehalfOfId: onBehalfOf.id, onBehalfOf: onBehalfOf.name } : {})
+                }
+            });
             return { success: true };
         } catch (e) {
             await client.query('ROLLBACK');
@@ -657,15 +985,14 @@ export class TimesheetService {
             await client.query('BEGIN');
 
             // Fetch the entry to get the user_id
-            const entryRes = await client.query('SELECT user_id FROM project_entries WHERE id = $1', [entryId]);
+            const entryRes = await client.query('SELECT user_id, log_date FROM project_entries WHERE id = $1', [entryId]);
             if (entryRes.rows.length === 0) throw new Error("Entry not found");
             const targetUserId = entryRes.rows[0].user_id;
 
             // STRICT: Verify Approver is the Reporting Manager
             const managerCheck = await client.query('SELECT reporting_manager_id FROM users WHERE id = $1', [targetUserId]);
-            if (String(managerCheck.rows[0].reporting_manager_id) !== String(approverId)) {
-                throw new Error("Unauthorized: Only the reporting manager can approve timesheets.");
-            }
+            const onBehalfOf = await TimesheetService.assertReportingManager(approverId, managerCheck.rows[0].reporting_manager_id, 'approve');
+            await TimesheetPeriodService.assertPeriodEditable(client, targetUserId, [TimesheetService.formatDate(entryRes.rows[0].log_date)], approverId);
 
             await client.query(`
                 UPDATE project_entries 
@@ -678,6 +1005,7 @@ export class TimesheetService {
             `, [approverId, entryId]);
 
             await client.query('COMMIT');
+            await recordAudit({ userId: approverId, action: 'APPROVE', entityType: 'timesheet_entry', entityId: entryId, newValues: { status: 'approved', ...(onBehalfOf ? { onBehalfOfId: onBehalfOf.id, onBehalfOf: onBehalfOf.name } : {}) } });
             return { success: true };
         } catch (e) {
             await client.query('ROLLBACK');
@@ -693,15 +1021,15 @@ export class TimesheetService {
             await client.query('BEGIN');
 
             // Fetch the entry to get the user_id
-            const entryRes = await client.query('SELECT user_id FROM project_entries WHERE id = $1', [entryId]);
+            const entryRes = await client.query('SELECT user_id, log_date FROM project_entries WHERE id = $1', [entryId]);
             if (entryRes.rows.length === 0) throw new Error("Entry not found");
             const targetUserId = entryRes.rows[0].user_id;
 
             // STRICT: Verify Approver is the Reporting Manager
             const managerCheck = await client.query('SELECT reporting_manager_id FROM users WHERE id = $1', [targetUserId]);
-            if (String(managerCheck.rows[0].reporting_manager_id) !== String(approverId)) {
-                throw new Error("Unauthorized: Only the reporting manager can reject timesheets.");
-            }
+            const onBehalfOf = await TimesheetService.assertReportingManager(approverId, managerCheck.rows[0].reporting_manager_id, 'reject');
+            // A rejected entry in a closed month could not be fixed by the employee
+            await TimesheetPeriodService.assertPeriodEditable(client, targetUserId, [TimesheetService.formatDate(entryRes.rows[0].log_date)], approverId);
 
             const res = await client.query(`
                 UPDATE project_entries 
@@ -714,6 +1042,8 @@ export class TimesheetService {
             `, [reason, approverId, entryId]);
 
             if (res.rows.length > 0) {
+                await TimesheetService.recordRevisions(client, [entryId], 'rejected', approverId);
+
                 const { user_id, log_date } = res.rows[0];
                 // Notify User
                 const userRes = await client.query('SELECT email, first_name FROM users WHERE id = $1', [user_id]);
@@ -728,6 +1058,7 @@ export class TimesheetService {
             }
 
             await client.query('COMMIT');
+            await recordAudit({ userId: approverId, action: 'REJECT', entityType: 'timesheet_entry', entityId: entryId, newValues: { status: 'rejected', reason, ...(onBehalfOf ? { onBehalfOfId: onBehalfOf.id, onBehalfOf: onBehalfOf.name } : {}) } });
             return { success: true };
         } catch (e) {
             await client.query('ROLLBACK');
@@ -745,9 +1076,13 @@ export class TimesheetService {
             const managerCheck = await client.query('SELECT reporting_manager_id FROM users WHERE id = $1', [targetUserId]);
             if (managerCheck.rows.length === 0) throw new Error("User not found");
 
-            if (String(managerCheck.rows[0].reporting_manager_id) !== String(approverId)) {
-                throw new Error('Unauthorized: Only the reporting manager can reject timesheets.');
-            }
+            const onBehalfOf = await TimesheetService.assertReportingManager(approverId, managerCheck.rows[0].reporting_manager_id, 'reject');
+
+            const datesRes = await client.query(`
+                SELECT DISTINCT log_date FROM project_entries
+                WHERE user_id = $1 AND log_date BETWEEN $2 AND $3 AND log_status != 'approved'
+            `, [targetUserId, startDate, endDate]);
+            await TimesheetPeriodService.assertPeriodEditable(client, targetUserId, datesRes.rows.map((row: any) => TimesheetService.formatDate(row.log_date)), approverId);
 
             const res = await client.query(`
                 UPDATE project_entries
@@ -756,6 +1091,7 @@ export class TimesheetService {
                 AND log_status != 'approved'
                 RETURNING id
             `, [reason, approverId, targetUserId, startDate, endDate]);
+            await TimesheetService.recordRevisions(client, res.rows.map((row: any) => row.id), 'rejected', approverId);
 
             // Notify User
             if (res.rowCount && res.rowCount > 0) {
@@ -772,6 +1108,19 @@ export class TimesheetService {
             }
 
             await client.query('COMMIT');
+            await recordAudit({
+                userId: approverId,
+                action: 'REJECT',
+                entityType: 'timesheet',
+                entityId: targetUserId,
+                newValues: {
+                    status: 'rejected',
+                    startDate,
+                    endDate,
+                    reason,
+                    ...(onBehalfOf ? { onBehalfOfId: onBehalfOf.id, onBehalfOf: onBehalfOf.name } : {})
+                }
+            });
             return { success: true };
         } catch (e) {
             await client.query('ROLLBACK');
@@ -797,14 +1146,21 @@ export class TimesheetService {
             // Use getEntriesForWeek logic to ensure consistency
             const entries = await TimesheetService.getEntriesForWeek(userId, startStr, endStr);
             const total = entries.reduce((sum, e) => sum + e.duration, 0);
+            const { weeklyMinHours } = await getEmployeeSchedule(userId);
 
-            if (total < 40) {
-                throw new Error(`Cannot submit timesheet: Total hours (${total.toFixed(1)}) is less than 40. Please ensure all 40 hours are logged including leaves.`);
+            if (total < weeklyMinHours) {
+                throw new Error(`Cannot submit timesheet: Total hours (${total.toFixed(1)}) is less than ${weeklyMinHours}. Please ensure all ${weeklyMinHours} hours are logged including leaves.`);
             }
 
             // 3. Update Status
             await client.query('BEGIN');
 
+            const datesRes = await client.query(`
+                SELECT DISTINCT log_date FROM project_entries
+                WHERE user_id = $1 AND log_date >= $2 AND log_date <= $3 AND log_status IN ('draft', 'rejected')
+            `, [userId, startStr, endStr]);
+            await TimesheetPeriodService.assertPeriodEditable(client, userId, datesRes.rows.map((row: any) => TimesheetService.formatDate(row.log_date)));
+
             // Check if this is a resubmission (were there rejected entries?)
             const rejectCheck = await client.query(`
                 SELECT 1 FROM project_entries 
@@ -893,63 +1249,70 @@ export class TimesheetService {
         try {
             const todayStr = this.formatDate(new Date());
 
-            // A. Check for Holidays TODAY
-            const holidaysRes = await client.query(`
-                SELECT holiday_name FROM holidays 
-                WHERE holiday_date = $1 AND is_active = true
+            // A. Active users with today's holiday (if any) on their own calendar, including claimed floating holidays
+            const usersRes = await client.query(`
+                SELECT u.id, h.holiday_name
+                FROM users u
+                LEFT JOIN holidays h ON h.calendar_id = ${USER_CALENDAR_SQL}
+                    AND h.holiday_date = $1 AND h.is_active = true AND ${USER_DAY_OFF_SQL}
+                WHERE u.status = 'active' AND u.user_role != 'super_admin'
             `, [todayStr]);
 
-            // B. Get active users
-            const usersRes = await client.query("SELECT id FROM users WHERE status = 'active' AND user_role != 'super_admin'");
-
-            if (holidaysRes.rows.length > 0) {
-                const h = holidaysRes.rows[0];
+            // B. Log the holiday for users whose calendar has one today
+            const holidayUsers = usersRes.rows.filter(u => u.holiday_name);
+            if (holidayUsers.length > 0) {
                 const ids = await this.ensureSystemProjectStructure(client, 'Holiday');
-                for (const u of usersRes.rows) {
-                    await this.insertSystemEntry(client, u.id, todayStr, ids, 8, h.holiday_name);
+                // Only users scheduled to work today lose a day to the holiday
+                const schedules = await getScheduleMap(holidayUsers.map(u => u.id), client);
+                const workingUsers = holidayUsers.filter(u => isWorkingDay(schedules.get(u.id)!, todayStr));
+                for (const u of workingUsers) {
+                    await this.insertSystemEntry(client, u.id, todayStr, ids, getDayHours(schedules.get(u.id)!), u.holiday_name);
                 }
-                logger.info(`[Timesheet] Logged holiday '${h.holiday_name}' for ${usersRes.rows.length} users.`);
-            } else {
-                // Only process leaves if it's NOT a holiday (Priority: Holiday > Leave)
-                // If it IS a holiday, the holiday entry covers the day (8 hours).
-                // We do not want to double-book 8 hours of holiday + 8 hours of leave in the DB.
-                // The frontend virtual injection will still show the leave (as 0 hours) if needed,
-                // but for DB auto-fill, we skip to avoid creating duplicate system entries.
-
-                // C. Check for Approved Leaves TODAY
-                const leavesRes = await client.query(`
-                    SELECT lr.employee_id, lr.leave_type, ld.day_type, lr.time_for_permission_start, lr.time_for_permission_end
-                    FROM leave_days ld
-                    JOIN leave_requests lr ON ld.leave_request_id = lr.id
-                    WHERE ld.leave_date = $1 AND ld.day_status = 'approved'
-                `, [todayStr]);
-
-                if (leavesRes.rows.length > 0) {
-                    const ids = await this.ensureSystemProjectStructure(client, 'Leave');
-                    for (const l of leavesRes.rows) {
-                        let duration = l.day_type === 'half' ? 4 : 8;
-                        let desc = 'On Leave';
-                        if (l.leave_type === 'permission') {
-                            desc = 'Permission';
-                            if (l.time_for_permission_start && l.time_for_permission_end) {
-                                const [h1, m1] = l.time_for_permission_start.split(':').map(Number);
-                                const [h2, m2] = l.time_for_permission_end.split(':').map(Number);
-                                let hoursDiff = h2 - h1;
-                                let minsDiff = m2 - m1;
-                                duration = hoursDiff + (minsDiff / 60);
-
-                                // Round to nearest 0.5
-                                duration = Math.round(duration * 2) / 2;
-                                // Ensure at least 0.5 if valid time exists
-                                if (duration < 0.5) duration = 0.5;
-                            } else {
-                                duration = 2; // Default fallback
-                            }
+                logger.info(`[Timesheet] Logged holidays for ${workingUsers.length} users.`);
+            }
+
+            // Only process leaves for users NOT on a holiday (Priority: Holiday > Leave)
+            // If it IS a holiday, the holiday entry covers the day (a full day of scheduled hours).
+            // We do not want to double-book a day of holiday + a day of leave in the DB.
+            // The frontend virtual injection will still show the leave (as 0 hours) if needed,
+            // but for DB auto-fill, we skip to avoid creating duplicate system entries.
+            const holidayUserIds = holidayUsers.map(u => u.id);
+
+            // C. Check for Approved Leaves TODAY
+            const leavesRes = await client.query(`
+                SELECT lr.employee_id, lr.leave_type, ld.day_type, lr.time_for_permission_start, lr.time_for_permission_end
+                FROM leave_days ld
+                JOIN leave_requests lr ON ld.leave_request_id = lr.id
+                WHERE ld.leave_date = $1 AND ld.day_status = 'approved'
+                AND NOT (lr.employee_id = ANY($2::int[]))
+            `, [todayStr, holidayUserIds]);
+
+            if (leavesRes.rows.length > 0) {
+                const ids = await this.ensureSystemProjectStructure(client, 'Leave');
+                const schedules = await getScheduleMap(leavesRes.rows.map(l => l.employee_id), client);
+                for (const l of leavesRes.rows) {
+                    let duration = getDayHours(schedules.get(l.employee_id)!, l.day_type === 'half');
+                    let desc = 'On Leave';
+                    if (l.leave_type === 'permission') {
+                        desc = 'Permission';
+                        if (l.time_for_permission_start && l.time_for_permission_end) {
+                            const [h1, m1] = l.time_for_permission_start.split(':').map(Number);
+                            const [h2, m2] = l.time_for_permission_end.split(':').map(Number);
+                            let hoursDiff = h2 - h1;
+                            let minsDiff = m2 - m1;
+                            duration = hoursDiff + (minsDiff / 60);
+
+                            // Round to nearest 0.5
+                            duration = Math.round(duration * 2) / 2;
+                            // Ensure at least 0.5 if valid time exists
+                            if (duration < 0.5) duration = 0.5;
+                        } else {
+                            duration = 2; // Default fallback
                         }
-                        await this.insertSystemEntry(client, l.employee_id, todayStr, ids, duration, desc);
                     }
-                    logger.info(`[Timesheet] Logged leaves for ${leavesRes.rows.length} users.`);
+                    await this.insertSystemEntry(client, l.employee_id, todayStr, ids, duration, desc);
                 }
+                logger.info(`[Timesheet] Logged leaves for ${leavesRes.rows.length} users.`);
             }
 
             logger.info('[Timesheet] Daily Auto-Fill Completed');
@@ -969,48 +1332,36 @@ export class TimesheetService {
         const dayOfWeek = nowIST.getDay(); // 0=Sun, 1=Mon, ..., 6=Sat
         const todayStr = nowIST.toISOString().split('T')[0];
 
-        // 2. Skip on Sundays
-        if (dayOfWeek === 0) {
-            logger.info('[Timesheet] Skipping daily reminder: Today is Sunday.');
-            return;
-        }
-
-        // 3. Skip if Today is a Public Holiday
-        const holidayCheck = await pool.query('SELECT holiday_name FROM holidays WHERE holiday_date = $1 AND is_active = true', [todayStr]);
-        if (holidayCheck.rows.length > 0) {
-            logger.info(`[Timesheet] Skipping daily reminder: Today is a public holiday (${holidayCheck.rows[0].holiday_name}).`);
-            return;
-        }
-
-        // 4. Role Filter based on working days
-        // Mon-Fri (1-5): employee, manager, hr, intern
-        // Sat (6): only intern
-        let roleFilter: string[] = ['intern'];
-        if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-            roleFilter = ['employee', 'manager', 'hr', 'intern'];
-        }
-
-        logger.info(`[Timesheet] Today is ${['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][dayOfWeek]}. Reminder scope: ${roleFilter.join(', ')}`);
-
-        // Users who haven't logged for Today
+        // 2. Users who haven't logged for Today, skipping those with a holiday (public or claimed floating) on their calendar
         const res = await pool.query(`
             SELECT u.id, u.email, u.first_name 
             FROM users u
-            WHERE u.status = 'active' AND u.user_role = ANY($2)
+            WHERE u.status = 'active' AND u.user_role != 'super_admin'
             AND NOT EXISTS (
                 SELECT 1 FROM project_entries pe 
                 WHERE pe.user_id = u.id AND pe.log_date = $1
             )
-        `, [todayStr, roleFilter]);
+            AND NOT EXISTS (
+                SELECT 1 FROM holidays h
+                WHERE h.calendar_id = ${USER_CALENDAR_SQL}
+                AND h.holiday_date = $1 AND h.is_active = true AND ${USER_DAY_OFF_SQL}
+            )
+        `, [todayStr]);
+
+        // 3. Only remind users whose work schedule includes today
+        const schedules = await getScheduleMap(res.rows.map(u => u.id));
+        const dueUsers = res.rows.filter(u => schedules.get(u.id)!.workingDays.includes(dayOfWeek));
+
+        logger.info(`[Timesheet] Today is ${['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][dayOfWeek]}. ${dueUsers.length} of ${res.rows.length} users without logs are scheduled to work.`);
 
-        for (const u of res.rows) {
+        for (const u of dueUsers) {
             await sendTimesheetReminderEmail(u.email, {
                 employeeName: u.first_name,
                 reminderType: 'daily',
                 date: todayStr
             });
         }
-        logger.info(`[Timesheet] Sent ${res.rows.length} daily reminders.`);
+        logger.info(`[Timesheet] Sent ${dueUsers.length} daily reminders.`);
     }
 
     // 3. Friday Validation (4 PM)
@@ -1020,7 +1371,6 @@ export class TimesheetService {
         const startStr = TimesheetService.formatDate(start);
         const endStr = TimesheetService.formatDate(end);
 
-        // Find users with < 32 hours logged
         const res = await pool.query(`
             SELECT u.id, u.email, u.first_name, COALESCE(SUM(pe.duration), 0) as total_hours
             FROM users u
@@ -1028,10 +1378,19 @@ export class TimesheetService {
                 AND pe.log_date >= $1 AND pe.log_date <= $2
             WHERE u.status = 'active' AND u.user_role != 'super_admin'
             GROUP BY u.id
-            HAVING COALESCE(SUM(pe.duration), 0) < 32
         `, [startStr, endStr]);
 
-        for (const u of res.rows) {
+        // Find users behind their schedule: a full day for each working day Mon-Thu,
+        // capped at the weekly minimum
+        const schedules = await getScheduleMap(res.rows.map(u => u.id));
+        const behindUsers = res.rows.filter(u => {
+            const schedule = schedules.get(u.id)!;
+            const daysSoFar = schedule.workingDays.filter(day => day >= 1 && day <= 4).length;
+            const expected = Math.min(schedule.weeklyMinHours, daysSoFar * schedule.dailyHours);
+            return parseFloat(u.total_hours) < expected;
+        });
+
+        for (const u of behindUsers) {
             await sendTimesheetReminderEmail(u.email, {
                 employeeName: u.first_name,
                 reminderType: 'friday_alert',
@@ -1073,7 +1432,7 @@ export class TimesheetService {
                 `, [u.id]);
                 const extra = extraRes.rows[0];
 
-                if (hours >= 40) {
+                if (hours >= u.weekly_min_hours) {
                     // UPDATE 1: Auto-Approve System Entries (Holidays/Leaves)
                     await client.query(`
                         UPDATE project_entries
@@ -1117,7 +1476,7 @@ export class TimesheetService {
                         reminderType: 'criteria_not_met',
                         hoursLogged: hours
                     });
-                    logger.info(`[Timesheet] User ${u.id} Not Submitted (<40h). Warning sent.`);
+                    logger.info(`[Timesheet] User ${u.id} Not Submitted (<${u.weekly_min_hours}h). Warning sent.`);
 
                     if (extra?.manager_email) {
                         if (!managerSummaries.has(extra.manager_email)) {
@@ -1222,23 +1581,27 @@ export class TimesheetService {
 
     // --- EVENT DRIVEN HOOKS ---
 
-    // 1. Log Holiday Immediately
-    static async logHolidayForEveryone(dateStr: string, name: string) {
-        logger.info(`[Timesheet] Processing Immediate Holiday Log: ${dateStr} - ${name}`);
+    // 1. Log Holiday Immediately for everyone on the holiday's calendar
+    static async logHolidayForEveryone(dateStr: string, name: string, calendarId: number) {
+        logger.info(`[Timesheet] Processing Immediate Holiday Log: ${dateStr} - ${name} (calendar ${calendarId})`);
         const client = await pool.connect();
         try {
-            const usersRes = await client.query("SELECT id FROM users WHERE status = 'active' AND user_role != 'super_admin'");
-            if (usersRes.rows.length === 0) return;
+            const userIds = await getCalendarUserIds(calendarId, client);
+            if (userIds.length === 0) return;
 
             const ids = await this.ensureSystemProjectStructure(client, 'Holiday');
 
+            // Only users scheduled to work that weekday lose a day to the holiday
+            const schedules = await getScheduleMap(userIds, client);
+            const workingUserIds = userIds.filter(id => isWorkingDay(schedules.get(id)!, dateStr));
+
             await client.query('BEGIN');
-            for (const u of usersRes.rows) {
+            for (const id of workingUserIds) {
                 // Check if entry exists to avoid duplicates
-                await this.insertSystemEntry(client, u.id, dateStr, ids, 8, name);
+                await this.insertSystemEntry(client, id, dateStr, ids, getDayHours(schedules.get(id)!), name);
             }
             await client.query('COMMIT');
-            logger.info(`[Timesheet] Logged holiday for ${usersRes.rows.length} users.`);
+            logger.info(`[Timesheet] Logged holiday for ${workingUserIds.length} users.`);
         } catch (e) {
             await client.query('ROLLBACK');
             logger.error('[Timesheet] Holiday Log Error', e);
@@ -1264,15 +1627,14 @@ export class TimesheetService {
             if (res.rows.length === 0) return;
 
             const ids = await this.ensureSystemProjectStructure(client, 'Leave');
+            const schedule = await getEmployeeSchedule(userId, client);
 
             await client.query('BEGIN');
             for (const row of res.rows) {
                 const dateStr = this.formatDate(row.leave_date);
-                let duration = 8;
+                let duration = getDayHours(schedule, row.day_type === 'half');
                 let desc = 'On Leave';
 
-                if (row.day_type === 'half') duration = 4;
-
                 if (row.leave_type === 'permission') {
                     desc = 'Permission';
                     // Calculate duration from time range if needed, or default to 2
@@ -1307,18 +1669,20 @@ export class TimesheetService {
 
     // 3. Update Existing Holiday Logs
 
-    static async updateHolidayLog(oldDateStr: string, newDateStr: string, newName: string) {
-        logger.info(`[Timesheet] Updating Holiday Log: ${oldDateStr} -> ${newDateStr} (${newName})`);
+    static async updateHolidayLog(oldDateStr: string, newDateStr: string, newName: string, calendarId: number) {
+        logger.info(`[Timesheet] Updating Holiday Log: ${oldDateStr} -> ${newDateStr} (${newName}, calendar ${calendarId})`);
         const client = await pool.connect();
         try {
             await client.query('BEGIN');
             // Update the date and description for entries matching the old date and system holiday activity
+            // for users on the holiday's calendar
             const ids = await this.ensureSystemProjectStructure(client, 'Holiday');
+            const userIds = await getCalendarUserIds(calendarId, client);
             await client.query(`
                 UPDATE project_entries 
                 SET log_date = $1, description = $2, updated_at = CURRENT_TIMESTAMP
-                WHERE log_date = $3 AND activity_id = $4
-            `, [newDateStr, newName, oldDateStr, ids.activityId]);
+                WHERE log_date = $3 AND activity_id = $4 AND user_id = ANY($5)
+            `, [newDateStr, newName, oldDateStr, ids.activityId, userIds]);
             await client.query('COMMIT');
             logger.info(`[Timesheet] Holiday logs updated successfully.`);
         } catch (e) {
@@ -1336,8 +1700,9 @@ export class TimesheetService {
         const client = await pool.connect();
         try {
             await client.query('BEGIN');
+            await TimesheetPeriodService.assertPeriodEditable(client, userId, [logDate]);
 
-            const duration = action === 'half_day' ? 4 : 0;
+            const duration = action === 'half_day' ? getDayHours(await getEmployeeSchedule(userId, client), true) : 0;
 
             if (entryId < 0) {
                 // Virtual Entry -> Real Entry Override
@@ -1364,6 +1729,10 @@ export class TimesheetService {
                 }
             } else {
                 // Real Entry -> Just Update
+                const entryDateRes = await client.query('SELECT log_date FROM project_entries WHERE id = $1 AND user_id = $2', [entryId, userId]);
+                if (entryDateRes.rows.length > 0) {
+                    await TimesheetPeriodService.assertPeriodEditable(client, userId, [TimesheetService.formatDate(entryDateRes.rows[0].log_date)]);
+                }
                 await client.query(`
                     UPDATE project_entries SET duration = $1, log_status = 'draft', updated_at = CURRENT_TIMESTAMP
                     WHERE id = $2 AND user_id = $3
@@ -1379,16 +1748,17 @@ export class TimesheetService {
             client.release();
         }
     }
-    static async removeHolidayLog(dateStr: string) {
-        logger.info(`[Timesheet] Removing Holiday Logs for date: ${dateStr}`);
+    static async removeHolidayLog(dateStr: string, calendarId: number) {
+        logger.info(`[Timesheet] Removing Holiday Logs for date: ${dateStr} (calendar ${calendarId})`);
         const client = await pool.connect();
         try {
             await client.query('BEGIN');
             const ids = await this.ensureSystemProjectStructure(client, 'Holiday');
+            const userIds = await getCalendarUserIds(calendarId, client);
             await client.query(`
                 DELETE FROM project_entries 
-                WHERE log_date = $1 AND activity_id = $2
-            `, [dateStr, ids.activityId]);
+                WHERE log_date = $1 AND activity_id = $2 AND user_id = ANY($3)
+            `, [dateStr, ids.activityId, userIds]);
             await client.query('COMMIT');
             logger.info(`[Timesheet] Holiday logs removed successfully.`);
         } catch (e) {
@@ -1399,6 +1769,66 @@ export class TimesheetService {
         }
     }
 
+    // Resync Upcoming Holiday Logs after users change holiday calendar or floating holiday claims
+    // Removes holiday logs from today onwards and re-logs the holidays of each user's current calendar.
+    // Without userIds, every active user is resynced (e.g. when the default calendar changes).
+    static async syncHolidayLogs(userIds?: number[]) {
+        logger.info(`[Timesheet] Resyncing Holiday Logs for ${userIds ? `${userIds.length} users` : 'all users'}`);
+        if (userIds && userIds.length === 0) return;
+        const client = await pool.connect();
+        try {
+            const todayStr = this.formatDate(new Date());
+            const usersRes = await client.query(`
+                SELECT u.id FROM users u
+                WHERE u.status = 'active' AND u.user_role != 'super_admin'
+                AND ($1::int[] IS NULL OR u.id = ANY($1::int[]))
+            `, [userIds ?? null]);
+            const ids = usersRes.rows.map(u => u.id);
+            if (ids.length === 0) return;
+
+            const structure = await this.ensureSystemProjectStructure(client, 'Holiday');
+            const holidaysRes = await client.query(`
+                SELECT u.id as user_id, h.holiday_date, h.holiday_name
+                FROM users u
+                JOIN holidays h ON h.calendar_id = ${USER_CALENDAR_SQL}
+                WHERE u.id = ANY($1) AND h.holiday_date >= $2 AND h.is_active = true AND ${USER_DAY_OFF_SQL}
+            `, [ids, todayStr]);
+            const schedules = await getScheduleMap(ids, client);
+
+            await client.query('BEGIN');
+            await client.query(`
+                DELETE FROM project_entries
+                WHERE activity_id = $1 AND log_date >= $2 AND user_id = ANY($3)
+            `, [structure.activityId, todayStr, ids]);
+            for (const row of holidaysRes.rows) {
+                const dateStr = this.formatDate(row.holiday_date);
+                const schedule = schedules.get(row.user_id)!;
+                if (!isWorkingDay(schedule, dateStr)) continue;
+                await this.insertSystemEntry(client, row.user_id, dateStr, structure, getDayHours(schedule), row.holiday_name);
+            }
+            await client.query('COMMIT');
+            logger.info(`[Timesheet] Resynced ${holidaysRes.rows.length} upcoming holiday logs.`);
+        } catch (e) {
+            await client.query('ROLLBACK');
+            logger.error('[Timesheet] Holiday Log Resync Error', e);
+        } finally {
+            client.release();
+        }
+    }
+
+
+    /**
+     * Reporting manager check that also admits the manager's active delegate.
+     * Returns the manager being stood in for, or null when the approver is the manager.
+     */
+    private static async assertReportingManager(approverId: number, reportingManagerId: number | null, action: 'approve' | 'reject') {
+        if (String(reportingManagerId) === String(approverId)) return null;
+        const onBehalfOf = await getOnBehalfOf(approverId, reportingManagerId);
+        if (!onBehalfOf) {
+            throw new Error(`Unauthorized: Only the reporting manager can ${action} timesheets.`);
+        }
+        return onBehalfOf;
+    }
 
     static async isManagerOrAdmin(approverId: number, targetUserId: number) {
         // Prevent Self-Approval
@@ -1419,7 +1849,11 @@ export class TimesheetService {
                 )
             `;
             const linkRes = await client.query(query, [targetUserId, approverId]);
-            return linkRes.rows.length > 0;
+            if (linkRes.rows.length > 0) return true;
+
+            // Delegate standing in for the user's reporting manager
+            const managerRes = await client.query('SELECT reporting_manager_id FROM users WHERE id = $1', [targetUserId]);
+            return !!(await getOnBehalfOf(approverId, managerRes.rows[0]?.reporting_manager_id ?? null));
         } finally {
             client.release();
         }
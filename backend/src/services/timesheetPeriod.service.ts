@@ -0,0 +1,387 @@
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { recordAudit } from './audit.service';
+import { getDelegatorIds, getOnBehalfOf } from './approvalDelegation.service';
+import { createNotification } from './notification.service';
+import { hasPermission } from './permission.service';
+
+type Queryable = Pool | PoolClient;
+
+const TODAY_SQL = `(CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Kolkata')::DATE`;
+const PERIOD_PATTERN = /^\d{4}-\d{2}-01$/;
+
+// How long an approved reopen request lets the employee edit the closed month
+export const REOPEN_WINDOW_DAYS = 7;
+
+const REQUEST_SELECT = `
+    SELECT r.id, r.user_id, TO_CHAR(r.period_start, 'YYYY-MM-DD') as period_start, r.reason, r.status,
+           r.reviewed_at, r.review_comment, r.reopen_until, r.created_at,
+           (r.status = 'approved' AND r.reopen_until > CURRENT_TIMESTAMP) as is_active,
+           u.first_name || ' ' || COALESCE(u.last_name, '') as user_name, u.emp_id,
+           rv.first_name || ' ' || COALESCE(rv.last_name, '') as reviewed_by_name
+    FROM timesheet_reopen_requests r
+    JOIN users u ON r.user_id = u.id
+    LEFT JOIN users rv ON r.reviewed_by = rv.id
+`;
+
+export class TimesheetPeriodService {
+
+    /**
+     * First day of the month a date falls in
+     */
+    static periodOf(dateStr: string) {
+        return `${dateStr.substring(0, 7)}-01`;
+    }
+
+    static periodLabel(periodStart: string) {
+        return new Date(`${periodStart}T00:00:00Z`).toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    }
+
+    private static assertPeriod(periodStart: string) {
+        if (!PERIOD_PATTERN.test(periodStart || '') || isNaN(new Date(`${periodStart}T00:00:00Z`).getTime())) {
+            throw new Error("Invalid period; expected the first day of a month (YYYY-MM-01)");
+        }
+    }
+
+    static async getSettings() {
+        const result = await pool.query('SELECT auto_close_day, updated_at FROM timesheet_period_settings WHERE id = 1');
+        return { auto_close_day: result.rows[0]?.auto_close_day ?? null };
+    }
+
+    static async updateSettings(userId: number, autoCloseDay: number | null) {
+        if (autoCloseDay !== null && !(Number.isInteger(autoCloseDay) && autoCloseDay >= 1 && autoCloseDay <= 28)) {
+            throw new Error("Auto-close day must be between 1 and 28, or empty to close periods manually");
+        }
+
+        const before = await TimesheetPeriodService.getSettings();
+        await pool.query(`
+            INSERT INTO timesheet_period_settings (id, auto_close_day, updated_by, updated_at)
+            VALUES (1, $1, $2, CURRENT_TIMESTAMP)
+            ON CONFLICT (id) DO UPDATE SET auto_close_day = $1, updated_by = $2, updated_at = CURRENT_TIMESTAMP
+        `, [autoCloseDay, userId]);
+
+        await recordAudit({ userId, action: 'UPDATE', entityType: 'timesheet_period_settings', entityId: 1, oldValues: before, newValues: { auto_close_day: autoCloseDay } });
+        logger.info(`[TIMESHEET PERIOD] [SETTINGS] User: ${userId}, Auto-close day: ${autoCloseDay ?? 'manual'}`);
+        return TimesheetPeriodService.getSettings();
+    }
+
+    /**
+     * The last twelve months, newest first, with their close state and reopen request counts
+     */
+    static async getPeriods() {
+        const result = await pool.query(`
+            SELECT TO_CHAR(m.period_start, 'YYYY-MM-DD') as period_start,
+                   COALESCE(tp.status, 'open') as status,
+                   tp.closed_at, tp.reopened_at,
+                   (tp.status = 'closed' AND tp.closed_by IS NULL) as auto_closed,
+                   cb.first_name || ' ' || COALESCE(cb.last_name, '') as closed_by_name,
+                   rb.first_name || ' ' || COALESCE(rb.last_name, '') as reopened_by_name,
+                   (SELECT COUNT(*)::int FROM timesheet_reopen_requests r
+                    WHERE r.period_start = m.period_start AND r.status = 'pending') as pending_requests,
+                   (SELECT COUNT(*)::int FROM timesheet_reopen_requests r
+                    WHERE r.period_start = m.period_start AND r.status = 'approved' AND r.reopen_until > CURRENT_TIMESTAMP) as active_reopens
+            FROM generate_series(
+                DATE_TRUNC('month', ${TODAY_SQL}) - INTERVAL '11 months',
+                DATE_TRUNC('month', ${TODAY_SQL}),
+                INTERVAL '1 month'
+            ) as m(period_start)
+            LEFT JOIN timesheet_periods tp ON tp.period_start = m.period_start::date
+            LEFT JOIN users cb ON tp.closed_by = cb.id
+            LEFT JOIN users rb ON tp.reopened_by = rb.id
+            ORDER BY m.period_start DESC
+        `);
+        return result.rows.map(row => ({ ...row, label: TimesheetPeriodService.periodLabel(row.period_start) }));
+    }
+
+    static async closePeriod(userId: number | null, periodStart: string) {
+        TimesheetPeriodService.assertPeriod(periodStart);
+
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            const currentRes = await client.query(`SELECT $1::date >= DATE_TRUNC('month', ${TODAY_SQL}) as is_current`, [periodStart]);
+            if (currentRes.rows[0].is_current) throw new Error("Only past periods can be closed");
+
+            const existingRes = await client.query('SELECT status FROM timesheet_periods WHERE period_start = $1 FOR UPDATE', [periodStart]);
+            if (existingRes.rows[0]?.status === 'closed') throw new Error(`${TimesheetPeriodService.periodLabel(periodStart)} is already closed`);
+
+            const result = await client.query(`
+                INSERT INTO timesheet_periods (period_start, status, closed_at, closed_by)
+                VALUES ($1, 'closed', CURRENT_TIMESTAMP, $2)
+                ON CONFLICT (period_start) DO UPDATE
+                SET status = 'closed', closed_at = CURRENT_TIMESTAMP, closed_by = $2, updated_at = CURRENT_TIMESTAMP
+                RETURNING id
+            `, [periodStart, userId]);
+
+            await recordAudit({ userId, action: 'CLOSE', entityType: 'timesheet_period', entityId: result.rows[0].id, oldValues: { status: existingRes.rows[0]?.status ?? 'open' }, newValues: { period: periodStart, status: 'closed', automatic: userId === null } }, client);
+            await client.query('COMMIT');
+            logger.info(`[TIMESHEET PERIOD] [CLOSE] Period: ${periodStart}, By: ${userId ?? 'auto-close'}`);
+            return { success: true };
+        } catch (e) {
+            await client.query('ROLLBACK');
+            throw e;
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Reopen a closed month for everyone. The row is kept as 'open' so auto-close does not close it again.
+     */
+    static async reopenPeriod(userId: number, periodStart: string) {
+        TimesheetPeriodService.assertPeriod(periodStart);
+
+        const result = await pool.query(`
+            UPDATE timesheet_periods
+            SET status = 'open', reopened_at = CURRENT_TIMESTAMP, reopened_by = $2, updated_at = CURRENT_TIMESTAMP
+            WHERE period_start = $1 AND status = 'closed'
+            RETURNING id
+        `, [periodStart, userId]);
+        if (result.rows.length === 0) throw new Error(`${TimesheetPeriodService.periodLabel(periodStart)} is not closed`);
+
+        await recordAudit({ userId, action: 'REOPEN', entityType: 'timesheet_period', entityId: result.rows[0].id, oldValues: { status: 'closed' }, newValues: { period: periodStart, status: 'open' } });
+        logger.info(`[TIMESHEET PERIOD] [REOPEN] Period: ${periodStart}, By: ${userId}`);
+        return { success: true };
+    }
+
+    private static async canOverride(db: Queryable, userId: number) {
+        const result = await db.query('SELECT user_role FROM users WHERE id = $1', [userId]);
+        if (result.rows.length === 0) return false;
+        return hasPermission(result.rows[0].user_role, 'timesheet.period.override');
+    }
+
+    /**
+     * Throw when any of the dates is in a period closed to this user's entries. Holders of
+     * timesheet.period.override may always act; otherwise only within the window of the owner's approved
+     * reopen request. `actorId` is who is acting on the entries when that is not their owner, e.g. an approver.
+     */
+    static async assertPeriodEditable(db: Queryable, userId: number, dates: string[], actorId: number = userId) {
+        const periods = Array.from(new Set(dates.filter(Boolean).map(TimesheetPeriodService.periodOf)));
+        if (periods.length === 0) return;
+        if (await TimesheetPeriodService.canOverride(db, actorId)) return;
+
+        const closedRes = await db.query(`
+            SELECT TO_CHAR(tp.period_start, 'YYYY-MM-DD') as period_start
+            FROM timesheet_periods tp
+            WHERE tp.status = 'closed' AND tp.period_start = ANY($2::date[])
+              AND NOT EXISTS (
+                  SELECT 1 FROM timesheet_reopen_requests r
+                  WHERE r.user_id = $1 AND r.period_start = tp.period_start
+                    AND r.status = 'approved' AND r.reopen_until > CURRENT_TIMESTAMP
+              )
+            ORDER BY tp.period_start
+        `, [userId, periods]);
+
+        if (closedRes.rows.length > 0) {
+            const label = TimesheetPeriodService.periodLabel(closedRes.rows[0].period_start);
+            if (actorId !== userId) {
+                throw new Error(`Timesheet period ${label} is closed. The employee's entries can only be changed while a reopen request is approved.`);
+            }
+            throw new Error(`Timesheet period ${label} is closed. Request a reopen from your manager to change its entries.`);
+        }
+    }
+
+    /**
+     * Close state of every month overlapping a date range, as seen by this user
+     */
+    static async getRangeStatus(userId: number, startDate: string, endDate: string) {
+        const result = await pool.query(`
+            SELECT TO_CHAR(m.period_start, 'YYYY-MM-DD') as period_start,
+                   COALESCE(tp.status = 'closed', false) as is_closed,
+                   (SELECT MAX(r.reopen_until) FROM timesheet_reopen_requests r
+                    WHERE r.user_id = $1 AND r.period_start = m.period_start
+                      AND r.status = 'approved' AND r.reopen_until > CURRENT_TIMESTAMP) as reopen_until,
+                   EXISTS (SELECT 1 FROM timesheet_reopen_requests r
+                           WHERE r.user_id = $1 AND r.period_start = m.period_start AND r.status = 'pending') as has_pending_request
+            FROM generate_series(DATE_TRUNC('month', $2::date), DATE_TRUNC('month', $3::date), INTERVAL '1 month') as m(period_start)
+            LEFT JOIN timesheet_periods tp ON tp.period_start = m.period_start::date
+            ORDER BY m.period_start
+        `, [userId, startDate, endDate]);
+        const canOverride = await TimesheetPeriodService.canOverride(pool, userId);
+
+        return result.rows.map(row => ({
+            period_start: row.period_start,
+            label: TimesheetPeriodService.periodLabel(row.period_start),
+            is_closed: row.is_closed,
+            is_locked: row.is_closed && !row.reopen_until && !canOverride,
+            reopen_until: row.reopen_until,
+            has_pending_request: row.has_pending_request
+        }));
+    }
+
+    /**
+     * Close last month once the configured day of this month is reached. Months that already have
+     * a row (closed, or reopened by HR) are left alone.
+     */
+    static async processAutoClose() {
+        try {
+            const result = await pool.query(`
+                SELECT TO_CHAR(DATE_TRUNC('month', ${TODAY_SQL}) - INTERVAL '1 month', 'YYYY-MM-DD') as period_start
+                FROM timesheet_period_settings s
+                WHERE s.id = 1 AND s.auto_close_day IS NOT NULL
+                  AND EXTRACT(DAY FROM ${TODAY_SQL}) >= s.auto_close_day
+                  AND NOT EXISTS (
+                      SELECT 1 FROM timesheet_periods tp
+                      WHERE tp.period_start = (DATE_TRUNC('month', ${TODAY_SQL}) - INTERVAL '1 month')::date
+                  )
+            `);
+            if (result.rows.length === 0) return;
+            await TimesheetPeriodService.closePeriod(null, result.rows[0].period_start);
+        } catch (error: any) {
+            logger.error(`[TIMESHEET PERIOD] [AUTO CLOSE] Error: ${error.message}`);
+        }
+    }
+
+    static async createReopenRequest(userId: number, periodStart: string, reason: string) {
+        TimesheetPeriodService.assertPeriod(periodStart);
+        if (!reason || !reason.trim()) throw new Error("A reason is required");
+
+        const [status] = await TimesheetPeriodService.getRangeStatus(userId, periodStart, periodStart);
+        if (!status.is_closed) throw new Error(`${status.label} is not closed`);
+        if (!status.is_locked) throw new Error(`You can already edit ${status.label}`);
+
+        const userRes = await pool.query(
+            `SELECT reporting_manager_id, first_name || ' ' || COALESCE(last_name, '') as name FROM users WHERE id = $1`,
+            [userId]
+        );
+        const { reporting_manager_id, name } = userRes.rows[0];
+
+        let requestId: number;
+        try {
+            const insertRes = await pool.query(`
+                INSERT INTO timesheet_reopen_requests (user_id, period_start, reason)
+                VALUES ($1, $2, $3)
+                RETURNING id
+            `, [userId, periodStart, reason.trim()]);
+            requestId = insertRes.rows[0].id;
+        } catch (error: any) {
+            if (error.code === '23505') throw new Error(`You already have a pending reopen request for ${status.label}`);
+            throw error;
+        }
+
+        await recordAudit({ userId, action: 'CREATE', entityType: 'timesheet_reopen_request', entityId: requestId, newValues: { period: periodStart, reason: reason.trim() } });
+        if (reporting_manager_id) {
+            await createNotification(reporting_manager_id, {
+                type: 'timesheet_submission',
+                title: 'Timesheet reopen request',
+                message: `${name.trim()} asked to reopen their ${status.label} timesheet: ${reason.trim()}`,
+                link: '/timesheet/periods'
+            });
+        }
+
+        logger.info(`[TIMESHEET PERIOD] [REOPEN REQUEST] User: ${userId}, Period: ${periodStart}, Request: ${requestId}`);
+        const result = await pool.query(`${REQUEST_SELECT} WHERE r.id = $1`, [requestId]);
+        return result.rows[0];
+    }
+
+    /**
+     * The user's own requests, and the ones they can review: direct reports and people whose
+     * manager they stand in for; holders of timesheet.view_all see everyone's.
+     */
+    static async getReopenRequests(userId: number, role: string) {
+        const mineRes = await pool.query(`${REQUEST_SELECT} WHERE r.user_id = $1 ORDER BY r.created_at DESC LIMIT 50`, [userId]);
+
+        let toReviewRes;
+        if (await hasPermission(role, 'timesheet.view_all')) {
+            toReviewRes = await pool.query(`
+                ${REQUEST_SELECT}
+                WHERE r.user_id != $1 AND (r.status = 'pending' OR r.reviewed_at > CURRENT_TIMESTAMP - INTERVAL '30 days')
+                ORDER BY (r.status = 'pending') DESC, r.created_at DESC
+            `, [userId]);
+        } else {
+            const managerIds = [userId, ...(await getDelegatorIds(userId))];
+            toReviewRes = await pool.query(`
+                ${REQUEST_SELECT}
+                WHERE u.reporting_manager_id = ANY($1::int[]) AND r.user_id != $2
+                  AND (r.status = 'pending' OR r.reviewed_at > CURRENT_TIMESTAMP - INTERVAL '30 days')
+                ORDER BY (r.status = 'pending') DESC, r.created_at DESC
+            `, [managerIds, userId]);
+        }
+
+        // Only the reporting manager (or their delegate) and holders of timesheet.period.override act on a request
+        const toReview = await Promise.all(toReviewRes.rows.map(async (row: any) => ({
+            ...row,
+            can_review: row.status === 'pending' && await TimesheetPeriodService.canReview(userId, role, row.user_id)
+        })));
+
+        return { mine: mineRes.rows, toReview };
+    }
+
+    private static async canReview(reviewerId: number, role: string, targetUserId: number) {
+        if (reviewerId === targetUserId) return false;
+        if (await hasPermission(role, 'timesheet.period.override')) return true;
+        const managerRes = await pool.query('SELECT reporting_manager_id FROM users WHERE id = $1', [targetUserId]);
+        const managerId = managerRes.rows[0]?.reporting_manager_id ?? null;
+        if (managerId !== null && String(managerId) === String(reviewerId)) return true;
+        return !!(await getOnBehalfOf(reviewerId, managerId));
+    }
+
+    static async reviewReopenRequest(reviewerId: number, role: string, requestId: number, action: 'approve' | 'reject', comment?: string) {
+        if (action !== 'approve' && action !== 'reject') throw new Error("Invalid action");
+        if (action === 'reject' && !comment?.trim()) throw new Error("A comment is required to reject a request");
+
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            const requestRes = await client.query(`
+                SELECT *, TO_CHAR(period_start, 'YYYY-MM-DD') as period
+                FROM timesheet_reopen_requests WHERE id = $1 FOR UPDATE
+            `, [requestId]);
+            if (requestRes.rows.length === 0) throw new Error("Reopen request not found");
+            const request = requestRes.rows[0];
+            if (request.status !== 'pending') throw new Error(`Request is already ${request.status}`);
+
+            if (!(await TimesheetPeriodService.canReview(reviewerId, role, request.user_id))) {
+                throw new Error("Not authorized: only the employee's reporting manager can review this request");
+            }
+            const managerRes = await client.query('SELECT reporting_manager_id FROM users WHERE id = $1', [request.user_id]);
+            const onBehalfOf = await getOnBehalfOf(reviewerId, managerRes.rows[0]?.reporting_manager_id ?? null);
+
+            const status = action === 'approve' ? 'approved' : 'rejected';
+            const updateRes = await client.query(`
+                UPDATE timesheet_reopen_requests
+                SET status = $1, reviewed_by = $2, reviewed_at = CURRENT_TIMESTAMP, review_comment = $3,
+                    reopen_until = CASE WHEN $1 = 'approved' THEN CURRENT_TIMESTAMP + ($4 || ' days')::interval END
+                WHERE id = $5
+                RETURNING reopen_until
+            `, [status, reviewerId, comment?.trim() || null, String(REOPEN_WINDOW_DAYS), requestId]);
+
+            await recordAudit({
+                userId: reviewerId,
+                action: action === 'approve' ? 'APPROVE' : 'REJECT',
+                entityType: 'timesheet_reopen_request',
+                entityId: requestId,
+                oldValues: { status: 'pending' },
+                newValues: {
+                    status,
+                    comment: comment?.trim() || null,
+                    reopenUntil: updateRes.rows[0].reopen_until,
+                    ...(onBehalfOf ? { onBehalfOfId: onBehalfOf.id, onBehalfOf: onBehalfOf.name } : {})
+                }
+            }, client);
+            await client.query('COMMIT');
+
+            const label = TimesheetPeriodService.periodLabel(request.period);
+            await createNotification(request.user_id, {
+                type: 'timesheet_status',
+                title: `Timesheet reopen ${status}`,
+                message: action === 'approve'
+                    ? `Your ${label} timesheet is open for edits for ${REOPEN_WINDOW_DAYS} days.`
+                    : `Your request to reopen ${label} was rejected: ${comment!.trim()}`,
+                link: '/timesheets'
+            });
+
+            logger.info(`[TIMESHEET PERIOD] [REVIEW] Request: ${requestId}, Action: ${action}, By: ${reviewerId}`);
+            const result = await pool.query(`${REQUEST_SELECT} WHERE r.id = $1`, [requestId]);
+            return result.rows[0];
+        } catch (e) {
+            await client.query('ROLLBACK');
+            throw e;
+        } finally {
+            client.release();
+        }
+    }
+}
@@ -0,0 +1,158 @@
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { DraftEntryResult, TimesheetEntry, TimesheetService } from './timesheet.service';
+
+export interface TimesheetTemplateInput {
+    name: string;
+    project_id: number;
+    module_id: number;
+    task_id: number;
+    activity_id?: number | null;
+    duration: number;
+    description: string;
+    work_status: string;
+    weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+const MAX_TEMPLATES_PER_USER = 20;
+
+// Same set as the project_entries work_status constraint, minus the system-only value
+const TEMPLATE_WORK_STATUSES = ['not_started', 'in_progress', 'completed', 'on_hold', 'differed', 'review', 'testing', 'fixed'];
+
+const TEMPLATE_SELECT = `
+    SELECT tt.id, tt.name, tt.project_id, tt.module_id, tt.task_id, tt.activity_id,
+           tt.duration::float as duration, tt.description, tt.work_status, tt.weekdays,
+           tt.created_at, tt.updated_at,
+           p.name as project_name, m.name as module_name, t.name as task_name, a.name as activity_name
+    FROM timesheet_templates tt
+    JOIN projects p ON tt.project_id = p.id
+    JOIN project_modules m ON tt.module_id = m.id
+    JOIN project_tasks t ON tt.task_id = t.id
+    LEFT JOIN project_activities a ON tt.activity_id = a.id
+`;
+
+export class TimesheetTemplateService {
+
+    static async getTemplates(userId: number) {
+        const result = await pool.query(`${TEMPLATE_SELECT} WHERE tt.user_id = $1 ORDER BY tt.name`, [userId]);
+        return result.rows;
+    }
+
+    private static async validate(userId: number, input: TimesheetTemplateInput) {
+        const name = (input.name || '').trim();
+        if (!name) throw new Error("Template name is required");
+        if (name.length > 100) throw new Error("Template name cannot exceed 100 characters");
+        if (!input.description || !input.description.trim()) throw new Error("Description is required");
+
+        const duration = Number(input.duration);
+        if (!(duration > 0 && duration <= 12)) throw new Error("Duration must be more than 0 and at most 12 hours");
+        if (!TEMPLATE_WORK_STATUSES.includes(input.work_status)) throw new Error("Invalid work status");
+
+        const weekdays = Array.from(new Set((input.weekdays || []).map(Number)));
+        if (weekdays.length === 0 || weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+            throw new Error("Select at least one weekday");
+        }
+
+        await TimesheetService.assertLoggableTask(userId, input);
+
+        return {
+            name,
+            description: input.description.trim(),
+            duration,
+            weekdays: weekdays.sort((a, b) => a - b)
+        };
+    }
+
+    static async createTemplate(userId: number, input: TimesheetTemplateInput) {
+        const values = await TimesheetTemplateService.validate(userId, input);
+
+        const countRes = await pool.query('SELECT COUNT(*)::int as count FROM timesheet_templates WHERE user_id = $1', [userId]);
+        if (countRes.rows[0].count >= MAX_TEMPLATES_PER_USER) {
+            throw new Error(`You can keep at most ${MAX_TEMPLATES_PER_USER} templates`);
+        }
+
+        try {
+            const insertRes = await pool.query(`
+                INSERT INTO timesheet_templates (
+                    user_id, name, project_id, module_id, task_id, activity_id,
+                    duration, description, work_status, weekdays
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                RETURNING id
+            `, [
+                userId, values.name, input.project_id, input.module_id, input.task_id, input.activity_id || null,
+                values.duration, values.description, input.work_status, values.weekdays
+            ]);
+            logger.info(`[TIMESHEET TEMPLATE] [CREATE] User: ${userId}, Template: ${insertRes.rows[0].id}`);
+            const result = await pool.query(`${TEMPLATE_SELECT} WHERE tt.id = $1`, [insertRes.rows[0].id]);
+            return result.rows[0];
+        } catch (error: any) {
+            if (error.code === '23505') throw new Error("A template with this name already exists");
+            throw error;
+        }
+    }
+
+    static async updateTemplate(userId: number, templateId: number, input: TimesheetTemplateInput) {
+        const values = await TimesheetTemplateService.validate(userId, input);
+
+        try {
+            const updateRes = await pool.query(`
+                UPDATE timesheet_templates
+                SET name = $1, project_id = $2, module_id = $3, task_id = $4, activity_id = $5,
+                    duration = $6, description = $7, work_status = $8, weekdays = $9, updated_at = CURRENT_TIMESTAMP
+                WHERE id = $10 AND user_id = $11
+                RETURNING id
+            `, [
+                values.name, input.project_id, input.module_id, input.task_id, input.activity_id || null,
+                values.duration, values.description, input.work_status, values.weekdays, templateId, userId
+            ]);
+            if (updateRes.rows.length === 0) throw new Error("Template not found");
+        } catch (error: any) {
+            if (error.code === '23505') throw new Error("A template with this name already exists");
+            throw error;
+        }
+
+        logger.info(`[TIMESHEET TEMPLATE] [UPDATE] User: ${userId}, Template: ${templateId}`);
+        const result = await pool.query(`${TEMPLATE_SELECT} WHERE tt.id = $1`, [templateId]);
+        return result.rows[0];
+    }
+
+    static async deleteTemplate(userId: number, templateId: number) {
+        const result = await pool.query('DELETE FROM timesheet_templates WHERE id = $1 AND user_id = $2', [templateId, userId]);
+        if (result.rowCount === 0) throw new Error("Template not found");
+        logger.info(`[TIMESHEET TEMPLATE] [DELETE] User: ${userId}, Template: ${templateId}`);
+        return { success: true };
+    }
+
+    /**
+     * Add the chosen templates to a week as drafts, one entry per template weekday
+     */
+    static async applyTemplates(userId: number, weekStartStr: string, templateIds: number[]): Promise<DraftEntryResult> {
+        const weekDates = TimesheetService.getWeekDates(weekStartStr);
+        const result = await pool.query(
+            'SELECT * FROM timesheet_templates WHERE user_id = $1 AND id = ANY($2) ORDER BY name',
+            [userId, templateIds]
+        );
+        if (result.rows.length === 0) throw new Error("Template not found");
+
+        const drafts: TimesheetEntry[] = [];
+        result.rows.forEach((template: any) => {
+            weekDates.forEach(log_date => {
+                if (!template.weekdays.includes(new Date(`${log_date}T00:00:00Z`).getUTCDay())) return;
+                drafts.push({
+                    user_id: userId,
+                    project_id: template.project_id,
+                    module_id: template.module_id,
+                    task_id: template.task_id,
+                    activity_id: template.activity_id,
+                    log_date,
+                    duration: parseFloat(template.duration),
+                    description: template.description,
+                    work_status: template.work_status
+                });
+            });
+        });
+
+        logger.info(`[TIMESHEET TEMPLATE] [APPLY] User: ${userId}, Week: ${weekStartStr}, Templates: ${result.rows.length}`);
+        return TimesheetService.addDraftEntries(userId, weekStartStr, drafts);
+    }
+}
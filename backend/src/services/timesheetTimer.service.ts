@@ -0,0 +1,162 @@
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { TimesheetService } from './timesheet.service';
+import { EmployeeSchedule, getEmployeeSchedule } from './workSchedule.service';
+
+export interface TimerStartInput {
+    project_id: number;
+    module_id: number;
+    task_id: number;
+    activity_id?: number | null;
+    description?: string;
+}
+
+export interface TimerStopInput {
+    description?: string;
+    work_status?: string;
+}
+
+// Elapsed time is worked out by the database clock so every tab and device agrees
+const TIMER_SELECT = `
+    SELECT tt.id, tt.project_id, tt.module_id, tt.task_id, tt.activity_id, tt.description,
+           tt.started_at, tt.running_since, tt.accumulated_seconds,
+           (tt.running_since IS NOT NULL) as is_running,
+           tt.accumulated_seconds + COALESCE(FLOOR(EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - tt.running_since))), 0)::int as elapsed_seconds,
+           p.name as project_name, m.name as module_name, t.name as task_name
+    FROM timesheet_timers tt
+    JOIN projects p ON tt.project_id = p.id
+    JOIN project_modules m ON tt.module_id = m.id
+    JOIN project_tasks t ON tt.task_id = t.id
+`;
+
+export class TimesheetTimerService {
+
+    /**
+     * Tracked seconds as hours, rounded to the schedule's increment in its direction
+     */
+    static roundTrackedHours(seconds: number, schedule: Pick<EmployeeSchedule, 'timerRoundingMinutes' | 'timerRoundingMode'>) {
+        const increments = seconds / 60 / schedule.timerRoundingMinutes;
+        const rounded = schedule.timerRoundingMode === 'up'
+            ? Math.ceil(increments)
+            : schedule.timerRoundingMode === 'down'
+                ? Math.floor(increments)
+                : Math.round(increments);
+        return Math.round(rounded * schedule.timerRoundingMinutes / 60 * 100) / 100;
+    }
+
+    static async getTimer(userId: number) {
+        const result = await pool.query(`${TIMER_SELECT} WHERE tt.user_id = $1`, [userId]);
+        if (result.rows.length === 0) return null;
+
+        const schedule = await getEmployeeSchedule(userId);
+        const timer = result.rows[0];
+        return {
+            ...timer,
+            rounded_hours: TimesheetTimerService.roundTrackedHours(timer.elapsed_seconds, schedule),
+            rounding_minutes: schedule.timerRoundingMinutes,
+            rounding_mode: schedule.timerRoundingMode
+        };
+    }
+
+    static async startTimer(userId: number, input: TimerStartInput) {
+        await TimesheetService.assertLoggableTask(userId, input);
+
+        try {
+            await pool.query(`
+                INSERT INTO timesheet_timers (user_id, project_id, module_id, task_id, activity_id, description)
+                VALUES ($1, $2, $3, $4, $5, $6)
+            `, [userId, input.project_id, input.module_id, input.task_id, input.activity_id || null, input.description?.trim() || null]);
+        } catch (error: any) {
+            // The unique user_id keeps a second timer from starting alongside the first
+            if (error.code === '23505') throw new Error("A timer is already running. Stop or discard it before starting another.");
+            throw error;
+        }
+
+        logger.info(`[TIMESHEET TIMER] [START] User: ${userId}, Task: ${input.task_id}`);
+        return TimesheetTimerService.getTimer(userId);
+    }
+
+    static async pauseTimer(userId: number) {
+        const result = await pool.query(`
+            UPDATE timesheet_timers
+            SET accumulated_seconds = accumulated_seconds + FLOOR(EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - running_since)))::int,
+                running_since = NULL, updated_at = CURRENT_TIMESTAMP
+            WHERE user_id = $1 AND running_since IS NOT NULL
+        `, [userId]);
+        if (result.rowCount === 0) throw new Error("No running timer found");
+
+        logger.info(`[TIMESHEET TIMER] [PAUSE] User: ${userId}`);
+        return TimesheetTimerService.getTimer(userId);
+    }
+
+    static async resumeTimer(userId: number) {
+        const result = await pool.query(`
+            UPDATE timesheet_timers
+            SET running_since = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+            WHERE user_id = $1 AND running_since IS NULL
+        `, [userId]);
+        if (result.rowCount === 0) throw new Error("No paused timer found");
+
+        logger.info(`[TIMESHEET TIMER] [RESUME] User: ${userId}`);
+        return TimesheetTimerService.getTimer(userId);
+    }
+
+    /**
+     * Turn the tracked time into a draft log on the day the timer was started. The log is saved
+     * and the timer removed in one transaction, with the timer row locked, so a second stop
+     * (another tab) cannot log it twice; if the log is rejected (e.g. daily cap, holiday) the
+     * timer is kept so nothing is lost.
+     */
+    static async stopTimer(userId: number, input: TimerStopInput) {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            const timerRes = await client.query(`
+                SELECT *, accumulated_seconds + COALESCE(FLOOR(EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - running_since))), 0)::int as elapsed_seconds
+                FROM timesheet_timers WHERE user_id = $1 FOR UPDATE
+            `, [userId]);
+            if (timerRes.rows.length === 0) throw new Error("No timer found");
+            const timer = timerRes.rows[0];
+
+            const description = (input.description ?? timer.description ?? '').trim();
+            if (!description) throw new Error("Description is required to log the tracked time");
+
+            const schedule = await getEmployeeSchedule(userId, client);
+            const duration = TimesheetTimerService.roundTrackedHours(timer.elapsed_seconds, schedule);
+            if (duration <= 0) {
+                throw new Error(`Tracked time rounds to 0 hours (rounding to ${schedule.timerRoundingMinutes} minutes); keep the timer running or discard it`);
+            }
+
+            const entry = await TimesheetService.upsertEntry(userId, {
+                user_id: userId,
+                project_id: timer.project_id,
+                module_id: timer.module_id,
+                task_id: timer.task_id,
+                activity_id: timer.activity_id,
+                log_date: TimesheetService.formatDate(timer.started_at),
+                duration,
+                description,
+                work_status: input.work_status || 'in_progress'
+            }, client);
+
+            await client.query('DELETE FROM timesheet_timers WHERE id = $1', [timer.id]);
+            await client.query('COMMIT');
+
+            logger.info(`[TIMESHEET TIMER] [STOP] User: ${userId}, Tracked: ${timer.elapsed_seconds}s, Logged: ${duration}h, Entry: ${entry.id}`);
+            return entry;
+        } catch (e) {
+            await client.query('ROLLBACK');
+            throw e;
+        } finally {
+            client.release();
+        }
+    }
+
+    static async discardTimer(userId: number) {
+        const result = await pool.query('DELETE FROM timesheet_timers WHERE user_id = $1', [userId]);
+        if (result.rowCount === 0) throw new Error("No timer found");
+        logger.info(`[TIMESHEET TIMER] [DISCARD] User: ${userId}`);
+        return { success: true };
+    }
+}
@@ -0,0 +1,496 @@
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../database/db';
+import { logger } from '../utils/logger';
+import { recordAudit, recordChange } from './audit.service';
+
+type Queryable = Pool | PoolClient;
+
+export type WorkScheduleSource = 'employee' | 'department' | 'default';
+
+export type TimerRoundingMode = 'nearest' | 'up' | 'down';
+
+export const TIMER_ROUNDING_MINUTES = [1, 5, 6, 10, 15, 30, 60];
+export const TIMER_ROUNDING_MODES: TimerRoundingMode[] = ['nearest', 'up', 'down'];
+
+export interface WorkSchedule {
+  id: number;
+  name: string;
+  /** Weekdays worked, 0 = Sunday ... 6 = Saturday */
+  workingDays: number[];
+  dailyHours: number;
+  /** Hours a week must reach (logs plus leave and holidays) before it can be submitted */
+  weeklyMinHours: number;
+  /** Increment that timer-tracked time is rounded to when it becomes a log */
+  timerRoundingMinutes: number;
+  timerRoundingMode: TimerRoundingMode;
+  isDefault: boolean;
+  employeeCount?: number;
+  departments?: string[];
+}
+
+export interface WorkScheduleInput {
+  name: string;
+  workingDays: number[];
+  dailyHours: number;
+  weeklyMinHours: number;
+  timerRoundingMinutes?: number;
+  timerRoundingMode?: TimerRoundingMode;
+  isDefault?: boolean;
+}
+
+export interface EmployeeSchedule {
+  scheduleId: number | null;
+  name: string;
+  workingDays: number[];
+  dailyHours: number;
+  weeklyMinHours: number;
+  timerRoundingMinutes: number;
+  timerRoundingMode: TimerRoundingMode;
+  source: WorkScheduleSource;
+}
+
+export interface EmployeeScheduleAssignment {
+  employeeId: number;
+  empId: string;
+  employeeName: string;
+  role: string;
+  department: string | null;
+  /** Schedule assigned to the employee directly, if any */
+  assignedScheduleId: number | null;
+  schedule: EmployeeSchedule;
+}
+
+export interface DepartmentScheduleAssignment {
+  department: string;
+  employeeCount: number;
+  scheduleId: number | null;
+  scheduleName: string | null;
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Used when no schedule has been marked as the default
+export const FALLBACK_WORK_SCHEDULE: EmployeeSchedule = {
+  scheduleId: null,
+  name: 'Standard (Mon-Fri)',
+  workingDays: [1, 2, 3, 4, 5],
+  dailyHours: 8,
+  weeklyMinHours: 40,
+  timerRoundingMinutes: 15,
+  timerRoundingMode: 'nearest',
+  source: 'default'
+};
+
+const mapSchedule = (row: any): WorkSchedule => ({
+  id: row.id,
+  name: row.name,
+  workingDays: (row.working_days || []).map(Number).sort(),
+  dailyHours: parseFloat(row.daily_hours),
+  weeklyMinHours: parseFloat(row.weekly_min_hours),
+  timerRoundingMinutes: row.timer_rounding_minutes,
+  timerRoundingMode: row.timer_rounding_mode,
+  isDefault: row.is_default,
+  ...(row.employee_count !== undefined && { employeeCount: parseInt(row.employee_count) || 0 }),
+  ...(row.departments !== undefined && { departments: row.departments || [] })
+});
+
+const mapEmployeeSchedule = (row: any): EmployeeSchedule => {
+  if (!row.schedule_id) return { ...FALLBACK_WORK_SCHEDULE };
+  return {
+    scheduleId: row.schedule_id,
+    name: row.schedule_name,
+    workingDays: (row.working_days || []).map(Number).sort(),
+    dailyHours: parseFloat(row.daily_hours),
+    weeklyMinHours: parseFloat(row.weekly_min_hours),
+    timerRoundingMinutes: row.timer_rounding_minutes,
+    timerRoundingMode: row.timer_rounding_mode,
+    source: row.source
+  };
+};
+
+// Effective schedule per user: own assignment, then department, then the default
+const EMPLOYEE_SCHEDULE_SELECT = `
+  SELECT u.id as user_id, ws.id as schedule_id, ws.name as schedule_name,
+         ws.working_days, ws.daily_hours, ws.weekly_min_hours, ws.timer_rounding_minutes, ws.timer_rounding_mode,
+         CASE
+           WHEN u.work_schedule_id IS NOT NULL THEN 'employee'
+           WHEN dws.work_schedule_id IS NOT NULL THEN 'department'
+           ELSE 'default'
+         END as source
+  FROM users u
+  LEFT JOIN department_work_schedules dws ON LOWER(dws.department) = LOWER(u.department)
+  LEFT JOIN work_schedules ws ON ws.id = COALESCE(
+    u.work_schedule_id,
+    dws.work_schedule_id,
+    (SELECT id FROM work_schedules WHERE is_default = true LIMIT 1)
+  )
+`;
+
+const parseDate = (date: Date | string): Date =>
+  typeof date === 'string' ? new Date(`${date.split('T')[0]}T00:00:00`) : date;
+
+/**
+ * Whether the schedule works on the given date's weekday
+ */
+export const isWorkingDay = (schedule: Pick<EmployeeSchedule, 'workingDays'>, date: Date | string): boolean =>
+  schedule.workingDays.includes(parseDate(date).getDay());
+
+/**
+ * Hours credited for a leave or holiday day under the schedule
+ */
+export const getDayHours = (schedule: Pick<EmployeeSchedule, 'dailyHours'>, isHalfDay = false): number =>
+  isHalfDay ? schedule.dailyHours / 2 : schedule.dailyHours;
+
+export const getEmployeeSchedule = async (userId: number, db: Queryable = pool): Promise<EmployeeSchedule> => {
+  const result = await db.query(`${EMPLOYEE_SCHEDULE_SELECT} WHERE u.id = $1`, [userId]);
+  if (result.rows.length === 0) return { ...FALLBACK_WORK_SCHEDULE };
+  return mapEmployeeSchedule(result.rows[0]);
+};
+
+/**
+ * Effective schedules for many users in one query; users not found get the fallback
+ */
+export const getScheduleMap = async (userIds: number[], db: Queryable = pool): Promise<Map<number, EmployeeSchedule>> => {
+  const schedules = new Map<number, EmployeeSchedule>();
+  if (userIds.length === 0) return schedules;
+
+  const result = await db.query(`${EMPLOYEE_SCHEDULE_SELECT} WHERE u.id = ANY($1)`, [userIds]);
+  result.rows.forEach((row: any) => schedules.set(row.user_id, mapEmployeeSchedule(row)));
+  userIds.forEach((id) => {
+    if (!schedules.has(id)) schedules.set(id, { ...FALLBACK_WORK_SCHEDULE });
+  });
+  return schedules;
+};
+
+// ============================================================================
+// Schedule configuration
+// ============================================================================
+
+export const getSchedules = async (): Promise<WorkSchedule[]> => {
+  const result = await pool.query(
+    `SELECT ws.*,
+            (SELECT COUNT(*) FROM users u WHERE u.work_schedule_id = ws.id AND u.status = 'active') as employee_count,
+            (SELECT ARRAY_AGG(dws.department ORDER BY dws.department)
+             FROM department_work_schedules dws WHERE dws.work_schedule_id = ws.id) as departments
+     FROM work_schedules ws
+     ORDER BY ws.is_default DESC, ws.name`
+  );
+  return result.rows.map(mapSchedule);
+};
+
+export const validateScheduleInput = (input: WorkScheduleInput) => {
+  if (!input.name || !input.name.trim()) {
+    throw new Error('Schedule name is required');
+  }
+  if (!Array.isArray(input.workingDays) || input.workingDays.length === 0) {
+    throw new Error('At least one working day is required');
+  }
+  if (input.workingDays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new Error('Working days must be weekdays from 0 (Sunday) to 6 (Saturday)');
+  }
+  if (new Set(input.workingDays).size !== input.workingDays.length) {
+    throw new Error('Each working day can only appear once');
+  }
+  if (isNaN(input.dailyHours) || input.dailyHours <= 0 || input.dailyHours > 24) {
+    throw new Error('Daily hours must be between 0 and 24');
+  }
+  if (isNaN(input.weeklyMinHours) || input.weeklyMinHours < 0) {
+    throw new Error('Weekly minimum hours cannot be negative');
+  }
+  if (input.weeklyMinHours > input.dailyHours * input.workingDays.length) {
+    throw new Error('Weekly minimum hours cannot be more than daily hours times working days');
+  }
+  if (input.timerRoundingMinutes !== undefined && !TIMER_ROUNDING_MINUTES.includes(input.timerRoundingMinutes)) {
+    throw new Error(`Timer rounding must be one of ${TIMER_ROUNDING_MINUTES.join(', ')} minutes`);
+  }
+  if (input.timerRoundingMode !== undefined && !TIMER_ROUNDING_MODES.includes(input.timerRoundingMode)) {
+    throw new Error('Timer rounding mode must be nearest, up or down');
+  }
+};
+
+export const createSchedule = async (input: WorkScheduleInput, requesterId: number): Promise<WorkSchedule> => {
+  logger.info(`[WORK SCHEDULE] [CREATE] ${JSON.stringify(input)}`);
+  validateScheduleInput(input);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query('SELECT 1 FROM work_schedules WHERE LOWER(name) = LOWER($1)', [input.name.trim()]);
+    if (existing.rows.length > 0) {
+      throw new Error('A schedule with this name already exists');
+    }
+
+    if (input.isDefault) {
+      await client.query('UPDATE work_schedules SET is_default = false WHERE is_default = true');
+    }
+
+    const result = await client.query(
+      `INSERT INTO work_schedules (name, working_days, daily_hours, weekly_min_hours, timer_rounding_minutes, timer_rounding_mode,
+                                   is_default, created_by, updated_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+       RETURNING *`,
+      [
+        input.name.trim(), input.workingDays, input.dailyHours, input.weeklyMinHours,
+        input.timerRoundingMinutes ?? FALLBACK_WORK_SCHEDULE.timerRoundingMinutes,
+        input.timerRoundingMode ?? FALLBACK_WORK_SCHEDULE.timerRoundingMode,
+        input.isDefault ?? false, requesterId
+      ]
+    );
+
+    const schedule = mapSchedule(result.rows[0]);
+    await recordAudit({
+      userId: requesterId,
+      action: 'CREATE',
+      entityType: 'work_schedule',
+      entityId: schedule.id,
+      newValues: schedule
+    }, client);
+
+    await client.query('COMMIT');
+    return schedule;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+export const updateSchedule = async (id: number, input: WorkScheduleInput, requesterId: number): Promise<WorkSchedule> => {
+  logger.info(`[WORK SCHEDULE] [UPDATE] ID: ${id}, ${JSON.stringify(input)}`);
+  validateScheduleInput(input);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const beforeResult = await client.query('SELECT * FROM work_schedules WHERE id = $1 FOR UPDATE', [id]);
+    if (beforeResult.rows.length === 0) {
+      throw new Error('Work schedule not found');
+    }
+    const before = mapSchedule(beforeResult.rows[0]);
+    if (before.isDefault && input.isDefault === false) {
+      throw new Error('The default schedule cannot be unset; mark another schedule as the default instead');
+    }
+
+    const duplicate = await client.query(
+      'SELECT 1 FROM work_schedules WHERE LOWER(name) = LOWER($1) AND id != $2',
+      [input.name.trim(), id]
+    );
+    if (duplicate.rows.length > 0) {
+      throw new Error('A schedule with this name already exists');
+    }
+
+    const isDefault = input.isDefault ?? before.isDefault;
+    if (isDefault && !before.isDefault) {
+      await client.query('UPDATE work_schedules SET is_default = false WHERE is_default = true');
+    }
+
+    const result = await client.query(
+      `UPDATE work_schedules
+       SET name = $1, working_days = $2, daily_hours = $3, weekly_min_hours = $4, is_default = $5,
+           timer_rounding_minutes = $6, timer_rounding_mode = $7,
+           updated_by = $8, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $9
+       RETURNING *`,
+      [
+        input.name.trim(), input.workingDays, input.dailyHours, input.weeklyMinHours, isDefault,
+        input.timerRoundingMinutes ?? before.timerRoundingMinutes,
+        input.timerRoundingMode ?? before.timerRoundingMode,
+        requesterId, id
+      ]
+    );
+
+    const schedule = mapSchedule(result.rows[0]);
+    await recordChange({
+      userId: requesterId,
+      action: 'UPDATE',
+      entityType: 'work_schedule',
+      entityId: id,
+      before,
+      after: schedule
+    }, client);
+
+    await client.query('COMMIT');
+    return schedule;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+export const deleteSchedule = async (id: number, requesterId: number): Promise<void> => {
+  logger.info(`[WORK SCHEDULE] [DELETE] ID: ${id}`);
+
+  const existing = await pool.query('SELECT * FROM work_schedules WHERE id = $1', [id]);
+  if (existing.rows.length === 0) {
+    throw new Error('Work schedule not found');
+  }
+  if (existing.rows[0].is_default) {
+    throw new Error('The default schedule cannot be deleted');
+  }
+
+  // Employees and departments on this schedule fall back to the default
+  await pool.query('DELETE FROM work_schedules WHERE id = $1', [id]);
+  await recordAudit({
+    userId: requesterId,
+    action: 'DELETE',
+    entityType: 'work_schedule',
+    entityId: id,
+    oldValues: mapSchedule(existing.rows[0])
+  });
+};
+
+// ============================================================================
+// Assignments
+// ============================================================================
+
+const assertScheduleExists = async (db: Queryable, scheduleId: number | null) => {
+  if (scheduleId === null) return;
+  const result = await db.query('SELECT 1 FROM work_schedules WHERE id = $1', [scheduleId]);
+  if (result.rows.length === 0) {
+    throw new Error('Work schedule not found');
+  }
+};
+
+export const getEmployeeAssignments = async (): Promise<EmployeeScheduleAssignment[]> => {
+  const result = await pool.query(
+    `SELECT u.id, u.emp_id, u.user_role, u.department, u.work_schedule_id,
+            u.first_name || ' ' || COALESCE(u.last_name, '') as employee_name
+     FROM users u
+     WHERE u.status = 'active' AND u.user_role != 'super_admin'
+     ORDER BY u.first_name, u.last_name`
+  );
+  const schedules = await getScheduleMap(result.rows.map((row: any) => row.id));
+
+  return result.rows.map((row: any) => ({
+    employeeId: row.id,
+    empId: row.emp_id,
+    employeeName: (row.employee_name || '').trim(),
+    role: row.user_role,
+    department: row.department,
+    assignedScheduleId: row.work_schedule_id,
+    schedule: schedules.get(row.id) as EmployeeSchedule
+  }));
+};
+
+/**
+ * Assign a schedule to employees directly, or clear it (null) so they follow their department
+ */
+export const assignEmployees = async (employeeIds: number[], scheduleId: number | null, requesterId: number): Promise<number> => {
+  logger.info(`[WORK SCHEDULE] [ASSIGN EMPLOYEES] Schedule: ${scheduleId}, Employees: ${employeeIds.join(', ')}`);
+  if (employeeIds.length === 0) {
+    throw new Error('Select at least one employee');
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await assertScheduleExists(client, scheduleId);
+
+    const result = await client.query(
+      `UPDATE users u
+       SET work_schedule_id = $1
+       FROM (SELECT id, work_schedule_id FROM users WHERE id = ANY($2) FOR UPDATE) prev
+       WHERE u.id = prev.id AND u.work_schedule_id IS DISTINCT FROM $1
+       RETURNING u.id, prev.work_schedule_id as old_schedule_id`,
+      [scheduleId, employeeIds]
+    );
+
+    for (const row of result.rows) {
+      await recordAudit({
+        userId: requesterId,
+        action: 'UPDATE',
+        entityType: 'user',
+        entityId: row.id,
+        oldValues: { workScheduleId: row.old_schedule_id },
+        newValues: { workScheduleId: scheduleId }
+      }, client);
+    }
+
+    await client.query('COMMIT');
+    return result.rows.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+export const getDepartmentAssignments = async (): Promise<DepartmentScheduleAssignment[]> => {
+  const result = await pool.query(
+    `SELECT d.department, d.employee_count, ws.id as schedule_id, ws.name as schedule_name
+     FROM (
+       SELECT MIN(department) as department, COUNT(*) as employee_count
+       FROM users
+       WHERE status = 'active' AND department IS NOT NULL AND TRIM(department) != ''
+       GROUP BY LOWER(department)
+       UNION ALL
+       SELECT dws.department, 0
+       FROM department_work_schedules dws
+       WHERE NOT EXISTS (
+         SELECT 1 FROM users u
+         WHERE u.status = 'active' AND LOWER(u.department) = LOWER(dws.department)
+       )
+     ) d
+     LEFT JOIN department_work_schedules dws ON LOWER(dws.department) = LOWER(d.department)
+     LEFT JOIN work_schedules ws ON ws.id = dws.work_schedule_id
+     ORDER BY d.department`
+  );
+
+  return result.rows.map((row: any) => ({
+    department: row.department,
+    employeeCount: parseInt(row.employee_count) || 0,
+    scheduleId: row.schedule_id,
+    scheduleName: row.schedule_name
+  }));
+};
+
+/**
+ * Assign a schedule to a whole department, or clear it (null) so its employees use the default
+ */
+export const setDepartmentSchedule = async (department: string, scheduleId: number | null, requesterId: number): Promise<void> => {
+  logger.info(`[WORK SCHEDULE] [DEPARTMENT] ${department} -> ${scheduleId}`);
+  const name = (department || '').trim();
+  if (!name) {
+    throw new Error('Department is required');
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await assertScheduleExists(client, scheduleId);
+
+    const before = await client.query(
+      'DELETE FROM department_work_schedules WHERE LOWER(department) = LOWER($1) RETURNING work_schedule_id',
+      [name]
+    );
+    if (scheduleId !== null) {
+      await client.query(
+        `INSERT INTO department_work_schedules (department, work_schedule_id, updated_by)
+         VALUES ($1, $2, $3)`,
+        [name, scheduleId, requesterId]
+      );
+    }
+
+    await recordAudit({
+      userId: requesterId,
+      action: 'UPDATE',
+      entityType: 'department_work_schedule',
+      entityId: null,
+      oldValues: { department: name, workScheduleId: before.rows[0]?.work_schedule_id ?? null },
+      newValues: { department: name, workScheduleId: scheduleId }
+    }, client);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
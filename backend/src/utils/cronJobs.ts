@@ -1,9 +1,18 @@
 import cron from 'node-cron';
 import { pool } from '../database/db';
 import { logger } from './logger';
-import { sendPendingLeaveReminderEmail, sendBirthdayWishEmail, sendHolidayCalendarReminderEmail, sendLeaveAllocationEmail } from './emailTemplates';
+import { sendPendingLeaveReminderEmail, sendBirthdayWishEmail, sendHolidayCalendarReminderEmail, sendLeaveAllocationEmail, sendNotificationDigestEmail } from './emailTemplates';
 import { isLastWorkingDayOfMonth } from './leaveCredit';
 import { TimesheetService } from '../services/timesheet.service';
+import { TimesheetPeriodService } from '../services/timesheetPeriod.service';
+import { getPendingDigests, markDigestSent } from '../services/notification.service';
+import { expireCompOffClaims } from '../services/compOff.service';
+import { processDueSettlements } from '../services/exitSettlement.service';
+import { purgeOldLoginAttempts } from '../services/loginSecurity.service';
+import { purgeEndedSessions } from '../services/session.service';
+import { getActiveDelegate } from '../services/approvalDelegation.service';
+import { CURRENT_STAGE_ROLE_SQL, getApprovalStages, notifyStageApprovers } from '../services/approvalWorkflow.service';
+import { recordAudit } from '../services/audit.service';
 
 /**
  * Send daily pending leave reminders to managers and HR
@@ -280,58 +289,92 @@ const cleanupOldHolidays = async () => {
   }
 };
 /**
- * Auto-approve pending leave requests where the end date has passed
+ * Auto-approve pending leave requests where the end date has passed. Requests waiting on a
+ * reporting manager who has an active delegate are left for the delegate, who is reminded.
  * Runs daily at 00:01 AM
  */
 const autoApprovePastPendingLeaves = async () => {
   try {
     logger.info('🔄 Starting auto-approval of past pending leaves job...');
 
+    const pastPendingResult = await pool.query(
+      `SELECT lr.id, lr.employee_id, lr.leave_type, lr.end_date, lr.current_status, u.reporting_manager_id,
+              ${CURRENT_STAGE_ROLE_SQL} AS current_stage_role
+       FROM leave_requests lr
+       JOIN users u ON lr.employee_id = u.id
+       WHERE lr.current_status IN ('pending', 'partially_approved')
+         AND lr.end_date <= (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Kolkata')::DATE`
+    );
+
+    const pastRequests = pastPendingResult.rows;
+    if (pastRequests.length > 0) {
+      logger.info(`Found ${pastRequests.length} pending leave requests to auto-approve (end_date <= today IST)`);
+    }
+
+    // A delegate is standing in for the manager: route the request to them rather than approving it
+    const toApprove: any[] = [];
+    for (const request of pastRequests) {
+      const delegate = request.current_stage_role === 'manager' ? await getActiveDelegate(request.reporting_manager_id) : null;
+      if (!delegate) {
+        toApprove.push(request);
+        continue;
+      }
+      logger.info(`Skipping auto-approval of Request ID: ${request.id}; awaiting delegate ${delegate.delegateName} (ID: ${delegate.delegateId})`);
+      const stages = await getApprovalStages(pool, request.id);
+      const current = stages.find((stage) => stage.status === 'pending');
+      if (current) await notifyStageApprovers(request.id, current);
+    }
+
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
 
-      const pastPendingResult = await client.query(
-        `SELECT id, employee_id, leave_type, end_date
-         FROM leave_requests 
-         WHERE current_status IN ('pending', 'partially_approved') 
-           AND end_date <= (CURRENT_TIMESTAMP AT TIME ZONE 'Asia/Kolkata')::DATE`
-      );
-
-      const pastRequests = pastPendingResult.rows;
-      if (pastRequests.length > 0) {
-        logger.info(`Found ${pastRequests.length} pending leave requests to auto-approve (end_date <= today IST)`);
-      }
+      for (const request of toApprove) {
+        logger.info(`Processing auto-approval for Request ID: ${request.id}, End Date: ${request.end_date}`);
+        // Recorded as a system approval, not against any approver's columns
+        await client.query(
+          `UPDATE leave_requests
+           SET current_status = 'approved',
+               auto_approved_at = CURRENT_TIMESTAMP,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [request.id]
+        );
 
-      if (pastRequests.length > 0) {
-        for (const request of pastRequests) {
-          logger.info(`Processing auto-approval for Request ID: ${request.id}, End Date: ${request.end_date}`);
-          // 2. Update leave_requests header
-          await client.query(
-            `UPDATE leave_requests 
-             SET current_status = 'approved',
-                 super_admin_approval_status = 'approved',
-                 super_admin_approval_date = CURRENT_TIMESTAMP,
-                 super_admin_approval_comment = 'Auto-approved: Leave date has arrived or passed',
-                 super_admin_approved_by = NULL,
-                 updated_at = CURRENT_TIMESTAMP
-             WHERE id = $1`,
-            [request.id]
-          );
+        // Only update days that are not already approved or rejected
+        await client.query(
+          "UPDATE leave_days SET day_status = 'approved' WHERE leave_request_id = $1 AND (day_status = 'pending' OR day_status IS NULL)",
+          [request.id]
+        );
 
-          // 3. Update all associated leave_days
-          // Only update days that are not already approved or rejected
-          await client.query(
-            "UPDATE leave_days SET day_status = 'approved' WHERE leave_request_id = $1 AND (day_status = 'pending' OR day_status IS NULL)",
-            [request.id]
-          );
+        // Stages still waiting are closed with their own status; nobody approved them
+        const stagesResult = await client.query(
+          `UPDATE leave_approval_stages
+           SET status = 'auto_approved', decided_by = NULL, decided_at = CURRENT_TIMESTAMP,
+               comment = 'Auto-approved: Leave date has arrived or passed'
+           WHERE leave_request_id = $1 AND status = 'pending'
+           RETURNING approver_role`,
+          [request.id]
+        );
 
-          logger.info(`✅ Auto-approved leave request ID: ${request.id} for employee ID: ${request.employee_id}`);
-        }
+        await recordAudit({
+          userId: null,
+          action: 'AUTO_APPROVE',
+          entityType: 'leave_request',
+          entityId: request.id,
+          oldValues: { status: request.current_status },
+          newValues: {
+            status: 'approved',
+            reason: 'Leave date has arrived or passed',
+            autoApprovedStages: stagesResult.rows.map((row: any) => row.approver_role)
+          }
+        }, client);
+
+        logger.info(`✅ Auto-approved leave request ID: ${request.id} for employee ID: ${request.employee_id}`);
       }
 
       await client.query('COMMIT');
-      logger.info(`✅ Auto-approval of past pending leaves job completed. Processed ${pastRequests.length} requests.`);
+      logger.info(`✅ Auto-approval of past pending leaves job completed. Approved ${toApprove.length} of ${pastRequests.length} requests.`);
     } catch (error: any) {
       await client.query('ROLLBACK');
       throw error;
@@ -344,6 +387,91 @@ const autoApprovePastPendingLeaves = async () => {
 };
 
 
+/**
+ * Lapse unused comp-off from claims past their validity
+ * Runs daily at 00:05 AM
+ */
+const expireCompOff = async () => {
+  try {
+    logger.info('🔄 Starting comp-off expiry job...');
+    const { expired, lapsedDays } = await expireCompOffClaims();
+    logger.info(`✅ Comp-off expiry job completed. Expired ${expired} claims, lapsed ${lapsedDays} days.`);
+  } catch (error: any) {
+    logger.error('❌ Error in comp-off expiry job:', error);
+  }
+};
+
+/**
+ * Settle leave and lock the accounts of employees whose last working day is today.
+ * Runs before the 8 PM monthly credit so exited employees are not credited again.
+ * Runs daily at 7:00 PM
+ */
+const settleExits = async () => {
+  try {
+    logger.info('🔄 Starting exit settlement job...');
+    const { completed, errors } = await processDueSettlements();
+    logger.info(`✅ Exit settlement job completed. Settled ${completed}, failed ${errors}.`);
+  } catch (error: any) {
+    logger.error('❌ Error in exit settlement job:', error);
+  }
+};
+
+/**
+ * Drop sign-in attempts older than the retention period, and sessions that ended
+ * more than a month ago
+ * Runs daily at 2:00 AM
+ */
+const purgeLoginAttempts = async () => {
+  try {
+    logger.info('🔄 Starting login attempt cleanup job...');
+    const deleted = await purgeOldLoginAttempts();
+    const sessions = await purgeEndedSessions();
+    logger.info(`✅ Login attempt cleanup job completed. Deleted ${deleted} attempts and ${sessions} ended sessions.`);
+  } catch (error: any) {
+    logger.error('❌ Error in login attempt cleanup job:', error);
+  }
+};
+
+/**
+ * Send one digest email per user covering every notification they chose to
+ * receive as a daily digest. Entries stay queued if the email fails.
+ * Runs every day at 6:00 PM
+ */
+const sendDailyNotificationDigests = async () => {
+  try {
+    logger.info('🔄 Starting daily notification digest job...');
+
+    const digests = await getPendingDigests();
+    logger.info(`Found ${digests.length} users with pending digest notifications`);
+
+    for (const digest of digests) {
+      try {
+        const sent = await sendNotificationDigestEmail(digest.email, {
+          recipientName: digest.name,
+          items: digest.notifications.map((notification) => ({
+            title: notification.title,
+            message: notification.message,
+            link: notification.link,
+            createdAt: notification.createdAt
+          }))
+        });
+
+        if (sent) {
+          await markDigestSent(digest.userId, digest.notifications.map((notification) => notification.id));
+          logger.info(`✅ Digest with ${digest.notifications.length} item(s) sent to ${digest.email}`);
+        } else {
+          logger.warn(`⚠️ Digest for ${digest.email} not sent; items kept for the next run`);
+        }
+      } catch (error: any) {
+        logger.error(`❌ Error sending digest to ${digest.email}:`, error);
+      }
+    }
+
+    logger.info('✅ Daily notification digest job completed');
+  } catch (error: any) {
+    logger.error('❌ Error in daily notification digest job:', error);
+  }
+};
 
 /**
  * Initialize and start all cron jobs
@@ -361,6 +489,12 @@ export const initializeCronJobs = () => {
   });
   logger.info('✅ Cron job scheduled: Daily birthday wishes (9:00 AM)');
 
+  // Daily notification digest at 6:00 PM
+  cron.schedule('0 18 * * *', sendDailyNotificationDigests, {
+    timezone: 'Asia/Kolkata'
+  });
+  logger.info('✅ Cron job scheduled: Daily notification digest (6:00 PM)');
+
   // Holiday List Reminder - Checks daily from Nov 23-30 to find the last working day
   // Note: We scan the date range including weekends, but the code logic explicitly checks for 
   // "Last Working Day" (Mon-Fri) and ignores Sat/Sun automatically.
@@ -383,6 +517,24 @@ export const initializeCronJobs = () => {
   });
   logger.info('✅ Cron job scheduled: Auto-approve past pending leaves (00:01 AM)');
 
+  // Comp-off expiry at 00:05 AM
+  cron.schedule('5 0 * * *', expireCompOff, {
+    timezone: 'Asia/Kolkata'
+  });
+  logger.info('✅ Cron job scheduled: Comp-off expiry (00:05 AM)');
+
+  // Exit settlement at 7:00 PM
+  cron.schedule('0 19 * * *', settleExits, {
+    timezone: 'Asia/Kolkata'
+  });
+  logger.info('✅ Cron job scheduled: Exit settlement (7:00 PM)');
+
+  // Login attempt cleanup at 2:00 AM
+  cron.schedule('0 2 * * *', purgeLoginAttempts, {
+    timezone: 'Asia/Kolkata'
+  });
+  logger.info('✅ Cron job scheduled: Login attempt cleanup (2:00 AM)');
+
   // Run on startup to ensure clean state
   cleanupOldHolidays();
   autoApprovePastPendingLeaves();
@@ -416,5 +568,12 @@ export const initializeCronJobs = () => {
     timezone: 'Asia/Kolkata'
   });
   logger.info('✅ Cron job scheduled: Timesheet Weekly Processing (Sun 11:59 PM)');
+
+  // 5. Period Auto-Close: Daily 00:30 AM (closes last month once the configured day is reached)
+  cron.schedule('30 0 * * *', TimesheetPeriodService.processAutoClose, {
+    timezone: 'Asia/Kolkata'
+  });
+  TimesheetPeriodService.processAutoClose();
+  logger.info('✅ Cron job scheduled: Timesheet Period Auto-Close (00:30 AM)');
 };
 
@@ -7,8 +7,10 @@ export interface LeaveDay {
 
 /**
  * Calculate leave days between start and end dates (inclusive, excluding weekends and holidays)
- * Saturday (6) and Sunday (0) are excluded from the count
- * Holidays from all years that the leave period spans are excluded
+ * Weekends are the days outside the employee's work schedule (Mon-Fri unless given)
+ * Holidays from all years that the leave period spans are excluded, taken from the employee's
+ * holiday calendar (the default calendar unless given); optional holidays count as working days,
+ * except the floating holidays the employee (when given) has an approved claim for
  */
 export async function calculateLeaveDays(
   startDate: Date,
@@ -16,7 +18,9 @@ export async function calculateLeaveDays(
   startType: 'full' | 'half',
   endType: 'full' | 'half',
   leaveType: string = 'casual',
-  userRole?: string
+  workingDays: number[] = [1, 2, 3, 4, 5],
+  holidayCalendarId: number | null = null,
+  employeeId: number | null = null
 ): Promise<{ days: number; leaveDays: LeaveDay[] }> {
   try {
     const leaveDays: LeaveDay[] = [];
@@ -32,22 +36,30 @@ export async function calculateLeaveDays(
     // Fetch holidays for all years that the leave spans
     // If leave spans Dec 22, 2025 to Jan 5, 2026, we need holidays for both 2025 and 2026
     let holidaysQuery: string;
-    let holidaysParams: number[];
+    let holidaysParams: (number | null)[];
+    const calendarFilter = (param: string) =>
+      `calendar_id = COALESCE(${param}::INTEGER, (SELECT id FROM holiday_calendars WHERE is_default = true LIMIT 1))`;
+    const dayOffFilter = (param: string) =>
+      `(is_optional = false OR id IN (
+         SELECT holiday_id FROM floating_holiday_claims WHERE employee_id = ${param}::INTEGER AND status = 'approved'
+       ))`;
 
     if (startYear === endYear) {
       // Leave is within the same year
       holidaysQuery = `SELECT holiday_date FROM holidays 
-                       WHERE is_active = true 
+                       WHERE is_active = true AND ${dayOffFilter('$3')}
+                       AND ${calendarFilter('$2')}
                        AND EXTRACT(YEAR FROM holiday_date) = $1
                        ORDER BY holiday_date`;
-      holidaysParams = [startYear];
+      holidaysParams = [startYear, holidayCalendarId, employeeId];
     } else {
       // Leave spans across two years (e.g., Dec 2025 to Jan 2026)
       holidaysQuery = `SELECT holiday_date FROM holidays 
-                       WHERE is_active = true 
+                       WHERE is_active = true AND ${dayOffFilter('$4')}
+                       AND ${calendarFilter('$3')}
                        AND (EXTRACT(YEAR FROM holiday_date) = $1 OR EXTRACT(YEAR FROM holiday_date) = $2)
                        ORDER BY holiday_date`;
-      holidaysParams = [startYear, endYear];
+      holidaysParams = [startYear, endYear, holidayCalendarId, employeeId];
     }
 
     const holidaysResult = await pool.query(holidaysQuery, holidaysParams);
@@ -67,11 +79,8 @@ export async function calculateLeaveDays(
     while (currentDate <= end) {
       const dayOfWeek = currentDate.getDay(); // 0 = Sunday, 6 = Saturday
 
-      // Skip weekends (Saturday and Sunday) - UNLESS it's LOP
-      // For interns, Saturday is a working day, so only Sunday is skipped.
-      const isSunday = dayOfWeek === 0;
-      const isSaturday = dayOfWeek === 6;
-      const isWeekend = isSunday || (isSaturday && userRole !== 'intern');
+      // Skip days outside the work schedule - UNLESS it's LOP
+      const isWeekend = !workingDays.includes(dayOfWeek);
 
       if (leaveType !== 'lop' && isWeekend) {
         currentDate.setDate(currentDate.getDate() + 1);
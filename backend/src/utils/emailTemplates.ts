@@ -1,8 +1,37 @@
-import { sendEmail } from './email';
+import { sendEmail, EmailOptions } from './email';
 import { logger } from './logger';
+import { createNotificationsForEmails, filterImmediateEmailRecipients, NotificationType } from '../services/notification.service';
 
 // URL for leave approval page
 const LEAVE_APPROVAL_URL = 'https://intra.tensorgo.com/leave-approval';
+const COMP_OFF_URL = 'https://intra.tensorgo.com/comp-off';
+const LEAVE_APPLY_URL = 'https://intra.tensorgo.com/leave-apply';
+
+/**
+ * Send an email honouring each recipient's notification preference for the event type.
+ * Recipients who chose digest, in-app only or off are dropped (their in-app
+ * notification has already been created); nothing is sent when nobody is left.
+ */
+const sendPreferredEmail = async (eventType: NotificationType, options: EmailOptions): Promise<boolean> => {
+  let to = await filterImmediateEmailRecipients(options.to, eventType);
+  let cc = await filterImmediateEmailRecipients(options.cc, eventType);
+
+  if (to.length === 0 && cc.length > 0) {
+    // Primary recipient opted out; CC'd recipients still get their copy
+    to = cc;
+    cc = [];
+  }
+  if (to.length === 0) {
+    logger.info(`[EMAIL] Skipping ${eventType} email: all recipients opted out of immediate email`);
+    return false;
+  }
+
+  return await sendEmail({
+    ...options,
+    to,
+    cc: cc.length > 0 ? cc : undefined,
+  });
+};
 
 /**
  * Ensure leaves@tensorgo.com is in the CC list for leave-related emails
@@ -73,7 +102,8 @@ const formatLeaveType = (leaveType: string): string => {
     casual: 'Casual Leave',
     sick: 'Sick Leave',
     lop: 'Loss of Pay (LOP)',
-    permission: 'Permission'
+    permission: 'Permission',
+    comp_off: 'Compensatory Off'
   };
   return types[leaveType] || leaveType;
 };
@@ -471,7 +501,14 @@ export const sendLeaveApplicationEmail = async (
   const emailHtml = generateLeaveApplicationEmailHtml(data);
   const emailText = generateLeaveApplicationEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(managerEmail, {
+    type: 'leave_application',
+    title: 'New Leave Application',
+    message: `${data.employeeName} (${data.employeeEmpId}) applied for ${formatLeaveType(data.leaveType)} from ${formatDateForDisplay(data.startDate)} to ${formatDateForDisplay(data.endDate)}.`,
+    link: '/leave-approval'
+  });
+
+  return await sendPreferredEmail('leave_application', {
     to: managerEmail,
     cc: ensureLeavesCC(cc),
     subject: emailSubject,
@@ -728,7 +765,14 @@ export const sendLeaveStatusEmail = async (
   const emailHtml = generateLeaveStatusEmailHtml(data);
   const emailText = generateLeaveStatusEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(recipientEmail, {
+    type: 'leave_status',
+    title: `Leave ${statusDisplay}`,
+    message: `Your ${formatLeaveType(data.leaveType)} request from ${formatDateForDisplay(data.startDate)} to ${formatDateForDisplay(data.endDate)} was ${statusDisplay.toLowerCase()} by ${data.approverName}.${data.comment ? ` Comment: ${data.comment}` : ''}`,
+    link: '/leave-apply'
+  });
+
+  return await sendPreferredEmail('leave_status', {
     to: recipientEmail,
     cc: ensureLeavesCC(cc),
     subject: emailSubject,
@@ -1001,7 +1045,14 @@ export const sendLeaveAllocationEmail = async (
   const emailHtml = generateLeaveAllocationEmailHtml(employeeData);
   const emailText = generateLeaveAllocationEmailText(employeeData);
 
-  return await sendEmail({
+  await createNotificationsForEmails(employeeEmail, {
+    type: 'leave_allocation',
+    title: 'Leave Balance Updated',
+    message: `${data.allocatedBy} added ${data.allocatedDays} ${formatLeaveType(data.leaveType)} day(s). New balance: ${data.newBalance}.`,
+    link: '/leave-apply'
+  });
+
+  return await sendPreferredEmail('leave_allocation', {
     to: employeeEmail,
     cc: ensureLeavesCC(),
     subject: emailSubject,
@@ -1025,7 +1076,14 @@ export const sendSuperAdminLeaveAllocationEmail = async (
   const emailHtml = generateSuperAdminLeaveAllocationEmailHtml(data);
   const emailText = generateSuperAdminLeaveAllocationEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(adminEmail, {
+    type: 'leave_allocation',
+    title: 'Leave Allocation Alert',
+    message: `${data.allocatedBy} added ${data.allocatedDays} ${formatLeaveType(data.leaveType)} day(s) to ${data.employeeName} (${data.employeeEmpId}).`,
+    link: '/employee-management'
+  });
+
+  return await sendPreferredEmail('leave_allocation', {
     to: adminEmail,
     cc: ensureLeavesCC(),
     subject: emailSubject,
@@ -1096,6 +1154,13 @@ export const sendPasswordChangeSecurityEmail = async (
   const emailHtml = generatePasswordChangeSecurityEmailHtml(data);
   const emailText = generatePasswordChangeSecurityEmailText(data);
 
+  await createNotificationsForEmails(userEmail, {
+    type: 'password_change',
+    title: 'Password Changed',
+    message: `Your password was changed on ${data.changeTimestamp}. If this wasn't you, contact HR immediately.`,
+    link: '/profile'
+  });
+
   return await sendEmail({
     to: userEmail,
     subject: emailSubject,
@@ -1185,7 +1250,14 @@ export const sendPendingLeaveReminderEmail = async (
   const emailHtml = generatePendingLeaveReminderEmailHtml(data);
   const emailText = generatePendingLeaveReminderEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(managerEmail, {
+    type: 'pending_leave_reminder',
+    title: 'Pending Leave Requests',
+    message: `${data.pendingLeaves.length} leave request(s) are awaiting your action.`,
+    link: '/leave-approval'
+  });
+
+  return await sendPreferredEmail('pending_leave_reminder', {
     to: managerEmail,
     cc: ensureLeavesCC(),
     subject: emailSubject,
@@ -1270,7 +1342,20 @@ export const sendBirthdayWishEmail = async (
   const emailHtml = generateBirthdayWishEmailHtml(data);
   const emailText = generateBirthdayWishEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(birthdayEmployeeEmail, {
+    type: 'birthday',
+    title: 'Happy Birthday!',
+    message: `Wishing you a wonderful birthday, ${data.employeeName}!`
+  });
+  if (ccEmails && ccEmails.length > 0) {
+    await createNotificationsForEmails(ccEmails, {
+      type: 'birthday',
+      title: 'Birthday Today',
+      message: `Today is ${data.employeeName}'s birthday. Don't forget to wish them!`
+    });
+  }
+
+  return await sendPreferredEmail('birthday', {
     to: birthdayEmployeeEmail,
     cc: ccEmails && ccEmails.length > 0 ? ccEmails : undefined,
     subject: emailSubject,
@@ -1288,11 +1373,12 @@ export interface LeaveCarryForwardEmailData {
   employeeEmpId: string;
   previousYear: number;
   newYear: number;
-  carriedForwardLeaves: {
-    casual?: number;
-    sick?: number;
-    lop?: number;
-  };
+  /** Days kept into the new year, by leave type code */
+  carriedForwardLeaves: { [code: string]: number | undefined };
+  /** Days above the carry forward limit paid out through payroll */
+  encashedLeaves?: { [code: string]: number | undefined };
+  /** Days above the carry forward limit that were neither carried nor encashed */
+  lapsedLeaves?: { [code: string]: number | undefined };
   newYearBalances: {
     casual: number;
     sick: number;
@@ -1300,21 +1386,22 @@ export interface LeaveCarryForwardEmailData {
   };
 }
 
+/**
+ * Rows like "Casual Leave Carried: 5 days" for every type with a non-zero amount
+ */
+const buildYearEndRows = (leaves: { [code: string]: number | undefined } | undefined, suffix: string) =>
+  Object.entries(leaves || {})
+    .filter(([, days]) => !!days)
+    .map(([code, days]) => ({ label: `${formatLeaveType(code)} ${suffix}:`, value: `${days} days` }));
+
 const generateLeaveCarryForwardEmailHtml = (data: LeaveCarryForwardEmailData): string => {
   const timestamp = Date.now();
   const randomStr = Math.random().toString(36).substring(2, 8).toUpperCase();
   const uniqueId = `${timestamp}${randomStr}`;
 
-  const carriedForwardRows = [];
-  if (data.carriedForwardLeaves.casual) {
-    carriedForwardRows.push({ label: 'Casual Leave Carried:', value: `${data.carriedForwardLeaves.casual} days` });
-  }
-  if (data.carriedForwardLeaves.sick) {
-    carriedForwardRows.push({ label: 'Sick Leave Carried:', value: `${data.carriedForwardLeaves.sick} days` });
-  }
-  if (data.carriedForwardLeaves.lop) {
-    carriedForwardRows.push({ label: 'LOP Carried:', value: `${data.carriedForwardLeaves.lop} days` });
-  }
+  const carriedForwardRows = buildYearEndRows(data.carriedForwardLeaves, 'Carried');
+  const encashedRows = buildYearEndRows(data.encashedLeaves, 'Encashed');
+  const lapsedRows = buildYearEndRows(data.lapsedLeaves, 'Lapsed');
 
   const detailsTable = generateDetailsTable([
     { label: 'Previous Year:', value: data.previousYear, isBold: true },
@@ -1325,11 +1412,19 @@ const generateLeaveCarryForwardEmailHtml = (data: LeaveCarryForwardEmailData): s
     { label: 'Current LOP Bal:', value: `${data.newYearBalances.lop} days`, isBold: true },
   ]);
 
+  const settlementTable = encashedRows.length > 0 || lapsedRows.length > 0
+    ? `
+    <h3 style="margin: 30px 0 10px 0; font-size: 18px;">Above Carry Forward Limit</h3>
+    ${generateDetailsTable([...encashedRows, ...lapsedRows])}
+    ${encashedRows.length > 0 ? '<p style="margin-top: 10px; color: #374151; font-size: 14px;">Encashed days will be settled through payroll.</p>' : ''}`
+    : '';
+
   const content = `
     <p>Dear ${data.employeeName},</p>
     <p>Your leave balances from <strong>${data.previousYear}</strong> have been carried forward to the new year <strong>${data.newYear}</strong>.</p>
     <h3 style="margin: 30px 0 10px 0; font-size: 18px;">Carry Forward Details</h3>
     ${detailsTable}
+    ${settlementTable}
     <div style="margin-top: 30px; padding: 15px; background-color: #eff6ff; border-left: 4px solid #3b82f6; border-radius: 4px;">
       <p style="margin: 0; color: #1e40af; font-size: 14px;"><strong>Note:</strong> Carry-forward is subject to the company's leave policy limits.</p>
     </div>
@@ -1347,16 +1442,11 @@ const generateLeaveCarryForwardEmailHtml = (data: LeaveCarryForwardEmailData): s
 };
 
 const generateLeaveCarryForwardEmailText = (data: LeaveCarryForwardEmailData): string => {
-  const carriedForwardItems = [];
-  if (data.carriedForwardLeaves.casual) {
-    carriedForwardItems.push(`${data.carriedForwardLeaves.casual} Casual ${data.carriedForwardLeaves.casual === 1 ? 'Leave' : 'Leaves'}`);
-  }
-  if (data.carriedForwardLeaves.sick) {
-    carriedForwardItems.push(`${data.carriedForwardLeaves.sick} Sick ${data.carriedForwardLeaves.sick === 1 ? 'Leave' : 'Leaves'}`);
-  }
-  if (data.carriedForwardLeaves.lop) {
-    carriedForwardItems.push(`${data.carriedForwardLeaves.lop} LOP ${data.carriedForwardLeaves.lop === 1 ? 'Leave' : 'Leaves'}`);
-  }
+  const describe = (leaves: { [code: string]: number | undefined } | undefined) =>
+    Object.entries(leaves || {})
+      .filter(([, days]) => !!days)
+      .map(([code, days]) => `${days} ${formatLeaveType(code)}`)
+      .join(', ') || 'None';
 
   return `
 Leave Carry Forward Notification
@@ -1366,7 +1456,9 @@ Dear ${data.employeeName},
 Your leave balances from ${data.previousYear} have been carried forward to ${data.newYear}.
 
 Carry Forward Details:
-- Carried Forward: ${carriedForwardItems.join(', ') || 'None'}
+- Carried Forward: ${describe(data.carriedForwardLeaves)}
+- Encashed: ${describe(data.encashedLeaves)}
+- Lapsed: ${describe(data.lapsedLeaves)}
 - New Year (${data.newYear}) Balances:
   * Casual Leave: ${data.newYearBalances.casual} ${data.newYearBalances.casual === 1 ? 'day' : 'days'}
   * Sick Leave: ${data.newYearBalances.sick} ${data.newYearBalances.sick === 1 ? 'day' : 'days'}
@@ -1393,7 +1485,14 @@ export const sendLeaveCarryForwardEmail = async (
   const emailHtml = generateLeaveCarryForwardEmailHtml(data);
   const emailText = generateLeaveCarryForwardEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(employeeEmail, {
+    type: 'leave_carry_forward',
+    title: 'Leave Carried Forward',
+    message: `Your unused leave from ${data.previousYear} has been carried forward into ${data.newYear}.`,
+    link: '/leave-apply'
+  });
+
+  return await sendPreferredEmail('leave_carry_forward', {
     to: employeeEmail,
     cc: ensureLeavesCC(),
     subject: emailSubject,
@@ -1522,7 +1621,14 @@ TensorGo HR Team
 This is an auto-generated email from the TensorGo Intranet. Please do not reply to this message.
   `;
 
-  return await sendEmail({
+  await createNotificationsForEmails(managerEmail, {
+    type: 'leave_application',
+    title: 'Urgent Leave Application',
+    message: `${data.employeeName} (${data.employeeEmpId}) applied for urgent ${leaveTypeDisplay} from ${startDateDisplay} to ${endDateDisplay}.`,
+    link: '/leave-approval'
+  });
+
+  return await sendPreferredEmail('leave_application', {
     to: managerEmail,
     cc: ensureLeavesCC(cc),
     subject: emailSubject,
@@ -1601,7 +1707,14 @@ export const sendEmployeeDetailsUpdateEmail = async (
   const emailHtml = generateEmployeeDetailsUpdateEmailHtml(data);
   const emailText = generateEmployeeDetailsUpdateEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(recipientEmail, {
+    type: 'employee_details_update',
+    title: 'Profile Updated',
+    message: `Your profile details were updated by ${data.updatedBy}.`,
+    link: '/profile'
+  });
+
+  return await sendPreferredEmail('employee_details_update', {
     to: recipientEmail,
     subject: emailSubject,
     html: emailHtml,
@@ -1687,7 +1800,14 @@ export const sendHolidayCalendarReminderEmail = async (
   const randomStr = Math.random().toString(36).substring(2, 8).toUpperCase();
   const uniqueId = `${timestamp}${randomStr}`;
 
-  return await sendEmail({
+  await createNotificationsForEmails(recipientEmail, {
+    type: 'holiday_calendar_reminder',
+    title: 'Update Holiday Calendar',
+    message: `Please add the holiday calendar for ${data.nextYear}.`,
+    link: '/holiday-management'
+  });
+
+  return await sendPreferredEmail('holiday_calendar_reminder', {
     to: recipientEmail,
     cc,
     subject: `Reminder: Update Upcoming Year Holiday Calendar [Ref: ${uniqueId}]`,
@@ -1696,6 +1816,243 @@ export const sendHolidayCalendarReminderEmail = async (
   });
 };
 
+// ============================================================================
+// COMP-OFF EMAILS
+// ============================================================================
+
+export interface CompOffClaimEmailData {
+  approverName: string;
+  employeeName: string;
+  employeeEmpId: string;
+  workDate: string;
+  hoursWorked: number;
+  days: number;
+  reason: string;
+}
+
+export interface CompOffStatusEmailData {
+  employeeName: string;
+  workDate: string;
+  days: number;
+  status: 'approved' | 'rejected' | 'expired';
+  approverName?: string;
+  comment?: string | null;
+  expiresOn?: string | null;
+}
+
+/**
+ * Send comp-off claim email to the approver
+ */
+export const sendCompOffClaimEmail = async (
+  recipientEmail: string,
+  data: CompOffClaimEmailData
+): Promise<boolean> => {
+  const timestamp = Date.now();
+  const randomStr = Math.random().toString(36).substring(2, 8).toUpperCase();
+  const uniqueId = `${timestamp}${randomStr}`;
+  const title = 'Comp-Off Claim Submitted';
+  const workDate = formatDateForDisplay(data.workDate);
+
+  const mainMessage = `Dear ${data.approverName},<br/><br/><strong>${data.employeeName}</strong> has claimed comp-off for working on <strong>${workDate}</strong>.`;
+  const detailsTable = generateDetailsTable([
+    { label: 'Employee:', value: `${data.employeeName} (${data.employeeEmpId})` },
+    { label: 'Worked On:', value: workDate },
+    { label: 'Approved Hours:', value: data.hoursWorked },
+    { label: 'Comp-Off Days:', value: data.days, isBold: true },
+    { label: 'Reason:', value: data.reason },
+  ]);
+
+  const content = `
+    ${mainMessage}
+    ${detailsTable}
+    ${generateButton(COMP_OFF_URL, 'Review Claim')}
+    <p style="margin-top: 30px;">Best Regards,<br/><strong>TensorGo Intranet</strong></p>
+  `;
+
+  await createNotificationsForEmails(recipientEmail, {
+    type: 'comp_off_claim',
+    title,
+    message: `${data.employeeName} claimed ${data.days} day(s) of comp-off for working on ${workDate}.`,
+    link: '/comp-off'
+  });
+
+  return await sendPreferredEmail('comp_off_claim', {
+    to: recipientEmail,
+    subject: `${title}: ${data.employeeName} (${data.employeeEmpId}) [Ref: ${uniqueId}]`,
+    html: generateEmailWrapper(title, content, uniqueId, `${data.employeeName} claimed comp-off for ${workDate}`),
+    text: `${title}\n\n${mainMessage.replace(/<br\/>/g, '\n').replace(/<\/?[^>]+(>|$)/g, "")}`
+  });
+};
+
+/**
+ * Send comp-off claim decision or expiry email to the employee
+ */
+export const sendCompOffStatusEmail = async (
+  recipientEmail: string,
+  data: CompOffStatusEmailData
+): Promise<boolean> => {
+  const timestamp = Date.now();
+  const randomStr = Math.random().toString(36).substring(2, 8).toUpperCase();
+  const uniqueId = `${timestamp}${randomStr}`;
+  const workDate = formatDateForDisplay(data.workDate);
+  const statusLabel = data.status.charAt(0).toUpperCase() + data.status.slice(1);
+  const title = `Comp-Off ${statusLabel}`;
+
+  let summary: string;
+  if (data.status === 'approved') {
+    summary = `Your comp-off claim for ${workDate} was approved${data.approverName ? ` by ${data.approverName}` : ''}. ${data.days} day(s) were added to your comp-off balance${data.expiresOn ? `, usable until ${formatDateForDisplay(data.expiresOn)}` : ''}.`;
+  } else if (data.status === 'rejected') {
+    summary = `Your comp-off claim for ${workDate} was rejected${data.approverName ? ` by ${data.approverName}` : ''}.${data.comment ? ` Reason: ${data.comment}` : ''}`;
+  } else {
+    summary = `${data.days} unused day(s) of comp-off earned on ${workDate} have expired and were removed from your balance.`;
+  }
+
+  const detailsTable = generateDetailsTable([
+    { label: 'Status:', value: data.status.toUpperCase(), isBold: true },
+    { label: 'Worked On:', value: workDate },
+    { label: 'Days:', value: data.days },
+    ...(data.expiresOn && data.status === 'approved' ? [{ label: 'Valid Until:', value: formatDateForDisplay(data.expiresOn) }] : []),
+    ...(data.comment ? [{ label: 'Comment:', value: data.comment }] : []),
+    ...(data.approverName ? [{ label: 'Action By:', value: data.approverName }] : []),
+  ]);
+
+  const content = `
+    <p>Dear ${data.employeeName},</p>
+    <p>${summary}</p>
+    ${detailsTable}
+    <p style="margin-top: 30px;">Best Regards,<br/><strong>TensorGo Intranet</strong></p>
+  `;
+
+  await createNotificationsForEmails(recipientEmail, {
+    type: 'comp_off_status',
+    title,
+    message: summary,
+    link: '/comp-off'
+  });
+
+  return await sendPreferredEmail('comp_off_status', {
+    to: recipientEmail,
+    subject: `${title} - TensorGo Intranet [Ref: ${uniqueId}]`,
+    html: generateEmailWrapper(title, content, uniqueId, summary),
+    text: `${title}\n\nDear ${data.employeeName},\n\n${summary}`
+  });
+};
+
+// ============================================================================
+// FLOATING HOLIDAY EMAILS
+// ============================================================================
+
+export interface FloatingHolidayClaimEmailData {
+  approverName: string;
+  employeeName: string;
+  employeeEmpId: string;
+  holidayName: string;
+  holidayDate: string;
+  reason?: string | null;
+}
+
+export interface FloatingHolidayStatusEmailData {
+  employeeName: string;
+  holidayName: string;
+  holidayDate: string;
+  status: 'approved' | 'rejected';
+  approverName?: string;
+  comment?: string | null;
+}
+
+/**
+ * Send floating holiday claim email to the approver
+ */
+export const sendFloatingHolidayClaimEmail = async (
+  recipientEmail: string,
+  data: FloatingHolidayClaimEmailData
+): Promise<boolean> => {
+  const timestamp = Date.now();
+  const randomStr = Math.random().toString(36).substring(2, 8).toUpperCase();
+  const uniqueId = `${timestamp}${randomStr}`;
+  const title = 'Floating Holiday Claimed';
+  const holidayDate = formatDateForDisplay(data.holidayDate);
+
+  const mainMessage = `Dear ${data.approverName},<br/><br/><strong>${data.employeeName}</strong> would like to take the floating holiday <strong>${data.holidayName}</strong> on <strong>${holidayDate}</strong>.`;
+  const detailsTable = generateDetailsTable([
+    { label: 'Employee:', value: `${data.employeeName} (${data.employeeEmpId})` },
+    { label: 'Holiday:', value: data.holidayName, isBold: true },
+    { label: 'Date:', value: holidayDate },
+    ...(data.reason ? [{ label: 'Reason:', value: data.reason }] : []),
+  ]);
+
+  const content = `
+    ${mainMessage}
+    ${detailsTable}
+    ${generateButton(LEAVE_APPROVAL_URL, 'Review Claim')}
+    <p style="margin-top: 30px;">Best Regards,<br/><strong>TensorGo Intranet</strong></p>
+  `;
+
+  await createNotificationsForEmails(recipientEmail, {
+    type: 'floating_holiday_claim',
+    title,
+    message: `${data.employeeName} claimed the floating holiday ${data.holidayName} on ${holidayDate}.`,
+    link: '/leave-approval'
+  });
+
+  return await sendPreferredEmail('floating_holiday_claim', {
+    to: recipientEmail,
+    subject: `${title}: ${data.employeeName} (${data.employeeEmpId}) [Ref: ${uniqueId}]`,
+    html: generateEmailWrapper(title, content, uniqueId, `${data.employeeName} claimed ${data.holidayName} on ${holidayDate}`),
+    text: `${title}\n\n${mainMessage.replace(/<br\/>/g, '\n').replace(/<\/?[^>]+(>|$)/g, "")}`
+  });
+};
+
+/**
+ * Send floating holiday claim decision email to the employee
+ */
+export const sendFloatingHolidayStatusEmail = async (
+  recipientEmail: string,
+  data: FloatingHolidayStatusEmailData
+): Promise<boolean> => {
+  const timestamp = Date.now();
+  const randomStr = Math.random().toString(36).substring(2, 8).toUpperCase();
+  const uniqueId = `${timestamp}${randomStr}`;
+  const holidayDate = formatDateForDisplay(data.holidayDate);
+  const statusLabel = data.status.charAt(0).toUpperCase() + data.status.slice(1);
+  const title = `Floating Holiday ${statusLabel}`;
+
+  const summary = data.status === 'approved'
+    ? `Your floating holiday claim for ${data.holidayName} (${holidayDate}) was approved${data.approverName ? ` by ${data.approverName}` : ''}. The day is now a holiday for you.`
+    : `Your floating holiday claim for ${data.holidayName} (${holidayDate}) was rejected${data.approverName ? ` by ${data.approverName}` : ''}.${data.comment ? ` Reason: ${data.comment}` : ''}`;
+
+  const detailsTable = generateDetailsTable([
+    { label: 'Status:', value: data.status.toUpperCase(), isBold: true },
+    { label: 'Holiday:', value: data.holidayName },
+    { label: 'Date:', value: holidayDate },
+    ...(data.comment ? [{ label: 'Comment:', value: data.comment }] : []),
+    ...(data.approverName ? [{ label: 'Action By:', value: data.approverName }] : []),
+  ]);
+
+  const content = `
+    <p>Dear ${data.employeeName},</p>
+    <p>${summary}</p>
+    ${detailsTable}
+    ${generateButton(LEAVE_APPLY_URL, 'View Holidays')}
+    <p style="margin-top: 30px;">Best Regards,<br/><strong>TensorGo Intranet</strong></p>
+  `;
+
+  await createNotificationsForEmails(recipientEmail, {
+    type: 'floating_holiday_status',
+    title,
+    message: summary,
+    link: '/leave-apply'
+  });
+
+  return await sendPreferredEmail('floating_holiday_status', {
+    to: recipientEmail,
+    subject: `${title} - TensorGo Intranet [Ref: ${uniqueId}]`,
+    html: generateEmailWrapper(title, content, uniqueId, summary),
+    text: `${title}\n\nDear ${data.employeeName},\n\n${summary}`
+  });
+};
+
+
 
 
 
@@ -1780,7 +2137,16 @@ export const sendTimesheetStatusEmail = async (
     <p style="margin-top: 30px;">Best Regards,<br/><strong>TensorGo Intranet</strong></p>
   `;
 
-  return await sendEmail({
+  await createNotificationsForEmails(recipientEmail, {
+    type: 'timesheet_status',
+    title,
+    message: data.logDate
+      ? `Your timesheet entry for ${data.logDate} was ${data.status}${data.approverName ? ` by ${data.approverName}` : ''}.${data.reason ? ` Reason: ${data.reason}` : ''}`
+      : `Your timesheet for ${data.startDate} to ${data.endDate} was ${data.status}${data.approverName ? ` by ${data.approverName}` : ''}.${data.reason ? ` Reason: ${data.reason}` : ''}`,
+    link: '/timesheets'
+  });
+
+  return await sendPreferredEmail('timesheet_status', {
     to: recipientEmail,
     subject: `${title} - TensorGo Intranet [Ref: ${uniqueId}]`,
     html: generateEmailWrapper(title, content, uniqueId, `${title} notification`),
@@ -1861,7 +2227,14 @@ export const sendTimesheetReminderEmail = async (
   if (data.reminderType === 'friday_alert') subject = 'Timesheet Alert: Weekly Hours Below Expected Threshold';
   if (data.reminderType === 'criteria_not_met') subject = 'Timesheet Criteria Not Met – Immediate Action Required';
 
-  return await sendEmail({
+  await createNotificationsForEmails(recipientEmail, {
+    type: 'timesheet_reminder',
+    title,
+    message: preview || 'Please update your timesheet.',
+    link: '/timesheets'
+  });
+
+  return await sendPreferredEmail('timesheet_reminder', {
     to: recipientEmail,
     subject: `${subject}`,
     html: generateEmailWrapper(title, content, uniqueId, preview),
@@ -1913,7 +2286,14 @@ export const sendTimesheetSubmissionEmail = async (
     <p>Regards,<br/>TensorGo HR Team</p>
   `;
 
-  return await sendEmail({
+  await createNotificationsForEmails(managerEmail, {
+    type: 'timesheet_submission',
+    title: data.isResubmission ? 'Timesheet Resubmitted' : 'Timesheet Submitted',
+    message: `${data.employeeName} submitted ${data.hoursLogged} hours for ${data.startDate} to ${data.endDate}.`,
+    link: '/timesheet/approvals'
+  });
+
+  return await sendPreferredEmail('timesheet_submission', {
     to: managerEmail,
     subject: `${subject} [Ref: ${uniqueId}]`,
     html: generateEmailWrapper(title, content, uniqueId, `${data.employeeName} has submitted their timesheet`),
@@ -1987,7 +2367,14 @@ export const sendTimesheetSummaryEmail = async (
     <p>Regards,<br/>TensorGo HR Team</p>
   `;
 
-  return await sendEmail({
+  await createNotificationsForEmails(managerEmail, {
+    type: 'timesheet_summary',
+    title,
+    message: `${data.submissions.length} timesheet(s) submitted and ${data.failures.length} missed for ${data.startDate} to ${data.endDate}.`,
+    link: '/timesheet/approvals'
+  });
+
+  return await sendPreferredEmail('timesheet_summary', {
     to: managerEmail,
     subject: `Weekly Timesheet Summary – Team Status Report [Ref: ${uniqueId}]`,
     html: generateEmailWrapper(title, content, uniqueId, 'Weekly timesheet status summary for your team'),
@@ -2074,7 +2461,14 @@ export const sendTimesheetApprovedEmail = async (
   const emailHtml = generateTimesheetApprovedEmailHtml(data);
   const emailText = generateTimesheetApprovedEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(recipientEmail, {
+    type: 'timesheet_status',
+    title: 'Timesheet Approved',
+    message: `Your timesheet for ${data.startDate} to ${data.endDate} was approved${data.approverName ? ` by ${data.approverName}` : ''}.`,
+    link: '/timesheets'
+  });
+
+  return await sendPreferredEmail('timesheet_status', {
     to: recipientEmail,
     subject: emailSubject,
     html: emailHtml,
@@ -2164,7 +2558,14 @@ export const sendTimesheetRejectedEmail = async (
   const emailHtml = generateTimesheetRejectedEmailHtml(data);
   const emailText = generateTimesheetRejectedEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(recipientEmail, {
+    type: 'timesheet_status',
+    title: 'Timesheet Rejected',
+    message: `Your timesheet for ${data.logDate || `${data.startDate} to ${data.endDate}`} was rejected${data.approverName ? ` by ${data.approverName}` : ''}.${data.reason ? ` Reason: ${data.reason}` : ''}`,
+    link: '/timesheets'
+  });
+
+  return await sendPreferredEmail('timesheet_status', {
     to: recipientEmail,
     subject: emailSubject,
     html: emailHtml,
@@ -2250,7 +2651,14 @@ export const sendRoleUpdateEmail = async (
   const emailHtml = generateRoleUpdateEmailHtml(data);
   const emailText = generateRoleUpdateEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(employeeEmail, {
+    type: 'role_update',
+    title: 'Role Updated',
+    message: `Your role has been updated to ${data.newRole}, effective ${data.effectiveDate}.`,
+    link: '/profile'
+  });
+
+  return await sendPreferredEmail('role_update', {
     to: employeeEmail,
     subject: emailSubject,
     html: emailHtml,
@@ -2336,7 +2744,14 @@ export const sendStatusUpdateEmail = async (
   const emailHtml = generateStatusUpdateEmailHtml(data);
   const emailText = generateStatusUpdateEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(employeeEmail, {
+    type: 'status_update',
+    title: 'Employment Status Updated',
+    message: `Your employment status has been updated to ${data.newStatus}, effective ${data.effectiveDate}.`,
+    link: '/profile'
+  });
+
+  return await sendPreferredEmail('status_update', {
     to: employeeEmail,
     subject: emailSubject,
     html: emailHtml,
@@ -2416,7 +2831,14 @@ export const sendReportingManagerUpdateEmail = async (
   const emailHtml = generateReportingManagerUpdateEmailHtml(data);
   const emailText = generateReportingManagerUpdateEmailText(data);
 
-  return await sendEmail({
+  await createNotificationsForEmails(employeeEmail, {
+    type: 'reporting_manager_update',
+    title: 'Reporting Manager Changed',
+    message: `Your reporting manager is now ${data.managerName} (${data.managerId}).`,
+    link: '/profile'
+  });
+
+  return await sendPreferredEmail('reporting_manager_update', {
     to: employeeEmail,
     subject: emailSubject,
     html: emailHtml,
@@ -2424,3 +2846,105 @@ export const sendReportingManagerUpdateEmail = async (
   });
 };
 
+
+// ============================================================================
+// DAILY NOTIFICATION DIGEST EMAIL
+// ============================================================================
+
+export interface NotificationDigestEmailData {
+  recipientName: string;
+  items: Array<{
+    title: string;
+    message: string;
+    link?: string | null;
+    createdAt: string;
+  }>;
+}
+
+const PORTAL_BASE_URL = 'https://intra.tensorgo.com';
+
+/**
+ * Generate daily notification digest email HTML
+ */
+const generateNotificationDigestEmailHtml = (data: NotificationDigestEmailData): string => {
+  const timestamp = Date.now();
+  const randomStr = Math.random().toString(36).substring(2, 8).toUpperCase();
+  const uniqueId = `${timestamp}${randomStr}`;
+
+  const rows = data.items.map(item => `
+        <tr>
+          <td style="padding: 12px 10px; border-bottom: 1px solid #e2e8f0; vertical-align: top;">
+            <div style="font-weight: bold; color: #1e3a8a;">${item.link ? `<a href="${PORTAL_BASE_URL}${item.link}" style="color: #1e3a8a; text-decoration: none;">${item.title}</a>` : item.title}</div>
+            <div style="margin-top: 4px; color: #374151;">${item.message}</div>
+          </td>
+          <td style="padding: 12px 10px; border-bottom: 1px solid #e2e8f0; color: #64748b; white-space: nowrap; vertical-align: top; text-align: right;">${formatDateForDisplay(item.createdAt)}</td>
+        </tr>`).join('');
+
+  const content = `
+    <p>Hello ${data.recipientName},</p>
+    <p>Here is your daily summary of ${data.items.length} ${data.items.length === 1 ? 'update' : 'updates'} from the TensorGo Intranet.</p>
+
+    <table cellpadding="0" cellspacing="0" border="0" style="width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+      <tbody>
+        ${rows}
+      </tbody>
+    </table>
+
+    <p>You can change how you receive these updates from the Notification Preferences section of your profile.</p>
+    <p>Regards,<br/>TensorGo HR Team</p>
+  `;
+
+  return generateEmailWrapper(
+    'Your Daily Digest',
+    content,
+    uniqueId,
+    `${data.items.length} ${data.items.length === 1 ? 'update' : 'updates'} from the TensorGo Intranet`
+  );
+};
+
+const generateNotificationDigestEmailText = (data: NotificationDigestEmailData): string => {
+  const lines = data.items
+    .map(item => `• ${item.title} (${formatDateForDisplay(item.createdAt)})\n  ${item.message}`)
+    .join('\n');
+
+  return `
+Your Daily Digest – TensorGo Intranet
+
+Hello ${data.recipientName},
+
+Here is your daily summary of ${data.items.length} ${data.items.length === 1 ? 'update' : 'updates'} from the TensorGo Intranet.
+
+${lines}
+
+You can change how you receive these updates from the Notification Preferences section of your profile.
+
+Regards,
+TensorGo HR Team
+
+This is an auto-generated email from the TensorGo Intranet. Please do not reply to this message.
+  `;
+};
+
+/**
+ * Send the daily digest. Sent directly (not through preferences) since the
+ * digest is itself the delivery the user asked for.
+ */
+export const sendNotificationDigestEmail = async (
+  recipientEmail: string,
+  data: NotificationDigestEmailData
+): Promise<boolean> => {
+  const timestamp = Date.now();
+  const randomStr = Math.random().toString(36).substring(2, 8).toUpperCase();
+  const uniqueId = `${timestamp}${randomStr}`;
+
+  const emailSubject = `Your Daily Digest – TensorGo Intranet [Ref: ${uniqueId}]`;
+  const emailHtml = generateNotificationDigestEmailHtml(data);
+  const emailText = generateNotificationDigestEmailText(data);
+
+  return await sendEmail({
+    to: recipientEmail,
+    subject: emailSubject,
+    html: emailHtml,
+    text: emailText,
+  });
+};
@@ -137,3 +137,206 @@ export const generateTimesheetExcel = async (data: TimesheetReportData): Promise
         throw error;
     }
 };
+
+interface AuditLogReportData {
+    logs: {
+        createdAt: string;
+        actorName: string | null;
+        actorEmpId: string | null;
+        action: string;
+        entityType: string;
+        entityId: number | null;
+        oldValues: Record<string, any> | null;
+        newValues: Record<string, any> | null;
+        ipAddress: string | null;
+    }[];
+    filters: {
+        entityType?: string;
+        action?: string;
+        startDate?: string;
+        endDate?: string;
+    };
+    generatedBy: string;
+    generatedAt: string;
+}
+
+export const generateAuditLogExcel = async (data: AuditLogReportData): Promise<Buffer> => {
+    try {
+        const workbook = new ExcelJS.Workbook();
+        const worksheet = workbook.addWorksheet('Audit Log');
+
+        const headerStyle: Partial<ExcelJS.Style> = {
+            font: { bold: true, size: 12 },
+            alignment: { vertical: 'middle', horizontal: 'center' },
+            fill: { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE0E0E0' } }
+        };
+
+        worksheet.mergeCells('A1:H1');
+        const titleCell = worksheet.getCell('A1');
+        titleCell.value = 'Audit Log';
+        titleCell.style = { font: { bold: true, size: 16 }, alignment: { horizontal: 'center' } };
+
+        worksheet.mergeCells('A2:D2');
+        worksheet.getCell('A2').value = `Generated By: ${data.generatedBy}`;
+        worksheet.mergeCells('E2:H2');
+        worksheet.getCell('E2').value = `Generated At: ${new Date(data.generatedAt).toLocaleString()}`;
+        worksheet.getCell('E2').alignment = { horizontal: 'right' };
+
+        let currentRow = 4;
+        const filterLabels = [
+            { label: 'Entity', value: data.filters.entityType },
+            { label: 'Action', value: data.filters.action },
+            { label: 'Duration', value: (data.filters.startDate || data.filters.endDate) ? `${data.filters.startDate || 'N/A'} to ${data.filters.endDate || 'N/A'}` : undefined }
+        ];
+        filterLabels.forEach(f => {
+            if (f.value) {
+                worksheet.getCell(`A${currentRow}`).value = f.label;
+                worksheet.getCell(`A${currentRow}`).font = { bold: true };
+                worksheet.getCell(`B${currentRow}`).value = f.value;
+                currentRow++;
+            }
+        });
+
+        currentRow++;
+
+        const headerRow = worksheet.getRow(currentRow);
+        headerRow.values = ['Timestamp', 'Actor', 'Action', 'Entity', 'Entity ID', 'Old Values', 'New Values', 'IP Address'];
+        headerRow.eachCell((cell: ExcelJS.Cell) => {
+            cell.style = headerStyle;
+            cell.border = {
+                top: { style: 'thin' },
+                left: { style: 'thin' },
+                bottom: { style: 'thin' },
+                right: { style: 'thin' }
+            };
+        });
+
+        data.logs.forEach(log => {
+            const row = worksheet.addRow([
+                new Date(log.createdAt).toLocaleString(),
+                log.actorName ? `${log.actorName}${log.actorEmpId ? ` (${log.actorEmpId})` : ''}` : 'System',
+                log.action,
+                log.entityType,
+                log.entityId ?? '',
+                log.oldValues ? JSON.stringify(log.oldValues) : '',
+                log.newValues ? JSON.stringify(log.newValues) : '',
+                log.ipAddress || ''
+            ]);
+
+            row.eachCell((cell: ExcelJS.Cell) => {
+                cell.border = {
+                    top: { style: 'thin' },
+                    left: { style: 'thin' },
+                    bottom: { style: 'thin' },
+                    right: { style: 'thin' }
+                };
+                cell.alignment = { vertical: 'middle', wrapText: true };
+            });
+        });
+
+        worksheet.columns = [
+            { width: 22 }, // Timestamp
+            { width: 25 }, // Actor
+            { width: 20 }, // Action
+            { width: 18 }, // Entity
+            { width: 10 }, // Entity ID
+            { width: 50 }, // Old Values
+            { width: 50 }, // New Values
+            { width: 16 }  // IP Address
+        ];
+
+        const buffer = await workbook.xlsx.writeBuffer();
+        return Buffer.from(buffer);
+    } catch (error) {
+        logger.error('[ExcelGenerator] Error generating audit log Excel:', error);
+        throw error;
+    }
+};
+
+interface LeaveEncashmentReportData {
+    year: number;
+    employees: {
+        empId: string;
+        employeeName: string;
+        role: string;
+        items: { leaveTypeName: string; days: number; status: string; paidAt: string | null }[];
+        totalDays: number;
+    }[];
+    generatedBy: string;
+    generatedAt: string;
+}
+
+export const generateLeaveEncashmentExcel = async (data: LeaveEncashmentReportData): Promise<Buffer> => {
+    try {
+        const workbook = new ExcelJS.Workbook();
+        const worksheet = workbook.addWorksheet(`Encashment ${data.year}`);
+
+        const headerStyle: Partial<ExcelJS.Style> = {
+            font: { bold: true, size: 12 },
+            alignment: { vertical: 'middle', horizontal: 'center' },
+            fill: { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE0E0E0' } }
+        };
+        const border: Partial<ExcelJS.Borders> = {
+            top: { style: 'thin' },
+            left: { style: 'thin' },
+            bottom: { style: 'thin' },
+            right: { style: 'thin' }
+        };
+
+        worksheet.mergeCells('A1:G1');
+        const titleCell = worksheet.getCell('A1');
+        titleCell.value = `Leave Encashment - ${data.year}`;
+        titleCell.style = { font: { bold: true, size: 16 }, alignment: { horizontal: 'center' } };
+
+        worksheet.mergeCells('A2:C2');
+        worksheet.getCell('A2').value = `Generated By: ${data.generatedBy}`;
+        worksheet.mergeCells('D2:G2');
+        worksheet.getCell('D2').value = `Generated At: ${new Date(data.generatedAt).toLocaleString()}`;
+        worksheet.getCell('D2').alignment = { horizontal: 'right' };
+
+        const headerRow = worksheet.getRow(4);
+        headerRow.values = ['Emp ID', 'Employee', 'Role', 'Leave Type', 'Days', 'Status', 'Paid On'];
+        headerRow.eachCell((cell: ExcelJS.Cell) => {
+            cell.style = headerStyle;
+            cell.border = border;
+        });
+
+        data.employees.forEach(employee => {
+            employee.items.forEach(item => {
+                const row = worksheet.addRow([
+                    employee.empId,
+                    employee.employeeName,
+                    employee.role,
+                    item.leaveTypeName,
+                    item.days,
+                    item.status === 'paid' ? 'Paid' : 'Pending',
+                    item.paidAt ? new Date(item.paidAt).toLocaleDateString() : ''
+                ]);
+                row.eachCell((cell: ExcelJS.Cell) => {
+                    cell.border = border;
+                    cell.alignment = { vertical: 'middle' };
+                });
+            });
+        });
+
+        const totalDays = data.employees.reduce((sum, employee) => sum + employee.totalDays, 0);
+        const totalRow = worksheet.addRow(['', 'Total', '', '', totalDays, '', '']);
+        totalRow.font = { bold: true };
+
+        worksheet.columns = [
+            { width: 12 }, // Emp ID
+            { width: 28 }, // Employee
+            { width: 12 }, // Role
+            { width: 20 }, // Leave Type
+            { width: 10 }, // Days
+            { width: 12 }, // Status
+            { width: 14 }  // Paid On
+        ];
+
+        const buffer = await workbook.xlsx.writeBuffer();
+        return Buffer.from(buffer);
+    } catch (error) {
+        logger.error('[ExcelGenerator] Error generating leave encashment Excel:', error);
+        throw error;
+    }
+};
@@ -0,0 +1,152 @@
+/**
+ * Minimal iCalendar (RFC 5545) support for all-day events: enough to publish
+ * holiday and leave feeds and to read the holiday files calendar apps export.
+ */
+
+export interface IcsEvent {
+  uid: string;
+  /** First day, YYYY-MM-DD */
+  startDate: string;
+  /** Day after the last day (exclusive, as iCalendar expects), YYYY-MM-DD */
+  endDate: string;
+  summary: string;
+  description?: string;
+  categories?: string[];
+}
+
+export interface ParsedIcsEvent {
+  summary: string;
+  startDate: string;
+  /** Exclusive end date; equals the day after startDate for single-day events */
+  endDate: string;
+  categories: string[];
+}
+
+const CRLF = '\r\n';
+
+export const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char, 'utf8') > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+};
+
+const toIcsDate = (date: string) => date.replace(/-/g, '');
+
+const toIcsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const buildCalendar = (name: string, events: IcsEvent[]): string => {
+  const stamp = toIcsTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TensorGo//Intranet//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-PUBLISHED-TTL:PT12H'
+  ];
+
+  events.forEach((event) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(event.startDate)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(event.endDate)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.categories && event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+const addDays = (date: string, days: number): string => {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().split('T')[0];
+};
+
+// DTSTART/DTEND values: 20260126, or a date-time such as 20260126T000000Z (only the date is kept)
+const parseIcsDate = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return isNaN(new Date(`${date}T00:00:00Z`).getTime()) ? null : date;
+};
+
+/**
+ * Read the VEVENTs of an iCalendar file. Events without a usable start date are skipped;
+ * a missing end date means a single day.
+ */
+export const parseEvents = (content: string): ParsedIcsEvent[] => {
+  // Unfold continuation lines before splitting into properties
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+  let current: { summary?: string; start?: string | null; end?: string | null; categories: string[] } | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = { categories: [] };
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (current?.start) {
+        events.push({
+          summary: unescapeText(current.summary || '').trim(),
+          startDate: current.start,
+          endDate: current.end && current.end > current.start ? current.end : addDays(current.start, 1),
+          categories: current.categories
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (property === 'SUMMARY') current.summary = value;
+    else if (property === 'DTSTART') current.start = parseIcsDate(value);
+    else if (property === 'DTEND') current.end = parseIcsDate(value);
+    else if (property === 'CATEGORIES') {
+      current.categories.push(...value.split(/(?<!\\),/).map((category) => unescapeText(category).trim()).filter(Boolean));
+    }
+  }
+
+  return events;
+};
+
+/**
+ * Days covered by a parsed event, YYYY-MM-DD
+ */
+export const eventDates = (event: Pick<ParsedIcsEvent, 'startDate' | 'endDate'>): string[] => {
+  const dates: string[] = [];
+  for (let date = event.startDate; date < event.endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
@@ -7,14 +7,13 @@ const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 // - Can be overridden via JWT_ACCESS_EXPIRY env var (e.g. "2h", "30m", "1d")
 const ACCESS_EXPIRY = process.env.JWT_ACCESS_EXPIRY || '8h';
 
-// Refresh token lifetime (used for long‑lived sessions / re-issuing access tokens)
-const REFRESH_EXPIRY = process.env.JWT_REFRESH_EXPIRY || '7d';
-
 export interface TokenPayload {
   userId: number;
   email: string;
   role: string;
   tokenVersion: number;
+  // Server-side session (see session.service) the token was issued for
+  sessionId: number;
 }
 
 export const generateAccessToken = (payload: TokenPayload): string => {
@@ -24,14 +23,60 @@ export const generateAccessToken = (payload: TokenPayload): string => {
   });
 };
 
-export const generateRefreshToken = (payload: TokenPayload): string => {
+export const verifyToken = (token: string): TokenPayload => {
+  return jwt.verify(token, JWT_SECRET) as TokenPayload;
+};
+
+
+// Short-lived token for the second login step; carries no userId so it is never accepted as
+// an access or refresh token
+export type MfaTokenPurpose = 'mfa_verify' | 'mfa_setup';
+
+interface MfaTokenPayload {
+  mfaUserId: number;
+  purpose: MfaTokenPurpose;
+  tokenVersion: number;
+}
+
+const MFA_TOKEN_EXPIRY = '10m';
+
+export const generateMfaToken = (payload: MfaTokenPayload): string => {
   // @ts-ignore - jsonwebtoken types are overly strict
   return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: REFRESH_EXPIRY
+    expiresIn: MFA_TOKEN_EXPIRY
   });
 };
 
-export const verifyToken = (token: string): TokenPayload => {
-  return jwt.verify(token, JWT_SECRET) as TokenPayload;
+export const verifyMfaToken = (token: string, purpose: MfaTokenPurpose): MfaTokenPayload => {
+  const decoded = jwt.verify(token, JWT_SECRET) as MfaTokenPayload;
+  if (!decoded.mfaUserId || decoded.purpose !== purpose) {
+    throw new Error('Invalid verification session');
+  }
+  return decoded;
+};
+
+// State for one single sign-on round trip, kept in a short-lived cookie between the redirect
+// to the identity provider and its callback
+export interface OidcFlowPayload {
+  purpose: 'oidc_flow';
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+const OIDC_FLOW_EXPIRY = '10m';
+
+export const generateOidcFlowToken = (payload: Omit<OidcFlowPayload, 'purpose'>): string => {
+  // @ts-ignore - jsonwebtoken types are overly strict
+  return jwt.sign({ ...payload, purpose: 'oidc_flow' }, JWT_SECRET, {
+    expiresIn: OIDC_FLOW_EXPIRY
+  });
 };
 
+export const verifyOidcFlowToken = (token: string): OidcFlowPayload => {
+  const decoded = jwt.verify(token, JWT_SECRET) as OidcFlowPayload;
+  if (decoded.purpose !== 'oidc_flow') {
+    throw new Error('Invalid sign-in session');
+  }
+  return decoded;
+};
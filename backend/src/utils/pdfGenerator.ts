@@ -1,6 +1,7 @@
 import PDFDocument from 'pdfkit';
 import path from 'path';
 import { logger } from './logger';
+import type { ExitSettlementSummary } from '../services/exitSettlement.service';
 
 export interface TimesheetReportEntry {
     employee_name: string;
@@ -33,6 +34,14 @@ export interface TimesheetReportData {
     generatedAt: string;
 }
 
+export interface ExitSettlementReportData {
+    summary: ExitSettlementSummary;
+    /** Scheduled settlements are printed as a provisional preview */
+    isFinal: boolean;
+    generatedBy: string;
+    generatedAt: string;
+}
+
 export class PDFGenerator {
     private doc: PDFKit.PDFDocument;
     private pageNumber: number = 1;
@@ -91,7 +100,37 @@ export class PDFGenerator {
         });
     }
 
-    private addHeader() {
+    generateExitSettlementReport(data: ExitSettlementReportData): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            try {
+                const buffers: Buffer[] = [];
+
+                this.doc.on('data', buffers.push.bind(buffers));
+                this.doc.on('end', () => {
+                    resolve(Buffer.concat(buffers));
+                });
+                this.doc.on('error', reject);
+
+                this.addHeader(
+                    'FULL & FINAL LEAVE SETTLEMENT',
+                    data.isFinal ? 'Settled on the last working day' : 'Provisional - figures may change until the last working day'
+                );
+                this.addSettlementDetails(data.summary);
+                this.addSettlementTotals(data.summary);
+                this.addSettlementTable(data.summary);
+                this.addCancelledLeavesTable(data.summary);
+                this.addFooter(data.generatedBy, data.generatedAt);
+                this.addPageNumbers();
+
+                this.doc.end();
+            } catch (error) {
+                logger.error('[PDFGenerator] Error generating exit settlement PDF:', error);
+                reject(error);
+            }
+        });
+    }
+
+    private addHeader(title: string = 'TIMESHEET LOG REPORT', subtitle: string = 'Official Attendance & Activity Record') {
         // Background for header
         this.doc
             .rect(0, 0, this.pageWidth, 100)
@@ -110,7 +149,7 @@ export class PDFGenerator {
             .fontSize(24)
             .font('Helvetica-Bold')
             .fillColor('#0f172a')
-            .text('TIMESHEET LOG REPORT', 0, this.margin, {
+            .text(title, 0, this.margin, {
                 align: 'center',
                 width: this.pageWidth
             });
@@ -119,7 +158,7 @@ export class PDFGenerator {
             .fontSize(10)
             .font('Helvetica')
             .fillColor('#64748b')
-            .text('Official Attendance & Activity Record', 0, this.margin + 30, {
+            .text(subtitle, 0, this.margin + 30, {
                 align: 'center',
                 width: this.pageWidth
             });
@@ -299,6 +338,172 @@ export class PDFGenerator {
         });
     }
 
+    private addSettlementDetails(summary: ExitSettlementSummary) {
+        const formatDate = (date: string | null) => (date ? new Date(`${date}T00:00:00`).toLocaleDateString('en-GB') : '-');
+        const details = [
+            { label: 'Employee', value: `${summary.employeeName} (${summary.empId})` },
+            { label: 'Role', value: summary.role.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase()) },
+            { label: 'Date of Joining', value: formatDate(summary.dateOfJoining) },
+            { label: 'Last Working Day', value: formatDate(summary.lastWorkingDate) },
+            { label: 'Exit Type', value: summary.exitStatus === 'terminated' ? 'Terminated' : 'Resigned' }
+        ];
+
+        details.forEach(detail => {
+            this.doc
+                .fontSize(10)
+                .font('Helvetica')
+                .fillColor('#475569')
+                .text(`${detail.label}: `, this.margin, this.yPosition, { continued: true })
+                .font('Helvetica-Bold')
+                .fillColor('#1e293b')
+                .text(detail.value);
+            this.yPosition += 15;
+        });
+
+        this.yPosition += 10;
+    }
+
+    private addSettlementTotals(summary: ExitSettlementSummary) {
+        const boxY = this.yPosition;
+        this.doc
+            .rect(this.margin, boxY, this.contentWidth, 50)
+            .fillAndStroke('#eff6ff', '#3b82f6');
+
+        this.yPosition += 12;
+
+        const colWidth = this.contentWidth / 3;
+        const totals = [
+            { label: 'Casual Days Encashed', value: summary.encashedCasualDays },
+            { label: 'LOP Recovery (Days)', value: summary.lopRecoveryDays },
+            { label: 'Leave Requests Cancelled', value: summary.cancelledLeaves.length }
+        ];
+
+        totals.forEach((total, i) => {
+            this.doc
+                .fontSize(9)
+                .font('Helvetica')
+                .fillColor('#1e40af')
+                .text(total.label, this.margin + colWidth * i, this.yPosition, { align: 'center', width: colWidth });
+        });
+
+        this.yPosition += 15;
+
+        totals.forEach((total, i) => {
+            this.doc
+                .fontSize(14)
+                .font('Helvetica-Bold')
+                .fillColor('#1e3a8a')
+                .text(total.value.toString(), this.margin + colWidth * i, this.yPosition, { align: 'center', width: colWidth });
+        });
+
+        this.yPosition += 40;
+    }
+
+    private addSimpleTable(title: string, columns: { label: string; width: number }[], rows: string[][]) {
+        this.checkPageBreak(60);
+        this.doc
+            .fontSize(11)
+            .font('Helvetica-Bold')
+            .fillColor('#334155')
+            .text(title, this.margin, this.yPosition);
+        this.yPosition += 18;
+
+        const headerY = this.yPosition;
+        this.doc
+            .rect(this.margin, headerY, this.contentWidth, 25)
+            .fillAndStroke('#1e40af', '#1e40af');
+
+        let xPos = this.margin + 5;
+        columns.forEach(col => {
+            this.doc
+                .fontSize(9)
+                .font('Helvetica-Bold')
+                .fillColor('#ffffff')
+                .text(col.label, xPos, headerY + 8, { width: col.width - 10 });
+            xPos += col.width;
+        });
+        this.yPosition += 25;
+
+        rows.forEach((row, index) => {
+            this.checkPageBreak(30);
+            const rowY = this.yPosition;
+
+            this.doc
+                .rect(this.margin, rowY, this.contentWidth, 25)
+                .fillAndStroke(index % 2 === 0 ? '#f8fafc' : '#ffffff', '#e2e8f0');
+
+            xPos = this.margin + 5;
+            row.forEach((value, i) => {
+                this.doc
+                    .fontSize(8)
+                    .font('Helvetica')
+                    .fillColor('#334155')
+                    .text(this.truncateText(value, columns[i].width - 10), xPos, rowY + 8, { width: columns[i].width - 10 });
+                xPos += columns[i].width;
+            });
+
+            this.yPosition += 25;
+        });
+
+        this.yPosition += 20;
+    }
+
+    private addSettlementTable(summary: ExitSettlementSummary) {
+        if (summary.lines.length === 0) {
+            this.doc
+                .fontSize(10)
+                .font('Helvetica')
+                .fillColor('#64748b')
+                .text('No leave balances to settle.', this.margin, this.yPosition);
+            this.yPosition += 25;
+            return;
+        }
+
+        // Landscape content width is ~740
+        const columns = [
+            { label: 'Leave Type', width: 160 },
+            { label: 'Balance', width: 100 },
+            { label: 'Unearned Accrual', width: 120 },
+            { label: 'Recovered', width: 120 },
+            { label: 'Encashed', width: 120 },
+            { label: 'Lapsed', width: 120 }
+        ];
+        const rows = summary.lines.map(line => [
+            line.leaveTypeName,
+            line.balance.toString(),
+            line.unearnedCredit.toString(),
+            line.recovered.toString(),
+            line.encashed.toString(),
+            line.lapsed.toString()
+        ]);
+
+        this.addSimpleTable('Leave Balances', columns, rows);
+    }
+
+    private addCancelledLeavesTable(summary: ExitSettlementSummary) {
+        if (summary.cancelledLeaves.length === 0) return;
+
+        const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('en-GB');
+        const columns = [
+            { label: 'Request', width: 100 },
+            { label: 'Leave Type', width: 160 },
+            { label: 'From', width: 120 },
+            { label: 'To', width: 120 },
+            { label: 'Days Refunded', width: 100 },
+            { label: 'Outcome', width: 140 }
+        ];
+        const rows = summary.cancelledLeaves.map(leave => [
+            `#${leave.leaveRequestId}`,
+            leave.leaveType,
+            formatDate(leave.startDate),
+            formatDate(leave.endDate),
+            leave.days.toString(),
+            leave.fullyCancelled ? 'Cancelled' : 'Days after exit removed'
+        ]);
+
+        this.addSimpleTable('Leave After Last Working Day', columns, rows);
+    }
+
     private addFooter(generatedBy: string, generatedAt: string) {
         const footerY = this.pageHeight - this.margin + 10;
 
@@ -365,3 +570,8 @@ export const generateTimesheetPDF = async (data: TimesheetReportData): Promise<B
     const generator = new PDFGenerator();
     return generator.generateTimesheetReport(data);
 };
+
+export const generateExitSettlementPDF = async (data: ExitSettlementReportData): Promise<Buffer> => {
+    const generator = new PDFGenerator();
+    return generator.generateExitSettlementReport(data);
+};
@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request } from 'express';
+
+export interface RequestContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+  /** Resolved lazily because authentication runs after the context is created */
+  getUserId: () => number | null;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const runWithRequestContext = (req: Request, callback: () => void) => {
+  storage.run(
+    {
+      // Honours X-Forwarded-For only from the proxies 'trust proxy' names, so clients cannot forge it
+      ipAddress: req.ip || null,
+      userAgent: req.headers['user-agent'] || null,
+      getUserId: () => (req as any).user?.id ?? null
+    },
+    callback
+  );
+};
+
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
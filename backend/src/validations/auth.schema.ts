@@ -41,3 +41,35 @@ export const resetPasswordSchema = z.object({
   })
 });
 
+
+export const mfaCodeSchema = z.object({
+  body: z.object({
+    code: z.string().trim().min(6, 'Enter the code from your authenticator app or a recovery code').max(20)
+  })
+});
+
+export const mfaLoginSchema = z.object({
+  body: z.object({
+    mfaToken: z.string().min(1, 'Verification session is required'),
+    code: z.string().trim().min(6, 'Enter the code from your authenticator app or a recovery code').max(20)
+  })
+});
+
+export const mfaTokenSchema = z.object({
+  body: z.object({
+    mfaToken: z.string().min(1, 'Verification session is required')
+  })
+});
+
+export const disableMfaSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, 'Password is required'),
+    code: z.string().trim().min(6, 'Enter the code from your authenticator app or a recovery code').max(20)
+  })
+});
+
+export const mfaPolicySchema = z.object({
+  body: z.object({
+    requiredRoles: z.array(z.string())
+  })
+});
@@ -4,9 +4,15 @@ const safeTextSchema = z.string()
   .max(255, 'Text cannot exceed 255 characters')
   .regex(/^[a-zA-Z0-9\s\.,\-'()&/]+$/, 'Special characters and emojis are not allowed');
 
+// Leave types are configurable; existence is checked against leave_types in the service
+const leaveTypeCodeSchema = z.string()
+  .min(1, 'Leave type is required')
+  .max(50, 'Leave type cannot exceed 50 characters')
+  .regex(/^[a-z0-9_]+$/, 'Invalid leave type');
+
 export const applyLeaveSchema = z.object({
   body: z.object({
-    leaveType: z.enum(['casual', 'sick', 'lop', 'permission']),
+    leaveType: leaveTypeCodeSchema,
     startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
     startType: z.enum(['full', 'half', 'first_half', 'second_half']),
     endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
@@ -62,7 +68,7 @@ export const updateLeaveSchema = z.object({
     id: z.string().regex(/^\d+$/, 'Invalid leave request ID')
   }),
   body: z.object({
-    leaveType: z.enum(['casual', 'sick', 'lop', 'permission']),
+    leaveType: leaveTypeCodeSchema,
     startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
     startType: z.enum(['full', 'half', 'first_half', 'second_half']),
     endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
@@ -95,7 +101,9 @@ export const rejectLeaveDaysSchema = z.object({
 export const holidaySchema = z.object({
   body: z.object({
     holidayDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
-    holidayName: safeTextSchema.min(1, 'Holiday name is required').max(100, 'Holiday name cannot exceed 100 characters')
+    holidayName: safeTextSchema.min(1, 'Holiday name is required').max(100, 'Holiday name cannot exceed 100 characters'),
+    calendarId: z.number().int().positive('Invalid calendar ID').optional(),
+    isOptional: z.boolean().optional()
   })
 });
 
@@ -105,7 +113,8 @@ export const updateHolidaySchema = z.object({
   }),
   body: z.object({
     holidayDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
-    holidayName: safeTextSchema.min(1, 'Holiday name is required').max(100, 'Holiday name cannot exceed 100 characters')
+    holidayName: safeTextSchema.min(1, 'Holiday name is required').max(100, 'Holiday name cannot exceed 100 characters'),
+    isOptional: z.boolean().optional()
   })
 });
 
@@ -0,0 +1,89 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useToast } from '../contexts/ToastContext';
+import { getSessions, revokeSession, revokeOtherSessions } from '../services/authService';
+import { describeDevice } from './LoginHistory';
+import './ActiveSessions.css';
+
+/**
+ * Devices the user is currently signed in on, each of which can be signed out on its own.
+ */
+const ActiveSessions: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const { data: sessions = [], isLoading } = useQuery('activeSessions', getSessions, { retry: false });
+
+  const errorHandler = (fallback: string) => (error: any) => {
+    showError(error.response?.data?.error?.message || fallback);
+  };
+
+  const revokeMutation = useMutation(revokeSession, {
+    onSuccess: () => {
+      queryClient.invalidateQueries('activeSessions');
+      showSuccess('Device signed out');
+    },
+    onError: errorHandler('Failed to sign out device')
+  });
+
+  const revokeOthersMutation = useMutation(revokeOtherSessions, {
+    onSuccess: (data) => {
+      queryClient.invalidateQueries('activeSessions');
+      showSuccess(`Signed out of ${data.revoked} other device${data.revoked === 1 ? '' : 's'}`);
+    },
+    onError: errorHandler('Failed to sign out other devices')
+  });
+
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <div className="employee-modal-section active-sessions">
+      <h3>Where You're Logged In</h3>
+      {isLoading ? (
+        <div className="active-sessions-hint">Loading...</div>
+      ) : (
+        <ul className="active-sessions-list">
+          {sessions.map((session) => (
+            <li key={session.id} className="active-sessions-item">
+              <div>
+                <div className="active-sessions-device" title={session.userAgent || ''}>
+                  {describeDevice(session.userAgent)}
+                  {session.current && <span className="active-sessions-current">This device</span>}
+                </div>
+                <div className="active-sessions-meta">
+                  {session.ipAddress || 'Unknown IP'} · Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })} ·
+                  Signed in {format(new Date(session.createdAt), 'dd MMM yyyy, hh:mm a')}
+                </div>
+              </div>
+              {!session.current && (
+                <button
+                  type="button"
+                  className="active-sessions-revoke"
+                  disabled={revokeMutation.isLoading}
+                  onClick={() => revokeMutation.mutate(session.id)}
+                >
+                  Sign Out
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {hasOthers && (
+        <button
+          type="button"
+          className="active-sessions-revoke-all"
+          disabled={revokeOthersMutation.isLoading}
+          onClick={() => revokeOthersMutation.mutate()}
+        >
+          {revokeOthersMutation.isLoading ? 'Signing out...' : 'Sign Out All Other Devices'}
+        </button>
+      )}
+      <p className="active-sessions-hint">
+        Devices are signed out automatically after a week without use. Changing your password signs out every device.
+      </p>
+    </div>
+  );
+};
+
+export default ActiveSessions;
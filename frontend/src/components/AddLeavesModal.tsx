@@ -16,6 +16,12 @@ interface AddLeavesModalProps {
   isLoading?: boolean;
 }
 
+const getLeaveTypeLabel = (code: string) => {
+  if (code === 'lop') return 'LOP';
+  if (code === 'casual') return 'Casual Leave';
+  return code.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+};
+
 const AddLeavesModal: React.FC<AddLeavesModalProps> = ({
   isOpen,
   onClose,
@@ -26,7 +32,7 @@ const AddLeavesModal: React.FC<AddLeavesModalProps> = ({
   isLoading = false
 }) => {
   const [count, setCount] = useState<string>('');
-  const [leaveType, setLeaveType] = useState<'casual' | 'lop'>('casual');
+  const [leaveType, setLeaveType] = useState<string>('casual');
   const [comment, setComment] = useState<string>('');
   const [file, setFile] = useState<File | null>(null);
   const [validationError, setValidationError] = useState<string>('');
@@ -99,7 +105,7 @@ const AddLeavesModal: React.FC<AddLeavesModalProps> = ({
     }
 
     // Get current balance based on selected leave type
-    const currentBalance = balances ? balances[leaveType] : 0;
+    const currentBalance = balances ? (balances[leaveType] || 0) : 0;
     const newTotal = currentBalance + countNum;
 
     // Maximum limit based on leave type
@@ -169,7 +175,7 @@ const AddLeavesModal: React.FC<AddLeavesModalProps> = ({
 
     if (!isNaN(countNum) && countNum > 0 && balances) {
       const maxLimit = leaveType === 'lop' ? 40 : 99;
-      if ((balances[leaveType] + countNum) > maxLimit) {
+      if (((balances[leaveType] || 0) + countNum) > maxLimit) {
         setValidationError(`Total exceeds ${maxLimit}.`);
       }
     }
@@ -208,14 +214,19 @@ const AddLeavesModal: React.FC<AddLeavesModalProps> = ({
                   id="leaveType"
                   value={leaveType}
                   onChange={(e) => {
-                    setLeaveType(e.target.value as 'casual' | 'lop');
+                    setLeaveType(e.target.value);
                     setValidationError('');
                   }}
                   disabled={isLoading || balancesLoading}
                   style={{ width: '100%', padding: '8px', border: '1px solid #ddd', borderRadius: '4px' }}
                 >
-                  <option value="casual">Casual Leave (Current Balance: {balances?.casual || 0})</option>
-                  <option value="lop">LOP (Current Balance: {balances?.lop || 0})</option>
+                  {Object.entries((balances?.balances || { casual: balances?.casual, lop: balances?.lop }) as Record<string, number>)
+                    .filter(([code]) => code !== 'sick')
+                    .map(([code, value]) => (
+                      <option key={code} value={code}>
+                        {getLeaveTypeLabel(code)} (Current Balance: {value || 0})
+                      </option>
+                    ))}
                 </select>
               </div>
 
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import { useToast } from '../contexts/ToastContext';
+import { DatePicker } from './ui/date-picker';
+import * as approvalDelegationService from '../services/approvalDelegationService';
+import './ApprovalDelegationSettings.css';
+
+const formatRange = (startDate: string, endDate: string) => {
+  const toDisplay = (date: string) => format(new Date(`${date}T00:00:00`), 'dd MMM yyyy');
+  return startDate === endDate ? toDisplay(startDate) : `${toDisplay(startDate)} – ${toDisplay(endDate)}`;
+};
+
+const emptyForm = { delegateId: '', startDate: '', endDate: '', reason: '' };
+
+/**
+ * Lets an approver hand their leave and timesheet approvals to someone else for a
+ * date range. Without one, approvals fall back to their own manager while they are on leave.
+ */
+const ApprovalDelegationSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const { data: overview, isLoading } = useQuery('approvalDelegations', approvalDelegationService.getDelegations, {
+    retry: false
+  });
+  const { data: candidates = [] } = useQuery('delegateCandidates', approvalDelegationService.getDelegateCandidates, {
+    retry: false,
+    staleTime: 5 * 60 * 1000
+  });
+
+  const createMutation = useMutation(approvalDelegationService.createDelegation, {
+    onSuccess: () => {
+      queryClient.invalidateQueries('approvalDelegations');
+      setForm(emptyForm);
+      showSuccess('Approvals delegated');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to delegate approvals');
+    }
+  });
+
+  const cancelMutation = useMutation(approvalDelegationService.cancelDelegation, {
+    onSuccess: () => {
+      queryClient.invalidateQueries('approvalDelegations');
+      showSuccess('Delegation cancelled');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to cancel delegation');
+    }
+  });
+
+  const upcomingGiven = (overview?.given || []).filter((d) => d.isActive && d.endDate >= today);
+  const activeReceived = (overview?.received || []).filter((d) => d.isActive && d.endDate >= today);
+
+  const handleSubmit = () => {
+    createMutation.mutate({
+      delegateId: parseInt(form.delegateId),
+      startDate: form.startDate,
+      endDate: form.endDate,
+      reason: form.reason.trim() || undefined
+    });
+  };
+
+  return (
+    <div className="employee-modal-section approval-delegation">
+      <h3>Approval Delegation</h3>
+      {isLoading ? (
+        <div className="approval-delegation-hint">Loading...</div>
+      ) : (
+        <>
+          {overview?.currentDelegate && (
+            <div className="approval-delegation-current">
+              Your approvals are currently handled by <strong>{overview.currentDelegate.delegateName}</strong>
+              {overview.currentDelegate.source === 'auto' && ' (your reporting manager, while you are on leave)'}.
+            </div>
+          )}
+
+          <div className="approval-delegation-form">
+            <select
+              value={form.delegateId}
+              onChange={(e) => setForm({ ...form, delegateId: e.target.value })}
+            >
+              <option value="">Select delegate</option>
+              {candidates.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.name} ({candidate.empId})
+                </option>
+              ))}
+            </select>
+            <DatePicker
+              value={form.startDate}
+              onChange={(date) => setForm({ ...form, startDate: date })}
+              min={today}
+              max={form.endDate || undefined}
+              placeholder="From"
+            />
+            <DatePicker
+              value={form.endDate}
+              onChange={(date) => setForm({ ...form, endDate: date })}
+              min={form.startDate || today}
+              placeholder="To"
+            />
+            <input
+              type="text"
+              placeholder="Reason (optional)"
+              maxLength={200}
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+            />
+            <button
+              className="approval-delegation-add"
+              disabled={!form.delegateId || !form.startDate || !form.endDate || createMutation.isLoading}
+              onClick={handleSubmit}
+            >
+              {createMutation.isLoading ? 'Saving...' : 'Delegate'}
+            </button>
+          </div>
+
+          {upcomingGiven.length > 0 && (
+            <table className="approval-delegation-table">
+              <tbody>
+                {upcomingGiven.map((delegation) => (
+                  <tr key={delegation.id}>
+                    <td>{delegation.delegateName}</td>
+                    <td>{formatRange(delegation.startDate, delegation.endDate)}</td>
+                    <td>{delegation.reason || '-'}</td>
+                    <td className="approval-delegation-actions">
+                      <button
+                        disabled={cancelMutation.isLoading}
+                        onClick={() => cancelMutation.mutate(delegation.id)}
+                      >
+                        Cancel
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {activeReceived.length > 0 && (
+            <div className="approval-delegation-received">
+              {activeReceived.map((delegation) => (
+                <div key={delegation.id}>
+                  Approving for <strong>{delegation.delegatorName}</strong> · {formatRange(delegation.startDate, delegation.endDate)}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+      <p className="approval-delegation-hint">
+        Leave and timesheet approvals for your team go to the delegate during the selected dates.
+      </p>
+    </div>
+  );
+};
+
+export default ApprovalDelegationSettings;
@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { FaPlus, FaTrash, FaEdit, FaTimes, FaArrowRight } from 'react-icons/fa';
+import { useToast } from '../contexts/ToastContext';
+import * as leaveRuleService from '../services/leaveRuleService';
+import { ApprovalWorkflow, ApprovalStageRole, LeaveType } from '../services/leaveRuleService';
+import ConfirmationDialog from './ConfirmationDialog';
+import './ApprovalWorkflowsPanel.css';
+
+const STAGE_LABELS: Record<ApprovalStageRole, string> = {
+  manager: 'Reporting Manager',
+  hr: 'HR'
+};
+
+interface WorkflowForm {
+  name: string;
+  leaveTypeCode: string;
+  minDays: string;
+  maxDays: string;
+  stages: ApprovalStageRole[];
+  priority: string;
+  isActive: boolean;
+}
+
+const emptyForm: WorkflowForm = {
+  name: '',
+  leaveTypeCode: '',
+  minDays: '',
+  maxDays: '',
+  stages: ['manager'],
+  priority: '100',
+  isActive: true
+};
+
+const toForm = (workflow: ApprovalWorkflow): WorkflowForm => ({
+  name: workflow.name,
+  leaveTypeCode: workflow.leaveTypeCode || '',
+  minDays: workflow.minDays !== null ? String(workflow.minDays) : '',
+  maxDays: workflow.maxDays !== null ? String(workflow.maxDays) : '',
+  stages: workflow.stages,
+  priority: String(workflow.priority),
+  isActive: workflow.isActive
+});
+
+const toInput = (form: WorkflowForm): leaveRuleService.ApprovalWorkflowInput => ({
+  name: form.name.trim(),
+  leaveTypeCode: form.leaveTypeCode || null,
+  minDays: form.minDays !== '' ? parseFloat(form.minDays) : null,
+  maxDays: form.maxDays !== '' ? parseFloat(form.maxDays) : null,
+  stages: form.stages,
+  priority: form.priority !== '' ? parseInt(form.priority) : 100,
+  isActive: form.isActive
+});
+
+const formatDayRange = (workflow: ApprovalWorkflow) => {
+  if (workflow.minDays === null && workflow.maxDays === null) return 'Any duration';
+  if (workflow.minDays === null) return `Up to ${workflow.maxDays} days`;
+  if (workflow.maxDays === null) return `${workflow.minDays}+ days`;
+  return `${workflow.minDays} – ${workflow.maxDays} days`;
+};
+
+/**
+ * Super admin configuration of leave approval chains. The first active workflow
+ * (lowest priority number) matching a request's leave type and duration decides
+ * its approval stages; requests matching none need only the reporting manager.
+ */
+const ApprovalWorkflowsPanel: React.FC<{ leaveTypes: LeaveType[] }> = ({ leaveTypes }) => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+
+  const { data: workflows = [], isLoading } = useQuery('leaveApprovalWorkflows', leaveRuleService.getWorkflows);
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<WorkflowForm>(emptyForm);
+  const [deleteTarget, setDeleteTarget] = useState<ApprovalWorkflow | null>(null);
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const saveMutation = useMutation(
+    (data: WorkflowForm) =>
+      editingId !== null
+        ? leaveRuleService.updateWorkflow(editingId, toInput(data))
+        : leaveRuleService.createWorkflow(toInput(data)),
+    {
+      onSuccess: () => {
+        showSuccess(editingId !== null ? 'Approval Workflow Updated' : 'Approval Workflow Created');
+        queryClient.invalidateQueries('leaveApprovalWorkflows');
+        closeForm();
+      },
+      onError: (err: any) => showError(err.response?.data?.error || 'Failed To Save Approval Workflow')
+    }
+  );
+
+  const deleteMutation = useMutation((id: number) => leaveRuleService.deleteWorkflow(id), {
+    onSuccess: () => {
+      showSuccess('Approval Workflow Deleted');
+      queryClient.invalidateQueries('leaveApprovalWorkflows');
+      setDeleteTarget(null);
+    },
+    onError: (err: any) => showError(err.response?.data?.error || 'Failed To Delete Approval Workflow')
+  });
+
+  const toggleStage = (stage: ApprovalStageRole, checked: boolean) => {
+    // Keep the chain in manager -> HR order
+    const stages = (['manager', 'hr'] as ApprovalStageRole[]).filter((s) =>
+      s === stage ? checked : form.stages.includes(s)
+    );
+    setForm({ ...form, stages });
+  };
+
+  const leaveTypeName = (code: string | null) =>
+    code ? leaveTypes.find((type) => type.code === code)?.name || code : 'All leave types';
+
+  return (
+    <div className="lr-types-section">
+      <div className="lr-types-header">
+        <h2>Approval Workflows</h2>
+        <button
+          className="lr-add-btn"
+          onClick={() => {
+            setEditingId(null);
+            setForm(emptyForm);
+            setIsFormOpen(true);
+          }}
+        >
+          <FaPlus /> Add New
+        </button>
+      </div>
+      <p className="awf-hint">
+        The first active workflow (lowest priority number) matching a request&apos;s leave type and duration sets its
+        approval stages. Requests that match no workflow are approved by the reporting manager alone.
+      </p>
+
+      {isFormOpen && (
+        <div className="lr-modal-overlay">
+          <div className="lr-modal-container">
+            <div className="lr-modal-header">
+              <h3>{editingId !== null ? 'Edit Approval Workflow' : 'Add Approval Workflow'}</h3>
+              <button className="lr-modal-close" onClick={closeForm}><FaTimes /></button>
+            </div>
+            <div className="lr-modal-body">
+              <div className="lr-create-form">
+                <div className="lr-form-row">
+                  <div className="lr-form-group">
+                    <label>Name <span style={{ color: 'red' }}>*</span></label>
+                    <input
+                      placeholder="e.g. Long casual leave"
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="lr-form-group">
+                    <label>Leave Type</label>
+                    <select
+                      value={form.leaveTypeCode}
+                      onChange={(e) => setForm({ ...form, leaveTypeCode: e.target.value })}
+                    >
+                      <option value="">All leave types</option>
+                      {leaveTypes.map((type) => (
+                        <option key={type.code} value={type.code}>{type.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="lr-form-row">
+                  <div className="lr-form-group">
+                    <label>Min Days</label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="No minimum"
+                      value={form.minDays}
+                      onChange={(e) => setForm({ ...form, minDays: e.target.value.replace(/[^0-9.]/g, '') })}
+                    />
+                  </div>
+                  <div className="lr-form-group">
+                    <label>Max Days</label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="No maximum"
+                      value={form.maxDays}
+                      onChange={(e) => setForm({ ...form, maxDays: e.target.value.replace(/[^0-9.]/g, '') })}
+                    />
+                  </div>
+                  <div className="lr-form-group">
+                    <label>Priority</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={form.priority}
+                      onChange={(e) => setForm({ ...form, priority: e.target.value.replace(/[^0-9]/g, '') })}
+                    />
+                  </div>
+                </div>
+
+                <div className="lr-role-options-label">Approval Stages (in order): <span style={{ color: 'red' }}>*</span></div>
+                <div className="lr-role-options">
+                  {(['manager', 'hr'] as ApprovalStageRole[]).map((stage) => (
+                    <label key={stage} className="lr-role-checkbox">
+                      <input
+                        type="checkbox"
+                        checked={form.stages.includes(stage)}
+                        onChange={(e) => toggleStage(stage, e.target.checked)}
+                      />
+                      {STAGE_LABELS[stage]}
+                    </label>
+                  ))}
+                  <label className="lr-role-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={form.isActive}
+                      onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                    />
+                    Active
+                  </label>
+                </div>
+              </div>
+            </div>
+            <div className="lr-modal-footer">
+              <button
+                className="lr-save-btn"
+                disabled={saveMutation.isLoading || !form.name.trim() || form.stages.length === 0}
+                onClick={() => saveMutation.mutate(form)}
+              >
+                {saveMutation.isLoading ? 'Saving...' : 'Save'}
+              </button>
+              <button className="lr-cancel-btn" onClick={closeForm}>Cancel</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="awf-hint">Loading...</div>
+      ) : workflows.length === 0 ? (
+        <div className="awf-hint">No approval workflows configured. All requests go to the reporting manager.</div>
+      ) : (
+        <table className="lr-table">
+          <thead>
+            <tr>
+              <th>Priority</th>
+              <th>Name</th>
+              <th>Leave Type</th>
+              <th>Duration</th>
+              <th>Stages</th>
+              <th>Status</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {workflows.map((workflow) => (
+              <tr key={workflow.id} className={!workflow.isActive ? 'inactive' : ''}>
+                <td>{workflow.priority}</td>
+                <td>{workflow.name}</td>
+                <td>{leaveTypeName(workflow.leaveTypeCode)}</td>
+                <td>{formatDayRange(workflow)}</td>
+                <td>
+                  <span className="awf-stages">
+                    {workflow.stages.map((stage, index) => (
+                      <React.Fragment key={stage}>
+                        {index > 0 && <FaArrowRight className="awf-stage-arrow" />}
+                        <span className="awf-stage-chip">{STAGE_LABELS[stage] || stage}</span>
+                      </React.Fragment>
+                    ))}
+                  </span>
+                </td>
+                <td>
+                  <span className={`status-pill ${workflow.isActive ? 'active' : 'inactive'}`}>
+                    {workflow.isActive ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="lr-actions-cell">
+                  <button
+                    className="lr-edit-icon-btn"
+                    title="Edit"
+                    onClick={() => {
+                      setEditingId(workflow.id);
+                      setForm(toForm(workflow));
+                      setIsFormOpen(true);
+                    }}
+                  >
+                    <FaEdit />
+                  </button>
+                  <button className="lr-delete-icon-btn" title="Delete" onClick={() => setDeleteTarget(workflow)}>
+                    <FaTrash />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <ConfirmationDialog
+        isOpen={!!deleteTarget}
+        title="Delete Approval Workflow"
+        message={`Are You Sure You Want To Delete "${deleteTarget?.name}"? Requests already submitted keep their current approval stages.`}
+        confirmText="Delete"
+        cancelText="Keep Workflow"
+        onConfirm={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+        onCancel={() => setDeleteTarget(null)}
+        type="danger"
+        isLoading={deleteMutation.isLoading}
+      />
+    </div>
+  );
+};
+
+export default ApprovalWorkflowsPanel;
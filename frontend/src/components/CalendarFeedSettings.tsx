@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import { useToast } from '../contexts/ToastContext';
+import ConfirmationDialog from './ConfirmationDialog';
+import * as calendarFeedService from '../services/calendarFeedService';
+import './CalendarFeedSettings.css';
+
+/**
+ * Personal ICS feed of approved leaves (own and, for managers, their team's) and holidays.
+ * The URL is the only credential, so resetting it cuts off every existing subscription.
+ * The server only stores a hash of it, so the link can be shown just once, when it is issued.
+ */
+const CalendarFeedSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [confirmAction, setConfirmAction] = useState<'reset' | 'revoke' | null>(null);
+  const [issuedToken, setIssuedToken] = useState<string | null>(null);
+
+  const { data: feed, isLoading } = useQuery('calendarFeed', calendarFeedService.getFeed, { retry: false });
+
+  const errorHandler = (fallback: string) => (error: any) => {
+    showError(error.response?.data?.error?.message || fallback);
+    setConfirmAction(null);
+  };
+
+  const regenerateMutation = useMutation(calendarFeedService.regenerateFeed, {
+    onSuccess: (updated) => {
+      queryClient.setQueryData('calendarFeed', { ...updated, token: null });
+      setIssuedToken(updated.token);
+      showSuccess(confirmAction === 'reset' ? 'Calendar link reset' : 'Calendar feed turned on');
+      setConfirmAction(null);
+    },
+    onError: errorHandler('Failed to update calendar feed')
+  });
+
+  const revokeMutation = useMutation(calendarFeedService.revokeFeed, {
+    onSuccess: () => {
+      setIssuedToken(null);
+      queryClient.invalidateQueries('calendarFeed');
+      showSuccess('Calendar feed turned off');
+      setConfirmAction(null);
+    },
+    onError: errorHandler('Failed to turn off calendar feed')
+  });
+
+  const feedUrl = issuedToken ? calendarFeedService.getFeedUrl(issuedToken) : '';
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      showSuccess('Calendar link copied');
+    } catch {
+      showError('Could not copy the link');
+    }
+  };
+
+  return (
+    <div className="employee-modal-section calendar-feed">
+      <h3>Calendar Subscription</h3>
+      {isLoading ? (
+        <div className="calendar-feed-hint">Loading...</div>
+      ) : feed?.enabled ? (
+        <>
+          <div className="calendar-feed-row">
+            {feedUrl ? (
+              <>
+                <input type="text" value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+                <button type="button" className="calendar-feed-primary" onClick={copyLink}>
+                  Copy Link
+                </button>
+              </>
+            ) : (
+              <span className="calendar-feed-hint">
+                The feed is on. Its link was only shown when it was created; reset it to get a new one.
+              </span>
+            )}
+            <button type="button" className="calendar-feed-secondary" onClick={() => setConfirmAction('reset')}>
+              Reset Link
+            </button>
+            <button type="button" className="calendar-feed-secondary" onClick={() => setConfirmAction('revoke')}>
+              Turn Off
+            </button>
+          </div>
+          <p className="calendar-feed-hint">
+            {feed.lastAccessedAt
+              ? `Last fetched by a calendar app on ${format(new Date(feed.lastAccessedAt), 'dd MMM yyyy, hh:mm a')}.`
+              : 'Not fetched by any calendar app yet.'}
+          </p>
+        </>
+      ) : (
+        <div className="calendar-feed-row">
+          <button
+            type="button"
+            className="calendar-feed-primary"
+            disabled={regenerateMutation.isLoading}
+            onClick={() => regenerateMutation.mutate()}
+          >
+            {regenerateMutation.isLoading ? 'Turning on...' : 'Turn On Calendar Feed'}
+          </button>
+        </div>
+      )}
+      <p className="calendar-feed-hint">
+        Subscribe from Google Calendar, Outlook or Apple Calendar to see your approved leaves
+        {feed?.includesTeam ? ", your team's approved leaves" : ''} and your holidays. Anyone with the link can
+        view the feed, so keep it private.
+      </p>
+
+      <ConfirmationDialog
+        isOpen={!!confirmAction}
+        title={confirmAction === 'reset' ? 'Reset Calendar Link' : 'Turn Off Calendar Feed'}
+        message={
+          confirmAction === 'reset'
+            ? 'Calendars subscribed with the current link will stop updating until they use the new one.'
+            : 'Calendars subscribed with the current link will stop updating.'
+        }
+        confirmText={confirmAction === 'reset' ? 'Reset' : 'Turn Off'}
+        cancelText="Cancel"
+        type="warning"
+        isLoading={regenerateMutation.isLoading || revokeMutation.isLoading}
+        onConfirm={() => (confirmAction === 'reset' ? regenerateMutation.mutate() : revokeMutation.mutate())}
+        onCancel={() => setConfirmAction(null)}
+      />
+    </div>
+  );
+};
+
+export default CalendarFeedSettings;
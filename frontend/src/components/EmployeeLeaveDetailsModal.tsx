@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
 import { FaTimes, FaPencilAlt } from 'react-icons/fa';
 import { format } from 'date-fns';
+import { useQuery } from 'react-query';
 import * as leaveService from '../services/leaveService';
 import './LeaveDetailsModal.css';
 
@@ -33,6 +34,8 @@ interface EmployeeLeaveDetailsModalProps {
     canDelete?: boolean;
     timeForPermission?: { start: string; end: string } | null;
   } | null;
+  /** Whose balance statement to show; omit for the logged-in user */
+  employeeId?: number;
   onClose: () => void;
   onEdit?: () => void;
 }
@@ -40,9 +43,20 @@ interface EmployeeLeaveDetailsModalProps {
 const EmployeeLeaveDetailsModal: React.FC<EmployeeLeaveDetailsModalProps> = ({
   isOpen,
   leaveRequest,
+  employeeId,
   onClose,
   onEdit
 }) => {
+  const statementLeaveType = leaveRequest?.leaveType;
+  const { data: statement, isLoading: statementLoading } = useQuery(
+    ['balanceStatement', employeeId ?? 'me', statementLeaveType],
+    () => leaveService.getBalanceStatement(employeeId, statementLeaveType),
+    {
+      enabled: isOpen && !!statementLeaveType && statementLeaveType !== 'permission',
+      retry: false
+    }
+  );
+
   // Prevent body scrolling when modal is open
   useEffect(() => {
     if (isOpen) {
@@ -64,7 +78,23 @@ const EmployeeLeaveDetailsModal: React.FC<EmployeeLeaveDetailsModalProps> = ({
       casual: 'Casual',
       sick: 'Sick',
       lop: 'LOP',
-      permission: 'Permission'
+      permission: 'Permission',
+      comp_off: 'Comp-Off'
+    };
+    return labels[type] || type;
+  };
+
+  const getTransactionLabel = (type: string) => {
+    const labels: { [key: string]: string } = {
+      opening: 'Opening',
+      credit: 'Credit',
+      debit: 'Debit',
+      refund: 'Refund',
+      manual_allocation: 'Manual Allocation',
+      carry_forward: 'Carry Forward',
+      lapse: 'Lapse',
+      adjustment: 'Adjustment',
+      encashment: 'Encashment'
     };
     return labels[type] || type;
   };
@@ -380,6 +410,36 @@ const EmployeeLeaveDetailsModal: React.FC<EmployeeLeaveDetailsModalProps> = ({
                 </div>
               </div>
             )}
+
+            {leaveRequest.leaveType !== 'permission' && (
+              <div className="leave-detail-item leave-detail-item-full">
+                <label>{getLeaveTypeLabel(leaveRequest.leaveType)} Balance Statement</label>
+                {statementLoading ? (
+                  <div className="leave-detail-value">Loading statement...</div>
+                ) : statement?.transactions && statement.transactions.length > 0 ? (
+                  <div className="leave-days-list">
+                    {statement.transactions.map((txn) => (
+                      <div
+                        key={txn.id}
+                        className={`leave-day-item balance-statement-row ${txn.delta < 0 ? 'day-rejected' : 'day-approved'} ${txn.leaveRequestId === leaveRequest.id ? 'current-request' : ''}`}
+                        title={txn.remarks || undefined}
+                      >
+                        <span className="day-date">{formatDateSafe(txn.createdAt)}</span>
+                        <span className="day-type">
+                          {getTransactionLabel(txn.transactionType)}
+                          {txn.leaveRequestId === leaveRequest.id && ' (this request)'}
+                          {txn.createdByName && ` · ${txn.createdByName}`}
+                        </span>
+                        <span className="balance-statement-delta">{txn.delta > 0 ? `+${txn.delta}` : txn.delta}</span>
+                        <span className="balance-statement-after">{txn.balanceAfter}</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="leave-detail-value">No balance history</div>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import { useToast } from '../contexts/ToastContext';
+import RejectCommentDialog from './RejectCommentDialog';
+import * as floatingHolidayService from '../services/floatingHolidayService';
+import { FloatingHolidayClaim } from '../services/floatingHolidayService';
+import './FloatingHolidayApprovals.css';
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'dd MMM yyyy');
+
+/**
+ * Floating holiday claims awaiting the approver: their team's, and those of managers
+ * they are standing in for. Hidden while there is nothing to decide.
+ */
+const FloatingHolidayApprovals: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [rejectTarget, setRejectTarget] = useState<FloatingHolidayClaim | null>(null);
+
+  const { data: claims = [] } = useQuery('pendingFloatingHolidayClaims', floatingHolidayService.getPendingClaims, {
+    retry: false
+  });
+
+  const approveMutation = useMutation((id: number) => floatingHolidayService.approveClaim(id), {
+    onSuccess: () => {
+      queryClient.invalidateQueries('pendingFloatingHolidayClaims');
+      showSuccess('Floating holiday approved');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to approve floating holiday');
+    }
+  });
+
+  const rejectMutation = useMutation(
+    ({ id, comment }: { id: number; comment: string }) => floatingHolidayService.rejectClaim(id, comment),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('pendingFloatingHolidayClaims');
+        setRejectTarget(null);
+        showSuccess('Floating holiday rejected');
+      },
+      onError: (error: any) => {
+        showError(error.response?.data?.error?.message || 'Failed to reject floating holiday');
+      }
+    }
+  );
+
+  if (claims.length === 0) return null;
+
+  return (
+    <div className="floating-approvals-section">
+      <h2>Floating Holiday Requests</h2>
+      <table className="fh-table">
+        <thead>
+          <tr>
+            <th>Employee</th>
+            <th>Holiday</th>
+            <th>Date</th>
+            <th>Reason</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {claims.map((claim) => (
+            <tr key={claim.id}>
+              <td>
+                {claim.employeeName} ({claim.empId})
+                {claim.delegatedFrom && <div className="fh-subtext">On behalf of {claim.delegatedFrom}</div>}
+              </td>
+              <td>{claim.holidayName}</td>
+              <td>{formatDate(claim.holidayDate)}</td>
+              <td>{claim.reason || '-'}</td>
+              <td className="fh-actions">
+                <button
+                  className="fh-primary-btn"
+                  disabled={approveMutation.isLoading}
+                  onClick={() => approveMutation.mutate(claim.id)}
+                >
+                  Approve
+                </button>
+                <button className="fh-danger-btn" onClick={() => setRejectTarget(claim)}>
+                  Reject
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <RejectCommentDialog
+        isOpen={!!rejectTarget}
+        title="Reject Floating Holiday"
+        message={`Reject ${rejectTarget?.employeeName}'s claim for ${rejectTarget?.holidayName} on ${rejectTarget ? formatDate(rejectTarget.holidayDate) : ''}?`}
+        confirmText="Reject"
+        onConfirm={(comment) => rejectTarget && rejectMutation.mutate({ id: rejectTarget.id, comment })}
+        onCancel={() => setRejectTarget(null)}
+        isLoading={rejectMutation.isLoading}
+      />
+    </div>
+  );
+};
+
+export default FloatingHolidayApprovals;
@@ -0,0 +1,204 @@
+import React, { useRef, useState } from 'react';
+import { useMutation } from 'react-query';
+import { format } from 'date-fns';
+import { useToast } from '../contexts/ToastContext';
+import * as holidayCalendarService from '../services/holidayCalendarService';
+import { HolidayCalendar, HolidayImportPreview, HolidayImportRow } from '../services/holidayCalendarService';
+import './HolidayImportPanel.css';
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'dd MMM yyyy');
+
+const STATUS_LABELS: Record<HolidayImportRow['status'], string> = {
+  new: 'New',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+  skipped: 'Skipped'
+};
+
+const isApplicable = (row: HolidayImportRow) => row.status === 'new' || row.status === 'changed';
+
+interface HolidayImportPanelProps {
+  calendar: HolidayCalendar;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+/**
+ * Bulk import of holidays from an .ics or .csv file. The file is previewed against the
+ * calendar first; only the new and changed rows HR keeps ticked are written.
+ */
+const HolidayImportPanel: React.FC<HolidayImportPanelProps> = ({ calendar, onClose, onImported }) => {
+  const { showSuccess, showError } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<HolidayImportPreview | null>(null);
+  const [selectedDates, setSelectedDates] = useState<string[]>([]);
+
+  const errorHandler = (fallback: string) => (error: any) => {
+    showError(error.response?.data?.error?.message || fallback);
+  };
+
+  const previewMutation = useMutation(
+    ({ name, content }: { name: string; content: string }) =>
+      holidayCalendarService.previewImport(calendar.id, name, content),
+    {
+      onSuccess: (result) => {
+        setPreview(result);
+        setSelectedDates(result.rows.filter(isApplicable).map((row) => row.date));
+      },
+      onError: errorHandler('Failed to read holiday file')
+    }
+  );
+
+  const importMutation = useMutation(
+    () => holidayCalendarService.applyImport(calendar.id, file!.name, file!.content, selectedDates),
+    {
+      onSuccess: (result) => {
+        if (result.failed.length > 0) {
+          showError(`${result.message}. ${result.failed.length} failed: ${result.failed.map((row) => `${row.date} (${row.message})`).join(', ')}`);
+        } else {
+          showSuccess(result.message);
+        }
+        onImported();
+        onClose();
+      },
+      onError: errorHandler('Failed to import holidays')
+    }
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    if (selected.size > 1024 * 1024) {
+      showError('Holiday files must be under 1 MB');
+      return;
+    }
+    const content = await selected.text();
+    setFile({ name: selected.name, content });
+    setPreview(null);
+    previewMutation.mutate({ name: selected.name, content });
+  };
+
+  const toggleDate = (date: string) => {
+    setSelectedDates((prev) => (prev.includes(date) ? prev.filter((d) => d !== date) : [...prev, date]));
+  };
+
+  const applicableRows = preview ? preview.rows.filter(isApplicable) : [];
+  const counts = preview
+    ? preview.rows.reduce((acc, row) => ({ ...acc, [row.status]: (acc[row.status] || 0) + 1 }), {} as Record<string, number>)
+    : {};
+
+  return (
+    <div className="hm-form-section holiday-import-panel">
+      <div className="hi-header">
+        <h2>Import Holidays into {calendar.name}</h2>
+        <button type="button" className="hm-reset-button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <p className="hi-help">
+        Upload an .ics file exported from any calendar app, or a CSV with columns <code>date, name, type</code>
+        {' '}(dates as YYYY-MM-DD or DD-MM-YYYY; a type of "optional" or "floating" marks a floating holiday).
+      </p>
+
+      <div className="hi-file-row">
+        <input ref={fileInputRef} type="file" accept=".ics,.csv,text/calendar,text/csv" onChange={handleFileChange} hidden />
+        <button
+          type="button"
+          className="hm-submit-button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={previewMutation.isLoading || importMutation.isLoading}
+        >
+          {previewMutation.isLoading ? 'Reading...' : 'Choose File'}
+        </button>
+        {file && <span className="hm-calendar-meta">{file.name}</span>}
+      </div>
+
+      {preview && (
+        <>
+          <div className="hi-summary">
+            {(['new', 'changed', 'unchanged', 'skipped'] as const).map((status) => (
+              <span key={status} className={`hi-status ${status}`}>
+                {STATUS_LABELS[status]}: {counts[status] || 0}
+              </span>
+            ))}
+          </div>
+
+          <div className="hi-table-wrapper">
+            <table className="hm-table">
+              <thead>
+                <tr>
+                  <th></th>
+                  <th>Date</th>
+                  <th>Holiday</th>
+                  <th>Status</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row, index) => (
+                  <tr key={`${row.date}-${index}`} className={row.status === 'skipped' ? 'hi-row-muted' : undefined}>
+                    <td>
+                      {isApplicable(row) && (
+                        <input type="checkbox" checked={selectedDates.includes(row.date)} onChange={() => toggleDate(row.date)} />
+                      )}
+                    </td>
+                    <td>{row.date ? formatDate(row.date) : '-'}</td>
+                    <td>
+                      {row.name || '-'}
+                      {row.isOptional && <span className="hm-type-badge optional">Floating</span>}
+                    </td>
+                    <td>
+                      <span className={`hi-status ${row.status}`}>{STATUS_LABELS[row.status]}</span>
+                    </td>
+                    <td className="hi-details">
+                      {row.status === 'changed' && row.existing && (
+                        <div>
+                          Currently {row.existing.name}
+                          {row.existing.isOptional ? ' (floating)' : ''}
+                        </div>
+                      )}
+                      {row.message && <div>{row.message}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {preview.notInFile.length > 0 && (
+            <p className="hi-help">
+              Not in this file and left unchanged:{' '}
+              {preview.notInFile.map((holiday) => `${holiday.name} (${formatDate(holiday.date)})`).join(', ')}
+            </p>
+          )}
+
+          <div className="hi-actions">
+            <button
+              type="button"
+              className="hm-submit-button"
+              disabled={selectedDates.length === 0 || importMutation.isLoading}
+              onClick={() => importMutation.mutate()}
+            >
+              {importMutation.isLoading ? 'Importing...' : `Import ${selectedDates.length} of ${applicableRows.length}`}
+            </button>
+            <button
+              type="button"
+              className="hm-reset-button"
+              onClick={() => {
+                setFile(null);
+                setPreview(null);
+                setSelectedDates([]);
+              }}
+            >
+              Discard
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HolidayImportPanel;
@@ -12,9 +12,13 @@ import {
 } from './ui/dropdown-menu';
 import { Button } from './ui/button';
 import { ChevronDown } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
 import * as leaveService from '../services/leaveService';
 import * as employeeService from '../services/employeeService';
+import * as teamCalendarService from '../services/teamCalendarService';
+import { AbsenceConflict } from '../services/teamCalendarService';
 import { Holiday } from '../services/leaveService';
+import { DEFAULT_WORK_SCHEDULE } from '../services/workScheduleService';
 import './LeaveDetailsModal.css';
 
 interface LeaveDay {
@@ -45,6 +49,9 @@ interface LeaveDetailsModalProps {
     approverName?: string | null;
     approverRole?: string | null;
     empRole?: string;
+    empWorkingDays?: number[];
+    empHolidayCalendarId?: number | null;
+    empFloatingHolidayIds?: number[];
     leaveDays?: LeaveDay[];
     canEdit?: boolean;
     timeForPermission?: { start: string; end: string } | null;
@@ -96,14 +103,18 @@ const LeaveDetailsModal: React.FC<LeaveDetailsModalProps> = ({
   isEditMode = false,
   userRole,
 }) => {
+  const { hasPermission } = useAuth();
   const [fromDate, setFromDate] = useState<string>('');
   const [toDate, setToDate] = useState<string>('');
   const [showRejectDialog, setShowRejectDialog] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
   const [selectedStatus, setSelectedStatus] = useState<string>('');
   const [holidays, setHolidays] = useState<Holiday[]>([]);
+  // Holiday calendar the loaded holidays belong to ('own' = the viewer's calendar)
+  const [holidaysCalendarKey, setHolidaysCalendarKey] = useState<string | null>(null);
   const [employeeBalances, setEmployeeBalances] = useState<EmployeeLeaveBalances | null>(null);
   const [loadingBalances, setLoadingBalances] = useState(false);
+  const [conflicts, setConflicts] = useState<AbsenceConflict[]>([]);
 
   // Prevent body scrolling when modal is open
   useEffect(() => {
@@ -129,12 +140,17 @@ const LeaveDetailsModal: React.FC<LeaveDetailsModalProps> = ({
       setSelectedStatus('');
       setEmployeeBalances(null);
     } else if (isOpen && leaveRequest) {
-      // Fetch holidays if not already fetched
-      if (holidays.length === 0) {
+      // Fetch the employee's calendar holidays if not already fetched.
+      // Optional holidays are working days unless the employee's floating claim for one was approved.
+      const calendarId = leaveRequest.empHolidayCalendarId ?? undefined;
+      const floatingHolidayIds = leaveRequest.empFloatingHolidayIds || [];
+      const calendarKey = `${calendarId ?? 'own'}:${floatingHolidayIds.join(',')}`;
+      if (holidaysCalendarKey !== calendarKey) {
         const fetchHolidays = async () => {
           try {
-            const data = await leaveService.getHolidays();
-            setHolidays(data);
+            const data = await leaveService.getHolidays(undefined, calendarId);
+            setHolidays(data.filter(h => !h.isOptional || (!!h.id && floatingHolidayIds.includes(h.id))));
+            setHolidaysCalendarKey(calendarKey);
           } catch (error) {
             console.error('Failed to fetch holidays:', error);
           }
@@ -163,7 +179,25 @@ const LeaveDetailsModal: React.FC<LeaveDetailsModalProps> = ({
         fetchEmployeeBalances();
       }
     }
-  }, [isOpen, leaveRequest, isEditMode, holidays.length]);
+  }, [isOpen, leaveRequest, isEditMode, holidaysCalendarKey]);
+
+  // Warn approvers when approving would put too much of the team or a project out on a day
+  const hasPendingDays = !!leaveRequest?.leaveDays?.some(day => day.status === 'pending');
+  useEffect(() => {
+    setConflicts([]);
+    if (!isOpen || !leaveRequest || isEditMode || !hasPendingDays) return;
+    if (!userRole || !['manager', 'hr', 'super_admin'].includes(userRole)) return;
+
+    let cancelled = false;
+    teamCalendarService.getLeaveConflicts(leaveRequest.id)
+      .then((data) => {
+        if (!cancelled) setConflicts(data);
+      })
+      .catch((error) => console.error('Failed to fetch absence conflicts:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, leaveRequest?.id, isEditMode, hasPendingDays, userRole]);
 
   if (!isOpen || !leaveRequest) return null;
 
@@ -312,7 +346,8 @@ const LeaveDetailsModal: React.FC<LeaveDetailsModalProps> = ({
       casual: 'Casual',
       sick: 'Sick',
       lop: 'LOP',
-      permission: 'Permission'
+      permission: 'Permission',
+      comp_off: 'Comp-Off'
     };
     return labels[type] || type;
   };
@@ -388,11 +423,9 @@ const LeaveDetailsModal: React.FC<LeaveDetailsModalProps> = ({
   const isDateDisabled = (date: Date) => {
     if (leaveRequest?.leaveType === 'lop') return false;
 
-    const dayOfWeek = date.getDay(); // 0 = Sunday, 6 = Saturday
-    const isSunday = dayOfWeek === 0;
-    const isSaturday = dayOfWeek === 6;
-    const isIntern = leaveRequest?.empRole?.toLowerCase() === 'intern';
-    const isWeekend = isSunday || (isSaturday && !isIntern);
+    // Days off in the employee's work schedule (0 = Sunday, 6 = Saturday)
+    const workingDays = leaveRequest?.empWorkingDays ?? DEFAULT_WORK_SCHEDULE.workingDays;
+    const isWeekend = !workingDays.includes(date.getDay());
 
     if (isWeekend) return true;
 
@@ -827,6 +860,23 @@ const LeaveDetailsModal: React.FC<LeaveDetailsModalProps> = ({
                 </div>
               )}
 
+              {conflicts.length > 0 && !isEditMode && (
+                <div className="leave-detail-item leave-detail-item-full">
+                  <div className="leave-details-conflicts">
+                    <strong>Approving this leave would leave too many people out:</strong>
+                    <ul>
+                      {conflicts.map((conflict) => (
+                        <li key={`${conflict.date}-${conflict.scope}-${conflict.scopeId}`}>
+                          {formatDateSafe(conflict.date)}: {conflict.absentCount} of {conflict.memberCount} in {conflict.scopeName}
+                          {' '}({conflict.percent}%, limit {conflict.threshold}%)
+                          {conflict.absentees.length > 0 && ` - also out: ${conflict.absentees.join(', ')}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+
               {/* Date selection for pending leaves (approval flow) */}
               {isMultiDay && leaveRequest.leaveDays && leaveRequest.leaveDays.length > 0 && pendingDays.length > 0 && !isEditMode && (
                 <div className="leave-detail-item leave-detail-item-full">
@@ -946,7 +996,7 @@ const LeaveDetailsModal: React.FC<LeaveDetailsModalProps> = ({
             )}
 
             {/* Re-implementing LOP to Casual Conversion - ONLY for Super Admin AND if proof exists */}
-            {userRole === 'super_admin' && leaveRequest.leaveType === 'lop' && leaveRequest.doctorNote && (
+            {hasPermission('leave.convert_lop') && leaveRequest.leaveType === 'lop' && leaveRequest.doctorNote && (
               <button
                 className="leave-details-modal-button leave-details-modal-button-convert"
                 onClick={async () => {
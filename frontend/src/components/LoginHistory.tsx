@@ -0,0 +1,99 @@
+import React from 'react';
+import { useQuery } from 'react-query';
+import { format } from 'date-fns';
+import { getLoginHistory, LoginHistoryEntry } from '../services/authService';
+import './LoginHistory.css';
+
+const METHOD_LABELS: Record<LoginHistoryEntry['method'], string> = {
+  password: 'Password',
+  mfa: 'Two-factor code',
+  sso: 'Single sign-on'
+};
+
+const FAILURE_LABELS: Record<string, string> = {
+  wrong_password: 'Wrong password',
+  invalid_code: 'Wrong code',
+  inactive: 'Account inactive',
+  locked: 'Blocked: account locked',
+  ip_blocked: 'Blocked: too many attempts from this network'
+};
+
+// Short "Browser on OS" description of a user agent string
+export const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /Chrome\//.test(userAgent)
+      ? 'Chrome'
+      : /Firefox\//.test(userAgent)
+        ? 'Firefox'
+        : /Safari\//.test(userAgent)
+          ? 'Safari'
+          : 'Browser';
+  const os = /Windows/.test(userAgent)
+    ? 'Windows'
+    : /Android/.test(userAgent)
+      ? 'Android'
+      : /iPhone|iPad/.test(userAgent)
+        ? 'iOS'
+        : /Mac OS X/.test(userAgent)
+          ? 'macOS'
+          : /Linux/.test(userAgent)
+            ? 'Linux'
+            : 'unknown OS';
+  return `${browser} on ${os}`;
+};
+
+/**
+ * Recent sign-in attempts on the user's own account, so unfamiliar activity stands out.
+ */
+const LoginHistory: React.FC = () => {
+  const { data: history = [], isLoading } = useQuery('loginHistory', () => getLoginHistory(20), { retry: false });
+
+  return (
+    <div className="employee-modal-section login-history">
+      <h3>Sign-in Activity</h3>
+      {isLoading ? (
+        <div className="login-history-hint">Loading...</div>
+      ) : history.length === 0 ? (
+        <div className="login-history-hint">No sign-in activity recorded yet.</div>
+      ) : (
+        <table className="login-history-table">
+          <thead>
+            <tr>
+              <th>When</th>
+              <th>Method</th>
+              <th>Device</th>
+              <th>IP Address</th>
+              <th>Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.map((entry) => (
+              <tr key={entry.id}>
+                <td>{format(new Date(entry.createdAt), 'dd MMM yyyy, hh:mm a')}</td>
+                <td>{METHOD_LABELS[entry.method] || entry.method}</td>
+                <td title={entry.userAgent || ''}>{describeDevice(entry.userAgent)}</td>
+                <td>{entry.ipAddress || '-'}</td>
+                <td>
+                  {entry.success ? (
+                    <span className="login-history-status success">Signed in</span>
+                  ) : (
+                    <span className="login-history-status failed">
+                      {FAILURE_LABELS[entry.failureReason || ''] || 'Failed'}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="login-history-hint">
+        If you see attempts you do not recognise, change your password and turn on two-factor authentication.
+      </p>
+    </div>
+  );
+};
+
+export default LoginHistory;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { useToast } from '../contexts/ToastContext';
+import './MfaRecoveryCodes.css';
+
+interface MfaRecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+  doneText?: string;
+}
+
+/**
+ * One-time display of freshly issued recovery codes; the server keeps only their hashes.
+ */
+const MfaRecoveryCodes: React.FC<MfaRecoveryCodesProps> = ({ codes, onDone, doneText = "I've Saved These Codes" }) => {
+  const { showSuccess, showError } = useToast();
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      showSuccess('Recovery codes copied');
+    } catch {
+      showError('Could not copy the codes');
+    }
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([`TensorGo LMS recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'tensorgo-lms-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mfa-recovery-codes">
+      <p className="mfa-recovery-hint">
+        Keep these codes somewhere safe. Each one signs you in once if you lose access to your authenticator
+        app. They will not be shown again.
+      </p>
+      <ul className="mfa-recovery-list">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="mfa-recovery-actions">
+        <button type="button" className="mfa-recovery-secondary" onClick={copyCodes}>
+          Copy
+        </button>
+        <button type="button" className="mfa-recovery-secondary" onClick={downloadCodes}>
+          Download
+        </button>
+        <button type="button" className="mfa-recovery-primary" onClick={onDone}>
+          {doneText}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MfaRecoveryCodes;
@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import MfaRecoveryCodes from './MfaRecoveryCodes';
+import * as mfaService from '../services/mfaService';
+import { MfaEnrollment } from '../services/authService';
+import './MfaSettings.css';
+
+const ROLE_LABELS: Record<string, string> = {
+  employee: 'Employee',
+  intern: 'Intern',
+  manager: 'Manager',
+  hr: 'HR',
+  super_admin: 'Super Admin'
+};
+
+/**
+ * Authenticator-app two-factor authentication for the signed-in user, plus (for super admins)
+ * the roles that must use it.
+ */
+const MfaSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { showSuccess, showError } = useToast();
+  const isSuperAdmin = user?.role === 'super_admin';
+
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [action, setAction] = useState<'regenerate' | 'disable' | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [requiredRoles, setRequiredRoles] = useState<string[]>([]);
+
+  const { data: status, isLoading } = useQuery('mfaStatus', mfaService.getStatus, { retry: false });
+  const { data: policy } = useQuery('mfaPolicy', mfaService.getPolicy, { enabled: isSuperAdmin, retry: false });
+
+  useEffect(() => {
+    if (policy) setRequiredRoles(policy.requiredRoles);
+  }, [policy]);
+
+  const errorHandler = (fallback: string) => (error: any) => {
+    showError(error.response?.data?.error?.message || fallback);
+  };
+
+  const resetForm = () => {
+    setAction(null);
+    setCode('');
+    setPassword('');
+  };
+
+  const setupMutation = useMutation(mfaService.startSetup, {
+    onSuccess: (data) => {
+      setEnrollment(data);
+      setCode('');
+    },
+    onError: errorHandler('Failed to start two-factor setup')
+  });
+
+  const enableMutation = useMutation(mfaService.enable, {
+    onSuccess: (data) => {
+      queryClient.invalidateQueries('mfaStatus');
+      setEnrollment(null);
+      setCode('');
+      setRecoveryCodes(data.recoveryCodes);
+      showSuccess('Two-factor authentication turned on');
+    },
+    onError: errorHandler('Invalid verification code')
+  });
+
+  const regenerateMutation = useMutation(mfaService.regenerateRecoveryCodes, {
+    onSuccess: (data) => {
+      queryClient.invalidateQueries('mfaStatus');
+      resetForm();
+      setRecoveryCodes(data.recoveryCodes);
+      showSuccess('New recovery codes generated');
+    },
+    onError: errorHandler('Failed to generate recovery codes')
+  });
+
+  const disableMutation = useMutation(mfaService.disable, {
+    onSuccess: () => {
+      queryClient.invalidateQueries('mfaStatus');
+      resetForm();
+      showSuccess('Two-factor authentication turned off');
+    },
+    onError: errorHandler('Failed to turn off two-factor authentication')
+  });
+
+  const policyMutation = useMutation(mfaService.updatePolicy, {
+    onSuccess: (data) => {
+      queryClient.setQueryData('mfaPolicy', data);
+      queryClient.invalidateQueries('mfaStatus');
+      showSuccess('Two-factor requirement saved');
+    },
+    onError: errorHandler('Failed to save two-factor requirement')
+  });
+
+  const toggleRole = (role: string) => {
+    setRequiredRoles((prev) => (prev.includes(role) ? prev.filter((r) => r !== role) : [...prev, role]));
+  };
+
+  const submitAction = () => {
+    if (action === 'regenerate') regenerateMutation.mutate(code.trim());
+    if (action === 'disable') disableMutation.mutate({ password, code: code.trim() });
+  };
+
+  const policyChanged =
+    !!policy &&
+    (policy.requiredRoles.length !== requiredRoles.length || requiredRoles.some((role) => !policy.requiredRoles.includes(role)));
+
+  return (
+    <div className="employee-modal-section mfa-settings">
+      <h3>Two-Factor Authentication</h3>
+      {isLoading ? (
+        <div className="mfa-settings-hint">Loading...</div>
+      ) : recoveryCodes ? (
+        <MfaRecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} doneText="Done" />
+      ) : enrollment ? (
+        <div className="mfa-settings-enroll">
+          <img src={enrollment.qrCode} alt="Authenticator QR code" className="mfa-settings-qr" />
+          <div className="mfa-settings-enroll-steps">
+            <p className="mfa-settings-hint">
+              Scan the QR code with an authenticator app (Google Authenticator, Microsoft Authenticator, Authy), or
+              enter this key manually:
+            </p>
+            <code className="mfa-settings-secret">{enrollment.secret}</code>
+            <div className="mfa-settings-row">
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="6-digit code"
+                value={code}
+                maxLength={6}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              />
+              <button
+                type="button"
+                className="mfa-settings-primary"
+                disabled={code.length !== 6 || enableMutation.isLoading}
+                onClick={() => enableMutation.mutate(code)}
+              >
+                {enableMutation.isLoading ? 'Verifying...' : 'Verify & Turn On'}
+              </button>
+              <button type="button" className="mfa-settings-secondary" onClick={() => setEnrollment(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : status?.enabled ? (
+        <>
+          <p className="mfa-settings-hint">
+            <span className="mfa-settings-badge">On</span>
+            {status.enabledAt && ` Since ${format(new Date(status.enabledAt), 'dd MMM yyyy')}. `}
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+            {status.required && ' Required for your role.'}
+          </p>
+          {action ? (
+            <div className="mfa-settings-row">
+              {action === 'disable' && (
+                <input
+                  type="password"
+                  placeholder="Current password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              )}
+              <input
+                type="text"
+                autoComplete="one-time-code"
+                placeholder="Authenticator or recovery code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+              <button
+                type="button"
+                className={action === 'disable' ? 'mfa-settings-danger' : 'mfa-settings-primary'}
+                disabled={
+                  code.trim().length < 6 ||
+                  (action === 'disable' && !password) ||
+                  regenerateMutation.isLoading ||
+                  disableMutation.isLoading
+                }
+                onClick={submitAction}
+              >
+                {action === 'disable' ? 'Turn Off' : 'Generate Codes'}
+              </button>
+              <button type="button" className="mfa-settings-secondary" onClick={resetForm}>
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <div className="mfa-settings-row">
+              <button type="button" className="mfa-settings-secondary" onClick={() => setAction('regenerate')}>
+                New Recovery Codes
+              </button>
+              {!status.required && (
+                <button type="button" className="mfa-settings-secondary" onClick={() => setAction('disable')}>
+                  Turn Off
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          <p className="mfa-settings-hint">
+            Ask for a code from an authenticator app when you sign in, in addition to your password.
+            {status?.required && ' Your role requires this; you will be asked to set it up at your next sign-in.'}
+          </p>
+          <div className="mfa-settings-row">
+            <button
+              type="button"
+              className="mfa-settings-primary"
+              disabled={setupMutation.isLoading}
+              onClick={() => setupMutation.mutate()}
+            >
+              {setupMutation.isLoading ? 'Starting...' : 'Set Up Two-Factor'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {isSuperAdmin && policy && (
+        <div className="mfa-settings-policy">
+          <h4>Required for Roles</h4>
+          <p className="mfa-settings-hint">
+            Users in these roles must set up two-factor authentication before they can sign in, and cannot turn it off.
+          </p>
+          <div className="mfa-settings-row">
+            {policy.roles.map((role) => (
+              <label key={role} className="mfa-settings-role">
+                <input type="checkbox" checked={requiredRoles.includes(role)} onChange={() => toggleRole(role)} />
+                {ROLE_LABELS[role] || role}
+              </label>
+            ))}
+            <button
+              type="button"
+              className="mfa-settings-primary"
+              disabled={!policyChanged || policyMutation.isLoading}
+              onClick={() => policyMutation.mutate(requiredRoles)}
+            >
+              {policyMutation.isLoading ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MfaSettings;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { useToast } from '../contexts/ToastContext';
+import * as notificationService from '../services/notificationService';
+import './NotificationPreferences.css';
+
+const DELIVERY_OPTIONS: Array<{ value: notificationService.NotificationDelivery; label: string }> = [
+  { value: 'immediate', label: 'Email immediately' },
+  { value: 'digest', label: 'Daily digest' },
+  { value: 'in_app', label: 'In-app only' },
+  { value: 'off', label: 'Off' }
+];
+
+/**
+ * Per-event delivery choices; each change is saved as soon as it is made
+ */
+const NotificationPreferences: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+
+  const { data: preferences = [], isLoading } = useQuery(
+    'notificationPreferences',
+    notificationService.getPreferences,
+    { retry: false }
+  );
+
+  const updateMutation = useMutation(notificationService.updatePreferences, {
+    onSuccess: (updated) => {
+      queryClient.setQueryData('notificationPreferences', updated);
+      showSuccess('Notification preferences updated');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to update notification preferences');
+    }
+  });
+
+  return (
+    <div className="employee-modal-section notification-preferences">
+      <h3>Notification Preferences</h3>
+      {isLoading ? (
+        <div className="notification-preferences-loading">Loading...</div>
+      ) : (
+        <table className="notification-preferences-table">
+          <tbody>
+            {preferences.map((preference) => (
+              <tr key={preference.eventType}>
+                <td>{preference.label}</td>
+                <td className="notification-preferences-select">
+                  <select
+                    value={preference.delivery}
+                    disabled={updateMutation.isLoading}
+                    onChange={(e) =>
+                      updateMutation.mutate([
+                        {
+                          eventType: preference.eventType,
+                          delivery: e.target.value as notificationService.NotificationDelivery
+                        }
+                      ])
+                    }
+                  >
+                    {DELIVERY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="notification-preferences-hint">
+        Daily digests are emailed at 6:00 PM. Security alerts such as password changes are always emailed.
+      </p>
+    </div>
+  );
+};
+
+export default NotificationPreferences;
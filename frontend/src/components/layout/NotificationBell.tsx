@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState, memo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { FaBell } from 'react-icons/fa';
+import * as notificationService from '../../services/notificationService';
+import './NotificationBell.css';
+
+const NotificationBell: React.FC = memo(() => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const { data: unreadCount = 0 } = useQuery(
+    'notificationUnreadCount',
+    notificationService.getUnreadCount,
+    {
+      retry: false,
+      refetchInterval: 60 * 1000,
+      refetchOnWindowFocus: true
+    }
+  );
+
+  const { data, isLoading } = useQuery(
+    ['notifications', unreadOnly],
+    () => notificationService.getNotifications(1, 30, unreadOnly),
+    {
+      enabled: isOpen,
+      retry: false,
+      staleTime: 0
+    }
+  );
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const refreshNotifications = () => {
+    queryClient.invalidateQueries('notifications');
+    queryClient.invalidateQueries('notificationUnreadCount');
+  };
+
+  const markAsReadMutation = useMutation(notificationService.markAsRead, {
+    onSuccess: refreshNotifications
+  });
+
+  const markAllAsReadMutation = useMutation(notificationService.markAllAsRead, {
+    onSuccess: refreshNotifications
+  });
+
+  const handleNotificationClick = (notification: notificationService.Notification) => {
+    if (!notification.isRead) {
+      markAsReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setIsOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const notifications = data?.notifications || [];
+
+  return (
+    <div className="notification-bell" ref={panelRef}>
+      <div className="nav-item-wrapper" data-tooltip="Notifications">
+        <div className={`nav-item ${isOpen ? 'active' : ''}`} onClick={() => setIsOpen((prev) => !prev)}>
+          <span className="nav-icon"><FaBell /></span>
+          {unreadCount > 0 && (
+            <span className="notification-badge">{unreadCount > 99 ? '99+' : unreadCount}</span>
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="notification-panel">
+          <div className="notification-panel-header">
+            <h3>Notifications</h3>
+            <button
+              className="notification-mark-all"
+              onClick={() => markAllAsReadMutation.mutate()}
+              disabled={unreadCount === 0 || markAllAsReadMutation.isLoading}
+            >
+              Mark all as read
+            </button>
+          </div>
+          <div className="notification-filter">
+            <button className={!unreadOnly ? 'active' : ''} onClick={() => setUnreadOnly(false)}>All</button>
+            <button className={unreadOnly ? 'active' : ''} onClick={() => setUnreadOnly(true)}>
+              Unread{unreadCount > 0 ? ` (${unreadCount})` : ''}
+            </button>
+          </div>
+          <div className="notification-list">
+            {isLoading ? (
+              <div className="notification-empty">Loading...</div>
+            ) : notifications.length === 0 ? (
+              <div className="notification-empty">
+                {unreadOnly ? "You're all caught up." : 'No notifications yet.'}
+              </div>
+            ) : (
+              notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`notification-item ${notification.isRead ? '' : 'unread'} ${notification.link ? 'clickable' : ''}`}
+                  onClick={() => handleNotificationClick(notification)}
+                >
+                  {!notification.isRead && <span className="notification-dot" />}
+                  <div className="notification-body">
+                    <div className="notification-title">{notification.title}</div>
+                    <div className="notification-message">{notification.message}</div>
+                    <div className="notification-time">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+NotificationBell.displayName = 'NotificationBell';
+
+export default NotificationBell;
@@ -1,13 +1,14 @@
 import React, { useMemo, useState, useCallback, memo, useRef, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { FaFileAlt, FaCheckCircle, FaUsers, FaUser, FaSignOutAlt, FaCalendarAlt, FaBook, FaChartPie, FaCog, FaBriefcase, FaClock, FaClipboardCheck } from 'react-icons/fa';
+import { FaFileAlt, FaCheckCircle, FaUsers, FaUser, FaSignOutAlt, FaCalendarAlt, FaBook, FaChartPie, FaCog, FaBriefcase, FaClock, FaClipboardCheck, FaHistory, FaBusinessTime, FaMoneyCheckAlt, FaUserMinus, FaCalendarWeek, FaCalendarDay, FaLock, FaUserShield } from 'react-icons/fa';
+import NotificationBell from './NotificationBell';
 import './Sidebar.css';
 
 const Sidebar: React.FC = memo(() => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const [showUserMenu, setShowUserMenu] = useState(false);
   const userMenuRef = useRef<HTMLDivElement>(null);
 
@@ -41,61 +42,33 @@ const Sidebar: React.FC = memo(() => {
   const availableRoutes = useMemo(() => {
     if (!user) return [];
 
-    const routes: Array<{ path: string; icon: React.ReactNode; label: string }> = [];
-
-    // Dashboard - For Super Admin and HR
-    if (user.role === 'super_admin' || user.role === 'hr') {
-      routes.push({ path: '/dashboard', icon: <FaChartPie />, label: 'Dashboard' });
-    }
-
-    // Leave Apply available to everyone except super_admin
-    if (user.role !== 'super_admin') {
-      routes.push({ path: '/leave-apply', icon: <FaFileAlt />, label: 'Apply Leave' });
-    }
-
-    // Manager, HR, Super Admin can access Leave Approval
-    if (['manager', 'hr', 'super_admin'].includes(user.role)) {
-      routes.push({ path: '/leave-approval', icon: <FaCheckCircle />, label: 'Leave Approval' });
-    }
-
-    // HR and Super Admin can access Employee Management
-    if (['hr', 'super_admin'].includes(user.role)) {
-      routes.push({ path: '/employee-management', icon: <FaUsers />, label: 'Employee Management' });
-    }
-
-    // HR and Super Admin can access Holiday Management
-    if (['hr', 'super_admin'].includes(user.role)) {
-      routes.push({ path: '/holiday-management', icon: <FaCalendarAlt />, label: 'Holiday Management' });
-    }
-
-    // Leave Rules - For Super Admin only
-    if (user.role === 'super_admin') {
-      routes.push({ path: '/leave-rules', icon: <FaCog />, label: 'Leave Rules' });
-    }
-
-    // View Policies - Available to all
-    routes.push({ path: '/view-policies', icon: <FaBook />, label: 'View Policies' });
-
-    // Project Management
-    if (['manager', 'hr', 'super_admin', 'employee', 'intern'].includes(user.role)) {
-      routes.push({ path: '/project-management', icon: <FaBriefcase />, label: 'Projects' });
-    }
-
-    // Timesheet
-    if (['manager', 'hr', 'employee', 'intern'].includes(user.role)) {
-      routes.push({ path: '/timesheets', icon: <FaClock />, label: 'Timesheets' });
-    }
-
-    // Timesheet Approval
-    if (['manager', 'hr', 'super_admin'].includes(user.role)) {
-      routes.push({ path: '/timesheet/approvals', icon: <FaClipboardCheck />, label: 'Timesheet Approvals' });
-    }
-
-    // Profile is always available
-    routes.push({ path: '/profile', icon: <FaUser />, label: 'Profile' });
-
-    return routes;
-  }, [user]);
+    // Each entry shows when the user holds its permission (any one of a list); none means always shown
+    const items: Array<{ path: string; icon: React.ReactNode; label: string; permission?: string | string[] }> = [
+      { path: '/dashboard', icon: <FaChartPie />, label: 'Dashboard', permission: 'dashboard.view' },
+      { path: '/leave-apply', icon: <FaFileAlt />, label: 'Apply Leave', permission: 'leave.apply' },
+      // Comp-off claims for leave applicants, approvals for managers
+      { path: '/comp-off', icon: <FaBusinessTime />, label: 'Comp-Off', permission: ['leave.apply', 'leave.approve'] },
+      { path: '/leave-approval', icon: <FaCheckCircle />, label: 'Leave Approval', permission: 'leave.approve' },
+      { path: '/team-calendar', icon: <FaCalendarDay />, label: 'Team Calendar', permission: 'team.view' },
+      { path: '/employee-management', icon: <FaUsers />, label: 'Employee Management', permission: 'employee.manage' },
+      { path: '/holiday-management', icon: <FaCalendarAlt />, label: 'Holiday Management', permission: 'holiday.manage' },
+      { path: '/work-schedules', icon: <FaCalendarWeek />, label: 'Work Schedules', permission: 'schedule.manage' },
+      { path: '/leave-encashment', icon: <FaMoneyCheckAlt />, label: 'Leave Encashment', permission: 'leave.manage' },
+      { path: '/exit-settlements', icon: <FaUserMinus />, label: 'Exit Settlement', permission: 'employee.exit' },
+      { path: '/leave-rules', icon: <FaCog />, label: 'Leave Rules', permission: 'leave.rules' },
+      { path: '/roles-permissions', icon: <FaUserShield />, label: 'Roles & Permissions', permission: 'role.manage' },
+      { path: '/audit-log', icon: <FaHistory />, label: 'Audit Log', permission: 'audit.view' },
+      { path: '/view-policies', icon: <FaBook />, label: 'View Policies' },
+      { path: '/project-management', icon: <FaBriefcase />, label: 'Projects' },
+      { path: '/timesheets', icon: <FaClock />, label: 'Timesheets', permission: 'timesheet.log' },
+      { path: '/timesheet/approvals', icon: <FaClipboardCheck />, label: 'Timesheet Approvals', permission: 'timesheet.approve' },
+      // Timesheet period close and reopen requests
+      { path: '/timesheet/periods', icon: <FaLock />, label: 'Timesheet Periods', permission: ['timesheet.approve', 'timesheet.period.manage'] },
+      { path: '/profile', icon: <FaUser />, label: 'Profile' }
+    ];
+
+    return items.filter((item) => !item.permission || hasPermission(item.permission));
+  }, [user, hasPermission]);
 
   const userInitial = useMemo(() => {
     if (!user) return '';
@@ -123,6 +96,8 @@ const Sidebar: React.FC = memo(() => {
         ))}
       </div>
 
+      {user && <NotificationBell />}
+
       <div className="sidebar-user" ref={userMenuRef}>
         {user && (
           <div className="user-toggle" onClick={() => setShowUserMenu((prev) => !prev)}>
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { timesheetService, TimesheetEntry, EntryRevision } from '../../services/timesheetService';
+import './EntryChangesPanel.css';
+
+interface EntryChangesPanelProps {
+    entry: TimesheetEntry;
+}
+
+const formatTimestamp = (value: string) =>
+    new Date(value).toLocaleString('en-GB', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * What a resubmitted entry changed since it was rejected, with its full edit history on demand
+ */
+export const EntryChangesPanel: React.FC<EntryChangesPanelProps> = ({ entry }) => {
+    const [revisions, setRevisions] = useState<EntryRevision[] | null>(null);
+    const [loadingHistory, setLoadingHistory] = useState(false);
+    const [historyError, setHistoryError] = useState('');
+    const info = entry.changes_since_rejection;
+    if (!info) return null;
+
+    const loadHistory = async () => {
+        setLoadingHistory(true);
+        setHistoryError('');
+        try {
+            setRevisions(await timesheetService.getEntryRevisions(entry.id!));
+        } catch (err: any) {
+            setHistoryError(err.response?.data?.error || 'Failed to load history');
+        } finally {
+            setLoadingHistory(false);
+        }
+    };
+
+    return (
+        <div className="entry-changes-panel">
+            <div className="entry-changes-meta">
+                Rejected on {formatTimestamp(info.rejected_at)}
+                {info.rejection_reason && <> &middot; Reason: <em>{info.rejection_reason}</em></>}
+            </div>
+
+            {info.changes.length === 0 ? (
+                <div className="entry-changes-none">Resubmitted without changes.</div>
+            ) : (
+                <table className="entry-changes-table">
+                    <thead>
+                        <tr>
+                            <th>Field</th>
+                            <th>When Rejected</th>
+                            <th>Now</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {info.changes.map(change => (
+                            <tr key={change.field}>
+                                <td className="entry-changes-field">{change.field}</td>
+                                <td className="entry-changes-before">{change.before || '—'}</td>
+                                <td className="entry-changes-after">{change.after || '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {revisions === null ? (
+                <button className="entry-changes-link" onClick={loadHistory} disabled={loadingHistory}>
+                    {loadingHistory ? 'Loading...' : 'Show full history'}
+                </button>
+            ) : (
+                <ol className="entry-changes-history">
+                    {revisions.map(revision => (
+                        <li key={revision.id}>
+                            <strong>{revision.change_type === 'rejected' ? 'Rejected' : 'Before edit'}</strong>
+                            {' '}{formatTimestamp(revision.changed_at)}
+                            {revision.changed_by_name && <> by {revision.changed_by_name}</>}
+                            <div>
+                                {revision.task_name || '—'} &middot; {revision.log_date} &middot; {Number(revision.duration).toFixed(2)} hrs &middot; {revision.description}
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+            )}
+            {historyError && <div className="entry-changes-error">{historyError}</div>}
+        </div>
+    );
+};
@@ -1,12 +1,15 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { User } from '../services/authService';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { LoginResponse, MfaChallenge, User } from '../services/authService';
 import * as authService from '../services/authService';
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<User>;
+  login: (email: string, password: string) => Promise<User | MfaChallenge>;
+  completeMfaLogin: (mfaToken: string, code: string) => Promise<User>;
+  completeMfaSetup: (mfaToken: string, code: string) => Promise<{ user: User; recoveryCodes: string[] }>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  hasPermission: (permission: string | string[]) => boolean;
   isAuthenticated: boolean;
   loading: boolean;
   mustChangePassword: boolean;
@@ -103,8 +106,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => window.removeEventListener('auth:unauthorized', handleUnauthorized);
   }, [isLoggingOut]);
 
-  const login = async (email: string, password: string): Promise<User> => {
-    const response = await authService.login({ email, password });
+  const applySession = (response: LoginResponse): User => {
     localStorage.setItem('accessToken', response.accessToken);
     localStorage.setItem('user', JSON.stringify(response.user));
     setUser(response.user);
@@ -117,6 +119,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return response.user;
   };
 
+  const login = async (email: string, password: string): Promise<User | MfaChallenge> => {
+    const response = await authService.login({ email, password });
+    // A second factor is still needed; no session until it is provided
+    if ('mfa' in response) return response;
+    return applySession(response);
+  };
+
+  const completeMfaLogin = async (mfaToken: string, code: string): Promise<User> => {
+    const response = await authService.verifyMfaLogin(mfaToken, code);
+    return applySession(response);
+  };
+
+  const completeMfaSetup = async (mfaToken: string, code: string) => {
+    const { recoveryCodes, ...response } = await authService.confirmMfaLoginSetup(mfaToken, code);
+    return { user: applySession(response), recoveryCodes };
+  };
+
   const logout = async () => {
     setIsLoggingOut(true);
     // Notify other tabs immediately
@@ -144,13 +163,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // True when the user holds the permission, or any one of a list of them
+  const hasPermission = useCallback((permission: string | string[]) => {
+    const granted = user?.permissions || [];
+    const required = Array.isArray(permission) ? permission : [permission];
+    return required.some((p) => granted.includes(p));
+  }, [user]);
+
   return (
     <AuthContext.Provider
       value={{
         user,
         login,
+        completeMfaLogin,
+        completeMfaSetup,
         logout,
         refreshUser,
+        hasPermission,
         isAuthenticated: !!user,
         loading,
         mustChangePassword: !!user?.mustChangePassword
@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import { useQuery } from 'react-query';
+import { format } from 'date-fns';
+import { FaChevronDown, FaChevronRight, FaFileExcel } from 'react-icons/fa';
+import AppLayout from '../components/layout/AppLayout';
+import { DatePicker } from '../components/ui/date-picker';
+import EmptyState from '../components/common/EmptyState';
+import { useToast } from '../contexts/ToastContext';
+import * as auditService from '../services/auditService';
+import * as employeeService from '../services/employeeService';
+import './AuditLogPage.css';
+
+const PAGE_SIZE = 20;
+
+const emptyFilters = {
+    actorId: '',
+    entityType: '',
+    action: '',
+    startDate: '',
+    endDate: ''
+};
+
+const formatLabel = (value: string) =>
+    value.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, (c) => c.toUpperCase());
+
+const formatValue = (value: any) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+const ChangeDetails: React.FC<{ log: auditService.AuditLog }> = ({ log }) => {
+    const keys = Array.from(new Set([
+        ...Object.keys(log.oldValues || {}),
+        ...Object.keys(log.newValues || {})
+    ]));
+
+    if (keys.length === 0) {
+        return <div className="al-no-changes">No field values were recorded for this entry.</div>;
+    }
+
+    return (
+        <table className="al-diff-table">
+            <thead>
+                <tr>
+                    <th>Field</th>
+                    <th>Before</th>
+                    <th>After</th>
+                </tr>
+            </thead>
+            <tbody>
+                {keys.map((key) => (
+                    <tr key={key}>
+                        <td className="al-diff-field">{key}</td>
+                        <td className="al-diff-old">{formatValue(log.oldValues?.[key])}</td>
+                        <td className="al-diff-new">{formatValue(log.newValues?.[key])}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+const AuditLogPage: React.FC = () => {
+    const { showSuccess, showError } = useToast();
+    const [filters, setFilters] = useState(emptyFilters);
+    const [page, setPage] = useState(1);
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [resetKey, setResetKey] = useState(0);
+
+    const appliedFilters: auditService.AuditLogFilters = {
+        actorId: filters.actorId ? parseInt(filters.actorId, 10) : undefined,
+        entityType: filters.entityType || undefined,
+        action: filters.action || undefined,
+        startDate: filters.startDate || undefined,
+        endDate: filters.endDate || undefined
+    };
+
+    const { data: filterOptions } = useQuery('auditFilterOptions', auditService.getAuditFilterOptions, {
+        retry: false,
+        staleTime: 60 * 1000
+    });
+
+    const { data: employeesData } = useQuery(
+        ['auditActors'],
+        () => employeeService.getEmployees(1, 1000, undefined, undefined, undefined, undefined, 'name', 'asc'),
+        { retry: false, staleTime: 5 * 60 * 1000 }
+    );
+
+    const { data, isLoading, isFetching } = useQuery(
+        ['auditLogs', appliedFilters, page],
+        () => auditService.getAuditLogs(appliedFilters, page, PAGE_SIZE),
+        { retry: false, keepPreviousData: true }
+    );
+
+    const logs = data?.logs || [];
+    const pagination = data?.pagination;
+
+    const updateFilter = (key: keyof typeof emptyFilters, value: string) => {
+        setFilters((prev) => ({ ...prev, [key]: value }));
+        setPage(1);
+        setExpandedId(null);
+    };
+
+    const handleReset = () => {
+        setFilters(emptyFilters);
+        setPage(1);
+        setExpandedId(null);
+        setResetKey((prev) => prev + 1);
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const blob = await auditService.exportAuditLogs(appliedFilters);
+
+            const url = window.URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `audit-log-${new Date().toISOString().split('T')[0]}.xlsx`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            window.URL.revokeObjectURL(url);
+
+            showSuccess('Audit log exported successfully');
+        } catch (error: any) {
+            console.error('Failed to export audit log:', error);
+            showError(error.response?.data?.error?.message || 'Failed to export audit log');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <AppLayout>
+            <div className="audit-log-page">
+                <div className="al-header">
+                    <h1 className="page-title">Audit Log</h1>
+                    <button
+                        className="al-export-button"
+                        onClick={handleExport}
+                        disabled={isExporting || logs.length === 0}
+                    >
+                        <FaFileExcel /> {isExporting ? 'Exporting...' : 'Export'}
+                    </button>
+                </div>
+
+                <div className="al-filters">
+                    <div className="al-filter-group">
+                        <label>Performed By</label>
+                        <select value={filters.actorId} onChange={(e) => updateFilter('actorId', e.target.value)}>
+                            <option value="">All users</option>
+                            {(employeesData?.employees || []).map((employee) => (
+                                <option key={employee.id} value={employee.id}>
+                                    {employee.name} ({employee.empId})
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="al-filter-group">
+                        <label>Entity</label>
+                        <select value={filters.entityType} onChange={(e) => updateFilter('entityType', e.target.value)}>
+                            <option value="">All entities</option>
+                            {(filterOptions?.entityTypes || []).map((entityType) => (
+                                <option key={entityType} value={entityType}>{formatLabel(entityType)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="al-filter-group">
+                        <label>Action</label>
+                        <select value={filters.action} onChange={(e) => updateFilter('action', e.target.value)}>
+                            <option value="">All actions</option>
+                            {(filterOptions?.actions || []).map((action) => (
+                                <option key={action} value={action}>{formatLabel(action)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="al-filter-group al-filter-date">
+                        <label>From</label>
+                        <DatePicker
+                            key={`start-${resetKey}`}
+                            value={filters.startDate}
+                            onChange={(date) => updateFilter('startDate', date)}
+                            max={filters.endDate || undefined}
+                            placeholder="DD - MM - YYYY"
+                        />
+                    </div>
+                    <div className="al-filter-group al-filter-date">
+                        <label>To</label>
+                        <DatePicker
+                            key={`end-${resetKey}`}
+                            value={filters.endDate}
+                            onChange={(date) => updateFilter('endDate', date)}
+                            min={filters.startDate || undefined}
+                            placeholder="DD - MM - YYYY"
+                        />
+                    </div>
+                    <button className="al-reset-button" onClick={handleReset}>
+                        Clear
+                    </button>
+                </div>
+
+                <div className={`al-table-container ${isFetching && !isLoading ? 'fetching' : ''}`}>
+                    {isLoading ? (
+                        <div className="al-loading">Loading audit log...</div>
+                    ) : logs.length === 0 ? (
+                        <EmptyState
+                            title="No Audit Entries"
+                            description="No changes match the selected filters."
+                        />
+                    ) : (
+                        <table className="al-table">
+                            <thead>
+                                <tr>
+                                    <th className="al-col-toggle"></th>
+                                    <th>Date &amp; Time</th>
+                                    <th>Performed By</th>
+                                    <th>Action</th>
+                                    <th>Entity</th>
+                                    <th>IP Address</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {logs.map((log) => (
+                                    <React.Fragment key={log.id}>
+                                        <tr
+                                            className={`al-row ${expandedId === log.id ? 'expanded' : ''}`}
+                                            onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                                        >
+                                            <td className="al-col-toggle">
+                                                {expandedId === log.id ? <FaChevronDown /> : <FaChevronRight />}
+                                            </td>
+                                            <td>{format(new Date(log.createdAt), 'dd MMM yyyy, hh:mm a')}</td>
+                                            <td>
+                                                {log.actorName
+                                                    ? `${log.actorName}${log.actorEmpId ? ` (${log.actorEmpId})` : ''}`
+                                                    : 'System'}
+                                            </td>
+                                            <td><span className="al-action-badge">{formatLabel(log.action)}</span></td>
+                                            <td>
+                                                {formatLabel(log.entityType)}
+                                                {log.entityId !== null && <span className="al-entity-id"> #{log.entityId}</span>}
+                                            </td>
+                                            <td>{log.ipAddress || '—'}</td>
+                                        </tr>
+                                        {expandedId === log.id && (
+                                            <tr className="al-details-row">
+                                                <td colSpan={6}>
+                                                    <ChangeDetails log={log} />
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {pagination && pagination.totalPages > 1 && (
+                    <div className="al-pagination">
+                        <button disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                            Previous
+                        </button>
+                        <span>
+                            Page {pagination.page} of {pagination.totalPages} ({pagination.total} entries)
+                        </span>
+                        <button disabled={page >= pagination.totalPages} onClick={() => setPage(page + 1)}>
+                            Next
+                        </button>
+                    </div>
+                )}
+            </div>
+        </AppLayout>
+    );
+};
+
+export default AuditLogPage;
@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import AppLayout from '../components/layout/AppLayout';
+import { DatePicker } from '../components/ui/date-picker';
+import EmptyState from '../components/common/EmptyState';
+import RejectCommentDialog from '../components/RejectCommentDialog';
+import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import * as compOffService from '../services/compOffService';
+import { CompOffClaim } from '../services/compOffService';
+import './CompOffPage.css';
+
+const STATUS_LABELS: Record<compOffService.CompOffClaimStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+  expired: 'Expired'
+};
+
+const formatDate = (date: string | null) => (date ? format(new Date(`${date}T00:00:00`), 'dd MMM yyyy') : '-');
+
+const emptyForm = { workDate: '', reason: '' };
+
+/**
+ * Comp-off claims: employees claim time back for a weekend or holiday they worked,
+ * and reporting managers (or their delegates) approve the claims of their team.
+ * Approved days land in the Compensatory Off balance used from Apply Leave.
+ */
+const CompOffPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { showSuccess, showError } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [rejectTarget, setRejectTarget] = useState<CompOffClaim | null>(null);
+
+  const canClaim = !!user && user.role !== 'super_admin';
+  const canApprove = !!user && ['manager', 'hr', 'super_admin'].includes(user.role);
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const { data: myData, isLoading: myLoading } = useQuery('compOffClaims', compOffService.getMyClaims, {
+    enabled: canClaim,
+    retry: false
+  });
+  const { data: pendingClaims = [], isLoading: pendingLoading } = useQuery(
+    'pendingCompOffClaims',
+    compOffService.getPendingClaims,
+    { enabled: canApprove, retry: false }
+  );
+
+  const rules = myData?.rules;
+  const earliestClaimDate = rules
+    ? format(new Date(Date.now() - rules.claimWindowDays * 24 * 60 * 60 * 1000), 'yyyy-MM-dd')
+    : undefined;
+
+  const createMutation = useMutation(compOffService.createClaim, {
+    onSuccess: () => {
+      queryClient.invalidateQueries('compOffClaims');
+      setForm(emptyForm);
+      showSuccess('Comp-off claim submitted');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to submit comp-off claim');
+    }
+  });
+
+  const cancelMutation = useMutation(compOffService.cancelClaim, {
+    onSuccess: () => {
+      queryClient.invalidateQueries('compOffClaims');
+      showSuccess('Comp-off claim cancelled');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to cancel comp-off claim');
+    }
+  });
+
+  const approveMutation = useMutation((id: number) => compOffService.approveClaim(id), {
+    onSuccess: () => {
+      queryClient.invalidateQueries('pendingCompOffClaims');
+      showSuccess('Comp-off approved');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to approve comp-off');
+    }
+  });
+
+  const rejectMutation = useMutation(
+    ({ id, comment }: { id: number; comment: string }) => compOffService.rejectClaim(id, comment),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('pendingCompOffClaims');
+        setRejectTarget(null);
+        showSuccess('Comp-off rejected');
+      },
+      onError: (error: any) => {
+        showError(error.response?.data?.error?.message || 'Failed to reject comp-off');
+      }
+    }
+  );
+
+  const claims = myData?.claims || [];
+
+  return (
+    <AppLayout>
+      <div className="comp-off-page">
+        <h1 className="page-title">Comp-Off</h1>
+
+        {canClaim && (
+          <div className="co-card">
+            <h2>Claim Comp-Off</h2>
+            {rules && (
+              <p className="co-hint">
+                Claim a weekend or holiday you worked within {rules.claimWindowDays} days. Approved timesheet hours on
+                that day decide the credit: {rules.fullDayHours}+ hours earns a full day, {rules.halfDayHours}+ hours a
+                half day. Approved comp-off is valid for {rules.validityDays} days from the day worked.
+              </p>
+            )}
+            <div className="co-form">
+              <DatePicker
+                value={form.workDate}
+                onChange={(date) => setForm({ ...form, workDate: date })}
+                min={earliestClaimDate}
+                max={today}
+                placeholder="Day worked"
+              />
+              <input
+                type="text"
+                placeholder="What did you work on?"
+                maxLength={500}
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              />
+              <button
+                className="co-primary-btn"
+                disabled={!form.workDate || !form.reason.trim() || createMutation.isLoading}
+                onClick={() => createMutation.mutate({ workDate: form.workDate, reason: form.reason.trim() })}
+              >
+                {createMutation.isLoading ? 'Submitting...' : 'Submit Claim'}
+              </button>
+            </div>
+
+            {myLoading ? (
+              <div className="co-hint">Loading...</div>
+            ) : claims.length === 0 ? (
+              <EmptyState size="small" title="No Comp-Off Claims" description="Claims you raise will appear here." />
+            ) : (
+              <table className="co-table">
+                <thead>
+                  <tr>
+                    <th>Worked On</th>
+                    <th>Hours</th>
+                    <th>Days</th>
+                    <th>Reason</th>
+                    <th>Status</th>
+                    <th>Valid Until</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {claims.map((claim) => (
+                    <tr key={claim.id}>
+                      <td>
+                        {formatDate(claim.workDate)}
+                        <div className="co-subtext">{claim.dayKind}</div>
+                      </td>
+                      <td>{claim.hoursWorked}</td>
+                      <td>{claim.days}</td>
+                      <td>
+                        {claim.reason}
+                        {claim.approverComment && <div className="co-subtext">{claim.approverComment}</div>}
+                      </td>
+                      <td>
+                        <span className={`co-status co-status-${claim.status}`}>{STATUS_LABELS[claim.status]}</span>
+                        {claim.status === 'expired' && !!claim.lapsedDays && (
+                          <div className="co-subtext">{claim.lapsedDays} day(s) lapsed</div>
+                        )}
+                      </td>
+                      <td>{formatDate(claim.expiresOn)}</td>
+                      <td className="co-actions">
+                        {claim.status === 'pending' && (
+                          <button
+                            className="co-danger-btn"
+                            disabled={cancelMutation.isLoading}
+                            onClick={() => cancelMutation.mutate(claim.id)}
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {canApprove && (
+          <div className="co-card">
+            <h2>Pending Approvals</h2>
+            {pendingLoading ? (
+              <div className="co-hint">Loading...</div>
+            ) : pendingClaims.length === 0 ? (
+              <EmptyState size="small" title="No Pending Claims" description="Comp-off claims from your team will appear here." />
+            ) : (
+              <table className="co-table">
+                <thead>
+                  <tr>
+                    <th>Employee</th>
+                    <th>Worked On</th>
+                    <th>Hours</th>
+                    <th>Days</th>
+                    <th>Reason</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pendingClaims.map((claim) => (
+                    <tr key={claim.id}>
+                      <td>
+                        {claim.employeeName} ({claim.empId})
+                        {claim.delegatedFrom && <div className="co-subtext">On behalf of {claim.delegatedFrom}</div>}
+                      </td>
+                      <td>
+                        {formatDate(claim.workDate)}
+                        <div className="co-subtext">{claim.dayKind}</div>
+                      </td>
+                      <td>{claim.hoursWorked}</td>
+                      <td>{claim.days}</td>
+                      <td>{claim.reason}</td>
+                      <td className="co-actions">
+                        <button
+                          className="co-primary-btn"
+                          disabled={approveMutation.isLoading}
+                          onClick={() => approveMutation.mutate(claim.id)}
+                        >
+                          Approve
+                        </button>
+                        <button className="co-danger-btn" onClick={() => setRejectTarget(claim)}>
+                          Reject
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        <RejectCommentDialog
+          isOpen={!!rejectTarget}
+          title="Reject Comp-Off"
+          message={`Reject the comp-off claim of ${rejectTarget?.employeeName} for ${formatDate(rejectTarget?.workDate || null)}?`}
+          confirmText="Reject"
+          onConfirm={(comment) => rejectTarget && rejectMutation.mutate({ id: rejectTarget.id, comment })}
+          onCancel={() => setRejectTarget(null)}
+          isLoading={rejectMutation.isLoading}
+        />
+      </div>
+    </AppLayout>
+  );
+};
+
+export default CompOffPage;
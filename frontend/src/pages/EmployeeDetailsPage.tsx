@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
 import AppLayout from '../components/layout/AppLayout';
+import ConfirmationDialog from '../components/ConfirmationDialog';
 import SkeletonLoader from '../components/common/SkeletonLoader';
 import { useToast } from '../contexts/ToastContext';
 import { DatePicker } from '../components/ui/date-picker';
@@ -14,6 +15,7 @@ import {
 import { Button } from '../components/ui/button';
 import { ChevronDown, ArrowLeft } from 'lucide-react';
 import * as employeeService from '../services/employeeService';
+import * as mfaService from '../services/mfaService';
 import { getReportingManagers } from '../services/profileService';
 import { format } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
@@ -151,6 +153,10 @@ const EmployeeDetailsPage: React.FC = () => {
   const [initialData, setInitialData] = useState<any>(emptyEmployeeForm);
   const [formErrors, setFormErrors] = useState<Record<string, boolean>>({});
   const [isSameAddress, setIsSameAddress] = useState(false);
+  const [mfaEnabled, setMfaEnabled] = useState(false);
+  const [resetMfaConfirmOpen, setResetMfaConfirmOpen] = useState(false);
+  const [unlockConfirmOpen, setUnlockConfirmOpen] = useState(false);
+  const [revokeSessionsConfirmOpen, setRevokeSessionsConfirmOpen] = useState(false);
   const [managerSearch, setManagerSearch] = useState('');
   const [appliedManagerSearch, setAppliedManagerSearch] = useState<string | undefined>(undefined);
 
@@ -224,6 +230,7 @@ const EmployeeDetailsPage: React.FC = () => {
       setEmployeeData(fetchedEmployee);
       setInitialData(fetchedEmployee);
       setIsSameAddress(same);
+      setMfaEnabled(!!employeeDetail.mfa_enabled);
     } catch (error: any) {
       showError(error?.response?.data?.error?.message || 'Failed to load employee details');
       navigate('/employee-management');
@@ -279,6 +286,49 @@ const EmployeeDetailsPage: React.FC = () => {
     }
   );
 
+  const canManageAccess = user?.role === 'super_admin' || user?.role === 'hr';
+  const { data: loginSecurity } = useQuery(
+    ['employeeLoginSecurity', id],
+    () => employeeService.getLoginSecurity(parseInt(id!)),
+    { enabled: !!id && canManageAccess, retry: false }
+  );
+
+  const unlockMutation = useMutation((employeeId: number) => employeeService.unlockAccount(employeeId), {
+    onSuccess: () => {
+      showSuccess('Account unlocked');
+      setUnlockConfirmOpen(false);
+      queryClient.invalidateQueries(['employeeLoginSecurity', id]);
+    },
+    onError: (err: any) => {
+      showError(err.response?.data?.error?.message || 'Failed to unlock account');
+      setUnlockConfirmOpen(false);
+    }
+  });
+
+  const revokeSessionsMutation = useMutation((employeeId: number) => employeeService.revokeSessions(employeeId), {
+    onSuccess: (data) => {
+      showSuccess(data.revoked > 0 ? `Signed out of ${data.revoked} device${data.revoked === 1 ? '' : 's'}` : 'No active sessions to sign out');
+      setRevokeSessionsConfirmOpen(false);
+      queryClient.invalidateQueries(['employeeLoginSecurity', id]);
+    },
+    onError: (err: any) => {
+      showError(err.response?.data?.error?.message || 'Failed to sign out sessions');
+      setRevokeSessionsConfirmOpen(false);
+    }
+  });
+
+  const resetMfaMutation = useMutation((employeeId: number) => mfaService.resetForEmployee(employeeId), {
+    onSuccess: () => {
+      showSuccess('Two-factor authentication reset');
+      setResetMfaConfirmOpen(false);
+      setMfaEnabled(false);
+    },
+    onError: (err: any) => {
+      showError(err.response?.data?.error?.message || 'Failed to reset two-factor authentication');
+      setResetMfaConfirmOpen(false);
+    }
+  });
+
   const handleSameAsCurrentAddress = (checked: boolean) => {
     setIsSameAddress(checked);
     if (checked) {
@@ -540,6 +590,30 @@ const EmployeeDetailsPage: React.FC = () => {
                     Edit Employee
                   </Button>
                 )}
+                {loginSecurity?.lockedUntil &&
+                  (user?.role === 'super_admin' || employeeData.role !== 'super_admin') && (
+                    <Button
+                      variant="outline"
+                      title={`Locked until ${format(new Date(loginSecurity.lockedUntil), 'dd MMM yyyy, hh:mm a')}`}
+                      onClick={() => setUnlockConfirmOpen(true)}
+                    >
+                      Unlock Account
+                    </Button>
+                  )}
+                {!!loginSecurity?.activeSessions &&
+                  (user?.role === 'super_admin' || employeeData.role !== 'super_admin') &&
+                  user?.id !== employeeData.id && (
+                    <Button variant="outline" onClick={() => setRevokeSessionsConfirmOpen(true)}>
+                      Sign Out Everywhere
+                    </Button>
+                  )}
+                {mfaEnabled &&
+                  (user?.role === 'super_admin' || (user?.role === 'hr' && employeeData.role !== 'super_admin')) &&
+                  user.id !== employeeData.id && (
+                    <Button variant="outline" onClick={() => setResetMfaConfirmOpen(true)}>
+                      Reset 2FA
+                    </Button>
+                  )}
               </>
             )}
 
@@ -1276,6 +1350,39 @@ const EmployeeDetailsPage: React.FC = () => {
 
         </div>
       </div>
+      <ConfirmationDialog
+        isOpen={unlockConfirmOpen}
+        title="Unlock Account"
+        message={`${employeeData.firstName} ${employeeData.lastName} is locked out after ${loginSecurity?.recentFailures ?? 0} failed sign-in attempts${loginSecurity?.lockedUntil ? ` until ${format(new Date(loginSecurity.lockedUntil), 'dd MMM yyyy, hh:mm a')}` : ''}. Unlock it now?`}
+        confirmText="Unlock"
+        cancelText="Cancel"
+        type="info"
+        isLoading={unlockMutation.isLoading}
+        onConfirm={() => unlockMutation.mutate(employeeData.id)}
+        onCancel={() => setUnlockConfirmOpen(false)}
+      />
+      <ConfirmationDialog
+        isOpen={revokeSessionsConfirmOpen}
+        title="Sign Out Everywhere"
+        message={`${employeeData.firstName} ${employeeData.lastName} is signed in on ${loginSecurity?.activeSessions ?? 0} device${loginSecurity?.activeSessions === 1 ? '' : 's'}. Sign them out everywhere? They can sign in again unless their account is deactivated.`}
+        confirmText="Sign Out"
+        cancelText="Cancel"
+        type="warning"
+        isLoading={revokeSessionsMutation.isLoading}
+        onConfirm={() => revokeSessionsMutation.mutate(employeeData.id)}
+        onCancel={() => setRevokeSessionsConfirmOpen(false)}
+      />
+      <ConfirmationDialog
+        isOpen={resetMfaConfirmOpen}
+        title="Reset Two-Factor Authentication"
+        message={`Turn off two-factor authentication for ${employeeData.firstName} ${employeeData.lastName}? Their authenticator app and recovery codes stop working, and they will sign in with their password until they set it up again.`}
+        confirmText="Reset"
+        cancelText="Cancel"
+        type="warning"
+        isLoading={resetMfaMutation.isLoading}
+        onConfirm={() => resetMfaMutation.mutate(employeeData.id)}
+        onCancel={() => setResetMfaConfirmOpen(false)}
+      />
     </AppLayout>
   );
 };
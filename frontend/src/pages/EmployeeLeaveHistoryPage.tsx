@@ -88,18 +88,12 @@ const EmployeeLeaveHistoryPage: React.FC = () => {
                         <h3 className="modal-section-heading">Leave Balances</h3>
                         {balancesLoading ? <div>Loading balances...</div> : (
                             <div className="modal-leave-balances">
-                                <div className="modal-balance-card">
-                                    <span className="modal-balance-label">Casual</span>
-                                    <span className="modal-balance-value">{balances?.casual || 0}</span>
-                                </div>
-                                <div className="modal-balance-card">
-                                    <span className="modal-balance-label">Sick</span>
-                                    <span className="modal-balance-value">{balances?.sick || 0}</span>
-                                </div>
-                                <div className="modal-balance-card">
-                                    <span className="modal-balance-label">LOP</span>
-                                    <span className="modal-balance-value">{balances?.lop || 0}</span>
-                                </div>
+                                {Object.entries(balances?.balances || { casual: balances?.casual || 0, sick: balances?.sick || 0, lop: balances?.lop || 0 }).map(([code, value]) => (
+                                    <div className="modal-balance-card" key={code}>
+                                        <span className="modal-balance-label">{code === 'lop' ? 'LOP' : (balances?.policies?.[code]?.name?.replace(/ Leave$/i, '') || code.charAt(0).toUpperCase() + code.slice(1))}</span>
+                                        <span className="modal-balance-value">{value || 0}</span>
+                                    </div>
+                                ))}
                             </div>
                         )}
                     </div>
@@ -165,6 +159,7 @@ const EmployeeLeaveHistoryPage: React.FC = () => {
             <EmployeeLeaveDetailsModal
                 isOpen={isDetailsModalOpen}
                 leaveRequest={selectedLeaveRequest}
+                employeeId={employeeId ?? undefined}
                 onClose={() => setIsDetailsModalOpen(false)}
             />
         </AppLayout>
@@ -1247,18 +1247,12 @@ const EmployeeManagementPage: React.FC = () => {
                         <div className="leave-balances-loading">Loading leave balances...</div>
                       ) : (
                         <div className="modal-leave-balances">
-                          <div className="modal-balance-card">
-                            <span className="modal-balance-label">Casual</span>
-                            <span className="modal-balance-value">{employeeBalances?.casual || 0}</span>
-                          </div>
-                          <div className="modal-balance-card">
-                            <span className="modal-balance-label">Sick</span>
-                            <span className="modal-balance-value">{employeeBalances?.sick || 0}</span>
-                          </div>
-                          <div className="modal-balance-card">
-                            <span className="modal-balance-label">LOP</span>
-                            <span className="modal-balance-value">{employeeBalances?.lop || 0}</span>
-                          </div>
+                          {Object.entries(employeeBalances?.balances || { casual: employeeBalances?.casual || 0, sick: employeeBalances?.sick || 0, lop: employeeBalances?.lop || 0 }).map(([code, value]) => (
+                            <div className="modal-balance-card" key={code}>
+                              <span className="modal-balance-label">{code === 'lop' ? 'LOP' : (employeeBalances?.policies?.[code]?.name?.replace(/ Leave$/i, '') || code.charAt(0).toUpperCase() + code.slice(1))}</span>
+                              <span className="modal-balance-value">{value || 0}</span>
+                            </div>
+                          ))}
                         </div>
                       )}
 
@@ -2475,6 +2469,7 @@ const EmployeeManagementPage: React.FC = () => {
       <EmployeeLeaveDetailsModal
         isOpen={isLeaveDetailsModalOpen}
         leaveRequest={selectedLeaveRequest}
+        employeeId={editingEmployeeId ?? undefined}
         onClose={() => setIsLeaveDetailsModalOpen(false)}
       />
     </AppLayout >
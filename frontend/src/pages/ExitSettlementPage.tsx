@@ -0,0 +1,350 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import { FaFilePdf } from 'react-icons/fa';
+import AppLayout from '../components/layout/AppLayout';
+import { DatePicker } from '../components/ui/date-picker';
+import EmptyState from '../components/common/EmptyState';
+import ConfirmationDialog from '../components/ConfirmationDialog';
+import { useToast } from '../contexts/ToastContext';
+import * as employeeService from '../services/employeeService';
+import * as exitSettlementService from '../services/exitSettlementService';
+import { ExitSettlement, ExitSettlementStatus, ExitStatus } from '../services/exitSettlementService';
+import './ExitSettlementPage.css';
+
+const STATUS_LABELS: Record<ExitSettlementStatus, string> = {
+  scheduled: 'Scheduled',
+  completed: 'Settled',
+  cancelled: 'Cancelled'
+};
+
+const EXIT_LABELS: Record<ExitStatus, string> = {
+  resigned: 'Resigned',
+  terminated: 'Terminated'
+};
+
+const EXITABLE_STATUSES = ['active', 'on_leave', 'on_notice'];
+
+const formatDate = (date: string | null) => (date ? format(new Date(`${date}T00:00:00`), 'dd MMM yyyy') : '-');
+
+const emptyForm = { employeeId: '', lastWorkingDate: '', exitStatus: 'resigned' as ExitStatus, remarks: '' };
+
+/**
+ * Full and final leave settlement: HR schedules an exit with a last working day and
+ * can preview the settlement until then. On that day the settlement is applied and
+ * the account is locked automatically.
+ */
+const ExitSettlementPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [statusFilter, setStatusFilter] = useState<ExitSettlementStatus | ''>('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [cancelTarget, setCancelTarget] = useState<ExitSettlement | null>(null);
+  const [downloadingId, setDownloadingId] = useState<number | null>(null);
+
+  const { data: employeesData } = useQuery(
+    'exitEmployeeOptions',
+    () => employeeService.getEmployees(1, 1000, undefined, undefined, undefined, undefined, 'name', 'asc'),
+    { retry: false, staleTime: 5 * 60 * 1000 }
+  );
+  const employeeOptions = (employeesData?.employees || []).filter(
+    (employee) => employee.role !== 'super_admin' && EXITABLE_STATUSES.includes(employee.status)
+  );
+
+  const { data: settlements = [], isLoading } = useQuery(
+    ['exitSettlements', statusFilter],
+    () => exitSettlementService.getSettlements(statusFilter || undefined),
+    { retry: false }
+  );
+
+  const { data: selected, isLoading: selectedLoading } = useQuery(
+    ['exitSettlement', selectedId],
+    () => exitSettlementService.getSettlement(selectedId!),
+    { enabled: selectedId !== null, retry: false }
+  );
+
+  const scheduleMutation = useMutation(exitSettlementService.scheduleExit, {
+    onSuccess: (settlement) => {
+      queryClient.invalidateQueries('exitSettlements');
+      setForm(emptyForm);
+      setSelectedId(settlement.id);
+      showSuccess('Exit scheduled');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to schedule exit');
+    }
+  });
+
+  const cancelMutation = useMutation(exitSettlementService.cancelExit, {
+    onSuccess: () => {
+      queryClient.invalidateQueries('exitSettlements');
+      queryClient.invalidateQueries('exitSettlement');
+      setCancelTarget(null);
+      showSuccess('Exit cancelled');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to cancel exit');
+    }
+  });
+
+  const handleDownload = async (settlement: ExitSettlement) => {
+    setDownloadingId(settlement.id);
+    try {
+      const blob = await exitSettlementService.downloadSettlementPDF(settlement.id);
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `exit-settlement-${settlement.empId}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Failed to download settlement:', error);
+      showError('Failed to download settlement');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const summary = selected?.summary;
+
+  return (
+    <AppLayout>
+      <div className="exit-settlement-page">
+        <h1 className="page-title">Exit Settlement</h1>
+
+        <div className="es-card">
+          <h2>Schedule Exit</h2>
+          <p className="es-hint">
+            On the last working day, leave after that date is cancelled and refunded, accrual credited in advance is
+            taken back (any shortfall is recovered as LOP), remaining casual leave is encashed, other balances lapse and
+            the account is locked.
+          </p>
+          <div className="es-form">
+            <select
+              value={form.employeeId}
+              onChange={(e) => setForm({ ...form, employeeId: e.target.value })}
+            >
+              <option value="">Select employee</option>
+              {employeeOptions.map((employee) => (
+                <option key={employee.id} value={employee.id}>
+                  {employee.name} ({employee.empId})
+                </option>
+              ))}
+            </select>
+            <DatePicker
+              value={form.lastWorkingDate}
+              onChange={(date) => setForm({ ...form, lastWorkingDate: date })}
+              placeholder="Last working day"
+            />
+            <select
+              value={form.exitStatus}
+              onChange={(e) => setForm({ ...form, exitStatus: e.target.value as ExitStatus })}
+            >
+              <option value="resigned">Resigned</option>
+              <option value="terminated">Terminated</option>
+            </select>
+            <input
+              type="text"
+              placeholder="Remarks (optional)"
+              maxLength={500}
+              value={form.remarks}
+              onChange={(e) => setForm({ ...form, remarks: e.target.value })}
+            />
+            <button
+              className="es-primary-btn"
+              disabled={!form.employeeId || !form.lastWorkingDate || scheduleMutation.isLoading}
+              onClick={() =>
+                scheduleMutation.mutate({
+                  employeeId: parseInt(form.employeeId, 10),
+                  lastWorkingDate: form.lastWorkingDate,
+                  exitStatus: form.exitStatus,
+                  remarks: form.remarks.trim() || undefined
+                })
+              }
+            >
+              {scheduleMutation.isLoading ? 'Scheduling...' : 'Schedule Exit'}
+            </button>
+          </div>
+        </div>
+
+        <div className="es-card">
+          <div className="es-card-header">
+            <h2>Exits</h2>
+            <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as ExitSettlementStatus | '')}>
+              <option value="">All</option>
+              <option value="scheduled">Scheduled</option>
+              <option value="completed">Settled</option>
+              <option value="cancelled">Cancelled</option>
+            </select>
+          </div>
+          {isLoading ? (
+            <div className="es-hint">Loading...</div>
+          ) : settlements.length === 0 ? (
+            <EmptyState size="small" title="No Exits" description="Scheduled exits will appear here." />
+          ) : (
+            <table className="es-table">
+              <thead>
+                <tr>
+                  <th>Employee</th>
+                  <th>Last Working Day</th>
+                  <th>Exit Type</th>
+                  <th>Status</th>
+                  <th>Scheduled By</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {settlements.map((settlement) => (
+                  <tr key={settlement.id} className={settlement.id === selectedId ? 'es-row-selected' : ''}>
+                    <td>
+                      {settlement.employeeName} ({settlement.empId})
+                      {settlement.remarks && <div className="es-subtext">{settlement.remarks}</div>}
+                    </td>
+                    <td>{formatDate(settlement.lastWorkingDate)}</td>
+                    <td>{EXIT_LABELS[settlement.exitStatus]}</td>
+                    <td>
+                      <span className={`es-status es-status-${settlement.status}`}>{STATUS_LABELS[settlement.status]}</span>
+                    </td>
+                    <td>{settlement.initiatedByName || '-'}</td>
+                    <td className="es-actions">
+                      {settlement.status !== 'cancelled' && (
+                        <>
+                          <button className="es-secondary-btn" onClick={() => setSelectedId(settlement.id)}>
+                            {settlement.status === 'scheduled' ? 'Preview' : 'View'}
+                          </button>
+                          <button
+                            className="es-secondary-btn"
+                            disabled={downloadingId === settlement.id}
+                            onClick={() => handleDownload(settlement)}
+                          >
+                            <FaFilePdf /> PDF
+                          </button>
+                        </>
+                      )}
+                      {settlement.status === 'scheduled' && (
+                        <button className="es-danger-btn" onClick={() => setCancelTarget(settlement)}>
+                          Cancel
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {selectedId !== null && (
+          <div className="es-card">
+            <div className="es-card-header">
+              <h2>
+                {selected ? `${selected.employeeName} (${selected.empId})` : 'Settlement'}
+                {selected?.status === 'scheduled' && <span className="es-provisional">Provisional</span>}
+              </h2>
+              <button className="es-secondary-btn" onClick={() => setSelectedId(null)}>
+                Close
+              </button>
+            </div>
+            {selectedLoading || !selected ? (
+              <div className="es-hint">Loading...</div>
+            ) : !summary ? (
+              <div className="es-hint">This exit was cancelled.</div>
+            ) : (
+              <>
+                <div className="es-totals">
+                  <div>
+                    <span>Casual Days Encashed</span>
+                    <strong>{summary.encashedCasualDays}</strong>
+                  </div>
+                  <div>
+                    <span>LOP Recovery (Days)</span>
+                    <strong>{summary.lopRecoveryDays}</strong>
+                  </div>
+                  <div>
+                    <span>Leave Requests Cancelled</span>
+                    <strong>{summary.cancelledLeaves.length}</strong>
+                  </div>
+                </div>
+
+                {summary.lines.length === 0 ? (
+                  <div className="es-hint">No leave balances to settle.</div>
+                ) : (
+                  <table className="es-table">
+                    <thead>
+                      <tr>
+                        <th>Leave Type</th>
+                        <th>Balance</th>
+                        <th>Unearned Accrual</th>
+                        <th>Recovered</th>
+                        <th>Encashed</th>
+                        <th>Lapsed</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summary.lines.map((line) => (
+                        <tr key={line.leaveTypeCode}>
+                          <td>{line.leaveTypeName}</td>
+                          <td>{line.balance}</td>
+                          <td>{line.unearnedCredit}</td>
+                          <td>{line.recovered}</td>
+                          <td>{line.encashed}</td>
+                          <td>{line.lapsed}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {summary.cancelledLeaves.length > 0 && (
+                  <>
+                    <h3>Leave After Last Working Day</h3>
+                    <table className="es-table">
+                      <thead>
+                        <tr>
+                          <th>Leave Type</th>
+                          <th>From</th>
+                          <th>To</th>
+                          <th>Days Refunded</th>
+                          <th>Outcome</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {summary.cancelledLeaves.map((leave) => (
+                          <tr key={leave.leaveRequestId}>
+                            <td>{leave.leaveType}</td>
+                            <td>{formatDate(leave.startDate)}</td>
+                            <td>{formatDate(leave.endDate)}</td>
+                            <td>{leave.days}</td>
+                            <td>{leave.fullyCancelled ? 'Cancelled' : 'Days after exit removed'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <ConfirmationDialog
+          isOpen={!!cancelTarget}
+          title="Cancel Exit"
+          message={`Cancel the scheduled exit of ${cancelTarget?.employeeName} on ${formatDate(cancelTarget?.lastWorkingDate || null)}? No settlement will be applied.`}
+          confirmText="Cancel Exit"
+          cancelText="Keep Exit"
+          onConfirm={() => cancelTarget && cancelMutation.mutate(cancelTarget.id)}
+          onCancel={() => setCancelTarget(null)}
+          type="warning"
+          isLoading={cancelMutation.isLoading}
+        />
+      </div>
+    </AppLayout>
+  );
+};
+
+export default ExitSettlementPage;
@@ -1,22 +1,33 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
 import AppLayout from '../components/layout/AppLayout';
 import { useToast } from '../contexts/ToastContext';
 import { DatePicker } from '../components/ui/date-picker';
 import * as leaveService from '../services/leaveService';
+import * as holidayCalendarService from '../services/holidayCalendarService';
+import { HolidayCalendar } from '../services/holidayCalendarService';
 import { format } from 'date-fns';
 import { FaTrash, FaPen, FaSortUp, FaSortDown } from 'react-icons/fa';
 import EmptyState from '../components/common/EmptyState';
 import ConfirmationDialog from '../components/ConfirmationDialog';
+import HolidayImportPanel from '../components/HolidayImportPanel';
 import './HolidayManagementPage.css';
 
+const emptyCalendarForm = { name: '', location: '', isDefault: false, floatingQuota: '2' };
+
+/**
+ * Holidays are kept per calendar (e.g. one per office location). Employees follow the
+ * calendar assigned to them, else the default. Optional (floating) holidays are working days
+ * unless an employee claims one, up to their calendar's annual floating quota.
+ */
 const HolidayManagementPage: React.FC = () => {
     const queryClient = useQueryClient();
     const { showSuccess, showError } = useToast();
 
     const [formData, setFormData] = useState({
         holidayDate: '',
-        holidayName: ''
+        holidayName: '',
+        isOptional: false
     });
     const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
     const [selectedHoliday, setSelectedHoliday] = useState<{ id: number; name: string } | null>(null);
@@ -28,15 +39,43 @@ const HolidayManagementPage: React.FC = () => {
     const [selectedYear, setSelectedYear] = useState<number>(currentYear);
     const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
 
+    const [view, setView] = useState<'holidays' | 'calendars'>('holidays');
+    const [selectedCalendarId, setSelectedCalendarId] = useState<number | null>(null);
+    const [calendarForm, setCalendarForm] = useState(emptyCalendarForm);
+    const [editingCalendarId, setEditingCalendarId] = useState<number | null>(null);
+    const [deleteCalendarTarget, setDeleteCalendarTarget] = useState<HolidayCalendar | null>(null);
+    const [employeeSearch, setEmployeeSearch] = useState('');
+    const [selectedEmployees, setSelectedEmployees] = useState<number[]>([]);
+    const [bulkCalendarId, setBulkCalendarId] = useState('');
+    const [importOpen, setImportOpen] = useState(false);
+
     const handleSortToggle = () => {
         setSortDirection((prev) => prev === 'asc' ? 'desc' : 'asc');
     };
 
-    // Fetch holidays
+    const { data: calendars = [] } = useQuery('holidayCalendars', holidayCalendarService.getCalendars, { retry: false });
+    const { data: employees = [] } = useQuery('employeeHolidayCalendars', holidayCalendarService.getEmployeeAssignments, {
+        retry: false,
+        enabled: view === 'calendars'
+    });
+
+    // Start on the default calendar, and fall back to it if the selected one is deleted
+    useEffect(() => {
+        if (calendars.length === 0) return;
+        if (!selectedCalendarId || !calendars.some((calendar) => calendar.id === selectedCalendarId)) {
+            const defaultCalendar = calendars.find((calendar) => calendar.isDefault) || calendars[0];
+            setSelectedCalendarId(defaultCalendar.id);
+        }
+    }, [calendars, selectedCalendarId]);
+
+    const selectedCalendar = calendars.find((calendar) => calendar.id === selectedCalendarId) || null;
+
+    // Fetch holidays of the selected calendar
     const { data: holidaysData = [], isLoading: holidaysLoading } = useQuery(
-        ['holidays', selectedYear],
-        () => leaveService.getHolidays(selectedYear),
+        ['holidays', selectedYear, selectedCalendarId],
+        () => leaveService.getHolidays(selectedYear, selectedCalendarId as number),
         {
+            enabled: !!selectedCalendarId,
             retry: false,
             staleTime: 0,
             refetchInterval: 5000, // Reduced to 5 seconds for immediate updates
@@ -66,16 +105,32 @@ const HolidayManagementPage: React.FC = () => {
         });
     }, [holidaysData, selectedYear, sortDirection]);
 
+    const filteredEmployees = useMemo(() => {
+        const term = employeeSearch.trim().toLowerCase();
+        if (!term) return employees;
+        return employees.filter((employee) =>
+            [employee.employeeName, employee.empId, employee.department || '', employee.calendarName || ''].some((value) =>
+                value.toLowerCase().includes(term)
+            )
+        );
+    }, [employees, employeeSearch]);
+
+    const refreshCalendars = () => {
+        queryClient.invalidateQueries('holidayCalendars');
+        queryClient.invalidateQueries('employeeHolidayCalendars');
+        queryClient.invalidateQueries('holidays');
+    };
+
     // Create holiday mutation
     const createMutation = useMutation(
-        ({ holidayDate, holidayName }: { holidayDate: string; holidayName: string }) =>
-            leaveService.createHoliday(holidayDate, holidayName),
+        ({ holidayDate, holidayName, isOptional }: { holidayDate: string; holidayName: string; isOptional: boolean }) =>
+            leaveService.createHoliday(holidayDate, holidayName, selectedCalendarId ?? undefined, isOptional),
         {
             onSuccess: () => {
                 showSuccess('Holiday created!');
-                setFormData({ holidayDate: '', holidayName: '' });
-                queryClient.invalidateQueries(['holidays', selectedYear]);
+                setFormData({ holidayDate: '', holidayName: '', isOptional: false });
                 queryClient.invalidateQueries('holidays');
+                queryClient.invalidateQueries('holidayCalendars');
             },
             onError: (error: any) => {
                 const errorMessage = error.response?.data?.error?.message || error.message || 'Creation failed';
@@ -90,8 +145,8 @@ const HolidayManagementPage: React.FC = () => {
         {
             onSuccess: () => {
                 showSuccess('Holiday deleted!');
-                queryClient.invalidateQueries(['holidays', selectedYear]);
                 queryClient.invalidateQueries('holidays');
+                queryClient.invalidateQueries('holidayCalendars');
                 setDeleteConfirmOpen(false);
                 setSelectedHoliday(null);
             },
@@ -108,16 +163,15 @@ const HolidayManagementPage: React.FC = () => {
 
     // Update holiday mutation
     const updateMutation = useMutation(
-        ({ id, holidayDate, holidayName }: { id: number; holidayDate: string; holidayName: string }) =>
-            leaveService.updateHoliday(id, holidayDate, holidayName),
+        ({ id, holidayDate, holidayName, isOptional }: { id: number; holidayDate: string; holidayName: string; isOptional: boolean }) =>
+            leaveService.updateHoliday(id, holidayDate, holidayName, isOptional),
         {
             onSuccess: () => {
                 showSuccess('Holiday updated!');
-                setFormData({ holidayDate: '', holidayName: '' });
+                setFormData({ holidayDate: '', holidayName: '', isOptional: false });
                 setIsEditMode(false);
                 setEditHolidayId(null);
                 setResetKey(prev => prev + 1);
-                queryClient.invalidateQueries(['holidays', selectedYear]);
                 queryClient.invalidateQueries('holidays');
             },
             onError: (error: any) => {
@@ -127,6 +181,66 @@ const HolidayManagementPage: React.FC = () => {
         }
     );
 
+    // The feed is public, so any calendar client can subscribe with the link alone
+    const copySubscriptionLink = async () => {
+        if (!selectedCalendarId) return;
+        try {
+            await navigator.clipboard.writeText(holidayCalendarService.getExportUrl(selectedCalendarId));
+            showSuccess('Subscription link copied');
+        } catch {
+            showError('Could not copy the link');
+        }
+    };
+
+    const calendarErrorHandler = (fallback: string) => (error: any) => {
+        showError(error.response?.data?.error?.message || fallback);
+    };
+
+    const saveCalendarMutation = useMutation(
+        (data: holidayCalendarService.HolidayCalendarInput) =>
+            editingCalendarId
+                ? holidayCalendarService.updateCalendar(editingCalendarId, data)
+                : holidayCalendarService.createCalendar(data),
+        {
+            onSuccess: (calendar) => {
+                showSuccess(editingCalendarId ? 'Calendar updated!' : 'Calendar created!');
+                setCalendarForm(emptyCalendarForm);
+                setEditingCalendarId(null);
+                setSelectedCalendarId(calendar.id);
+                refreshCalendars();
+            },
+            onError: calendarErrorHandler('Failed to save calendar')
+        }
+    );
+
+    const deleteCalendarMutation = useMutation(
+        (id: number) => holidayCalendarService.deleteCalendar(id),
+        {
+            onSuccess: () => {
+                showSuccess('Calendar deleted!');
+                setDeleteCalendarTarget(null);
+                refreshCalendars();
+            },
+            onError: (error: any) => {
+                calendarErrorHandler('Failed to delete calendar')(error);
+                setDeleteCalendarTarget(null);
+            }
+        }
+    );
+
+    const assignMutation = useMutation(
+        ({ employeeIds, calendarId }: { employeeIds: number[]; calendarId: number | null }) =>
+            holidayCalendarService.assignEmployees(employeeIds, calendarId),
+        {
+            onSuccess: (result) => {
+                showSuccess(result.message);
+                setSelectedEmployees([]);
+                refreshCalendars();
+            },
+            onError: calendarErrorHandler('Failed to assign holiday calendar')
+        }
+    );
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
 
@@ -152,11 +266,12 @@ const HolidayManagementPage: React.FC = () => {
             if (originalHoliday) {
                 const isNameSame = originalHoliday.name === formData.holidayName.trim();
                 const isDateSame = originalHoliday.date === formData.holidayDate;
+                const isOptionalSame = !!originalHoliday.isOptional === formData.isOptional;
 
-                if (isNameSame && isDateSame) {
+                if (isNameSame && isDateSame && isOptionalSame) {
                     setIsEditMode(false);
                     setEditHolidayId(null);
-                    setFormData({ holidayDate: '', holidayName: '' });
+                    setFormData({ holidayDate: '', holidayName: '', isOptional: false });
                     setResetKey(prev => prev + 1);
                     return;
                 }
@@ -165,7 +280,8 @@ const HolidayManagementPage: React.FC = () => {
             updateMutation.mutate({
                 id: editHolidayId,
                 holidayDate: formData.holidayDate,
-                holidayName: formData.holidayName.trim()
+                holidayName: formData.holidayName.trim(),
+                isOptional: formData.isOptional
             });
         } else {
             if (selectedDate < today) {
@@ -175,13 +291,14 @@ const HolidayManagementPage: React.FC = () => {
 
             createMutation.mutate({
                 holidayDate: formData.holidayDate,
-                holidayName: formData.holidayName.trim()
+                holidayName: formData.holidayName.trim(),
+                isOptional: formData.isOptional
             });
         }
     };
 
     const handleReset = () => {
-        setFormData({ holidayDate: '', holidayName: '' });
+        setFormData({ holidayDate: '', holidayName: '', isOptional: false });
         setIsEditMode(false);
         setEditHolidayId(null);
         setResetKey(prev => prev + 1);
@@ -190,7 +307,8 @@ const HolidayManagementPage: React.FC = () => {
     const handleEdit = (holiday: any) => {
         setFormData({
             holidayDate: holiday.date,
-            holidayName: holiday.name
+            holidayName: holiday.name,
+            isOptional: !!holiday.isOptional
         });
         setEditHolidayId(holiday.id);
         setIsEditMode(true);
@@ -214,189 +332,518 @@ const HolidayManagementPage: React.FC = () => {
         setFormData({ ...formData, holidayDate: dateStr });
     };
 
+    // Switching calendars abandons any holiday being edited
+    const handleCalendarChange = (calendarId: number) => {
+        handleReset();
+        setSelectedCalendarId(calendarId);
+    };
+
+    const handleCalendarSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!calendarForm.name.trim()) {
+            showError('Calendar Name is required');
+            return;
+        }
+        const floatingQuota = Number(calendarForm.floatingQuota);
+        if (calendarForm.floatingQuota === '' || !Number.isInteger(floatingQuota) || floatingQuota < 0 || floatingQuota > 31) {
+            showError('Floating holiday quota must be a whole number between 0 and 31');
+            return;
+        }
+        saveCalendarMutation.mutate({
+            name: calendarForm.name.trim(),
+            location: calendarForm.location.trim() || null,
+            isDefault: calendarForm.isDefault,
+            floatingQuota
+        });
+    };
+
+    const startCalendarEdit = (calendar: HolidayCalendar) => {
+        setEditingCalendarId(calendar.id);
+        setCalendarForm({
+            name: calendar.name,
+            location: calendar.location || '',
+            isDefault: calendar.isDefault,
+            floatingQuota: String(calendar.floatingQuota)
+        });
+    };
+
+    const cancelCalendarEdit = () => {
+        setEditingCalendarId(null);
+        setCalendarForm(emptyCalendarForm);
+    };
+
+    const toggleEmployee = (id: number) => {
+        setSelectedEmployees((prev) => (prev.includes(id) ? prev.filter((e) => e !== id) : [...prev, id]));
+    };
+
+    const allFilteredSelected =
+        filteredEmployees.length > 0 && filteredEmployees.every((employee) => selectedEmployees.includes(employee.employeeId));
+
+    const toggleAllFiltered = () => {
+        const ids = filteredEmployees.map((employee) => employee.employeeId);
+        setSelectedEmployees((prev) =>
+            allFilteredSelected ? prev.filter((id) => !ids.includes(id)) : Array.from(new Set([...prev, ...ids]))
+        );
+    };
+
     return (
         <AppLayout>
             <div className="holiday-management-page">
                 <h1 className="page-title">Holiday Management</h1>
 
-                {/* Add Holiday Form */}
-                <div className="hm-form-section">
-                    <h2>{isEditMode ? 'Edit Holiday' : 'Add New Holiday'}</h2>
-                    <form onSubmit={handleSubmit} className="hm-form">
-                        <div className="hm-form-row">
-                            <div className="hm-form-group hm-form-group-date">
-                                <label>Holiday Date <span className="required-indicator">*</span></label>
-                                <DatePicker
-                                    key={resetKey}
-                                    ref={dateInputRef}
-                                    value={formData.holidayDate}
-                                    onChange={handleDateChange}
-                                    placeholder="DD - MM - YYYY"
-                                    min={new Date().toISOString().split('T')[0]}
-                                    allowManualEntry={true}
-                                    isEmployeeVariant={true}
-                                />
-                            </div>
-                            <div className="hm-form-group hm-form-group-name">
-                                <label>Holiday Name <span className="required-indicator">*</span></label>
+                {/* Calendar Selector */}
+                <div className="hm-calendar-bar">
+                    {view === 'holidays' ? (
+                        <div className="hm-calendar-select">
+                            <label htmlFor="hm-calendar">Calendar</label>
+                            <select
+                                id="hm-calendar"
+                                value={selectedCalendarId ?? ''}
+                                onChange={(e) => handleCalendarChange(parseInt(e.target.value, 10))}
+                            >
+                                {calendars.map((calendar) => (
+                                    <option key={calendar.id} value={calendar.id}>
+                                        {calendar.name}{calendar.location ? ` (${calendar.location})` : ''}{calendar.isDefault ? ' - Default' : ''}
+                                    </option>
+                                ))}
+                            </select>
+                            {selectedCalendar && (
+                                <span className="hm-calendar-meta">
+                                    {selectedCalendar.employeeCount ?? 0} employee(s) follow this calendar
+                                </span>
+                            )}
+                        </div>
+                    ) : (
+                        <h2>Holiday Calendars</h2>
+                    )}
+                    <div className="hm-calendar-actions">
+                        {view === 'holidays' && selectedCalendarId && (
+                            <>
+                                <button type="button" className="hm-reset-button" onClick={() => setImportOpen(true)}>
+                                    Import
+                                </button>
+                                <a className="hm-reset-button hm-link-button" href={holidayCalendarService.getExportUrl(selectedCalendarId)} download>
+                                    Export .ics
+                                </a>
+                                <button type="button" className="hm-reset-button" onClick={copySubscriptionLink}>
+                                    Copy Subscription Link
+                                </button>
+                            </>
+                        )}
+                        <button
+                            type="button"
+                            className="hm-reset-button"
+                            onClick={() => setView(view === 'holidays' ? 'calendars' : 'holidays')}
+                        >
+                            {view === 'holidays' ? 'Manage Calendars' : 'Back to Holidays'}
+                        </button>
+                    </div>
+                </div>
+
+                {view === 'calendars' ? (
+                    <div className="hm-calendars-view">
+                        <div className="hm-form-section">
+                            <h2>{editingCalendarId ? 'Edit Calendar' : 'Add New Calendar'}</h2>
+                            <form onSubmit={handleCalendarSubmit} className="hm-form">
+                                <div className="hm-form-row">
+                                    <div className="hm-form-group hm-form-group-name">
+                                        <label>Calendar Name <span className="required-indicator">*</span></label>
+                                        <input
+                                            type="text"
+                                            value={calendarForm.name}
+                                            onChange={(e) => setCalendarForm({ ...calendarForm, name: e.target.value })}
+                                            maxLength={100}
+                                        />
+                                    </div>
+                                    <div className="hm-form-group hm-form-group-name">
+                                        <label>Location</label>
+                                        <input
+                                            type="text"
+                                            value={calendarForm.location}
+                                            onChange={(e) => setCalendarForm({ ...calendarForm, location: e.target.value })}
+                                            maxLength={100}
+                                        />
+                                    </div>
+                                    <div className="hm-form-group hm-form-group-quota">
+                                        <label title="Floating holidays each employee may claim per year">Floating Quota</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={31}
+                                            value={calendarForm.floatingQuota}
+                                            onChange={(e) => setCalendarForm({ ...calendarForm, floatingQuota: e.target.value })}
+                                        />
+                                    </div>
+                                    <div className="hm-form-group hm-form-group-check">
+                                        <label className="hm-checkbox-label">
+                                            <input
+                                                type="checkbox"
+                                                checked={calendarForm.isDefault}
+                                                onChange={(e) => setCalendarForm({ ...calendarForm, isDefault: e.target.checked })}
+                                            />
+                                            Default calendar
+                                        </label>
+                                    </div>
+                                    <div className="hm-form-actions">
+                                        <button type="submit" className="hm-submit-button" disabled={saveCalendarMutation.isLoading}>
+                                            {saveCalendarMutation.isLoading ? 'Processing...' : (editingCalendarId ? 'Update Calendar' : 'Add Calendar')}
+                                        </button>
+                                        <button type="button" className="hm-reset-button" onClick={cancelCalendarEdit}>
+                                            Reset
+                                        </button>
+                                    </div>
+                                </div>
+                            </form>
+                        </div>
+
+                        <div className="hm-form-section">
+                            <h2>Calendars</h2>
+                            <table className="hm-table">
+                                <thead>
+                                    <tr>
+                                        <th>Name</th>
+                                        <th>Location</th>
+                                        <th>Holidays</th>
+                                        <th>Floating Quota</th>
+                                        <th>Employees</th>
+                                        <th>Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {calendars.map((calendar) => (
+                                        <tr key={calendar.id}>
+                                            <td>
+                                                {calendar.name}
+                                                {calendar.isDefault && <span className="hm-type-badge">Default</span>}
+                                            </td>
+                                            <td>{calendar.location || '-'}</td>
+                                            <td>{calendar.holidayCount ?? 0}</td>
+                                            <td>{calendar.floatingQuota}</td>
+                                            <td>{calendar.employeeCount ?? 0}</td>
+                                            <td>
+                                                <div className="actions-wrapper" style={{ display: 'flex', gap: '8px', justifyContent: 'flex-start' }}>
+                                                    <button
+                                                        className="action-btn edit-btn"
+                                                        onClick={() => startCalendarEdit(calendar)}
+                                                        title="Edit calendar"
+                                                        style={{ backgroundColor: 'transparent', border: 'none', cursor: 'pointer', color: '#3c6ff2', fontSize: '16px' }}
+                                                    >
+                                                        <FaPen />
+                                                    </button>
+                                                    <button
+                                                        className="action-btn delete-btn"
+                                                        onClick={() => !calendar.isDefault && setDeleteCalendarTarget(calendar)}
+                                                        disabled={calendar.isDefault}
+                                                        title={calendar.isDefault ? 'The default calendar cannot be deleted' : 'Delete calendar'}
+                                                        style={{
+                                                            cursor: calendar.isDefault ? 'not-allowed' : 'pointer',
+                                                            color: calendar.isDefault ? '#a0a0a0' : undefined
+                                                        }}
+                                                    >
+                                                        <FaTrash />
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="hm-form-section">
+                            <div className="hm-header">
+                                <h2>Employees</h2>
                                 <input
-                                    ref={nameInputRef}
                                     type="text"
-                                    value={formData.holidayName}
-                                    onChange={(e) => {
-                                        const value = e.target.value.replace(/[^a-zA-Z\s]/g, '');
-                                        setFormData({ ...formData, holidayName: value });
-                                    }}
-                                    maxLength={100}
+                                    className="hm-search-input"
+                                    placeholder="Search employees"
+                                    value={employeeSearch}
+                                    onChange={(e) => setEmployeeSearch(e.target.value)}
                                 />
                             </div>
-                            <div className="hm-form-actions">
-                                <button
-                                    type="submit"
-                                    className="hm-submit-button"
-                                    disabled={createMutation.isLoading}
-                                >
-                                    {createMutation.isLoading || updateMutation.isLoading ? 'Processing...' : (isEditMode ? 'Update Holiday' : 'Add Holiday')}
-                                </button>
+                            <div className="hm-bulk-assign">
+                                <span className="hm-calendar-meta">{selectedEmployees.length} selected</span>
+                                <select value={bulkCalendarId} onChange={(e) => setBulkCalendarId(e.target.value)}>
+                                    <option value="">Follow default calendar</option>
+                                    {calendars.map((calendar) => (
+                                        <option key={calendar.id} value={calendar.id}>
+                                            {calendar.name}
+                                        </option>
+                                    ))}
+                                </select>
                                 <button
                                     type="button"
-                                    className="hm-reset-button"
-                                    onClick={handleReset}
-                                    disabled={createMutation.isLoading}
+                                    className="hm-submit-button"
+                                    disabled={selectedEmployees.length === 0 || assignMutation.isLoading}
+                                    onClick={() =>
+                                        assignMutation.mutate({
+                                            employeeIds: selectedEmployees,
+                                            calendarId: bulkCalendarId ? parseInt(bulkCalendarId, 10) : null
+                                        })
+                                    }
                                 >
-                                    Reset
+                                    {assignMutation.isLoading ? 'Applying...' : 'Apply'}
                                 </button>
                             </div>
-                        </div>
-                    </form>
-                </div>
-
-                {/* Holidays List */}
-                <div className="hm-list-section">
-                    <div className="hm-header">
-                        <h2>Holidays List</h2>
-                        <div className="hm-year-selector">
-                            <button
-                                className={`hm-year-button ${selectedYear === currentYear - 1 ? 'active' : ''}`}
-                                onClick={() => setSelectedYear(currentYear - 1)}
-                            >
-                                {currentYear - 1}
-                            </button>
-                            <button
-                                className={`hm-year-button ${selectedYear === currentYear ? 'active' : ''}`}
-                                onClick={() => setSelectedYear(currentYear)}
-                            >
-                                {currentYear}
-                            </button>
-                            <button
-                                className={`hm-year-button ${selectedYear === currentYear + 1 ? 'active' : ''}`}
-                                onClick={() => setSelectedYear(currentYear + 1)}
-                            >
-                                {currentYear + 1}
-                            </button>
-                        </div>
-                    </div>
-
-                    <div className={`hm-table-wrapper ${holidaysLoading && holidays.length > 0 ? 'fetching' : ''}`}>
-                        {holidaysLoading && holidays.length === 0 ? (
-                            <div className="hm-skeleton-container">
-                                {Array.from({ length: 5 }).map((_, idx) => (
-                                    <div key={idx} className="hm-skeleton-row"></div>
-                                ))}
-                            </div>
-                        ) : holidays.length === 0 ? (
-                            <EmptyState
-                                title={`No Holidays for ${selectedYear}`}
-                                description="There are no holidays listed for the selected year."
-                            />
-                        ) : (
-                            <div className="hm-table-container">
+                            {filteredEmployees.length === 0 ? (
+                                <EmptyState size="small" title="No Employees" description="No active employees match your search." />
+                            ) : (
                                 <table className="hm-table">
                                     <thead>
                                         <tr>
-                                            <th className="sortable-header" onClick={handleSortToggle}>
-                                                <div className="header-sort-wrapper">
-                                                    Date
-                                                    {sortDirection === 'asc' ? <FaSortUp className="sort-icon active" /> : <FaSortDown className="sort-icon active" />}
-                                                </div>
+                                            <th>
+                                                <input type="checkbox" checked={allFilteredSelected} onChange={toggleAllFiltered} />
                                             </th>
-                                            <th>Name</th>
-                                            <th>Day</th>
-                                            <th>Actions</th>
+                                            <th>Employee</th>
+                                            <th>Department</th>
+                                            <th>Calendar</th>
                                         </tr>
                                     </thead>
                                     <tbody>
-                                        {holidays.map((holiday: any) => {
-                                            const holidayDate = new Date(holiday.date + 'T00:00:00');
-                                            const dayName = holidayDate.toLocaleDateString('en-US', { weekday: 'long' });
-                                            const formattedDate = format(holidayDate, 'dd-MM-yyyy');
-
-                                            const today = new Date();
-                                            today.setHours(0, 0, 0, 0);
-                                            const isPast = holidayDate < today;
-
-                                            return (
-                                                <tr key={holiday.id || holiday.date}>
-                                                    <td>{formattedDate}</td>
-                                                    <td>{holiday.name}</td>
-                                                    <td>{dayName}</td>
-                                                    <td>
-                                                        <div className="actions-wrapper" style={{ display: 'flex', gap: '8px', justifyContent: 'flex-start' }}>
-                                                            <button
-                                                                className="action-btn edit-btn"
-                                                                onClick={() => !isPast && handleEdit(holiday)}
-                                                                title={isPast ? "Cannot edit past holidays" : "Edit holiday"}
-                                                                disabled={isPast}
-                                                                style={{
-                                                                    backgroundColor: 'transparent',
-                                                                    border: 'none',
-                                                                    cursor: isPast ? 'not-allowed' : 'pointer',
-                                                                    color: isPast ? '#a0a0a0' : '#3c6ff2',
-                                                                    display: 'inline-flex',
-                                                                    alignItems: 'center',
-                                                                    justifyContent: 'center',
-                                                                    fontSize: '16px'
-                                                                }}
-                                                            >
-                                                                <FaPen />
-                                                            </button>
-                                                            <button
-                                                                className="action-btn delete-btn"
-                                                                onClick={() => !isPast && !isEditMode && handleDelete(holiday.id, holiday.name)}
-                                                                disabled={deleteMutation.isLoading || isPast || isEditMode}
-                                                                title={isPast ? "Cannot delete past holidays" : isEditMode ? "Finish editing to delete" : "Delete holiday"}
-                                                                style={{
-                                                                    cursor: (isPast || isEditMode) ? 'not-allowed' : 'pointer',
-                                                                    color: (isPast || isEditMode) ? '#a0a0a0' : undefined
-                                                                }}
-                                                            >
-                                                                <FaTrash />
-                                                            </button>
-                                                        </div>
-                                                    </td>
-                                                </tr>
-                                            );
-                                        })}
+                                        {filteredEmployees.map((employee) => (
+                                            <tr key={employee.employeeId}>
+                                                <td>
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedEmployees.includes(employee.employeeId)}
+                                                        onChange={() => toggleEmployee(employee.employeeId)}
+                                                    />
+                                                </td>
+                                                <td>{employee.employeeName} ({employee.empId})</td>
+                                                <td>{employee.department || '-'}</td>
+                                                <td>
+                                                    {employee.calendarName || '-'}
+                                                    {!employee.assignedCalendarId && <span className="hm-type-badge">Default</span>}
+                                                </td>
+                                            </tr>
+                                        ))}
                                     </tbody>
                                 </table>
+                            )}
+                        </div>
+
+                        <ConfirmationDialog
+                            isOpen={!!deleteCalendarTarget}
+                            title="Delete Calendar"
+                            message={`Delete "${deleteCalendarTarget?.name}" and its holidays? Employees on it will follow the default calendar.`}
+                            confirmText="Delete"
+                            cancelText="Cancel"
+                            type="danger"
+                            isLoading={deleteCalendarMutation.isLoading}
+                            onConfirm={() => deleteCalendarTarget && deleteCalendarMutation.mutate(deleteCalendarTarget.id)}
+                            onCancel={() => setDeleteCalendarTarget(null)}
+                        />
+                    </div>
+                ) : (
+                    <>
+                    {importOpen && selectedCalendar && (
+                        <HolidayImportPanel
+                            key={selectedCalendar.id}
+                            calendar={selectedCalendar}
+                            onClose={() => setImportOpen(false)}
+                            onImported={() => {
+                                queryClient.invalidateQueries('holidays');
+                                queryClient.invalidateQueries('holidayCalendars');
+                            }}
+                        />
+                    )}
+
+                    {/* Add Holiday Form */}
+                    <div className="hm-form-section">
+                        <h2>{isEditMode ? 'Edit Holiday' : 'Add New Holiday'}</h2>
+                        <form onSubmit={handleSubmit} className="hm-form">
+                            <div className="hm-form-row">
+                                <div className="hm-form-group hm-form-group-date">
+                                    <label>Holiday Date <span className="required-indicator">*</span></label>
+                                    <DatePicker
+                                        key={resetKey}
+                                        ref={dateInputRef}
+                                        value={formData.holidayDate}
+                                        onChange={handleDateChange}
+                                        placeholder="DD - MM - YYYY"
+                                        min={new Date().toISOString().split('T')[0]}
+                                        allowManualEntry={true}
+                                        isEmployeeVariant={true}
+                                    />
+                                </div>
+                                <div className="hm-form-group hm-form-group-name">
+                                    <label>Holiday Name <span className="required-indicator">*</span></label>
+                                    <input
+                                        ref={nameInputRef}
+                                        type="text"
+                                        value={formData.holidayName}
+                                        onChange={(e) => {
+                                            const value = e.target.value.replace(/[^a-zA-Z\s]/g, '');
+                                            setFormData({ ...formData, holidayName: value });
+                                        }}
+                                        maxLength={100}
+                                    />
+                                </div>
+                                <div className="hm-form-group hm-form-group-check">
+                                    <label className="hm-checkbox-label" title="Floating holidays remain working days unless an employee claims one">
+                                        <input
+                                            type="checkbox"
+                                            checked={formData.isOptional}
+                                            onChange={(e) => setFormData({ ...formData, isOptional: e.target.checked })}
+                                        />
+                                        Floating holiday
+                                    </label>
+                                </div>
+                                <div className="hm-form-actions">
+                                    <button
+                                        type="submit"
+                                        className="hm-submit-button"
+                                        disabled={createMutation.isLoading}
+                                    >
+                                        {createMutation.isLoading || updateMutation.isLoading ? 'Processing...' : (isEditMode ? 'Update Holiday' : 'Add Holiday')}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className="hm-reset-button"
+                                        onClick={handleReset}
+                                        disabled={createMutation.isLoading}
+                                    >
+                                        Reset
+                                    </button>
+                                </div>
                             </div>
-                        )}
+                        </form>
                     </div>
-                    <ConfirmationDialog
-                        isOpen={deleteConfirmOpen}
-                        title="Delete Holiday"
-                        message={`Are you sure you want to delete "${selectedHoliday?.name}"? This action cannot be undone.`}
-                        confirmText="Delete"
-                        cancelText="Cancel"
-                        type="danger"
-                        isLoading={deleteMutation.isLoading}
-                        onConfirm={confirmDelete}
-                        onCancel={() => {
-                            setDeleteConfirmOpen(false);
-                            setSelectedHoliday(null);
-                        }}
-                    />
-                </div>
+
+                    {/* Holidays List */}
+                    <div className="hm-list-section">
+                        <div className="hm-header">
+                            <h2>Holidays List</h2>
+                            <div className="hm-year-selector">
+                                <button
+                                    className={`hm-year-button ${selectedYear === currentYear - 1 ? 'active' : ''}`}
+                                    onClick={() => setSelectedYear(currentYear - 1)}
+                                >
+                                    {currentYear - 1}
+                                </button>
+                                <button
+                                    className={`hm-year-button ${selectedYear === currentYear ? 'active' : ''}`}
+                                    onClick={() => setSelectedYear(currentYear)}
+                                >
+                                    {currentYear}
+                                </button>
+                                <button
+                                    className={`hm-year-button ${selectedYear === currentYear + 1 ? 'active' : ''}`}
+                                    onClick={() => setSelectedYear(currentYear + 1)}
+                                >
+                                    {currentYear + 1}
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className={`hm-table-wrapper ${holidaysLoading && holidays.length > 0 ? 'fetching' : ''}`}>
+                            {holidaysLoading && holidays.length === 0 ? (
+                                <div className="hm-skeleton-container">
+                                    {Array.from({ length: 5 }).map((_, idx) => (
+                                        <div key={idx} className="hm-skeleton-row"></div>
+                                    ))}
+                                </div>
+                            ) : holidays.length === 0 ? (
+                                <EmptyState
+                                    title={`No Holidays for ${selectedYear}`}
+                                    description="There are no holidays listed for the selected year in this calendar."
+                                />
+                            ) : (
+                                <div className="hm-table-container">
+                                    <table className="hm-table">
+                                        <thead>
+                                            <tr>
+                                                <th className="sortable-header" onClick={handleSortToggle}>
+                                                    <div className="header-sort-wrapper">
+                                                        Date
+                                                        {sortDirection === 'asc' ? <FaSortUp className="sort-icon active" /> : <FaSortDown className="sort-icon active" />}
+                                                    </div>
+                                                </th>
+                                                <th>Name</th>
+                                                <th>Day</th>
+                                                <th>Type</th>
+                                                <th>Actions</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {holidays.map((holiday: any) => {
+                                                const holidayDate = new Date(holiday.date + 'T00:00:00');
+                                                const dayName = holidayDate.toLocaleDateString('en-US', { weekday: 'long' });
+                                                const formattedDate = format(holidayDate, 'dd-MM-yyyy');
+
+                                                const today = new Date();
+                                                today.setHours(0, 0, 0, 0);
+                                                const isPast = holidayDate < today;
+
+                                                return (
+                                                    <tr key={holiday.id || holiday.date}>
+                                                        <td>{formattedDate}</td>
+                                                        <td>{holiday.name}</td>
+                                                        <td>{dayName}</td>
+                                                        <td>
+                                                            <span className={`hm-type-badge ${holiday.isOptional ? 'optional' : ''}`}>
+                                                                {holiday.isOptional ? 'Floating' : 'Public'}
+                                                            </span>
+                                                        </td>
+                                                        <td>
+                                                            <div className="actions-wrapper" style={{ display: 'flex', gap: '8px', justifyContent: 'flex-start' }}>
+                                                                <button
+                                                                    className="action-btn edit-btn"
+                                                                    onClick={() => !isPast && handleEdit(holiday)}
+                                                                    title={isPast ? "Cannot edit past holidays" : "Edit holiday"}
+                                                                    disabled={isPast}
+                                                                    style={{
+                                                                        backgroundColor: 'transparent',
+                                                                        border: 'none',
+                                                                        cursor: isPast ? 'not-allowed' : 'pointer',
+                                                                        color: isPast ? '#a0a0a0' : '#3c6ff2',
+                                                                        display: 'inline-flex',
+                                                                        alignItems: 'center',
+                                                                        justifyContent: 'center',
+                                                                        fontSize: '16px'
+                                                                    }}
+                                                                >
+                                                                    <FaPen />
+                                                                </button>
+                                                                <button
+                                                                    className="action-btn delete-btn"
+                                                                    onClick={() => !isPast && !isEditMode && handleDelete(holiday.id, holiday.name)}
+                                                                    disabled={deleteMutation.isLoading || isPast || isEditMode}
+                                                                    title={isPast ? "Cannot delete past holidays" : isEditMode ? "Finish editing to delete" : "Delete holiday"}
+                                                                    style={{
+                                                                        cursor: (isPast || isEditMode) ? 'not-allowed' : 'pointer',
+                                                                        color: (isPast || isEditMode) ? '#a0a0a0' : undefined
+                                                                    }}
+                                                                >
+                                                                    <FaTrash />
+                                                                </button>
+                                                            </div>
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </div>
+                        <ConfirmationDialog
+                            isOpen={deleteConfirmOpen}
+                            title="Delete Holiday"
+                            message={`Are you sure you want to delete "${selectedHoliday?.name}"? This action cannot be undone.`}
+                            confirmText="Delete"
+                            cancelText="Cancel"
+                            type="danger"
+                            isLoading={deleteMutation.isLoading}
+                            onConfirm={confirmDelete}
+                            onCancel={() => {
+                                setDeleteConfirmOpen(false);
+                                setSelectedHoliday(null);
+                            }}
+                        />
+                    </div>
+                    </>
+                )}
             </div>
         </AppLayout>
     );
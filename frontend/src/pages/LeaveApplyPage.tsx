@@ -17,6 +17,9 @@ import {
 import { Button } from '../components/ui/button';
 import { ChevronDown } from 'lucide-react';
 import * as leaveService from '../services/leaveService';
+import * as floatingHolidayService from '../services/floatingHolidayService';
+import { FloatingHolidayClaim } from '../services/floatingHolidayService';
+import { getMySchedule, DEFAULT_WORK_SCHEDULE } from '../services/workScheduleService';
 import { format, addDays, eachDayOfInterval } from 'date-fns';
 import { FaTrash, FaEye, FaSort, FaSortUp, FaSortDown } from 'react-icons/fa';
 import EmptyState from '../components/common/EmptyState';
@@ -32,6 +35,7 @@ const LeaveApplyPage: React.FC = () => {
   const [deleteRequestId, setDeleteRequestId] = useState<number | null>(null);
   const [viewModalOpen, setViewModalOpen] = useState(false);
   const [viewRequest, setViewRequest] = useState<any | null>(null);
+  const [floatingClaimTarget, setFloatingClaimTarget] = useState<leaveService.Holiday | null>(null);
   const todayStr = format(new Date(), 'yyyy-MM-dd');
   const currentYear = new Date().getFullYear();
   const [doctorNoteFile, setDoctorNoteFile] = useState<File | null>(null);
@@ -101,18 +105,19 @@ const LeaveApplyPage: React.FC = () => {
     return value.replace(/[^a-zA-Z\s]/g, '');
   };
 
-  // Check if a date is a weekend (Sunday = 0, Saturday = 6)
-  // For interns, Saturday is a working day, so only Sunday is considered a weekend.
+  // Weekdays the user works, from their assigned work schedule
+  const { data: workSchedule } = useQuery('myWorkSchedule', getMySchedule, {
+    retry: false,
+    staleTime: 5 * 60 * 1000
+  });
+  const workingDays = workSchedule?.workingDays ?? DEFAULT_WORK_SCHEDULE.workingDays;
+
+  // Check if a date is a weekend, i.e. a day off in the user's work schedule (Sunday = 0, Saturday = 6)
   const isWeekend = useCallback((dateStr: string): boolean => {
     if (!dateStr) return false;
     const date = new Date(dateStr + 'T00:00:00');
-    const dayOfWeek = date.getDay();
-    const isSunday = dayOfWeek === 0;
-    const isSaturday = dayOfWeek === 6;
-    const isIntern = user?.role === 'intern';
-
-    return isSunday || (isSaturday && !isIntern);
-  }, [user?.role]);
+    return !workingDays.includes(date.getDay());
+  }, [workingDays]);
 
 
 
@@ -551,6 +556,27 @@ const LeaveApplyPage: React.FC = () => {
     });
   }, [holidaysData, selectedYear]);
 
+  // Floating holiday claims for the selected year, keyed by holiday (cancelled/rejected claims are ignored)
+  const { data: floatingSummary } = useQuery(
+    ['floatingHolidayClaims', selectedYear],
+    () => floatingHolidayService.getMyClaims(selectedYear),
+    { retry: false, keepPreviousData: true }
+  );
+  const floatingClaimsByHoliday = React.useMemo(() => {
+    const claims = new Map<number, FloatingHolidayClaim>();
+    (floatingSummary?.claims || []).forEach((claim) => {
+      if (claim.status === 'pending' || claim.status === 'approved') claims.set(claim.holidayId, claim);
+    });
+    return claims;
+  }, [floatingSummary]);
+  const floatingQuotaLeft = floatingSummary ? floatingSummary.quota - floatingSummary.used : 0;
+
+  // Optional (floating) holidays remain working days unless the employee's claim for one is approved
+  const dayOffHolidays = React.useMemo(
+    () => holidays.filter((holiday: any) => !holiday.isOptional || floatingClaimsByHoliday.get(holiday.id)?.status === 'approved'),
+    [holidays, floatingClaimsByHoliday]
+  );
+
   // Helper to find the next valid working date starting from a given date
   const getNextWorkingDate = useCallback((startDate: Date) => {
     let currentDate = new Date(startDate);
@@ -565,7 +591,7 @@ const LeaveApplyPage: React.FC = () => {
       }
 
       // Check if it's a holiday
-      const isHoliday = holidays.some((h: any) => h.date === dateStr);
+      const isHoliday = dayOffHolidays.some((h: any) => h.date === dateStr);
       if (isHoliday) {
         currentDate = addDays(currentDate, 1);
         continue;
@@ -575,7 +601,7 @@ const LeaveApplyPage: React.FC = () => {
       return currentDate;
     }
     return startDate; // Fallback
-  }, [holidays, isWeekend]);
+  }, [dayOffHolidays, isWeekend]);
 
   // Set default dates on component mount if not editing/viewing
   useEffect(() => {
@@ -673,15 +699,11 @@ const LeaveApplyPage: React.FC = () => {
       const endHalf = formData.endType !== 'full';
 
       // Create a Set of holiday date strings for faster lookup relative to the holidays currently loaded/displayed
-      const holidaySet = new Set(holidays.map(h => h.date));
+      const holidaySet = new Set(dayOffHolidays.map(h => h.date));
 
       daysArr.forEach((d, idx) => {
         const dateStr = format(d, 'yyyy-MM-dd');
-        const dayOfWeek = d.getDay();
-        const isSunday = dayOfWeek === 0;
-        const isSaturday = dayOfWeek === 6;
-        const isIntern = user?.role === 'intern';
-        const isActuallyWeekend = isSunday || (isSaturday && !isIntern);
+        const isActuallyWeekend = !workingDays.includes(d.getDay());
         const isHoliday = holidaySet.has(dateStr);
 
         // If NOT LOP, skip weekends and holidays.
@@ -708,7 +730,7 @@ const LeaveApplyPage: React.FC = () => {
       console.error('Error calculating requested days:', e);
       return 0;
     }
-  }, [formData.startDate, formData.endDate, formData.startType, formData.endType, formData.leaveType, holidays]);
+  }, [formData.startDate, formData.endDate, formData.startType, formData.endType, formData.leaveType, dayOffHolidays, workingDays]);
 
   // Optimize date overlap check with memoization and early exits
   const checkDateOverlap = useCallback((): string | null => {
@@ -745,11 +767,7 @@ const LeaveApplyPage: React.FC = () => {
       for (const day of requestedDaysArray) {
         const dayStr = format(day, 'yyyy-MM-dd');
         const displayDateStr = format(day, 'dd-MM-yyyy');
-        const dayOfWeek = day.getDay();
-        const isSunday = dayOfWeek === 0;
-        const isSaturday = dayOfWeek === 6;
-        const isIntern = user?.role === 'intern';
-        const isActuallyWeekend = isSunday || (isSaturday && !isIntern);
+        const isActuallyWeekend = !workingDays.includes(day.getDay());
 
         if (isActuallyWeekend) continue; // Skip weekends
 
@@ -810,7 +828,7 @@ const LeaveApplyPage: React.FC = () => {
     }
 
     return null;
-  }, [formData.startDate, formData.endDate, formData.startType, formData.endType, myRequests?.requests, editingId]);
+  }, [formData.startDate, formData.endDate, formData.startType, formData.endType, myRequests?.requests, editingId, workingDays]);
 
 
 
@@ -833,13 +851,15 @@ const LeaveApplyPage: React.FC = () => {
         if (!variables.id && variables.data.leaveType !== 'permission' && previousBalances) {
           queryClient.setQueryData('leaveBalances', (old: any) => {
             if (!old) return old;
-            // Map leaveType to balance key
-            const balanceKey = variables.data.leaveType === 'casual' ? 'casual' :
-              variables.data.leaveType === 'sick' ? 'sick' : 'lop';
+            // Balances are keyed by leave type code
+            const balanceKey = variables.data.leaveType;
+            if (old.policies?.[balanceKey]?.requiresBalance === false) return old;
+            const nextBalance = (parseFloat(old[balanceKey] as string) || 0) - requestedDays;
 
             return {
               ...old,
-              [balanceKey]: (parseFloat(old[balanceKey] as string) || 0) - requestedDays
+              [balanceKey]: nextBalance,
+              balances: old.balances ? { ...old.balances, [balanceKey]: nextBalance } : old.balances
             };
           });
         }
@@ -979,6 +999,56 @@ const LeaveApplyPage: React.FC = () => {
     }
   );
 
+  const claimFloatingMutation = useMutation(floatingHolidayService.createClaim, {
+    onSuccess: () => {
+      queryClient.invalidateQueries('floatingHolidayClaims');
+      setFloatingClaimTarget(null);
+      showSuccess('Floating holiday claimed. It is a holiday for you once approved.');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to claim floating holiday');
+    }
+  });
+
+  const cancelFloatingMutation = useMutation(floatingHolidayService.cancelClaim, {
+    onSuccess: () => {
+      queryClient.invalidateQueries('floatingHolidayClaims');
+      showSuccess('Floating holiday claim cancelled');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to cancel floating holiday claim');
+    }
+  });
+
+  const renderFloatingClaim = (holiday: leaveService.Holiday) => {
+    const claim = holiday.id ? floatingClaimsByHoliday.get(holiday.id) : undefined;
+    if (claim) {
+      const canCancel = claim.status === 'pending' || holiday.date > todayStr;
+      return (
+        <span className="floating-claim">
+          <span className={`floating-claim-status ${claim.status}`}>{claim.status === 'approved' ? 'Claimed' : 'Pending'}</span>
+          {canCancel && (
+            <button
+              className="floating-claim-link"
+              disabled={cancelFloatingMutation.isLoading}
+              onClick={() => cancelFloatingMutation.mutate(claim.id)}
+            >
+              Cancel
+            </button>
+          )}
+        </span>
+      );
+    }
+    if (holiday.date < todayStr || isWeekend(holiday.date) || floatingQuotaLeft <= 0) return null;
+    return (
+      <span className="floating-claim">
+        <button className="floating-claim-link" onClick={() => setFloatingClaimTarget(holiday)}>
+          Claim
+        </button>
+      </span>
+    );
+  };
+
   const deleteMutation = useMutation(leaveService.deleteLeaveRequest, {
     onMutate: async (requestId) => {
       await queryClient.cancelQueries('myLeaveRequests');
@@ -1139,6 +1209,23 @@ const LeaveApplyPage: React.FC = () => {
       const isSameType = originalRequest && originalRequest.leaveType === formData.leaveType;
       const originalDays = originalRequest ? Number(originalRequest.noOfDays) : 0;
 
+      // Configurable leave types that carry a balance
+      const typePolicy = balances.policies?.[formData.leaveType];
+      if (!['casual', 'sick', 'lop', 'permission'].includes(formData.leaveType) && typePolicy?.requiresBalance !== false) {
+        const currentBalance = Number(balances.balances?.[formData.leaveType] ?? balances[formData.leaveType as keyof typeof balances] ?? 0);
+        const effectiveBalance = isSameType ? (currentBalance + originalDays) : currentBalance;
+        const typeName = typePolicy?.name || formData.leaveType;
+
+        if (effectiveBalance <= 0) {
+          showWarning(`${typeName} balance is zero. You cannot apply ${typeName}.`);
+          return;
+        }
+        if (requestedDays > effectiveBalance) {
+          showWarning(`Insufficient ${typeName} balance. Available: ${effectiveBalance}, Required: ${requestedDays}`);
+          return;
+        }
+      }
+
       if (formData.leaveType === 'casual') {
         const currentBalance = Number(balances.casual || 0);
         const effectiveBalance = isSameType ? (currentBalance + originalDays) : currentBalance;
@@ -1168,15 +1255,11 @@ const LeaveApplyPage: React.FC = () => {
             const endHalf = formData.endType !== 'full';
 
             // Filter out weekends and holidays for Casual leaves
-            const holidaySet = new Set(holidays.map(h => h.date));
+            const holidaySet = new Set(dayOffHolidays.map(h => h.date));
 
             currentRequestDays.forEach((day, idx) => {
               const dateStr = format(day, 'yyyy-MM-dd');
-              const dayOfWeek = day.getDay();
-              const isSunday = dayOfWeek === 0;
-              const isSaturday = dayOfWeek === 6;
-              const isIntern = user?.role === 'intern';
-              const isActuallyWeekend = isSunday || (isSaturday && !isIntern);
+              const isActuallyWeekend = !workingDays.includes(day.getDay());
               const isHoliday = holidaySet.has(dateStr);
 
               if (isActuallyWeekend || isHoliday) return;
@@ -1217,11 +1300,7 @@ const LeaveApplyPage: React.FC = () => {
                   const rEnd = new Date(req.endDate);
                   const rDays = eachDayOfInterval({ start: rStart, end: rEnd });
                   rDays.forEach(d => {
-                    const dayOfWeek = d.getDay();
-                    const isSunday = dayOfWeek === 0;
-                    const isSaturday = dayOfWeek === 6;
-                    const isIntern = user?.role === 'intern';
-                    const isActuallyWeekend = isSunday || (isSaturday && !isIntern);
+                    const isActuallyWeekend = !workingDays.includes(d.getDay());
                     const dateStr = format(d, 'yyyy-MM-dd');
 
                     if (format(d, 'yyyy-MM') === monthKey && !isActuallyWeekend && !holidaySet.has(dateStr)) {
@@ -1445,7 +1524,7 @@ const LeaveApplyPage: React.FC = () => {
       setEditingRequestId(requestId);
       const request = await leaveService.getLeaveRequest(requestId);
       setFormData({
-        leaveType: request.leaveType as 'casual' | 'sick' | 'lop' | 'permission',
+        leaveType: request.leaveType as string,
         startDate: request.startDate,
         startType: request.leaveType === 'permission'
           ? 'full'
@@ -1509,7 +1588,7 @@ const LeaveApplyPage: React.FC = () => {
     }
   };
 
-  const handleLeaveTypeChange = (newType: 'casual' | 'sick' | 'lop' | 'permission') => {
+  const handleLeaveTypeChange = (newType: string) => {
     // Calculate default dates
     const today = new Date();
     let defaultStartStr = '';
@@ -1704,20 +1783,17 @@ const LeaveApplyPage: React.FC = () => {
           <div className="leave-balances-section">
             <h2>Leave Balances</h2>
             <div className="balance-cards-container">
-              <div className="balance-card">
-                <div className="balance-label">Casual</div>
-                <div className="balance-value">{String(balances?.casual || 0).padStart(2, '0')}</div>
-              </div>
-              <div className="balance-separator"></div>
-              <div className="balance-card">
-                <div className="balance-label">Sick</div>
-                <div className="balance-value">{String(balances?.sick || 0).padStart(2, '0')}</div>
-              </div>
-              <div className="balance-separator"></div>
-              <div className="balance-card">
-                <div className="balance-label">LOP</div>
-                <div className="balance-value">{String(balances?.lop || 0).padStart(2, '0')}</div>
-              </div>
+              {Object.entries(balances?.balances || { casual: balances?.casual || 0, sick: balances?.sick || 0, lop: balances?.lop || 0 }).map(([code, value], index) => (
+                <React.Fragment key={code}>
+                  {index > 0 && <div className="balance-separator"></div>}
+                  <div className="balance-card">
+                    <div className="balance-label">
+                      {code === 'lop' ? 'LOP' : (balances?.policies?.[code]?.name?.replace(/ Leave$/i, '') || code.charAt(0).toUpperCase() + code.slice(1))}
+                    </div>
+                    <div className="balance-value">{String(value || 0).padStart(2, '0')}</div>
+                  </div>
+                </React.Fragment>
+              ))}
             </div>
           </div>
 
@@ -1746,6 +1822,11 @@ const LeaveApplyPage: React.FC = () => {
           <div className="holidays-section">
             <div className="holidays-header">
               <h2>Holidays List</h2>
+              {floatingSummary && holidays.some((holiday) => holiday.isOptional) && (
+                <span className="floating-quota" title="Floating holidays claimed (pending or approved) this year">
+                  Floating: {floatingSummary.used}/{floatingSummary.quota}
+                </span>
+              )}
               <div className="holiday-year-buttons">
                 {[currentYear - 1, currentYear, currentYear + 1].map(year => (
                   <button
@@ -1784,7 +1865,10 @@ const LeaveApplyPage: React.FC = () => {
                       {holidays.map((holiday, idx) => (
                         <tr key={idx}>
                           <td>{format(new Date(holiday.date + 'T00:00:00'), 'dd-MM-yyyy')}</td>
-                          <td>{holiday.name}</td>
+                          <td>
+                            {holiday.name}{holiday.isOptional ? ' (Floating)' : ''}
+                            {holiday.isOptional && renderFloatingClaim(holiday)}
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -1839,7 +1923,7 @@ const LeaveApplyPage: React.FC = () => {
 
                       return (
                         <React.Fragment key={code}>
-                          <DropdownMenuItem onClick={() => handleLeaveTypeChange(code as any)}>
+                          <DropdownMenuItem onClick={() => handleLeaveTypeChange(code)}>
                             {policy.name || code.charAt(0).toUpperCase() + code.slice(1)}
                           </DropdownMenuItem>
                           {index < array.length - 1 && <DropdownMenuSeparator />}
@@ -1868,7 +1952,7 @@ const LeaveApplyPage: React.FC = () => {
                     const blockedWeekend = !isLop && isWeekend(newStartDate);
 
                     // Check for holidays
-                    const holiday = holidays.find(h => h.date === newStartDate);
+                    const holiday = dayOffHolidays.find(h => h.date === newStartDate);
                     const blockedHoliday = !isLop && !!holiday;
 
                     if (blockedWeekend) {
@@ -1906,7 +1990,7 @@ const LeaveApplyPage: React.FC = () => {
                     // If LOP, allow everything. If not, block weekends and holidays
                     if (isLop) return false;
 
-                    const isHoliday = holidays.some(h => h.date === dateStr);
+                    const isHoliday = dayOffHolidays.some(h => h.date === dateStr);
                     return isWeekend(dateStr) || isHoliday;
                   }}
                 />
@@ -1987,7 +2071,7 @@ const LeaveApplyPage: React.FC = () => {
                         const blockedWeekend = !isLop && isWeekend(newEndDate);
 
                         // Check for holidays
-                        const holiday = holidays.find(h => h.date === newEndDate);
+                        const holiday = dayOffHolidays.find(h => h.date === newEndDate);
                         const blockedHoliday = !isLop && !!holiday;
 
                         if (blockedWeekend) {
@@ -2024,7 +2108,7 @@ const LeaveApplyPage: React.FC = () => {
                         // If LOP, allow everything. If not, block weekends and holidays
                         if (isLop) return false;
 
-                        const isHoliday = holidays.some(h => h.date === dateStr);
+                        const isHoliday = dayOffHolidays.some(h => h.date === dateStr);
                         return isWeekend(dateStr) || isHoliday;
                       }}
                     />
@@ -2669,6 +2753,19 @@ const LeaveApplyPage: React.FC = () => {
           }
         }}
       />
+      <ConfirmationDialog
+        isOpen={!!floatingClaimTarget}
+        title="Claim Floating Holiday"
+        message={floatingClaimTarget
+          ? `Take ${floatingClaimTarget.name} (${format(new Date(floatingClaimTarget.date + 'T00:00:00'), 'dd-MM-yyyy')}) as one of your ${floatingSummary?.quota ?? 0} floating holidays for ${selectedYear}? Your reporting manager needs to approve it.`
+          : ''}
+        confirmText="Claim"
+        cancelText="Cancel"
+        type="info"
+        isLoading={claimFloatingMutation.isLoading}
+        onConfirm={() => floatingClaimTarget?.id && claimFloatingMutation.mutate({ holidayId: floatingClaimTarget.id })}
+        onCancel={() => setFloatingClaimTarget(null)}
+      />
       <ConfirmationDialog
         isOpen={deleteConfirmOpen}
         title="Delete Leave Request"
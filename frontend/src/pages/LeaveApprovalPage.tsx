@@ -4,6 +4,7 @@ import AppLayout from '../components/layout/AppLayout';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
 import LeaveDetailsModal from '../components/LeaveDetailsModal';
+import FloatingHolidayApprovals from '../components/FloatingHolidayApprovals';
 import ErrorDisplay from '../components/common/ErrorDisplay';
 import { DatePicker } from '../components/ui/date-picker';
 import {
@@ -21,6 +22,21 @@ import { FaPencilAlt, FaEye, FaSort, FaSortUp, FaSortDown } from 'react-icons/fa
 import EmptyState from '../components/common/EmptyState';
 import './LeaveApprovalPage.css';
 
+const APPROVAL_STAGE_LABELS: Record<string, string> = {
+  manager: 'Reporting Manager',
+  hr: 'HR'
+};
+
+/**
+ * "Stage 2 of 2 · Awaiting HR" for requests on a multi-stage approval workflow
+ */
+const formatApprovalStage = (request: leaveService.PendingLeaveRequest): string | null => {
+  const stages = (request.approvalStages || []).filter((stage) => stage.status !== 'skipped');
+  if (stages.length < 2 || !request.currentStage) return null;
+  const position = stages.findIndex((stage) => stage.status === 'pending') + 1;
+  return `Stage ${position} of ${stages.length} · Awaiting ${APPROVAL_STAGE_LABELS[request.currentStage] || request.currentStage}`;
+};
+
 const LeaveApprovalPage: React.FC = () => {
   const queryClient = useQueryClient();
   const { showSuccess, showError } = useToast();
@@ -129,11 +145,12 @@ const LeaveApprovalPage: React.FC = () => {
         // We do NOT optimistically remove the request anymore to avoid state inconsistency
         // while the modal is open. We just wait for invalidation.
       },
-      onSuccess: async () => {
+      onSuccess: async (data: any) => {
         // Invalidate in background
         queryClient.invalidateQueries(['pendingLeaves']);
         queryClient.invalidateQueries(['approvedLeaves']);
-        showSuccess('Leave Approved Successfully!');
+        // Multi-stage workflows: the request moves on to the next approver
+        showSuccess(data?.awaitingStage ? data.message : 'Leave Approved Successfully!');
 
         // Always close the modal after approval
         setIsModalOpen(false);
@@ -278,6 +295,9 @@ const LeaveApprovalPage: React.FC = () => {
           approverName: fullRequest.approverName || request.approverName || null,
           approverRole: fullRequest.approverRole || request.approverRole || null,
           empStatus: fullRequest.empStatus || request.empStatus || null,
+          empWorkingDays: request.empWorkingDays,
+          empHolidayCalendarId: request.empHolidayCalendarId,
+          empFloatingHolidayIds: request.empFloatingHolidayIds,
           timeForPermission: fullRequest.timeForPermission || request.timeForPermission || null,
           leaveDays: fullRequest.leaveDays || [],
           canEdit: (() => {
@@ -348,6 +368,9 @@ const LeaveApprovalPage: React.FC = () => {
         approverName: fullRequest.approverName || request.approverName || null,
         approverRole: fullRequest.approverRole || request.approverRole || null,
         empStatus: fullRequest.empStatus || request.empStatus || null,
+        empWorkingDays: request.empWorkingDays,
+        empHolidayCalendarId: request.empHolidayCalendarId,
+        empFloatingHolidayIds: request.empFloatingHolidayIds,
         timeForPermission: fullRequest.timeForPermission || request.timeForPermission || null,
         leaveDays: fullRequest.leaveDays || []
       });
@@ -894,6 +917,9 @@ const LeaveApprovalPage: React.FC = () => {
 
                           <td>
                             {request.empName}
+                            {request.delegatedFrom && (
+                              <div className="approval-stage-info">On behalf of {request.delegatedFrom}</div>
+                            )}
                           </td>
                           <td>{formatDateSafe(request.appliedDate)}</td>
                           <td>{leaveDateRange}</td>
@@ -916,6 +942,9 @@ const LeaveApprovalPage: React.FC = () => {
                             ) : (
                               <span className="status-badge">{request.displayStatus}</span>
                             )}
+                            {formatApprovalStage(request) && (
+                              <div className="approval-stage-info">{formatApprovalStage(request)}</div>
+                            )}
                           </td>
                           <td>
                             <div className="actions-cell">
@@ -942,6 +971,8 @@ const LeaveApprovalPage: React.FC = () => {
             </div>
           </div>
 
+          <FloatingHolidayApprovals />
+
           <div className="approved-requests-section">
             <div className="requests-section-header">
               <h2>Recent Leave Requests</h2>
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import { FaFileExcel } from 'react-icons/fa';
+import AppLayout from '../components/layout/AppLayout';
+import EmptyState from '../components/common/EmptyState';
+import { useToast } from '../contexts/ToastContext';
+import * as leaveEncashmentService from '../services/leaveEncashmentService';
+import { EncashmentStatus } from '../services/leaveEncashmentService';
+import './LeaveEncashmentPage.css';
+
+const currentYear = new Date().getFullYear();
+const YEAR_OPTIONS = [currentYear, currentYear - 1, currentYear - 2];
+
+/**
+ * Year-end leave encashment per employee, for HR to hand over to payroll.
+ * Days above a policy's carry forward limit are encashed up to its
+ * "Max Encashable Days"; HR marks them paid once payroll has settled them.
+ */
+const LeaveEncashmentPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [year, setYear] = useState(currentYear);
+  const [status, setStatus] = useState<EncashmentStatus | ''>('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data, isLoading, isFetching } = useQuery(
+    ['leaveEncashments', year, status],
+    () => leaveEncashmentService.getEncashmentReport(year, status || undefined),
+    { retry: false, keepPreviousData: true }
+  );
+  const employees = data?.employees || [];
+  const totalDays = employees.reduce((sum, employee) => sum + employee.totalDays, 0);
+  const pendingIds = employees.flatMap((employee) =>
+    employee.items.filter((item) => item.status === 'pending').map((item) => item.id)
+  );
+
+  const markPaidMutation = useMutation(leaveEncashmentService.markEncashmentsPaid, {
+    onSuccess: (result) => {
+      queryClient.invalidateQueries('leaveEncashments');
+      showSuccess(result.message || 'Encashments marked as paid');
+    },
+    onError: (error: any) => {
+      showError(error.response?.data?.error?.message || 'Failed to mark encashments as paid');
+    }
+  });
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await leaveEncashmentService.exportEncashmentReport(year, status || undefined);
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `leave-encashment-${year}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      showSuccess('Encashment report exported successfully');
+    } catch (error: any) {
+      console.error('Failed to export encashment report:', error);
+      showError(error.response?.data?.error?.message || 'Failed to export encashment report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="leave-encashment-page">
+        <div className="le-header">
+          <h1 className="page-title">Leave Encashment</h1>
+          <div className="le-header-actions">
+            <button
+              className="le-secondary-button"
+              onClick={() => markPaidMutation.mutate(pendingIds)}
+              disabled={pendingIds.length === 0 || markPaidMutation.isLoading}
+            >
+              {markPaidMutation.isLoading ? 'Saving...' : 'Mark All Paid'}
+            </button>
+            <button className="le-export-button" onClick={handleExport} disabled={isExporting || employees.length === 0}>
+              <FaFileExcel /> {isExporting ? 'Exporting...' : 'Export'}
+            </button>
+          </div>
+        </div>
+
+        <div className="le-filters">
+          <div className="le-filter-group">
+            <label>Leave Year</label>
+            <select value={year} onChange={(e) => setYear(parseInt(e.target.value, 10))}>
+              {YEAR_OPTIONS.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+          <div className="le-filter-group">
+            <label>Status</label>
+            <select value={status} onChange={(e) => setStatus(e.target.value as EncashmentStatus | '')}>
+              <option value="">All</option>
+              <option value="pending">Pending payout</option>
+              <option value="paid">Paid</option>
+            </select>
+          </div>
+          <div className="le-summary">
+            {employees.length} employee(s) · <strong>{totalDays}</strong> day(s)
+          </div>
+        </div>
+
+        <div className={`le-table-container ${isFetching && !isLoading ? 'fetching' : ''}`}>
+          {isLoading ? (
+            <div className="le-loading">Loading encashments...</div>
+          ) : employees.length === 0 ? (
+            <EmptyState
+              title="No Encashments"
+              description={`No leave was encashed at the end of ${year}.`}
+            />
+          ) : (
+            <table className="le-table">
+              <thead>
+                <tr>
+                  <th>Emp ID</th>
+                  <th>Employee</th>
+                  <th>Leave Type</th>
+                  <th>Days</th>
+                  <th>Status</th>
+                  <th>Paid On</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {employees.map((employee) =>
+                  employee.items.map((item, index) => (
+                    <tr key={item.id}>
+                      <td>{index === 0 ? employee.empId : ''}</td>
+                      <td>{index === 0 ? employee.employeeName : ''}</td>
+                      <td>{item.leaveTypeName}</td>
+                      <td>{item.days}</td>
+                      <td>
+                        <span className={`le-status le-status-${item.status}`}>
+                          {item.status === 'paid' ? 'Paid' : 'Pending'}
+                        </span>
+                      </td>
+                      <td>{item.paidAt ? format(new Date(item.paidAt), 'dd MMM yyyy') : '-'}</td>
+                      <td className="le-actions">
+                        {item.status === 'pending' && (
+                          <button
+                            disabled={markPaidMutation.isLoading}
+                            onClick={() => markPaidMutation.mutate([item.id])}
+                          >
+                            Mark Paid
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default LeaveEncashmentPage;
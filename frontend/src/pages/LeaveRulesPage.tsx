@@ -3,9 +3,10 @@ import { useQuery, useMutation, useQueryClient } from 'react-query';
 import AppLayout from '../components/layout/AppLayout';
 import { useToast } from '../contexts/ToastContext';
 import * as leaveRuleService from '../services/leaveRuleService';
-import { LeaveType, LeavePolicyConfig } from '../services/leaveRuleService';
-import { FaPlus, FaTrash, FaCog, FaList, FaEdit, FaTimes } from 'react-icons/fa';
+import { LeaveType, LeavePolicyConfig, LeaveTypeBalanceSettings } from '../services/leaveRuleService';
+import { FaPlus, FaTrash, FaCog, FaList, FaEdit, FaTimes, FaSitemap } from 'react-icons/fa';
 import ConfirmationDialog from '../components/ConfirmationDialog';
+import ApprovalWorkflowsPanel from '../components/ApprovalWorkflowsPanel';
 import { DatePicker } from '../components/ui/date-picker';
 import './LeaveRulesPage.css';
 import {
@@ -17,10 +18,16 @@ import {
 import { Button } from '../components/ui/button';
 import { ChevronDown } from 'lucide-react';
 
+const getBalanceSettings = (type: LeaveType) => ({
+    requires_balance: type.requires_balance !== false,
+    max_balance: String(parseFloat(type.max_balance || '99')),
+    default_balance: String(parseFloat(type.default_balance || '0'))
+});
+
 const LeaveRulesPage: React.FC = () => {
     const queryClient = useQueryClient();
     const { showSuccess, showError } = useToast();
-    const [activeTab, setActiveTab] = useState<'policies' | 'types'>('policies');
+    const [activeTab, setActiveTab] = useState<'policies' | 'types' | 'workflows'>('policies');
     const [selectedRole, setSelectedRole] = useState<string>('hr');
 
     // -- Fetch Data --
@@ -29,14 +36,18 @@ const LeaveRulesPage: React.FC = () => {
 
     // -- Mutations --
     const createTypeMutation = useMutation(
-        (data: { code: string; name: string; description: string; roles: string[] }) =>
-            leaveRuleService.createLeaveType(data.code, data.name, data.description, data.roles),
+        (data: { code: string; name: string; description: string; roles: string[] } & LeaveTypeBalanceSettings) =>
+            leaveRuleService.createLeaveType(data.code, data.name, data.description, data.roles, {
+                requires_balance: data.requires_balance,
+                max_balance: data.max_balance,
+                default_balance: data.default_balance
+            }),
         {
             onSuccess: () => {
                 showSuccess('Leave Type Created');
                 queryClient.invalidateQueries('leaveRulesTypes');
                 queryClient.invalidateQueries('leaveRulesPolicies');
-                setNewTypeForm({ code: '', name: '', description: '', roles: [] as string[] });
+                setNewTypeForm(emptyTypeForm);
                 setIsCreatingType(false);
             },
             onError: (err: any) => showError(err.response?.data?.error || 'Failed To Create Leave Type')
@@ -58,12 +69,15 @@ const LeaveRulesPage: React.FC = () => {
     );
 
     const updateTypeMutation = useMutation(
-        (data: { id: number; name: string; description: string; is_active: boolean; roles: string[] }) =>
+        (data: { id: number; name: string; description: string; is_active: boolean; roles: string[] } & LeaveTypeBalanceSettings) =>
             leaveRuleService.updateLeaveType(data.id, {
                 name: data.name,
                 description: data.description,
                 is_active: data.is_active,
-                roles: data.roles
+                roles: data.roles,
+                requires_balance: data.requires_balance,
+                max_balance: data.max_balance,
+                default_balance: data.default_balance
             }),
         {
             onSuccess: () => {
@@ -89,10 +103,11 @@ const LeaveRulesPage: React.FC = () => {
 
     // -- State for forms --
     const [isCreatingType, setIsCreatingType] = useState(false);
-    const [newTypeForm, setNewTypeForm] = useState({ code: '', name: '', description: '', roles: [] as string[] });
+    const emptyTypeForm = { code: '', name: '', description: '', roles: [] as string[], requires_balance: true, max_balance: '99', default_balance: '0' };
+    const [newTypeForm, setNewTypeForm] = useState(emptyTypeForm);
 
     const [editingType, setEditingType] = useState<any | null>(null);
-    const [editTypeForm, setEditTypeForm] = useState({ name: '', description: '', is_active: true, roles: [] as string[] });
+    const [editTypeForm, setEditTypeForm] = useState({ name: '', description: '', is_active: true, roles: [] as string[], requires_balance: true, max_balance: '99', default_balance: '0' });
 
     // -- State for delete dialog --
     const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -164,6 +179,7 @@ const LeaveRulesPage: React.FC = () => {
                                                 max_leave_per_month: policy.max_leave_per_month,
                                                 anniversary_3_year_bonus: policy.anniversary_3_year_bonus,
                                                 anniversary_5_year_bonus: policy.anniversary_5_year_bonus,
+                                                max_encashable_days: policy.max_encashable_days,
                                                 effective_from: formattedEffectiveFrom
                                             });
                                         }}
@@ -201,6 +217,14 @@ const LeaveRulesPage: React.FC = () => {
                                             value={policy.max_leave_per_month}
                                         />
                                     </div>
+                                    <div className="lr-input-group">
+                                        <label>Max Encashable Days (Year End)</label>
+                                        <input
+                                            type="number"
+                                            disabled={true}
+                                            value={policy.max_encashable_days ?? 0}
+                                        />
+                                    </div>
                                     <div className="lr-input-group">
                                         <label>3-Year Anniversary Bonus (April, August, December Accrual)</label>
                                         <input
@@ -292,6 +316,22 @@ const LeaveRulesPage: React.FC = () => {
                                             }}
                                         />
                                     </div>
+                                    <div className="lr-input-group">
+                                        <label>Max Encashable Days (Year End)</label>
+                                        <input
+                                            type="number"
+                                            step="0.5"
+                                            min="0"
+                                            value={policyEditForm.max_encashable_days ?? ''}
+                                            onKeyDown={handleNumberKeyDown}
+                                            onChange={(e) => {
+                                                const val = parseFloat(e.target.value);
+                                                if (val < 0) return;
+                                                setPolicyEditForm({ ...policyEditForm, max_encashable_days: e.target.value })
+                                            }}
+                                        />
+                                        <span className="lr-hint">Days Above The Carry Forward Limit Paid Out Instead Of Lapsing.</span>
+                                    </div>
                                     <div className="lr-input-group">
                                         <label>3-Year Anniversary Bonus (April, August, December Accrual)</label>
                                         <input
@@ -354,6 +394,7 @@ const LeaveRulesPage: React.FC = () => {
                                             toNum(policyEditForm.max_leave_per_month) !== toNum(editingPolicy.max_leave_per_month) ||
                                             toNum(policyEditForm.anniversary_3_year_bonus) !== toNum(editingPolicy.anniversary_3_year_bonus) ||
                                             toNum(policyEditForm.anniversary_5_year_bonus) !== toNum(editingPolicy.anniversary_5_year_bonus) ||
+                                            toNum(policyEditForm.max_encashable_days) !== toNum(editingPolicy.max_encashable_days) ||
                                             (toDateStr(policyEditForm.effective_from) !== toDateStr(editingPolicy.effective_from))
                                         );
                                     })()}
@@ -389,6 +430,7 @@ const LeaveRulesPage: React.FC = () => {
                                             max_leave_per_month: editingPolicy.max_leave_per_month,
                                             anniversary_3_year_bonus: editingPolicy.anniversary_3_year_bonus,
                                             anniversary_5_year_bonus: editingPolicy.anniversary_5_year_bonus,
+                                            max_encashable_days: editingPolicy.max_encashable_days,
                                             effective_from: formattedEffectiveFrom
                                         });
                                     }}
@@ -433,6 +475,41 @@ const LeaveRulesPage: React.FC = () => {
                                     </div>
                                 </div>
 
+                                <div className="lr-form-row">
+                                    <div className="lr-form-group">
+                                        <label className="lr-role-checkbox">
+                                            <input
+                                                type="checkbox"
+                                                checked={newTypeForm.requires_balance}
+                                                onChange={e => setNewTypeForm({ ...newTypeForm, requires_balance: e.target.checked })}
+                                            />
+                                            Tracks Balance
+                                        </label>
+                                    </div>
+                                    {newTypeForm.requires_balance && (
+                                        <>
+                                            <div className="lr-form-group">
+                                                <label>Opening Balance</label>
+                                                <input
+                                                    type="text"
+                                                    inputMode="decimal"
+                                                    value={newTypeForm.default_balance}
+                                                    onChange={e => setNewTypeForm({ ...newTypeForm, default_balance: e.target.value.replace(/[^0-9.]/g, '') })}
+                                                />
+                                            </div>
+                                            <div className="lr-form-group">
+                                                <label>Max Balance</label>
+                                                <input
+                                                    type="text"
+                                                    inputMode="decimal"
+                                                    value={newTypeForm.max_balance}
+                                                    onChange={e => setNewTypeForm({ ...newTypeForm, max_balance: e.target.value.replace(/[^0-9.]/g, '') })}
+                                                />
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+
                                 <div className="lr-role-options-label">Select Roles This Leave Type Applies To: <span style={{ color: 'red' }}>*</span></div>
                                 <div className="lr-role-options">
                                     {['employee', 'manager', 'hr', 'intern', 'on_notice'].map(role => (
@@ -464,7 +541,7 @@ const LeaveRulesPage: React.FC = () => {
                             <button
                                 className="lr-cancel-btn"
                                 onClick={() => {
-                                    setNewTypeForm({ code: '', name: '', description: '', roles: [] });
+                                    setNewTypeForm(emptyTypeForm);
                                 }}
                             >
                                 Reset
@@ -539,6 +616,41 @@ const LeaveRulesPage: React.FC = () => {
                                     </div>
                                 </div>
 
+                                <div className="lr-form-row">
+                                    <div className="lr-form-group">
+                                        <label className="lr-role-checkbox">
+                                            <input
+                                                type="checkbox"
+                                                checked={editTypeForm.requires_balance}
+                                                onChange={e => setEditTypeForm({ ...editTypeForm, requires_balance: e.target.checked })}
+                                            />
+                                            Tracks Balance
+                                        </label>
+                                    </div>
+                                    {editTypeForm.requires_balance && (
+                                        <>
+                                            <div className="lr-form-group">
+                                                <label>Opening Balance</label>
+                                                <input
+                                                    type="text"
+                                                    inputMode="decimal"
+                                                    value={editTypeForm.default_balance}
+                                                    onChange={e => setEditTypeForm({ ...editTypeForm, default_balance: e.target.value.replace(/[^0-9.]/g, '') })}
+                                                />
+                                            </div>
+                                            <div className="lr-form-group">
+                                                <label>Max Balance</label>
+                                                <input
+                                                    type="text"
+                                                    inputMode="decimal"
+                                                    value={editTypeForm.max_balance}
+                                                    onChange={e => setEditTypeForm({ ...editTypeForm, max_balance: e.target.value.replace(/[^0-9.]/g, '') })}
+                                                />
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+
                                 <div className="lr-role-options-label">Select Roles This Leave Type Applies To:</div>
                                 <div className="lr-role-options">
                                     {['employee', 'manager', 'hr', 'intern', 'on_notice'].map(role => (
@@ -566,6 +678,7 @@ const LeaveRulesPage: React.FC = () => {
                                     editTypeForm.name === editingType.name &&
                                     editTypeForm.description === (editingType.description || '') &&
                                     editTypeForm.is_active === editingType.is_active &&
+                                    JSON.stringify({ requires_balance: editTypeForm.requires_balance, max_balance: editTypeForm.max_balance, default_balance: editTypeForm.default_balance }) === JSON.stringify(getBalanceSettings(editingType)) &&
                                     JSON.stringify([...(editTypeForm.roles || [])].sort()) === JSON.stringify([...(editingType.roles || [])].sort())
                                 )}
                                 onClick={() => updateTypeMutation.mutate({ id: editingType.id, ...editTypeForm })}
@@ -579,7 +692,8 @@ const LeaveRulesPage: React.FC = () => {
                                         name: editingType.name,
                                         description: editingType.description || '',
                                         is_active: editingType.is_active,
-                                        roles: editingType.roles || []
+                                        roles: editingType.roles || [],
+                                        ...getBalanceSettings(editingType)
                                     });
                                 }}
                             >
@@ -619,7 +733,8 @@ const LeaveRulesPage: React.FC = () => {
                                             name: type.name,
                                             description: type.description || '',
                                             is_active: type.is_active,
-                                            roles: type.roles || []
+                                            roles: type.roles || [],
+                                            ...getBalanceSettings(type)
                                         });
                                         setIsCreatingType(false);
                                     }}
@@ -662,11 +777,21 @@ const LeaveRulesPage: React.FC = () => {
                         >
                             <FaCog /> Leave Types
                         </button>
+                        <button
+                            className={`lr-tab ${activeTab === 'workflows' ? 'active' : ''}`}
+                            onClick={() => setActiveTab('workflows')}
+                        >
+                            <FaSitemap /> Approval Workflows
+                        </button>
                     </div>
                 </div>
 
                 <div className="lr-content">
-                    {activeTab === 'policies' ? renderPolicies() : renderLeaveTypes()}
+                    {activeTab === 'policies'
+                        ? renderPolicies()
+                        : activeTab === 'types'
+                            ? renderLeaveTypes()
+                            : <ApprovalWorkflowsPanel leaveTypes={leaveTypes} />}
                 </div>
 
                 {/* Delete Confirmation Dialog */}
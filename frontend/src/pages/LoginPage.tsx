@@ -1,8 +1,20 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useQuery } from 'react-query';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
-import { forgotPassword, verifyOTP, resetPassword } from '../services/authService';
+import {
+  forgotPassword,
+  verifyOTP,
+  resetPassword,
+  startMfaLoginSetup,
+  getOidcConfig,
+  getOidcLoginUrl,
+  MfaChallenge,
+  MfaEnrollment,
+  User
+} from '../services/authService';
+import MfaRecoveryCodes from '../components/MfaRecoveryCodes';
 import { FaEye, FaEyeSlash, FaTimes, FaUserTimes } from 'react-icons/fa';
 import './LoginPage.css';
 
@@ -12,9 +24,12 @@ const LoginPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [isInactive, setIsInactive] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
-  const { login, isAuthenticated, user } = useAuth();
+  const { login, completeMfaLogin, completeMfaSetup, isAuthenticated, user } = useAuth();
   const { showError, showWarning, showSuccess } = useToast();
   const navigate = useNavigate();
+  const location = useLocation();
+
+  const { data: oidcConfig } = useQuery('oidcConfig', getOidcConfig, { retry: false, staleTime: Infinity });
 
   // Forgot password state
   const [showForgotPassword, setShowForgotPassword] = useState(false);
@@ -27,16 +42,53 @@ const LoginPage: React.FC = () => {
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
 
+  // Two-factor step after the password was accepted
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [mfaEnrollment, setMfaEnrollment] = useState<MfaEnrollment | null>(null);
+  const [mfaSetupResult, setMfaSetupResult] = useState<{ user: User; recoveryCodes: string[] } | null>(null);
+
   // If user is already authenticated, redirect to dashboard
+  // (held back during two-factor setup so the new recovery codes can be shown first)
   React.useEffect(() => {
-    if (isAuthenticated && user) {
+    if (isAuthenticated && user && !mfaChallenge) {
       if (user.role === 'super_admin' || user.role === 'hr') {
         navigate('/dashboard');
       } else {
         navigate('/leave-apply');
       }
     }
-  }, [isAuthenticated, user, navigate]);
+  }, [isAuthenticated, user, navigate, mfaChallenge]);
+
+  // Coming back from single sign-on: an error in the query string, or a two-factor
+  // challenge in the fragment (kept out of server logs)
+  React.useEffect(() => {
+    const params = new URLSearchParams(location.search);
+    const ssoError = params.get('ssoError');
+    if (ssoError) {
+      showError(ssoError);
+    }
+
+    const fragment = new URLSearchParams(location.hash.replace(/^#/, ''));
+    const step = fragment.get('mfa');
+    const mfaToken = fragment.get('mfaToken');
+    if ((step === 'verify' || step === 'setup') && mfaToken) {
+      setMfaChallenge({ mfa: step, mfaToken });
+      if (step === 'setup') {
+        startMfaLoginSetup(mfaToken)
+          .then(setMfaEnrollment)
+          .catch((err: any) => {
+            showError(err.response?.data?.error?.message || 'Failed to start two-factor setup');
+            setMfaChallenge(null);
+          });
+      }
+    }
+
+    if (ssoError || mfaToken) {
+      navigate('/login', { replace: true });
+    }
+  }, []);
 
   React.useEffect(() => {
     // Prevent body scroll when login page is mounted
@@ -60,15 +112,19 @@ const LoginPage: React.FC = () => {
       const trimmedEmail = email.trim().toLowerCase();
       const trimmedPassword = password.trim();
 
-      const loggedInUser = await login(trimmedEmail, trimmedPassword);
+      const result = await login(trimmedEmail, trimmedPassword);
 
-      if (loggedInUser.mustChangePassword) {
-        navigate('/change-password');
-      } else if (loggedInUser.role === 'super_admin' || loggedInUser.role === 'hr') {
-        navigate('/dashboard');
-      } else {
-        navigate('/leave-apply');
+      if ('mfa' in result) {
+        setMfaCode('');
+        setUseRecoveryCode(false);
+        setMfaChallenge(result);
+        if (result.mfa === 'setup') {
+          setMfaEnrollment(await startMfaLoginSetup(result.mfaToken));
+        }
+        return;
       }
+
+      redirectAfterLogin(result);
     } catch (err: any) {
       const status = err.response?.status;
       const errorData = err.response?.data?.error;
@@ -78,8 +134,8 @@ const LoginPage: React.FC = () => {
         // Show dedicated inactive account screen and block further access
         setIsInactive(true);
       } else if (status === 429) {
-        // Too many requests (rate limiting)
-        showWarning('Too many requests. Try again later.');
+        // Too many failed attempts (account or IP locked out for a while)
+        showWarning(errorData?.message || 'Too many requests. Try again later.');
       } else if (errorData?.details && Array.isArray(errorData.details)) {
         // Show validation details if available
         const formatFieldName = (path: string[]): string => {
@@ -108,6 +164,57 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  const redirectAfterLogin = (loggedInUser: User) => {
+    if (loggedInUser.mustChangePassword) {
+      navigate('/change-password');
+    } else if (loggedInUser.role === 'super_admin' || loggedInUser.role === 'hr') {
+      navigate('/dashboard');
+    } else {
+      navigate('/leave-apply');
+    }
+  };
+
+  const handleCancelMfa = () => {
+    setMfaChallenge(null);
+    setMfaEnrollment(null);
+    setMfaSetupResult(null);
+    setMfaCode('');
+    setPassword('');
+  };
+
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaChallenge) return;
+    setLoading(true);
+
+    try {
+      if (mfaChallenge.mfa === 'setup') {
+        setMfaSetupResult(await completeMfaSetup(mfaChallenge.mfaToken, mfaCode.trim()));
+      } else {
+        const loggedInUser = await completeMfaLogin(mfaChallenge.mfaToken, mfaCode.trim());
+        setMfaChallenge(null);
+        redirectAfterLogin(loggedInUser);
+      }
+    } catch (err: any) {
+      const message = err.response?.data?.error?.message || err.message || 'Verification failed';
+      showError(message);
+      setMfaCode('');
+      // The verification session is gone; start again from the password
+      if (message.includes('sign in again')) handleCancelMfa();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMfaSetupDone = () => {
+    if (!mfaSetupResult) return;
+    const loggedInUser = mfaSetupResult.user;
+    setMfaSetupResult(null);
+    setMfaEnrollment(null);
+    setMfaChallenge(null);
+    redirectAfterLogin(loggedInUser);
+  };
+
   const handleForgotPassword = async () => {
     if (!forgotPasswordEmail.trim()) {
       showError('Please enter your email address');
@@ -116,8 +223,8 @@ const LoginPage: React.FC = () => {
 
     setForgotPasswordLoading(true);
     try {
-      await forgotPassword({ email: forgotPasswordEmail.trim() });
-      showSuccess('OTP sent to your email.');
+      const { message } = await forgotPassword({ email: forgotPasswordEmail.trim() });
+      showSuccess(message || 'OTP sent to your email.');
       setForgotPasswordStep('otp');
     } catch (err: any) {
       const errorData = err.response?.data?.error;
@@ -227,6 +334,87 @@ const LoginPage: React.FC = () => {
               </button>
             </div>
           </>
+        ) : mfaChallenge ? (
+          <>
+            <div className="login-header">
+              <div className="login-logo">
+                <img src="https://hr--lms.s3.us-east-va.io.cloud.ovh.us/login-page/logo.png" alt="TensorGo logo" />
+              </div>
+            </div>
+            <div className="welcome-header">
+              <h2 className="welcome-title">{mfaChallenge.mfa === 'setup' ? 'SET UP 2FA' : 'VERIFY'}</h2>
+              <p className="welcome-subtitle">Two-factor authentication</p>
+            </div>
+            {mfaSetupResult ? (
+              <MfaRecoveryCodes codes={mfaSetupResult.recoveryCodes} onDone={handleMfaSetupDone} doneText="Continue" />
+            ) : (
+              <form onSubmit={handleMfaSubmit} className="login-form">
+                {mfaChallenge.mfa === 'setup' ? (
+                  <>
+                    <p className="mfa-login-description">
+                      Your role requires two-factor authentication. Scan this QR code with an authenticator app, or
+                      enter the key manually, then enter the 6-digit code it shows.
+                    </p>
+                    {mfaEnrollment ? (
+                      <div className="mfa-login-enroll">
+                        <img src={mfaEnrollment.qrCode} alt="Authenticator QR code" />
+                        <code>{mfaEnrollment.secret}</code>
+                      </div>
+                    ) : (
+                      <p className="mfa-login-description">Loading...</p>
+                    )}
+                  </>
+                ) : (
+                  <p className="mfa-login-description">
+                    {useRecoveryCode
+                      ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+                      : 'Enter the 6-digit code from your authenticator app.'}
+                  </p>
+                )}
+                <div className="form-group">
+                  <label>{useRecoveryCode ? 'Recovery Code' : 'Verification Code'}</label>
+                  <input
+                    type="text"
+                    value={mfaCode}
+                    onChange={(e) =>
+                      setMfaCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, 6))
+                    }
+                    inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                    autoComplete="one-time-code"
+                    autoFocus
+                    required
+                    placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '000000'}
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={loading || (useRecoveryCode ? mfaCode.trim().length < 6 : mfaCode.length !== 6)}
+                  className="login-button"
+                >
+                  {loading ? 'Verifying...' : mfaChallenge.mfa === 'setup' ? 'Turn On & Sign In' : 'Verify'}
+                </button>
+              </form>
+            )}
+            {!mfaSetupResult && (
+              <div className="forgot-password-link">
+                {mfaChallenge.mfa === 'verify' && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseRecoveryCode((prev) => !prev);
+                      setMfaCode('');
+                    }}
+                    className="forgot-password-button"
+                  >
+                    {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                  </button>
+                )}
+                <button type="button" onClick={handleCancelMfa} className="forgot-password-button">
+                  Back to Sign In
+                </button>
+              </div>
+            )}
+          </>
         ) : (
           <>
             <div className="login-header">
@@ -272,6 +460,23 @@ const LoginPage: React.FC = () => {
               <button type="submit" disabled={loading} className="login-button">
                 {loading ? 'Logging in...' : 'Sign In'}
               </button>
+              {oidcConfig?.enabled && (
+                <>
+                  <div className="login-divider">
+                    <span>or</span>
+                  </div>
+                  <button
+                    type="button"
+                    className="login-sso-button"
+                    disabled={loading}
+                    onClick={() => {
+                      window.location.href = getOidcLoginUrl();
+                    }}
+                  >
+                    Sign in with {oidcConfig.providerName}
+                  </button>
+                </>
+              )}
             </form>
             <div className="forgot-password-link">
               <button
@@ -5,6 +5,12 @@ import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import ConfirmationDialog from '../components/ConfirmationDialog';
 import ErrorDisplay from '../components/common/ErrorDisplay';
+import NotificationPreferences from '../components/NotificationPreferences';
+import ApprovalDelegationSettings from '../components/ApprovalDelegationSettings';
+import CalendarFeedSettings from '../components/CalendarFeedSettings';
+import MfaSettings from '../components/MfaSettings';
+import LoginHistory from '../components/LoginHistory';
+import ActiveSessions from '../components/ActiveSessions';
 import { DatePicker } from '../components/ui/date-picker';
 import {
   DropdownMenu,
@@ -29,7 +35,7 @@ const formatEducationLevel = (level: string): React.ReactNode => {
 };
 
 const ProfilePage: React.FC = () => {
-  const { user, refreshUser } = useAuth();
+  const { user, refreshUser, hasPermission } = useAuth();
   const queryClient = useQueryClient();
   const { showSuccess, showError, showWarning } = useToast();
   const [isEditMode, setIsEditMode] = useState(false);
@@ -1595,6 +1601,20 @@ const ProfilePage: React.FC = () => {
               </div>
             </div>
           )}
+
+          {hasPermission('leave.approve') && (
+            <ApprovalDelegationSettings />
+          )}
+
+          <MfaSettings />
+
+          <ActiveSessions />
+
+          <LoginHistory />
+
+          <CalendarFeedSettings />
+
+          <NotificationPreferences />
         </div>
       </AppLayout >
       <ConfirmationDialog
@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import AppLayout from '../components/layout/AppLayout';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import * as permissionService from '../services/permissionService';
+import { PermissionDefinition } from '../services/permissionService';
+import './RolePermissionsPage.css';
+
+const ROLE_LABELS: Record<string, string> = {
+  employee: 'Employee',
+  intern: 'Intern',
+  manager: 'Manager',
+  hr: 'HR',
+  super_admin: 'Super Admin'
+};
+
+// Mirrors the backend: removing it would leave nobody able to open this page
+const isLocked = (role: string, permission: string) => role === 'super_admin' && permission === 'role.manage';
+
+const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every((value) => b.includes(value));
+
+const RolePermissionsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { user, refreshUser } = useAuth();
+  const { showSuccess, showError } = useToast();
+
+  const { data, isLoading } = useQuery('rolePermissions', permissionService.getRolePermissions);
+  const [draft, setDraft] = useState<Record<string, string[]>>({});
+
+  useEffect(() => {
+    if (data) setDraft(data.roles);
+  }, [data]);
+
+  const roles = useMemo(() => Object.keys(data?.roles || {}), [data]);
+
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, PermissionDefinition[]>();
+    for (const permission of data?.permissions || []) {
+      if (!byGroup.has(permission.group)) byGroup.set(permission.group, []);
+      byGroup.get(permission.group)!.push(permission);
+    }
+    return Array.from(byGroup.entries());
+  }, [data]);
+
+  const saveMutation = useMutation(
+    ({ role, permissions }: { role: string; permissions: string[] }) =>
+      permissionService.updateRolePermissions(role, permissions),
+    {
+      onSuccess: (result) => {
+        queryClient.invalidateQueries('rolePermissions');
+        showSuccess(`Permissions saved for ${ROLE_LABELS[result.role] || result.role}`);
+        // Own role changed: reload the user so the menu reflects it
+        if (result.role === user?.role) refreshUser();
+      },
+      onError: (error: any) => {
+        showError(error.response?.data?.error?.message || 'Failed to save permissions');
+      }
+    }
+  );
+
+  const toggle = (role: string, permission: string) => {
+    const current = draft[role] || [];
+    setDraft({
+      ...draft,
+      [role]: current.includes(permission) ? current.filter((p) => p !== permission) : [...current, permission]
+    });
+  };
+
+  const isDirty = (role: string) => !!data && !sameSet(draft[role] || [], data.roles[role] || []);
+
+  return (
+    <AppLayout>
+      <div className="role-permissions-page">
+        <h1 className="page-title">Roles &amp; Permissions</h1>
+
+        <div className="rp-card">
+          <p className="rp-hint">
+            Choose what each role can do. Changes apply to everyone with that role within a minute; users see new menu
+            items the next time their session refreshes.
+          </p>
+
+          {isLoading || !data ? (
+            <div className="rp-loading">Loading permissions...</div>
+          ) : (
+            <table className="rp-table">
+              <thead>
+                <tr>
+                  <th>Permission</th>
+                  {roles.map((role) => (
+                    <th key={role} className="rp-role">{ROLE_LABELS[role] || role}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(([group, permissions]) => (
+                  <React.Fragment key={group}>
+                    <tr className="rp-group-row">
+                      <td colSpan={roles.length + 1}>{group}</td>
+                    </tr>
+                    {permissions.map((permission) => (
+                      <tr key={permission.key}>
+                        <td>
+                          {permission.label}
+                          <div className="rp-key">{permission.key}</div>
+                        </td>
+                        {roles.map((role) => (
+                          <td key={role} className="rp-role">
+                            <input
+                              type="checkbox"
+                              checked={(draft[role] || []).includes(permission.key)}
+                              disabled={isLocked(role, permission.key) || saveMutation.isLoading}
+                              title={isLocked(role, permission.key) ? 'Super Admin always keeps this permission' : undefined}
+                              onChange={() => toggle(role, permission.key)}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td />
+                  {roles.map((role) => (
+                    <td key={role} className="rp-role">
+                      <button
+                        className="rp-primary-btn"
+                        disabled={!isDirty(role) || saveMutation.isLoading}
+                        onClick={() => saveMutation.mutate({ role, permissions: draft[role] || [] })}
+                      >
+                        Save
+                      </button>
+                      {isDirty(role) && (
+                        <button
+                          className="rp-link-btn"
+                          disabled={saveMutation.isLoading}
+                          onClick={() => setDraft({ ...draft, [role]: data.roles[role] || [] })}
+                        >
+                          Reset
+                        </button>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default RolePermissionsPage;
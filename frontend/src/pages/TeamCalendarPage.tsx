@@ -0,0 +1,361 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isToday,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import AppLayout from '../components/layout/AppLayout';
+import EmptyState from '../components/common/EmptyState';
+import { useToast } from '../contexts/ToastContext';
+import * as teamCalendarService from '../services/teamCalendarService';
+import { AbsenceThresholdSettings, TeamCalendarHoliday, TeamCalendarLeaveDay } from '../services/teamCalendarService';
+import './TeamCalendarPage.css';
+
+const LEAVE_TYPE_LABELS: Record<string, string> = {
+  casual: 'Casual',
+  sick: 'Sick',
+  lop: 'LOP',
+  permission: 'Permission'
+};
+
+// Leave types configured later in Leave Rules share the fallback colour
+const LEAVE_TYPE_CLASSES = ['casual', 'sick', 'lop', 'permission'];
+
+const typeLabel = (leaveType: string) =>
+  LEAVE_TYPE_LABELS[leaveType] || leaveType.charAt(0).toUpperCase() + leaveType.slice(1);
+
+const toKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Who is out when: each reportee's (or project member's) leave days, permissions and
+ * holidays by day, with the share of the group out flagged against its absence threshold.
+ */
+const TeamCalendarPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [view, setView] = useState<'month' | 'week'>('month');
+  const [anchor, setAnchor] = useState(new Date());
+  const [projectId, setProjectId] = useState<number | undefined>(undefined);
+  const [teamThreshold, setTeamThreshold] = useState('');
+  const [projectThresholds, setProjectThresholds] = useState<Record<number, string>>({});
+
+  const rangeStart = view === 'month' ? startOfMonth(anchor) : startOfWeek(anchor, { weekStartsOn: 1 });
+  const rangeEnd = view === 'month' ? endOfMonth(anchor) : endOfWeek(anchor, { weekStartsOn: 1 });
+  const startKey = toKey(rangeStart);
+  const endKey = toKey(rangeEnd);
+
+  const { data: calendar, isLoading } = useQuery(
+    ['teamCalendar', startKey, endKey, projectId],
+    () => teamCalendarService.getTeamCalendar(startKey, endKey, projectId),
+    { retry: false, keepPreviousData: true }
+  );
+  const { data: settings } = useQuery('absenceThresholds', teamCalendarService.getThresholdSettings, { retry: false });
+
+  useEffect(() => {
+    if (!settings) return;
+    setTeamThreshold(settings.team?.threshold ? String(settings.team.threshold) : '');
+    setProjectThresholds(
+      Object.fromEntries(settings.projects.map((project) => [project.id, project.threshold ? String(project.threshold) : '']))
+    );
+  }, [settings]);
+
+  const days = useMemo(() => eachDayOfInterval({ start: rangeStart, end: rangeEnd }), [startKey, endKey]);
+
+  const leaveByCell = useMemo(() => {
+    const map = new Map<string, TeamCalendarLeaveDay[]>();
+    (calendar?.leaveDays || []).forEach((day) => {
+      const key = `${day.employeeId}:${day.date}`;
+      map.set(key, [...(map.get(key) || []), day]);
+    });
+    return map;
+  }, [calendar]);
+
+  const holidayByCell = useMemo(() => {
+    const map = new Map<string, TeamCalendarHoliday>();
+    (calendar?.holidays || []).forEach((holiday) => map.set(`${holiday.employeeId}:${holiday.date}`, holiday));
+    return map;
+  }, [calendar]);
+
+  const members = calendar?.members || [];
+  const selectedProject = settings?.projects.find((project) => project.id === projectId);
+  const threshold = projectId
+    ? selectedProject?.threshold ?? settings?.defaultThreshold
+    : settings?.team?.threshold ?? settings?.defaultThreshold;
+
+  // Approved leave counts as out; permissions only take a few hours
+  const outCountByDate = useMemo(() => {
+    const counts = new Map<string, number>();
+    (calendar?.leaveDays || []).forEach((day) => {
+      if (day.status !== 'approved' || day.leaveType === 'permission') return;
+      counts.set(day.date, (counts.get(day.date) || 0) + 1);
+    });
+    return counts;
+  }, [calendar]);
+
+  const saveMutation = useMutation(
+    ({ target, value }: { target: 'team' | number; value: number | null }) =>
+      target === 'team'
+        ? teamCalendarService.updateTeamThreshold(value)
+        : teamCalendarService.updateProjectThreshold(target, value),
+    {
+      onSuccess: (updated: AbsenceThresholdSettings) => {
+        queryClient.setQueryData('absenceThresholds', updated);
+        showSuccess('Absence threshold saved');
+      },
+      onError: (error: any) => {
+        showError(error.response?.data?.error?.message || 'Failed to save absence threshold');
+      }
+    }
+  );
+
+  const saveThreshold = (target: 'team' | number, raw: string) => {
+    const value = raw.trim() === '' ? null : Number(raw);
+    if (value !== null && (!Number.isInteger(value) || value < 1 || value > 100)) {
+      showError('Threshold must be a whole percentage between 1 and 100');
+      return;
+    }
+    saveMutation.mutate({ target, value });
+  };
+
+  const shift = (direction: 1 | -1) => {
+    setAnchor((current) => (view === 'month' ? addMonths(current, direction) : addWeeks(current, direction)));
+  };
+
+  const periodLabel = view === 'month'
+    ? format(rangeStart, 'MMMM yyyy')
+    : `${format(rangeStart, 'dd MMM')} - ${format(addDays(rangeStart, 6), 'dd MMM yyyy')}`;
+
+  const renderCell = (memberId: number, workingDays: number[], date: Date) => {
+    const key = toKey(date);
+    const holiday = holidayByCell.get(`${memberId}:${key}`);
+    const leaves = leaveByCell.get(`${memberId}:${key}`) || [];
+    const classes = ['tc-cell'];
+    if (!workingDays.includes(date.getDay())) classes.push('tc-off');
+    if (isToday(date)) classes.push('tc-today');
+
+    if (holiday) {
+      return (
+        <td key={key} className={`${classes.join(' ')} tc-holiday`} title={holiday.name}>
+          <span className="tc-holiday-mark">H</span>
+        </td>
+      );
+    }
+
+    const leave = leaves.find((day) => day.leaveType !== 'permission');
+    const permission = leaves.find((day) => day.leaveType === 'permission');
+    const titles = leaves.map((day) =>
+      day.leaveType === 'permission'
+        ? `Permission ${day.permissionStart || ''}-${day.permissionEnd || ''} (${day.status})`
+        : `${typeLabel(day.leaveType)}${day.dayType === 'half' ? ' half day' : ''} (${day.status})`
+    );
+
+    return (
+      <td key={key} className={classes.join(' ')} title={titles.join('\n') || undefined}>
+        {leave && (
+          <span
+            className={[
+              'tc-leave',
+              `tc-type-${LEAVE_TYPE_CLASSES.includes(leave.leaveType) ? leave.leaveType : 'other'}`,
+              leave.dayType === 'half' ? 'tc-half' : '',
+              leave.status === 'pending' ? 'tc-pending' : ''
+            ].join(' ')}
+          />
+        )}
+        {permission && <span className={`tc-permission ${permission.status === 'pending' ? 'tc-pending' : ''}`}>P</span>}
+      </td>
+    );
+  };
+
+  return (
+    <AppLayout>
+      <div className="team-calendar-page">
+        <div className="tc-toolbar">
+          <h1 className="page-title">Team Calendar</h1>
+          <div className="tc-controls">
+            {settings && settings.projects.length > 0 && (
+              <select
+                value={projectId ?? ''}
+                onChange={(e) => setProjectId(e.target.value ? parseInt(e.target.value, 10) : undefined)}
+              >
+                <option value="">My team</option>
+                {settings.projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.customId} - {project.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="tc-view-toggle">
+              {(['month', 'week'] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  className={view === option ? 'active' : ''}
+                  onClick={() => setView(option)}
+                >
+                  {option === 'month' ? 'Month' : 'Week'}
+                </button>
+              ))}
+            </div>
+            <button type="button" className="tc-nav-button" onClick={() => shift(-1)}>
+              Prev
+            </button>
+            <button type="button" className="tc-nav-button" onClick={() => setAnchor(new Date())}>
+              Today
+            </button>
+            <button type="button" className="tc-nav-button" onClick={() => shift(1)}>
+              Next
+            </button>
+            <span className="tc-period">{periodLabel}</span>
+          </div>
+        </div>
+
+        <div className="tc-card">
+          {isLoading && !calendar ? (
+            <div className="tc-hint">Loading...</div>
+          ) : members.length === 0 ? (
+            <EmptyState title="No team members" description="Nobody in this group has leave to show." />
+          ) : (
+            <div className="tc-grid-wrapper">
+              <table className={`tc-grid tc-grid-${view}`}>
+                <thead>
+                  <tr>
+                    <th className="tc-member-col">Employee</th>
+                    {days.map((date) => (
+                      <th key={toKey(date)} className={isToday(date) ? 'tc-today' : undefined}>
+                        <div className="tc-day-name">{format(date, view === 'month' ? 'EEEEE' : 'EEE')}</div>
+                        <div>{format(date, 'd')}</div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {members.map((member) => (
+                    <tr key={member.id}>
+                      <td className="tc-member-col">
+                        <div className="tc-member-name">{member.name}</div>
+                        <div className="tc-member-id">{member.empId}</div>
+                      </td>
+                      {days.map((date) => renderCell(member.id, member.workingDays, date))}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr>
+                    <td className="tc-member-col">Out</td>
+                    {days.map((date) => {
+                      const count = outCountByDate.get(toKey(date)) || 0;
+                      const percent = Math.round((count / members.length) * 100);
+                      const over = threshold !== undefined && count > 0 && percent > threshold;
+                      return (
+                        <td
+                          key={toKey(date)}
+                          className={over ? 'tc-over' : undefined}
+                          title={count > 0 ? `${count} of ${members.length} out (${percent}%)` : undefined}
+                        >
+                          {count > 0 ? count : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+
+          <div className="tc-legend">
+            {LEAVE_TYPE_CLASSES.filter((type) => type !== 'permission').map((type) => (
+              <span key={type}><span className={`tc-leave tc-type-${type}`} /> {typeLabel(type)}</span>
+            ))}
+            <span><span className="tc-leave tc-type-other" /> Other</span>
+            <span><span className="tc-leave tc-type-casual tc-half" /> Half day</span>
+            <span><span className="tc-leave tc-type-casual tc-pending" /> Pending</span>
+            <span><span className="tc-permission">P</span> Permission</span>
+            <span><span className="tc-holiday-mark">H</span> Holiday</span>
+            {threshold !== undefined && (
+              <span><span className="tc-over-swatch" /> More than {threshold}% out</span>
+            )}
+          </div>
+        </div>
+
+        {settings && (settings.team || settings.projects.length > 0) && (
+          <div className="tc-card">
+            <h2>Absence Warning Thresholds</h2>
+            <p className="tc-hint">
+              Approvers are warned when approving a leave would put more than this share of the team or project out
+              on the same day. Leave blank to use the default of {settings.defaultThreshold}%.
+            </p>
+            <table className="tc-threshold-table">
+              <tbody>
+                {settings.team && (
+                  <tr>
+                    <td>My team ({settings.team.memberCount} member(s))</td>
+                    <td>
+                      <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        placeholder={String(settings.defaultThreshold)}
+                        value={teamThreshold}
+                        onChange={(e) => setTeamThreshold(e.target.value)}
+                      />
+                      %
+                    </td>
+                    <td>
+                      <button
+                        type="button"
+                        className="tc-save-button"
+                        disabled={saveMutation.isLoading}
+                        onClick={() => saveThreshold('team', teamThreshold)}
+                      >
+                        Save
+                      </button>
+                    </td>
+                  </tr>
+                )}
+                {settings.projects.map((project) => (
+                  <tr key={project.id}>
+                    <td>
+                      {project.customId} - {project.name} ({project.memberCount} member(s))
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        placeholder={String(settings.defaultThreshold)}
+                        value={projectThresholds[project.id] ?? ''}
+                        onChange={(e) => setProjectThresholds({ ...projectThresholds, [project.id]: e.target.value })}
+                      />
+                      %
+                    </td>
+                    <td>
+                      <button
+                        type="button"
+                        className="tc-save-button"
+                        disabled={saveMutation.isLoading}
+                        onClick={() => saveThreshold(project.id, projectThresholds[project.id] ?? '')}
+                      >
+                        Save
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default TeamCalendarPage;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { useToast } from '../../contexts/ToastContext';
+import { Modal } from '../../components/ui/modal';
+import { PeriodRangeStatus, createReopenRequest } from '../../services/timesheetPeriodService';
+
+interface ClosedPeriodBannerProps {
+    periods: PeriodRangeStatus[];
+    /** Called after a reopen request has been raised */
+    onRequested: () => void;
+}
+
+const formatUntil = (value: string) =>
+    new Date(value).toLocaleString('en-GB', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Notice for closed months in the viewed week, with a reopen request to the reporting manager
+ */
+export const ClosedPeriodBanner: React.FC<ClosedPeriodBannerProps> = ({ periods, onRequested }) => {
+    const { showSuccess, showError } = useToast();
+    const [requestPeriod, setRequestPeriod] = useState<PeriodRangeStatus | null>(null);
+    const [reason, setReason] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const closed = periods.filter(p => p.is_closed);
+    if (closed.length === 0) return null;
+
+    const submitRequest = async () => {
+        if (!requestPeriod) return;
+        setSaving(true);
+        try {
+            await createReopenRequest({ periodStart: requestPeriod.period_start, reason: reason.trim() });
+            showSuccess(`Reopen request for ${requestPeriod.label} sent to your manager`);
+            setRequestPeriod(null);
+            setReason('');
+            onRequested();
+        } catch (err: any) {
+            showError(err.response?.data?.error?.message || 'Failed to request reopen');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <>
+            {closed.map(period => (
+                <div key={period.period_start} className={`ts-period-banner ${period.is_locked ? 'locked' : 'reopened'}`}>
+                    {period.is_locked ? <Lock size={16} /> : <Unlock size={16} />}
+                    <span>
+                        {period.is_locked
+                            ? `${period.label} is closed. Its entries are read-only.`
+                            : period.reopen_until
+                                ? `${period.label} is closed, but reopened for you until ${formatUntil(period.reopen_until)}.`
+                                : `${period.label} is closed. You can still edit it as a super admin.`}
+                    </span>
+                    {period.is_locked && (period.has_pending_request ? (
+                        <span className="ts-period-pending">Reopen request pending</span>
+                    ) : (
+                        <button className="ts-period-request-btn" onClick={() => setRequestPeriod(period)}>
+                            Request Reopen
+                        </button>
+                    ))}
+                </div>
+            ))}
+
+            <Modal
+                isOpen={!!requestPeriod}
+                onClose={() => setRequestPeriod(null)}
+                title={`Reopen ${requestPeriod?.label || ''}`}
+                footer={
+                    <>
+                        <button className="modal-btn secondary" onClick={() => setRequestPeriod(null)}>Cancel</button>
+                        <button className="modal-btn primary" onClick={submitRequest} disabled={saving || !reason.trim()}>
+                            {saving ? 'Sending...' : 'Send Request'}
+                        </button>
+                    </>
+                }
+            >
+                <p style={{ margin: '0 0 12px', fontSize: '14px', color: '#64748b' }}>
+                    Your reporting manager will be asked to reopen this month for you. Once approved you can change its entries for a limited time.
+                </p>
+                <textarea
+                    className="ts-form-textarea"
+                    rows={3}
+                    maxLength={500}
+                    placeholder="Why do you need to change this month?"
+                    value={reason}
+                    onChange={e => setReason(e.target.value)}
+                />
+            </Modal>
+        </>
+    );
+};
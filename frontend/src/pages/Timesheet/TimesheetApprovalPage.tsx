@@ -7,6 +7,7 @@ import AppLayout from '../../components/layout/AppLayout';
 import { Button } from '../../components/ui/button';
 
 import { TimesheetReportModal } from '../../components/timesheet/TimesheetReportModal';
+import { EntryChangesPanel } from '../../components/timesheet/EntryChangesPanel';
 import './TimesheetApprovalPage.css';
 
 interface TeamMemberStatus {
@@ -16,6 +17,7 @@ interface TeamMemberStatus {
     designation: string;
     reporting_manager_id: number;
     total_hours: number;
+    weekly_min_hours: number;
     status: 'draft' | 'submitted' | 'approved' | 'rejected' | 'pending_submission';
     is_late: boolean;
     is_resubmission: boolean;
@@ -89,6 +91,7 @@ export const TimesheetApprovalPage: React.FC = () => {
 
     const [activeDropdown, setActiveDropdown] = useState<string | null>(null);
     const [activeActionMenu, setActiveActionMenu] = useState<number | null>(null);
+    const [expandedEntryId, setExpandedEntryId] = useState<number | null>(null);
 
     const resetTableFilters = () => {
         setGlobalTableSearch('');
@@ -478,7 +481,7 @@ export const TimesheetApprovalPage: React.FC = () => {
                                             }
 
                                             const totalHours = selectedMember?.total_hours || 0;
-                                            const criteriaMet = totalHours >= 40;
+                                            const criteriaMet = totalHours >= (selectedMember?.weekly_min_hours ?? 40);
                                             const hasActionable = memberEntries.some(e => e.log_status === 'submitted');
                                             const isAllApproved = memberEntries.length > 0 && memberEntries.every(e => e.log_status === 'approved');
                                             const isAllRejected = memberEntries.length > 0 && memberEntries.every(e => e.log_status === 'rejected');
@@ -511,7 +514,8 @@ export const TimesheetApprovalPage: React.FC = () => {
                                 {/* Status Banner (Warning) */}
                                 {(() => {
                                     const totalHours = selectedMember?.total_hours || 0;
-                                    const criteriaMet = totalHours >= 40;
+                                    const weeklyMinHours = selectedMember?.weekly_min_hours ?? 40;
+                                    const criteriaMet = totalHours >= weeklyMinHours;
                                     const hasActionable = memberEntries.some(e => e.log_status === 'submitted');
                                     const allReviewed = memberEntries.length > 0 && memberEntries.every(e => e.log_status === 'approved' || e.log_status === 'rejected');
 
@@ -523,7 +527,7 @@ export const TimesheetApprovalPage: React.FC = () => {
                                                 </div>
                                                 <div>
                                                     <h3 style={{ margin: '0', fontSize: '14px', fontWeight: 600 }}>Submission Criteria Not Met</h3>
-                                                    <p style={{ margin: 0, fontSize: '12px', opacity: 0.9 }}>User has logged only {totalHours.toFixed(1)}h (min 40h required).</p>
+                                                    <p style={{ margin: 0, fontSize: '12px', opacity: 0.9 }}>User has logged only {totalHours.toFixed(1)}h (min {weeklyMinHours}h required).</p>
                                                 </div>
                                             </div>
                                         );
@@ -644,62 +648,83 @@ export const TimesheetApprovalPage: React.FC = () => {
                                                     </tr>
                                                 ) : (
                                                     processedEntries.map(entry => (
-                                                        <tr key={entry.id} className="ts-table-row">
-                                                            <td className="ts-col-project">{entry.project_name || 'System'}</td>
-                                                            <td className="ts-col-module">{entry.module_name || '—'}</td>
-                                                            <td className="ts-col-task">{entry.task_name || '—'}</td>
-                                                            <td className="ts-col-desc" title={entry.description}>
-                                                                {entry.description || '—'}
-                                                            </td>
-                                                            <td className="ts-col-date">{entry.log_date}</td>
-                                                            <td className="ts-col-time">{Number(entry.duration).toFixed(1)}h</td>
-                                                            <td className="ts-col-work">
-                                                                <span className={`ts-work-badge ts-work-${entry.work_status}`}>
-                                                                    {entry.work_status?.replace(/_/g, ' ')}
-                                                                </span>
-                                                            </td>
-                                                            <td className="ts-col-action">
-                                                                <div className="ts-action-cell">
-                                                                    {(entry.log_status !== 'submitted' || !canApprove) && (
-                                                                        <span className={`ts-log-badge ts-log-${entry.log_status}`}>
-                                                                            {entry.log_status}
-                                                                        </span>
-                                                                    )}
+                                                        <React.Fragment key={entry.id}>
+                                                            <tr className="ts-table-row">
+                                                                <td className="ts-col-project">{entry.project_name || 'System'}</td>
+                                                                <td className="ts-col-module">{entry.module_name || '—'}</td>
+                                                                <td className="ts-col-task">{entry.task_name || '—'}</td>
+                                                                <td className="ts-col-desc" title={entry.description}>
+                                                                    {entry.description || '—'}
+                                                                </td>
+                                                                <td className="ts-col-date">{entry.log_date}</td>
+                                                                <td className="ts-col-time">{Number(entry.duration).toFixed(1)}h</td>
+                                                                <td className="ts-col-work">
+                                                                    <span className={`ts-work-badge ts-work-${entry.work_status}`}>
+                                                                        {entry.work_status?.replace(/_/g, ' ')}
+                                                                    </span>
+                                                                </td>
+                                                                <td className="ts-col-action">
+                                                                    <div className="ts-action-cell">
+                                                                        {(entry.log_status !== 'submitted' || !canApprove) && (
+                                                                            <span className={`ts-log-badge ts-log-${entry.log_status}`}>
+                                                                                {entry.log_status}
+                                                                            </span>
+                                                                        )}
 
-                                                                    {entry.log_status === 'rejected' && entry.rejection_reason && (
-                                                                        <span className="ts-rejection-mini">
-                                                                            ⚠ {entry.rejection_reason}
-                                                                        </span>
-                                                                    )}
+                                                                        {entry.log_status === 'rejected' && entry.rejection_reason && (
+                                                                            <span className="ts-rejection-mini">
+                                                                                ⚠ {entry.rejection_reason}
+                                                                            </span>
+                                                                        )}
 
-                                                                    {entry.log_status === 'submitted' && canApprove && (
-                                                                        <div
-                                                                            className="ts-row-action-container"
-                                                                            onClick={(e) => {
-                                                                                e.stopPropagation();
-                                                                                setActiveActionMenu(activeActionMenu === entry.id ? null : entry.id!);
-                                                                            }}
-                                                                        >
-                                                                            <button className={`ts-action-trigger submitted ${activeActionMenu === entry.id ? 'active' : ''}`}>
-                                                                                <span>Submitted</span>
-                                                                                <ChevronDown size={14} />
+                                                                        {entry.log_status === 'submitted' && entry.changes_since_rejection && (
+                                                                            <button
+                                                                                className={`ts-resubmitted-badge ${expandedEntryId === entry.id ? 'active' : ''}`}
+                                                                                onClick={() => setExpandedEntryId(expandedEntryId === entry.id ? null : entry.id!)}
+                                                                                title="Show what changed since this entry was rejected"
+                                                                            >
+                                                                                {entry.changes_since_rejection.changes.length > 0
+                                                                                    ? `${entry.changes_since_rejection.changes.length} changed since rejection`
+                                                                                    : 'Unchanged since rejection'}
                                                                             </button>
+                                                                        )}
 
-                                                                            {activeActionMenu === entry.id && (
-                                                                                <div className="ts-action-dropdown animate-fadeIn">
-                                                                                    <div className="ts-dropdown-item approve" onClick={(e) => { e.stopPropagation(); handleApproveEntry(entry.id!); setActiveActionMenu(null); }}>
-                                                                                        <CheckCircle size={14} /> Approve
+                                                                        {entry.log_status === 'submitted' && canApprove && (
+                                                                            <div
+                                                                                className="ts-row-action-container"
+                                                                                onClick={(e) => {
+                                                                                    e.stopPropagation();
+                                                                                    setActiveActionMenu(activeActionMenu === entry.id ? null : entry.id!);
+                                                                                }}
+                                                                            >
+                                                                                <button className={`ts-action-trigger submitted ${activeActionMenu === entry.id ? 'active' : ''}`}>
+                                                                                    <span>Submitted</span>
+                                                                                    <ChevronDown size={14} />
+                                                                                </button>
+
+                                                                                {activeActionMenu === entry.id && (
+                                                                                    <div className="ts-action-dropdown animate-fadeIn">
+                                                                                        <div className="ts-dropdown-item approve" onClick={(e) => { e.stopPropagation(); handleApproveEntry(entry.id!); setActiveActionMenu(null); }}>
+                                                                                            <CheckCircle size={14} /> Approve
+                                                                                        </div>
+                                                                                        <div className="ts-dropdown-item reject" onClick={(e) => { e.stopPropagation(); openRejectEntry(entry.id!); setActiveActionMenu(null); }}>
+                                                                                            <XCircle size={14} /> Reject
+                                                                                        </div>
                                                                                     </div>
-                                                                                    <div className="ts-dropdown-item reject" onClick={(e) => { e.stopPropagation(); openRejectEntry(entry.id!); setActiveActionMenu(null); }}>
-                                                                                        <XCircle size={14} /> Reject
-                                                                                    </div>
-                                                                                </div>
-                                                                            )}
-                                                                        </div>
-                                                                    )}
-                                                                </div>
-                                                            </td>
-                                                        </tr>
+                                                                                )}
+                                                                            </div>
+                                                                        )}
+                                                                    </div>
+                                                                </td>
+                                                            </tr>
+                                                            {expandedEntryId === entry.id && (
+                                                                <tr>
+                                                                    <td colSpan={8} style={{ padding: 0 }}>
+                                                                        <EntryChangesPanel entry={entry} />
+                                                                    </td>
+                                                                </tr>
+                                                            )}
+                                                        </React.Fragment>
                                                     ))
                                                 )}
                                             </tbody>
@@ -11,12 +11,17 @@ import {
     ChevronDown,
     Lock,
     Repeat,
-    AlertCircle
+    AlertCircle,
+    Copy,
+    BookmarkPlus,
+    ListChecks
 } from 'lucide-react';
 
 import { useToast } from '../../contexts/ToastContext';
 import { useAuth } from '../../contexts/AuthContext';
-import { timesheetService, TimesheetEntry } from '../../services/timesheetService';
+import { timesheetService, TimesheetEntry, DraftEntryResult } from '../../services/timesheetService';
+import { getMySchedule, DEFAULT_WORK_SCHEDULE } from '../../services/workScheduleService';
+import { getRangeStatus, PeriodRangeStatus } from '../../services/timesheetPeriodService';
 import { projectService, Project, ProjectModule, ProjectTask } from '../../services/projectService';
 import AppLayout from '../../components/layout/AppLayout';
 
@@ -29,6 +34,9 @@ import {
 } from '../../components/ui/dropdown-menu';
 import { Button } from '../../components/ui/button';
 import { Modal } from '../../components/ui/modal';
+import { TimesheetTemplatesModal, describeDraftResult } from './TimesheetTemplatesModal';
+import { TimesheetTimer } from './TimesheetTimer';
+import { ClosedPeriodBanner } from './ClosedPeriodBanner';
 import './TimesheetPage.css';
 
 export const TimesheetPage: React.FC = () => {
@@ -96,19 +104,40 @@ export const TimesheetPage: React.FC = () => {
 
     const [viewMode, setViewMode] = useState<'cards' | 'table'>('table');
     const [loading, setLoading] = useState(false);
+    const [weeklyMinHours, setWeeklyMinHours] = useState(DEFAULT_WORK_SCHEDULE.weeklyMinHours);
 
     // Initial Load
     useEffect(() => {
         // Entries will be fetched by the next useEffect when weekRange is initialized
+        // The weekly minimum comes from the user's work schedule
+        getMySchedule()
+            .then(schedule => setWeeklyMinHours(schedule.weeklyMinHours))
+            .catch(err => console.error('[TimesheetPage] Work schedule fetch error:', err));
     }, []);
 
     // Fetch Entries when week changes
     useEffect(() => {
         const controller = new AbortController();
         fetchEntries(controller.signal);
+        fetchPeriodStatus();
         return () => controller.abort();
     }, [weekRange]);
 
+    // Close state of the month(s) the viewed week falls in
+    const [periodStatus, setPeriodStatus] = useState<PeriodRangeStatus[]>([]);
+    const fetchPeriodStatus = async () => {
+        try {
+            setPeriodStatus(await getRangeStatus(formatDate(weekRange.start), formatDate(weekRange.end)));
+        } catch (err: any) {
+            console.error('[TimesheetPage] Period status fetch error:', err);
+        }
+    };
+    const isPeriodLocked = periodStatus.length > 0 && periodStatus.every(p => p.is_locked);
+    const isInLockedPeriod = (logDate: string) => {
+        const month = formatDate(new Date(logDate)).substring(0, 7);
+        return periodStatus.some(p => p.is_locked && p.period_start.startsWith(month));
+    };
+
 
     const fetchEntries = async (signal?: AbortSignal) => {
         try {
@@ -179,6 +208,37 @@ export const TimesheetPage: React.FC = () => {
         }
     };
 
+    // Bulk drafts: copy last week / templates
+    const [isTemplatesModalOpen, setIsTemplatesModalOpen] = useState(false);
+    const [templateSourceEntry, setTemplateSourceEntry] = useState<TimesheetEntry | null>(null);
+    const canAddDrafts = isWeekEditable && !isWeekLocked && !isPeriodLocked && weekRange.start <= new Date();
+
+    const openTemplates = (entry: TimesheetEntry | null) => {
+        setTemplateSourceEntry(entry);
+        setIsTemplatesModalOpen(true);
+    };
+
+    const handleDraftResult = (result: DraftEntryResult) => {
+        if (result.created > 0) {
+            showSuccess(describeDraftResult(result));
+        } else {
+            showError(describeDraftResult(result));
+        }
+        fetchEntries();
+    };
+
+    const handleCopyPreviousWeek = async () => {
+        setLoading(true);
+        try {
+            const result = await timesheetService.copyPreviousWeek(formatDate(weekRange.start));
+            handleDraftResult(result);
+        } catch (err: any) {
+            showError(err.response?.data?.error || err.message || 'Failed to copy last week');
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const changeWeek = (offset: number) => {
         const newDate = new Date(currentDate);
         newDate.setDate(newDate.getDate() + (offset * 7));
@@ -247,7 +307,7 @@ export const TimesheetPage: React.FC = () => {
 
                     <div className="header-actions">
                         {/* Logged Hours Badge - As requested */}
-                        <div className={`logged-hours-badge ${parseFloat(String(totalHours)) >= 40 ? 'success' : 'warning'}`}>
+                        <div className={`logged-hours-badge ${parseFloat(String(totalHours)) >= weeklyMinHours ? 'success' : 'warning'}`}>
                             <Clock size={16} />
                             <span>{totalHours} hours logged this week</span>
                         </div>
@@ -281,10 +341,10 @@ export const TimesheetPage: React.FC = () => {
                                         <Button
                                             className="btn-primary"
                                             style={{ height: '36px', gap: '8px', backgroundColor: hasRejected ? '#dc2626' : undefined }}
-                                            disabled={th < 40 || loading}
+                                            disabled={th < weeklyMinHours || loading}
                                             onClick={async () => {
-                                                if (th < 40) {
-                                                    showError('You need at least 40 hours to submit.');
+                                                if (th < weeklyMinHours) {
+                                                    showError(`You need at least ${weeklyMinHours} hours to submit.`);
                                                     return;
                                                 }
                                                 try {
@@ -317,6 +377,30 @@ export const TimesheetPage: React.FC = () => {
                             return null;
                         })()}
 
+                        {canAddDrafts && (
+                            <>
+                                <Button
+                                    variant="outline"
+                                    style={{ height: '36px', gap: '8px' }}
+                                    disabled={loading}
+                                    onClick={handleCopyPreviousWeek}
+                                    title="Add last week's work logs to this week as drafts"
+                                >
+                                    <Copy size={16} />
+                                    Copy Last Week
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    style={{ height: '36px', gap: '8px' }}
+                                    disabled={loading}
+                                    onClick={() => openTemplates(null)}
+                                >
+                                    <ListChecks size={16} />
+                                    Templates
+                                </Button>
+                            </>
+                        )}
+
                         <div className="week-navigator">
                             <button className="nav-btn" onClick={() => changeWeek(-1)}><ChevronLeft size={20} /></button>
                             <span className="current-week-display">
@@ -335,6 +419,10 @@ export const TimesheetPage: React.FC = () => {
                     </div>
                 </div>
 
+                <ClosedPeriodBanner periods={periodStatus} onRequested={fetchPeriodStatus} />
+
+                <TimesheetTimer onLogged={() => fetchEntries()} />
+
                 <div className="timesheet-layout">
                     {/* List of entries */}
                     <div className="entries-list-card">
@@ -516,9 +604,22 @@ export const TimesheetPage: React.FC = () => {
                                                             </div>
 
                                                             {/* Actions removed for manual tasks - use Workspace for logging */}
+                                                            {!entry.is_system && !entry.project_name?.includes('System') && (
+                                                                <div className="entry-actions-sidebar">
+                                                                    <button
+                                                                        className="action-btn-styled edit"
+                                                                        onClick={() => openTemplates(entry)}
+                                                                        title="Save as Template"
+                                                                        disabled={loading}
+                                                                    >
+                                                                        <BookmarkPlus size={16} />
+                                                                    </button>
+                                                                </div>
+                                                            )}
                                                             {entry.module_name === 'Leave' && (entry.is_system || entry.project_name?.includes('System')) &&
                                                                 entry.log_status !== 'approved' &&
-                                                                entry.log_status !== 'submitted' && (
+                                                                entry.log_status !== 'submitted' &&
+                                                                !isInLockedPeriod(entry.log_date) && (
                                                                     <div className="entry-actions-sidebar">
                                                                         {parseFloat(String(entry.duration)) >= 8 && (
                                                                             <button
@@ -619,6 +720,15 @@ export const TimesheetPage: React.FC = () => {
                 </div>
 
 
+                <TimesheetTemplatesModal
+                    isOpen={isTemplatesModalOpen}
+                    onClose={() => setIsTemplatesModalOpen(false)}
+                    weekStart={formatDate(weekRange.start)}
+                    canApply={canAddDrafts}
+                    sourceEntry={templateSourceEntry}
+                    onApplied={handleDraftResult}
+                />
+
                 {/* Confirm Leave Action Modal */}
                 <Modal
                     isOpen={isLeaveActionModalOpen}
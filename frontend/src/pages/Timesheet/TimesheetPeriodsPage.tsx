@@ -0,0 +1,302 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import AppLayout from '../../components/layout/AppLayout';
+import EmptyState from '../../components/common/EmptyState';
+import ConfirmationDialog from '../../components/ConfirmationDialog';
+import RejectCommentDialog from '../../components/RejectCommentDialog';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
+import * as timesheetPeriodService from '../../services/timesheetPeriodService';
+import { ReopenRequest, ReopenRequestStatus, TimesheetPeriod } from '../../services/timesheetPeriodService';
+import './TimesheetPeriodsPage.css';
+
+const STATUS_LABELS: Record<ReopenRequestStatus, string> = {
+    pending: 'Pending',
+    approved: 'Approved',
+    rejected: 'Rejected'
+};
+
+const AUTO_CLOSE_DAYS = Array.from({ length: 28 }, (_, i) => i + 1);
+
+const formatTimestamp = (value: string | null) =>
+    value ? new Date(value).toLocaleString('en-GB', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' }) : '-';
+
+const monthLabel = (periodStart: string) =>
+    new Date(`${periodStart}T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+const requestStatus = (request: ReopenRequest) => (
+    <>
+        <span className={`tp-status tp-status-${request.status}`}>{STATUS_LABELS[request.status]}</span>
+        {request.status === 'approved' && request.reopen_until && (
+            <div className="tp-subtext">
+                {request.is_active ? 'Open until' : 'Expired'} {formatTimestamp(request.reopen_until)}
+            </div>
+        )}
+        {request.review_comment && <div className="tp-subtext">{request.review_comment}</div>}
+    </>
+);
+
+/**
+ * Timesheet period close: HR closes months (or lets them close on a set day of the next month),
+ * after which their entries are read-only; managers approve reopen requests from their team.
+ */
+export const TimesheetPeriodsPage: React.FC = () => {
+    const queryClient = useQueryClient();
+    const { hasPermission } = useAuth();
+    const { showSuccess, showError } = useToast();
+
+    const canManage = hasPermission('timesheet.period.manage');
+    const [autoCloseDay, setAutoCloseDay] = useState('');
+    const [periodAction, setPeriodAction] = useState<{ period: TimesheetPeriod; action: 'close' | 'reopen' } | null>(null);
+    const [rejectTarget, setRejectTarget] = useState<ReopenRequest | null>(null);
+
+    const { data: periodData, isLoading: periodsLoading } = useQuery('timesheetPeriods', timesheetPeriodService.getPeriods, {
+        enabled: canManage,
+        retry: false
+    });
+    const { data: requests, isLoading: requestsLoading } = useQuery('timesheetReopenRequests', timesheetPeriodService.getReopenRequests, {
+        retry: false
+    });
+
+    useEffect(() => {
+        if (periodData) setAutoCloseDay(periodData.settings.auto_close_day ? String(periodData.settings.auto_close_day) : '');
+    }, [periodData]);
+
+    const onError = (fallback: string) => (error: any) => {
+        showError(error.response?.data?.error?.message || fallback);
+    };
+
+    const settingsMutation = useMutation(timesheetPeriodService.updateSettings, {
+        onSuccess: () => {
+            queryClient.invalidateQueries('timesheetPeriods');
+            showSuccess('Auto-close setting saved');
+        },
+        onError: onError('Failed to save setting')
+    });
+
+    const periodMutation = useMutation(
+        ({ period, action }: { period: TimesheetPeriod; action: 'close' | 'reopen' }) =>
+            action === 'close'
+                ? timesheetPeriodService.closePeriod(period.period_start)
+                : timesheetPeriodService.reopenPeriod(period.period_start),
+        {
+            onSuccess: (_, { period, action }) => {
+                queryClient.invalidateQueries('timesheetPeriods');
+                setPeriodAction(null);
+                showSuccess(`${period.label} ${action === 'close' ? 'closed' : 'reopened'}`);
+            },
+            onError: onError('Failed to update period')
+        }
+    );
+
+    const reviewMutation = useMutation(
+        ({ id, action, comment }: { id: number; action: 'approve' | 'reject'; comment?: string }) =>
+            timesheetPeriodService.reviewReopenRequest(id, action, comment),
+        {
+            onSuccess: (_, { action }) => {
+                queryClient.invalidateQueries('timesheetReopenRequests');
+                queryClient.invalidateQueries('timesheetPeriods');
+                setRejectTarget(null);
+                showSuccess(action === 'approve' ? 'Reopen request approved' : 'Reopen request rejected');
+            },
+            onError: onError('Failed to review request')
+        }
+    );
+
+    const periods = periodData?.periods || [];
+    const toReview = requests?.toReview || [];
+    const mine = requests?.mine || [];
+    const savedAutoCloseDay = periodData?.settings.auto_close_day ? String(periodData.settings.auto_close_day) : '';
+
+    return (
+        <AppLayout>
+            <div className="timesheet-periods-page">
+                <h1 className="page-title">Timesheet Periods</h1>
+
+                {canManage && (
+                    <div className="tp-card">
+                        <h2>Period Close</h2>
+                        <p className="tp-hint">
+                            Entries dated in a closed month are read-only for everyone except super admins. Employees can ask
+                            their reporting manager to reopen a month for them.
+                        </p>
+                        <div className="tp-form">
+                            <label htmlFor="tp-auto-close">Close each month automatically on</label>
+                            <select id="tp-auto-close" value={autoCloseDay} onChange={e => setAutoCloseDay(e.target.value)}>
+                                <option value="">Never (close manually)</option>
+                                {AUTO_CLOSE_DAYS.map(day => (
+                                    <option key={day} value={day}>Day {day} of the next month</option>
+                                ))}
+                            </select>
+                            <button
+                                className="tp-primary-btn"
+                                disabled={autoCloseDay === savedAutoCloseDay || settingsMutation.isLoading}
+                                onClick={() => settingsMutation.mutate(autoCloseDay ? parseInt(autoCloseDay) : null)}
+                            >
+                                {settingsMutation.isLoading ? 'Saving...' : 'Save'}
+                            </button>
+                        </div>
+
+                        {periodsLoading ? (
+                            <div className="tp-hint">Loading...</div>
+                        ) : (
+                            <table className="tp-table">
+                                <thead>
+                                    <tr>
+                                        <th>Month</th>
+                                        <th>Status</th>
+                                        <th>Closed</th>
+                                        <th>Reopen Requests</th>
+                                        <th></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {periods.map((period, index) => (
+                                        <tr key={period.period_start}>
+                                            <td>{period.label}</td>
+                                            <td>
+                                                <span className={`tp-status tp-status-${period.status}`}>
+                                                    {period.status === 'closed' ? 'Closed' : 'Open'}
+                                                </span>
+                                                {period.status === 'open' && period.reopened_at && (
+                                                    <div className="tp-subtext">
+                                                        Reopened {formatTimestamp(period.reopened_at)} by {period.reopened_by_name}
+                                                    </div>
+                                                )}
+                                            </td>
+                                            <td>
+                                                {period.status === 'closed' ? (
+                                                    <>
+                                                        {formatTimestamp(period.closed_at)}
+                                                        <div className="tp-subtext">{period.auto_closed ? 'Automatically' : `By ${period.closed_by_name}`}</div>
+                                                    </>
+                                                ) : '-'}
+                                            </td>
+                                            <td>
+                                                {period.pending_requests > 0 && <div>{period.pending_requests} pending</div>}
+                                                {period.active_reopens > 0 && <div className="tp-subtext">{period.active_reopens} employee(s) currently reopened</div>}
+                                                {period.pending_requests === 0 && period.active_reopens === 0 && '-'}
+                                            </td>
+                                            <td className="tp-actions">
+                                                {period.status === 'closed' ? (
+                                                    <button className="tp-secondary-btn" onClick={() => setPeriodAction({ period, action: 'reopen' })}>
+                                                        Reopen
+                                                    </button>
+                                                ) : index > 0 && (
+                                                    <button className="tp-danger-btn" onClick={() => setPeriodAction({ period, action: 'close' })}>
+                                                        Close
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                )}
+
+                <div className="tp-card">
+                    <h2>Reopen Requests</h2>
+                    {requestsLoading ? (
+                        <div className="tp-hint">Loading...</div>
+                    ) : toReview.length === 0 ? (
+                        <EmptyState size="small" title="No Reopen Requests" description="Requests from your team to reopen a closed month will appear here." />
+                    ) : (
+                        <table className="tp-table">
+                            <thead>
+                                <tr>
+                                    <th>Employee</th>
+                                    <th>Month</th>
+                                    <th>Reason</th>
+                                    <th>Requested</th>
+                                    <th>Status</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {toReview.map(request => (
+                                    <tr key={request.id}>
+                                        <td>{request.user_name} ({request.emp_id})</td>
+                                        <td>{monthLabel(request.period_start)}</td>
+                                        <td>{request.reason}</td>
+                                        <td>{formatTimestamp(request.created_at)}</td>
+                                        <td>
+                                            {requestStatus(request)}
+                                            {request.reviewed_by_name && <div className="tp-subtext">By {request.reviewed_by_name}</div>}
+                                        </td>
+                                        <td className="tp-actions">
+                                            {request.can_review && (
+                                                <>
+                                                    <button
+                                                        className="tp-primary-btn"
+                                                        disabled={reviewMutation.isLoading}
+                                                        onClick={() => reviewMutation.mutate({ id: request.id, action: 'approve' })}
+                                                    >
+                                                        Approve
+                                                    </button>
+                                                    <button className="tp-danger-btn" onClick={() => setRejectTarget(request)}>
+                                                        Reject
+                                                    </button>
+                                                </>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {mine.length > 0 && (
+                    <div className="tp-card">
+                        <h2>My Reopen Requests</h2>
+                        <table className="tp-table">
+                            <thead>
+                                <tr>
+                                    <th>Month</th>
+                                    <th>Reason</th>
+                                    <th>Requested</th>
+                                    <th>Status</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {mine.map(request => (
+                                    <tr key={request.id}>
+                                        <td>{monthLabel(request.period_start)}</td>
+                                        <td>{request.reason}</td>
+                                        <td>{formatTimestamp(request.created_at)}</td>
+                                        <td>{requestStatus(request)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <ConfirmationDialog
+                    isOpen={!!periodAction}
+                    title={periodAction?.action === 'close' ? 'Close Period' : 'Reopen Period'}
+                    message={periodAction?.action === 'close'
+                        ? `Close ${periodAction.period.label}? Its entries become read-only for everyone except super admins.`
+                        : `Reopen ${periodAction?.period.label} for everyone? It will not close automatically again.`}
+                    confirmText={periodAction?.action === 'close' ? 'Close' : 'Reopen'}
+                    type={periodAction?.action === 'close' ? 'danger' : 'warning'}
+                    isLoading={periodMutation.isLoading}
+                    onConfirm={() => periodAction && periodMutation.mutate(periodAction)}
+                    onCancel={() => setPeriodAction(null)}
+                />
+
+                <RejectCommentDialog
+                    isOpen={!!rejectTarget}
+                    title="Reject Reopen Request"
+                    message={`Reject ${rejectTarget?.user_name}'s request to reopen ${rejectTarget ? monthLabel(rejectTarget.period_start) : ''}?`}
+                    confirmText="Reject"
+                    onConfirm={(comment) => rejectTarget && reviewMutation.mutate({ id: rejectTarget.id, action: 'reject', comment })}
+                    onCancel={() => setRejectTarget(null)}
+                    isLoading={reviewMutation.isLoading}
+                />
+            </div>
+        </AppLayout>
+    );
+};
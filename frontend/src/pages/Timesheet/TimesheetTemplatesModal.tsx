@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { Edit2, Trash2 } from 'lucide-react';
+import { useToast } from '../../contexts/ToastContext';
+import { timesheetService, TimesheetEntry, TimesheetTemplate, DraftEntryResult } from '../../services/timesheetService';
+import { Modal } from '../../components/ui/modal';
+
+const WEEKDAYS = [
+    { value: 1, label: 'Mon' },
+    { value: 2, label: 'Tue' },
+    { value: 3, label: 'Wed' },
+    { value: 4, label: 'Thu' },
+    { value: 5, label: 'Fri' },
+    { value: 6, label: 'Sat' },
+    { value: 0, label: 'Sun' }
+];
+
+/**
+ * One-line summary of a bulk draft action, e.g. "Added 4 draft logs. Skipped 2: Already logged (2)"
+ */
+export const describeDraftResult = (result: DraftEntryResult) => {
+    const reasons = result.skipped.reduce((acc, item) => {
+        acc[item.reason] = (acc[item.reason] || 0) + 1;
+        return acc;
+    }, {} as Record<string, number>);
+    const skipped = Object.entries(reasons).map(([reason, count]) => `${reason} (${count})`).join(', ');
+    const added = `Added ${result.created} draft log${result.created === 1 ? '' : 's'}`;
+    return result.skipped.length > 0 ? `${added}. Skipped ${result.skipped.length}: ${skipped}` : added;
+};
+
+const templateFromEntry = (entry: TimesheetEntry): TimesheetTemplate => ({
+    name: entry.task_name || '',
+    project_id: entry.project_id,
+    module_id: entry.module_id,
+    task_id: entry.task_id,
+    activity_id: entry.activity_id,
+    duration: parseFloat(String(entry.duration)),
+    description: entry.description,
+    work_status: entry.work_status,
+    weekdays: [1, 2, 3, 4, 5],
+    project_name: entry.project_name,
+    module_name: entry.module_name,
+    task_name: entry.task_name
+});
+
+interface TimesheetTemplatesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Monday of the week templates are applied to */
+    weekStart: string;
+    canApply: boolean;
+    /** Entry to prefill a new template from ("Save as template") */
+    sourceEntry: TimesheetEntry | null;
+    onApplied: (result: DraftEntryResult) => void;
+}
+
+/**
+ * Saved recurring logs (e.g. a daily standup) that can be added to a week as drafts in one go
+ */
+export const TimesheetTemplatesModal: React.FC<TimesheetTemplatesModalProps> = ({ isOpen, onClose, weekStart, canApply, sourceEntry, onApplied }) => {
+    const { showSuccess, showError } = useToast();
+    const [templates, setTemplates] = useState<TimesheetTemplate[]>([]);
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+    const [editing, setEditing] = useState<TimesheetTemplate | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const fetchTemplates = async () => {
+        try {
+            setTemplates(await timesheetService.getTemplates());
+        } catch (err: any) {
+            showError(err.response?.data?.error || 'Failed to load templates');
+        }
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        fetchTemplates();
+        setSelectedIds([]);
+        setEditing(sourceEntry ? templateFromEntry(sourceEntry) : null);
+    }, [isOpen, sourceEntry]);
+
+    const toggleSelected = (id: number) => {
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+    };
+
+    const toggleWeekday = (day: number) => {
+        if (!editing) return;
+        const weekdays = editing.weekdays.includes(day)
+            ? editing.weekdays.filter(d => d !== day)
+            : [...editing.weekdays, day];
+        setEditing({ ...editing, weekdays });
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        setLoading(true);
+        try {
+            await timesheetService.saveTemplate(editing);
+            showSuccess(editing.id ? 'Template updated' : 'Template saved');
+            setEditing(null);
+            fetchTemplates();
+        } catch (err: any) {
+            showError(err.response?.data?.error || 'Failed to save template');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDelete = async (id: number) => {
+        setLoading(true);
+        try {
+            await timesheetService.deleteTemplate(id);
+            setSelectedIds(prev => prev.filter(x => x !== id));
+            fetchTemplates();
+        } catch (err: any) {
+            showError(err.response?.data?.error || 'Failed to delete template');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleApply = async () => {
+        setLoading(true);
+        try {
+            const result = await timesheetService.applyTemplates(weekStart, selectedIds);
+            onApplied(result);
+            onClose();
+        } catch (err: any) {
+            showError(err.response?.data?.error || 'Failed to apply templates');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const footer = editing ? (
+        <>
+            <button className="modal-btn secondary" onClick={() => setEditing(null)} disabled={loading}>Cancel</button>
+            <button className="modal-btn primary" onClick={handleSave} disabled={loading || editing.weekdays.length === 0}>
+                {loading ? 'Saving...' : 'Save Template'}
+            </button>
+        </>
+    ) : (
+        <>
+            <button className="modal-btn secondary" onClick={onClose}>Close</button>
+            {canApply && (
+                <button className="modal-btn primary" onClick={handleApply} disabled={loading || selectedIds.length === 0}>
+                    {loading ? 'Applying...' : `Apply ${selectedIds.length || ''} to This Week`}
+                </button>
+            )}
+        </>
+    );
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={editing ? (editing.id ? 'Edit Template' : 'New Template') : 'Entry Templates'} footer={footer}>
+            {editing ? (
+                <div className="ts-template-form">
+                    <div className="ts-template-path">
+                        {[editing.project_name, editing.module_name, editing.task_name].filter(Boolean).join(' > ')}
+                    </div>
+                    <div className="ts-form-group">
+                        <label className="ts-form-label">Name</label>
+                        <input
+                            className="ts-form-input"
+                            value={editing.name}
+                            maxLength={100}
+                            onChange={e => setEditing({ ...editing, name: e.target.value })}
+                            placeholder="e.g. Daily standup"
+                        />
+                    </div>
+                    <div className="ts-form-group">
+                        <label className="ts-form-label">Hours per day</label>
+                        <input
+                            className="ts-form-input"
+                            type="number"
+                            min={0.25}
+                            max={12}
+                            step={0.25}
+                            value={editing.duration}
+                            onChange={e => setEditing({ ...editing, duration: parseFloat(e.target.value) || 0 })}
+                        />
+                    </div>
+                    <div className="ts-form-group">
+                        <label className="ts-form-label">Description</label>
+                        <textarea
+                            className="ts-form-textarea"
+                            value={editing.description}
+                            onChange={e => setEditing({ ...editing, description: e.target.value })}
+                        />
+                    </div>
+                    <div className="ts-form-group">
+                        <label className="ts-form-label">Repeat on</label>
+                        <div className="ts-template-weekdays">
+                            {WEEKDAYS.map(day => (
+                                <button
+                                    key={day.value}
+                                    type="button"
+                                    className={`ts-weekday-chip ${editing.weekdays.includes(day.value) ? 'active' : ''}`}
+                                    onClick={() => toggleWeekday(day.value)}
+                                >
+                                    {day.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            ) : templates.length === 0 ? (
+                <p className="ts-template-empty">
+                    No templates yet. Use the save-as-template action on one of your logs to create one.
+                </p>
+            ) : (
+                <div className="ts-template-list">
+                    {templates.map(template => (
+                        <div key={template.id} className="ts-template-item">
+                            {canApply && (
+                                <input
+                                    type="checkbox"
+                                    checked={selectedIds.includes(template.id!)}
+                                    onChange={() => toggleSelected(template.id!)}
+                                />
+                            )}
+                            <div className="ts-template-info">
+                                <strong>{template.name}</strong>
+                                <span className="ts-template-path">
+                                    {template.project_name} &gt; {template.task_name} · {template.duration} hrs
+                                </span>
+                                <span className="ts-template-path">
+                                    {WEEKDAYS.filter(day => template.weekdays.includes(day.value)).map(day => day.label).join(', ')}
+                                </span>
+                            </div>
+                            <button className="icon-btn" title="Edit Template" onClick={() => setEditing(template)} disabled={loading}>
+                                <Edit2 size={14} />
+                            </button>
+                            <button className="icon-btn" title="Delete Template" onClick={() => handleDelete(template.id!)} disabled={loading}>
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </Modal>
+    );
+};
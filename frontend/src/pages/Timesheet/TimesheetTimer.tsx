@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, Square, Timer, Trash2 } from 'lucide-react';
+import { useToast } from '../../contexts/ToastContext';
+import { timesheetService, TimesheetTimer as RunningTimer } from '../../services/timesheetService';
+import { projectService, Project, ProjectModule, ProjectTask } from '../../services/projectService';
+import { Button } from '../../components/ui/button';
+import ConfirmationDialog from '../../components/ConfirmationDialog';
+
+const STOP_WORK_STATUSES = ['in_progress', 'review', 'testing', 'fixed', 'completed', 'on_hold'];
+
+const formatElapsed = (seconds: number) => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    return [h, m, s].map(part => String(part).padStart(2, '0')).join(':');
+};
+
+// Same rule the server applies when the timer is stopped
+const roundHours = (seconds: number, timer: RunningTimer) => {
+    const increments = seconds / 60 / timer.rounding_minutes;
+    const rounded = timer.rounding_mode === 'up'
+        ? Math.ceil(increments)
+        : timer.rounding_mode === 'down' ? Math.floor(increments) : Math.round(increments);
+    return Math.round(rounded * timer.rounding_minutes / 60 * 100) / 100;
+};
+
+interface TimesheetTimerProps {
+    /** Called after a stopped timer has been saved as a draft log */
+    onLogged: () => void;
+}
+
+/**
+ * Live timer for one task. It is kept on the server, so it keeps counting across reloads
+ * and devices; stopping it saves the tracked time as a draft log on the day it was started.
+ */
+export const TimesheetTimer: React.FC<TimesheetTimerProps> = ({ onLogged }) => {
+    const { showSuccess, showError } = useToast();
+    const [timer, setTimer] = useState<RunningTimer | null>(null);
+    const [fetchedAt, setFetchedAt] = useState(Date.now());
+    const [now, setNow] = useState(Date.now());
+    const [loading, setLoading] = useState(false);
+
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [modules, setModules] = useState<ProjectModule[]>([]);
+    const [tasks, setTasks] = useState<ProjectTask[]>([]);
+    const [selection, setSelection] = useState({ projectId: '', moduleId: '', taskId: '' });
+    const [description, setDescription] = useState('');
+    const [workStatus, setWorkStatus] = useState('in_progress');
+
+    const [isDiscardOpen, setIsDiscardOpen] = useState(false);
+
+    const applyTimer = (data: RunningTimer | null, resetDescription = true) => {
+        setTimer(data);
+        setFetchedAt(Date.now());
+        setNow(Date.now());
+        if (resetDescription) setDescription(data?.description || '');
+    };
+
+    const fetchTimer = async (resetDescription = true) => {
+        try {
+            applyTimer(await timesheetService.getTimer(), resetDescription);
+        } catch (err: any) {
+            console.error('[TimesheetTimer] Fetch Error:', err);
+        }
+    };
+
+    // Pick up a timer started, paused or stopped in another tab when this one regains focus,
+    // without wiping a description being typed here
+    useEffect(() => {
+        fetchTimer();
+        const onFocus = () => fetchTimer(false);
+        window.addEventListener('focus', onFocus);
+        return () => window.removeEventListener('focus', onFocus);
+    }, []);
+
+    useEffect(() => {
+        if (!timer?.is_running) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [timer?.is_running]);
+
+    useEffect(() => {
+        if (timer || projects.length > 0) return;
+        projectService.getProjects()
+            .then(data => setProjects(data.filter(p => p.status === 'active' && (p.is_member || p.is_pm))))
+            .catch(err => console.error('[TimesheetTimer] Projects fetch error:', err));
+    }, [timer]);
+
+    const selectProject = async (projectId: string) => {
+        setSelection({ projectId, moduleId: '', taskId: '' });
+        setModules([]);
+        setTasks([]);
+        if (!projectId) return;
+        const project = projects.find(p => p.id === parseInt(projectId));
+        const data = await projectService.getModules(parseInt(projectId));
+        setModules(project?.is_pm ? data : data.filter(m => m.is_assigned));
+    };
+
+    const selectModule = async (moduleId: string) => {
+        setSelection(prev => ({ ...prev, moduleId, taskId: '' }));
+        setTasks([]);
+        if (!moduleId) return;
+        const data = await projectService.getTasks(parseInt(moduleId));
+        setTasks(data.filter(t => t.work_status !== 'completed' && t.status !== 'completed'));
+    };
+
+    const run = async (action: () => Promise<void>, fallback: string) => {
+        setLoading(true);
+        try {
+            await action();
+        } catch (err: any) {
+            showError(err.response?.data?.error || fallback);
+            fetchTimer();
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleStart = () => run(async () => {
+        applyTimer(await timesheetService.startTimer({
+            project_id: parseInt(selection.projectId),
+            module_id: parseInt(selection.moduleId),
+            task_id: parseInt(selection.taskId),
+            description
+        }));
+    }, 'Failed to start timer');
+
+    const handleStop = () => run(async () => {
+        const entry = await timesheetService.stopTimer(description, workStatus);
+        showSuccess(`Logged ${parseFloat(String(entry.duration)).toFixed(2)} hrs as a draft`);
+        applyTimer(null);
+        setWorkStatus('in_progress');
+        onLogged();
+    }, 'Failed to stop timer');
+
+    const handleDiscard = () => run(async () => {
+        await timesheetService.discardTimer();
+        applyTimer(null);
+        setIsDiscardOpen(false);
+    }, 'Failed to discard timer');
+
+    if (!timer) {
+        return (
+            <div className="ts-timer-card">
+                <div className="ts-timer-title">
+                    <Timer size={18} />
+                    Timer
+                </div>
+                <div className="ts-timer-row">
+                    <select className="ts-form-select" value={selection.projectId} onChange={e => selectProject(e.target.value)}>
+                        <option value="">Project</option>
+                        {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <select className="ts-form-select" value={selection.moduleId} onChange={e => selectModule(e.target.value)} disabled={!selection.projectId}>
+                        <option value="">Module</option>
+                        {modules.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                    <select className="ts-form-select" value={selection.taskId} onChange={e => setSelection(prev => ({ ...prev, taskId: e.target.value }))} disabled={!selection.moduleId}>
+                        <option value="">Task</option>
+                        {tasks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                    <input
+                        className="ts-form-input"
+                        placeholder="What are you working on? (optional)"
+                        value={description}
+                        onChange={e => setDescription(e.target.value)}
+                    />
+                    <Button className="btn-primary" style={{ height: '38px', gap: '8px' }} disabled={!selection.taskId || loading} onClick={handleStart}>
+                        <Play size={16} />
+                        Start
+                    </Button>
+                </div>
+            </div>
+        );
+    }
+
+    const elapsed = timer.elapsed_seconds + (timer.is_running ? Math.max(0, Math.floor((now - fetchedAt) / 1000)) : 0);
+
+    return (
+        <div className={`ts-timer-card ${timer.is_running ? 'running' : 'paused'}`}>
+            <div className="ts-timer-title">
+                <Timer size={18} />
+                {timer.is_running ? 'Timer running' : 'Timer paused'}
+                <span className="ts-timer-path">
+                    {timer.project_name} &gt; {timer.module_name} &gt; {timer.task_name}
+                </span>
+            </div>
+            <div className="ts-timer-row">
+                <span className="ts-timer-clock">{formatElapsed(elapsed)}</span>
+                <span className="ts-timer-hint">
+                    Logs {roundHours(elapsed, timer).toFixed(2)} hrs (rounded {timer.rounding_mode === 'nearest' ? 'to the nearest' : timer.rounding_mode + ' to'} {timer.rounding_minutes} min)
+                </span>
+                <input
+                    className="ts-form-input"
+                    placeholder="Description (required to log)"
+                    value={description}
+                    onChange={e => setDescription(e.target.value)}
+                />
+                <select className="ts-form-select" value={workStatus} onChange={e => setWorkStatus(e.target.value)}>
+                    {STOP_WORK_STATUSES.map(status => (
+                        <option key={status} value={status}>{status.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')}</option>
+                    ))}
+                </select>
+                {timer.is_running ? (
+                    <Button variant="outline" style={{ height: '38px', gap: '8px' }} disabled={loading}
+                        onClick={() => run(async () => applyTimer(await timesheetService.pauseTimer()), 'Failed to pause timer')}>
+                        <Pause size={16} />
+                        Pause
+                    </Button>
+                ) : (
+                    <Button variant="outline" style={{ height: '38px', gap: '8px' }} disabled={loading}
+                        onClick={() => run(async () => applyTimer(await timesheetService.resumeTimer()), 'Failed to resume timer')}>
+                        <Play size={16} />
+                        Resume
+                    </Button>
+                )}
+                <Button className="btn-primary" style={{ height: '38px', gap: '8px' }} disabled={loading || !description.trim()} onClick={handleStop}>
+                    <Square size={16} />
+                    Stop &amp; Log
+                </Button>
+                <button className="action-btn-styled delete" title="Discard Timer" onClick={() => setIsDiscardOpen(true)} disabled={loading}>
+                    <Trash2 size={16} />
+                </button>
+            </div>
+            <ConfirmationDialog
+                isOpen={isDiscardOpen}
+                title="Discard Timer"
+                message={`Discard ${formatElapsed(elapsed)} tracked on ${timer.task_name}? Nothing will be logged.`}
+                confirmText="Discard"
+                type="danger"
+                isLoading={loading}
+                onConfirm={handleDiscard}
+                onCancel={() => setIsDiscardOpen(false)}
+            />
+        </div>
+    );
+};
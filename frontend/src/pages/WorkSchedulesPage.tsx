@@ -0,0 +1,483 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import AppLayout from '../components/layout/AppLayout';
+import EmptyState from '../components/common/EmptyState';
+import ConfirmationDialog from '../components/ConfirmationDialog';
+import { useToast } from '../contexts/ToastContext';
+import * as workScheduleService from '../services/workScheduleService';
+import { TimerRoundingMode, WorkSchedule, WorkScheduleSource } from '../services/workScheduleService';
+import './WorkSchedulesPage.css';
+
+// Monday first, as the week is shown everywhere else
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' }
+];
+
+const SOURCE_LABELS: Record<WorkScheduleSource, string> = {
+  employee: 'Assigned',
+  department: 'Department',
+  default: 'Default'
+};
+
+const formatDays = (days: number[]) =>
+  WEEKDAYS.filter((day) => days.includes(day.value)).map((day) => day.label).join(', ');
+
+const ROUNDING_MINUTES = [1, 5, 6, 10, 15, 30, 60];
+
+const ROUNDING_MODE_LABELS: Record<TimerRoundingMode, string> = {
+  nearest: 'Nearest',
+  up: 'Up',
+  down: 'Down'
+};
+
+const emptyForm = {
+  name: '',
+  workingDays: [1, 2, 3, 4, 5],
+  dailyHours: '8',
+  weeklyMinHours: '40',
+  timerRoundingMinutes: '15',
+  timerRoundingMode: 'nearest' as TimerRoundingMode,
+  isDefault: false
+};
+
+/**
+ * Work schedules decide which weekdays count as working days for leave, which days get
+ * timesheet reminders and holiday entries, and how many hours a day and a week are expected.
+ * Employees follow their own schedule, else their department's, else the default.
+ */
+const WorkSchedulesPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<WorkSchedule | null>(null);
+  const [search, setSearch] = useState('');
+  const [selectedEmployees, setSelectedEmployees] = useState<number[]>([]);
+  const [bulkScheduleId, setBulkScheduleId] = useState('');
+
+  const { data: schedules = [], isLoading } = useQuery('workSchedules', workScheduleService.getSchedules, { retry: false });
+  const { data: departments = [] } = useQuery('departmentSchedules', workScheduleService.getDepartmentAssignments, {
+    retry: false
+  });
+  const { data: employees = [] } = useQuery('employeeSchedules', workScheduleService.getEmployeeAssignments, {
+    retry: false
+  });
+
+  const filteredEmployees = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return employees;
+    return employees.filter((employee) =>
+      [employee.employeeName, employee.empId, employee.department || '', employee.schedule.name].some((value) =>
+        value.toLowerCase().includes(term)
+      )
+    );
+  }, [employees, search]);
+
+  const refreshAll = () => {
+    queryClient.invalidateQueries('workSchedules');
+    queryClient.invalidateQueries('departmentSchedules');
+    queryClient.invalidateQueries('employeeSchedules');
+    queryClient.invalidateQueries('myWorkSchedule');
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    showError(error.response?.data?.error?.message || fallback);
+  };
+
+  const saveMutation = useMutation(
+    (data: workScheduleService.WorkScheduleInput) =>
+      editingId ? workScheduleService.updateSchedule(editingId, data) : workScheduleService.createSchedule(data),
+    {
+      onSuccess: () => {
+        refreshAll();
+        showSuccess(editingId ? 'Work schedule updated' : 'Work schedule created');
+        setForm(emptyForm);
+        setEditingId(null);
+      },
+      onError: onError('Failed to save work schedule')
+    }
+  );
+
+  const deleteMutation = useMutation(workScheduleService.deleteSchedule, {
+    onSuccess: () => {
+      refreshAll();
+      setDeleteTarget(null);
+      showSuccess('Work schedule deleted');
+    },
+    onError: onError('Failed to delete work schedule')
+  });
+
+  const departmentMutation = useMutation(
+    ({ department, scheduleId }: { department: string; scheduleId: number | null }) =>
+      workScheduleService.setDepartmentSchedule(department, scheduleId),
+    {
+      onSuccess: () => {
+        refreshAll();
+        showSuccess('Department schedule updated');
+      },
+      onError: onError('Failed to update department schedule')
+    }
+  );
+
+  const assignMutation = useMutation(
+    ({ employeeIds, scheduleId }: { employeeIds: number[]; scheduleId: number | null }) =>
+      workScheduleService.assignEmployees(employeeIds, scheduleId),
+    {
+      onSuccess: (result) => {
+        refreshAll();
+        setSelectedEmployees([]);
+        showSuccess(result.message);
+      },
+      onError: onError('Failed to assign work schedule')
+    }
+  );
+
+  const toggleDay = (day: number) => {
+    setForm((prev) => ({
+      ...prev,
+      workingDays: prev.workingDays.includes(day)
+        ? prev.workingDays.filter((d) => d !== day)
+        : [...prev.workingDays, day]
+    }));
+  };
+
+  const toggleEmployee = (id: number) => {
+    setSelectedEmployees((prev) => (prev.includes(id) ? prev.filter((e) => e !== id) : [...prev, id]));
+  };
+
+  const allFilteredSelected =
+    filteredEmployees.length > 0 && filteredEmployees.every((employee) => selectedEmployees.includes(employee.employeeId));
+
+  const toggleAllFiltered = () => {
+    const ids = filteredEmployees.map((employee) => employee.employeeId);
+    setSelectedEmployees((prev) =>
+      allFilteredSelected ? prev.filter((id) => !ids.includes(id)) : Array.from(new Set([...prev, ...ids]))
+    );
+  };
+
+  const startEdit = (schedule: WorkSchedule) => {
+    setEditingId(schedule.id);
+    setForm({
+      name: schedule.name,
+      workingDays: schedule.workingDays,
+      dailyHours: String(schedule.dailyHours),
+      weeklyMinHours: String(schedule.weeklyMinHours),
+      timerRoundingMinutes: String(schedule.timerRoundingMinutes),
+      timerRoundingMode: schedule.timerRoundingMode,
+      isDefault: schedule.isDefault
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      name: form.name.trim(),
+      workingDays: form.workingDays,
+      dailyHours: parseFloat(form.dailyHours),
+      weeklyMinHours: parseFloat(form.weeklyMinHours),
+      timerRoundingMinutes: parseInt(form.timerRoundingMinutes),
+      timerRoundingMode: form.timerRoundingMode,
+      isDefault: form.isDefault
+    });
+  };
+
+  const editingDefault = editingId !== null && schedules.find((s) => s.id === editingId)?.isDefault;
+
+  return (
+    <AppLayout>
+      <div className="work-schedules-page">
+        <h1 className="page-title">Work Schedules</h1>
+
+        <div className="ws-card">
+          <h2>{editingId ? 'Edit Schedule' : 'New Schedule'}</h2>
+          <p className="ws-hint">
+            Days outside a schedule are weekends: they are not counted as leave, get no timesheet reminders or holiday
+            entries. Leave and holidays are logged at the daily hours, and a week can be submitted once it reaches the
+            weekly minimum. Time tracked with the timesheet timer is rounded to the timer increment when it is logged.
+          </p>
+          <div className="ws-form">
+            <input
+              type="text"
+              placeholder="Schedule name"
+              maxLength={100}
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <div className="ws-days">
+              {WEEKDAYS.map((day) => (
+                <label key={day.value} className={form.workingDays.includes(day.value) ? 'ws-day ws-day-on' : 'ws-day'}>
+                  <input
+                    type="checkbox"
+                    checked={form.workingDays.includes(day.value)}
+                    onChange={() => toggleDay(day.value)}
+                  />
+                  {day.label}
+                </label>
+              ))}
+            </div>
+            <label className="ws-field">
+              Hours / day
+              <input
+                type="number"
+                min={0.5}
+                max={24}
+                step={0.5}
+                value={form.dailyHours}
+                onChange={(e) => setForm({ ...form, dailyHours: e.target.value })}
+              />
+            </label>
+            <label className="ws-field">
+              Weekly minimum
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={form.weeklyMinHours}
+                onChange={(e) => setForm({ ...form, weeklyMinHours: e.target.value })}
+              />
+            </label>
+            <label className="ws-field">
+              Timer rounding
+              <select
+                value={form.timerRoundingMinutes}
+                onChange={(e) => setForm({ ...form, timerRoundingMinutes: e.target.value })}
+              >
+                {ROUNDING_MINUTES.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes} min
+                  </option>
+                ))}
+              </select>
+              <select
+                value={form.timerRoundingMode}
+                onChange={(e) => setForm({ ...form, timerRoundingMode: e.target.value as TimerRoundingMode })}
+              >
+                {(Object.keys(ROUNDING_MODE_LABELS) as TimerRoundingMode[]).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {ROUNDING_MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="ws-checkbox">
+              <input
+                type="checkbox"
+                checked={form.isDefault}
+                disabled={!!editingDefault}
+                onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+              />
+              Default
+            </label>
+            <button
+              className="ws-primary-btn"
+              disabled={!form.name.trim() || form.workingDays.length === 0 || saveMutation.isLoading}
+              onClick={handleSave}
+            >
+              {saveMutation.isLoading ? 'Saving...' : editingId ? 'Update' : 'Create'}
+            </button>
+            {editingId && (
+              <button className="ws-secondary-btn" onClick={cancelEdit}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="ws-card">
+          <h2>Schedules</h2>
+          {isLoading ? (
+            <div className="ws-hint">Loading...</div>
+          ) : schedules.length === 0 ? (
+            <EmptyState size="small" title="No Schedules" description="Everyone follows the standard Mon-Fri week." />
+          ) : (
+            <table className="ws-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Working Days</th>
+                  <th>Hours / Day</th>
+                  <th>Weekly Minimum</th>
+                  <th>Timer Rounding</th>
+                  <th>Assigned Employees</th>
+                  <th>Departments</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {schedules.map((schedule) => (
+                  <tr key={schedule.id} className={schedule.id === editingId ? 'ws-row-selected' : ''}>
+                    <td>
+                      {schedule.name}
+                      {schedule.isDefault && <span className="ws-badge">Default</span>}
+                    </td>
+                    <td>{formatDays(schedule.workingDays)}</td>
+                    <td>{schedule.dailyHours}</td>
+                    <td>{schedule.weeklyMinHours}</td>
+                    <td>
+                      {schedule.timerRoundingMinutes} min, {ROUNDING_MODE_LABELS[schedule.timerRoundingMode].toLowerCase()}
+                    </td>
+                    <td>{schedule.employeeCount ?? 0}</td>
+                    <td>{schedule.departments?.length ? schedule.departments.join(', ') : '-'}</td>
+                    <td className="ws-actions">
+                      <button className="ws-secondary-btn" onClick={() => startEdit(schedule)}>
+                        Edit
+                      </button>
+                      {!schedule.isDefault && (
+                        <button className="ws-danger-btn" onClick={() => setDeleteTarget(schedule)}>
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="ws-card">
+          <h2>Departments</h2>
+          <p className="ws-hint">Employees without a schedule of their own follow their department's schedule.</p>
+          {departments.length === 0 ? (
+            <EmptyState size="small" title="No Departments" description="Departments set on employee profiles will appear here." />
+          ) : (
+            <table className="ws-table">
+              <thead>
+                <tr>
+                  <th>Department</th>
+                  <th>Employees</th>
+                  <th>Schedule</th>
+                </tr>
+              </thead>
+              <tbody>
+                {departments.map((department) => (
+                  <tr key={department.department}>
+                    <td>{department.department}</td>
+                    <td>{department.employeeCount}</td>
+                    <td>
+                      <select
+                        value={department.scheduleId ?? ''}
+                        disabled={departmentMutation.isLoading}
+                        onChange={(e) =>
+                          departmentMutation.mutate({
+                            department: department.department,
+                            scheduleId: e.target.value ? parseInt(e.target.value, 10) : null
+                          })
+                        }
+                      >
+                        <option value="">Default schedule</option>
+                        {schedules.map((schedule) => (
+                          <option key={schedule.id} value={schedule.id}>
+                            {schedule.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="ws-card">
+          <div className="ws-card-header">
+            <h2>Employees</h2>
+            <input
+              type="text"
+              placeholder="Search employees"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div className="ws-form ws-bulk">
+            <span className="ws-hint">{selectedEmployees.length} selected</span>
+            <select value={bulkScheduleId} onChange={(e) => setBulkScheduleId(e.target.value)}>
+              <option value="">Follow department / default</option>
+              {schedules.map((schedule) => (
+                <option key={schedule.id} value={schedule.id}>
+                  {schedule.name}
+                </option>
+              ))}
+            </select>
+            <button
+              className="ws-primary-btn"
+              disabled={selectedEmployees.length === 0 || assignMutation.isLoading}
+              onClick={() =>
+                assignMutation.mutate({
+                  employeeIds: selectedEmployees,
+                  scheduleId: bulkScheduleId ? parseInt(bulkScheduleId, 10) : null
+                })
+              }
+            >
+              {assignMutation.isLoading ? 'Applying...' : 'Apply'}
+            </button>
+          </div>
+          {filteredEmployees.length === 0 ? (
+            <EmptyState size="small" title="No Employees" description="No active employees match your search." />
+          ) : (
+            <table className="ws-table">
+              <thead>
+                <tr>
+                  <th>
+                    <input type="checkbox" checked={allFilteredSelected} onChange={toggleAllFiltered} />
+                  </th>
+                  <th>Employee</th>
+                  <th>Department</th>
+                  <th>Schedule</th>
+                  <th>Working Days</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredEmployees.map((employee) => (
+                  <tr key={employee.employeeId}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={selectedEmployees.includes(employee.employeeId)}
+                        onChange={() => toggleEmployee(employee.employeeId)}
+                      />
+                    </td>
+                    <td>
+                      {employee.employeeName} ({employee.empId})
+                    </td>
+                    <td>{employee.department || '-'}</td>
+                    <td>
+                      {employee.schedule.name}
+                      <div className="ws-subtext">{SOURCE_LABELS[employee.schedule.source]}</div>
+                    </td>
+                    <td>{formatDays(employee.schedule.workingDays)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <ConfirmationDialog
+          isOpen={!!deleteTarget}
+          title="Delete Schedule"
+          message={`Delete "${deleteTarget?.name}"? Employees and departments on it will follow the default schedule.`}
+          confirmText="Delete"
+          cancelText="Keep"
+          onConfirm={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+          onCancel={() => setDeleteTarget(null)}
+          type="danger"
+          isLoading={deleteMutation.isLoading}
+        />
+      </div>
+    </AppLayout>
+  );
+};
+
+export default WorkSchedulesPage;
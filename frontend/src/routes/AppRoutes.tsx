@@ -22,18 +22,26 @@ const AccessDeniedPage = lazy(() => import('../pages/AccessDeniedPage'));
 const NotFoundPage = lazy(() => import('../pages/NotFoundPage'));
 const DashboardPage = lazy(() => import('../pages/DashboardPage'));
 const LeaveRulesPage = lazy(() => import('../pages/LeaveRulesPage'));
+const AuditLogPage = lazy(() => import('../pages/AuditLogPage'));
+const CompOffPage = lazy(() => import('../pages/CompOffPage'));
+const LeaveEncashmentPage = lazy(() => import('../pages/LeaveEncashmentPage'));
+const ExitSettlementPage = lazy(() => import('../pages/ExitSettlementPage'));
+const WorkSchedulesPage = lazy(() => import('../pages/WorkSchedulesPage'));
+const TeamCalendarPage = lazy(() => import('../pages/TeamCalendarPage'));
 const ProjectDashboard = lazy(() => import('../pages/ProjectManagement/ProjectDashboard').then(m => ({ default: m.ProjectDashboard })));
 const ProjectListPage = lazy(() => import('../pages/ProjectManagement/ProjectListPage').then(m => ({ default: m.ProjectListPage })));
 const ProjectWorkspace = lazy(() => import('../pages/ProjectManagement/ProjectWorkspace').then(m => ({ default: m.ProjectWorkspace })));
 const ProjectTeamPage = lazy(() => import('../pages/ProjectManagement/ProjectTeamPage').then(m => ({ default: m.ProjectTeamPage })));
 const TimesheetPage = lazy(() => import('../pages/Timesheet/TimesheetPage').then(m => ({ default: m.TimesheetPage })));
 const TimesheetApprovalPage = lazy(() => import('../pages/Timesheet/TimesheetApprovalPage').then(m => ({ default: m.TimesheetApprovalPage })));
+const TimesheetPeriodsPage = lazy(() => import('../pages/Timesheet/TimesheetPeriodsPage').then(m => ({ default: m.TimesheetPeriodsPage })));
+const RolePermissionsPage = lazy(() => import('../pages/RolePermissionsPage'));
 
 import * as policyService from '../services/policyService';
 
 // Prefetch core data for authenticated users
 const DataPrefetcher: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const queryClient = useQueryClient();
 
   useEffect(() => {
@@ -48,12 +56,12 @@ const DataPrefetcher: React.FC = () => {
       queryClient.prefetchQuery('myLeaveRequests', () => leaveService.getMyLeaveRequests(1, 50));
       queryClient.prefetchQuery(['policies'], policyService.getPolicies);
 
-      // If HR/Admin, prefetch pending requests and employee list
-      if (user.role === 'hr' || user.role === 'super_admin') {
+      // Leave administrators land on pending requests, so fetch them early
+      if (hasPermission('leave.manage')) {
         queryClient.prefetchQuery(['pendingLeaves', '', ''], () => leaveService.getPendingLeaveRequests(1, 10));
       }
     }
-  }, [user, queryClient]);
+  }, [user, queryClient, hasPermission]);
 
   return null;
 };
@@ -80,7 +88,7 @@ const AppRoutes: React.FC = () => {
         <Route
           path="/leave-apply"
           element={
-            <ProtectedRoute allowedRoles={['employee', 'manager', 'hr', 'intern']}>
+            <ProtectedRoute permission="leave.apply">
               <LeaveApplyPage />
             </ProtectedRoute>
           }
@@ -88,15 +96,31 @@ const AppRoutes: React.FC = () => {
         <Route
           path="/leave-approval"
           element={
-            <ProtectedRoute allowedRoles={['manager', 'hr', 'super_admin']}>
+            <ProtectedRoute permission="leave.approve">
               <LeaveApprovalPage />
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/team-calendar"
+          element={
+            <ProtectedRoute permission="team.view">
+              <TeamCalendarPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/comp-off"
+          element={
+            <ProtectedRoute permission={['leave.apply', 'leave.approve']}>
+              <CompOffPage />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/employee-management"
           element={
-            <ProtectedRoute allowedRoles={['hr', 'super_admin']}>
+            <ProtectedRoute permission="employee.manage">
               <EmployeeManagementPage />
             </ProtectedRoute>
           }
@@ -104,7 +128,7 @@ const AppRoutes: React.FC = () => {
         <Route
           path="/employee-management/view/:id"
           element={
-            <ProtectedRoute allowedRoles={['hr', 'super_admin']}>
+            <ProtectedRoute permission="employee.manage">
               <EmployeeDetailsPage />
             </ProtectedRoute>
           }
@@ -112,7 +136,7 @@ const AppRoutes: React.FC = () => {
         <Route
           path="/employee-management/leaves/:id"
           element={
-            <ProtectedRoute allowedRoles={['hr', 'super_admin']}>
+            <ProtectedRoute permission="employee.manage">
               <EmployeeLeaveHistoryPage />
             </ProtectedRoute>
           }
@@ -128,7 +152,7 @@ const AppRoutes: React.FC = () => {
         <Route
           path="/holiday-management"
           element={
-            <ProtectedRoute allowedRoles={['hr', 'super_admin']}>
+            <ProtectedRoute permission="holiday.manage">
               <HolidayManagementPage />
             </ProtectedRoute>
           }
@@ -144,19 +168,59 @@ const AppRoutes: React.FC = () => {
         <Route
           path="/dashboard"
           element={
-            <ProtectedRoute allowedRoles={['super_admin', 'hr']}>
+            <ProtectedRoute permission="dashboard.view">
               <DashboardPage />
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/leave-encashment"
+          element={
+            <ProtectedRoute permission="leave.manage">
+              <LeaveEncashmentPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/exit-settlements"
+          element={
+            <ProtectedRoute permission="employee.exit">
+              <ExitSettlementPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/work-schedules"
+          element={
+            <ProtectedRoute permission="schedule.manage">
+              <WorkSchedulesPage />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/leave-rules"
           element={
-            <ProtectedRoute allowedRoles={['super_admin']}>
+            <ProtectedRoute permission="leave.rules">
               <LeaveRulesPage />
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/roles-permissions"
+          element={
+            <ProtectedRoute permission="role.manage">
+              <RolePermissionsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/audit-log"
+          element={
+            <ProtectedRoute permission="audit.view">
+              <AuditLogPage />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Project and Timesheet Routes */}
         <Route
@@ -194,7 +258,7 @@ const AppRoutes: React.FC = () => {
         <Route
           path="/timesheets"
           element={
-            <ProtectedRoute>
+            <ProtectedRoute permission="timesheet.log">
               <TimesheetPage />
             </ProtectedRoute>
           }
@@ -202,11 +266,19 @@ const AppRoutes: React.FC = () => {
         <Route
           path="/timesheet/approvals"
           element={
-            <ProtectedRoute allowedRoles={['manager', 'hr', 'super_admin']}>
+            <ProtectedRoute permission="timesheet.approve">
               <TimesheetApprovalPage />
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/timesheet/periods"
+          element={
+            <ProtectedRoute permission={['timesheet.approve', 'timesheet.period.manage']}>
+              <TimesheetPeriodsPage />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/access-denied"
           element={<AccessDeniedPage />}
@@ -4,11 +4,12 @@ import { useAuth } from '../contexts/AuthContext';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  allowedRoles?: string[];
+  // Required permission; with a list, any one of them is enough
+  permission?: string | string[];
 }
 
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, allowedRoles }) => {
-  const { isAuthenticated, user, loading, mustChangePassword } = useAuth();
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { isAuthenticated, loading, mustChangePassword, hasPermission } = useAuth();
 
   // While auth state is being initialized from storage, don't redirect yet
   if (loading) {
@@ -24,7 +25,7 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, allowe
     return <Navigate to="/change-password" replace />;
   }
 
-  if (allowedRoles && user && !allowedRoles.includes(user.role)) {
+  if (permission && !hasPermission(permission)) {
     return <Navigate to="/access-denied" replace />;
   }
 
@@ -0,0 +1,56 @@
+import api from './api';
+
+export interface ApprovalDelegation {
+    id: number;
+    delegatorId: number;
+    delegatorName: string;
+    delegateId: number;
+    delegateName: string;
+    startDate: string;
+    endDate: string;
+    reason: string | null;
+    isActive: boolean;
+    createdAt: string;
+}
+
+export interface DelegationOverview {
+    given: ApprovalDelegation[];
+    received: ApprovalDelegation[];
+    currentDelegate: {
+        delegateId: number;
+        delegateName: string;
+        source: 'explicit' | 'auto';
+    } | null;
+}
+
+export interface DelegateCandidate {
+    id: number;
+    empId: string;
+    name: string;
+    role: string;
+}
+
+export const getDelegations = async (): Promise<DelegationOverview> => {
+    const response = await api.get('/approval-delegations');
+    return response.data;
+};
+
+export const getDelegateCandidates = async (): Promise<DelegateCandidate[]> => {
+    const response = await api.get('/approval-delegations/candidates');
+    return response.data;
+};
+
+export const createDelegation = async (data: {
+    delegateId: number;
+    startDate: string;
+    endDate: string;
+    reason?: string;
+}): Promise<ApprovalDelegation> => {
+    const response = await api.post('/approval-delegations', data);
+    return response.data;
+};
+
+export const cancelDelegation = async (id: number) => {
+    const response = await api.put(`/approval-delegations/${id}/cancel`);
+    return response.data;
+};
@@ -0,0 +1,70 @@
+import api from './api';
+
+export interface AuditLog {
+    id: number;
+    userId: number | null;
+    actorName: string | null;
+    actorEmpId: string | null;
+    action: string;
+    entityType: string;
+    entityId: number | null;
+    oldValues: Record<string, any> | null;
+    newValues: Record<string, any> | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    createdAt: string;
+}
+
+export interface AuditLogFilters {
+    actorId?: number;
+    entityType?: string;
+    entityId?: number;
+    action?: string;
+    startDate?: string;
+    endDate?: string;
+}
+
+export interface AuditLogResponse {
+    logs: AuditLog[];
+    pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        totalPages: number;
+    };
+}
+
+const buildParams = (filters: AuditLogFilters) => {
+    const params = new URLSearchParams();
+    if (filters.actorId) params.append('actorId', filters.actorId.toString());
+    if (filters.entityType) params.append('entityType', filters.entityType);
+    if (filters.entityId) params.append('entityId', filters.entityId.toString());
+    if (filters.action) params.append('action', filters.action);
+    if (filters.startDate) params.append('startDate', filters.startDate);
+    if (filters.endDate) params.append('endDate', filters.endDate);
+    return params;
+};
+
+export const getAuditLogs = async (
+    filters: AuditLogFilters,
+    page: number = 1,
+    limit: number = 20
+): Promise<AuditLogResponse> => {
+    const params = buildParams(filters);
+    params.append('page', page.toString());
+    params.append('limit', limit.toString());
+    const response = await api.get(`/audit?${params}`);
+    return response.data;
+};
+
+export const getAuditFilterOptions = async (): Promise<{ entityTypes: string[]; actions: string[] }> => {
+    const response = await api.get('/audit/filters');
+    return response.data;
+};
+
+export const exportAuditLogs = async (filters: AuditLogFilters): Promise<Blob> => {
+    const response = await api.get(`/audit/export?${buildParams(filters)}`, {
+        responseType: 'blob'
+    });
+    return response.data;
+};
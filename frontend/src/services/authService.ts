@@ -14,6 +14,8 @@ export interface User {
   status: string;
   mustChangePassword?: boolean;
   isProfileUpdated?: boolean;
+  // Named permissions granted to the user's role, e.g. 'leave.approve'
+  permissions?: string[];
 }
 
 export interface LoginResponse {
@@ -21,11 +23,55 @@ export interface LoginResponse {
   user: User;
 }
 
-export const login = async (credentials: LoginCredentials): Promise<LoginResponse> => {
+// Returned by login instead of a session when a second factor is needed:
+// 'verify' asks for a code, 'setup' means the user's role requires enrolling first
+export interface MfaChallenge {
+  mfa: 'verify' | 'setup';
+  mfaToken: string;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export const login = async (credentials: LoginCredentials): Promise<LoginResponse | MfaChallenge> => {
   const response = await api.post('/auth/login', credentials);
   return response.data;
 };
 
+export const verifyMfaLogin = async (mfaToken: string, code: string): Promise<LoginResponse> => {
+  const response = await api.post('/auth/mfa/verify', { mfaToken, code });
+  return response.data;
+};
+
+export const startMfaLoginSetup = async (mfaToken: string): Promise<MfaEnrollment> => {
+  const response = await api.post('/auth/mfa/login-setup', { mfaToken });
+  return response.data;
+};
+
+export const confirmMfaLoginSetup = async (
+  mfaToken: string,
+  code: string
+): Promise<LoginResponse & { recoveryCodes: string[] }> => {
+  const response = await api.post('/auth/mfa/login-setup/confirm', { mfaToken, code });
+  return response.data;
+};
+
+export interface OidcConfig {
+  enabled: boolean;
+  providerName: string | null;
+}
+
+export const getOidcConfig = async (): Promise<OidcConfig> => {
+  const response = await api.get('/auth/oidc/config');
+  return response.data;
+};
+
+// Full-page navigation: the API redirects on to the identity provider
+export const getOidcLoginUrl = (): string => `${api.defaults.baseURL}/auth/oidc/login`;
+
 export const logout = async (): Promise<void> => {
   await api.post('/auth/logout');
   localStorage.removeItem('accessToken');
@@ -67,3 +113,44 @@ export const checkAuth = async (): Promise<LoginResponse> => {
   return response.data;
 };
 
+
+export interface LoginHistoryEntry {
+  id: number;
+  method: 'password' | 'mfa' | 'sso';
+  success: boolean;
+  failureReason: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export const getLoginHistory = async (limit: number = 20): Promise<LoginHistoryEntry[]> => {
+  const response = await api.get('/auth/login-history', { params: { limit } });
+  return response.data;
+};
+
+export interface ActiveSession {
+  id: number;
+  loginMethod: 'password' | 'mfa' | 'sso' | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export const getSessions = async (): Promise<ActiveSession[]> => {
+  const response = await api.get('/auth/sessions');
+  return response.data;
+};
+
+export const revokeSession = async (sessionId: number): Promise<{ message: string }> => {
+  const response = await api.delete(`/auth/sessions/${sessionId}`);
+  return response.data;
+};
+
+export const revokeOtherSessions = async (): Promise<{ message: string; revoked: number }> => {
+  const response = await api.post('/auth/sessions/revoke-others');
+  return response.data;
+};
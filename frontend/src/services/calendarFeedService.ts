@@ -0,0 +1,28 @@
+import api from './api';
+
+export interface CalendarFeed {
+    enabled: boolean;
+    // Only returned when the link is issued; the server keeps just a hash
+    token: string | null;
+    createdAt: string | null;
+    lastAccessedAt: string | null;
+    includesTeam: boolean;
+}
+
+export const getFeed = async (): Promise<CalendarFeed> => {
+    const response = await api.get('/calendar-feed');
+    return response.data;
+};
+
+export const regenerateFeed = async (): Promise<CalendarFeed> => {
+    const response = await api.post('/calendar-feed');
+    return response.data;
+};
+
+export const revokeFeed = async (): Promise<void> => {
+    await api.delete('/calendar-feed');
+};
+
+// Absolute feed URL to paste into a calendar app's "subscribe from URL"
+export const getFeedUrl = (token: string): string =>
+    new URL(`${api.defaults.baseURL}/calendar-feed/${token}/leaves.ics`, window.location.origin).toString();
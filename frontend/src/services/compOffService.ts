@@ -0,0 +1,61 @@
+import api from './api';
+
+export type CompOffClaimStatus = 'pending' | 'approved' | 'rejected' | 'cancelled' | 'expired';
+
+export interface CompOffClaim {
+    id: number;
+    employeeId: number;
+    employeeName: string;
+    empId: string;
+    workDate: string;
+    dayKind: string;
+    hoursWorked: number;
+    days: number;
+    reason: string;
+    status: CompOffClaimStatus;
+    approverId: number | null;
+    approverName: string | null;
+    approverComment: string | null;
+    decidedAt: string | null;
+    expiresOn: string | null;
+    lapsedDays: number | null;
+    createdAt: string;
+    delegatedFrom?: string | null;
+}
+
+export interface CompOffRules {
+    claimWindowDays: number;
+    validityDays: number;
+    fullDayHours: number;
+    halfDayHours: number;
+}
+
+export const getMyClaims = async (): Promise<{ claims: CompOffClaim[]; rules: CompOffRules }> => {
+    const response = await api.get('/comp-off/claims');
+    return response.data;
+};
+
+export const getPendingClaims = async (): Promise<CompOffClaim[]> => {
+    const response = await api.get('/comp-off/claims/pending');
+    return response.data;
+};
+
+export const createClaim = async (data: { workDate: string; reason: string }): Promise<CompOffClaim> => {
+    const response = await api.post('/comp-off/claims', data);
+    return response.data;
+};
+
+export const cancelClaim = async (id: number) => {
+    const response = await api.put(`/comp-off/claims/${id}/cancel`);
+    return response.data;
+};
+
+export const approveClaim = async (id: number, comment?: string) => {
+    const response = await api.put(`/comp-off/claims/${id}/approve`, { comment });
+    return response.data;
+};
+
+export const rejectClaim = async (id: number, comment: string) => {
+    const response = await api.put(`/comp-off/claims/${id}/reject`, { comment });
+    return response.data;
+};
@@ -80,5 +80,23 @@ export const getEmployeeLeaveBalances = async (employeeId: number) => {
   return response.data;
 };
 
+export interface LoginSecurityStatus {
+  lockedUntil: string | null;
+  recentFailures: number;
+  activeSessions: number;
+}
+
+export const getLoginSecurity = async (id: number): Promise<LoginSecurityStatus> => {
+  const response = await api.get(`/employees/${id}/login-security`);
+  return response.data;
+};
 
+export const unlockAccount = async (id: number): Promise<{ message: string }> => {
+  const response = await api.post(`/employees/${id}/unlock`);
+  return response.data;
+};
 
+export const revokeSessions = async (id: number): Promise<{ message: string; revoked: number }> => {
+  const response = await api.post(`/employees/${id}/revoke-sessions`);
+  return response.data;
+};
@@ -0,0 +1,87 @@
+import api from './api';
+
+export type ExitStatus = 'resigned' | 'terminated';
+export type ExitSettlementStatus = 'scheduled' | 'completed' | 'cancelled';
+
+export interface SettlementLine {
+    leaveTypeCode: string;
+    leaveTypeName: string;
+    balance: number;
+    unearnedCredit: number;
+    recovered: number;
+    encashed: number;
+    lapsed: number;
+}
+
+export interface CancelledLeave {
+    leaveRequestId: number;
+    leaveType: string;
+    startDate: string;
+    endDate: string;
+    days: number;
+    fullyCancelled: boolean;
+}
+
+export interface ExitSettlementSummary {
+    employeeId: number;
+    empId: string;
+    employeeName: string;
+    role: string;
+    dateOfJoining: string | null;
+    lastWorkingDate: string;
+    exitStatus: ExitStatus;
+    lines: SettlementLine[];
+    cancelledLeaves: CancelledLeave[];
+    encashedCasualDays: number;
+    lopRecoveryDays: number;
+    computedAt: string;
+}
+
+export interface ExitSettlement {
+    id: number;
+    employeeId: number;
+    empId: string;
+    employeeName: string;
+    role: string;
+    employeeStatus: string;
+    lastWorkingDate: string;
+    exitStatus: ExitStatus;
+    status: ExitSettlementStatus;
+    remarks: string | null;
+    summary: ExitSettlementSummary | null;
+    initiatedBy: number | null;
+    initiatedByName: string | null;
+    completedAt: string | null;
+    cancelledAt: string | null;
+    createdAt: string;
+}
+
+export const getSettlements = async (status?: ExitSettlementStatus): Promise<ExitSettlement[]> => {
+    const response = await api.get(`/exit-settlements${status ? `?status=${status}` : ''}`);
+    return response.data;
+};
+
+export const getSettlement = async (id: number): Promise<ExitSettlement> => {
+    const response = await api.get(`/exit-settlements/${id}`);
+    return response.data;
+};
+
+export const scheduleExit = async (data: {
+    employeeId: number;
+    lastWorkingDate: string;
+    exitStatus: ExitStatus;
+    remarks?: string;
+}): Promise<ExitSettlement> => {
+    const response = await api.post('/exit-settlements', data);
+    return response.data;
+};
+
+export const cancelExit = async (id: number) => {
+    const response = await api.put(`/exit-settlements/${id}/cancel`);
+    return response.data;
+};
+
+export const downloadSettlementPDF = async (id: number): Promise<Blob> => {
+    const response = await api.get(`/exit-settlements/${id}/pdf`, { responseType: 'blob' });
+    return response.data;
+};
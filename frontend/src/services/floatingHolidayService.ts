@@ -0,0 +1,58 @@
+import api from './api';
+
+export type FloatingHolidayClaimStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface FloatingHolidayClaim {
+    id: number;
+    employeeId: number;
+    employeeName: string;
+    empId: string;
+    holidayId: number;
+    holidayDate: string;
+    holidayName: string;
+    reason: string | null;
+    status: FloatingHolidayClaimStatus;
+    approverId: number | null;
+    approverName: string | null;
+    approverComment: string | null;
+    decidedAt: string | null;
+    createdAt: string;
+    delegatedFrom?: string | null;
+}
+
+export interface FloatingHolidaySummary {
+    year: number;
+    quota: number;
+    used: number;
+    claims: FloatingHolidayClaim[];
+}
+
+export const getMyClaims = async (year?: number): Promise<FloatingHolidaySummary> => {
+    const response = await api.get('/floating-holidays/claims', { params: year ? { year } : {} });
+    return response.data;
+};
+
+export const getPendingClaims = async (): Promise<FloatingHolidayClaim[]> => {
+    const response = await api.get('/floating-holidays/claims/pending');
+    return response.data;
+};
+
+export const createClaim = async (data: { holidayId: number; reason?: string }): Promise<FloatingHolidayClaim> => {
+    const response = await api.post('/floating-holidays/claims', data);
+    return response.data;
+};
+
+export const cancelClaim = async (id: number) => {
+    const response = await api.put(`/floating-holidays/claims/${id}/cancel`);
+    return response.data;
+};
+
+export const approveClaim = async (id: number, comment?: string) => {
+    const response = await api.put(`/floating-holidays/claims/${id}/approve`, { comment });
+    return response.data;
+};
+
+export const rejectClaim = async (id: number, comment: string) => {
+    const response = await api.put(`/floating-holidays/claims/${id}/reject`, { comment });
+    return response.data;
+};
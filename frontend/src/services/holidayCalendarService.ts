@@ -0,0 +1,96 @@
+import api from './api';
+
+export interface HolidayCalendar {
+    id: number;
+    name: string;
+    location: string | null;
+    isDefault: boolean;
+    floatingQuota: number;
+    holidayCount?: number;
+    employeeCount?: number;
+}
+
+export interface HolidayCalendarInput {
+    name: string;
+    location?: string | null;
+    isDefault?: boolean;
+    floatingQuota?: number;
+}
+
+export interface EmployeeCalendarAssignment {
+    employeeId: number;
+    empId: string;
+    employeeName: string;
+    role: string;
+    department: string | null;
+    assignedCalendarId: number | null;
+    calendarId: number | null;
+    calendarName: string | null;
+}
+
+export const getCalendars = async (): Promise<HolidayCalendar[]> => {
+    const response = await api.get('/holiday-calendars');
+    return response.data;
+};
+
+export const createCalendar = async (data: HolidayCalendarInput): Promise<HolidayCalendar> => {
+    const response = await api.post('/holiday-calendars', data);
+    return response.data;
+};
+
+export const updateCalendar = async (id: number, data: HolidayCalendarInput): Promise<HolidayCalendar> => {
+    const response = await api.put(`/holiday-calendars/${id}`, data);
+    return response.data;
+};
+
+export const deleteCalendar = async (id: number): Promise<void> => {
+    await api.delete(`/holiday-calendars/${id}`);
+};
+
+export const getEmployeeAssignments = async (): Promise<EmployeeCalendarAssignment[]> => {
+    const response = await api.get('/holiday-calendars/employees');
+    return response.data;
+};
+
+export const assignEmployees = async (employeeIds: number[], calendarId: number | null): Promise<{ message: string; updated: number }> => {
+    const response = await api.put('/holiday-calendars/employees', { employeeIds, calendarId });
+    return response.data;
+};
+
+export type HolidayImportStatus = 'new' | 'changed' | 'unchanged' | 'skipped';
+
+export interface HolidayImportRow {
+    date: string;
+    name: string;
+    isOptional: boolean;
+    status: HolidayImportStatus;
+    existing: { id: number; name: string; isOptional: boolean } | null;
+    message: string | null;
+}
+
+export interface HolidayImportPreview {
+    format: 'ics' | 'csv';
+    rows: HolidayImportRow[];
+    notInFile: Array<{ id: number; date: string; name: string; isOptional: boolean }>;
+}
+
+export interface HolidayImportResult {
+    message: string;
+    created: number;
+    updated: number;
+    failed: Array<{ date: string; name: string; message: string }>;
+}
+
+export const previewImport = async (id: number, fileName: string, content: string): Promise<HolidayImportPreview> => {
+    const response = await api.post(`/holiday-calendars/${id}/import/preview`, { fileName, content });
+    return response.data;
+};
+
+export const applyImport = async (id: number, fileName: string, content: string, dates: string[]): Promise<HolidayImportResult> => {
+    const response = await api.post(`/holiday-calendars/${id}/import`, { fileName, content, dates });
+    return response.data;
+};
+
+// Absolute URL of the calendar's ICS feed, for downloading or subscribing from a calendar client
+export const getExportUrl = (id: number): string =>
+    new URL(`${api.defaults.baseURL}/holiday-calendars/${id}/holidays.ics`, window.location.origin).toString();
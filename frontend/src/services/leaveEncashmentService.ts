@@ -0,0 +1,48 @@
+import api from './api';
+
+export type EncashmentStatus = 'pending' | 'paid';
+
+export interface EncashmentItem {
+    id: number;
+    leaveTypeCode: string;
+    leaveTypeName: string;
+    days: number;
+    status: EncashmentStatus;
+    paidAt: string | null;
+}
+
+export interface EmployeeEncashment {
+    employeeId: number;
+    empId: string;
+    employeeName: string;
+    role: string;
+    items: EncashmentItem[];
+    totalDays: number;
+    pendingDays: number;
+}
+
+const buildParams = (year: number, status?: EncashmentStatus) => {
+    const params = new URLSearchParams({ year: String(year) });
+    if (status) params.append('status', status);
+    return params.toString();
+};
+
+export const getEncashmentReport = async (
+    year: number,
+    status?: EncashmentStatus
+): Promise<{ year: number; employees: EmployeeEncashment[] }> => {
+    const response = await api.get(`/leave-encashments?${buildParams(year, status)}`);
+    return response.data;
+};
+
+export const exportEncashmentReport = async (year: number, status?: EncashmentStatus): Promise<Blob> => {
+    const response = await api.get(`/leave-encashments/export?${buildParams(year, status)}`, {
+        responseType: 'blob'
+    });
+    return response.data;
+};
+
+export const markEncashmentsPaid = async (ids: number[]) => {
+    const response = await api.put('/leave-encashments/paid', { ids });
+    return response.data;
+};
@@ -6,9 +6,18 @@ export interface LeaveType {
     name: string;
     description: string;
     is_active: boolean;
+    requires_balance?: boolean;
+    max_balance?: string;
+    default_balance?: string;
     roles?: string[];
 }
 
+export interface LeaveTypeBalanceSettings {
+    requires_balance?: boolean;
+    max_balance?: string;
+    default_balance?: string;
+}
+
 export interface LeavePolicyConfig {
     id: number;
     role: string;
@@ -21,6 +30,7 @@ export interface LeavePolicyConfig {
     max_leave_per_month: string;
     anniversary_3_year_bonus: string;
     anniversary_5_year_bonus: string;
+    max_encashable_days?: string;
     effective_from?: string;
 }
 
@@ -29,12 +39,12 @@ export const getLeaveTypes = async () => {
     return response.data;
 };
 
-export const createLeaveType = async (code: string, name: string, description: string, roles?: string[]) => {
-    const response = await api.post('/leave-rules/types', { code, name, description, roles });
+export const createLeaveType = async (code: string, name: string, description: string, roles?: string[], balanceSettings: LeaveTypeBalanceSettings = {}) => {
+    const response = await api.post('/leave-rules/types', { code, name, description, roles, ...balanceSettings });
     return response.data;
 };
 
-export const updateLeaveType = async (id: number, data: { name: string; description: string; is_active: boolean; roles: string[] }) => {
+export const updateLeaveType = async (id: number, data: { name: string; description: string; is_active: boolean; roles: string[] } & LeaveTypeBalanceSettings) => {
     const response = await api.put(`/leave-rules/types/${id}`, data);
     return response.data;
 };
@@ -53,3 +63,38 @@ export const updatePolicy = async (id: number, updates: Partial<LeavePolicyConfi
     const response = await api.put(`/leave-rules/policies/${id}`, updates);
     return response.data;
 };
+
+export type ApprovalStageRole = 'manager' | 'hr';
+
+export interface ApprovalWorkflow {
+    id: number;
+    name: string;
+    leaveTypeCode: string | null;
+    minDays: number | null;
+    maxDays: number | null;
+    stages: ApprovalStageRole[];
+    priority: number;
+    isActive: boolean;
+}
+
+export type ApprovalWorkflowInput = Omit<ApprovalWorkflow, 'id'>;
+
+export const getWorkflows = async (): Promise<ApprovalWorkflow[]> => {
+    const response = await api.get('/leave-rules/workflows');
+    return response.data;
+};
+
+export const createWorkflow = async (data: ApprovalWorkflowInput): Promise<ApprovalWorkflow> => {
+    const response = await api.post('/leave-rules/workflows', data);
+    return response.data;
+};
+
+export const updateWorkflow = async (id: number, data: ApprovalWorkflowInput): Promise<ApprovalWorkflow> => {
+    const response = await api.put(`/leave-rules/workflows/${id}`, data);
+    return response.data;
+};
+
+export const deleteWorkflow = async (id: number) => {
+    const response = await api.delete(`/leave-rules/workflows/${id}`);
+    return response.data;
+};
@@ -4,8 +4,11 @@ export interface LeaveBalance {
   casual: number;
   sick: number;
   lop: number;
+  /** Balances keyed by leave type code, covering every balance-carrying type */
+  balances?: Record<string, number>;
   policies?: Record<string, {
     name: string;
+    requiresBalance?: boolean;
     maxLeavePerMonth: number;
     carryForwardLimit: number;
     anniversary3YearBonus: number;
@@ -13,6 +16,34 @@ export interface LeaveBalance {
   }>;
 }
 
+export interface BalanceTransaction {
+  id: number;
+  leaveTypeCode: string;
+  leaveTypeName: string;
+  transactionType: 'opening' | 'credit' | 'debit' | 'refund' | 'manual_allocation' | 'carry_forward' | 'lapse' | 'adjustment' | 'encashment';
+  delta: number;
+  balanceAfter: number;
+  leaveRequestId: number | null;
+  source: string | null;
+  remarks: string | null;
+  createdAt: string;
+  createdBy: number | null;
+  createdByName: string | null;
+}
+
+export interface BalanceReconciliation {
+  balanced: boolean;
+  mismatches: {
+    employeeId: number;
+    empId: string;
+    employeeName: string;
+    leaveTypeCode: string;
+    storedBalance: number;
+    ledgerBalance: number;
+    difference: number;
+  }[];
+}
+
 export interface AppliedLeaveDay {
   date: string;
   type: string;
@@ -20,8 +51,12 @@ export interface AppliedLeaveDay {
 }
 
 export interface Holiday {
+  id?: number;
   date: string;
   name: string;
+  calendarId?: number;
+  /** Optional (floating) holidays are working days unless the employee claims one and it is approved */
+  isOptional?: boolean;
 }
 
 export interface LeaveRule {
@@ -65,6 +100,21 @@ export interface PendingLeaveRequest {
   empStatus?: string;
   empRole?: string;
   leaveDays: Array<{ date: string; type: string }>;
+  approvalStages?: ApprovalStage[];
+  currentStage?: 'manager' | 'hr' | null;
+  /** Reporting manager this request is being approved for, when delegated */
+  delegatedFrom?: string | null;
+}
+
+export interface ApprovalStage {
+  id: number;
+  stageOrder: number;
+  approverRole: 'manager' | 'hr';
+  status: 'pending' | 'approved' | 'rejected' | 'skipped' | 'auto_approved';
+  decidedBy: number | null;
+  decidedByName: string | null;
+  decidedAt: string | null;
+  comment: string | null;
 }
 
 export interface ApplyLeaveData {
@@ -83,11 +133,15 @@ export const getLeaveBalances = async (): Promise<LeaveBalance> => {
   return response.data;
 };
 
-export const getHolidays = async (year?: number): Promise<Holiday[]> => {
+// Without a calendarId, the holidays of the current user's calendar are returned
+export const getHolidays = async (year?: number, calendarId?: number): Promise<Holiday[]> => {
   const params = new URLSearchParams();
   if (year) {
     params.append('year', year.toString());
   }
+  if (calendarId) {
+    params.append('calendarId', calendarId.toString());
+  }
   const queryString = params.toString();
   const url = queryString ? `/leave/holidays?${queryString}` : '/leave/holidays';
   const response = await api.get(url);
@@ -152,6 +206,21 @@ export const getEmployeeLeaveBalances = async (employeeId: number): Promise<Leav
   return response.data;
 };
 
+export const getBalanceStatement = async (employeeId?: number, leaveType?: string): Promise<{ transactions: BalanceTransaction[] }> => {
+  const params = new URLSearchParams();
+  if (leaveType) params.append('leaveType', leaveType);
+  const url = employeeId ? `/leave/employee/${employeeId}/balance-statement` : '/leave/balances/statement';
+  const response = await api.get(`${url}?${params}`);
+  return response.data;
+};
+
+export const reconcileBalances = async (employeeId?: number): Promise<BalanceReconciliation> => {
+  const params = new URLSearchParams();
+  if (employeeId) params.append('employeeId', employeeId.toString());
+  const response = await api.get(`/leave/balances/reconcile?${params}`);
+  return response.data;
+};
+
 export const getPendingLeaveRequests = async (page: number = 1, limit: number = 10, search?: string, filter?: string) => {
   const params = new URLSearchParams({ page: page.toString(), limit: limit.toString() });
   if (search) params.append('search', search);
@@ -287,8 +356,8 @@ export const updateLeaveStatus = async (
  * Create a new holiday
  * Only HR and Super Admin can create holidays
  */
-export const createHoliday = async (holidayDate: string, holidayName: string) => {
-  const response = await api.post('/leave/holidays', { holidayDate, holidayName });
+export const createHoliday = async (holidayDate: string, holidayName: string, calendarId?: number, isOptional?: boolean) => {
+  const response = await api.post('/leave/holidays', { holidayDate, holidayName, calendarId, isOptional });
   return response.data;
 };
 
@@ -306,7 +375,7 @@ export const convertLeaveRequestLopToCasual = async (requestId: number) => {
   return response.data;
 };
 
-export const updateHoliday = async (id: number, holidayDate: string, holidayName: string) => {
-  const response = await api.put(`/leave/holidays/${id}`, { holidayDate, holidayName });
+export const updateHoliday = async (id: number, holidayDate: string, holidayName: string, isOptional?: boolean) => {
+  const response = await api.put(`/leave/holidays/${id}`, { holidayDate, holidayName, isOptional });
   return response.data;
 };
@@ -0,0 +1,54 @@
+import api from './api';
+import { MfaEnrollment } from './authService';
+
+export interface MfaStatus {
+    enabled: boolean;
+    enabledAt: string | null;
+    required: boolean;
+    recoveryCodesRemaining: number;
+}
+
+export interface MfaPolicy {
+    requiredRoles: string[];
+    roles: string[];
+}
+
+export const getStatus = async (): Promise<MfaStatus> => {
+    const response = await api.get('/auth/mfa');
+    return response.data;
+};
+
+export const startSetup = async (): Promise<MfaEnrollment> => {
+    const response = await api.post('/auth/mfa/setup');
+    return response.data;
+};
+
+export const enable = async (code: string): Promise<{ message: string; recoveryCodes: string[] }> => {
+    const response = await api.post('/auth/mfa/enable', { code });
+    return response.data;
+};
+
+export const regenerateRecoveryCodes = async (code: string): Promise<{ recoveryCodes: string[] }> => {
+    const response = await api.post('/auth/mfa/recovery-codes', { code });
+    return response.data;
+};
+
+export const disable = async (data: { password: string; code: string }): Promise<{ message: string }> => {
+    const response = await api.post('/auth/mfa/disable', data);
+    return response.data;
+};
+
+export const getPolicy = async (): Promise<MfaPolicy> => {
+    const response = await api.get('/auth/mfa/policy');
+    return response.data;
+};
+
+export const updatePolicy = async (requiredRoles: string[]): Promise<MfaPolicy> => {
+    const response = await api.put('/auth/mfa/policy', { requiredRoles });
+    return response.data;
+};
+
+export const resetForEmployee = async (employeeId: number): Promise<{ message: string }> => {
+    const response = await api.post(`/employees/${employeeId}/reset-mfa`);
+    return response.data;
+};
@@ -0,0 +1,68 @@
+import api from './api';
+
+export interface Notification {
+    id: number;
+    type: string;
+    title: string;
+    message: string;
+    link: string | null;
+    isRead: boolean;
+    readAt: string | null;
+    createdAt: string;
+}
+
+export type NotificationDelivery = 'immediate' | 'digest' | 'in_app' | 'off';
+
+export interface NotificationPreference {
+    eventType: string;
+    label: string;
+    delivery: NotificationDelivery;
+}
+
+export interface NotificationListResponse {
+    notifications: Notification[];
+    unreadCount: number;
+    pagination: {
+        page: number;
+        limit: number;
+        total: number;
+    };
+}
+
+export const getNotifications = async (
+    page: number = 1,
+    limit: number = 20,
+    unreadOnly: boolean = false
+): Promise<NotificationListResponse> => {
+    const params = new URLSearchParams({ page: page.toString(), limit: limit.toString() });
+    if (unreadOnly) params.append('unreadOnly', 'true');
+    const response = await api.get(`/notifications?${params}`);
+    return response.data;
+};
+
+export const getUnreadCount = async (): Promise<number> => {
+    const response = await api.get('/notifications/unread-count');
+    return response.data.count;
+};
+
+export const markAsRead = async (id: number): Promise<Notification> => {
+    const response = await api.put(`/notifications/${id}/read`);
+    return response.data;
+};
+
+export const markAllAsRead = async () => {
+    const response = await api.put('/notifications/read-all');
+    return response.data;
+};
+
+export const getPreferences = async (): Promise<NotificationPreference[]> => {
+    const response = await api.get('/notifications/preferences');
+    return response.data.preferences;
+};
+
+export const updatePreferences = async (
+    preferences: Array<{ eventType: string; delivery: NotificationDelivery }>
+): Promise<NotificationPreference[]> => {
+    const response = await api.put('/notifications/preferences', { preferences });
+    return response.data.preferences;
+};
@@ -0,0 +1,25 @@
+import api from './api';
+
+export interface PermissionDefinition {
+    key: string;
+    label: string;
+    group: string;
+}
+
+export interface RolePermissions {
+    permissions: PermissionDefinition[];
+    roles: Record<string, string[]>;
+}
+
+export const getRolePermissions = async (): Promise<RolePermissions> => {
+    const response = await api.get('/permissions');
+    return response.data;
+};
+
+export const updateRolePermissions = async (
+    role: string,
+    permissions: string[]
+): Promise<{ role: string; permissions: string[] }> => {
+    const response = await api.put(`/permissions/roles/${role}`, { permissions });
+    return response.data;
+};
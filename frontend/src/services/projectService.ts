@@ -23,6 +23,7 @@ export interface ProjectModule {
     name: string;
     description: string;
     status: string;
+    is_assigned?: boolean;
     assigned_users?: { id: number; name: string; initials: string; }[];
     created_by_name?: string;
 }
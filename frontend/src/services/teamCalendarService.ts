@@ -0,0 +1,77 @@
+import api from './api';
+
+export interface TeamCalendarMember {
+    id: number;
+    empId: string;
+    name: string;
+    workingDays: number[];
+}
+
+export interface TeamCalendarLeaveDay {
+    employeeId: number;
+    leaveRequestId: number;
+    date: string;
+    dayType: 'full' | 'half';
+    leaveType: string;
+    status: 'approved' | 'pending';
+    permissionStart: string | null;
+    permissionEnd: string | null;
+}
+
+export interface TeamCalendarHoliday {
+    employeeId: number;
+    date: string;
+    name: string;
+    isOptional: boolean;
+}
+
+export interface TeamCalendar {
+    startDate: string;
+    endDate: string;
+    members: TeamCalendarMember[];
+    leaveDays: TeamCalendarLeaveDay[];
+    holidays: TeamCalendarHoliday[];
+}
+
+export interface AbsenceConflict {
+    date: string;
+    scope: 'team' | 'project';
+    scopeId: number;
+    scopeName: string;
+    absentCount: number;
+    memberCount: number;
+    percent: number;
+    threshold: number;
+    absentees: string[];
+}
+
+export interface AbsenceThresholdSettings {
+    defaultThreshold: number;
+    team: { threshold: number | null; memberCount: number } | null;
+    projects: Array<{ id: number; name: string; customId: string; threshold: number | null; memberCount: number }>;
+}
+
+export const getTeamCalendar = async (startDate: string, endDate: string, projectId?: number): Promise<TeamCalendar> => {
+    const response = await api.get('/team-calendar', { params: { startDate, endDate, projectId } });
+    return response.data;
+};
+
+export const getLeaveConflicts = async (leaveRequestId: number): Promise<AbsenceConflict[]> => {
+    const response = await api.get(`/team-calendar/conflicts/${leaveRequestId}`);
+    return response.data;
+};
+
+export const getThresholdSettings = async (): Promise<AbsenceThresholdSettings> => {
+    const response = await api.get('/team-calendar/thresholds');
+    return response.data;
+};
+
+export const updateTeamThreshold = async (threshold: number | null): Promise<AbsenceThresholdSettings> => {
+    const response = await api.put('/team-calendar/thresholds/team', { threshold });
+    return response.data;
+};
+
+export const updateProjectThreshold = async (projectId: number, threshold: number | null): Promise<AbsenceThresholdSettings> => {
+    const response = await api.put(`/team-calendar/thresholds/projects/${projectId}`, { threshold });
+    return response.data;
+};
@@ -0,0 +1,87 @@
+import api from './api';
+
+export type ReopenRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface TimesheetPeriod {
+    period_start: string; // YYYY-MM-01
+    label: string;
+    status: 'open' | 'closed';
+    closed_at: string | null;
+    closed_by_name: string | null;
+    auto_closed: boolean | null;
+    reopened_at: string | null;
+    reopened_by_name: string | null;
+    pending_requests: number;
+    active_reopens: number;
+}
+
+export interface TimesheetPeriodSettings {
+    auto_close_day: number | null;
+}
+
+export interface PeriodRangeStatus {
+    period_start: string;
+    label: string;
+    is_closed: boolean;
+    /** Closed and not editable by the current user */
+    is_locked: boolean;
+    reopen_until: string | null;
+    has_pending_request: boolean;
+}
+
+export interface ReopenRequest {
+    id: number;
+    user_id: number;
+    user_name: string;
+    emp_id: string;
+    period_start: string;
+    reason: string;
+    status: ReopenRequestStatus;
+    is_active: boolean;
+    reopen_until: string | null;
+    reviewed_by_name: string | null;
+    reviewed_at: string | null;
+    review_comment: string | null;
+    created_at: string;
+    can_review?: boolean;
+}
+
+export const getPeriods = async (): Promise<{ settings: TimesheetPeriodSettings; periods: TimesheetPeriod[] }> => {
+    const response = await api.get('/timesheet-periods');
+    return response.data;
+};
+
+export const updateSettings = async (autoCloseDay: number | null): Promise<TimesheetPeriodSettings> => {
+    const response = await api.put('/timesheet-periods/settings', { autoCloseDay });
+    return response.data;
+};
+
+export const closePeriod = async (periodStart: string) => {
+    const response = await api.post(`/timesheet-periods/${periodStart}/close`);
+    return response.data;
+};
+
+export const reopenPeriod = async (periodStart: string) => {
+    const response = await api.post(`/timesheet-periods/${periodStart}/reopen`);
+    return response.data;
+};
+
+export const getRangeStatus = async (startDate: string, endDate: string): Promise<PeriodRangeStatus[]> => {
+    const response = await api.get('/timesheet-periods/status', { params: { start_date: startDate, end_date: endDate } });
+    return response.data;
+};
+
+export const getReopenRequests = async (): Promise<{ mine: ReopenRequest[]; toReview: ReopenRequest[] }> => {
+    const response = await api.get('/timesheet-periods/reopen-requests');
+    return response.data;
+};
+
+export const createReopenRequest = async (data: { periodStart: string; reason: string }): Promise<ReopenRequest> => {
+    const response = await api.post('/timesheet-periods/reopen-requests', data);
+    return response.data;
+};
+
+export const reviewReopenRequest = async (id: number, action: 'approve' | 'reject', comment?: string): Promise<ReopenRequest> => {
+    const response = await api.post(`/timesheet-periods/reopen-requests/${id}/review`, { action, comment });
+    return response.data;
+};
@@ -20,6 +20,74 @@ export interface TimesheetEntry {
     is_late?: boolean;
     is_resubmission?: boolean;
     is_system?: boolean;
+    /** On entries rejected before: what has changed since the latest rejection */
+    changes_since_rejection?: {
+        rejected_at: string;
+        rejection_reason: string | null;
+        changes: EntryChange[];
+    };
+}
+
+export interface EntryChange {
+    field: string;
+    before: string;
+    after: string;
+}
+
+export interface EntryRevision {
+    id: number;
+    change_type: 'edited' | 'rejected';
+    log_date: string;
+    duration: number;
+    description: string;
+    work_status: string;
+    log_status: string;
+    rejection_reason: string | null;
+    changed_at: string;
+    project_name: string | null;
+    module_name: string | null;
+    task_name: string | null;
+    changed_by_name: string | null;
+}
+
+export interface TimesheetTemplate {
+    id?: number;
+    name: string;
+    project_id: number;
+    module_id: number;
+    task_id: number;
+    activity_id?: number | null;
+    duration: number;
+    description: string;
+    work_status: string;
+    weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+    project_name?: string;
+    module_name?: string;
+    task_name?: string;
+    activity_name?: string;
+}
+
+export interface DraftEntryResult {
+    created: number;
+    skipped: Array<{ log_date: string; description: string; reason: string }>;
+}
+
+export interface TimesheetTimer {
+    id: number;
+    project_id: number;
+    module_id: number;
+    task_id: number;
+    activity_id?: number | null;
+    description: string | null;
+    started_at: string;
+    is_running: boolean;
+    elapsed_seconds: number;
+    rounded_hours: number;
+    rounding_minutes: number;
+    rounding_mode: 'nearest' | 'up' | 'down';
+    project_name: string;
+    module_name: string;
+    task_name: string;
 }
 
 export const timesheetService = {
@@ -38,6 +106,11 @@ export const timesheetService = {
         return response.data;
     },
 
+    getEntryRevisions: async (id: number) => {
+        const response = await api.get<EntryRevision[]>(`/timesheets/entry/${id}/revisions`);
+        return response.data;
+    },
+
     // Approval Module
     getTeamStatus: async (startDate: string, endDate: string) => {
         const response = await api.get(`/timesheets/team-status?start_date=${startDate}&end_date=${endDate}`);
@@ -139,5 +212,55 @@ export const timesheetService = {
     updateLeaveLog: async (entryId: number, logDate: string, action: 'half_day' | 'delete') => {
         const response = await api.post('/timesheets/leave-log/action', { entryId, logDate, action });
         return response.data;
+    },
+
+    // Bulk Drafts
+    copyPreviousWeek: async (weekStart: string) => {
+        const response = await api.post<DraftEntryResult>('/timesheets/copy-previous-week', { week_start: weekStart });
+        return response.data;
+    },
+    getTemplates: async () => {
+        const response = await api.get<TimesheetTemplate[]>('/timesheets/templates');
+        return response.data;
+    },
+    saveTemplate: async (template: TimesheetTemplate) => {
+        const response = template.id
+            ? await api.put<TimesheetTemplate>(`/timesheets/templates/${template.id}`, template)
+            : await api.post<TimesheetTemplate>('/timesheets/templates', template);
+        return response.data;
+    },
+    deleteTemplate: async (id: number) => {
+        const response = await api.delete(`/timesheets/templates/${id}`);
+        return response.data;
+    },
+    applyTemplates: async (weekStart: string, templateIds: number[]) => {
+        const response = await api.post<DraftEntryResult>('/timesheets/templates/apply', { week_start: weekStart, template_ids: templateIds });
+        return response.data;
+    },
+
+    // Live Timer
+    getTimer: async () => {
+        const response = await api.get<TimesheetTimer | null>('/timesheets/timer');
+        return response.data;
+    },
+    startTimer: async (data: { project_id: number; module_id: number; task_id: number; description?: string }) => {
+        const response = await api.post<TimesheetTimer>('/timesheets/timer', data);
+        return response.data;
+    },
+    pauseTimer: async () => {
+        const response = await api.post<TimesheetTimer>('/timesheets/timer/pause');
+        return response.data;
+    },
+    resumeTimer: async () => {
+        const response = await api.post<TimesheetTimer>('/timesheets/timer/resume');
+        return response.data;
+    },
+    stopTimer: async (description: string, workStatus: string) => {
+        const response = await api.post<TimesheetEntry>('/timesheets/timer/stop', { description, work_status: workStatus });
+        return response.data;
+    },
+    discardTimer: async () => {
+        const response = await api.delete('/timesheets/timer');
+        return response.data;
     }
 };
@@ -0,0 +1,111 @@
+import api from './api';
+
+export type WorkScheduleSource = 'employee' | 'department' | 'default';
+
+export type TimerRoundingMode = 'nearest' | 'up' | 'down';
+
+export interface WorkSchedule {
+    id: number;
+    name: string;
+    workingDays: number[];
+    dailyHours: number;
+    weeklyMinHours: number;
+    timerRoundingMinutes: number;
+    timerRoundingMode: TimerRoundingMode;
+    isDefault: boolean;
+    employeeCount?: number;
+    departments?: string[];
+}
+
+export interface WorkScheduleInput {
+    name: string;
+    workingDays: number[];
+    dailyHours: number;
+    weeklyMinHours: number;
+    timerRoundingMinutes?: number;
+    timerRoundingMode?: TimerRoundingMode;
+    isDefault?: boolean;
+}
+
+export interface EmployeeSchedule {
+    scheduleId: number | null;
+    name: string;
+    workingDays: number[];
+    dailyHours: number;
+    weeklyMinHours: number;
+    timerRoundingMinutes: number;
+    timerRoundingMode: TimerRoundingMode;
+    source: WorkScheduleSource;
+}
+
+export interface EmployeeScheduleAssignment {
+    employeeId: number;
+    empId: string;
+    employeeName: string;
+    role: string;
+    department: string | null;
+    assignedScheduleId: number | null;
+    schedule: EmployeeSchedule;
+}
+
+export interface DepartmentScheduleAssignment {
+    department: string;
+    employeeCount: number;
+    scheduleId: number | null;
+    scheduleName: string | null;
+}
+
+// Matches the backend fallback, used until the user's schedule has loaded
+export const DEFAULT_WORK_SCHEDULE: EmployeeSchedule = {
+    scheduleId: null,
+    name: 'Standard (Mon-Fri)',
+    workingDays: [1, 2, 3, 4, 5],
+    dailyHours: 8,
+    weeklyMinHours: 40,
+    timerRoundingMinutes: 15,
+    timerRoundingMode: 'nearest',
+    source: 'default'
+};
+
+export const getMySchedule = async (): Promise<EmployeeSchedule> => {
+    const response = await api.get('/work-schedules/me');
+    return response.data;
+};
+
+export const getSchedules = async (): Promise<WorkSchedule[]> => {
+    const response = await api.get('/work-schedules');
+    return response.data;
+};
+
+export const createSchedule = async (data: WorkScheduleInput): Promise<WorkSchedule> => {
+    const response = await api.post('/work-schedules', data);
+    return response.data;
+};
+
+export const updateSchedule = async (id: number, data: WorkScheduleInput): Promise<WorkSchedule> => {
+    const response = await api.put(`/work-schedules/${id}`, data);
+    return response.data;
+};
+
+export const deleteSchedule = async (id: number): Promise<void> => {
+    await api.delete(`/work-schedules/${id}`);
+};
+
+export const getEmployeeAssignments = async (): Promise<EmployeeScheduleAssignment[]> => {
+    const response = await api.get('/work-schedules/employees');
+    return response.data;
+};
+
+export const assignEmployees = async (employeeIds: number[], scheduleId: number | null): Promise<{ message: string; updated: number }> => {
+    const response = await api.put('/work-schedules/employees', { employeeIds, scheduleId });
+    return response.data;
+};
+
+export const getDepartmentAssignments = async (): Promise<DepartmentScheduleAssignment[]> => {
+    const response = await api.get('/work-schedules/departments');
+    return response.data;
+};
+
+export const setDepartmentSchedule = async (department: string, scheduleId: number | null): Promise<void> => {
+    await api.put('/work-schedules/departments', { department, scheduleId });
+};